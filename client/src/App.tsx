@@ -1,9 +1,11 @@
-import { Switch, Route, useLocation } from "wouter";
+import type { ReactNode } from "react";
+import { Switch, Route, Redirect, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { ThemeProvider } from "@/components/ui/theme-provider";
-import { AuthProvider } from "@/context/auth-context";
+import { AuthProvider, useAuth } from "@/context/auth-context";
+import { RealtimeProvider } from "@/context/realtime-context";
 import { MainLayout } from "@/components/layout/main-layout";
 import Dashboard from "@/pages/dashboard";
 import VenueNetwork from "@/pages/venue-network";
@@ -30,6 +32,8 @@ import TourWizard from "@/pages/tour-wizard";
 // AI enhancement page
 import AIEnhancementPage from "./pages/AIEnhancementPage";
 import DataSeedingPage from "@/pages/admin/data-seeding"; // Import the DataSeedingPage component
+import DuplicatesPage from "@/pages/admin/duplicates";
+import SyncRunsPage from "@/pages/admin/sync-runs";
 
 
 function Router() {
@@ -48,6 +52,8 @@ function Router() {
       <Route path="/map-test" component={MapTest} />
       <Route path="/admin/settings" component={AdminSettings} />
       <Route path="/admin/data-seeding" component={DataSeedingPage} />
+      <Route path="/admin/duplicates" component={DuplicatesPage} />
+      <Route path="/admin/sync-runs" component={SyncRunsPage} />
       <Route path="/auth/login" component={Login} />
       <Route path="/auth/register" component={Register} />
 
@@ -69,6 +75,21 @@ function Router() {
   );
 }
 
+// Send signed-out users to the login page; the server decides whether demo mode signs them in
+function RequireAuth({ children }: { children: ReactNode }) {
+  const { isAuthenticated, isLoading } = useAuth();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!isAuthenticated) {
+    return <Redirect to="/auth/login" />;
+  }
+
+  return <>{children}</>;
+}
+
 function App() {
   const [location] = useLocation();
 
@@ -80,18 +101,22 @@ function App() {
     <ThemeProvider defaultTheme="system">
       <QueryClientProvider client={queryClient}>
         <AuthProvider>
-          {isAuthPage ? (
-            <Router />
-          ) : isMapTestPage ? (
-            <MainLayout hideNav>
-              <MapTest />
-            </MainLayout>
-          ) : (
-            <MainLayout>
+          <RealtimeProvider>
+            {isAuthPage ? (
               <Router />
-            </MainLayout>
-          )}
-          <Toaster />
+            ) : isMapTestPage ? (
+              <MainLayout hideNav>
+                <MapTest />
+              </MainLayout>
+            ) : (
+              <RequireAuth>
+                <MainLayout>
+                  <Router />
+                </MainLayout>
+              </RequireAuth>
+            )}
+            <Toaster />
+          </RealtimeProvider>
         </AuthProvider>
       </QueryClientProvider>
     </ThemeProvider>
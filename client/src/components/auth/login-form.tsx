@@ -2,6 +2,7 @@ import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { Link } from 'wouter';
 import { useAuth } from '@/context/auth-context';
 import {
   Form,
@@ -42,8 +43,12 @@ export function LoginForm() {
     try {
       await login(values.username, values.password);
     } catch (error) {
-      // Error handling is done in the login function via the auth context
       console.error('Login submission error:', error);
+      toast({
+        title: 'Login failed',
+        description: error instanceof Error ? error.message : 'Invalid username or password',
+        variant: 'destructive',
+      });
     }
   };
   
@@ -103,16 +108,13 @@ export function LoginForm() {
           </form>
         </Form>
       </CardContent>
-      <CardFooter className="flex flex-col items-center space-y-2">
-        <p className="text-sm text-muted-foreground font-semibold">
-          Available login credentials:
+      <CardFooter className="flex justify-center">
+        <p className="text-sm text-muted-foreground">
+          Don't have an account?{' '}
+          <Link href="/auth/register" className="text-primary hover:underline">
+            Create one
+          </Link>
         </p>
-        <div className="grid grid-cols-1 gap-2 text-sm text-muted-foreground text-center">
-          <div className="px-3 py-1 bg-secondary rounded">admin / password</div>
-          <div className="px-3 py-1 bg-secondary rounded">venueManager / password</div>
-          <div className="px-3 py-1 bg-secondary rounded">manager / password</div> 
-          <div className="px-3 py-1 bg-secondary rounded">superadmin / password</div>
-        </div>
       </CardFooter>
     </Card>
   );
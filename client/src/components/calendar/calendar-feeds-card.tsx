@@ -0,0 +1,122 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarPlus, Copy, Trash2 } from 'lucide-react';
+import { useAuth } from '@/context/auth-context';
+import { VENUE_EDITOR_ROLES } from '@/lib/permissions';
+import {
+  calendarFeedUrl,
+  createCalendarFeed,
+  getCalendarFeeds,
+  revokeCalendarFeed,
+  type CalendarFeedOwner
+} from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import type { CalendarFeed } from '@/types/index';
+
+interface CalendarFeedsCardProps {
+  owner: CalendarFeedOwner;
+  ownerId: number;
+}
+
+/**
+ * Subscribe links for Google and Apple calendars. Anyone with a link can read the feed,
+ * so each one can be revoked on its own.
+ */
+export default function CalendarFeedsCard({ owner, ownerId }: CalendarFeedsCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasPermission, hasVenueAccess } = useAuth();
+  const canManage = owner === 'tours'
+    ? hasPermission('canManageTours')
+    : hasPermission('canManageVenues') && hasVenueAccess(ownerId, VENUE_EDITOR_ROLES);
+
+  const queryKey = ['/api/calendar', owner, ownerId];
+  const { data: feeds = [] } = useQuery({
+    queryKey,
+    queryFn: () => getCalendarFeeds(owner, ownerId),
+    enabled: canManage && ownerId > 0
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: 'Could not update calendar feeds', description: error.message, variant: 'destructive' });
+  };
+  const createMutation = useMutation({
+    mutationFn: () => createCalendarFeed(owner, ownerId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError
+  });
+  const revokeMutation = useMutation({
+    mutationFn: (feedId: number) => revokeCalendarFeed(owner, ownerId, feedId),
+    onSuccess: () => {
+      toast({ title: 'Feed revoked', description: 'Calendars subscribed to it stop updating.' });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError
+  });
+
+  if (!canManage) return null;
+
+  const copy = async (feed: CalendarFeed) => {
+    await navigator.clipboard.writeText(calendarFeedUrl(feed));
+    toast({ title: 'Feed URL copied' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">Calendar feeds</CardTitle>
+            <CardDescription>
+              Subscribe from Google or Apple Calendar to see {owner === 'tours' ? 'shows, holds, travel days and load-ins' : 'events, holds and load-ins'}.
+              Anyone with the link can read the feed.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            New feed
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {feeds.length > 0 ? (
+          <ul className="space-y-3">
+            {feeds.map(feed => (
+              <li key={feed.id} className="space-y-1">
+                <div className="flex gap-2">
+                  <Input readOnly value={calendarFeedUrl(feed)} className="font-mono text-xs" onFocus={e => e.target.select()} />
+                  <Button size="icon" variant="outline" title="Copy URL" onClick={() => copy(feed)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="outline"
+                    title="Revoke"
+                    onClick={() => revokeMutation.mutate(feed.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Created {formatDate(feed.createdAt)}
+                  {feed.lastAccessedAt ? ` · last fetched ${formatDate(feed.lastAccessedAt)}` : ' · not fetched yet'}
+                  {' · '}
+                  <a href={calendarFeedUrl(feed).replace(/^https?:/, 'webcal:')} className="hover:underline">
+                    Open in calendar app
+                  </a>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No feeds yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
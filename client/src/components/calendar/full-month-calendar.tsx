@@ -3,6 +3,7 @@ import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import type { DayAvailability } from '@/types/index';
 
 interface CalendarEvent {
   id: number;
@@ -24,8 +25,41 @@ interface FullMonthCalendarProps {
   selectedDate: Date;
   onDateChange: (date: Date) => void;
   onEventClick?: (event: CalendarEvent) => void;
+  // Venue availability by date (YYYY-MM-DD); days are shaded by status when given
+  availability?: Record<string, DayAvailability>;
+  // Open nights (0 = Sunday); empty when every night is open
+  openWeekdays?: number[];
+  // Makes each day's availability editable; booked days cannot be toggled
+  onToggleDay?: (date: string, day: DayAvailability) => void;
+  // Makes the weekday headers toggle the open nights
+  onToggleWeekday?: (weekday: number) => void;
 }
 
+// Header order, Monday first, as getDay() numbers
+const WEEKDAY_HEADERS: Array<[string, number]> = [
+  ['Mon', 1], ['Tue', 2], ['Wed', 3], ['Thu', 4], ['Fri', 5], ['Sat', 6], ['Sun', 0]
+];
+
+// Local calendar date as YYYY-MM-DD, the key of the availability map
+export function toDateKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+const AVAILABILITY_STYLES: Record<DayAvailability['status'], string> = {
+  open: '',
+  closed: 'bg-gray-100',
+  blackout: 'bg-red-50 bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgba(239,68,68,0.08)_6px,rgba(239,68,68,0.08)_12px)]',
+  booked: 'bg-green-50'
+};
+
+const AVAILABILITY_ACTIONS: Record<DayAvailability['status'], string | null> = {
+  open: 'Close',
+  closed: 'Open',
+  blackout: 'Clear',
+  booked: null
+};
+
 interface CalendarDay {
   date: Date;
   isCurrentMonth: boolean;
@@ -38,7 +72,11 @@ const FullMonthCalendar: React.FC<FullMonthCalendarProps> = ({
   events,
   selectedDate,
   onDateChange,
-  onEventClick
+  onEventClick,
+  availability,
+  openWeekdays,
+  onToggleDay,
+  onToggleWeekday
 }) => {
   const isMobile = useIsMobile();
   const [calendarDays, setCalendarDays] = useState<CalendarDay[]>([]);
@@ -223,17 +261,51 @@ const FullMonthCalendar: React.FC<FullMonthCalendarProps> = ({
   }
   
   const getDayClass = (day: CalendarDay) => {
+    const dayAvailability = availability?.[toDateKey(day.date)];
     return cn(
       "relative h-24 sm:h-32 p-1 sm:p-2 border border-gray-200 bg-white",
       "transition-all duration-200 ease-in-out",
       "first:rounded-tl-lg last:rounded-tr-lg",
       "[&:nth-child(n+36)]:rounded-b-lg", 
       !day.isCurrentMonth && "bg-gray-50/50 text-gray-400",
+      dayAvailability && AVAILABILITY_STYLES[dayAvailability.status],
       day.isToday && "bg-blue-50/20 font-medium",
       day.isSelected && "ring-2 ring-primary ring-inset",
       "hover:bg-gray-50 cursor-pointer"
     );
   };
+
+  const isOpenWeekday = (weekday: number) =>
+    !openWeekdays || openWeekdays.length === 0 || openWeekdays.includes(weekday);
+
+  // Why a day is unavailable, or the button that changes it when editing
+  function renderAvailability(day: CalendarDay) {
+    const dayAvailability = availability?.[toDateKey(day.date)];
+    if (!dayAvailability) return null;
+
+    const action = AVAILABILITY_ACTIONS[dayAvailability.status];
+    if (onToggleDay && action) {
+      return (
+        <button
+          type="button"
+          title={dayAvailability.detail ?? undefined}
+          className="rounded px-1 text-[10px] font-normal text-gray-500 hover:bg-gray-200 hover:text-gray-900"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleDay(toDateKey(day.date), dayAvailability);
+          }}
+        >
+          {action}
+        </button>
+      );
+    }
+
+    return (
+      <span className="truncate text-[10px] font-normal text-gray-500" title={dayAvailability.detail ?? undefined}>
+        {dayAvailability.status !== 'open' ? dayAvailability.detail : ''}
+      </span>
+    );
+  }
   
   return (
     <div className="w-full">
@@ -252,7 +324,20 @@ const FullMonthCalendar: React.FC<FullMonthCalendarProps> = ({
       </div>
       
       <div className="mb-2 grid grid-cols-7 text-center rounded-t-lg overflow-hidden">
-        {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map(day => (
+        {WEEKDAY_HEADERS.map(([day, weekday]) => onToggleWeekday ? (
+          <button
+            key={day}
+            type="button"
+            title={isOpenWeekday(weekday) ? `Stop booking ${day} nights` : `Book ${day} nights`}
+            className={cn(
+              "font-medium text-xs sm:text-sm py-3 border-b border-gray-200 transition-colors",
+              isOpenWeekday(weekday) ? "bg-green-100 text-green-800 hover:bg-green-200" : "bg-gray-100 text-gray-400 line-through hover:bg-gray-200"
+            )}
+            onClick={() => onToggleWeekday(weekday)}
+          >
+            {day}
+          </button>
+        ) : (
           <div 
             key={day} 
             className="font-medium text-xs sm:text-sm py-3 bg-gray-100 border-b border-gray-200"
@@ -269,8 +354,9 @@ const FullMonthCalendar: React.FC<FullMonthCalendarProps> = ({
             className={getDayClass(day)}
             onClick={() => handleDayClick(day)}
           >
-            <div className="text-right font-medium text-xs sm:text-sm mb-1 sticky top-0 bg-white/90">
-              {day.date.getDate()}
+            <div className="flex items-center justify-between gap-1 font-medium text-xs sm:text-sm mb-1 sticky top-0 bg-white/90">
+              {renderAvailability(day)}
+              <span className="ml-auto">{day.date.getDate()}</span>
             </div>
             
             <div className="space-y-0.5 sm:space-y-1 overflow-y-auto max-h-16 sm:max-h-24">
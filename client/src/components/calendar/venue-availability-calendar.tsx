@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { X } from 'lucide-react';
+import FullMonthCalendar, { toDateKey } from '@/components/calendar/full-month-calendar';
+import { useAuth } from '@/context/auth-context';
+import { VENUE_EDITOR_ROLES } from '@/lib/permissions';
+import { addVenueBlackout, getVenueAvailability, removeVenueBlackout, updateVenueOpenNights } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import type { DayAvailability, VenueAvailability } from '@/types/index';
+
+interface VenueAvailabilityCalendarProps {
+  venueId: number;
+}
+
+const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+// The month grid shows up to a week either side of the month
+function visibleRange(month: Date): { from: string; to: string } {
+  return {
+    from: toDateKey(new Date(month.getFullYear(), month.getMonth(), -6)),
+    to: toDateKey(new Date(month.getFullYear(), month.getMonth() + 1, 14))
+  };
+}
+
+/**
+ * A venue's availability by month: open nights, one-off open dates, blackouts and the
+ * dates confirmed events and holds have taken. Venue owners and bookers can edit it.
+ */
+export default function VenueAvailabilityCalendar({ venueId }: VenueAvailabilityCalendarProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasPermission, hasVenueAccess } = useAuth();
+  const canEdit = hasPermission('canManageVenues') && hasVenueAccess(venueId, VENUE_EDITOR_ROLES);
+
+  const [selectedDate, setSelectedDate] = useState(new Date());
+  const [blackout, setBlackout] = useState({ startDate: '', endDate: '', reason: '' });
+  const { from, to } = visibleRange(selectedDate);
+
+  const queryKey = ['/api/venue-availability', venueId, from, to];
+  const { data: availability, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getVenueAvailability(venueId, from, to),
+    enabled: venueId > 0
+  });
+
+  const days = useMemo(() => Object.fromEntries(
+    (availability?.days ?? []).map(day => [day.date, day] as const)
+  ), [availability]);
+
+  const bookedEvents = useMemo(() => (availability?.booked ?? []).map((booking, index) => ({
+    id: index,
+    date: new Date(`${booking.date}T00:00:00`),
+    title: booking.label,
+    type: 'confirmed' as const
+  })), [availability]);
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['/api/venue-availability', venueId] });
+  const onError = (error: Error) => {
+    toast({ title: 'Could not update availability', description: error.message, variant: 'destructive' });
+  };
+
+  const openNightsMutation = useMutation({
+    mutationFn: (update: Pick<VenueAvailability, 'openWeekdays' | 'openDates'>) => updateVenueOpenNights(venueId, update),
+    onSuccess,
+    onError
+  });
+  const addBlackoutMutation = useMutation({
+    mutationFn: (input: { startDate: string; endDate: string; reason: string | null }) => addVenueBlackout(venueId, input),
+    onSuccess: () => {
+      setBlackout({ startDate: '', endDate: '', reason: '' });
+      onSuccess();
+    },
+    onError
+  });
+  const removeBlackoutMutation = useMutation({
+    mutationFn: (blackoutId: number) => removeVenueBlackout(venueId, blackoutId),
+    onSuccess,
+    onError
+  });
+
+  if (!availability) {
+    return isLoading ? (
+      <div className="py-8 flex justify-center">
+        <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    ) : null;
+  }
+
+  const rules = { openWeekdays: availability.openWeekdays, openDates: availability.openDates };
+
+  const toggleWeekday = (weekday: number) => {
+    // No open nights means every night is open
+    const open = rules.openWeekdays.length === 0 ? ALL_WEEKDAYS : rules.openWeekdays;
+    const next = open.includes(weekday) ? open.filter(day => day !== weekday) : [...open, weekday];
+    openNightsMutation.mutate({ ...rules, openWeekdays: next.length === ALL_WEEKDAYS.length ? [] : next });
+  };
+
+  const toggleDay = (date: string, day: DayAvailability) => {
+    if (day.status === 'closed') {
+      openNightsMutation.mutate({ ...rules, openDates: [...rules.openDates, date] });
+    } else if (day.status === 'open' && rules.openDates.includes(date)) {
+      openNightsMutation.mutate({ ...rules, openDates: rules.openDates.filter(open => open !== date) });
+    } else if (day.status === 'open') {
+      addBlackoutMutation.mutate({ startDate: date, endDate: date, reason: null });
+    } else if (day.status === 'blackout') {
+      const covering = availability.blackouts.find(range => range.startDate <= date && date <= range.endDate);
+      if (covering) removeBlackoutMutation.mutate(covering.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Availability</CardTitle>
+          <CardDescription>
+            Tour planning only suggests dates the venue can take.
+            {canEdit && ' Click a weekday to change the nights you book shows, and use a day\'s button to open or close it.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <FullMonthCalendar
+            events={bookedEvents}
+            selectedDate={selectedDate}
+            onDateChange={setSelectedDate}
+            availability={days}
+            openWeekdays={availability.openWeekdays}
+            onToggleDay={canEdit ? toggleDay : undefined}
+            onToggleWeekday={canEdit ? toggleWeekday : undefined}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Blackouts</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {availability.blackouts.length > 0 ? (
+            <ul className="space-y-2">
+              {availability.blackouts.map(range => (
+                <li key={range.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                  <span>
+                    {formatDate(range.startDate)}
+                    {range.endDate !== range.startDate && ` – ${formatDate(range.endDate)}`}
+                    {range.reason && <span className="text-muted-foreground"> · {range.reason}</span>}
+                  </span>
+                  {canEdit && (
+                    <Button size="icon" variant="ghost" onClick={() => removeBlackoutMutation.mutate(range.id)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No blackouts in this month.</p>
+          )}
+
+          {canEdit && (
+            <form
+              className="grid gap-3 sm:grid-cols-[1fr_1fr_2fr_auto] sm:items-end"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addBlackoutMutation.mutate({
+                  startDate: blackout.startDate,
+                  endDate: blackout.endDate || blackout.startDate,
+                  reason: blackout.reason.trim() || null
+                });
+              }}
+            >
+              <div className="space-y-1">
+                <Label htmlFor="blackout-start" className="text-xs">From</Label>
+                <Input
+                  id="blackout-start"
+                  type="date"
+                  required
+                  value={blackout.startDate}
+                  onChange={e => setBlackout({ ...blackout, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="blackout-end" className="text-xs">To</Label>
+                <Input
+                  id="blackout-end"
+                  type="date"
+                  min={blackout.startDate}
+                  value={blackout.endDate}
+                  onChange={e => setBlackout({ ...blackout, endDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="blackout-reason" className="text-xs">Reason</Label>
+                <Input
+                  id="blackout-reason"
+                  placeholder="e.g. Renovation"
+                  value={blackout.reason}
+                  onChange={e => setBlackout({ ...blackout, reason: e.target.value })}
+                />
+              </div>
+              <Button type="submit" disabled={addBlackoutMutation.isPending}>Black out</Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
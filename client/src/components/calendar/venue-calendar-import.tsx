@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Upload } from 'lucide-react';
+import { useAuth } from '@/context/auth-context';
+import { VENUE_EDITOR_ROLES } from '@/lib/permissions';
+import { importVenueCalendar } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import type { CalendarImportResult } from '@/types/index';
+
+interface VenueCalendarImportProps {
+  venueId: number;
+}
+
+type ImportTarget = 'events' | 'blackouts';
+
+/**
+ * Import an .ics file exported from another calendar as events or blackout dates
+ */
+export default function VenueCalendarImport({ venueId }: VenueCalendarImportProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { hasPermission, hasVenueAccess } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [createAs, setCreateAs] = useState<ImportTarget>('events');
+  const [result, setResult] = useState<CalendarImportResult | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async () => importVenueCalendar(venueId, await file!.text(), { createAs }),
+    onSuccess: (imported) => {
+      setResult(imported);
+      toast({
+        title: 'Calendar imported',
+        description: `${imported.created} added, ${imported.updated} updated, ${imported.skipped.length} skipped`
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/venue-availability', venueId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/venues', venueId, 'events'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not import the calendar', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  if (!hasPermission('canManageVenues') || !hasVenueAccess(venueId, VENUE_EDITOR_ROLES)) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Import a calendar</CardTitle>
+        <CardDescription>
+          Events are matched to artists by name; importing the same file again updates the events it added.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="grid gap-4 sm:grid-cols-[2fr_1fr_auto] sm:items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (file) importMutation.mutate();
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="calendar-file" className="text-xs">.ics file</Label>
+            <Input
+              id="calendar-file"
+              type="file"
+              accept=".ics,text/calendar"
+              required
+              onChange={e => {
+                setFile(e.target.files?.[0] ?? null);
+                setResult(null);
+              }}
+            />
+          </div>
+          <RadioGroup value={createAs} onValueChange={value => setCreateAs(value as ImportTarget)} className="gap-1">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="events" id="import-events" />
+              <Label htmlFor="import-events" className="text-sm font-normal">As events</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="blackouts" id="import-blackouts" />
+              <Label htmlFor="import-blackouts" className="text-sm font-normal">As blackouts</Label>
+            </div>
+          </RadioGroup>
+          <Button type="submit" disabled={!file || importMutation.isPending}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+        </form>
+
+        {result && result.skipped.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Skipped</p>
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              {result.skipped.map((entry, index) => (
+                <li key={index}>
+                  {formatDate(entry.date)} · {entry.summary || 'Untitled'} · {entry.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PermissionGate } from '@/components/auth/permission-gate';
+import { CalendarCheck, Clock, Swords } from 'lucide-react';
+import { confirmHold, getVenueHolds, releaseHold } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import type { HoldDate, HoldEntry } from '@/types/index';
+
+interface VenueHoldCalendarProps {
+  venueId: number;
+}
+
+const ordinal = (rank: number) => {
+  const suffix = rank % 100 >= 11 && rank % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][rank % 10] ?? 'th';
+  return `${rank}${suffix}`;
+};
+
+function timeLeft(deadline: string): string {
+  const hours = Math.max(0, Math.round((new Date(deadline).getTime() - Date.now()) / (60 * 60 * 1000)));
+  return hours >= 48 ? `${Math.round(hours / 24)} days left` : `${hours}h left`;
+}
+
+function HoldRow({ hold, day }: { hold: HoldEntry; day: HoldDate }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const challenger = day.holds.find(other => other.id === hold.challengedById);
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/holds'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/tours', hold.tourId] });
+  };
+  const confirmMutation = useMutation({
+    mutationFn: () => confirmHold(hold.id),
+    onSuccess: (updated) => {
+      toast({
+        title: updated.status === 'confirmed' ? 'Hold confirmed' : 'Holds above challenged',
+        description: updated.status === 'confirmed'
+          ? `${hold.artistName} has ${formatDate(day.date)}; lower holds were released.`
+          : 'They have until the challenge deadline to confirm or release.'
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not confirm the hold', description: error.message, variant: 'destructive' });
+    },
+    onSettled
+  });
+  const releaseMutation = useMutation({
+    mutationFn: () => releaseHold(hold.id),
+    onSuccess: () => toast({ title: 'Hold released' }),
+    onError: (error: Error) => {
+      toast({ title: 'Could not release the hold', description: error.message, variant: 'destructive' });
+    },
+    onSettled
+  });
+  const busy = confirmMutation.isPending || releaseMutation.isPending;
+
+  return (
+    <div className="flex flex-col gap-2 rounded-md border p-3 sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-start gap-3">
+        <Badge variant={hold.rank === 1 ? 'default' : 'secondary'} className="mt-0.5 w-12 justify-center">
+          {ordinal(hold.rank ?? 0)}
+        </Badge>
+        <div>
+          <div className="font-medium">{hold.artistName}</div>
+          <Link href={`/tours/${hold.tourId}`} className="text-sm text-muted-foreground hover:underline">
+            {hold.tourName}
+          </Link>
+          {hold.challengeDeadline && (
+            <div className="mt-1 flex items-center gap-1 text-xs text-amber-700">
+              <Swords className="h-3 w-3" />
+              Challenging the holds above · {timeLeft(hold.challengeDeadline)}
+            </div>
+          )}
+          {challenger?.challengeDeadline && (
+            <div className="mt-1 flex items-center gap-1 text-xs text-red-700">
+              <Clock className="h-3 w-3" />
+              Challenged by {challenger.artistName} · confirm or release by {new Date(challenger.challengeDeadline).toLocaleString()}
+            </div>
+          )}
+        </div>
+      </div>
+      <PermissionGate permission="canManageTours">
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" disabled={busy || !!hold.challengeDeadline} onClick={() => confirmMutation.mutate()}>
+            {hold.rank === 1 ? 'Confirm' : 'Challenge'}
+          </Button>
+          <Button size="sm" variant="ghost" disabled={busy} onClick={() => releaseMutation.mutate()}>
+            Release
+          </Button>
+        </div>
+      </PermissionGate>
+    </div>
+  );
+}
+
+/**
+ * A venue's hold stack for each upcoming date: the confirmed show, if any, and the
+ * active holds by rank with any running challenge
+ */
+export default function VenueHoldCalendar({ venueId }: VenueHoldCalendarProps) {
+  const from = new Date().toISOString().split('T')[0];
+  const { data: dates, isLoading, error } = useQuery({
+    queryKey: ['/api/holds', 'venues', venueId, from],
+    queryFn: () => getVenueHolds(venueId, { from }),
+    enabled: venueId > 0
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Holds</CardTitle>
+        <CardDescription>
+          Holds rank in the order they were placed. A lower hold can challenge the holds above it, which then have
+          until the deadline to confirm or release.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 flex justify-center">
+            <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : error ? (
+          <div className="py-8 text-center text-red-600">{(error as Error).message}</div>
+        ) : dates && dates.length > 0 ? (
+          <div className="space-y-6">
+            {dates.map(day => (
+              <div key={day.date}>
+                <div className="mb-2 flex items-center justify-between">
+                  <h4 className="font-medium">{formatDate(day.date)}</h4>
+                  {day.confirmed ? (
+                    <Badge className="bg-green-600 hover:bg-green-600">
+                      <CalendarCheck className="mr-1 h-3 w-3" />
+                      Confirmed: {day.confirmed.artistName}
+                    </Badge>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">
+                      {day.holds.length} {day.holds.length === 1 ? 'hold' : 'holds'}
+                    </span>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {day.holds.map(hold => <HoldRow key={hold.id} hold={hold} day={day} />)}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="py-8 text-center text-gray-500">
+            No holds on upcoming dates.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
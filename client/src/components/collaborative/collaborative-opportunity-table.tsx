@@ -2,7 +2,7 @@ import React from "react";
 import { DataTable } from "@/components/ui/data-table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { CollaborativeOpportunityWithDetails } from "@/types";
+import type { CollaborativeOpportunityWithDetails } from "@/types/index";
 import { Calendar, Music, Users } from "lucide-react";
 
 interface CollaborativeOpportunityTableProps {
@@ -42,8 +42,8 @@ export function CollaborativeOpportunityTable({
   const columns = [
     {
       header: "Artist",
-      accessorKey: "artist",
-      cell: (row: { artist: any }) => (
+      accessorKey: (row: CollaborativeOpportunityWithDetails) => row.artist.name,
+      cell: (row: CollaborativeOpportunityWithDetails) => (
         <div className="flex items-center space-x-2">
           <Music className="h-4 w-4 text-gray-400" />
           <span>{row.artist.name}</span>
@@ -52,8 +52,8 @@ export function CollaborativeOpportunityTable({
     },
     {
       header: "Participating Venues",
-      accessorKey: "participants",
-      cell: (row: { participants: any[] }) => (
+      accessorKey: (row: CollaborativeOpportunityWithDetails) => row.participants.map(p => p.venue.name).join(" "),
+      cell: (row: CollaborativeOpportunityWithDetails) => (
         <div className="flex items-center space-x-2">
           <Users className="h-4 w-4 text-gray-400" />
           <span>{row.participants.length} venues</span>
@@ -62,8 +62,8 @@ export function CollaborativeOpportunityTable({
     },
     {
       header: "Date Range",
-      accessorKey: "dateRange",
-      cell: (row: { dateRangeStart: string; dateRangeEnd: string }) => (
+      accessorKey: (row: CollaborativeOpportunityWithDetails) => formatDateRange(row.dateRangeStart, row.dateRangeEnd),
+      cell: (row: CollaborativeOpportunityWithDetails) => (
         <div className="flex items-center space-x-2">
           <Calendar className="h-4 w-4 text-gray-400" />
           <span>{formatDateRange(row.dateRangeStart, row.dateRangeEnd)}</span>
@@ -72,12 +72,12 @@ export function CollaborativeOpportunityTable({
     },
     {
       header: "Status",
-      accessorKey: "status",
-      cell: (row: { status: string }) => getStatusBadge(row.status)
+      accessorKey: (row: CollaborativeOpportunityWithDetails) => row.status,
+      cell: (row: CollaborativeOpportunityWithDetails) => getStatusBadge(row.status)
     },
     {
       header: "Actions",
-      accessorKey: "id",
+      accessorKey: (row: CollaborativeOpportunityWithDetails) => row.id,
       cell: (row: CollaborativeOpportunityWithDetails) => (
         <Button 
           variant="link" 
@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { createCollaborativeOpportunity, getArtists } from "@/lib/api";
+
+interface ConnectedVenue {
+  id: number;
+  name: string;
+  city?: string;
+}
+
+interface CreateOpportunityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  venueId: number;
+  connectedVenues: ConnectedVenue[];
+}
+
+export function CreateOpportunityDialog({
+  open,
+  onOpenChange,
+  venueId,
+  connectedVenues
+}: CreateOpportunityDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [artistId, setArtistId] = useState<string>("");
+  const [dateRangeStart, setDateRangeStart] = useState("");
+  const [dateRangeEnd, setDateRangeEnd] = useState("");
+  const [invitedVenueIds, setInvitedVenueIds] = useState<number[]>([]);
+  const [notes, setNotes] = useState("");
+
+  const { data: artistsData } = useQuery<{ artists: Array<{ id: number; name: string }> }>({
+    queryKey: ['/api/artists', { limit: 200 }],
+    queryFn: () => getArtists({ limit: 200 }),
+    enabled: open
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createCollaborativeOpportunity,
+    onSuccess: () => {
+      toast({
+        title: "Opportunity created",
+        description: "Invited venues can now propose their dates"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/venue-network/opportunities', venueId] });
+      setArtistId("");
+      setDateRangeStart("");
+      setDateRangeEnd("");
+      setInvitedVenueIds([]);
+      setNotes("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggleVenue = (id: number, checked: boolean) => {
+    setInvitedVenueIds(prev => checked ? [...prev, id] : prev.filter(v => v !== id));
+  };
+
+  const canSubmit = artistId && dateRangeStart && dateRangeEnd && invitedVenueIds.length > 0;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    createMutation.mutate({
+      creatorVenueId: venueId,
+      artistId: Number(artistId),
+      dateRangeStart,
+      dateRangeEnd,
+      invitedVenueIds,
+      notes: notes.trim() || undefined
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Collaborative Opportunity</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Artist</Label>
+            <Select value={artistId} onValueChange={setArtistId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select an artist" />
+              </SelectTrigger>
+              <SelectContent>
+                {(artistsData?.artists || []).map(artist => (
+                  <SelectItem key={artist.id} value={String(artist.id)}>{artist.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="opportunity-start">From</Label>
+              <Input id="opportunity-start" type="date" value={dateRangeStart} onChange={(e) => setDateRangeStart(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="opportunity-end">To</Label>
+              <Input id="opportunity-end" type="date" value={dateRangeEnd} onChange={(e) => setDateRangeEnd(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Invite connected venues</Label>
+            {connectedVenues.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Connect with other venues to collaborate on routing</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto space-y-2 border rounded-md p-3">
+                {connectedVenues.map(venue => (
+                  <label key={venue.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={invitedVenueIds.includes(venue.id)}
+                      onCheckedChange={(checked) => toggleVenue(venue.id, checked === true)}
+                    />
+                    <span>{venue.name}{venue.city ? `, ${venue.city}` : ""}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="opportunity-notes">Notes</Label>
+            <Textarea
+              id="opportunity-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Anything the other venues should know"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || createMutation.isPending}>
+            Create Opportunity
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/auth-context";
+import { VENUE_EDITOR_ROLES } from "@/lib/permissions";
+import type { CollaborativeOpportunityWithDetails } from "@/types/index";
+import {
+  buildCollaborativeProposal,
+  confirmCollaborativeOpportunity,
+  rejectCollaborativeOpportunity,
+  respondToCollaborativeOpportunity
+} from "@/lib/api";
+import { AlertTriangle, MapPin, Route } from "lucide-react";
+
+interface OpportunityDetailsDialogProps {
+  opportunity: CollaborativeOpportunityWithDetails | null;
+  venueId: number;
+  onOpenChange: (open: boolean) => void;
+}
+
+const participantStatusColors: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  accepted: "bg-green-100 text-green-800",
+  declined: "bg-red-100 text-red-800"
+};
+
+export function OpportunityDetailsDialog({ opportunity, venueId, onOpenChange }: OpportunityDetailsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasVenueAccess } = useAuth();
+  const [proposedDate, setProposedDate] = useState("");
+
+  const onSuccess = (title: string) => () => {
+    toast({ title });
+    queryClient.invalidateQueries({ queryKey: ['/api/venue-network/opportunities', venueId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const respondMutation = useMutation({
+    mutationFn: (data: { status: 'accepted' | 'declined'; proposedDate?: string }) =>
+      respondToCollaborativeOpportunity(opportunity!.id, { venueId, ...data }),
+    onSuccess: onSuccess("Response saved"),
+    onError
+  });
+
+  const proposalMutation = useMutation({
+    mutationFn: () => buildCollaborativeProposal(opportunity!.id),
+    onSuccess: onSuccess("Routing proposal built"),
+    onError
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: () => confirmCollaborativeOpportunity(opportunity!.id),
+    onSuccess: onSuccess("Proposal added to the artist's tour"),
+    onError
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: () => rejectCollaborativeOpportunity(opportunity!.id),
+    onSuccess: onSuccess("Opportunity called off"),
+    onError
+  });
+
+  if (!opportunity) {
+    return null;
+  }
+
+  const isOpen = opportunity.status === "pending" || opportunity.status === "ready";
+  const isCreator = opportunity.creatorVenueId === venueId && hasVenueAccess(venueId, VENUE_EDITOR_ROLES);
+  const canRespond = isOpen && hasVenueAccess(venueId, VENUE_EDITOR_ROLES) &&
+    opportunity.participants.some(p => p.venueId === venueId);
+  const proposal = opportunity.proposal;
+
+  return (
+    <Dialog open={!!opportunity} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{opportunity.artist.name} with {opportunity.creatorVenue.name}</DialogTitle>
+          <p className="text-sm text-muted-foreground">
+            {new Date(opportunity.dateRangeStart).toLocaleDateString()} - {new Date(opportunity.dateRangeEnd).toLocaleDateString()}
+          </p>
+        </DialogHeader>
+
+        {opportunity.notes && <p className="text-sm">{opportunity.notes}</p>}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Participating venues</h4>
+          {opportunity.participants.map(participant => (
+            <div key={participant.id} className="flex items-center justify-between p-2 border rounded-md">
+              <div className="flex items-center space-x-2">
+                <MapPin className="h-4 w-4 text-gray-400" />
+                <span className="text-sm">{participant.venue.name}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                {participant.proposedDate && (
+                  <span className="text-sm text-muted-foreground">
+                    {new Date(participant.proposedDate).toLocaleDateString()}
+                  </span>
+                )}
+                <Badge className={participantStatusColors[participant.status] || participantStatusColors.pending}>
+                  {participant.status}
+                </Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {canRespond && (
+          <div className="flex items-end space-x-2">
+            <div className="flex-1">
+              <label htmlFor="collaborative-date" className="text-sm font-medium">Your proposed date</label>
+              <Input
+                id="collaborative-date"
+                type="date"
+                min={opportunity.dateRangeStart}
+                max={opportunity.dateRangeEnd}
+                value={proposedDate}
+                onChange={(e) => setProposedDate(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={() => respondMutation.mutate({ status: "accepted", proposedDate })}
+              disabled={!proposedDate || respondMutation.isPending}
+            >
+              Propose Date
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => respondMutation.mutate({ status: "declined" })}
+              disabled={respondMutation.isPending}
+            >
+              Decline
+            </Button>
+          </div>
+        )}
+
+        {proposal && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium flex items-center">
+              <Route className="h-4 w-4 mr-1" /> Routing proposal ({proposal.totalDistanceKm.toFixed(1)} km)
+            </h4>
+            {proposal.dateConflicts.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  More than one venue proposed {proposal.dateConflicts.join(", ")}
+                </AlertDescription>
+              </Alert>
+            )}
+            <ol className="space-y-1 text-sm">
+              {proposal.stops.map((stop, index) => (
+                <li key={stop.participantId} className="flex justify-between">
+                  <span>{index + 1}. {stop.venueName} - {new Date(stop.date).toLocaleDateString()}</span>
+                  {index > 0 && <span className="text-muted-foreground">{stop.distanceFromPreviousKm.toFixed(1)} km</span>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {isCreator && isOpen && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => rejectMutation.mutate()} disabled={rejectMutation.isPending}>
+              Call Off
+            </Button>
+            <Button variant="outline" onClick={() => proposalMutation.mutate()} disabled={proposalMutation.isPending}>
+              Build Routing Proposal
+            </Button>
+            <Button
+              onClick={() => confirmMutation.mutate()}
+              disabled={opportunity.status !== "ready" || !!proposal?.dateConflicts.length || confirmMutation.isPending}
+            >
+              Confirm and Add to Tour
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
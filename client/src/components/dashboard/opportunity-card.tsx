@@ -3,19 +3,21 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Calendar, Music, MapPin } from "lucide-react";
-import { PredictionWithDetails } from "@/types";
+import type { PredictionWithDetails } from "@/types/index";
 import { formatDate } from "@/lib/utils";
 
 interface OpportunityCardProps {
   prediction: PredictionWithDetails;
-  onSendInquiry: (prediction: PredictionWithDetails) => void;
-  onViewDetails: (prediction: PredictionWithDetails) => void;
+  onAccept: (prediction: PredictionWithDetails) => void;
+  onDismiss: (prediction: PredictionWithDetails) => void;
+  disabled?: boolean;
 }
 
 export function OpportunityCard({ 
   prediction, 
-  onSendInquiry, 
-  onViewDetails 
+  onAccept, 
+  onDismiss,
+  disabled
 }: OpportunityCardProps) {
   const { artist, suggestedDate, confidenceScore, reasoning } = prediction;
 
@@ -61,15 +63,17 @@ export function OpportunityCard({
         <div className="mt-4 flex space-x-3">
           <Button
             className="text-white"
-            onClick={() => onSendInquiry(prediction)}
+            onClick={() => onAccept(prediction)}
+            disabled={disabled}
           >
-            Send Inquiry
+            Accept
           </Button>
           <Button
             variant="outline"
-            onClick={() => onViewDetails(prediction)}
+            onClick={() => onDismiss(prediction)}
+            disabled={disabled}
           >
-            View Details
+            Dismiss
           </Button>
         </div>
       </CardContent>
@@ -0,0 +1,103 @@
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { OpportunityCard } from "@/components/dashboard/opportunity-card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/auth-context";
+import { VENUE_EDITOR_ROLES } from "@/lib/permissions";
+import { acceptPrediction, dismissPrediction, generatePredictions, getPredictionsWithDetails } from "@/lib/api";
+import type { PredictionWithDetails } from "@/types/index";
+import { RefreshCw } from "lucide-react";
+
+// Artists with routing gaps near the current venue, written by the prediction job
+export function PassingArtistsWidget() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { currentVenueId, hasVenueAccess } = useAuth();
+  const canReview = currentVenueId !== null && hasVenueAccess(currentVenueId, VENUE_EDITOR_ROLES);
+  const queryKey = ['/api/predictions', currentVenueId];
+
+  const { data: predictions = [], isLoading } = useQuery<PredictionWithDetails[]>({
+    queryKey,
+    queryFn: () => getPredictionsWithDetails(currentVenueId!),
+    enabled: currentVenueId !== null,
+    staleTime: 1000 * 60 * 5 // Cache for 5 minutes
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: (prediction: PredictionWithDetails) => acceptPrediction(prediction.id),
+    onSuccess: (_, prediction) => {
+      toast({
+        title: "Prediction accepted",
+        description: `${prediction.artist.name} is on your shortlist for ${prediction.suggestedDate}`
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (prediction: PredictionWithDetails) => dismissPrediction(prediction.id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: () => generatePredictions(currentVenueId!),
+    onSuccess: (result: { written: number }) => {
+      toast({ title: "Predictions refreshed", description: `${result.written} artists found near your venue` });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError
+  });
+
+  const isReviewing = acceptMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium text-gray-900">Artists Likely Passing Through Your City</h2>
+        {canReview && (
+          <Button variant="outline" size="sm" onClick={() => refreshMutation.mutate()} disabled={refreshMutation.isPending}>
+            <RefreshCw className="h-4 w-4 text-gray-400 mr-1" />
+            Refresh
+          </Button>
+        )}
+      </div>
+
+      {currentVenueId === null ? (
+        <p className="mt-4 text-sm text-gray-500">Select a venue to see artists routing near you.</p>
+      ) : isLoading ? (
+        <div className="mt-4 grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="bg-white rounded-lg shadow h-48 animate-pulse">
+              <div className="p-4">
+                <div className="h-4 bg-gray-200 rounded w-3/4 mb-3"></div>
+                <div className="h-4 bg-gray-200 rounded w-1/2 mb-6"></div>
+                <div className="h-20 bg-gray-200 rounded mb-4"></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : predictions.length === 0 ? (
+        <p className="mt-4 text-sm text-gray-500">No artists with open dates near your venue right now.</p>
+      ) : (
+        <div className="mt-4 grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
+          {predictions.map((prediction) => (
+            <OpportunityCard
+              key={prediction.id}
+              prediction={prediction}
+              onAccept={(p) => acceptMutation.mutate(p)}
+              onDismiss={(p) => dismissMutation.mutate(p)}
+              disabled={!canReview || isReviewing}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
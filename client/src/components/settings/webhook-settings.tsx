@@ -12,9 +12,14 @@ import {
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Spinner } from '@/components/ui/spinner';
 import { useToast } from '@/hooks/use-toast';
-import { AlertCircle, CheckCircle, Calendar, Users, Briefcase, Music, Radio } from 'lucide-react';
+import { AlertCircle, CheckCircle, Calendar, Users, Briefcase, Music, Radio, Send, Trash2 } from 'lucide-react';
+import { webhookEventTypes } from '@shared/utils/outbound-webhooks';
+import type { WebhookDelivery, WebhookSubscription } from '@/types/index';
 
 type WebhookConfiguration = {
   id: number;
@@ -240,6 +245,403 @@ export function WebhookSettings() {
           </div>
         )}
       </div>
+
+      <OutboundWebhooks />
+    </div>
+  );
+}
+
+const deliveryStatusVariant: Record<WebhookDelivery['status'], 'default' | 'secondary' | 'destructive'> = {
+  succeeded: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+// A subscription's most recent deliveries, each of which can be sent again
+function DeliveryLog({ subscriptionId }: { subscriptionId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const deliveriesKey = [`/api/admin/webhook-subscriptions/${subscriptionId}/deliveries`];
+
+  const { data: deliveries, isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: deliveriesKey,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: number) => {
+      return apiRequest(`/api/admin/webhook-subscriptions/deliveries/${deliveryId}/redeliver`, {
+        method: 'POST',
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+      toast({
+        title: 'Delivery queued',
+        description: 'The event will be posted again shortly.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: 'Failed to queue the delivery.',
+        variant: 'destructive',
+      });
+      console.error('Error redelivering webhook:', error);
+    },
+  });
+
+  if (isLoading) {
+    return <Spinner className="h-4 w-4" />;
+  }
+
+  if (!deliveries || deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No deliveries yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="flex items-center justify-between gap-2 text-xs border rounded p-2">
+          <div className="min-w-0 space-y-1">
+            <div className="flex items-center gap-2">
+              <Badge variant={deliveryStatusVariant[delivery.status]}>{delivery.status}</Badge>
+              <code>{delivery.eventType}</code>
+              {delivery.responseStatus !== null && (
+                <span className="text-muted-foreground">HTTP {delivery.responseStatus}</span>
+              )}
+            </div>
+            <div className="text-muted-foreground">
+              {new Date(delivery.createdAt).toLocaleString()}
+              {' · '}
+              {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+              {delivery.durationMs !== null && ` · ${delivery.durationMs}ms`}
+            </div>
+            {delivery.error && <div className="text-destructive truncate">{delivery.error}</div>}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => redeliverMutation.mutate(delivery.id)}
+            disabled={delivery.status === 'pending' || redeliverMutation.isPending}
+          >
+            Redeliver
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Subscriptions that post tour and booking changes to external systems
+function OutboundWebhooks() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [testingId, setTestingId] = useState<number | null>(null);
+  const [openLogId, setOpenLogId] = useState<number | null>(null);
+  // The secret is only sent when it is created or rotated, so it is shown until the next one
+  const [newSecret, setNewSecret] = useState<{ id: number; secret: string } | null>(null);
+
+  const { data: subscriptions, isLoading } = useQuery<WebhookSubscription[]>({
+    queryKey: ['/api/admin/webhook-subscriptions'],
+    retry: 1
+  });
+
+  const invalidateSubscriptions = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/webhook-subscriptions'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<WebhookSubscription> => {
+      return apiRequest('/api/admin/webhook-subscriptions', {
+        method: 'POST',
+        body: JSON.stringify({ name, url, eventTypes }),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    },
+    onSuccess: (subscription) => {
+      invalidateSubscriptions();
+      setNewSecret(subscription.secret ? { id: subscription.id, secret: subscription.secret } : null);
+      setName('');
+      setUrl('');
+      setEventTypes([]);
+      toast({
+        title: 'Subscription created',
+        description: 'Events will be posted to the URL from now on. Copy the secret now, it is only shown once.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: 'Failed to create the subscription. Check the URL is valid.',
+        variant: 'destructive',
+      });
+      console.error('Error creating webhook subscription:', error);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: number; changes: { isEnabled?: boolean; rotateSecret?: boolean } }): Promise<WebhookSubscription> => {
+      return apiRequest(`/api/admin/webhook-subscriptions/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    },
+    onSuccess: (subscription, { changes }) => {
+      invalidateSubscriptions();
+      if (subscription.secret) {
+        setNewSecret({ id: subscription.id, secret: subscription.secret });
+      }
+      toast({
+        title: changes.rotateSecret ? 'Secret rotated' : 'Subscription updated',
+        description: changes.rotateSecret
+          ? 'The receiver needs the new secret to check signatures. Copy it now, it is only shown once.'
+          : 'The subscription has been updated.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update the subscription.',
+        variant: 'destructive',
+      });
+      console.error('Error updating webhook subscription:', error);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest(`/api/admin/webhook-subscriptions/${id}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: () => {
+      invalidateSubscriptions();
+      toast({
+        title: 'Subscription deleted',
+        description: 'The subscription and its delivery log have been removed.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete the subscription.',
+        variant: 'destructive',
+      });
+      console.error('Error deleting webhook subscription:', error);
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number): Promise<WebhookDelivery> => {
+      return apiRequest(`/api/admin/webhook-subscriptions/${id}/test`, {
+        method: 'POST',
+      });
+    },
+    onSuccess: (delivery) => {
+      setTestingId(null);
+      invalidateSubscriptions();
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/webhook-subscriptions/${delivery.subscriptionId}/deliveries`] });
+      if (delivery.status === 'succeeded') {
+        toast({
+          title: 'Test event delivered',
+          description: `The receiver responded with ${delivery.responseStatus}.`,
+        });
+      } else {
+        toast({
+          title: 'Test event failed',
+          description: delivery.error || 'The receiver did not accept the event.',
+          variant: 'destructive',
+        });
+      }
+    },
+    onError: (error) => {
+      setTestingId(null);
+      toast({
+        title: 'Error',
+        description: 'Failed to send the test event.',
+        variant: 'destructive',
+      });
+      console.error('Error sending test event:', error);
+    },
+  });
+
+  const toggleEventType = (type: string, checked: boolean) => {
+    setEventTypes(current => checked ? [...current, type] : current.filter(t => t !== type));
+  };
+
+  const handleTest = (id: number) => {
+    setTestingId(id);
+    testMutation.mutate(id);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold">Outbound Webhooks</h2>
+        <p className="text-sm text-muted-foreground">
+          Post tour and booking changes to other systems. Each body is signed with the subscription&apos;s
+          secret in the X-Webhook-Signature header.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">New subscription</CardTitle>
+          <CardDescription>Leave every event unticked to receive all of them.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="subscription-name">Name</Label>
+              <Input id="subscription-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Booking system" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="subscription-url">URL</Label>
+              <Input id="subscription-url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com/hooks/tours" />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {webhookEventTypes.map((type) => (
+              <div key={type} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`event-type-${type}`}
+                  checked={eventTypes.includes(type)}
+                  onCheckedChange={(checked) => toggleEventType(type, checked === true)}
+                />
+                <label htmlFor={`event-type-${type}`} className="text-sm font-mono">{type}</label>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || !url.trim() || createMutation.isPending}
+          >
+            Add subscription
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[100px]">
+          <Spinner className="h-6 w-6" />
+        </div>
+      ) : subscriptions && subscriptions.length > 0 ? (
+        <div className="grid gap-6 md:grid-cols-2">
+          {subscriptions.map((subscription) => (
+            <Card key={subscription.id} className={subscription.isEnabled ? 'border-primary/50' : ''}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle>{subscription.name}</CardTitle>
+                  <Badge variant={subscription.isEnabled ? 'default' : 'outline'}>
+                    {subscription.isEnabled ? 'Active' : 'Inactive'}
+                  </Badge>
+                </div>
+                <CardDescription className="mt-2 break-all">{subscription.url}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 text-sm">
+                  <div>
+                    <span className="font-medium">Events:</span>{' '}
+                    <span className="text-muted-foreground">
+                      {subscription.eventTypes.length > 0 ? subscription.eventTypes.join(', ') : 'All events'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Secret:</span>
+                    {newSecret?.id === subscription.id ? (
+                      <code className="bg-muted px-1 py-0.5 rounded text-xs break-all">{newSecret.secret}</code>
+                    ) : (
+                      <span className="text-muted-foreground">Hidden; rotate it to get a new one</span>
+                    )}
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => updateMutation.mutate({ id: subscription.id, changes: { rotateSecret: true } })}
+                      disabled={updateMutation.isPending}
+                    >
+                      Rotate
+                    </Button>
+                  </div>
+                  {subscription.lastDeliveredAt && (
+                    <div>
+                      <span className="font-medium">Last delivered:</span>{' '}
+                      <span className="text-muted-foreground">
+                        {new Date(subscription.lastDeliveredAt).toLocaleString()}
+                      </span>
+                    </div>
+                  )}
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => setOpenLogId(openLogId === subscription.id ? null : subscription.id)}
+                  >
+                    {openLogId === subscription.id ? 'Hide deliveries' : 'Show deliveries'}
+                  </Button>
+                  {openLogId === subscription.id && <DeliveryLog subscriptionId={subscription.id} />}
+                </div>
+              </CardContent>
+              <CardFooter className="flex justify-between pt-2">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`subscription-toggle-${subscription.id}`}
+                    checked={subscription.isEnabled}
+                    onCheckedChange={(checked) => updateMutation.mutate({ id: subscription.id, changes: { isEnabled: checked } })}
+                    disabled={updateMutation.isPending}
+                  />
+                  <label htmlFor={`subscription-toggle-${subscription.id}`} className="text-sm">
+                    {subscription.isEnabled ? 'Enabled' : 'Disabled'}
+                  </label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleTest(subscription.id)}
+                    disabled={testingId === subscription.id || testMutation.isPending}
+                  >
+                    {testingId === subscription.id ? (
+                      <>
+                        <Spinner className="h-3 w-3 mr-2" />
+                        Sending...
+                      </>
+                    ) : (
+                      <>
+                        <Send className="h-3 w-3 mr-2" />
+                        Send test event
+                      </>
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(subscription.id)}
+                    disabled={deleteMutation.isPending}
+                    aria-label="Delete subscription"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center p-6 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">No outbound webhooks yet.</p>
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
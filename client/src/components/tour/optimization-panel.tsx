@@ -30,7 +30,7 @@ import {
   RefreshCw,
 } from 'lucide-react';
 import { formatDistance, formatTravelTime } from '@/lib/utils';
-import { useOptimizeTour } from '../../hooks/use-optimize-tour';
+import { useTourOptimization } from '@/hooks/use-tour-optimization';
 import { toast } from '@/hooks/use-toast';
 
 interface OptimizationPanelProps {
@@ -66,7 +66,7 @@ export function OptimizationPanel({
     isOptimizing,
     error,
     optimizationResult
-  } = useOptimizeTour(tourId);
+  } = useTourOptimization(tourId);
   
   // Count venues by status
   const confirmedVenues = venues?.filter(v => v.tourVenue?.status === 'confirmed') || [];
@@ -112,22 +112,11 @@ export function OptimizationPanel({
   const handleOptimize = async () => {
     try {
       if (optimizationType === 'standard') {
-        await optimize({
-          type: 'standard',
-          options: {
-            prioritizeDistance,
-            distanceWeight: weightDistance[0] / 100,
-          }
+        await optimize('standard', {
+          optimizeFor: prioritizeDistance && weightDistance[0] >= 50 ? 'distance' : 'balanced',
         });
       } else {
-        await optimize({
-          type: 'ai',
-          options: {
-            optimizeForCapacity,
-            respectGenre,
-            includeMarketConsiderations,
-          }
-        });
+        await optimize('ai');
       }
       
       toast({
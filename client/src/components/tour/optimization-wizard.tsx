@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { optimizeTourRoute } from '@/lib/api';
+import { optimizeTour, applyOptimization } from '@/lib/api';
+import { toAppliedStops } from '@/hooks/use-tour-optimization';
+import type { OptimizationResult } from '@/types/index';
 import { useToast } from '@/hooks/use-toast';
 import {
   Card,
@@ -629,10 +631,10 @@ function ResultsStep({ onNext, tourId, optimizationResult }: StepProps) {
                 }
               </div>
               <p className="text-sm text-muted-foreground mt-2">
-                {optimizationResult?.totalDistance && optimizationResult.originalDistance && (
+                {optimizationResult?.totalDistance && optimizationResult.baseline?.totalDistance && (
                   <span className="text-green-500 flex items-center">
                     <ArrowRight className="h-3 w-3 mr-1 rotate-45" />
-                    {Math.round((1 - optimizationResult.totalDistance / optimizationResult.originalDistance) * 100)}% reduction
+                    {Math.round((1 - optimizationResult.totalDistance / optimizationResult.baseline.totalDistance) * 100)}% reduction
                   </span>
                 )}
               </p>
@@ -645,7 +647,7 @@ function ResultsStep({ onNext, tourId, optimizationResult }: StepProps) {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold">
-                {optimizationResult?.potentialFillVenues?.length || 0}
+                {optimizationResult?.tourVenues?.filter((v: any) => v.gapFilling).length || 0}
               </div>
               <p className="text-sm text-muted-foreground mt-2">
                 New venues that fit well with your tour schedule
@@ -684,7 +686,7 @@ function ResultsStep({ onNext, tourId, optimizationResult }: StepProps) {
               <Lightbulb className="h-5 w-5 mr-2 text-amber-500 mt-0.5" />
               <div>
                 <p className="text-sm">
-                  <strong>Venue Suggestions:</strong> Based on your preferences, we've identified {optimizationResult?.potentialFillVenues?.length || 0} high-potential 
+                  <strong>Venue Suggestions:</strong> Based on your preferences, we've identified {optimizationResult?.tourVenues?.filter((v: any) => v.gapFilling).length || 0} high-potential 
                   venues that fit well with your tour routing and artist profile.
                 </p>
               </div>
@@ -705,8 +707,8 @@ function ResultsStep({ onNext, tourId, optimizationResult }: StepProps) {
               <div>
                 <p className="text-sm">
                   <strong>Travel Optimization:</strong> The suggested routing reduces overall travel distance by up to 
-                  {optimizationResult?.totalDistance && optimizationResult.originalDistance 
-                    ? Math.round((1 - optimizationResult.totalDistance / optimizationResult.originalDistance) * 100)
+                  {optimizationResult?.totalDistance && optimizationResult.baseline?.totalDistance 
+                    ? Math.round((1 - optimizationResult.totalDistance / optimizationResult.baseline.totalDistance) * 100)
                     : 0}%, which can significantly lower transportation costs.
                 </p>
               </div>
@@ -750,7 +752,16 @@ export function OptimizationWizard({ tourId, onComplete, onCancel }: WizardProps
   
   // Optimization mutation
   const optimizeMutation = useMutation({
-    mutationFn: () => optimizeTourRoute(tourId, preferences),
+    mutationFn: () => optimizeTour(tourId, {
+      strategy: 'enhanced',
+      options: {
+        optimizeFor: preferences.optimizationGoal === 'balance' ? 'balanced' : preferences.optimizationGoal,
+        minDaysBetweenShows: preferences.minDaysBetweenShows,
+        maxDaysBetweenShows: preferences.maxDaysBetweenShows,
+        maxTravelDistancePerDay: preferences.maxTravelDistancePerDay,
+        requiredDaysOff: preferences.requiredDaysOff
+      }
+    }),
     onSuccess: (data) => {
       toast({
         title: 'Tour Optimized',
@@ -773,6 +784,21 @@ export function OptimizationWizard({ tourId, onComplete, onCancel }: WizardProps
     },
   });
   
+  // Apply the optimized route when the wizard is completed
+  const applyMutation = useMutation({
+    mutationFn: (result: OptimizationResult) => applyOptimization(tourId, result.runId, toAppliedStops(result)),
+    onSuccess: () => {
+      onComplete(optimizeMutation.data);
+    },
+    onError: () => {
+      toast({
+        title: 'Could Not Apply Route',
+        description: 'Failed to apply the optimized route to the tour. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+  
   // Handle step navigation
   const handleNext = () => {
     // If moving to the processing step, start the optimization
@@ -782,7 +808,9 @@ export function OptimizationWizard({ tourId, onComplete, onCancel }: WizardProps
     
     // If we're on the final step, complete the wizard
     if (currentStep === steps.length - 1) {
-      onComplete(optimizeMutation.data);
+      if (optimizeMutation.data && !applyMutation.isPending) {
+        applyMutation.mutate(optimizeMutation.data);
+      }
       return;
     }
     
@@ -14,6 +14,9 @@ interface RouteComparisonMapProps {
   showComparison?: boolean;
   comparisonMode?: 'split' | 'overlay' | 'sideBySide';
   onVenueClick?: (venue: any) => void;
+  // Names of the two routes, e.g. the optimization runs being compared
+  originalLabel?: string;
+  optimizedLabel?: string;
 }
 
 export function RouteComparisonMap({
@@ -21,7 +24,9 @@ export function RouteComparisonMap({
   optimizedVenues = [],
   showComparison = true,
   comparisonMode = 'overlay',
-  onVenueClick
+  onVenueClick,
+  originalLabel = 'Original Route',
+  optimizedLabel = 'Optimized Route'
 }: RouteComparisonMapProps) {
   const mapRef = useRef<L.Map | null>(null);
   // Initialize from localStorage or from props
@@ -199,11 +204,11 @@ export function RouteComparisonMap({
           <div className="flex justify-between items-center bg-gray-50 p-2 text-xs">
             <div className="flex items-center">
               <span className="inline-block w-3 h-3 rounded-full bg-blue-500 mr-1"></span>
-              <span className="text-gray-600">Original: {formatDistance(calculateTotalDistance(originalVenuesWithCoords))}</span>
+              <span className="text-gray-600">{originalLabel}: {formatDistance(calculateTotalDistance(originalVenuesWithCoords))}</span>
             </div>
             <div className="flex items-center">
               <span className="inline-block w-3 h-3 rounded-full bg-purple-500 mr-1"></span>
-              <span className="text-gray-600">Optimized: {formatDistance(calculateTotalDistance(optimizedVenuesWithCoords))}</span>
+              <span className="text-gray-600">{optimizedLabel}: {formatDistance(calculateTotalDistance(optimizedVenuesWithCoords))}</span>
               {distanceImprovement > 0 && (
                 <Badge className="bg-green-100 hover:bg-green-100 text-green-700 ml-1">
                   <Sparkles className="h-3 w-3 mr-1" />
@@ -278,7 +283,7 @@ export function RouteComparisonMap({
                         : 'Date TBD'} · Stop #{index + 1}
                     </div>
                     <div className="mt-1 text-xs font-medium text-blue-600">
-                      Original Route
+                      {originalLabel}
                     </div>
                   </div>
                 </Popup>
@@ -311,7 +316,7 @@ export function RouteComparisonMap({
                         : 'Date TBD'} · Stop #{index + 1}
                     </div>
                     <div className="mt-1 text-xs font-medium text-purple-600">
-                      Optimized Route
+                      {optimizedLabel}
                     </div>
                   </div>
                 </Popup>
@@ -330,7 +335,7 @@ export function RouteComparisonMap({
         {/* Original Route Map */}
         <div className="border rounded-lg h-[400px] overflow-hidden">
           <div className="bg-blue-50 py-1 px-2 text-xs font-medium text-blue-700 flex items-center justify-center">
-            Original Route: {formatDistance(calculateTotalDistance(originalVenuesWithCoords))}
+            {originalLabel}: {formatDistance(calculateTotalDistance(originalVenuesWithCoords))}
           </div>
           <div className="h-[372px]">
             <MapContainer
@@ -387,7 +392,7 @@ export function RouteComparisonMap({
         {/* Optimized Route Map */}
         <div className="border rounded-lg h-[400px] overflow-hidden">
           <div className="bg-purple-50 py-1 px-2 text-xs font-medium text-purple-700 flex items-center justify-between">
-            <span>Optimized Route: {formatDistance(calculateTotalDistance(optimizedVenuesWithCoords))}</span>
+            <span>{optimizedLabel}: {formatDistance(calculateTotalDistance(optimizedVenuesWithCoords))}</span>
             {distanceImprovement > 0 && (
               <Badge className="bg-green-100 hover:bg-green-100 text-green-700 ml-1">
                 <Sparkles className="h-3 w-3 mr-1" />
@@ -455,8 +460,8 @@ export function RouteComparisonMap({
     return (
       <Tabs defaultValue="comparison" className="w-full">
         <TabsList className="w-full grid grid-cols-3">
-          <TabsTrigger value="original">Original Route</TabsTrigger>
-          <TabsTrigger value="optimized">Optimized Route</TabsTrigger>
+          <TabsTrigger value="original">{originalLabel}</TabsTrigger>
+          <TabsTrigger value="optimized">{optimizedLabel}</TabsTrigger>
           <TabsTrigger value="comparison">Comparison</TabsTrigger>
         </TabsList>
         
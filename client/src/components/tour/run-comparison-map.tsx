@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { History, RotateCcw } from 'lucide-react';
+import { getOptimizationRunDiff, getOptimizationRuns, rollbackOptimizationRun } from '@/lib/api';
+import { formatDistance } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RouteComparisonMap } from './route-comparison-map';
+import type { OptimizationRun, OptimizationRunDiff, OptimizationRunStop } from '@/types/index';
+
+interface RunComparisonMapProps {
+  tourId: number;
+}
+
+function runLabel(run: OptimizationRun): string {
+  return run.kind === 'rollback' ? `Rollback #${run.id}` : `Run #${run.id}`;
+}
+
+function runDescription(run: OptimizationRun): string {
+  const created = format(new Date(run.createdAt), 'MMM d, HH:mm');
+  if (run.kind === 'rollback') {
+    return `${runLabel(run)} · restored run #${run.sourceRunId} · ${created}`;
+  }
+  return `${runLabel(run)} · ${run.strategy}${run.appliedAt ? ' · applied' : ''} · ${created}`;
+}
+
+// Stops in the shape the route map draws
+function toMapVenues(stops: OptimizationRunStop[]) {
+  return stops.map(stop => ({
+    id: stop.tourVenueId ?? `venue-${stop.venueId}`,
+    venue: {
+      name: stop.venueName,
+      city: stop.city,
+      latitude: stop.latitude,
+      longitude: stop.longitude
+    },
+    tourVenue: { date: stop.date }
+  }));
+}
+
+function describeChange(change: OptimizationRunDiff['changes'][number]): string {
+  if (change.type === 'added') return `added at stop ${change.to!.position}`;
+  if (change.type === 'removed') return `removed from stop ${change.from!.position}`;
+
+  const parts: string[] = [];
+  if (change.positionChanged) {
+    parts.push(`stop ${change.from!.position} → ${change.to!.position}`);
+  }
+  if (change.dateChanged) {
+    parts.push(`${change.from!.date ?? 'no date'} → ${change.to!.date ?? 'no date'}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Compare the routes of any two optimization runs of a tour and roll back applied ones
+ */
+export function RunComparisonMap({ tourId }: RunComparisonMapProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [fromRunId, setFromRunId] = useState<number | null>(null);
+  const [toRunId, setToRunId] = useState<number | null>(null);
+
+  const { data: runs = [], isLoading } = useQuery({
+    queryKey: ['/api/v1/optimization/tours', tourId, 'runs'],
+    queryFn: () => getOptimizationRuns(tourId)
+  });
+
+  // Start by comparing the two most recent runs
+  useEffect(() => {
+    if (runs.length >= 2 && fromRunId === null && toRunId === null) {
+      setFromRunId(runs[1].id);
+      setToRunId(runs[0].id);
+    }
+  }, [runs, fromRunId, toRunId]);
+
+  const canCompare = fromRunId !== null && toRunId !== null && fromRunId !== toRunId;
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery({
+    queryKey: ['/api/v1/optimization/tours', tourId, 'runs', 'diff', fromRunId, toRunId],
+    queryFn: () => getOptimizationRunDiff(tourId, fromRunId!, toRunId!),
+    enabled: canCompare
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (runId: number) => rollbackOptimizationRun(tourId, runId),
+    onSuccess: () => {
+      toast({
+        title: "Tour restored",
+        description: "The venue order and dates from before the run have been restored.",
+      });
+      setFromRunId(null);
+      setToRunId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/optimization/tours', tourId, 'runs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tours', tourId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tour/tours', tourId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Rollback failed",
+        description: error.message || "Could not restore the tour. Please try again.",
+      });
+    }
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading optimization history...</div>;
+  }
+
+  if (runs.length < 2) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <History className="h-4 w-4" />
+        Optimize the tour at least twice to compare runs.
+      </div>
+    );
+  }
+
+  const renderRunSelect = (value: number | null, onChange: (runId: number) => void) => (
+    <Select value={value?.toString()} onValueChange={(runId) => onChange(Number(runId))}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Choose a run" />
+      </SelectTrigger>
+      <SelectContent>
+        {runs.map(run => (
+          <SelectItem key={run.id} value={run.id.toString()}>
+            {runDescription(run)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const changes = diff?.changes.filter(change => change.type !== 'unchanged') ?? [];
+  const toRun = diff?.to.run;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <span className="text-xs font-medium text-muted-foreground">Compare</span>
+          {renderRunSelect(fromRunId, setFromRunId)}
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs font-medium text-muted-foreground">With</span>
+          {renderRunSelect(toRunId, setToRunId)}
+        </div>
+      </div>
+
+      {!canCompare ? (
+        <div className="text-sm text-muted-foreground">Choose two different runs to compare.</div>
+      ) : isDiffLoading || !diff ? (
+        <div className="text-sm text-muted-foreground">Comparing runs...</div>
+      ) : (
+        <>
+          <RouteComparisonMap
+            originalVenues={toMapVenues(diff.from.stops)}
+            optimizedVenues={toMapVenues(diff.to.stops)}
+            showComparison
+            originalLabel={runLabel(diff.from.run)}
+            optimizedLabel={runLabel(diff.to.run)}
+          />
+
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge variant="outline">
+              Distance {diff.distanceChange < 0 ? '-' : '+'}{formatDistance(Math.abs(diff.distanceChange))}
+            </Badge>
+            <Badge variant="outline">
+              Score {diff.scoreChange < 0 ? '' : '+'}{diff.scoreChange}
+            </Badge>
+            <Badge variant="outline">
+              {changes.length} {changes.length === 1 ? 'venue' : 'venues'} changed
+            </Badge>
+          </div>
+
+          {changes.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {changes.map(change => (
+                <li key={`${change.tourVenueId ?? 'venue'}-${change.venueId}`} className="flex justify-between">
+                  <span className="font-medium">{change.venueName}</span>
+                  <span className="text-muted-foreground">{describeChange(change)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {toRun?.kind === 'optimization' && toRun.appliedAt && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => rollbackMutation.mutate(toRun.id)}
+              disabled={rollbackMutation.isPending}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {rollbackMutation.isPending ? 'Restoring...' : `Restore tour to before run #${toRun.id}`}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DollarSign, Receipt, TrendingDown, TrendingUp, Wallet } from 'lucide-react';
+import { getTourFinances, recordShowActuals, saveShowDeal, saveTourBudget } from '@/lib/api';
+import { formatCurrency, formatDate, formatDistance } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import type { ShowFinances, TourFinances } from '@/types/index';
+
+interface FinanceTabProps {
+  tourId: number;
+}
+
+type FormValues = Record<string, string>;
+
+// Empty inputs clear the value
+function numberOrNull(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function toInput(value: number | null | undefined): string {
+  return value == null ? '' : String(value);
+}
+
+function NumberField({
+  id,
+  label,
+  values,
+  onChange,
+  placeholder,
+  step = 'any'
+}: {
+  id: string;
+  label: string;
+  values: FormValues;
+  onChange: (values: FormValues) => void;
+  placeholder?: string;
+  step?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step={step}
+        value={values[id] ?? ''}
+        placeholder={placeholder}
+        onChange={e => onChange({ ...values, [id]: e.target.value })}
+      />
+    </div>
+  );
+}
+
+function SummaryCard({
+  title,
+  value,
+  detail,
+  icon: Icon
+}: {
+  title: string;
+  value: string;
+  detail: string;
+  icon: React.ComponentType<{ className?: string }>;
+}) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <p className="text-sm text-muted-foreground">{title}</p>
+            <p className="text-2xl font-semibold mt-1">{value}</p>
+            <p className="text-xs text-muted-foreground mt-1">{detail}</p>
+          </div>
+          <div className="bg-primary/10 p-2 rounded-full">
+            <Icon className="h-4 w-4 text-primary" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function BudgetForm({ tourId, finances }: { tourId: number; finances: TourFinances }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [values, setValues] = useState<FormValues>({});
+
+  useEffect(() => {
+    setValues({
+      totalBudget: toInput(finances.totalBudget),
+      fuelCostPerKm: toInput(finances.rates.fuelCostPerKm),
+      lodgingPerNight: toInput(finances.rates.lodgingPerNight),
+      perDiem: toInput(finances.rates.perDiem),
+      partySize: toInput(finances.rates.partySize)
+    });
+  }, [finances]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveTourBudget(tourId, {
+      totalBudget: numberOrNull(values.totalBudget),
+      fuelCostPerKm: numberOrNull(values.fuelCostPerKm),
+      lodgingPerNight: numberOrNull(values.lodgingPerNight),
+      perDiem: numberOrNull(values.perDiem),
+      partySize: numberOrNull(values.partySize)
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tours', tourId, 'finances'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tours', tourId] });
+      toast({ title: 'Budget saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save the budget', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Budget</CardTitle>
+        <CardDescription>
+          Total budget and the rates used for fuel, lodging and per diems
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <NumberField id="totalBudget" label={`Total budget (${finances.currency})`} values={values} onChange={setValues} />
+          <NumberField id="fuelCostPerKm" label="Fuel per km" values={values} onChange={setValues} />
+          <NumberField id="lodgingPerNight" label="Lodging per night" values={values} onChange={setValues} />
+          <NumberField id="perDiem" label="Per diem per person" values={values} onChange={setValues} />
+          <NumberField id="partySize" label="Touring party" values={values} onChange={setValues} step="1" />
+        </div>
+        <div className="flex justify-end mt-4">
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save budget'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ShowDialog({
+  tourId,
+  show,
+  mode,
+  currency,
+  onClose
+}: {
+  tourId: number;
+  show: ShowFinances;
+  mode: 'deal' | 'actuals';
+  currency: string;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const settlement = show.settlement;
+  const [values, setValues] = useState<FormValues>((): FormValues => mode === 'deal'
+    ? {
+        guarantee: toInput(show.deal.guarantee),
+        doorSplitPercent: toInput(show.deal.doorSplitPercent),
+        ticketPrice: toInput(show.deal.ticketPrice),
+        barSplitPercent: toInput(show.deal.barSplitPercent),
+        merchSplitPercent: toInput(show.deal.merchSplitPercent),
+        projectedTickets: toInput(settlement?.projectedTickets),
+        projectedBarSales: toInput(settlement?.projectedBarSales),
+        projectedMerchSales: toInput(settlement?.projectedMerchSales),
+        lodgingCost: toInput(settlement?.lodgingCost),
+        otherExpenses: toInput(settlement?.otherExpenses)
+      }
+    : {
+        actualTickets: toInput(settlement?.actualTickets),
+        actualBarSales: toInput(settlement?.actualBarSales),
+        actualMerchSales: toInput(settlement?.actualMerchSales),
+        actualExpenses: toInput(settlement?.actualExpenses)
+      });
+
+  const saveMutation = useMutation({
+    mutationFn: () => mode === 'deal'
+      ? saveShowDeal(tourId, show.tourVenueId, {
+          guarantee: numberOrNull(values.guarantee) ?? 0,
+          doorSplitPercent: numberOrNull(values.doorSplitPercent) ?? 0,
+          ticketPrice: numberOrNull(values.ticketPrice),
+          barSplitPercent: numberOrNull(values.barSplitPercent) ?? 0,
+          merchSplitPercent: numberOrNull(values.merchSplitPercent) ?? 100,
+          projectedTickets: numberOrNull(values.projectedTickets),
+          projectedBarSales: numberOrNull(values.projectedBarSales),
+          projectedMerchSales: numberOrNull(values.projectedMerchSales),
+          lodgingCost: numberOrNull(values.lodgingCost),
+          otherExpenses: numberOrNull(values.otherExpenses)
+        })
+      : recordShowActuals(tourId, show.tourVenueId, {
+          actualTickets: numberOrNull(values.actualTickets) ?? 0,
+          actualBarSales: numberOrNull(values.actualBarSales),
+          actualMerchSales: numberOrNull(values.actualMerchSales),
+          actualExpenses: numberOrNull(values.actualExpenses)
+        }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tours', tourId, 'finances'] });
+      toast({ title: mode === 'deal' ? 'Deal saved' : 'Show settled' });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save the show', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const canSave = mode === 'deal' || numberOrNull(values.actualTickets) !== null;
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>
+            {mode === 'deal' ? 'Deal' : 'Settle show'}: {show.venueName}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === 'deal'
+              ? 'The artist is paid the guarantee or their share of the door, whichever is higher, plus their share of bar and merch sales.'
+              : `Enter the tickets sold and takings. Leave expenses empty to use the computed ${formatCurrency(show.projected.costs.total, currency)}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === 'deal' ? (
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField id="guarantee" label="Guarantee" values={values} onChange={setValues} />
+            <NumberField id="doorSplitPercent" label="Door split %" values={values} onChange={setValues} />
+            <NumberField id="ticketPrice" label="Ticket price" values={values} onChange={setValues} />
+            <NumberField id="projectedTickets" label="Projected tickets" values={values} onChange={setValues} step="1"
+              placeholder={String(Math.round(show.projected.ticketGross / (show.deal.ticketPrice || 1)))} />
+            <NumberField id="barSplitPercent" label="Bar split %" values={values} onChange={setValues} />
+            <NumberField id="projectedBarSales" label="Projected bar sales" values={values} onChange={setValues} />
+            <NumberField id="merchSplitPercent" label="Merch split %" values={values} onChange={setValues} />
+            <NumberField id="projectedMerchSales" label="Projected merch sales" values={values} onChange={setValues} />
+            <NumberField id="lodgingCost" label="Lodging per night" values={values} onChange={setValues} placeholder="Tour rate" />
+            <NumberField id="otherExpenses" label="Other expenses" values={values} onChange={setValues} />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <NumberField id="actualTickets" label="Tickets sold" values={values} onChange={setValues} step="1" />
+            <NumberField id="actualBarSales" label="Bar sales" values={values} onChange={setValues} />
+            <NumberField id="actualMerchSales" label="Merch sales" values={values} onChange={setValues} />
+            <NumberField id="actualExpenses" label="Expenses" values={values} onChange={setValues}
+              placeholder={String(show.projected.costs.total)} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : mode === 'deal' ? 'Save deal' : 'Settle show'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Tour P&L with each show's deal and its projected and actual settlement
+ */
+export function FinanceTab({ tourId }: FinanceTabProps) {
+  const [editing, setEditing] = useState<{ show: ShowFinances; mode: 'deal' | 'actuals' } | null>(null);
+
+  const { data: finances, isLoading, error } = useQuery({
+    queryKey: ['/api/tours', tourId, 'finances'],
+    queryFn: () => getTourFinances(tourId)
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading finances...</div>;
+  }
+
+  if (error || !finances) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-center text-muted-foreground">
+          Tour finances are not available
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const money = (value: number) => formatCurrency(value, finances.currency);
+  const netClass = (value: number) => value < 0 ? 'text-red-600' : 'text-green-700';
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <SummaryCard
+          title="Projected net"
+          value={money(finances.projected.net)}
+          detail={`${money(finances.projected.income)} income, ${money(finances.projected.expenses)} costs`}
+          icon={TrendingUp}
+        />
+        <SummaryCard
+          title="Settled net"
+          value={money(finances.actual.net)}
+          detail={`${finances.actual.settledShows} of ${finances.shows.length} shows settled`}
+          icon={Receipt}
+        />
+        <SummaryCard
+          title="Forecast net"
+          value={money(finances.forecast.net)}
+          detail="Settled shows plus projections for the rest"
+          icon={DollarSign}
+        />
+        <SummaryCard
+          title="Budget remaining"
+          value={finances.budgetRemaining === null ? 'Not set' : money(finances.budgetRemaining)}
+          detail={finances.totalBudget === null
+            ? 'Set a total budget below'
+            : `${money(finances.forecast.expenses)} of ${money(finances.totalBudget)} forecast`}
+          icon={finances.budgetRemaining !== null && finances.budgetRemaining < 0 ? TrendingDown : Wallet}
+        />
+      </div>
+
+      <BudgetForm tourId={tourId} finances={finances} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Show Settlements</CardTitle>
+          <CardDescription>
+            Fuel is costed from the drive from the previous show; lodging and per diems from the days since it
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {finances.shows.length === 0 ? (
+            <div className="text-sm text-muted-foreground">Add venues to the tour to plan its finances.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Show</TableHead>
+                  <TableHead>Deal</TableHead>
+                  <TableHead className="text-right">Income</TableHead>
+                  <TableHead className="text-right">Costs</TableHead>
+                  <TableHead className="text-right">Projected net</TableHead>
+                  <TableHead className="text-right">Actual net</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {finances.shows.map(show => (
+                  <TableRow key={show.tourVenueId}>
+                    <TableCell>
+                      <div className="font-medium">{show.venueName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {show.date ? formatDate(show.date) : 'Date TBD'}
+                        {show.city && ` · ${show.city}`}
+                        {show.distanceKm > 0 && ` · ${formatDistance(show.distanceKm)}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {money(show.deal.guarantee)} vs {show.deal.doorSplitPercent}% door
+                      <div className="text-xs text-muted-foreground">
+                        {show.deal.barSplitPercent}% bar · {show.deal.merchSplitPercent}% merch
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{money((show.actual ?? show.projected).income)}</TableCell>
+                    <TableCell className="text-right">{money((show.actual ?? show.projected).costs.total)}</TableCell>
+                    <TableCell className={`text-right ${netClass(show.projected.net)}`}>
+                      {money(show.projected.net)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {show.actual ? (
+                        <span className={netClass(show.actual.net)}>{money(show.actual.net)}</span>
+                      ) : (
+                        <Badge variant="outline">Not settled</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button size="sm" variant="outline" onClick={() => setEditing({ show, mode: 'deal' })}>
+                        Deal
+                      </Button>
+                      <Button size="sm" onClick={() => setEditing({ show, mode: 'actuals' })}>
+                        {show.actual ? 'Edit actuals' : 'Enter actuals'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <ShowDialog
+          tourId={tourId}
+          show={editing.show}
+          mode={editing.mode}
+          currency={finances.currency}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
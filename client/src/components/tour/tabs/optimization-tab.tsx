@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Card,
   CardContent,
@@ -16,7 +16,6 @@ import {
   TabsTrigger,
   TabsContent
 } from '@/components/ui/tabs';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { 
@@ -35,10 +34,22 @@ import {
   CheckCircle2,
   AlertTriangle,
   ChevronRight,
-  Sparkles
+  Sparkles,
+  DollarSign
 } from 'lucide-react';
-import { apiRequest } from '@/lib/queryClient';
-import { formatDate, formatDistance, formatTravelTime } from '@/lib/utils';
+import { formatCurrency, formatDate, formatDistance, formatTravelTime } from '@/lib/utils';
+import { useTourOptimization } from '@/hooks/use-tour-optimization';
+import { RunComparisonMap } from '@/components/tour/run-comparison-map';
+import type { OptimizationGoal, OptimizationScoreBreakdown } from '@/types/index';
+
+const SCORE_FACTORS: Array<{ key: Exclude<keyof OptimizationScoreBreakdown, 'score'>; label: string; penalty?: boolean }> = [
+  { key: 'distancePenalty', label: 'Distance', penalty: true },
+  { key: 'timePenalty', label: 'Travel time', penalty: true },
+  { key: 'gapFillingBonus', label: 'Gap filling' },
+  { key: 'clusterBonus', label: 'Clustering' },
+  { key: 'scheduleBonus', label: 'Schedule' },
+  { key: 'dateBonus', label: 'Date coverage' }
+];
 
 interface OptimizationTabProps {
   tourId: number;
@@ -56,31 +67,35 @@ export function OptimizationTab({
   refetch
 }: OptimizationTabProps) {
   const [optimizationType, setOptimizationType] = useState<'standard' | 'ai'>('standard');
-  const [isOptimizing, setIsOptimizing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [optimizationResult, setOptimizationResult] = useState<any | null>(null);
   const [preserveConfirmedDates, setPreserveConfirmedDates] = useState(true);
-  const [optimizeFor, setOptimizeFor] = useState<'distance' | 'time' | 'balanced'>('balanced');
-  const [preferredDates, setPreferredDates] = useState<string>('');
+  const [optimizeFor, setOptimizeFor] = useState<OptimizationGoal>('balanced');
+  const {
+    optimize,
+    apply,
+    optimizationResult,
+    isOptimizing,
+    error,
+    reset
+  } = useTourOptimization(tourId);
   
   // Filter venues that can be optimized (not cancelled)
   const optimizableVenues = venues?.filter(venue => venue.status !== 'cancelled') || [];
   const confirmedVenues = venues?.filter(venue => venue.status === 'confirmed') || [];
   
   // Calculate current stats
-  const currentTotalDistance = tourData?.totalDistance || 0;
-  const currentTravelTime = tourData?.travelTimeMinutes || 0;
+  const currentTotalDistance = optimizationResult?.baseline.totalDistance || 0;
+  const currentTravelTime = optimizationResult?.baseline.totalTravelTime || 0;
   
   // Calculate optimized stats (if available)
   const optimizedTotalDistance = optimizationResult?.totalDistance || 0;
-  const optimizedTravelTime = optimizationResult?.travelTimeMinutes || 0;
+  const optimizedTravelTime = optimizationResult?.totalTravelTime || 0;
   
   // Calculate improvements
-  const distanceImprovement = optimizationResult 
+  const distanceImprovement = optimizationResult && currentTotalDistance
     ? Math.round(((currentTotalDistance - optimizedTotalDistance) / currentTotalDistance) * 100) 
     : 0;
   
-  const timeImprovement = optimizationResult 
+  const timeImprovement = optimizationResult && currentTravelTime
     ? Math.round(((currentTravelTime - optimizedTravelTime) / currentTravelTime) * 100) 
     : 0;
   
@@ -88,59 +103,36 @@ export function OptimizationTab({
   const canOptimize = optimizableVenues?.length >= 3;
   const hasDates = venues?.some(venue => venue.date) || false;
   
-  // Handler for running standard optimization
-  const handleRunStandardOptimization = async () => {
-    setIsOptimizing(true);
-    setError(null);
+  // Venues whose date or place in the route the optimization changes
+  const changedVenues = useMemo(() => {
+    if (!optimizationResult) return [];
     
-    try {
-      const response = await apiRequest(`/api/tours/${tourId}/optimize`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            preserveConfirmedDates,
-            optimizeFor,
-            preferredDates: preferredDates ? preferredDates.split(',').map(date => date.trim()) : [],
-            type: 'standard'
-          }),
-      });
+    const originalOrder = optimizableVenues.map(venue => venue.id);
+    const changes: Array<Record<string, string | number | null>> = [];
+    
+    optimizationResult.tourVenues.forEach((stop, index) => {
+      const previousPosition = originalOrder.indexOf(stop.tourVenueId) + 1;
+      const previousDate = stop.date ? stop.date.slice(0, 10) : null;
+      const newDate = stop.suggestedDate ? stop.suggestedDate.slice(0, 10) : previousDate;
       
-      setOptimizationResult(response);
-    } catch (err: any) {
-      console.error('Optimization error:', err);
-      setError(err.message || 'Failed to optimize tour');
-    } finally {
-      setIsOptimizing(false);
-    }
+      if (!stop.isFixed && newDate && newDate !== previousDate) {
+        changes.push({ venueId: stop.venue.id, venueName: stop.venue.name, type: 'date_change', previousDate, newDate });
+      } else if (previousPosition > 0 && previousPosition !== index + 1) {
+        changes.push({ venueId: stop.venue.id, venueName: stop.venue.name, type: 'sequence_change', previousPosition, newPosition: index + 1 });
+      }
+    });
+    
+    return changes;
+  }, [optimizationResult, optimizableVenues]);
+  
+  // Handler for running standard optimization
+  const handleRunStandardOptimization = async () => {
+    await optimize('standard', { respectFixedDates: preserveConfirmedDates, optimizeFor }).catch(() => null);
   };
   
   // Handler for running AI optimization
   const handleRunAIOptimization = async () => {
-    setIsOptimizing(true);
-    setError(null);
-    
-    try {
-      const response = await apiRequest(`/api/unified-optimizer/optimize/${tourId}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            method: 'ai',
-            preserveConfirmedDates,
-            preferredDates: preferredDates ? preferredDates.split(',').map(date => date.trim()) : []
-          }),
-      });
-      
-      setOptimizationResult(response.optimizationResult);
-    } catch (err: any) {
-      console.error('AI Optimization error:', err);
-      setError(err.message || 'Failed to optimize tour with AI');
-    } finally {
-      setIsOptimizing(false);
-    }
+    await optimize('ai', { respectFixedDates: preserveConfirmedDates }).catch(() => null);
   };
   
   // Handler for applying optimization
@@ -148,40 +140,13 @@ export function OptimizationTab({
     if (!optimizationResult) return;
     
     try {
-      // Determine which API to use based on the optimization type
-      let applyEndpoint = '';
-      let payload = {};
-      
-      // If AI optimization was used (and we have the special optimizationResult.optimizationMethod field)
-      if (optimizationResult.optimizationMethod === 'ai') {
-        applyEndpoint = `/api/unified-optimizer/apply/${tourId}`;
-        payload = {
-          optimizedSequence: optimizationResult.optimizedSequence,
-          suggestedDates: optimizationResult.suggestedDates || {}
-        };
-      } else {
-        // Standard optimization
-        applyEndpoint = `/api/tours/${tourId}/apply-optimization`;
-        payload = {
-          optimizationData: optimizationResult
-        };
-      }
-      
-      await apiRequest(applyEndpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(payload),
-      });
+      await apply();
       
       // Refresh tour data and notify parent
       refetch();
       onApplyOptimization();
-      setOptimizationResult(null);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Apply optimization error:', err);
-      setError(err.message || 'Failed to apply optimization');
     }
   };
   
@@ -297,7 +262,7 @@ export function OptimizationTab({
                   
                   <div className="space-y-2">
                     <Label htmlFor="optimize-for">Optimize for</Label>
-                    <div className="grid grid-cols-3 gap-2">
+                    <div className="grid grid-cols-4 gap-2">
                       <Button
                         variant={optimizeFor === 'distance' ? 'default' : 'outline'}
                         size="sm"
@@ -325,22 +290,23 @@ export function OptimizationTab({
                         <BarChart2 className="h-4 w-4 mr-2" />
                         Balanced
                       </Button>
+                      <Button
+                        variant={optimizeFor === 'revenue' ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setOptimizeFor('revenue')}
+                        disabled={!canOptimize}
+                      >
+                        <DollarSign className="h-4 w-4 mr-2" />
+                        Revenue
+                      </Button>
                     </div>
+                    {optimizeFor === 'revenue' && (
+                      <p className="text-xs text-muted-foreground">
+                        Weighs each show's expected ticket sales against fuel, lodging and per diems from the tour budget.
+                      </p>
+                    )}
                   </div>
                   
-                  <div className="space-y-2">
-                    <Label htmlFor="preferred-dates">Preferred dates (comma separated, optional)</Label>
-                    <Input
-                      id="preferred-dates"
-                      placeholder="YYYY-MM-DD, YYYY-MM-DD, ..."
-                      value={preferredDates}
-                      onChange={(e) => setPreferredDates(e.target.value)}
-                      disabled={!canOptimize}
-                    />
-                    <p className="text-xs text-muted-foreground">
-                      Add specific dates you'd prefer to include in your tour
-                    </p>
-                  </div>
                 </div>
               </div>
             </CardContent>
@@ -396,20 +362,6 @@ export function OptimizationTab({
                     />
                   </div>
                   
-                  <div className="space-y-2">
-                    <Label htmlFor="preferred-dates-ai">Preferred dates (comma separated, optional)</Label>
-                    <Input
-                      id="preferred-dates-ai"
-                      placeholder="YYYY-MM-DD, YYYY-MM-DD, ..."
-                      value={preferredDates}
-                      onChange={(e) => setPreferredDates(e.target.value)}
-                      disabled={!canOptimize}
-                    />
-                    <p className="text-xs text-muted-foreground">
-                      Add specific dates you'd prefer to include in your tour
-                    </p>
-                  </div>
-                  
                   <div className="p-4 bg-primary/5 rounded-md space-y-2">
                     <div className="flex items-center">
                       <Sparkles className="h-5 w-5 text-primary mr-2" />
@@ -479,10 +431,10 @@ export function OptimizationTab({
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="border rounded-md p-4">
                   <div className="text-sm text-muted-foreground mb-1">Optimization Score</div>
-                  <div className="text-2xl font-bold">{optimizationResult.score || '-'}</div>
+                  <div className="text-2xl font-bold">{Math.round(optimizationResult.optimizationScore) || '-'}</div>
                   <div className="text-sm text-green-600 mt-1">
-                    {optimizationResult.score > (tourData?.optimizationScore || 0) 
-                      ? `+${optimizationResult.score - (tourData?.optimizationScore || 0)} improvement` 
+                    {optimizationResult.optimizationScore > optimizationResult.baseline.optimizationScore 
+                      ? `+${Math.round(optimizationResult.optimizationScore - optimizationResult.baseline.optimizationScore)} improvement` 
                       : 'No change'}
                   </div>
                 </div>
@@ -504,13 +456,58 @@ export function OptimizationTab({
                 </div>
               </div>
               
+              {/* Score breakdown */}
+              {optimizationResult.scoreBreakdown && (
+                <div className="flex flex-wrap gap-2">
+                  {SCORE_FACTORS.map(({ key, label, penalty }) => (
+                    <Badge key={key} variant="outline" className="font-normal">
+                      {label}: {penalty ? '-' : '+'}{optimizationResult.scoreBreakdown[key]}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              
+              {/* Revenue tradeoff */}
+              {optimizationResult.revenue && (
+                <div className="border rounded-md p-4 space-y-3">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <div className="text-sm text-muted-foreground">Projected net</div>
+                      <div className="text-xl font-bold">{formatCurrency(optimizationResult.revenue.projected.net)}</div>
+                      <div className={`text-sm ${optimizationResult.revenue.netChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {optimizationResult.revenue.netChange >= 0 ? '+' : ''}{formatCurrency(optimizationResult.revenue.netChange)} vs current
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-muted-foreground">Ticket sales</div>
+                      <div className="text-xl font-bold">{formatCurrency(optimizationResult.revenue.projected.ticketGross)}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {optimizationResult.revenue.projected.expectedDraw} expected tickets
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-muted-foreground">Fuel</div>
+                      <div className="text-xl font-bold">{formatCurrency(optimizationResult.revenue.projected.travelCost)}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-muted-foreground">Lodging and per diems</div>
+                      <div className="text-xl font-bold">{formatCurrency(optimizationResult.revenue.projected.dailyCosts)}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {optimizationResult.revenue.projected.days} days on the road
+                      </div>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{optimizationResult.revenue.explanation}</p>
+                </div>
+              )}
+              
               <Separator />
               
               {/* Changes summary */}
               <div>
                 <h3 className="text-lg font-medium mb-3">Proposed Changes</h3>
                 <div className="space-y-3">
-                  {optimizationResult.changedVenues?.map((change: any) => (
+                  {changedVenues.map((change: any) => (
                     <div key={change.venueId} className="p-3 border rounded-md">
                       <div className="flex items-start">
                         <div className="bg-primary/10 p-1 rounded-full mr-3 mt-0.5">
@@ -532,7 +529,7 @@ export function OptimizationTab({
                     </div>
                   ))}
                   
-                  {(!optimizationResult.changedVenues || optimizationResult.changedVenues.length === 0) && (
+                  {changedVenues.length === 0 && (
                     <div className="text-center p-4 border rounded-md text-muted-foreground">
                       No venue changes needed
                     </div>
@@ -540,19 +537,46 @@ export function OptimizationTab({
                 </div>
               </div>
               
+              {/* Radius clause warnings */}
+              {optimizationResult.radiusConflicts?.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Radius clause conflicts</AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc pl-4 space-y-1">
+                      {optimizationResult.radiusConflicts.map(conflict => (
+                        <li key={`${conflict.clauseId}-${conflict.conflictingBooking.kind}-${conflict.conflictingBooking.id}`}>
+                          {conflict.detail}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              
               {/* AI explanation */}
-              {optimizationType === 'ai' && optimizationResult.explanation && (
+              {optimizationResult.fallbackReason && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>AI optimization unavailable</AlertTitle>
+                  <AlertDescription>
+                    {optimizationResult.fallbackReason}. The standard optimization was used instead.
+                  </AlertDescription>
+                </Alert>
+              )}
+              
+              {optimizationResult.strategy === 'ai' && optimizationResult.reasoning && (
                 <div>
                   <h3 className="text-lg font-medium mb-3">AI Optimization Explanation</h3>
                   <div className="p-4 border rounded-md bg-primary/5">
-                    <p className="text-sm">{optimizationResult.explanation}</p>
+                    <p className="text-sm">{optimizationResult.reasoning}</p>
                   </div>
                 </div>
               )}
             </div>
           </CardContent>
           <CardFooter className="flex justify-end space-x-2">
-            <Button variant="outline" onClick={() => setOptimizationResult(null)}>
+            <Button variant="outline" onClick={reset}>
               Discard
             </Button>
             <Button onClick={handleApplyOptimization}>
@@ -562,6 +586,19 @@ export function OptimizationTab({
           </CardFooter>
         </Card>
       )}
+      
+      {/* Optimization History Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Optimization History</CardTitle>
+          <CardDescription>
+            Compare earlier optimization runs and undo an applied one
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RunComparisonMap tourId={tourId} />
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
@@ -31,9 +31,10 @@ import {
 import { formatDate, formatDistance, formatTravelTime } from '@/lib/utils';
 
 import { SimplifiedRouteMap } from '../simplified-route-map';
-import { useUnifiedOptimizer } from '@/hooks/use-unified-optimizer';
+import { useTourOptimization } from '@/hooks/use-tour-optimization';
 import { useToast } from '@/hooks/use-toast';
 import { TourOptimizationPanel } from '../tour-optimization-panel';
+import { TravelLegsPanel } from '../travel-legs-panel';
 
 interface RoutePlanningTabProps {
   tourId: number;
@@ -64,11 +65,12 @@ export function RoutePlanningTab({
   const { toast } = useToast();
   
   const {
-    optimizeTour,
-    applyOptimization,
+    optimize,
+    apply,
+    optimizationResult,
     isOptimizing,
     isApplying,
-  } = useUnifiedOptimizer();
+  } = useTourOptimization(tourId);
 
   // If optimized sequence is available, enable the optimized route view toggle
   useEffect(() => {
@@ -100,7 +102,7 @@ export function RoutePlanningTab({
   // Handler functions
   const handleOptimize = async () => {
     try {
-      await optimizeTour(tourId);
+      await optimize('standard');
       refetch();
       toast({
         title: "Route optimized",
@@ -117,7 +119,7 @@ export function RoutePlanningTab({
 
   const handleApplyOptimization = async () => {
     try {
-      await applyOptimization(tourId);
+      await apply();
       onApplyOptimization();
       refetch();
       toast({
@@ -418,7 +420,7 @@ export function RoutePlanningTab({
               </Button>
               <Button
                 onClick={handleApplyOptimization}
-                disabled={isApplying || !hasOptimizedData}
+                disabled={isApplying || !optimizationResult}
               >
                 {isApplying ? (
                   <>
@@ -455,6 +457,14 @@ export function RoutePlanningTab({
         </div>
       </div>
       
+      {/* Travel legs with border crossings, ferries and flights */}
+      <div className="mb-8">
+        <h3 className="text-lg font-semibold mb-3">
+          {optimizationResult ? 'Optimized Travel Legs' : 'Travel Legs'}
+        </h3>
+        <TravelLegsPanel tourId={tourId} optimizationResult={optimizationResult} />
+      </div>
+      
       {/* Advanced Optimization Panel */}
       {hasEnoughVenues && (
         <div className="mb-8">
@@ -33,6 +33,7 @@ import {
   formatCapacity, 
   formatCurrency 
 } from '@/lib/utils';
+import { TourTimeline } from '../tour-timeline';
 
 interface TourOverviewTabProps {
   tourData: any;
@@ -407,6 +408,9 @@ export function TourOverviewTab({ tourData, venues }: TourOverviewTabProps) {
           </div>
         </CardContent>
       </Card>
+
+      {/* Day-by-day schedule with travel and off days */}
+      {tourData.id && <TourTimeline tourId={tourData.id} />}
     </div>
   );
 }
\ No newline at end of file
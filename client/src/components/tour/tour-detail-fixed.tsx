@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Link, useLocation } from 'wouter';
-import { getTour, optimizeTourRoute, updateTour } from '@/lib/api';
+import { getTour, optimizeTour, updateTour } from '@/lib/api';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { VenueStatusBadge } from './venue-status-badge';
@@ -129,64 +129,21 @@ export function TourDetail({ tourId }: TourDetailProps) {
   // Prepare map data when optimization results are available
   useEffect(() => {
     if (optimizationResult) {
-      // Get fixed venues from the optimization fixedPoints array
-      const fixedVenues: MapEvent[] = optimizationResult.fixedPoints
-        ? optimizationResult.fixedPoints
-            .filter((point: any) => point.latitude && point.longitude)
-            .map((point: any, index: number) => {
-              // Find the matching venue from the tour data
-              const matchingVenue = tour?.venues?.find(v => v.venue?.id === point.id)?.venue;
-              const sequence = point.sequence !== undefined ? point.sequence : index;
-              
-              return {
-                id: point.id,
-                venue: matchingVenue?.name || `Venue ${point.id}`,
-                latitude: point.latitude,
-                longitude: point.longitude,
-                date: point.date || undefined,
-                isCurrentVenue: false,
-                isRoutingOpportunity: false,
-                status: point.status || 'confirmed',
-                venue_id: point.id,
-                sequence: sequence
-              };
-            })
-        : [];
-      
-      // Get suggested venues from the potential fill venues
-      const suggestedVenues: MapEvent[] = optimizationResult.potentialFillVenues
-        ? optimizationResult.potentialFillVenues
-            .filter((item: any) => 
-              item.venue && 
-              item.venue.latitude !== null && 
-              item.venue.longitude !== null &&
-              // Only include venues that are not already in fixedVenues
-              !fixedVenues.some(v => v.id === item.venue.id)
-            )
-            .map((item: any, index: number) => {
-              // Calculate sequence based on suggestedSequence or fallback to after fixed venues
-              const sequence = item.suggestedSequence !== undefined ? 
-                item.suggestedSequence : 
-                (fixedVenues.length + index);
-                
-              return {
-                id: item.venue.id,
-                venue: item.venue.name || `Venue ${item.venue.id}`,
-                latitude: item.venue.latitude,
-                longitude: item.venue.longitude,
-                date: item.suggestedDate || undefined,
-                isCurrentVenue: false,
-                isRoutingOpportunity: true, // Mark suggested venues as routing opportunities for the map
-                // Use the item's status if it exists, otherwise default to 'suggested'
-                status: item.status || 'suggested',
-                venue_id: item.venue.id,
-                sequence: sequence
-              };
-            })
-        : [];
-      
-      // Combine and set all map events
-      const allEvents = [...fixedVenues, ...suggestedVenues];
+      // Tour venues and gap-filling suggestions in optimized order
+      const allEvents: MapEvent[] = optimizationResult.tourVenues
+        .filter((stop: any) => stop.venue.latitude !== null && stop.venue.longitude !== null)
+        .map((stop: any, index: number) => ({
+          id: stop.venue.id,
+          venue: stop.venue.name || `Venue ${stop.venue.id}`,
+          latitude: stop.venue.latitude,
+          longitude: stop.venue.longitude,
+          date: stop.suggestedDate || stop.date || undefined,
+          isCurrentVenue: false,
+          isRoutingOpportunity: !!stop.gapFilling, // Mark suggested venues as routing opportunities for the map
+          status: stop.status || 'potential',
+          venue_id: stop.venue.id,
+          sequence: stop.sequence ?? index
+        }));
       
       // Sort events by sequence to ensure markers are numbered correctly
       allEvents.sort((a, b) => {
@@ -222,7 +179,7 @@ export function TourDetail({ tourId }: TourDetailProps) {
   
   // Tour optimization mutation (for direct optimization via API)
   const optimizeMutation = useMutation({
-    mutationFn: () => optimizeTourRoute(Number(tourId)),
+    mutationFn: () => optimizeTour(Number(tourId), { strategy: 'enhanced' }),
     onSuccess: (data) => {
       setOptimizationResult(data);
       toast({
@@ -420,8 +377,8 @@ export function TourDetail({ tourId }: TourDetailProps) {
                   </CardTitle>
                   <CardDescription>
                     {optimizationResult 
-                      ? `Optimized route with ${optimizationResult.fixedPoints?.length || 0} confirmed and 
-                         ${optimizationResult.potentialFillVenues?.filter((v: any) => !v.isFixed)?.length || 0} potential venues`
+                      ? `Optimized route with ${optimizationResult.tourVenues.filter((v: any) => v.isFixed).length} confirmed and 
+                         ${optimizationResult.tourVenues.filter((v: any) => !v.isFixed).length} potential venues`
                       : `View your tour route with ${tour.venues?.length || 0} venues`}
                   </CardDescription>
                 </div>
@@ -719,20 +676,14 @@ export function TourDetail({ tourId }: TourDetailProps) {
               </div>
             </CardHeader>
             <CardContent>
-              {optimizationResult && optimizationResult.potentialFillVenues ? (
+              {optimizationResult ? (
                 <div className="space-y-4">
-                  {optimizationResult.potentialFillVenues
-                    .filter((item: any) => 
-                      item.venue && 
-                      !optimizationResult.fixedPoints.some((p: any) => p.id === item.venue.id)
-                    )
+                  {optimizationResult.tourVenues
+                    .filter((item: any) => item.gapFilling)
                     .length > 0 ? (
                     <div className="space-y-3">
-                      {optimizationResult.potentialFillVenues
-                        .filter((item: any) => 
-                          item.venue && 
-                          !optimizationResult.fixedPoints.some((p: any) => p.id === item.venue.id)
-                        )
+                      {optimizationResult.tourVenues
+                        .filter((item: any) => item.gapFilling)
                         .map((item: any, index: number) => (
                           <div key={index} className="flex items-center p-4 bg-card border rounded-md hover:border-primary/50 transition-colors">
                             <div className="w-10 h-10 flex items-center justify-center rounded-full mr-4"
@@ -1,7 +1,8 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Link, useLocation } from 'wouter';
-import { getTour, optimizeTourRoute, updateTour, applyTourOptimization } from '@/lib/api';
+import { getTour, optimizeTour, updateTour, applyOptimization } from '@/lib/api';
+import { toAppliedStops } from '@/hooks/use-tour-optimization';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { VenueStatusBadge } from './venue-status-badge';
@@ -73,9 +74,12 @@ export function TourDetailTabbed({ params }: { params: { tourId: string } }) {
   // Check if we have enough venues for optimization
   const hasEnoughVenuesForOptimization = filteredVenues.length >= 2;
   
-  // Apply tour optimization mutation
+  // Optimize the tour and apply the result in one step
   const applyMutation = useMutation({
-    mutationFn: () => applyTourOptimization(Number(tourId)),
+    mutationFn: async () => {
+      const result = await optimizeTour(Number(tourId), { strategy: 'standard' });
+      return applyOptimization(Number(tourId), result.runId, toAppliedStops(result));
+    },
     onSuccess: () => {
       toast({
         title: "Route optimized",
@@ -7,6 +7,8 @@ import { TourOverviewTab } from './tabs/tour-overview-tab';
 import { RoutePlanningTab } from './tabs/route-planning-tab';
 import { OptimizationTab } from './tabs/optimization-tab';
 import { VenuesTab } from './tabs/venues-tab';
+import { FinanceTab } from './tabs/finance-tab';
+import CalendarFeedsCard from '@/components/calendar/calendar-feeds-card';
 
 interface TourDetailTabsProps {
   tourId: number;
@@ -89,18 +91,20 @@ export function TourDetailTabs({
       
       {/* Main Tabs */}
       <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="route">Route Planning</TabsTrigger>
           <TabsTrigger value="optimization">Optimization</TabsTrigger>
           <TabsTrigger value="venues">Venues</TabsTrigger>
+          <TabsTrigger value="finance">Finance</TabsTrigger>
         </TabsList>
         
-        <TabsContent value="overview" className="mt-6">
+        <TabsContent value="overview" className="mt-6 space-y-6">
           <TourOverviewTab 
             tourData={tourData} 
             venues={venues} 
           />
+          <CalendarFeedsCard owner="tours" ownerId={tourId} />
         </TabsContent>
         
         <TabsContent value="route" className="mt-6">
@@ -135,6 +139,10 @@ export function TourDetailTabs({
             onStatusUpdate={handleVenueStatusUpdate}
           />
         </TabsContent>
+        
+        <TabsContent value="finance" className="mt-6">
+          <FinanceTab tourId={tourId} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { getUnifiedOptimization, applyUnifiedOptimization } from '@/lib/api';
+import { optimizeTour, applyOptimization as applyTourOptimization } from '@/lib/api';
+import { distanceReduction, toAppliedStops, travelTimeSavings } from '@/hooks/use-tour-optimization';
+import type { OptimizationResult, OptimizationStrategyName } from '@/types/index';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 
@@ -28,56 +30,7 @@ import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
 // Types
-type VenueData = {
-  id: number;
-  venueId: number;
-  name: string;
-  city: string;
-  latitude: number | null;
-  longitude: number | null;
-  date: string | null;
-  isFixed: boolean;
-  status: string;
-  sequence: number | null;
-};
-
-type OptimizationResult = {
-  optimizationMethod: 'standard' | 'ai';
-  optimizedSequence: number[];
-  suggestedDates: Record<string, string>;
-  recommendedVenues: number[];
-  suggestedSkips: number[];
-  estimatedDistanceReduction: number;
-  estimatedTimeSavings: number;
-  reasoning: string;
-  calculatedMetrics: {
-    totalDistance: string;
-    totalTravelTimeMinutes: number;
-    optimizedDistance: string;
-    optimizedTimeMinutes: number;
-  };
-  aiError?: {
-    message: string;
-    details: string;
-  };
-};
-
-type TourData = {
-  tourId: number;
-  tourName: string;
-  artistName: string;
-  artistGenres: string[];
-  startDate: string;
-  endDate: string;
-  confirmedVenues: VenueData[];
-  potentialVenues: VenueData[];
-  allVenues: VenueData[];
-};
-
-type UnifiedOptimizationResponse = {
-  tourData: TourData;
-  optimizationResult: OptimizationResult;
-};
+const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
 
 type TourOptimizationPanelProps = {
   tourId: number;
@@ -90,24 +43,15 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
   const { toast } = useToast();
   
   // Advanced optimization options
-  const [optimizationOptions, setOptimizationOptions] = useState({
-    method: optimizationMethod,
+  const optimizationOptions = {
     respectFixedDates: true,
-    optimizeFor: 'balanced' as 'balanced' | 'distance' | 'time',
-    venuePriorities: {} as Record<number, number>, // venueId -> priority (1-10)
-    preferredDates: {} as Record<number, string>, // venueId -> preferred date
-    avoidDates: [] as string[], // Dates to avoid (YYYY-MM-DD)
+    optimizeFor: 'balanced' as const,
     minDaysBetweenShows: 1, // Minimum days between shows
     maxDaysBetweenShows: 7 // Maximum days between shows
-  });
+  };
 
-  // Update optimization options when method changes
-  React.useEffect(() => {
-    setOptimizationOptions(prev => ({
-      ...prev,
-      method: optimizationMethod
-    }));
-  }, [optimizationMethod]);
+  // Auto asks for the AI strategy; the service falls back to the standard one when AI is unavailable
+  const strategy: OptimizationStrategyName = optimizationMethod === 'standard' ? 'standard' : 'ai';
 
   // Fetch optimization suggestions
   const { 
@@ -117,27 +61,23 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
     error, 
     refetch,
     isSuccess
-  } = useQuery<UnifiedOptimizationResponse>({
-    queryKey: ['unified-tour-optimization', tourId, optimizationOptions],
-    queryFn: async () => {
-      const response = await getUnifiedOptimization(tourId, optimizationOptions);
-      return response;
-    },
+  } = useQuery<OptimizationResult>({
+    queryKey: ['/api/v1/optimization/tours', tourId, strategy],
+    queryFn: () => optimizeTour(tourId, { strategy, options: optimizationOptions }),
     enabled: false, // Don't fetch on component mount
   });
 
   // Apply optimization mutation
   const { mutate: applyOptimization, isPending: isApplying } = useMutation({
     mutationFn: async () => {
-      if (!data?.optimizationResult) return;
+      if (!data) return;
       
-      const { optimizedSequence, suggestedDates } = data.optimizationResult;
-      return await applyUnifiedOptimization(tourId, optimizedSequence, suggestedDates);
+      return await applyTourOptimization(tourId, data.runId, toAppliedStops(data));
     },
     onSuccess: () => {
-      // Check if we're using the fallback optimization (presence of aiError)
-      const isUsingFallback = data?.optimizationResult?.aiError !== undefined;
-      const isAiOptimization = data?.optimizationResult?.optimizationMethod === 'ai';
+      // Check if we're using the fallback optimization
+      const isUsingFallback = data?.fallbackReason !== undefined;
+      const isAiOptimization = data?.strategy === 'ai';
       
       toast({
         title: isUsingFallback 
@@ -161,15 +101,10 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
       }
     },
     onError: (err: any) => {
-      // Provide more detailed error message if available
-      const isApiKeyError = err?.message?.includes('API key') || err?.message?.includes('token');
-      
       toast({
-        title: isApiKeyError ? 'AI Service Unavailable' : 'Error applying optimization',
-        description: isApiKeyError 
-          ? 'The system has applied standard optimization instead.'
-          : 'There was a problem applying the optimization. Please try again.',
-        variant: data?.optimizationResult?.aiError ? 'default' : 'destructive',
+        title: 'Error applying optimization',
+        description: err?.message || 'There was a problem applying the optimization. Please try again.',
+        variant: 'destructive',
       });
     }
   });
@@ -289,7 +224,11 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
     );
   }
 
+  if (!data) return null;
+
   // If we have data, show the optimization results
+  const suggestedDates = data.tourVenues.filter(stop => stop.suggestedDate && !stop.isFixed);
+
   return (
     <Card className="mt-6">
       <CardHeader>
@@ -297,16 +236,16 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
           <Sparkles className="h-5 w-5 text-primary" />
           Tour Optimization Engine
           <Badge variant="outline" className="ml-2">
-            {data.optimizationResult.optimizationMethod === 'ai' ? 'AI-Powered' : 'Standard'} Optimization
+            {data.strategy === 'ai' ? 'AI-Powered' : 'Standard'} Optimization
           </Badge>
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {data.optimizationResult.aiError && (
+        {data.fallbackReason && (
           <Alert variant="warning" className="mb-4">
             <AlertTitle>AI Optimization Unavailable</AlertTitle>
             <AlertDescription>
-              {data.optimizationResult.aiError.message}. Using standard optimization algorithm instead.
+              {data.fallbackReason}. Using standard optimization algorithm instead.
             </AlertDescription>
           </Alert>
         )}
@@ -324,10 +263,8 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
                 <CardContent className="pt-6">
                   <div className="text-center">
                     <p className="text-sm font-medium text-muted-foreground mb-1">Distance Reduction</p>
-                    <p className="text-3xl font-bold">{typeof data.optimizationResult.estimatedDistanceReduction === 'string' ? 
-                      data.optimizationResult.estimatedDistanceReduction : 
-                      `${data.optimizationResult.estimatedDistanceReduction}%`}</p>
-                    <p className="text-xs text-muted-foreground mt-1">Total: {data.optimizationResult.calculatedMetrics.totalDistance}</p>
+                    <p className="text-3xl font-bold">{distanceReduction(data)}%</p>
+                    <p className="text-xs text-muted-foreground mt-1">Total: {Math.round(data.totalDistance)} km</p>
                   </div>
                 </CardContent>
               </Card>
@@ -336,11 +273,9 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
                 <CardContent className="pt-6">
                   <div className="text-center">
                     <p className="text-sm font-medium text-muted-foreground mb-1">Time Savings</p>
-                    <p className="text-3xl font-bold">{typeof data.optimizationResult.estimatedTimeSavings === 'string' ? 
-                      data.optimizationResult.estimatedTimeSavings : 
-                      `${data.optimizationResult.estimatedTimeSavings}%`}</p>
+                    <p className="text-3xl font-bold">{formatMinutes(travelTimeSavings(data))}</p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      {Math.floor(data.optimizationResult.calculatedMetrics.totalTravelTimeMinutes / 60)}h {data.optimizationResult.calculatedMetrics.totalTravelTimeMinutes % 60}m
+                      Total: {formatMinutes(data.totalTravelTime)}
                     </p>
                   </div>
                 </CardContent>
@@ -351,7 +286,7 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
                   <div className="text-center">
                     <p className="text-sm font-medium text-muted-foreground mb-1">Optimization Method</p>
                     <p className="text-sm font-bold flex items-center justify-center gap-1">
-                      {data.optimizationResult.optimizationMethod === 'ai' ? (
+                      {data.strategy === 'ai' ? (
                         <>
                           <Brain className="h-4 w-4 text-blue-500" />
                           AI-Powered
@@ -364,7 +299,7 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
                       )}
                     </p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      {data.optimizationResult.optimizationMethod === 'ai' 
+                      {data.strategy === 'ai' 
                         ? "Customized AI optimization based on venues and routing" 
                         : "Distance-based algorithm"}
                     </p>
@@ -374,45 +309,33 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
             </div>
             
             {/* Suggested dates section */}
-            {Object.keys(data.optimizationResult.suggestedDates).length > 0 && (
+            {suggestedDates.length > 0 && (
               <div className="mt-4">
                 <h3 className="text-sm font-medium mb-2">Suggested Dates</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                  {Object.entries(data.optimizationResult.suggestedDates).map(([venueId, date]) => {
-                    // Find the venue name based on the ID
-                    const venue = [...data.tourData.confirmedVenues, ...data.tourData.potentialVenues]
-                      .find(v => v.id.toString() === venueId);
-                    return (
-                      <div key={venueId} className="flex items-center p-2 bg-muted/30 rounded-md">
-                        <Calendar className="h-4 w-4 mr-2 text-primary" />
-                        <span className="text-sm">
-                          <strong>{venue?.name || `Venue ${venueId}`}</strong>: {new Date(date).toLocaleDateString()}
-                        </span>
-                      </div>
-                    );
-                  })}
+                  {suggestedDates.map((stop) => (
+                    <div key={stop.tourVenueId ?? `gap-${stop.venue.id}`} className="flex items-center p-2 bg-muted/30 rounded-md">
+                      <Calendar className="h-4 w-4 mr-2 text-primary" />
+                      <span className="text-sm">
+                        <strong>{stop.venue.name}</strong>: {new Date(stop.suggestedDate!).toLocaleDateString()}
+                      </span>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
             
-            {/* Skipped venues section */}
-            {data.optimizationResult.suggestedSkips.length > 0 && (
+            {/* Date conflicts section */}
+            {data.violations.length > 0 && (
               <div className="mt-4">
-                <h3 className="text-sm font-medium mb-2">Suggested Venues to Skip</h3>
+                <h3 className="text-sm font-medium mb-2">Scheduling Conflicts</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                  {data.optimizationResult.suggestedSkips.map((venueId) => {
-                    // Find the venue name based on the ID
-                    const venue = [...data.tourData.confirmedVenues, ...data.tourData.potentialVenues]
-                      .find(v => v.id === venueId);
-                    return (
-                      <div key={venueId} className="flex items-center p-2 bg-muted/30 rounded-md">
-                        <ArrowDownLeft className="h-4 w-4 mr-2 text-red-500" />
-                        <span className="text-sm">
-                          {venue?.name || `Venue ${venueId}`} ({venue?.city || 'Unknown City'})
-                        </span>
-                      </div>
-                    );
-                  })}
+                  {data.violations.map((violation, index) => (
+                    <div key={index} className="flex items-center p-2 bg-muted/30 rounded-md">
+                      <ArrowDownLeft className="h-4 w-4 mr-2 text-red-500" />
+                      <span className="text-sm">{violation.detail}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
@@ -421,29 +344,25 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
           <TabsContent value="venues" className="space-y-4">
             <h3 className="text-sm font-medium mb-2">Optimized Venue Sequence</h3>
             <div className="space-y-2">
-              {data.optimizationResult.optimizedSequence.map((venueId, index) => {
-                // Find the venue based on the ID
-                const venue = [...data.tourData.confirmedVenues, ...data.tourData.potentialVenues]
-                  .find(v => v.id === venueId);
-                  
-                const isConfirmed = data.tourData.confirmedVenues.some(v => v.id === venueId);
+              {data.tourVenues.map((stop, index) => {
+                const isConfirmed = stop.status === 'confirmed';
                 
                 return (
-                  <div key={venueId} className="flex items-center p-3 bg-muted/30 rounded-md">
+                  <div key={stop.tourVenueId ?? `gap-${stop.venue.id}`} className="flex items-center p-3 bg-muted/30 rounded-md">
                     <div className="bg-primary/90 text-white rounded-full w-6 h-6 flex items-center justify-center mr-3">
                       {index + 1}
                     </div>
                     <div className="flex-1">
                       <p className="font-medium">
-                        {venue?.name || `Venue ${venueId}`}
+                        {stop.venue.name}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        {venue?.city || 'Unknown City'}
-                        {venue?.date && ` • ${new Date(venue.date).toLocaleDateString()}`}
+                        {stop.venue.city || 'Unknown City'}
+                        {(stop.suggestedDate || stop.date) && ` • ${new Date((stop.suggestedDate || stop.date)!).toLocaleDateString()}`}
                       </p>
                     </div>
                     <Badge variant={isConfirmed ? "default" : "outline"} className="ml-2">
-                      {isConfirmed ? "Confirmed" : "Potential"}
+                      {stop.gapFilling ? "Suggested" : isConfirmed ? "Confirmed" : "Potential"}
                     </Badge>
                   </div>
                 );
@@ -455,7 +374,7 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
             <div className="p-4 bg-muted/30 rounded-lg">
               <h3 className="text-sm font-medium mb-2">AI Reasoning</h3>
               <p className="text-sm whitespace-pre-wrap">
-                {data.optimizationResult.reasoning || 
+                {data.reasoning || 
                 "Standard distance-based optimization was used to create an efficient route."}
               </p>
             </div>
@@ -464,16 +383,16 @@ export function TourOptimizationPanel({ tourId, onApplyChanges }: TourOptimizati
               <h3 className="text-sm font-medium mb-2">Routing Metrics</h3>
               <div className="space-y-1 text-sm">
                 <p>
-                  <strong>Original Distance:</strong> {data.optimizationResult.calculatedMetrics.totalDistance}
+                  <strong>Original Distance:</strong> {Math.round(data.baseline.totalDistance)} km
                 </p>
                 <p>
-                  <strong>Original Travel Time:</strong> {Math.floor(data.optimizationResult.calculatedMetrics.totalTravelTimeMinutes / 60)}h {data.optimizationResult.calculatedMetrics.totalTravelTimeMinutes % 60}m
+                  <strong>Original Travel Time:</strong> {formatMinutes(data.baseline.totalTravelTime)}
                 </p>
                 <p>
-                  <strong>Optimized Distance:</strong> {data.optimizationResult.calculatedMetrics.optimizedDistance}
+                  <strong>Optimized Distance:</strong> {Math.round(data.totalDistance)} km
                 </p>
                 <p>
-                  <strong>Optimized Travel Time:</strong> {Math.floor(data.optimizationResult.calculatedMetrics.optimizedTimeMinutes / 60)}h {data.optimizationResult.calculatedMetrics.optimizedTimeMinutes % 60}m
+                  <strong>Optimized Travel Time:</strong> {formatMinutes(data.totalTravelTime)}
                 </p>
               </div>
             </div>
@@ -1,34 +1,144 @@
-import React from 'react';
-import { 
-  Card, 
-  CardContent, 
-  CardHeader, 
-  CardTitle 
+import React, { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle
 } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { MapEvent } from '@/types';
-import { MapPin, CalendarDays, ArrowDown, LocateFixed } from 'lucide-react';
+import { Calendar } from '@/components/ui/calendar';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AlertTriangle, CalendarDays, Car, Coffee, MapPin, Plane, Ship } from 'lucide-react';
+import { getTourItinerary } from '@/lib/api';
 import { getStatusInfo } from '@/lib/tour-status';
-import { calculateDistanceBetweenCoords, formatDistance, formatTravelTime } from '@/lib/utils';
+import { formatDistance } from '@/lib/utils';
+import type { ItineraryDay, ItineraryIssue, TourItinerary, TravelMode } from '@/types/index';
 
 interface TourTimelineProps {
-  venues: MapEvent[];
+  tourId: number;
 }
 
-export function TourTimeline({ venues }: TourTimelineProps) {
-  // Sort venues by sequence
-  const sortedVenues = [...venues].sort((a, b) => {
-    // If both have sequence, sort by sequence
-    if (a.sequence !== undefined && b.sequence !== undefined) {
-      return a.sequence - b.sequence;
-    }
-    // Otherwise, if both have dates, sort by date
-    else if (a.date && b.date) {
-      return new Date(a.date).getTime() - new Date(b.date).getTime();
+type TimelineItem =
+  | { kind: 'show'; day: ItineraryDay; number: number }
+  | { kind: 'travel'; day: ItineraryDay }
+  | { kind: 'off'; days: ItineraryDay[] };
+
+const travelIcons: Record<TravelMode, React.ComponentType<{ className?: string }>> = {
+  drive: Car,
+  ferry: Ship,
+  flight: Plane
+};
+
+const travelLabels: Record<TravelMode, string> = {
+  drive: 'Drive day',
+  ferry: 'Ferry day',
+  flight: 'Flight day'
+};
+
+// Itinerary dates are calendar days; parse them in local time so they do not shift
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00`);
+}
+
+function formatDay(date: string): string {
+  return parseDate(date).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+// Runs of consecutive off days are shown as one item
+function toTimelineItems(days: ItineraryDay[]): TimelineItem[] {
+  const items: TimelineItem[] = [];
+  let showNumber = 0;
+
+  for (const day of days) {
+    const last = items[items.length - 1];
+    if (day.type === 'show') {
+      items.push({ kind: 'show', day, number: ++showNumber });
+    } else if (day.type === 'travel') {
+      items.push({ kind: 'travel', day });
+    } else if (last?.kind === 'off') {
+      last.days.push(day);
+    } else {
+      items.push({ kind: 'off', days: [day] });
     }
-    return 0;
+  }
+
+  return items;
+}
+
+function IssueNotice({ issue }: { issue: ItineraryIssue }) {
+  return (
+    <div className="mt-2 flex items-start gap-2 rounded-md bg-destructive/10 p-2 text-xs text-destructive">
+      <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+      <div>
+        <p>{issue.detail}</p>
+        {issue.proposedDates.length > 0 ? (
+          <p className="mt-1">
+            Try {issue.proposedDates.map(formatDay).join(', ')}
+          </p>
+        ) : (
+          <p className="mt-1">No nearby date leaves room for the travel; move the surrounding shows.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ItineraryCalendar({ itinerary }: { itinerary: TourItinerary }) {
+  const datesOf = (type: ItineraryDay['type']) =>
+    itinerary.days.filter(day => day.type === type).map(day => parseDate(day.date));
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <Calendar
+        mode="single"
+        defaultMonth={itinerary.days.length ? parseDate(itinerary.days[0].date) : undefined}
+        numberOfMonths={2}
+        modifiers={{
+          show: datesOf('show'),
+          travel: datesOf('travel'),
+          off: datesOf('off'),
+          issue: itinerary.issues.map(issue => parseDate(issue.date))
+        }}
+        modifiersClassNames={{
+          show: 'bg-primary text-primary-foreground',
+          travel: 'bg-sky-100 text-sky-800',
+          off: 'bg-muted text-muted-foreground',
+          issue: 'ring-2 ring-destructive'
+        }}
+        className="rounded-md border"
+      />
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-primary" /> Show</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-sky-100" /> Travel day</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm bg-muted border" /> Day off</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm ring-2 ring-destructive" /> Needs a new date</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The tour day by day: shows, the travel days long drives need under the artist's
+ * daily limit, and off days, as a timeline and on a calendar
+ */
+export function TourTimeline({ tourId }: TourTimelineProps) {
+  const { data: itinerary, isLoading } = useQuery({
+    queryKey: ['/api/tours', tourId, 'itinerary'],
+    queryFn: () => getTourItinerary(tourId)
   });
 
+  const { items, shows, issues } = useMemo(() => ({
+    items: toTimelineItems(itinerary?.days ?? []),
+    shows: new Map((itinerary?.shows ?? []).map(show => [show.tourVenueId, show])),
+    issues: itinerary?.issues ?? []
+  }), [itinerary]);
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -36,112 +146,139 @@ export function TourTimeline({ venues }: TourTimelineProps) {
           <CalendarDays className="mr-2 h-5 w-5" />
           Tour Schedule Timeline
         </CardTitle>
+        {itinerary?.maxTravelDistancePerDay && (
+          <p className="text-sm text-muted-foreground">
+            Driving up to {formatDistance(itinerary.maxTravelDistancePerDay)} a day
+            {itinerary.requiredDaysOff.length > 0 && `, ${itinerary.requiredDaysOff.join(' and ')} off`}
+          </p>
+        )}
       </CardHeader>
       <CardContent>
-        <div className="relative">
-          {/* Timeline vertical line */}
-          <div className="absolute top-0 bottom-0 left-[20px] w-[2px] bg-primary/30 z-0"></div>
-
-          {/* Timeline items */}
-          <div className="space-y-5 mb-5">
-            {(sortedVenues || []).map((venue, index) => {
-              // Calculate distance from previous venue if any
-              let distanceFromPrevious = 0;
-              let travelTimeMinutes = 0;
-
-              if (index > 0) {
-                const prevVenue = sortedVenues[index - 1];
-                distanceFromPrevious = calculateDistanceBetweenCoords(
-                  prevVenue.latitude, prevVenue.longitude,
-                  venue.latitude, venue.longitude
-                );
-
-                // Estimate travel time (rough calculation)
-                travelTimeMinutes = Math.round(distanceFromPrevious / 80 * 60); // Assuming 80 km/h avg speed
-              }
-
-              // Format date if available
-              const formattedDate = venue.date 
-                ? new Date(venue.date).toLocaleDateString(undefined, {
-                    weekday: 'short',
-                    month: 'short',
-                    day: 'numeric',
-                    year: 'numeric'
-                  })
-                : 'Date not set';
-
-              // Get status info  
-              const statusInfo = getStatusInfo(venue.status || 'confirmed');
-
-              return (
-                <div className="relative pl-10" key={venue.id}>
-                  {/* Timeline dot */}
-                  <div 
-                    className="absolute left-[10px] transform -translate-x-1/2 rounded-full z-10 flex items-center justify-center"
-                    style={{
-                      top: '10px',
-                      width: '22px',
-                      height: '22px',
-                      backgroundColor: statusInfo.color,
-                      color: 'white',
-                      border: '3px solid white',
-                      fontWeight: 'bold',
-                      fontSize: '10px',
-                      boxShadow: '0 1px 3px rgba(0,0,0,0.2)'
-                    }}
-                  >
-                    {index + 1}
-                  </div>
-
-                  {/* Timeline content box */}
-                  <div className="bg-card border rounded-md p-3">
-                    {/* Travel info from previous venue */}
-                    {index > 0 && distanceFromPrevious > 0 && (
-                      <div className="absolute -top-4 left-10 flex items-center bg-muted px-2 py-0.5 rounded-full text-xs shadow-sm">
-                        <LocateFixed className="h-3 w-3 mr-1 text-muted-foreground" />
-                        <span>{formatDistance(distanceFromPrevious)}</span>
-                        <span className="mx-1 text-muted-foreground">•</span>
-                        <span>{formatTravelTime(travelTimeMinutes)}</span>
-                      </div>
-                    )}
-
-                    {/* Venue header */}
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <h4 className="font-medium text-base">{venue.venue}</h4>
-                        <div className="flex items-center text-muted-foreground text-sm mt-0.5">
-                          <MapPin className="h-3 w-3 mr-1" />
-                          <span>{venue.city || 'Unknown location'}</span>
-
-                          {venue.date && (
-                            <>
-                              <span className="mx-1">•</span>
-                              <span title={formattedDate}>{formattedDate}</span>
-                            </>
-                          )}
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading schedule...</div>
+        ) : !itinerary || items.length === 0 ? (
+          <div className="text-sm text-muted-foreground">Date the tour's shows to see its schedule.</div>
+        ) : (
+          <Tabs defaultValue="timeline">
+            <TabsList className="mb-4">
+              <TabsTrigger value="timeline">Timeline</TabsTrigger>
+              <TabsTrigger value="calendar">Calendar</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="timeline">
+              <div className="relative">
+                {/* Timeline vertical line */}
+                <div className="absolute top-0 bottom-0 left-[20px] w-[2px] bg-primary/30 z-0"></div>
+
+                {/* Timeline items */}
+                <div className="space-y-4 mb-5">
+                  {items.map(item => {
+                    if (item.kind === 'off') {
+                      const first = item.days[0].date;
+                      const last = item.days[item.days.length - 1].date;
+                      return (
+                        <div className="relative pl-10" key={`off-${first}`}>
+                          <div className="absolute left-[10px] top-2 -translate-x-1/2 z-10 rounded-full bg-muted p-1">
+                            <Coffee className="h-3 w-3 text-muted-foreground" />
+                          </div>
+                          <div className="text-sm text-muted-foreground py-1">
+                            {item.days.length === 1 ? 'Day off' : `${item.days.length} days off`}
+                            <span className="mx-1">•</span>
+                            {item.days.length === 1 ? formatDay(first) : `${formatDay(first)} – ${formatDay(last)}`}
+                          </div>
+                        </div>
+                      );
+                    }
+
+                    if (item.kind === 'travel') {
+                      const mode = item.day.mode ?? 'drive';
+                      const TravelIcon = travelIcons[mode];
+                      return (
+                        <div className="relative pl-10" key={`travel-${item.day.date}`}>
+                          <div className="absolute left-[10px] top-2 -translate-x-1/2 z-10 rounded-full bg-sky-100 p-1">
+                            <TravelIcon className="h-3 w-3 text-sky-800" />
+                          </div>
+                          <div className="flex items-center justify-between rounded-md border border-dashed px-3 py-1.5 text-sm">
+                            <span>
+                              {travelLabels[mode]}
+                              <span className="mx-1 text-muted-foreground">•</span>
+                              <span className="text-muted-foreground">{formatDay(item.day.date)}</span>
+                            </span>
+                            <span className="text-muted-foreground">
+                              {formatDistance(item.day.distanceKm)} toward {shows.get(item.day.tourVenueId)?.city ?? 'the next show'}
+                            </span>
+                          </div>
+                        </div>
+                      );
+                    }
+
+                    const show = shows.get(item.day.tourVenueId);
+                    const statusInfo = getStatusInfo(show?.status || 'confirmed');
+                    const showIssues = issues.filter(issue => issue.tourVenueId === item.day.tourVenueId);
+
+                    return (
+                      <div className="relative pl-10" key={`show-${item.day.tourVenueId}`}>
+                        {/* Timeline dot */}
+                        <div
+                          className="absolute left-[10px] transform -translate-x-1/2 rounded-full z-10 flex items-center justify-center"
+                          style={{
+                            top: '10px',
+                            width: '22px',
+                            height: '22px',
+                            backgroundColor: statusInfo.color,
+                            color: 'white',
+                            border: '3px solid white',
+                            fontWeight: 'bold',
+                            fontSize: '10px',
+                            boxShadow: '0 1px 3px rgba(0,0,0,0.2)'
+                          }}
+                        >
+                          {item.number}
+                        </div>
+
+                        {/* Timeline content box */}
+                        <div className={`bg-card border rounded-md p-3 ${showIssues.length ? 'border-destructive' : ''}`}>
+                          <div className="flex justify-between items-start">
+                            <div>
+                              <h4 className="font-medium text-base">{show?.venueName}</h4>
+                              <div className="flex items-center text-muted-foreground text-sm mt-0.5">
+                                <MapPin className="h-3 w-3 mr-1" />
+                                <span>{show?.city || 'Unknown location'}</span>
+                                <span className="mx-1">•</span>
+                                <span>{formatDay(item.day.date)}</span>
+                                {item.day.distanceKm > 0 && (
+                                  <>
+                                    <span className="mx-1">•</span>
+                                    <span>{formatDistance(item.day.distanceKm)} that day</span>
+                                  </>
+                                )}
+                              </div>
+                            </div>
+                            <Badge style={{
+                              backgroundColor: `${statusInfo.color}20`,
+                              color: statusInfo.color
+                            }}>
+                              {statusInfo.displayName}
+                            </Badge>
+                          </div>
+
+                          {showIssues.map(issue => (
+                            <IssueNotice key={issue.type} issue={issue} />
+                          ))}
                         </div>
                       </div>
-                      <Badge style={{
-                        backgroundColor: `${statusInfo.color}20`,
-                        color: statusInfo.color
-                      }}>
-                        {statusInfo.displayName}
-                      </Badge>
-                    </div>
-
-                    {/* Notes here if needed */}
-                    {venue.notes && (
-                      <div className="mt-2 text-sm text-muted-foreground">
-                        {venue.notes}
-                      </div>
-                    )}
-                  </div>
+                    );
+                  })}
                 </div>
-              );
-            })}
-          </div>
-        </div>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="calendar">
+              <ItineraryCalendar itinerary={itinerary} />
+            </TabsContent>
+          </Tabs>
+        )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
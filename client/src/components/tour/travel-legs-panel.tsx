@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Car, FileCheck, Plane, Ship } from 'lucide-react';
+import { travelChecklist } from '@shared/utils/geo';
+import { getTourRouteLegs } from '@/lib/api';
+import { formatDistance, formatTravelTime } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import type { OptimizationResult, RouteLeg, TravelMode } from '@/types/index';
+
+interface TravelLegsPanelProps {
+  tourId: number;
+  // Show the legs of this optimized route instead of the tour's stored route
+  optimizationResult?: OptimizationResult | null;
+}
+
+const modeIcons: Record<TravelMode, React.ComponentType<{ className?: string }>> = {
+  drive: Car,
+  ferry: Ship,
+  flight: Plane
+};
+
+/**
+ * Legs of a tour route with their travel mode and border crossings, and the visas and
+ * carnets the crossings need
+ */
+export function TravelLegsPanel({ tourId, optimizationResult }: TravelLegsPanelProps) {
+  const { data: routes = [], isLoading } = useQuery({
+    queryKey: ['/api/tour-optimization/tours', tourId, 'routes'],
+    queryFn: () => getTourRouteLegs(tourId),
+    enabled: !optimizationResult
+  });
+
+  const { legs, venueNames } = useMemo(() => {
+    const names = new Map<number, string>();
+
+    if (optimizationResult) {
+      optimizationResult.tourVenues.forEach(stop => names.set(stop.venue.id, stop.venue.name));
+      return { legs: optimizationResult.legs ?? [], venueNames: names };
+    }
+
+    const storedLegs: RouteLeg[] = routes.map(route => {
+      if (route.startVenue) names.set(route.startVenue.id, route.startVenue.name);
+      if (route.endVenue) names.set(route.endVenue.id, route.endVenue.name);
+      return {
+        fromVenueId: route.startVenueId,
+        toVenueId: route.endVenueId,
+        distanceKm: route.distanceKm ?? 0,
+        travelTimeMinutes: route.estimatedTravelTimeMinutes ?? 0,
+        mode: route.travelMode ?? 'drive',
+        borderCrossing: route.borderCrossing && route.fromCountry && route.toCountry
+          ? { fromCountry: route.fromCountry, toCountry: route.toCountry }
+          : null
+      };
+    });
+    return { legs: storedLegs, venueNames: names };
+  }, [optimizationResult, routes]);
+
+  const checklist = optimizationResult?.travelChecklist ?? travelChecklist(legs);
+  const venueName = (venueId: number | null) =>
+    (venueId !== null && venueNames.get(venueId)) || 'Suggested venue';
+
+  if (isLoading && !optimizationResult) {
+    return <div className="text-sm text-muted-foreground">Loading travel legs...</div>;
+  }
+
+  if (legs.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        Calculate or optimize the route to see its travel legs.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y border rounded-md">
+        {legs.map((leg, index) => {
+          const ModeIcon = modeIcons[leg.mode];
+          return (
+            <li key={index} className="flex flex-wrap items-center justify-between gap-2 p-3 text-sm">
+              <div className="flex items-center gap-2">
+                <ModeIcon className="h-4 w-4 text-muted-foreground" />
+                <span>{venueName(leg.fromVenueId)} → {venueName(leg.toVenueId)}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                {leg.mode !== 'drive' && (
+                  <Badge variant="outline" className="capitalize">{leg.mode}</Badge>
+                )}
+                {leg.borderCrossing && (
+                  <Badge className="bg-amber-100 text-amber-700 hover:bg-amber-200">
+                    Border {leg.borderCrossing.fromCountry} → {leg.borderCrossing.toCountry}
+                  </Badge>
+                )}
+                <span className="text-muted-foreground">
+                  {formatDistance(leg.distanceKm)} · {formatTravelTime(leg.travelTimeMinutes)}
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {checklist.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2">Border paperwork</h4>
+          <ul className="space-y-1 text-sm">
+            {checklist.map(item => (
+              <li key={`${item.type}-${item.country}`} className="flex items-start gap-2">
+                <FileCheck className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                <span>
+                  {item.description}
+                  <span className="text-muted-foreground">
+                    {' '}(from {venueName(item.fromVenueId)} to {venueName(item.toVenueId)})
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
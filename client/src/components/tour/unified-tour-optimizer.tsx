@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { getUnifiedOptimization, applyUnifiedOptimization } from '@/lib/api';
+import { optimizeTour, applyOptimization as applyTourOptimization } from '@/lib/api';
+import { distanceReduction, toAppliedStops, travelTimeSavings } from '@/hooks/use-tour-optimization';
+import type { OptimizationResult, OptimizationStrategyName } from '@/types/index';
 import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 
@@ -33,59 +35,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 
-// Type for venue data
-type VenueData = {
-  id: number;
-  venueId: number;
-  name: string;
-  city: string;
-  latitude: number | null;
-  longitude: number | null;
-  date: string | null;
-  isFixed: boolean;
-  status: string;
-  sequence: number | null;
-};
-
-// Type for optimization result
-type OptimizationResult = {
-  optimizationMethod: 'standard' | 'ai';
-  optimizedSequence: number[];
-  suggestedDates: Record<string, string>;
-  recommendedVenues: number[];
-  suggestedSkips: number[];
-  estimatedDistanceReduction: number;
-  estimatedTimeSavings: number;
-  reasoning: string;
-  calculatedMetrics: {
-    totalDistance: string;
-    totalTravelTimeMinutes: number;
-    optimizedDistance: string;
-    optimizedTimeMinutes: number;
-  };
-  aiError?: {
-    message: string;
-    details: string;
-  };
-};
-
-// Type for tour data
-type TourData = {
-  tourId: number;
-  tourName: string;
-  artistName: string;
-  artistGenres: string[];
-  startDate: string;
-  endDate: string;
-  confirmedVenues: VenueData[];
-  potentialVenues: VenueData[];
-  allVenues: VenueData[];
-};
-
-type UnifiedOptimizationResponse = {
-  tourData: TourData;
-  optimizationResult: OptimizationResult;
-};
+const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
 
 type UnifiedTourOptimizerProps = {
   tourId: number;
@@ -99,42 +49,32 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
   const { toast } = useToast();
 
   // Advanced optimization options
-  const [optimizationOptions, setOptimizationOptions] = useState({
-    method: optimizationMethod,
+  const optimizationOptions = {
     respectFixedDates: true,
-    optimizeFor: 'balanced' as 'balanced' | 'distance' | 'time'
-  });
+    optimizeFor: 'balanced' as const
+  };
 
-  // Update optimization options when method changes
-  React.useEffect(() => {
-    setOptimizationOptions(prev => ({
-      ...prev,
-      method: optimizationMethod
-    }));
-  }, [optimizationMethod]);
+  // Auto asks for the AI strategy; the service falls back to the standard one when AI is unavailable
+  const strategy: OptimizationStrategyName = optimizationMethod === 'standard' ? 'standard' : 'ai';
 
   // Fetch optimization suggestions
-  const { data, isLoading, isError, error, refetch } = useQuery<UnifiedOptimizationResponse>({
-    queryKey: ['unified-tour-optimization', tourId, optimizationOptions],
-    queryFn: async () => {
-      const response = await getUnifiedOptimization(tourId, optimizationOptions);
-      return response;
-    },
+  const { data, isLoading, isError, error, refetch } = useQuery<OptimizationResult>({
+    queryKey: ['/api/v1/optimization/tours', tourId, strategy],
+    queryFn: () => optimizeTour(tourId, { strategy, options: optimizationOptions }),
     enabled: false, // Don't fetch on component mount
   });
 
   // Apply optimization mutation
   const { mutate: applyOptimization, isPending: isApplying } = useMutation({
     mutationFn: async () => {
-      if (!data?.optimizationResult) return;
+      if (!data) return;
       
-      const { optimizedSequence, suggestedDates } = data.optimizationResult;
-      return await applyUnifiedOptimization(tourId, optimizedSequence, suggestedDates);
+      return await applyTourOptimization(tourId, data.runId, toAppliedStops(data));
     },
     onSuccess: () => {
-      // Check if we're using the fallback optimization (presence of aiError)
-      const isUsingFallback = data?.optimizationResult?.aiError !== undefined;
-      const isAiOptimization = data?.optimizationResult?.optimizationMethod === 'ai';
+      // Check if we're using the fallback optimization
+      const isUsingFallback = data?.fallbackReason !== undefined;
+      const isAiOptimization = data?.strategy === 'ai';
       
       toast({
         title: isUsingFallback 
@@ -168,36 +108,11 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
       }
     },
     onError: (err: any) => {
-      // Provide more detailed error message if available
-      const isApiKeyError = err?.message?.includes('API key') || err?.message?.includes('token');
-      
       toast({
-        title: isApiKeyError ? 'AI Service Unavailable' : 'Error applying optimization',
-        description: isApiKeyError 
-          ? 'The system has applied standard optimization instead.'
-          : 'There was a problem applying the optimization. Please try again.',
-        variant: data?.optimizationResult?.aiError ? 'default' : 'destructive',
+        title: 'Error applying optimization',
+        description: err?.message || 'There was a problem applying the optimization. Please try again.',
+        variant: 'destructive',
       });
-      
-      // If we have fallback data, still consider it successful and close
-      if (data?.optimizationResult?.aiError) {
-        setOpen(false);
-        
-        // Still invalidate queries to refresh the tour data
-        queryClient.invalidateQueries({ queryKey: ['/api/tours', tourId] });
-        
-        // If we were called from a route like /tours/{id}/optimize, 
-        // navigate back to the tour detail page
-        if (window.location.pathname.includes('/optimize')) {
-          window.location.href = `/tours/${tourId}`;
-          return; // Return early to avoid executing callback
-        }
-        
-        // Call the callback if provided (only if not redirecting)
-        if (onApplyChanges) {
-          onApplyChanges();
-        }
-      }
     }
   });
 
@@ -236,6 +151,10 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
     // Don't automatically run the optimization
   };
   
+  // Stops with a new date, and venues suggested to fill gaps in the route
+  const suggestedDates = data?.tourVenues.filter(stop => stop.suggestedDate && !stop.isFixed) ?? [];
+  const recommendedVenues = data?.tourVenues.filter(stop => stop.gapFilling) ?? [];
+
   // Start the optimization process after method selection
   const startOptimization = () => {
     setShowMethodSelection(false);
@@ -345,7 +264,7 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
           </div>
         ) : (
           <div className="space-y-4">
-            {data.optimizationResult.aiError && (
+            {data.fallbackReason && (
               <Card className="bg-amber-50 dark:bg-amber-950 border-amber-200 dark:border-amber-800">
                 <CardContent className="pt-6">
                   <div className="flex items-start gap-2">
@@ -358,7 +277,7 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
                     </div>
                     <div>
                       <h4 className="text-sm font-medium text-amber-800 dark:text-amber-200">
-                        {data.optimizationResult.aiError.message}
+                        {data.fallbackReason}
                       </h4>
                       <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
                         Using standard optimization algorithm instead.
@@ -381,10 +300,8 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
                     <CardContent className="pt-6">
                       <div className="text-center">
                         <p className="text-sm font-medium text-muted-foreground mb-1">Distance Reduction</p>
-                        <p className="text-3xl font-bold">{typeof data.optimizationResult.estimatedDistanceReduction === 'string' ? 
-                          data.optimizationResult.estimatedDistanceReduction : 
-                          `${data.optimizationResult.estimatedDistanceReduction}%`}</p>
-                        <p className="text-xs text-muted-foreground mt-1">Total: {data.optimizationResult.calculatedMetrics.totalDistance}</p>
+                        <p className="text-3xl font-bold">{distanceReduction(data)}%</p>
+                        <p className="text-xs text-muted-foreground mt-1">Total: {Math.round(data.totalDistance)} km</p>
                       </div>
                     </CardContent>
                   </Card>
@@ -393,11 +310,9 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
                     <CardContent className="pt-6">
                       <div className="text-center">
                         <p className="text-sm font-medium text-muted-foreground mb-1">Time Savings</p>
-                        <p className="text-3xl font-bold">{typeof data.optimizationResult.estimatedTimeSavings === 'string' ? 
-                          data.optimizationResult.estimatedTimeSavings : 
-                          `${data.optimizationResult.estimatedTimeSavings}%`}</p>
+                        <p className="text-3xl font-bold">{formatMinutes(travelTimeSavings(data))}</p>
                         <p className="text-xs text-muted-foreground mt-1">
-                          {Math.floor(data.optimizationResult.calculatedMetrics.totalTravelTimeMinutes / 60)}h {data.optimizationResult.calculatedMetrics.totalTravelTimeMinutes % 60}m
+                          Total: {formatMinutes(data.totalTravelTime)}
                         </p>
                       </div>
                     </CardContent>
@@ -408,7 +323,7 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
                       <div className="text-center">
                         <p className="text-sm font-medium text-muted-foreground mb-1">Optimization Method</p>
                         <p className="text-sm font-bold flex items-center justify-center gap-1">
-                          {data.optimizationResult.optimizationMethod === 'ai' ? (
+                          {data.strategy === 'ai' ? (
                             <>
                               <Brain size={16} className="text-blue-500" />
                               <span>AI Powered</span>
@@ -421,7 +336,7 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
                           )}
                         </p>
                         <p className="text-xs text-muted-foreground mt-1">
-                          {data.optimizationResult.optimizedSequence.length} venues optimized
+                          {data.tourVenues.length} venues optimized
                         </p>
                       </div>
                     </CardContent>
@@ -429,124 +344,73 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
                 </div>
                 
                 {/* Optimized Sequence */}
-                {data.optimizationResult.optimizedSequence.length > 0 && (
+                {data.tourVenues.length > 0 && (
                   <div>
                     <h3 className="text-sm font-medium mb-2">Optimized Venue Sequence</h3>
                     <div className="bg-muted p-4 rounded-md space-y-2">
                       <div className="flex flex-wrap gap-2">
-                        {data.optimizationResult.optimizedSequence.map((venueId, index) => {
-                          // Try to find by id first (actual ID)
-                          let venue = data.tourData.allVenues.find(v => v.id === venueId);
-                          
-                          // If not found, try by index+1 (AI might be using 1-based indexing)
-                          if (!venue && typeof venueId === 'number' && venueId <= data.tourData.allVenues.length) {
-                            venue = data.tourData.allVenues[venueId - 1];
-                          }
-                          
-                          if (!venue) {
-                            console.warn(`Venue not found for ID ${venueId}`);
-                            return null;
-                          }
-                          
-                          return (
-                            <div key={index} className="flex items-center">
-                              {index > 0 && <ArrowRight size={12} className="mx-1 text-muted-foreground" />}
-                              <Badge variant={venue.isFixed ? "default" : "outline"} className="flex items-center gap-1">
-                                {venue.isFixed ? <LucideMapPinned size={12} /> : <MapPin size={12} />}
-                                <span>{venue.name} (ID: {venue.id})</span>
-                              </Badge>
-                            </div>
-                          );
-                        })}
+                        {data.tourVenues.map((stop, index) => (
+                          <div key={index} className="flex items-center">
+                            {index > 0 && <ArrowRight size={12} className="mx-1 text-muted-foreground" />}
+                            <Badge variant={stop.isFixed ? "default" : "outline"} className="flex items-center gap-1">
+                              {stop.isFixed ? <LucideMapPinned size={12} /> : <MapPin size={12} />}
+                              <span>{stop.venue.name} (ID: {stop.venue.id})</span>
+                            </Badge>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
                 )}
                 
                 {/* Date Suggestions */}
-                {Object.keys(data.optimizationResult.suggestedDates).length > 0 && (
+                {suggestedDates.length > 0 && (
                   <div>
                     <h3 className="text-sm font-medium mb-2">Suggested Dates</h3>
                     <div className="bg-muted p-4 rounded-md">
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {Object.entries(data.optimizationResult.suggestedDates).map(([venueId, date], index) => {
-                          // Try to find by id first (actual ID)
-                          let venue = data.tourData.allVenues.find(v => v.id === Number(venueId));
-                          
-                          // If not found, try by index+1 (AI might be using 1-based indexing)
-                          if (!venue && !isNaN(Number(venueId)) && Number(venueId) <= data.tourData.allVenues.length) {
-                            venue = data.tourData.allVenues[Number(venueId) - 1];
-                          }
-                          
-                          if (!venue) return null;
-                          
-                          return (
-                            <div key={index} className="flex items-center justify-between">
-                              <span className="font-medium">{venue.name}</span>
-                              <Badge variant="secondary" className="flex items-center gap-1">
-                                <Calendar size={12} />
-                                <span>{new Date(date).toLocaleDateString()}</span>
-                              </Badge>
-                            </div>
-                          );
-                        })}
+                        {suggestedDates.map((stop, index) => (
+                          <div key={index} className="flex items-center justify-between">
+                            <span className="font-medium">{stop.venue.name}</span>
+                            <Badge variant="secondary" className="flex items-center gap-1">
+                              <Calendar size={12} />
+                              <span>{new Date(stop.suggestedDate!).toLocaleDateString()}</span>
+                            </Badge>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
                 )}
                 
                 {/* Recommended Venues */}
-                {data.optimizationResult.recommendedVenues.length > 0 && (
+                {recommendedVenues.length > 0 && (
                   <div>
                     <h3 className="text-sm font-medium mb-2">Recommended Venues</h3>
                     <div className="bg-muted p-4 rounded-md">
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                        {data.optimizationResult.recommendedVenues.map((venueId, index) => {
-                          // Try to find by id first (actual ID)
-                          let venue = data.tourData.allVenues.find(v => v.id === venueId);
-                          
-                          // If not found, try by index+1 (AI might be using 1-based indexing)
-                          if (!venue && typeof venueId === 'number' && venueId <= data.tourData.allVenues.length) {
-                            venue = data.tourData.allVenues[venueId - 1];
-                          }
-                          
-                          if (!venue) return null;
-                          
-                          return (
-                            <div key={index} className="flex items-center gap-2">
-                              <Check size={14} className="text-green-500" />
-                              <span>{venue.name}, {venue.city}</span>
-                            </div>
-                          );
-                        })}
+                        {recommendedVenues.map((stop, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <Check size={14} className="text-green-500" />
+                            <span>{stop.venue.name}, {stop.venue.city}</span>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
                 )}
                 
-                {/* Suggested Skips */}
-                {data.optimizationResult.suggestedSkips.length > 0 && (
+                {/* Scheduling Conflicts */}
+                {data.violations.length > 0 && (
                   <div>
-                    <h3 className="text-sm font-medium mb-2">Suggested Skips</h3>
+                    <h3 className="text-sm font-medium mb-2">Scheduling Conflicts</h3>
                     <div className="bg-muted p-4 rounded-md">
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                        {data.optimizationResult.suggestedSkips.map((venueId, index) => {
-                          // Try to find by id first (actual ID)
-                          let venue = data.tourData.allVenues.find(v => v.id === venueId);
-                          
-                          // If not found, try by index+1 (AI might be using 1-based indexing)
-                          if (!venue && typeof venueId === 'number' && venueId <= data.tourData.allVenues.length) {
-                            venue = data.tourData.allVenues[venueId - 1];
-                          }
-                          
-                          if (!venue) return null;
-                          
-                          return (
-                            <div key={index} className="flex items-center gap-2 text-muted-foreground">
-                              <span className="line-through">{venue.name}, {venue.city}</span>
-                            </div>
-                          );
-                        })}
+                        {data.violations.map((violation, index) => (
+                          <div key={index} className="flex items-center gap-2 text-muted-foreground">
+                            <span>{violation.detail}</span>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
@@ -558,7 +422,7 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
                   <CardContent className="pt-6">
                     <div className="prose max-w-none dark:prose-invert">
                       <h3>Optimization Reasoning</h3>
-                      <p className="whitespace-pre-line">{data.optimizationResult.reasoning}</p>
+                      <p className="whitespace-pre-line">{data.reasoning}</p>
                     </div>
                   </CardContent>
                 </Card>
@@ -569,14 +433,14 @@ export function UnifiedTourOptimizer({ tourId, onApplyChanges }: UnifiedTourOpti
         
         <DialogFooter className="flex flex-col sm:flex-row gap-2 pt-4 border-t">
           <div className="text-sm text-muted-foreground mr-auto">
-            {data?.optimizationResult && (
+            {data && (
               <div className="flex flex-col">
                 <span className="flex items-center gap-1">
                   <Check className="h-4 w-4 text-green-500" />
                   Optimized route ready to apply
                 </span>
                 <span className="text-xs flex items-center gap-1 mt-1">
-                  {data.optimizationResult.optimizationMethod === 'ai' 
+                  {data.strategy === 'ai' 
                     ? (
                       <>
                         <Brain size={12} className="text-blue-500" />
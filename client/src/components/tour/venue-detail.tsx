@@ -8,6 +8,8 @@ import {
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { 
   Select, 
   SelectContent, 
@@ -27,10 +29,12 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { formatDate } from '@/lib/utils';
 import { apiRequest } from '@/lib/queryClient';
+import { daySheetUrl, updateTourVenue } from '@/lib/api';
 import { 
   Building, 
   Calendar, 
   Clock, 
+  FileText, 
   Globe, 
   Mail, 
   MapPin, 
@@ -48,12 +52,57 @@ interface VenueDetailProps {
   onClose?: () => void;
 }
 
+const DAY_SHEET_FIELDS = [
+  { field: 'loadInTime', label: 'Load-in' },
+  { field: 'soundcheckTime', label: 'Soundcheck' },
+  { field: 'doorsTime', label: 'Doors' },
+  { field: 'setTime', label: 'Set' },
+  { field: 'accommodation', label: 'Accommodation' },
+] as const;
+
+type DaySheetFields = Record<typeof DAY_SHEET_FIELDS[number]['field'], string>;
+
+const daySheetFields = (tourVenue: any): DaySheetFields => ({
+  loadInTime: tourVenue?.loadInTime ?? '',
+  soundcheckTime: tourVenue?.soundcheckTime ?? '',
+  doorsTime: tourVenue?.doorsTime ?? '',
+  setTime: tourVenue?.setTime ?? '',
+  accommodation: tourVenue?.accommodation ?? '',
+});
+
 export function VenueDetail({ venue, tourId, onUpdate, onClose }: VenueDetailProps) {
   const [status, setStatus] = useState(venue.status || 'potential');
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [daySheet, setDaySheet] = useState<DaySheetFields>(daySheetFields(venue.tourVenue));
   const { toast } = useToast();
 
+  const daySheetChanged = DAY_SHEET_FIELDS.some(({ field }) => daySheet[field] !== daySheetFields(venue.tourVenue)[field]);
+
+  // Times and accommodation go on the show's day sheet; load-in also shows in calendar feeds
+  const saveDaySheet = async () => {
+    setIsUpdating(true);
+
+    try {
+      await updateTourVenue(tourId, venue.tourVenue.id, Object.fromEntries(
+        DAY_SHEET_FIELDS.map(({ field }) => [field, daySheet[field].trim() || null])
+      ));
+      toast({
+        title: 'Day Sheet Updated',
+        description: `Saved the day sheet for ${venue.name}`,
+      });
+      onUpdate();
+    } catch (error) {
+      toast({
+        title: 'Update Failed',
+        description: error instanceof Error ? error.message : 'There was an error updating the day sheet',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const updateVenueStatus = async () => {
     setIsUpdating(true);
 
@@ -149,6 +198,57 @@ export function VenueDetail({ venue, tourId, onUpdate, onClose }: VenueDetailPro
           </div>
         )}
 
+        {/* Day sheet */}
+        {venue.tourVenue && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">Day Sheet</h3>
+              {venue.tourVenue.status === 'confirmed' && venue.tourVenue.date && (
+                <div className="flex gap-2 text-sm">
+                  <a href={daySheetUrl(tourId, venue.tourVenue.date, 'pdf')} className="text-primary hover:underline">
+                    <FileText className="h-3.5 w-3.5 mr-1 inline" />
+                    PDF
+                  </a>
+                  <a
+                    href={daySheetUrl(tourId, venue.tourVenue.date, 'html')}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    Print
+                  </a>
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {DAY_SHEET_FIELDS.filter(({ field }) => field !== 'accommodation').map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`day-sheet-${field}`} className="text-xs">{label}</Label>
+                  <Input
+                    id={`day-sheet-${field}`}
+                    type="time"
+                    className="h-8"
+                    value={daySheet[field]}
+                    onChange={(e) => setDaySheet({ ...daySheet, [field]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="day-sheet-accommodation" className="text-xs">Accommodation</Label>
+              <Input
+                id="day-sheet-accommodation"
+                placeholder="e.g. Hotel name and address"
+                value={daySheet.accommodation}
+                onChange={(e) => setDaySheet({ ...daySheet, accommodation: e.target.value })}
+              />
+            </div>
+            <Button size="sm" variant="outline" onClick={saveDaySheet} disabled={isUpdating || !daySheetChanged}>
+              Save Day Sheet
+            </Button>
+          </div>
+        )}
+
         {/* Venue details */}
         <div className="space-y-3">
           {venue.capacity && (
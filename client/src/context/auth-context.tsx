@@ -1,61 +1,82 @@
 import React, { createContext, useContext } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/api';
+import { hasPermission as userHasPermission, hasVenueAccess as userHasVenueAccess, Permission, User, VenueMemberRole } from '@/lib/permissions';
 
-// Mock user data for the demo
-const mockUser = {
-  id: 1,
-  username: 'demo',
-  name: 'Demo User',
-  email: 'demo@example.com',
-  role: 'admin',
-  permissions: ['view_tours', 'edit_tours', 'create_tours', 'delete_tours', 'view_venues', 'edit_venues']
-};
+// Shape of GET /api/auth/status
+interface AuthStatus {
+  authenticated: boolean;
+  user?: User;
+  currentVenueId?: number | null;
+  demoMode?: boolean;
+}
 
-// Define a simplified version of the auth context
 interface AuthContextType {
-  user: any;
+  user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  hasPermission: (permission: string) => boolean;
+  isDemoMode: boolean;
+  hasPermission: (permission: Permission) => boolean;
+  hasVenueAccess: (venueId: number, memberRoles?: VenueMemberRole[]) => boolean;
   currentVenueId: number | null;
   switchVenue: (venueId: number) => Promise<void>;
-  login: () => Promise<void>;
+  login: (username: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
+  refresh: () => Promise<void>;
 }
 
+const AUTH_STATUS_KEY = ['/api/auth/status'];
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Simple AuthProvider for demo purposes - always authenticated and bypasses server checks
-export function AuthProvider({ children }: { children: React.ReactNode }) {  
-  // Demo implementation for permission checking
-  const checkPermission = (permission: string): boolean => {
-    return mockUser.permissions.includes(permission);
+// AuthProvider backed by the server session; demo mode is decided server-side via AUTH_DEMO_MODE
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<AuthStatus>({
+    queryKey: AUTH_STATUS_KEY,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const user = status?.authenticated ? status.user ?? null : null;
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries({ queryKey: AUTH_STATUS_KEY });
   };
-  
-  // Mock implementations that do nothing
-  const login = async () => {
-    console.log('Demo login - no authentication required');
+
+  const login = async (username: string, password: string) => {
+    await apiRequest({
+      url: '/api/auth',
+      method: 'POST',
+      data: { username, password }
+    });
+    await refresh();
   };
-  
+
   const logout = async () => {
-    console.log('Demo logout - no authentication required');
+    await apiRequest({ url: '/api/auth/logout', method: 'POST' });
+    queryClient.setQueryData<AuthStatus>(AUTH_STATUS_KEY, { authenticated: false });
   };
-  
+
   const switchVenue = async (venueId: number) => {
-    console.log(`Demo venue switch to venue ID: ${venueId}`);
+    await apiRequest({ url: `/api/venues/select/${venueId}` });
+    await refresh();
   };
-  
-  // Create the context value object with mock data
+
   const contextValue: AuthContextType = {
-    user: mockUser,
-    isLoading: false,
-    isAuthenticated: true, // Always authenticated for demo
+    user,
+    isLoading,
+    isAuthenticated: !!user,
+    isDemoMode: !!status?.demoMode,
     login,
     logout,
-    hasPermission: checkPermission,
-    currentVenueId: 1, // Default venue ID
+    refresh,
+    hasPermission: (permission: Permission) => userHasPermission(user, permission),
+    hasVenueAccess: (venueId: number, memberRoles?: VenueMemberRole[]) => userHasVenueAccess(user, venueId, memberRoles),
+    currentVenueId: status?.currentVenueId ?? null,
     switchVenue,
   };
-  
+
   return <AuthContext.Provider value={contextValue}>{children}</AuthContext.Provider>;
 }
 
@@ -65,4 +86,4 @@ export function useAuth() {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-}
\ No newline at end of file
+}
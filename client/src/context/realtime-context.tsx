@@ -0,0 +1,150 @@
+import React, { createContext, useContext, useEffect, useRef } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/context/auth-context';
+
+// Shape of the events pushed by server/services/realtime.ts
+type RealtimeEvent =
+  | { type: 'message.created'; conversationId: number; messageId: number; senderId: number }
+  | { type: 'conversation.read'; conversationId: number; userId: number; lastReadAt: string }
+  | { type: 'tourVenue.statusChanged'; tourId: number; tourVenueId: number; venueId: number; previousStatus: string | null; status: string }
+  | { type: 'tour.optimized'; tourId: number; source: string; applied: boolean }
+  | { type: 'tour.venuesAdded'; tourId: number; tourVenueIds: number[] }
+  | { type: 'venueHold.changed'; tourId: number; tourVenueId: number; holdId: number; transition: string; rank: number | null };
+
+interface RealtimeContextType {
+  subscribe: (channel: string) => () => void;
+}
+
+const REALTIME_PATH = '/ws';
+const MAX_RECONNECT_DELAY = 30000;
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+// Refetch every cached query that can show the changed tour
+function invalidateTourQueries(queryClient: QueryClient, tourId: number) {
+  queryClient.invalidateQueries({ queryKey: ['/api/tours'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/tour/tours'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/tour-optimization/tours', tourId] });
+}
+
+function handleEvent(queryClient: QueryClient, event: RealtimeEvent) {
+  switch (event.type) {
+    case 'message.created':
+    case 'conversation.read':
+      queryClient.invalidateQueries({ queryKey: ['messages'] });
+      break;
+    case 'tourVenue.statusChanged':
+    case 'tour.optimized':
+    case 'tour.venuesAdded':
+      invalidateTourQueries(queryClient, event.tourId);
+      break;
+    case 'venueHold.changed':
+      invalidateTourQueries(queryClient, event.tourId);
+      queryClient.invalidateQueries({ queryKey: ['/api/holds'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/venue-availability'] });
+      break;
+  }
+}
+
+// Keeps a WebSocket open while signed in and turns server pushes into cache invalidations
+export function RealtimeProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+  const socketRef = useRef<WebSocket | null>(null);
+  // Channel name -> number of mounted subscribers
+  const channelsRef = useRef<Map<string, number>>(new Map());
+
+  const sendChannelMessage = (type: 'subscribe' | 'unsubscribe', channel: string) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type, channel }));
+    }
+  };
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    let closed = false;
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        // Restore subscriptions made before (re)connecting
+        channelsRef.current.forEach((_, channel) => sendChannelMessage('subscribe', channel));
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(queryClient, JSON.parse(message.data));
+        } catch (error) {
+          console.error('Invalid realtime message:', error);
+        }
+      };
+
+      socket.onclose = () => {
+        socketRef.current = null;
+        if (closed) return;
+        // Back off so a restarting server is not flooded with reconnects
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY);
+        attempts += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [isAuthenticated, queryClient]);
+
+  const subscribe = (channel: string) => {
+    const channels = channelsRef.current;
+    const count = channels.get(channel) ?? 0;
+    channels.set(channel, count + 1);
+    if (count === 0) {
+      sendChannelMessage('subscribe', channel);
+    }
+
+    return () => {
+      const remaining = (channels.get(channel) ?? 1) - 1;
+      if (remaining > 0) {
+        channels.set(channel, remaining);
+      } else {
+        channels.delete(channel);
+        sendChannelMessage('unsubscribe', channel);
+      }
+    };
+  };
+
+  return <RealtimeContext.Provider value={{ subscribe }}>{children}</RealtimeContext.Provider>;
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+}
+
+// Receive status changes and optimization results for a tour while the component is mounted
+export function useTourUpdates(tourId: number | null | undefined) {
+  const { subscribe } = useRealtime();
+
+  useEffect(() => {
+    if (!tourId) return;
+    return subscribe(`tour:${tourId}`);
+  }, [tourId]);
+}
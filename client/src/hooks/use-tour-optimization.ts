@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { optimizeTour, applyOptimization } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+import type {
+  AppliedStop,
+  OptimizationOptions,
+  OptimizationResult,
+  OptimizationStrategyName
+} from '@/types/index';
+
+/**
+ * The stops of an optimization result to apply; the server takes their order and dates
+ * from the stored run
+ */
+export function toAppliedStops(result: OptimizationResult): AppliedStop[] {
+  return result.tourVenues.map(stop => ({
+    tourVenueId: stop.tourVenueId,
+    venueId: stop.venue.id
+  }));
+}
+
+// Percentage of the current route's distance the optimized route saves
+export function distanceReduction(result: OptimizationResult): number {
+  if (!result.baseline.totalDistance) return 0;
+  return Math.round((1 - result.totalDistance / result.baseline.totalDistance) * 100);
+}
+
+// Travel minutes the optimized route saves compared with the current one
+export function travelTimeSavings(result: OptimizationResult): number {
+  return Math.round(result.baseline.totalTravelTime - result.totalTravelTime);
+}
+
+/**
+ * Optimize a tour with the optimization service and apply the result
+ */
+export function useTourOptimization(tourId: number) {
+  const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const optimizeMutation = useMutation({
+    mutationFn: ({ strategy, options }: { strategy: OptimizationStrategyName; options?: OptimizationOptions }) =>
+      optimizeTour(tourId, { strategy, options: { respectFixedDates: true, ...options } }),
+    onSuccess: (result) => {
+      setOptimizationResult(result);
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/optimization/tours', tourId, 'runs'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error optimizing tour:', error);
+      toast({
+        variant: "destructive",
+        title: "Optimization failed",
+        description: error.message || "Could not optimize your tour route. Please try again.",
+      });
+    }
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: () => {
+      if (!optimizationResult) {
+        throw new Error('No optimization result to apply');
+      }
+      return applyOptimization(tourId, optimizationResult.runId, toAppliedStops(optimizationResult));
+    },
+    onSuccess: () => {
+      setOptimizationResult(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/tours', tourId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tour/tours', tourId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tour-optimization/tours', tourId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/v1/optimization/tours', tourId, 'runs'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error applying optimization:', error);
+      toast({
+        variant: "destructive",
+        title: "Failed to apply optimization",
+        description: error.message || "Could not apply the optimized route. Please try again.",
+      });
+    }
+  });
+
+  // Confirmed dates the optimized route could not keep
+  const dateConflicts = optimizationResult?.violations.filter(v => v.type === 'fixedDateUnreachable') ?? [];
+
+  return {
+    optimize: (strategy: OptimizationStrategyName = 'standard', options?: OptimizationOptions) =>
+      optimizeMutation.mutateAsync({ strategy, options }),
+    apply: () => applyMutation.mutateAsync(),
+    optimizationResult,
+    isOptimizing: optimizeMutation.isPending,
+    isApplying: applyMutation.isPending,
+    error: optimizeMutation.error?.message ?? applyMutation.error?.message ?? null,
+    dateConflicts,
+    reset: () => setOptimizationResult(null),
+  };
+}
@@ -1,4 +1,34 @@
 // API utilities
+import type {
+  AppliedStop,
+  CalendarFeed,
+  CalendarImportResult,
+  EntityMatchReview,
+  EntityType,
+  HoldDate,
+  Job,
+  JobLog,
+  JobSchedule,
+  JobStatus,
+  MatchReviewStatus,
+  OptimizationRequest,
+  OptimizationResult,
+  OptimizationRun,
+  OptimizationRunDiff,
+  ShowActualsInput,
+  ShowDealInput,
+  ShowSettlement,
+  StoredTourRoute,
+  SyncRun,
+  SyncRunError,
+  SyncRunStatus,
+  TourBudgetInput,
+  TourFinances,
+  TourItinerary,
+  VenueAvailability,
+  VenueBlackout,
+  VenueHold
+} from '@/types/index';
 
 // Define the interface for our API request helper
 interface ApiRequest {
@@ -115,19 +145,91 @@ export async function updateTour(tourId: number, data: any) {
   });
 }
 
-export async function optimizeTourRoute(tourId: number, options = {}) {
-  return apiRequest({
-    url: `/api/tours/${tourId}/optimize`,
+// Optimize a tour with one of the optimization service's strategies
+export async function optimizeTour(tourId: number, request: OptimizationRequest) {
+  return apiRequest<OptimizationResult>({
+    url: `/api/v1/optimization/tours/${tourId}/optimize`,
     method: 'POST' as const,
-    data: options
+    data: request
   });
 }
 
-export async function applyTourOptimization(tourId: number, optimizationResult: any) {
+// Write an optimization run's route to the tour, limited to the given stops
+export async function applyOptimization(tourId: number, runId: number, stops: AppliedStop[]) {
   return apiRequest({
-    url: `/api/tours/${tourId}/apply-optimization`,
+    url: `/api/v1/optimization/tours/${tourId}/apply`,
     method: 'POST' as const,
-    data: optimizationResult
+    data: { runId, stops }
+  });
+}
+
+// Optimization runs of a tour, newest first
+export async function getOptimizationRuns(tourId: number) {
+  return apiRequest<OptimizationRun[]>({
+    url: `/api/v1/optimization/tours/${tourId}/runs`
+  });
+}
+
+// Venue by venue difference between two optimization runs
+export async function getOptimizationRunDiff(tourId: number, fromRunId: number, toRunId: number) {
+  return apiRequest<OptimizationRunDiff>({
+    url: `/api/v1/optimization/tours/${tourId}/runs/diff?from=${fromRunId}&to=${toRunId}`
+  });
+}
+
+// Restore a tour to the venue order and dates an optimization run started from
+export async function rollbackOptimizationRun(tourId: number, runId: number) {
+  return apiRequest({
+    url: `/api/v1/optimization/tours/${tourId}/runs/${runId}/rollback`,
+    method: 'POST' as const
+  });
+}
+
+// Stored legs of a tour's current route, with their start and end venues
+export async function getTourRouteLegs(tourId: number) {
+  return apiRequest<StoredTourRoute[]>({
+    url: `/api/tour-optimization/tours/${tourId}/routes`
+  });
+}
+
+// Day-by-day itinerary of a tour with its travel and off days
+export async function getTourItinerary(tourId: number) {
+  return apiRequest<TourItinerary>({
+    url: `/api/tours/${tourId}/itinerary`
+  });
+}
+
+// Projected and actual settlement of each show and the tour P&L
+export async function getTourFinances(tourId: number) {
+  return apiRequest<TourFinances>({
+    url: `/api/tours/${tourId}/finances`
+  });
+}
+
+// Set a tour's total budget and cost assumptions
+export async function saveTourBudget(tourId: number, budget: TourBudgetInput) {
+  return apiRequest({
+    url: `/api/tours/${tourId}/budget`,
+    method: 'PUT' as const,
+    data: budget
+  });
+}
+
+// Set a show's deal and projections
+export async function saveShowDeal(tourId: number, tourVenueId: number, deal: ShowDealInput) {
+  return apiRequest<ShowSettlement>({
+    url: `/api/tours/${tourId}/shows/${tourVenueId}/deal`,
+    method: 'PUT' as const,
+    data: deal
+  });
+}
+
+// Enter a show's ticket count and takings after the show
+export async function recordShowActuals(tourId: number, tourVenueId: number, actuals: ShowActualsInput) {
+  return apiRequest<ShowSettlement>({
+    url: `/api/tours/${tourId}/shows/${tourVenueId}/actuals`,
+    method: 'PUT' as const,
+    data: actuals
   });
 }
 
@@ -153,71 +255,95 @@ export async function getCollaborativeOpportunitiesByVenue(venueId: number) {
   });
 }
 
-export async function searchVenues(query: string) {
+export async function createCollaborativeOpportunity(data: {
+  creatorVenueId: number;
+  artistId: number;
+  dateRangeStart: string;
+  dateRangeEnd: string;
+  invitedVenueIds: number[];
+  notes?: string;
+}) {
   return apiRequest({
-    url: `/api/venues/search?query=${encodeURIComponent(query)}`,
-    method: 'GET' as const
+    url: '/api/venue-network/opportunities',
+    method: 'POST' as const,
+    data
   });
 }
 
-export async function createVenueConnection(data: { sourceVenueId: number; targetVenueId: number; connectionType: string }) {
+export async function respondToCollaborativeOpportunity(
+  opportunityId: number,
+  data: { venueId: number; status: 'accepted' | 'declined'; proposedDate?: string }
+) {
   return apiRequest({
-    url: `/api/venue-network/connections`,
+    url: `/api/venue-network/opportunities/${opportunityId}/respond`,
     method: 'POST' as const,
     data
   });
 }
 
-// Note: AI optimization functions have been consolidated into the unified optimizer API
-// These functions are kept for backwards compatibility but are deprecated
-export async function getAIOptimizationSuggestions(tourId: number) {
-  console.warn('getAIOptimizationSuggestions is deprecated, use getUnifiedOptimization with method="ai" instead');
-  return getUnifiedOptimization(tourId, { method: 'ai' });
+export async function buildCollaborativeProposal(opportunityId: number) {
+  return apiRequest({
+    url: `/api/venue-network/opportunities/${opportunityId}/proposal`,
+    method: 'POST' as const
+  });
+}
+
+export async function confirmCollaborativeOpportunity(opportunityId: number, tourId?: number) {
+  return apiRequest({
+    url: `/api/venue-network/opportunities/${opportunityId}/confirm`,
+    method: 'POST' as const,
+    data: tourId ? { tourId } : {}
+  });
 }
 
-// Apply AI optimization (deprecated)
-export async function applyAIOptimization(tourId: number, optimizedSequence: number[], suggestedDates: Record<string, string>) {
-  console.warn('applyAIOptimization is deprecated, use applyUnifiedOptimization instead');
-  return applyUnifiedOptimization(tourId, optimizedSequence, suggestedDates);
+export async function rejectCollaborativeOpportunity(opportunityId: number) {
+  return apiRequest({
+    url: `/api/venue-network/opportunities/${opportunityId}/reject`,
+    method: 'POST' as const
+  });
 }
 
-// Get unified optimization suggestions
-export async function getUnifiedOptimization(
-  tourId: number, 
-  options: {
-    method?: 'standard' | 'ai' | 'auto';
-    venuePriorities?: Record<number, number>;
-    respectFixedDates?: boolean;
-    optimizeFor?: 'distance' | 'time' | 'balanced';
-    preferredDates?: Record<number, string>;
-    avoidDates?: string[];
-    minDaysBetweenShows?: number;
-    maxDaysBetweenShows?: number;
-  } = {}
-) {
-  const { method = 'auto', ...otherOptions } = options;
+export async function getPredictionsWithDetails(venueId: number, status: 'pending' | 'accepted' | 'dismissed' = 'pending') {
+  return apiRequest({
+    url: `/api/predictions?${new URLSearchParams({ venueId: String(venueId), status })}`,
+    method: 'GET' as const
+  });
+}
+
+export async function generatePredictions(venueId: number) {
   return apiRequest({
-    url: `/api/unified-optimizer/optimize/${tourId}`,
+    url: '/api/predictions/generate',
     method: 'POST' as const,
-    data: { method, ...otherOptions }
+    data: { venueId }
   });
 }
 
-// Apply unified optimization
-export async function applyUnifiedOptimization(
-  tourId: number, 
-  optimizedSequence: number[], 
-  suggestedDates: Record<string, string> = {},
-  resolvedConflicts?: Record<number, string>
-) {
+export async function acceptPrediction(predictionId: number) {
+  return apiRequest({
+    url: `/api/predictions/${predictionId}/accept`,
+    method: 'POST' as const
+  });
+}
+
+export async function dismissPrediction(predictionId: number) {
+  return apiRequest({
+    url: `/api/predictions/${predictionId}/dismiss`,
+    method: 'POST' as const
+  });
+}
+
+export async function searchVenues(query: string) {
   return apiRequest({
-    url: `/api/unified-optimizer/apply/${tourId}`,
+    url: `/api/venues/search?query=${encodeURIComponent(query)}`,
+    method: 'GET' as const
+  });
+}
+
+export async function createVenueConnection(data: { sourceVenueId: number; targetVenueId: number; connectionType: string }) {
+  return apiRequest({
+    url: `/api/venue-network/connections`,
     method: 'POST' as const,
-    data: { 
-      optimizedSequence, 
-      suggestedDates,
-      resolvedConflicts 
-    }
+    data
   });
 }
 
@@ -237,6 +363,62 @@ export async function sendMessage(message: { recipientId: number; content: strin
   });
 }
 
+export async function getConversations(filters?: { tourId?: number; tourVenueId?: number; inquiryId?: number }) {
+  const params = new URLSearchParams();
+  Object.entries(filters || {}).forEach(([key, value]) => {
+    if (value !== undefined) params.append(key, String(value));
+  });
+  const query = params.toString();
+  return apiRequest({
+    url: `/api/messages/conversations${query ? `?${query}` : ''}`,
+    method: 'GET' as const
+  });
+}
+
+export async function getConversation(conversationId: number) {
+  return apiRequest({
+    url: `/api/messages/conversations/${conversationId}`,
+    method: 'GET' as const
+  });
+}
+
+export async function createConversation(data: {
+  participantIds: number[];
+  subject?: string;
+  tourId?: number;
+  tourVenueId?: number;
+  inquiryId?: number;
+  content?: string;
+}) {
+  return apiRequest({
+    url: '/api/messages/conversations',
+    method: 'POST' as const,
+    data
+  });
+}
+
+export async function sendConversationMessage(conversationId: number, content: string) {
+  return apiRequest({
+    url: `/api/messages/conversations/${conversationId}/messages`,
+    method: 'POST' as const,
+    data: { content }
+  });
+}
+
+export async function markConversationRead(conversationId: number) {
+  return apiRequest({
+    url: `/api/messages/conversations/${conversationId}/read`,
+    method: 'POST' as const
+  });
+}
+
+export async function getUnreadMessageCount() {
+  return apiRequest<{ unreadCount: number }>({
+    url: '/api/messages/unread-count',
+    method: 'GET' as const
+  });
+}
+
 // Admin and settings API
 export async function checkBandsintownApiKeyStatus() {
   return apiRequest({
@@ -374,6 +556,245 @@ export async function removeTourVenue(tourId: number, venueId: number) {
   });
 }
 
+// Day sheets and the itinerary book are documents the browser opens or downloads
+export type DocumentFormat = 'pdf' | 'html';
+
+export function itineraryBookUrl(tourId: number, format: DocumentFormat) {
+  return `/api/tours/${tourId}/day-sheets.${format}`;
+}
+
+export function daySheetUrl(tourId: number, date: string, format: DocumentFormat) {
+  return `/api/tours/${tourId}/day-sheets/${date}.${format}`;
+}
+
+// A venue's hold stack for each date with holds
+export async function getVenueHolds(venueId: number, range?: { from?: string; to?: string }) {
+  const queryParams = range ? `?${new URLSearchParams(range as Record<string, string>)}` : '';
+  return apiRequest<HoldDate[]>({
+    url: `/api/holds/venues/${venueId}${queryParams}`
+  });
+}
+
+export async function placeHold(tourVenueId: number) {
+  return apiRequest<VenueHold>({
+    url: `/api/holds/tour-venues/${tourVenueId}`,
+    method: 'POST' as const
+  });
+}
+
+// Confirms a 1st hold; a lower hold challenges the holds above it instead
+export async function confirmHold(holdId: number, challengeHours?: number) {
+  return apiRequest<VenueHold>({
+    url: `/api/holds/${holdId}/confirm`,
+    method: 'POST' as const,
+    data: { challengeHours }
+  });
+}
+
+export async function releaseHold(holdId: number) {
+  return apiRequest<VenueHold>({
+    url: `/api/holds/${holdId}/release`,
+    method: 'POST' as const
+  });
+}
+
+// A venue's open nights, blackouts and bookings, with the availability of each date
+export async function getVenueAvailability(venueId: number, from: string, to: string) {
+  return apiRequest<VenueAvailability>({
+    url: `/api/venue-availability/venues/${venueId}?${new URLSearchParams({ from, to })}`
+  });
+}
+
+export async function updateVenueOpenNights(venueId: number, data: Pick<VenueAvailability, 'openWeekdays' | 'openDates'>) {
+  return apiRequest<Pick<VenueAvailability, 'openWeekdays' | 'openDates'>>({
+    url: `/api/venue-availability/venues/${venueId}`,
+    method: 'PUT' as const,
+    data
+  });
+}
+
+export async function addVenueBlackout(venueId: number, data: Omit<VenueBlackout, 'id'>) {
+  return apiRequest<VenueBlackout>({
+    url: `/api/venue-availability/venues/${venueId}/blackouts`,
+    method: 'POST' as const,
+    data
+  });
+}
+
+export async function removeVenueBlackout(venueId: number, blackoutId: number) {
+  return apiRequest({
+    url: `/api/venue-availability/venues/${venueId}/blackouts/${blackoutId}`,
+    method: 'DELETE' as const
+  });
+}
+
+// Calendar feeds of a tour or a venue; owner is 'tours' or 'venues'
+export type CalendarFeedOwner = 'tours' | 'venues';
+
+export async function getCalendarFeeds(owner: CalendarFeedOwner, id: number) {
+  return apiRequest<CalendarFeed[]>({
+    url: `/api/calendar/${owner}/${id}/feeds`
+  });
+}
+
+export async function createCalendarFeed(owner: CalendarFeedOwner, id: number) {
+  return apiRequest<CalendarFeed>({
+    url: `/api/calendar/${owner}/${id}/feeds`,
+    method: 'POST' as const
+  });
+}
+
+export async function revokeCalendarFeed(owner: CalendarFeedOwner, id: number, feedId: number) {
+  return apiRequest({
+    url: `/api/calendar/${owner}/${id}/feeds/${feedId}`,
+    method: 'DELETE' as const
+  });
+}
+
+// The URL calendar apps subscribe to
+export function calendarFeedUrl(feed: CalendarFeed) {
+  return `${window.location.origin}/api/calendar/feeds/${feed.token}.ics`;
+}
+
+// Import an .ics file into a venue's events or blackouts
+export async function importVenueCalendar(
+  venueId: number,
+  ics: string,
+  options: { createAs: 'events' | 'blackouts'; artistId?: number }
+) {
+  const params = new URLSearchParams({ createAs: options.createAs });
+  if (options.artistId) params.set('artistId', String(options.artistId));
+  return apiRequest<CalendarImportResult>({
+    url: `/api/calendar/venues/${venueId}/import?${params}`,
+    method: 'POST' as const,
+    headers: { 'Content-Type': 'text/calendar' },
+    body: ics
+  });
+}
+
+export async function getEntityMatchReviews(status: MatchReviewStatus = 'pending', entityType?: EntityType) {
+  const params = new URLSearchParams({ status });
+  if (entityType) params.set('entityType', entityType);
+  return apiRequest<EntityMatchReview[]>({
+    url: `/api/admin/entity-matches?${params}`,
+    method: 'GET' as const
+  });
+}
+
+// Compare every venue or artist and queue the likely duplicates
+export async function scanForDuplicates(entityType: EntityType) {
+  return apiRequest<{ found: number; queued: number }>({
+    url: '/api/admin/entity-matches/scan',
+    method: 'POST' as const,
+    data: { entityType }
+  });
+}
+
+export async function mergeEntityMatch(reviewId: number, keep: 'source' | 'target' = 'target') {
+  return apiRequest<EntityMatchReview>({
+    url: `/api/admin/entity-matches/${reviewId}/merge`,
+    method: 'POST' as const,
+    data: { keep }
+  });
+}
+
+export async function dismissEntityMatch(reviewId: number) {
+  return apiRequest<EntityMatchReview>({
+    url: `/api/admin/entity-matches/${reviewId}/dismiss`,
+    method: 'POST' as const
+  });
+}
+
+export async function getJobs(status?: JobStatus) {
+  const params = status ? `?${new URLSearchParams({ status })}` : '';
+  return apiRequest<{ counts: Record<JobStatus, number>; jobs: Job[] }>({
+    url: `/api/admin/jobs${params}`,
+    method: 'GET' as const
+  });
+}
+
+export async function getJob(jobId: number) {
+  return apiRequest<Job & { logs: JobLog[] }>({
+    url: `/api/admin/jobs/${jobId}`,
+    method: 'GET' as const
+  });
+}
+
+// A running job stops at its next progress report
+export async function cancelJob(jobId: number) {
+  return apiRequest<Job>({
+    url: `/api/admin/jobs/${jobId}/cancel`,
+    method: 'POST' as const
+  });
+}
+
+export async function retryJob(jobId: number) {
+  return apiRequest<Job>({
+    url: `/api/admin/jobs/${jobId}/retry`,
+    method: 'POST' as const
+  });
+}
+
+export async function getJobSchedules() {
+  return apiRequest<JobSchedule[]>({
+    url: '/api/admin/jobs/schedules',
+    method: 'GET' as const
+  });
+}
+
+export async function updateJobSchedule(scheduleId: number, changes: { enabled?: boolean; cron?: string }) {
+  return apiRequest<JobSchedule>({
+    url: `/api/admin/jobs/schedules/${scheduleId}`,
+    method: 'PATCH' as const,
+    data: changes
+  });
+}
+
+export async function runJobSchedule(scheduleId: number) {
+  return apiRequest<Job>({
+    url: `/api/admin/jobs/schedules/${scheduleId}/run`,
+    method: 'POST' as const
+  });
+}
+
+export async function getSyncRuns(filters: { source?: string; status?: SyncRunStatus } = {}) {
+  const params = new URLSearchParams();
+  if (filters.source) params.set('source', filters.source);
+  if (filters.status) params.set('status', filters.status);
+  const query = params.toString();
+  return apiRequest<SyncRun[]>({
+    url: `/api/admin/sync-runs${query ? `?${query}` : ''}`,
+    method: 'GET' as const
+  });
+}
+
+export async function getSyncRun(runId: number) {
+  return apiRequest<SyncRun & { errors: SyncRunError[] }>({
+    url: `/api/admin/sync-runs/${runId}`,
+    method: 'GET' as const
+  });
+}
+
+export async function getSyncRunErrors(filters: { source?: string; retryable?: boolean } = {}) {
+  const params = new URLSearchParams();
+  if (filters.source) params.set('source', filters.source);
+  if (filters.retryable) params.set('retryable', 'true');
+  const query = params.toString();
+  return apiRequest<Array<SyncRunError & { run: SyncRun }>>({
+    url: `/api/admin/sync-runs/errors${query ? `?${query}` : ''}`,
+    method: 'GET' as const
+  });
+}
+
+// Queues the jobs that process the run's failed items again; every retryable one when errorIds is left out
+export async function retrySyncRunItems(runId: number, errorIds?: number[]) {
+  return apiRequest<Job[]>({
+    url: `/api/admin/sync-runs/${runId}/retry`,
+    method: 'POST' as const,
+    data: { errorIds }
+  });
+}
+
 // Artist-related API functions
 export async function getArtists(params?: { limit?: number; offset?: number }) {
   const queryParams = params ? `?${new URLSearchParams(params as any)}` : '';
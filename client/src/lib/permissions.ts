@@ -1,3 +1,13 @@
+/**
+ * Role a user holds at a specific venue
+ */
+export type VenueMemberRole = 'owner' | 'booker' | 'staff';
+
+export interface VenueMembership {
+  venueId: number;
+  role: VenueMemberRole;
+}
+
 /**
  * User type with role information
  */
@@ -5,8 +15,14 @@ export interface User {
   id: number;
   name: string;
   role: string;
+  venueMemberships?: VenueMembership[];
 }
 
+/**
+ * Venue member roles that may change a venue's bookings, events and preferences
+ */
+export const VENUE_EDITOR_ROLES: VenueMemberRole[] = ['owner', 'booker'];
+
 /**
  * Permission type enum representing available permissions in the system
  */
@@ -79,19 +95,28 @@ export function hasRole(user: User | null, roles: string | string[]): boolean {
  * 
  * @param user The user to check
  * @param venueId The venue ID to check access for
+ * @param memberRoles Venue member roles that are allowed (defaults to any membership)
  * @returns boolean indicating whether the user has access to the venue
  */
-export function hasVenueAccess(user: User | null, venueId: number): boolean {
+export function hasVenueAccess(
+  user: User | null,
+  venueId: number,
+  memberRoles?: VenueMemberRole[]
+): boolean {
   if (!user) {
     return false;
   }
   
-  // Admin can access any venue
-  if (user.role === 'admin') {
+  // Users who can see all venue data can access any venue
+  if (hasPermission(user, 'canViewAllVenueData')) {
     return true;
   }
   
-  // For now, all users can access all venues
-  // This will be replaced with a proper user-venue relation in the future
-  return true;
-}
\ No newline at end of file
+  const membership = user.venueMemberships?.find(m => m.venueId === venueId);
+  
+  if (!membership) {
+    return false;
+  }
+  
+  return !memberRoles || memberRoles.includes(membership.role);
+}
@@ -1,11 +1,245 @@
 
-import React from "react";
+import React, { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Spinner } from "@/components/ui/spinner";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Play, RotateCcw, ScrollText, X } from "lucide-react";
+import {
+  cancelJob,
+  getJob,
+  getJobSchedules,
+  getJobs,
+  retryJob,
+  runJobSchedule,
+  updateJobSchedule
+} from "@/lib/api";
+import type { Job, JobSchedule, JobStatus } from "@/types/index";
+
+// Refresh while jobs run; the worker polls the queue every few seconds
+const JOB_REFRESH_INTERVAL = 5000;
+
+const statusVariants: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "default",
+  succeeded: "secondary",
+  failed: "destructive",
+  cancelled: "outline"
+};
+
+function ago(timestamp: string | null) {
+  return timestamp ? formatDistanceToNow(new Date(timestamp), { addSuffix: true }) : "—";
+}
+
+function JobLogs({ jobId, live }: { jobId: number; live: boolean }) {
+  const { data: job, isLoading } = useQuery({
+    queryKey: ["/api/admin/jobs", jobId],
+    queryFn: () => getJob(jobId),
+    refetchInterval: live ? JOB_REFRESH_INTERVAL : false
+  });
+
+  if (isLoading) return <div className="flex justify-center py-2"><Spinner /></div>;
+  if (!job?.logs.length) return <p className="text-xs text-muted-foreground">Nothing logged yet.</p>;
+
+  return (
+    <div className="max-h-64 overflow-y-auto rounded-md bg-muted p-2 font-mono text-xs space-y-1">
+      {job.logs.map(log => (
+        <div key={log.id} className={log.level === "error" ? "text-destructive" : log.level === "warning" ? "text-amber-600" : undefined}>
+          <span className="text-muted-foreground">{new Date(log.createdAt).toLocaleTimeString()}</span> {log.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function JobRow({ job, onCancel, onRetry, busy }: {
+  job: Job;
+  onCancel: (job: Job) => void;
+  onRetry: (job: Job) => void;
+  busy: boolean;
+}) {
+  const [showLogs, setShowLogs] = useState(false);
+  const { progress } = job;
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={statusVariants[job.status]}>{job.status}</Badge>
+        <span className="font-medium">{job.type}</span>
+        <span className="text-xs text-muted-foreground">#{job.id} · {job.source}</span>
+        <span className="text-xs text-muted-foreground">attempt {job.attempts} of {job.maxAttempts}</span>
+        <span className="text-xs text-muted-foreground ml-auto">
+          {job.status === "queued" ? `runs ${ago(job.runAt)}` : job.finishedAt ? `finished ${ago(job.finishedAt)}` : `started ${ago(job.startedAt)}`}
+        </span>
+      </div>
+
+      {job.status === "running" && progress && (
+        <div className="space-y-1">
+          {progress.total ? <Progress value={(progress.current / progress.total) * 100} className="h-2" /> : null}
+          <p className="text-xs text-muted-foreground">
+            {progress.current}{progress.total ? ` of ${progress.total}` : ""}{progress.message ? ` · ${progress.message}` : ""}
+            {job.cancelRequestedAt ? " · stopping" : ""}
+          </p>
+        </div>
+      )}
+      {job.lastError && job.status !== "succeeded" && (
+        <p className="text-xs text-destructive">{job.lastError}</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="ghost" onClick={() => setShowLogs(!showLogs)}>
+          <ScrollText className="h-4 w-4 mr-2" />
+          {showLogs ? "Hide log" : "Log"}
+        </Button>
+        {(job.status === "queued" || job.status === "running") && (
+          <Button size="sm" variant="outline" onClick={() => onCancel(job)} disabled={busy || !!job.cancelRequestedAt}>
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        )}
+        {(job.status === "failed" || job.status === "cancelled") && (
+          <Button size="sm" variant="outline" onClick={() => onRetry(job)} disabled={busy}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Retry
+          </Button>
+        )}
+      </div>
+
+      {showLogs && <JobLogs jobId={job.id} live={job.status === "running"} />}
+    </div>
+  );
+}
+
+/**
+ * Queued, running and failed jobs with their logs, and the schedules that queue them
+ */
+function JobDashboard() {
+  const [status, setStatus] = useState<JobStatus | "all">("running");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["/api/admin/jobs", status],
+    queryFn: () => getJobs(status === "all" ? undefined : status),
+    refetchInterval: JOB_REFRESH_INTERVAL
+  });
+  const { data: schedules = [] } = useQuery({
+    queryKey: ["/api/admin/jobs/schedules"],
+    queryFn: getJobSchedules
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/jobs"] });
+
+  const cancelMutation = useMutation({
+    mutationFn: (job: Job) => cancelJob(job.id),
+    onSuccess: refresh,
+    onError
+  });
+  const retryMutation = useMutation({
+    mutationFn: (job: Job) => retryJob(job.id),
+    onSuccess: refresh,
+    onError
+  });
+  const scheduleMutation = useMutation({
+    mutationFn: ({ schedule, enabled }: { schedule: JobSchedule; enabled: boolean }) => updateJobSchedule(schedule.id, { enabled }),
+    onSuccess: refresh,
+    onError
+  });
+  const runMutation = useMutation({
+    mutationFn: (schedule: JobSchedule) => runJobSchedule(schedule.id),
+    onSuccess: (job) => {
+      toast({ title: "Queued", description: `${job.type} queued as job ${job.id}` });
+      refresh();
+    },
+    onError
+  });
+  const busy = cancelMutation.isPending || retryMutation.isPending;
+  const counts = data?.counts;
+  const jobs = data?.jobs ?? [];
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Jobs</CardTitle>
+          <CardDescription>
+            Sync, scrape and enrichment work runs in the background. Failed attempts are retried with increasing delays.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Tabs value={status} onValueChange={(value) => setStatus(value as JobStatus | "all")}>
+            <TabsList>
+              <TabsTrigger value="running">Running{counts ? ` (${counts.running})` : ""}</TabsTrigger>
+              <TabsTrigger value="queued">Queued{counts ? ` (${counts.queued})` : ""}</TabsTrigger>
+              <TabsTrigger value="failed">Failed{counts ? ` (${counts.failed})` : ""}</TabsTrigger>
+              <TabsTrigger value="all">All</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Spinner /></div>
+          ) : jobs.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No {status === "all" ? "" : `${status} `}jobs.</p>
+          ) : (
+            jobs.map(job => (
+              <JobRow
+                key={job.id}
+                job={job}
+                onCancel={(target) => cancelMutation.mutate(target)}
+                onRetry={(target) => retryMutation.mutate(target)}
+                busy={busy}
+              />
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Schedules</CardTitle>
+          <CardDescription>
+            Cron schedules (UTC) that queue jobs. A schedule is skipped while its previous run is still queued or running.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {schedules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No schedules.</p>
+          ) : (
+            schedules.map(schedule => (
+              <div key={schedule.id} className="flex flex-wrap items-center gap-3 rounded-md border p-3">
+                <Switch
+                  checked={schedule.enabled}
+                  onCheckedChange={(enabled) => scheduleMutation.mutate({ schedule, enabled })}
+                  disabled={scheduleMutation.isPending}
+                />
+                <div>
+                  <p className="font-medium">{schedule.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {schedule.type} · <code>{schedule.cron}</code> · {schedule.enabled ? `next ${ago(schedule.nextRunAt)}` : "disabled"}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" className="ml-auto" onClick={() => runMutation.mutate(schedule)} disabled={runMutation.isPending}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Run now
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
 
 export default function DataSeedingPage() {
   const { toast } = useToast();
@@ -47,6 +281,8 @@ export default function DataSeedingPage() {
       </div>
 
       <div className="grid gap-8">
+        <JobDashboard />
+
         <Card>
           <CardHeader>
             <CardTitle>Sample Data Seeding</CardTitle>
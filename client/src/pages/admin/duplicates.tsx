@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Spinner } from "@/components/ui/spinner";
+import { useToast } from "@/hooks/use-toast";
+import { GitMerge, ScanSearch, X } from "lucide-react";
+import {
+  dismissEntityMatch,
+  getEntityMatchReviews,
+  mergeEntityMatch,
+  scanForDuplicates
+} from "@/lib/api";
+import type { Artist, EntityMatchReview, EntityType, Venue } from "@/types/index";
+
+function describe(entity: Venue | Artist | null, entityType: EntityType) {
+  if (!entity) return "Already merged";
+  if (entityType === "venue") {
+    const venue = entity as Venue;
+    return [venue.address, venue.city, venue.country].filter(Boolean).join(", ");
+  }
+  const artist = entity as Artist;
+  return artist.genres?.join(", ") || "No genres";
+}
+
+function EntitySide({ label, entity, entityType, eventCount }: {
+  label: string;
+  entity: Venue | Artist | null;
+  entityType: EntityType;
+  eventCount: number;
+}) {
+  return (
+    <div className="flex-1 rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="font-medium">{entity?.name ?? "—"}{entity ? <span className="text-xs text-muted-foreground"> #{entity.id}</span> : null}</p>
+      <p className="text-sm text-muted-foreground">{describe(entity, entityType)}</p>
+      <p className="text-xs text-muted-foreground mt-1">{eventCount} event{eventCount === 1 ? "" : "s"}</p>
+    </div>
+  );
+}
+
+/**
+ * Admin review queue for likely duplicate venues and artists found during ingestion or by a scan
+ */
+export default function DuplicatesPage() {
+  const [entityType, setEntityType] = useState<EntityType>("venue");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const queryKey = ["/api/admin/entity-matches", entityType];
+  const { data: reviews = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getEntityMatchReviews("pending", entityType)
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/entity-matches"] });
+
+  const scanMutation = useMutation({
+    mutationFn: () => scanForDuplicates(entityType),
+    onSuccess: ({ found, queued }) => {
+      toast({
+        title: "Scan complete",
+        description: `Found ${found} likely duplicate${found === 1 ? "" : "s"}, ${queued} new to the queue`
+      });
+      refresh();
+    },
+    onError
+  });
+  const mergeMutation = useMutation({
+    mutationFn: ({ review, keep }: { review: EntityMatchReview; keep: "source" | "target" }) => mergeEntityMatch(review.id, keep),
+    onSuccess: () => {
+      toast({ title: "Merged", description: "Everything that pointed at the duplicate now points at the record kept" });
+      refresh();
+    },
+    onError
+  });
+  const dismissMutation = useMutation({
+    mutationFn: (review: EntityMatchReview) => dismissEntityMatch(review.id),
+    onSuccess: refresh,
+    onError
+  });
+  const busy = mergeMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <div className="container py-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Duplicates</h1>
+        <p className="text-muted-foreground">
+          Review venues and artists that look like the same record and merge or dismiss them.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Review queue</CardTitle>
+            <CardDescription>
+              Merging keeps one record and moves its duplicate's events, tour dates and links onto it.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => scanMutation.mutate()} disabled={scanMutation.isPending}>
+            {scanMutation.isPending ? <Spinner className="mr-2" /> : <ScanSearch className="h-4 w-4 mr-2" />}
+            Scan {entityType === "venue" ? "venues" : "artists"}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Tabs value={entityType} onValueChange={(value) => setEntityType(value as EntityType)}>
+            <TabsList>
+              <TabsTrigger value="venue">Venues</TabsTrigger>
+              <TabsTrigger value="artist">Artists</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8"><Spinner /></div>
+          ) : reviews.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No likely duplicates waiting for review.</p>
+          ) : (
+            reviews.map(review => (
+              <div key={review.id} className="rounded-md border p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={review.score >= 0.9 ? "default" : "secondary"}>{Math.round(review.score * 100)}% match</Badge>
+                  {review.reasons?.map(reason => (
+                    <span key={reason} className="text-xs text-muted-foreground">{reason}</span>
+                  ))}
+                  {review.detectedBy && (
+                    <span className="text-xs text-muted-foreground ml-auto">Found by {review.detectedBy}</span>
+                  )}
+                </div>
+                <div className="flex flex-col md:flex-row gap-3">
+                  <EntitySide label="Duplicate" entity={review.source} entityType={review.entityType} eventCount={review.sourceEventCount} />
+                  <EntitySide label="Keep" entity={review.target} entityType={review.entityType} eventCount={review.targetEventCount} />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={() => mergeMutation.mutate({ review, keep: "target" })} disabled={busy}>
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    Merge into {review.target?.name ?? "kept record"}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => mergeMutation.mutate({ review, keep: "source" })} disabled={busy}>
+                    Keep {review.source?.name ?? "duplicate"} instead
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => dismissMutation.mutate(review)} disabled={busy}>
+                    <X className="h-4 w-4 mr-2" />
+                    Not the same
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -166,6 +166,36 @@ export default function AdminSettings() {
           </CardContent>
         </Card>
 
+        {/* Duplicate venues and artists */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Duplicates</CardTitle>
+            <CardDescription>
+              Review likely duplicate venues and artists found while importing data, and merge them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <a href="/admin/duplicates">Open review queue</a>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Sync runs */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Sync Runs</CardTitle>
+            <CardDescription>
+              Browse what each sync, scrape and import did, see the items it failed on, and retry them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <a href="/admin/sync-runs">Open sync runs</a>
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Webhook Settings */}
         <Card>
           <CardHeader>
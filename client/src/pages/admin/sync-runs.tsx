@@ -0,0 +1,263 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Spinner } from "@/components/ui/spinner";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronRight, RotateCcw } from "lucide-react";
+import { getSyncRun, getSyncRunErrors, getSyncRuns, retrySyncRunItems } from "@/lib/api";
+import type { SyncRun, SyncRunError, SyncRunStatus } from "@/types/index";
+
+const statusVariants: Record<SyncRunStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  running: "default",
+  succeeded: "secondary",
+  partial: "outline",
+  failed: "destructive"
+};
+
+function duration(run: SyncRun) {
+  if (run.durationMs === null) return "running";
+  return run.durationMs < 1000 ? `${run.durationMs}ms` : `${(run.durationMs / 1000).toFixed(1)}s`;
+}
+
+function counts(run: SyncRun) {
+  return [
+    `${run.created} created`,
+    `${run.updated} updated`,
+    `${run.unchanged} unchanged`,
+    `${run.skipped} skipped`,
+    `${run.errored} errored`
+  ].join(" · ");
+}
+
+function describeItem(error: SyncRunError) {
+  if (error.entityType && error.entityId) return `${error.entityType} #${error.entityId}`;
+  if (error.externalId) return `${error.entityType ?? "item"} ${error.externalId}`;
+  return error.entityType ?? "item";
+}
+
+function ErrorRow({ error, run, onRetry, busy }: {
+  error: SyncRunError;
+  run?: SyncRun;
+  onRetry: (error: SyncRunError) => void;
+  busy: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap items-start gap-3 rounded-md border p-3">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm">
+          <span className="font-medium">{describeItem(error)}</span>
+          {run && <span className="text-xs text-muted-foreground"> · run #{run.id} {run.source} {run.operation}</span>}
+        </p>
+        <p className="text-sm text-destructive break-words">{error.message}</p>
+        <p className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(error.createdAt), { addSuffix: true })}
+          {error.retryJobId ? ` · retried as job #${error.retryJobId}` : error.retryType ? "" : " · can't be retried"}
+        </p>
+      </div>
+      {error.retryType && !error.retryJobId && (
+        <Button size="sm" variant="outline" onClick={() => onRetry(error)} disabled={busy}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Retry
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function RunErrors({ runId, onRetry, busy }: {
+  runId: number;
+  onRetry: (runId: number, errorIds?: number[]) => void;
+  busy: boolean;
+}) {
+  const { data: run, isLoading } = useQuery({
+    queryKey: ["/api/admin/sync-runs", runId],
+    queryFn: () => getSyncRun(runId)
+  });
+
+  if (isLoading) return <div className="flex justify-center py-2"><Spinner /></div>;
+  if (!run) return null;
+
+  const retryable = run.errors.filter(error => error.retryType && !error.retryJobId);
+  return (
+    <div className="space-y-2">
+      {run.error && <p className="text-sm text-destructive">Stopped: {run.error}</p>}
+      {run.errors.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No failed items.</p>
+      ) : (
+        <>
+          {retryable.length > 1 && (
+            <Button size="sm" onClick={() => onRetry(run.id)} disabled={busy}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retry {retryable.length} failed items
+            </Button>
+          )}
+          {run.errors.map(error => (
+            <ErrorRow key={error.id} error={error} onRetry={() => onRetry(run.id, [error.id])} busy={busy} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+function RunRow({ run, onRetry, busy }: {
+  run: SyncRun;
+  onRetry: (runId: number, errorIds?: number[]) => void;
+  busy: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <button className="flex w-full flex-wrap items-center gap-2 text-left" onClick={() => setOpen(!open)}>
+        {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <Badge variant={statusVariants[run.status]}>{run.status}</Badge>
+        <span className="font-medium">{run.source}</span>
+        <span className="text-sm">{run.operation}</span>
+        {run.entityType && <span className="text-xs text-muted-foreground">{run.entityType} #{run.entityId}</span>}
+        {run.jobId && <span className="text-xs text-muted-foreground">job #{run.jobId}</span>}
+        <span className="text-xs text-muted-foreground ml-auto">
+          {formatDistanceToNow(new Date(run.startedAt), { addSuffix: true })} · {duration(run)}
+        </span>
+      </button>
+      <p className="text-xs text-muted-foreground pl-6">{counts(run)}</p>
+      {open && <div className="pl-6"><RunErrors runId={run.id} onRetry={onRetry} busy={busy} /></div>}
+    </div>
+  );
+}
+
+/**
+ * Admin browser for sync runs: what each collector run did, the items it failed on, and
+ * retrying them
+ */
+export default function SyncRunsPage() {
+  const [view, setView] = useState<"runs" | "errors">("runs");
+  const [status, setStatus] = useState<SyncRunStatus | "all">("all");
+  const [source, setSource] = useState("all");
+  const [retryableOnly, setRetryableOnly] = useState(true);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const sourceFilter = source === "all" ? undefined : source;
+  // The sources with recent runs, for the source filter
+  const { data: recentRuns = [] } = useQuery({
+    queryKey: ["/api/admin/sync-runs", "all", "all"],
+    queryFn: () => getSyncRuns()
+  });
+  const { data: runs = [], isLoading: runsLoading } = useQuery({
+    queryKey: ["/api/admin/sync-runs", status, source],
+    queryFn: () => getSyncRuns({ source: sourceFilter, status: status === "all" ? undefined : status }),
+    enabled: view === "runs"
+  });
+  const { data: errors = [], isLoading: errorsLoading } = useQuery({
+    queryKey: ["/api/admin/sync-runs/errors", source, retryableOnly],
+    queryFn: () => getSyncRunErrors({ source: sourceFilter, retryable: retryableOnly }),
+    enabled: view === "errors"
+  });
+  const sources = Array.from(new Set(recentRuns.map(run => run.source))).sort();
+
+  const retryMutation = useMutation({
+    mutationFn: ({ runId, errorIds }: { runId: number; errorIds?: number[] }) => retrySyncRunItems(runId, errorIds),
+    onSuccess: (jobs) => {
+      toast({
+        title: "Queued",
+        description: `${jobs.length} job${jobs.length === 1 ? "" : "s"} queued to process the failed items again`
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sync-runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sync-runs/errors"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+  const retry = (runId: number, errorIds?: number[]) => retryMutation.mutate({ runId, errorIds });
+
+  return (
+    <div className="container py-10">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Sync Runs</h1>
+        <p className="text-muted-foreground">
+          What each sync, scrape, import and webhook delivery did, and the items it couldn't process.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle>{view === "runs" ? "Runs" : "Failed items"}</CardTitle>
+            <CardDescription>
+              Retrying a failed item queues the job that processes it again; follow it on the data seeding page.
+            </CardDescription>
+          </div>
+          <Select value={source} onValueChange={setSource}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Source" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sources</SelectItem>
+              {sources.map(value => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <Tabs value={view} onValueChange={(value) => setView(value as "runs" | "errors")}>
+              <TabsList>
+                <TabsTrigger value="runs">Runs</TabsTrigger>
+                <TabsTrigger value="errors">Failed items</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {view === "runs" ? (
+              <Tabs value={status} onValueChange={(value) => setStatus(value as SyncRunStatus | "all")}>
+                <TabsList>
+                  <TabsTrigger value="all">All</TabsTrigger>
+                  <TabsTrigger value="failed">Failed</TabsTrigger>
+                  <TabsTrigger value="partial">Partial</TabsTrigger>
+                  <TabsTrigger value="running">Running</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Switch id="retryable-only" checked={retryableOnly} onCheckedChange={setRetryableOnly} />
+                <Label htmlFor="retryable-only">Only items that can be retried</Label>
+              </div>
+            )}
+          </div>
+
+          {view === "runs" ? (
+            runsLoading ? (
+              <div className="flex justify-center py-8"><Spinner /></div>
+            ) : runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">No sync runs.</p>
+            ) : (
+              runs.map(run => <RunRow key={run.id} run={run} onRetry={retry} busy={retryMutation.isPending} />)
+            )
+          ) : errorsLoading ? (
+            <div className="flex justify-center py-8"><Spinner /></div>
+          ) : errors.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No failed items.</p>
+          ) : (
+            errors.map(error => (
+              <ErrorRow
+                key={error.id}
+                error={error}
+                run={error.run}
+                onRetry={() => retry(error.runId, [error.id])}
+                busy={retryMutation.isPending}
+              />
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -6,10 +6,13 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/auth-context";
+import { apiRequest } from "@/lib/api";
 import { MusicIcon, CheckIcon } from "lucide-react";
 
 export default function Register() {
   const [formData, setFormData] = useState({
+    username: "",
     name: "",
     email: "",
     password: "",
@@ -19,6 +22,7 @@ export default function Register() {
   const [isLoading, setIsLoading] = useState(false);
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { refresh } = useAuth();
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target;
@@ -53,27 +57,35 @@ export default function Register() {
     setIsLoading(true);
 
     try {
-      // In a real app, this would send the data to the server
-      // This is just a demo, so we'll simulate success after a short delay
-      setTimeout(() => {
-        toast({
-          title: "Account created",
-          description: "Your account has been successfully created.",
-          action: (
-            <div className="h-8 w-8 bg-green-500 rounded-full flex items-center justify-center">
-              <CheckIcon className="h-5 w-5 text-white" />
-            </div>
-          ),
-        });
-        
-        // Redirect to login page
-        navigate("/auth/login");
-      }, 1500);
+      await apiRequest({
+        url: "/api/auth/register",
+        method: "POST",
+        data: {
+          username: formData.username,
+          name: formData.name,
+          email: formData.email,
+          password: formData.password
+        }
+      });
+
+      toast({
+        title: "Account created",
+        description: "Your account has been successfully created.",
+        action: (
+          <div className="h-8 w-8 bg-green-500 rounded-full flex items-center justify-center">
+            <CheckIcon className="h-5 w-5 text-white" />
+          </div>
+        ),
+      });
+
+      // The server signs the new user in, so go straight to the dashboard
+      await refresh();
+      navigate("/dashboard");
     } catch (error) {
       console.error("Registration error:", error);
       toast({
         title: "Registration failed",
-        description: "There was a problem creating your account. Please try again.",
+        description: error instanceof Error ? error.message : "There was a problem creating your account. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -100,6 +112,18 @@ export default function Register() {
           <CardContent className="pt-6">
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="grid gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="username">Username</Label>
+                  <Input 
+                    id="username" 
+                    name="username"
+                    placeholder="Choose a username" 
+                    value={formData.username}
+                    onChange={handleChange}
+                    required
+                  />
+                </div>
+                
                 <div className="space-y-2">
                   <Label htmlFor="name">Full Name</Label>
                   <Input 
@@ -1,13 +1,9 @@
 import React from "react";
 import { useQuery } from "@tanstack/react-query";
 import { StatsCard } from "@/components/dashboard/stats-card";
-import { OpportunityCard } from "@/components/dashboard/opportunity-card";
+import { PassingArtistsWidget } from "@/components/dashboard/passing-artists-widget";
 import { VenueCard } from "@/components/venue-network/venue-card";
-import { Button } from "@/components/ui/button";
-import { getStatsData, getPredictionsWithDetails } from "@/lib/api";
-import type { PredictionWithDetails } from "@/types/index";
 import { useToast } from "@/hooks/use-toast";
-import { Filter, ArrowUpRight, BarChart3, List } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 
 
@@ -28,15 +24,6 @@ export default function Dashboard() {
     }
   });
 
-  // Get predictions data for opportunities section
-  const { data: predictions, isLoading: isLoadingPredictions } = useQuery({
-    queryKey: ['/api/predictions/details'],
-    queryFn: () => apiRequest('/api/predictions/details'),
-    staleTime: 1000 * 60 * 5, // Cache for 5 minutes
-    initialData: [], // Default empty array to avoid errors
-    refetchOnWindowFocus: false // Don't refetch when window regains focus
-  });
-
   // Fetch recent venues
   const { data: recentVenues, isLoading: isLoadingVenues } = useQuery({
     queryKey: ['/api/venues/recent'],
@@ -46,22 +33,7 @@ export default function Dashboard() {
     refetchOnWindowFocus: false // Don't refetch when window regains focus
   });
 
-  const handleSendInquiry = (prediction: PredictionWithDetails) => {
-    toast({
-      title: "Inquiry Sent",
-      description: `Your inquiry to ${prediction.artist.name} for ${prediction.suggestedDate} has been sent.`,
-    });
-  };
-
-  const handleViewDetails = (prediction: PredictionWithDetails) => {
-    toast({
-      title: "View Details",
-      description: `Viewing details for ${prediction.artist.name}`,
-    });
-  };
-
   // Initialize empty data placeholders
-  const displayPredictions = predictions || [];
   const displayVenues = recentVenues || [];
   const displayStats = statsData || {
     upcomingOpportunities: 0,
@@ -87,23 +59,6 @@ export default function Dashboard() {
     </div>
   );
 
-  const renderPredictionsSkeleton = () => (
-    <div className="mt-4 grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
-      {[1, 2, 3].map(i => (
-        <div key={i} className="bg-white rounded-lg shadow h-48 animate-pulse">
-          <div className="p-4">
-            <div className="h-4 bg-gray-200 rounded w-3/4 mb-3"></div>
-            <div className="h-4 bg-gray-200 rounded w-1/2 mb-6"></div>
-            <div className="h-20 bg-gray-200 rounded mb-4"></div>
-            <div className="flex justify-end">
-              <div className="h-8 bg-gray-200 rounded w-20"></div>
-            </div>
-          </div>
-        </div>
-      ))}
-    </div>
-  );
-
   const renderVenuesSkeleton = () => (
     <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
       {[1, 2, 3].map(i => (
@@ -155,45 +110,8 @@ export default function Dashboard() {
 
         {/* Tour Routing Section - Moved to Discover page */}
 
-        {/* Recent Opportunities */}
-        <div className="mt-8">
-          <div className="flex items-center justify-between">
-            <h2 className="text-lg font-medium text-gray-900">Recent Opportunities</h2>
-            <div className="flex space-x-3">
-              <Button variant="outline" size="sm">
-                <Filter className="h-4 w-4 text-gray-400 mr-1" />
-                Filter
-              </Button>
-              <Button variant="outline" size="sm">
-                <ArrowUpRight className="h-4 w-4 text-gray-400 mr-1" />
-                Sort
-              </Button>
-            </div>
-          </div>
-
-          {/* Opportunities Grid */}
-          {isLoadingPredictions ? renderPredictionsSkeleton() : (
-            <>
-              <div className="mt-4 grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
-                {displayPredictions.map((prediction) => (
-                  <OpportunityCard
-                    key={prediction.id}
-                    prediction={prediction}
-                    onSendInquiry={handleSendInquiry}
-                    onViewDetails={handleViewDetails}
-                  />
-                ))}
-              </div>
-
-              <div className="mt-6 text-center">
-                <Button variant="outline" className="inline-flex items-center">
-                  View All Opportunities
-                  <ArrowUpRight className="ml-1 h-4 w-4" />
-                </Button>
-              </div>
-            </>
-          )}
-        </div>
+        {/* Artists routing near the current venue */}
+        <PassingArtistsWidget />
 
         {/* Recently Added Venues */}
         <div className="mt-8">
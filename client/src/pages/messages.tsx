@@ -1,63 +1,136 @@
-import React, { useState } from "react";
-import { Card, CardContent } from "@/components/ui/card";
+import React, { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Search, Send, Paperclip, ChevronLeft } from "lucide-react";
-import { useQuery } from '@tanstack/react-query';
-import { getMessages } from '@/lib/api';
+import { Search, Send, ChevronLeft, CheckCheck } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/context/auth-context";
+import {
+  getConversations,
+  getConversation,
+  sendConversationMessage,
+  markConversationRead
+} from '@/lib/api';
+
+interface Participant {
+  userId: number;
+  name: string | null;
+  username: string;
+  lastReadAt: string | null;
+}
+
+interface ThreadMessage {
+  id: number;
+  conversationId: number;
+  senderId: number | null;
+  senderName: string;
+  content: string;
+  timestamp: string;
+}
+
+interface ConversationSummary {
+  id: number;
+  subject: string | null;
+  tourId: number | null;
+  tourVenueId: number | null;
+  inquiryId: number | null;
+  lastMessageAt: string;
+  unreadCount: number;
+  lastMessage: ThreadMessage | null;
+  participants: Participant[];
+}
+
+interface ConversationDetail extends ConversationSummary {
+  messages: ThreadMessage[];
+}
+
+type ConversationFilter = "all" | "unread" | "bookings";
+
+// Title a thread by its subject, falling back to the other participants' names
+function conversationTitle(conversation: ConversationSummary, currentUserId?: number) {
+  if (conversation.subject) {
+    return conversation.subject;
+  }
+  const others = conversation.participants.filter(p => p.userId !== currentUserId);
+  return others.map(p => p.name || p.username).join(", ") || "Conversation";
+}
 
 export default function MessagesPage() {
-  const { data: messages, isLoading } = useQuery({
-    queryKey: ['messages'],
-    queryFn: getMessages
-  });
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
 
-  const [selectedConversation, setSelectedConversation] = useState<any>(null);
+  const [selectedConversationId, setSelectedConversationId] = useState<number | null>(null);
   const [newMessage, setNewMessage] = useState("");
-  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [filter, setFilter] = useState<ConversationFilter>("all");
 
-  // Mock conversations - in a real app, these would be fetched from API
-  const conversations = [
-    {
-      id: 1,
-      name: "The Black Keys Management",
-      avatar: null,
-      lastMessage: "We're interested in your venue for our upcoming tour. Do you have availability on Feb 18?",
-      time: "10:30 AM",
-      unread: true
-    },
-    {
-      id: 2,
-      name: "The Fillmore (San Francisco)",
-      avatar: null,
-      lastMessage: "Let's coordinate on the Japanese Breakfast routing.",
-      time: "Yesterday",
-      unread: false
+  const { data: conversations = [], isLoading } = useQuery<ConversationSummary[]>({
+    queryKey: ['messages', 'conversations'],
+    queryFn: () => getConversations()
+  });
+
+  const { data: selectedConversation } = useQuery<ConversationDetail>({
+    queryKey: ['messages', 'conversation', selectedConversationId],
+    queryFn: () => getConversation(selectedConversationId!),
+    enabled: selectedConversationId !== null
+  });
+
+  const markRead = useMutation({
+    mutationFn: markConversationRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['messages', 'conversations'] });
+    }
+  });
+
+  const sendMessage = useMutation({
+    mutationFn: ({ conversationId, content }: { conversationId: number; content: string }) =>
+      sendConversationMessage(conversationId, content),
+    onSuccess: () => {
+      setNewMessage("");
+      queryClient.invalidateQueries({ queryKey: ['messages'] });
     },
-    {
-      id: 3,
-      name: "9:30 Club (Washington DC)",
-      avatar: null,
-      lastMessage: "Can we discuss a potential venue network collaboration?",
-      time: "2 days ago",
-      unread: false
+    onError: (error: Error) => {
+      toast({
+        title: "Message not sent",
+        description: error.message,
+        variant: "destructive"
+      });
     }
-  ];
+  });
+
+  // Opening a thread with unread messages marks it as read
+  useEffect(() => {
+    const summary = conversations.find(c => c.id === selectedConversationId);
+    if (summary && summary.unreadCount > 0 && !markRead.isPending) {
+      markRead.mutate(summary.id);
+    }
+  }, [selectedConversationId, conversations]);
 
   const handleSendMessage = () => {
-    if (!newMessage.trim()) return;
+    if (!newMessage.trim() || selectedConversationId === null) return;
+    sendMessage.mutate({ conversationId: selectedConversationId, content: newMessage.trim() });
+  };
 
-    toast({
-      title: "Message Sent",
-      description: "Your message has been sent successfully."
-    });
+  const visibleConversations = conversations.filter(conversation => {
+    if (filter === "unread" && conversation.unreadCount === 0) return false;
+    if (filter === "bookings" && !conversation.tourId && !conversation.tourVenueId && !conversation.inquiryId) return false;
+    if (!search.trim()) return true;
+    const term = search.toLowerCase();
+    return conversationTitle(conversation, user?.id).toLowerCase().includes(term) ||
+      (conversation.lastMessage?.content.toLowerCase().includes(term) ?? false);
+  });
 
-    setNewMessage("");
+  // A message is "seen" once every other participant has read past it
+  const isSeenByOthers = (message: ThreadMessage) => {
+    const others = selectedConversation?.participants.filter(p => p.userId !== user?.id) || [];
+    return others.length > 0 && others.every(p => p.lastReadAt && new Date(p.lastReadAt) >= new Date(message.timestamp));
   };
 
   if (isLoading) return <div>Loading...</div>;
@@ -70,7 +143,7 @@ export default function MessagesPage() {
         <div className="mt-6">
           <Card className="h-[calc(100vh-180px)] flex">
             {/* Conversations List */}
-            <div className={`w-full md:w-80 border-r ${selectedConversation ? 'hidden md:block' : 'block'}`}>
+            <div className={`w-full md:w-80 border-r ${selectedConversationId ? 'hidden md:block' : 'block'}`}>
               <div className="p-4 border-b">
                 <div className="relative">
                   <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
@@ -79,50 +152,59 @@ export default function MessagesPage() {
                   <Input
                     className="pl-10"
                     placeholder="Search messages..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
                   />
                 </div>
               </div>
 
-              <Tabs defaultValue="all" className="p-2">
+              <Tabs value={filter} onValueChange={(value) => setFilter(value as ConversationFilter)} className="p-2">
                 <TabsList className="w-full">
                   <TabsTrigger value="all" className="flex-1">All</TabsTrigger>
                   <TabsTrigger value="unread" className="flex-1">Unread</TabsTrigger>
-                  <TabsTrigger value="network" className="flex-1">Network</TabsTrigger>
+                  <TabsTrigger value="bookings" className="flex-1">Bookings</TabsTrigger>
                 </TabsList>
 
                 <div className="mt-4 space-y-2 max-h-[calc(100vh-300px)] overflow-y-auto p-2">
-                  {conversations.map((conversation) => (
-                    <div
-                      key={conversation.id}
-                      className={`flex items-center space-x-4 p-3 rounded-lg cursor-pointer ${
-                        conversation.unread ? 'bg-primary-50' : 'hover:bg-gray-50'
-                      }`}
-                      onClick={() => setSelectedConversation(conversation)}
-                    >
-                      <Avatar>
-                        <AvatarImage src={conversation.avatar || undefined} />
-                        <AvatarFallback>{conversation.name.charAt(0)}</AvatarFallback>
-                      </Avatar>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex justify-between">
-                          <p className="font-medium truncate">{conversation.name}</p>
-                          <p className="text-xs text-gray-500">{conversation.time}</p>
+                  {visibleConversations.length === 0 && (
+                    <p className="text-sm text-muted-foreground text-center py-8">No conversations yet</p>
+                  )}
+                  {visibleConversations.map((conversation) => {
+                    const title = conversationTitle(conversation, user?.id);
+                    return (
+                      <div
+                        key={conversation.id}
+                        className={`flex items-center space-x-4 p-3 rounded-lg cursor-pointer ${
+                          conversation.unreadCount > 0 ? 'bg-primary-50' : 'hover:bg-gray-50'
+                        } ${conversation.id === selectedConversationId ? 'ring-1 ring-primary/30' : ''}`}
+                        onClick={() => setSelectedConversationId(conversation.id)}
+                      >
+                        <Avatar>
+                          <AvatarFallback>{title.charAt(0)}</AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex justify-between">
+                            <p className="font-medium truncate">{title}</p>
+                            <p className="text-xs text-gray-500 whitespace-nowrap ml-2">
+                              {formatDistanceToNow(new Date(conversation.lastMessageAt), { addSuffix: true })}
+                            </p>
+                          </div>
+                          <p className="text-sm text-gray-500 truncate">
+                            {conversation.lastMessage?.content || "No messages yet"}
+                          </p>
                         </div>
-                        <p className="text-sm text-gray-500 truncate">
-                          {conversation.lastMessage}
-                        </p>
+                        {conversation.unreadCount > 0 && (
+                          <Badge className="bg-primary-500 text-white ml-1">{conversation.unreadCount}</Badge>
+                        )}
                       </div>
-                      {conversation.unread && (
-                        <Badge className="bg-primary-500 text-white h-2 w-2 rounded-full p-0 ml-1" />
-                      )}
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </Tabs>
             </div>
 
             {/* Conversation Details */}
-            <div className={`flex-1 flex flex-col ${!selectedConversation ? 'hidden md:flex md:items-center md:justify-center' : 'block'}`}>
+            <div className={`flex-1 flex flex-col ${!selectedConversationId ? 'hidden md:flex md:items-center md:justify-center' : 'block'}`}>
               {selectedConversation ? (
                 <>
                   <div className="flex items-center p-4 border-b">
@@ -130,47 +212,54 @@ export default function MessagesPage() {
                       variant="ghost"
                       size="icon"
                       className="md:hidden mr-2"
-                      onClick={() => setSelectedConversation(null)}
+                      onClick={() => setSelectedConversationId(null)}
                     >
                       <ChevronLeft className="h-5 w-5" />
                     </Button>
                     <Avatar className="h-10 w-10">
-                      <AvatarImage src={selectedConversation.avatar || undefined} />
-                      <AvatarFallback>{selectedConversation.name.charAt(0)}</AvatarFallback>
+                      <AvatarFallback>{conversationTitle(selectedConversation, user?.id).charAt(0)}</AvatarFallback>
                     </Avatar>
                     <div className="ml-3">
-                      <p className="font-medium">{selectedConversation.name}</p>
+                      <p className="font-medium">{conversationTitle(selectedConversation, user?.id)}</p>
+                      {(selectedConversation.tourId || selectedConversation.inquiryId) && (
+                        <p className="text-xs text-muted-foreground">
+                          {selectedConversation.tourId ? `Tour #${selectedConversation.tourId}` : `Inquiry #${selectedConversation.inquiryId}`}
+                        </p>
+                      )}
                     </div>
                   </div>
 
                   <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                    <div className="container mx-auto p-4">
-                      <div className="space-y-4">
-                        {messages?.map((message) => (
-                          <div key={message.id} className="p-4 border rounded-lg">
-                            <div className="flex justify-between">
+                    {selectedConversation.messages.map((message) => {
+                      const isOwn = message.senderId === user?.id;
+                      return (
+                        <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                          <div className={`max-w-[75%] p-3 rounded-lg ${isOwn ? 'bg-primary text-primary-foreground' : 'border'}`}>
+                            <div className="flex justify-between gap-4 text-xs opacity-80">
                               <span className="font-medium">{message.senderName}</span>
-                              <span className="text-gray-500">{message.timestamp}</span>
+                              <span>{formatDistanceToNow(new Date(message.timestamp), { addSuffix: true })}</span>
                             </div>
-                            <p className="mt-2">{message.content}</p>
+                            <p className="mt-1 whitespace-pre-wrap">{message.content}</p>
+                            {isOwn && isSeenByOthers(message) && (
+                              <div className="flex justify-end mt-1 text-xs opacity-80">
+                                <CheckCheck className="h-3 w-3 mr-1" /> Seen
+                              </div>
+                            )}
                           </div>
-                        ))}
-                      </div>
-                    </div>
+                        </div>
+                      );
+                    })}
                   </div>
 
                   <div className="p-4 border-t">
                     <div className="flex space-x-2">
-                      <Button variant="outline" size="icon">
-                        <Paperclip className="h-4 w-4" />
-                      </Button>
                       <Textarea
                         value={newMessage}
                         onChange={(e) => setNewMessage(e.target.value)}
                         placeholder="Type your message..."
                         className="min-h-[60px] resize-none flex-1"
                       />
-                      <Button onClick={handleSendMessage}>
+                      <Button onClick={handleSendMessage} disabled={sendMessage.isPending || !newMessage.trim()}>
                         <Send className="h-4 w-4 mr-1" />
                         Send
                       </Button>
@@ -189,4 +278,4 @@ export default function MessagesPage() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -6,6 +6,13 @@ import { Button } from '@/components/ui/button';
 import { ArrowLeft, Calendar, Download, Edit, Share } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { itineraryBookUrl } from '@/lib/api';
 import { 
   Breadcrumb,
   BreadcrumbItem,
@@ -15,6 +22,7 @@ import {
 } from "@/components/ui/breadcrumb";
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { AlertTriangle } from 'lucide-react';
+import { useTourUpdates } from '@/context/realtime-context';
 
 // Define type for a venue
 interface Venue {
@@ -27,6 +35,12 @@ interface Venue {
     status: string;
     sequence: number | null;
     notes: string | null;
+    // Day sheet times, HH:MM
+    loadInTime: string | null;
+    soundcheckTime: string | null;
+    doorsTime: string | null;
+    setTime: string | null;
+    accommodation: string | null;
     statusUpdatedAt: string;
     createdAt: string;
   };
@@ -76,6 +90,7 @@ export default function TourDetailPage() {
   const [, setLocation] = useLocation();
   const { id } = useParams<{ id: string }>();
   const tourId = parseInt(id);
+  useTourUpdates(tourId);
   const [showAllVenues, setShowAllVenues] = useState(false);
   const [selectedVenue, setSelectedVenue] = useState<any>(null);
 
@@ -251,10 +266,22 @@ export default function TourDetailPage() {
             <Share className="mr-2 h-4 w-4" />
             Share
           </Button>
-          <Button variant="outline" size="sm">
-            <Download className="mr-2 h-4 w-4" />
-            Export
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem asChild>
+                <a href={itineraryBookUrl(tourId, 'pdf')}>Itinerary book (PDF)</a>
+              </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <a href={itineraryBookUrl(tourId, 'html')} target="_blank" rel="noopener noreferrer">Itinerary book (print)</a>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
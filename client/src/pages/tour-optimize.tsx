@@ -3,6 +3,7 @@ import { useParams, Link } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
 import { UnifiedTourOptimizer } from '@/components/tour/unified-tour-optimizer';
 import { getTourById } from '@/lib/api';
+import { useTourUpdates } from '@/context/realtime-context';
 
 // UI Components
 import {
@@ -32,6 +33,7 @@ import { Home, ChevronRight, Music } from 'lucide-react';
 export default function OptimizeTour() {
   const { id } = useParams();
   const tourId = Number(id);
+  useTourUpdates(tourId);
   
   // Fetch tour data
   const { data: tour, isLoading } = useQuery({
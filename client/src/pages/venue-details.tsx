@@ -6,6 +6,10 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { VenueMap } from "@/components/maps/venue-map";
+import VenueHoldCalendar from "@/components/calendar/venue-hold-calendar";
+import VenueAvailabilityCalendar from "@/components/calendar/venue-availability-calendar";
+import CalendarFeedsCard from "@/components/calendar/calendar-feeds-card";
+import VenueCalendarImport from "@/components/calendar/venue-calendar-import";
 import { Venue } from "@shared/schema";
 import { MapEvent } from "@/types";
 import { getVenue, getEventsByVenue, apiRequest } from "@/lib/api";
@@ -64,6 +68,8 @@ export default function VenueDetails() {
         <TabsList className="mb-6">
           <TabsTrigger value="details">Details</TabsTrigger>
           <TabsTrigger value="events">Events</TabsTrigger>
+          <TabsTrigger value="availability">Availability</TabsTrigger>
+          <TabsTrigger value="holds">Holds</TabsTrigger>
           <TabsTrigger value="location">Location</TabsTrigger>
           <TabsTrigger value="insights">Insights</TabsTrigger>
         </TabsList>
@@ -183,6 +189,16 @@ export default function VenueDetails() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="availability" className="space-y-6">
+          <VenueAvailabilityCalendar venueId={venueId} />
+          <CalendarFeedsCard owner="venues" ownerId={venueId} />
+          <VenueCalendarImport venueId={venueId} />
+        </TabsContent>
+
+        <TabsContent value="holds">
+          <VenueHoldCalendar venueId={venueId} />
+        </TabsContent>
+
         <TabsContent value="location">
           <Card>
             <CardHeader>
@@ -21,6 +21,10 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { hasPermission } from "@/lib/permissions";
+import { CollaborativeOpportunityTable } from "@/components/collaborative/collaborative-opportunity-table";
+import { CreateOpportunityDialog } from "@/components/collaborative/create-opportunity-dialog";
+import { OpportunityDetailsDialog } from "@/components/collaborative/opportunity-details-dialog";
+import type { CollaborativeOpportunityWithDetails } from "@/types/index";
 
 export default function VenueNetwork() {
   const { toast } = useToast();
@@ -30,6 +34,8 @@ export default function VenueNetwork() {
   const [selectedVenue, setSelectedVenue] = useState<any>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [showAllVenues, setShowAllVenues] = useState(false);
+  const [showCreateOpportunity, setShowCreateOpportunity] = useState(false);
+  const [selectedOpportunityId, setSelectedOpportunityId] = useState<number | null>(null);
   const [filters, setFilters] = useState({
     genre: "",
     capacity: "",
@@ -63,6 +69,15 @@ export default function VenueNetwork() {
     queryClient.invalidateQueries({ queryKey: ['/api/users/me'] });
   }, [queryClient]);
 
+  const { data: opportunities = [], isLoading: isLoadingOpportunities } = useQuery<CollaborativeOpportunityWithDetails[]>({
+    queryKey: ['/api/venue-network/opportunities', currentVenueId],
+    queryFn: () => getCollaborativeOpportunitiesByVenue(currentVenueId!),
+    enabled: !!currentVenueId
+  });
+
+  // Read the selected opportunity from the list so it reflects the latest responses
+  const selectedOpportunity = opportunities.find(o => o.id === selectedOpportunityId) ?? null;
+
   // Ensure the venue network graph is refetched when the user changes 
   const { data: networkData, isLoading: isLoadingNetwork, refetch: refetchNetwork, error: networkError } = useQuery({
     queryKey: ['/api/venue-network/graph', currentVenueId],
@@ -236,6 +251,7 @@ export default function VenueNetwork() {
             <TabsTrigger value="map">Network Map</TabsTrigger>
             <TabsTrigger value="list">Connected Venues</TabsTrigger>
             <TabsTrigger value="stats">Network Stats</TabsTrigger>
+            <TabsTrigger value="opportunities">Opportunities</TabsTrigger>
           </TabsList>
 
           <TabsContent value="map" className="space-y-4">
@@ -456,6 +472,25 @@ export default function VenueNetwork() {
             </div>
           </TabsContent>
 
+          <TabsContent value="opportunities">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <h3 className="font-medium">Collaborative Routing</h3>
+                  <p className="text-sm text-gray-500">Route an artist through your network by combining dates with connected venues</p>
+                </div>
+                <Button onClick={() => setShowCreateOpportunity(true)}>New Opportunity</Button>
+              </CardHeader>
+              <CardContent>
+                <CollaborativeOpportunityTable
+                  opportunities={opportunities}
+                  isLoading={isLoadingOpportunities}
+                  onViewDetails={(opportunity) => setSelectedOpportunityId(opportunity.id)}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/*The following TabsContent is redundant.  It's identical to the previous one.  Removing it.*/}
           {/*<TabsContent value="stats">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -625,6 +660,19 @@ export default function VenueNetwork() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <CreateOpportunityDialog
+        open={showCreateOpportunity}
+        onOpenChange={setShowCreateOpportunity}
+        venueId={currentVenueId}
+        connectedVenues={networkData?.nodes?.filter(n => !n.isCurrentVenue) || []}
+      />
+
+      <OpportunityDetailsDialog
+        opportunity={selectedOpportunity}
+        venueId={currentVenueId}
+        onOpenChange={(open) => !open && setSelectedOpportunityId(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
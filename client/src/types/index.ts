@@ -39,6 +39,12 @@ export interface Artist {
   socialMediaLinks: Record<string, string> | null;
 }
 
+export interface EventFieldProvenance {
+  source: string;
+  fetchedAt: string;
+  confidence: number;
+}
+
 export interface Event {
   id: number;
   artistId: number;
@@ -47,8 +53,8 @@ export interface Event {
   startTime: string | null;
   ticketUrl: string | null;
   status: string;
-  sourceId: string | null;
-  sourceName: string | null;
+  // Which source each field's value came from
+  provenance: Partial<Record<'date' | 'startTime' | 'ticketUrl' | 'status', EventFieldProvenance>> | null;
   // Extended fields from API
   type?: string;
   title?: string;
@@ -74,13 +80,22 @@ export interface Prediction {
   confidenceScore: number;
   status: string;
   reasoning: string | null;
-  gapBeforeEvent: number | null;
-  gapAfterEvent: number | null;
+  gapBeforeEventId: number | null;
+  gapAfterEventId: number | null;
+  respondedById: number | null;
+  respondedAt: string | null;
+}
+
+// A show bounding the routing gap, with the city it is played in
+export interface PredictionGapEvent extends Omit<Event, 'venue'> {
+  venue: Pick<Venue, 'id' | 'name' | 'city'>;
 }
 
 export interface PredictionWithDetails extends Prediction {
   artist: Artist;
   venue: Venue;
+  gapBeforeEventRel?: PredictionGapEvent | null;
+  gapAfterEventRel?: PredictionGapEvent | null;
 }
 
 export interface Inquiry {
@@ -93,6 +108,19 @@ export interface Inquiry {
   collaborators: number[] | null;
 }
 
+export interface RoutingProposal {
+  stops: Array<{
+    participantId: number;
+    venueId: number;
+    venueName: string;
+    date: string;
+    distanceFromPreviousKm: number;
+  }>;
+  totalDistanceKm: number;
+  dateConflicts: string[];
+  builtAt: string;
+}
+
 export interface CollaborativeOpportunity {
   id: number;
   artistId: number;
@@ -100,6 +128,10 @@ export interface CollaborativeOpportunity {
   dateRangeStart: string;
   dateRangeEnd: string;
   status: string;
+  notes: string | null;
+  proposal: RoutingProposal | null;
+  tourId: number | null;
+  confirmedAt: string | null;
 }
 
 export interface CollaborativeOpportunityWithDetails extends CollaborativeOpportunity {
@@ -110,10 +142,586 @@ export interface CollaborativeOpportunityWithDetails extends CollaborativeOpport
     venueId: number;
     status: string;
     proposedDate: string | null;
+    respondedAt: string | null;
+    tourVenueId: number | null;
     venue: Venue;
   }>;
 }
 
+// Tour optimization contract of /api/v1/optimization (see server/services/optimization/types.ts)
+export type OptimizationStrategyName = 'standard' | 'enhanced' | 'ai';
+
+export type OptimizationGoal = 'distance' | 'time' | 'balanced' | 'revenue';
+
+export interface OptimizationOptions {
+  optimizeFor?: OptimizationGoal;
+  respectFixedDates?: boolean;
+  preferredDates?: Record<number, string>; // venueId -> YYYY-MM-DD
+  avoidDates?: string[];
+  minDaysBetweenShows?: number;
+  maxDaysBetweenShows?: number;
+  requiredDaysOff?: string[];
+  maxTravelDistancePerDay?: number;
+  solver?: 'greedy' | 'local-search' | 'simulated-annealing';
+  seed?: number;
+}
+
+export interface OptimizationRequest {
+  strategy: OptimizationStrategyName;
+  options?: OptimizationOptions;
+}
+
+export interface OptimizedTourVenue {
+  venue: Venue;
+  tourVenueId?: number; // Missing for venues suggested to fill a gap
+  date: string | null;
+  suggestedDate?: string;
+  isFixed: boolean;
+  status?: string;
+  gapFilling?: boolean;
+  score?: number;
+  sequence?: number;
+}
+
+export interface OptimizationViolation {
+  stopId: number;
+  type: 'fixedDateUnreachable' | 'maxDaysBetweenShows' | 'outsideTourDates';
+  detail: string;
+}
+
+export type TravelMode = 'drive' | 'ferry' | 'flight';
+
+// A leg between two consecutive venues of a route
+export interface RouteLeg {
+  fromVenueId: number | null;
+  toVenueId: number | null;
+  distanceKm: number;
+  travelTimeMinutes: number;
+  mode: TravelMode;
+  borderCrossing: { fromCountry: string; toCountry: string } | null;
+}
+
+// Paperwork needed for entering a country on tour
+export interface TravelChecklistItem {
+  type: 'visa' | 'carnet';
+  country: string;
+  fromVenueId: number | null;
+  toVenueId: number | null;
+  description: string;
+}
+
+// A stored leg of a tour's current route
+export interface StoredTourRoute {
+  id: number;
+  tourId: number;
+  startVenueId: number | null;
+  endVenueId: number | null;
+  distanceKm: number | null;
+  estimatedTravelTimeMinutes: number | null;
+  travelMode: TravelMode | null;
+  fromCountry: string | null;
+  toCountry: string | null;
+  borderCrossing: boolean | null;
+  startVenue: Venue | null;
+  endVenue: Venue | null;
+}
+
+export type ItineraryDayType = 'show' | 'travel' | 'off';
+
+// One day of a tour from its first show to its last
+export interface ItineraryDay {
+  date: string;
+  type: ItineraryDayType;
+  // Show played on the day, or the show being travelled to
+  tourVenueId: number;
+  fromTourVenueId: number | null;
+  distanceKm: number;
+  mode: TravelMode | null;
+  requiredDayOff: boolean;
+}
+
+// A show that cannot be played on its date, with the nearest dates that work
+export interface ItineraryIssue {
+  type: 'driveLimitExceeded' | 'showOnDayOff';
+  tourVenueId: number;
+  date: string;
+  detail: string;
+  proposedDates: string[];
+}
+
+export interface TourItinerary {
+  tourId: number;
+  maxTravelDistancePerDay: number | null;
+  requiredDaysOff: string[];
+  days: ItineraryDay[];
+  issues: ItineraryIssue[];
+  shows: Array<{
+    tourVenueId: number;
+    venueId: number;
+    venueName: string;
+    city: string | null;
+    status: string | null;
+    date: string;
+  }>;
+}
+
+// Settlement of one show; percentages are the artist's share (0-100)
+export interface ShowSettlement {
+  id: number;
+  tourVenueId: number;
+  guarantee: number | null;
+  doorSplitPercent: number | null;
+  ticketPrice: number | null;
+  barSplitPercent: number | null;
+  merchSplitPercent: number | null;
+  projectedTickets: number | null;
+  projectedBarSales: number | null;
+  projectedMerchSales: number | null;
+  lodgingCost: number | null;
+  otherExpenses: number | null;
+  actualTickets: number | null;
+  actualBarSales: number | null;
+  actualMerchSales: number | null;
+  actualExpenses: number | null;
+  settledAt: string | null;
+  notes: string | null;
+}
+
+export interface ShowSettlementFigures {
+  ticketGross: number;
+  doorShare: number;
+  showFee: number;
+  barShare: number;
+  merchShare: number;
+  income: number;
+  costs: { fuel: number; lodging: number; perDiems: number; other: number; total: number };
+  net: number;
+}
+
+export interface ProfitAndLoss {
+  income: number;
+  expenses: number;
+  net: number;
+}
+
+export interface TourCostRates {
+  fuelCostPerKm: number;
+  lodgingPerNight: number;
+  perDiem: number;
+  partySize: number;
+}
+
+export interface ShowFinances {
+  tourVenueId: number;
+  venueId: number;
+  venueName: string;
+  city: string | null;
+  date: string | null;
+  status: string | null;
+  settlement: ShowSettlement | null;
+  deal: {
+    guarantee: number;
+    doorSplitPercent: number;
+    ticketPrice: number;
+    barSplitPercent: number;
+    merchSplitPercent: number;
+  };
+  distanceKm: number;
+  days: number;
+  projected: ShowSettlementFigures;
+  actual: ShowSettlementFigures | null;
+}
+
+// Tour P&L with the projected and actual settlement of each show
+export interface TourFinances {
+  tourId: number;
+  currency: string;
+  totalBudget: number | null;
+  rates: TourCostRates;
+  shows: ShowFinances[];
+  projected: ProfitAndLoss;
+  actual: ProfitAndLoss & { settledShows: number };
+  forecast: ProfitAndLoss;
+  budgetRemaining: number | null;
+}
+
+export type ShowDealInput = Partial<Pick<ShowSettlement,
+  | 'guarantee'
+  | 'doorSplitPercent'
+  | 'ticketPrice'
+  | 'barSplitPercent'
+  | 'merchSplitPercent'
+  | 'projectedTickets'
+  | 'projectedBarSales'
+  | 'projectedMerchSales'
+  | 'lodgingCost'
+  | 'otherExpenses'
+  | 'notes'
+>>;
+
+export type ShowActualsInput = { actualTickets: number } &
+  Partial<Pick<ShowSettlement, 'actualBarSales' | 'actualMerchSales' | 'actualExpenses' | 'notes'>>;
+
+// Rates set to null fall back to the defaults
+export type TourBudgetInput = { [K in keyof TourCostRates]?: number | null } & { totalBudget?: number | null; currency?: string };
+
+// A show of the artist: a tour venue, an event, or a venue an optimization would add
+export interface BookingSummary {
+  kind: 'tourVenue' | 'event' | 'proposed';
+  id: number;
+  tourId: number | null;
+  venueId: number;
+  venueName: string;
+  date: string | null;
+}
+
+// A booking inside another booking's radius clause (no shows within radiusKm for some days around it)
+export interface RadiusConflict {
+  clauseId: number;
+  protectedBooking: BookingSummary;
+  conflictingBooking: BookingSummary;
+  distanceKm: number;
+  daysApart: number;
+  detail: string;
+}
+
+// A tour venue's hold on a venue's date; rank 1 has the date unless it lets it go
+export interface VenueHold {
+  id: number;
+  venueId: number;
+  date: string;
+  tourVenueId: number;
+  status: 'active' | 'confirmed' | 'released';
+  rank: number | null;
+  // Lower hold challenging this one
+  challengedById: number | null;
+  // Set on a challenger: when the holds above it must confirm or release
+  challengeDeadline: string | null;
+  resolution: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface HoldEntry extends VenueHold {
+  tourId: number;
+  tourName: string;
+  artistId: number;
+  artistName: string;
+}
+
+// A venue's confirmed booking and active holds on one date
+export interface HoldDate {
+  date: string;
+  confirmed: HoldEntry | null;
+  holds: HoldEntry[];
+}
+
+export type DayAvailabilityStatus = 'open' | 'closed' | 'blackout' | 'booked';
+
+// Whether a venue can take a show on a date: booked by a confirmed event or hold, blacked out, or outside its open nights
+export interface DayAvailability {
+  date: string;
+  status: DayAvailabilityStatus;
+  available: boolean;
+  detail: string | null;
+}
+
+export interface VenueBlackout {
+  id: number;
+  startDate: string;
+  endDate: string; // inclusive
+  reason: string | null;
+}
+
+export interface VenueAvailability {
+  venueId: number;
+  // Weekdays the venue books shows on, 0 = Sunday; empty when every night is open
+  openWeekdays: number[];
+  // Dates open outside the open nights
+  openDates: string[];
+  blackouts: VenueBlackout[];
+  booked: Array<{ date: string; reason: 'event' | 'confirmedHold'; label: string }>;
+  days: DayAvailability[];
+}
+
+// Read-only iCal feed of a tour's or a venue's dates; the token is the whole credential
+export interface CalendarFeed {
+  id: number;
+  token: string;
+  tourId: number | null;
+  venueId: number | null;
+  createdAt: string;
+  lastAccessedAt: string | null;
+}
+
+export interface CalendarImportResult {
+  created: number;
+  updated: number;
+  skipped: Array<{ summary: string; date: string; reason: string }>;
+}
+
+export type EntityType = 'venue' | 'artist';
+export type MatchReviewStatus = 'pending' | 'merged' | 'dismissed';
+
+// A likely duplicate pair; merging keeps the target unless told otherwise
+export interface EntityMatchReview {
+  id: number;
+  entityType: EntityType;
+  sourceId: number;
+  targetId: number;
+  score: number;
+  reasons: string[] | null;
+  detectedBy: string | null;
+  status: MatchReviewStatus;
+  reviewedAt: string | null;
+  createdAt: string;
+  // null once the entity has been merged away
+  source: (Venue | Artist) | null;
+  target: (Venue | Artist) | null;
+  sourceEventCount: number;
+  targetEventCount: number;
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type JobLogLevel = 'info' | 'warning' | 'error';
+
+// Sync, scrape or enrichment work in the job queue
+export interface Job {
+  id: number;
+  type: string;
+  source: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  lockedBy: string | null;
+  progress: { current: number; total: number | null; message?: string } | null;
+  result: unknown;
+  lastError: string | null;
+  cancelRequestedAt: string | null;
+  scheduleId: number | null;
+  createdAt: string;
+}
+
+export interface JobLog {
+  id: number;
+  jobId: number;
+  level: JobLogLevel;
+  message: string;
+  createdAt: string;
+}
+
+export interface JobSchedule {
+  id: number;
+  name: string;
+  type: string;
+  payload: Record<string, unknown>;
+  cron: string;
+  enabled: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+}
+
+export type SyncRunStatus = 'running' | 'succeeded' | 'partial' | 'failed';
+
+// One run of a collector, with what it did to the items it read
+export interface SyncRun {
+  id: number;
+  source: string;
+  operation: string;
+  entityType: 'venue' | 'artist' | null;
+  entityId: number | null;
+  jobId: number | null;
+  status: SyncRunStatus;
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  errored: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+}
+
+// An item a sync run couldn't process
+export interface SyncRunError {
+  id: number;
+  runId: number;
+  entityType: 'venue' | 'artist' | 'event' | null;
+  entityId: number | null;
+  externalId: string | null;
+  message: string;
+  details: Record<string, unknown> | null;
+  retryType: string | null;
+  retryPayload: Record<string, unknown> | null;
+  retryJobId: number | null;
+  createdAt: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// An external URL that is posted tour and booking changes
+export interface WebhookSubscription {
+  id: number;
+  name: string;
+  url: string;
+  // Only sent back when the subscription is created or its secret rotated
+  secret?: string;
+  // Empty takes every event
+  eventTypes: string[];
+  isEnabled: boolean;
+  lastDeliveredAt: string | null;
+  createdById: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One event posted to a subscription, with the subscriber's last response
+export interface WebhookDelivery {
+  id: number;
+  subscriptionId: number;
+  eventType: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  jobId: number | null;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+// Points each factor added to or took from an optimization score
+export interface OptimizationScoreBreakdown {
+  distancePenalty: number;
+  timePenalty: number;
+  gapFillingBonus: number;
+  clusterBonus: number;
+  scheduleBonus: number;
+  dateBonus: number;
+  score: number;
+}
+
+// Projected ticket sales of a route against what it costs to travel
+export interface RevenueProjection {
+  shows: number;
+  expectedDraw: number;
+  ticketGross: number;
+  travelCost: number;
+  dailyCosts: number;
+  days: number;
+  net: number;
+}
+
+export interface RevenueTradeoff {
+  projected: RevenueProjection;
+  baseline: RevenueProjection;
+  showsChange: number;
+  netChange: number;
+  distanceChange: number;
+  daysChange: number;
+  explanation: string;
+}
+
+export interface OptimizationResult {
+  version: number;
+  tourId: number;
+  runId: number;
+  strategy: OptimizationStrategyName;
+  requestedStrategy: OptimizationStrategyName;
+  solver: string | null;
+  tourVenues: OptimizedTourVenue[];
+  gaps: Array<{
+    startDate: string | null;
+    endDate: string | null;
+    daysBetween: number;
+    startVenueId: number;
+    endVenueId: number;
+    potentialVenues: Venue[];
+  }>;
+  totalDistance: number;
+  totalTravelTime: number;
+  optimizationScore: number;
+  legs: RouteLeg[];
+  travelChecklist: TravelChecklistItem[];
+  baseline: {
+    totalDistance: number;
+    totalTravelTime: number;
+    optimizationScore: number;
+  };
+  scoreBreakdown: OptimizationScoreBreakdown;
+  // Set for the revenue goal
+  revenue?: RevenueTradeoff;
+  violations: OptimizationViolation[];
+  radiusConflicts: RadiusConflict[];
+  reasoning: string;
+  fallbackReason?: string;
+}
+
+export interface AppliedStop {
+  tourVenueId?: number;
+  venueId: number;
+}
+
+export interface OptimizationRun {
+  id: number;
+  tourId: number;
+  kind: 'optimization' | 'rollback';
+  strategy: OptimizationStrategyName | null;
+  requestedStrategy: OptimizationStrategyName | null;
+  solver: string | null;
+  options: OptimizationOptions | null;
+  sourceRunId: number | null;
+  optimizationScore: number | null;
+  totalDistance: number | null;
+  totalTravelTime: number | null;
+  createdById: number | null;
+  appliedById: number | null;
+  appliedAt: string | null;
+  addedTourVenueIds: number[] | null;
+  createdAt: string;
+  appliedBy: Pick<User, 'id' | 'name' | 'username'> | null;
+}
+
+// A stop of the route a run proposed or restored
+export interface OptimizationRunStop {
+  tourVenueId: number | null;
+  venueId: number;
+  venueName: string;
+  city: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  date: string | null;
+  status: string | null;
+  sequence: number | null;
+}
+
+export interface OptimizationRunDiff {
+  from: { run: OptimizationRun; stops: OptimizationRunStop[] };
+  to: { run: OptimizationRun; stops: OptimizationRunStop[] };
+  changes: Array<{
+    venueId: number;
+    venueName: string;
+    tourVenueId: number | null;
+    type: 'added' | 'removed' | 'changed' | 'unchanged';
+    from: { position: number; date: string | null } | null;
+    to: { position: number; date: string | null } | null;
+    positionChanged: boolean;
+    dateChanged: boolean;
+  }>;
+  distanceChange: number;
+  travelTimeChange: number;
+  scoreChange: number;
+}
+
 export interface StatsData {
   upcomingOpportunities: number;
   confirmedBookings: number;
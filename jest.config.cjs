@@ -13,7 +13,7 @@ const config = {
     '^@/(.*)$': '<rootDir>/client/src/$1',
     '^@shared/(.*)$': '<rootDir>/shared/$1'
   },
-  setupFiles: ['<rootDir>/server/tests/setup.ts']
+  setupFilesAfterEnv: ['<rootDir>/server/tests/setup.ts']
 };
 
 module.exports = config;
@@ -0,0 +1,45 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add calendar feeds
+ * Tokenized iCal feeds for tours and venues, and load-in times on tour venues
+ */
+async function main() {
+  console.log('Adding loadInTime to tourVenues...');
+
+  await db.execute(sql`
+    ALTER TABLE "tourVenues" ADD COLUMN IF NOT EXISTS "loadInTime" TEXT
+  `);
+
+  console.log('Adding calendarFeeds table...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "calendarFeeds" (
+      "id" SERIAL PRIMARY KEY,
+      "token" TEXT NOT NULL UNIQUE,
+      "tourId" INTEGER REFERENCES tours(id) ON DELETE CASCADE,
+      "venueId" INTEGER REFERENCES venues(id) ON DELETE CASCADE,
+      "createdById" INTEGER REFERENCES users(id),
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      "revokedAt" TIMESTAMP,
+      "lastAccessedAt" TIMESTAMP,
+      CHECK (("tourId" IS NULL) <> ("venueId" IS NULL))
+    )
+  `);
+
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "calendarFeeds_tourId_idx" ON "calendarFeeds" ("tourId")`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "calendarFeeds_venueId_idx" ON "calendarFeeds" ("venueId")`);
+
+  console.log('Calendar feeds added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
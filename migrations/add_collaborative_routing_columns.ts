@@ -0,0 +1,50 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add collaborative routing columns
+ * Stores the combined routing proposal and links confirmed stops to the tour they were pushed into
+ */
+async function main() {
+  console.log('Adding collaborative routing columns...');
+
+  await db.execute(sql`
+    ALTER TABLE "collaborativeOpportunities"
+    ADD COLUMN IF NOT EXISTS "createdById" INTEGER REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS "notes" TEXT,
+    ADD COLUMN IF NOT EXISTS "proposal" JSONB,
+    ADD COLUMN IF NOT EXISTS "tourId" INTEGER REFERENCES tours(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS "confirmedAt" TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS "updatedAt" TIMESTAMP
+  `);
+
+  await db.execute(sql`
+    ALTER TABLE "collaborativeParticipants"
+    ADD COLUMN IF NOT EXISTS "respondedAt" TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS "tourVenueId" INTEGER REFERENCES "tourVenues"(id) ON DELETE SET NULL
+  `);
+
+  await db.execute(sql`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'collaborativeParticipants_opportunityId_venueId_unique'
+      ) THEN
+        ALTER TABLE "collaborativeParticipants"
+        ADD CONSTRAINT "collaborativeParticipants_opportunityId_venueId_unique" UNIQUE ("opportunityId", "venueId");
+      END IF;
+    END $$;
+  `);
+
+  console.log('Collaborative routing columns added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
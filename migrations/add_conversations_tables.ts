@@ -0,0 +1,50 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add threaded conversations to messaging
+ * Creates conversations and conversationParticipants, and links messages to a conversation
+ */
+async function main() {
+  console.log('Adding conversation tables...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "conversations" (
+      "id" SERIAL PRIMARY KEY,
+      "subject" TEXT,
+      "createdById" INTEGER REFERENCES users(id),
+      "tourId" INTEGER REFERENCES tours(id) ON DELETE SET NULL,
+      "tourVenueId" INTEGER REFERENCES "tourVenues"(id) ON DELETE SET NULL,
+      "inquiryId" INTEGER REFERENCES inquiries(id) ON DELETE SET NULL,
+      "lastMessageAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "conversationParticipants" (
+      "conversationId" INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+      "userId" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      "lastReadAt" TIMESTAMP,
+      "joinedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY ("conversationId", "userId")
+    )
+  `);
+
+  await db.execute(sql`
+    ALTER TABLE messages
+    ADD COLUMN IF NOT EXISTS "conversationId" INTEGER REFERENCES conversations(id) ON DELETE CASCADE
+  `);
+
+  console.log('Conversation tables created');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
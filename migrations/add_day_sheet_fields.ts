@@ -0,0 +1,36 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add day sheet fields
+ * Venue street addresses, and show times and accommodation on tour venues
+ */
+async function main() {
+  console.log('Adding address to venues...');
+
+  await db.execute(sql`
+    ALTER TABLE "venues" ADD COLUMN IF NOT EXISTS "address" TEXT
+  `);
+
+  console.log('Adding show times and accommodation to tourVenues...');
+
+  await db.execute(sql`
+    ALTER TABLE "tourVenues"
+      ADD COLUMN IF NOT EXISTS "soundcheckTime" TEXT,
+      ADD COLUMN IF NOT EXISTS "doorsTime" TEXT,
+      ADD COLUMN IF NOT EXISTS "setTime" TEXT,
+      ADD COLUMN IF NOT EXISTS "accommodation" TEXT
+  `);
+
+  console.log('Day sheet fields added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
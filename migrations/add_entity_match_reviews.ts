@@ -0,0 +1,41 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add the entity match review queue
+ * Likely duplicate venues and artists waiting for an admin to merge or dismiss them
+ */
+async function main() {
+  console.log('Adding entityMatchReviews table...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "entityMatchReviews" (
+      "id" SERIAL PRIMARY KEY,
+      "entityType" TEXT NOT NULL,
+      "sourceId" INTEGER NOT NULL,
+      "targetId" INTEGER NOT NULL,
+      "score" REAL NOT NULL,
+      "reasons" JSONB,
+      "detectedBy" TEXT,
+      "status" TEXT NOT NULL DEFAULT 'pending',
+      "reviewedById" INTEGER REFERENCES users(id),
+      "reviewedAt" TIMESTAMP,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "entityMatchReviews_entityType_sourceId_targetId_unique" UNIQUE ("entityType", "sourceId", "targetId")
+    )
+  `);
+
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "entityMatchReviews_status_idx" ON "entityMatchReviews" ("status")`);
+
+  console.log('Entity match reviews added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,82 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Replace events.sourceName/sourceId with the eventSources link table
+ * Each event can now be reported by several sources; the event keeps per-field provenance.
+ * Existing events get one eventSources row from their old source columns before those
+ * columns are dropped.
+ */
+async function main() {
+  console.log('Adding eventSources table...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "eventSources" (
+      "id" SERIAL PRIMARY KEY,
+      "eventId" INTEGER NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+      "source" TEXT NOT NULL,
+      "externalId" TEXT NOT NULL,
+      "url" TEXT,
+      "fields" JSONB NOT NULL,
+      "confidence" REAL NOT NULL,
+      "fetchedAt" TIMESTAMP NOT NULL,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "eventSources_source_externalId_unique" UNIQUE ("source", "externalId")
+    )
+  `);
+
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "eventSources_eventId_idx" ON "eventSources" ("eventId")`);
+
+  console.log('Adding provenance to events...');
+
+  await db.execute(sql`ALTER TABLE events ADD COLUMN IF NOT EXISTS "provenance" JSONB`);
+  await db.execute(sql`ALTER TABLE events ADD COLUMN IF NOT EXISTS "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP`);
+
+  const sourceColumns = await db.execute(sql`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'events' AND column_name = 'sourceName'
+  `);
+
+  if (sourceColumns.length > 0) {
+    console.log('Moving event sources into eventSources...');
+
+    // Events without a source ID get one from their own ID so the pair stays unique
+    await db.execute(sql`
+      INSERT INTO "eventSources" ("eventId", "source", "externalId", "fields", "confidence", "fetchedAt")
+      SELECT
+        id,
+        "sourceName",
+        COALESCE("sourceId", 'event-' || id),
+        jsonb_strip_nulls(jsonb_build_object('date', date, 'startTime', "startTime", 'ticketUrl', "ticketUrl", 'status', status)),
+        0.5,
+        COALESCE("createdAt", CURRENT_TIMESTAMP)
+      FROM events
+      WHERE "sourceName" IS NOT NULL
+      ON CONFLICT ("source", "externalId") DO NOTHING
+    `);
+
+    await db.execute(sql`
+      UPDATE events e SET "provenance" = (
+        SELECT jsonb_object_agg(field, jsonb_build_object('source', s."source", 'fetchedAt', s."fetchedAt", 'confidence', s."confidence"))
+        FROM jsonb_object_keys(s."fields") AS field
+      )
+      FROM "eventSources" s
+      WHERE s."eventId" = e.id
+    `);
+
+    await db.execute(sql`ALTER TABLE events DROP COLUMN IF EXISTS "sourceName"`);
+    await db.execute(sql`ALTER TABLE events DROP COLUMN IF EXISTS "sourceId"`);
+  }
+
+  console.log('Event sources added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,41 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add the booking inquiry lifecycle columns
+ * Tracks who sent the offer, the current terms, the booked tour venue and a timestamp per stage
+ */
+async function main() {
+  console.log('Adding inquiry lifecycle columns...');
+
+  await db.execute(sql`
+    ALTER TABLE inquiries
+    ADD COLUMN IF NOT EXISTS "senderId" INTEGER REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS "tourId" INTEGER REFERENCES tours(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS "tourVenueId" INTEGER REFERENCES "tourVenues"(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS "offerAmount" REAL,
+    ADD COLUMN IF NOT EXISTS "responseMessage" TEXT,
+    ADD COLUMN IF NOT EXISTS "sentAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS "counteredAt" TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS "acceptedAt" TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS "declinedAt" TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS "updatedAt" TIMESTAMP
+  `);
+
+  // Existing inquiries were sent when they were created
+  await db.execute(sql`
+    UPDATE inquiries SET "sentAt" = "createdAt" WHERE "createdAt" IS NOT NULL
+  `);
+
+  console.log('Inquiry lifecycle columns added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
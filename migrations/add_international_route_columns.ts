@@ -0,0 +1,35 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add international route columns
+ * Records how each tour leg is travelled and whether it crosses a border
+ */
+async function main() {
+  console.log('Adding international route columns...');
+
+  await db.execute(sql`
+    ALTER TABLE "tourRoutes"
+    ADD COLUMN IF NOT EXISTS "travelMode" TEXT DEFAULT 'drive',
+    ADD COLUMN IF NOT EXISTS "fromCountry" TEXT,
+    ADD COLUMN IF NOT EXISTS "toCountry" TEXT,
+    ADD COLUMN IF NOT EXISTS "borderCrossing" BOOLEAN DEFAULT false
+  `);
+
+  await db.execute(sql`
+    ALTER TABLE "travelMatrixEntries"
+    ADD COLUMN IF NOT EXISTS "travelMode" TEXT NOT NULL DEFAULT 'drive'
+  `);
+
+  console.log('International route columns added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
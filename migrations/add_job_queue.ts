@@ -0,0 +1,88 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add the job queue: jobs, their logs and cron schedules
+ * Seeds the schedules that replace running the hold expiry, prediction and venue event
+ * syncs from cron. The venue event sync needs a Bandsintown API key, so it starts disabled.
+ */
+async function main() {
+  console.log('Adding job queue tables...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "jobSchedules" (
+      "id" SERIAL PRIMARY KEY,
+      "name" TEXT NOT NULL UNIQUE,
+      "type" TEXT NOT NULL,
+      "payload" JSONB NOT NULL DEFAULT '{}'::jsonb,
+      "cron" TEXT NOT NULL,
+      "enabled" BOOLEAN NOT NULL DEFAULT true,
+      "lastRunAt" TIMESTAMP,
+      "nextRunAt" TIMESTAMP,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "jobs" (
+      "id" SERIAL PRIMARY KEY,
+      "type" TEXT NOT NULL,
+      "source" TEXT NOT NULL,
+      "payload" JSONB NOT NULL DEFAULT '{}'::jsonb,
+      "status" TEXT NOT NULL DEFAULT 'queued',
+      "priority" INTEGER NOT NULL DEFAULT 0,
+      "attempts" INTEGER NOT NULL DEFAULT 0,
+      "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+      "runAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "startedAt" TIMESTAMP,
+      "finishedAt" TIMESTAMP,
+      "lockedBy" TEXT,
+      "lockedUntil" TIMESTAMP,
+      "progress" JSONB,
+      "result" JSONB,
+      "lastError" TEXT,
+      "cancelRequestedAt" TIMESTAMP,
+      "scheduleId" INTEGER REFERENCES "jobSchedules"(id) ON DELETE SET NULL,
+      "createdById" INTEGER REFERENCES users(id),
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // The worker looks for due queued jobs and for running jobs whose claim has lapsed
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "jobs_status_runAt_idx" ON "jobs" ("status", "runAt")`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "jobs_scheduleId_idx" ON "jobs" ("scheduleId")`);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "jobLogs" (
+      "id" SERIAL PRIMARY KEY,
+      "jobId" INTEGER NOT NULL REFERENCES "jobs"(id) ON DELETE CASCADE,
+      "level" TEXT NOT NULL DEFAULT 'info',
+      "message" TEXT NOT NULL,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "jobLogs_jobId_idx" ON "jobLogs" ("jobId")`);
+
+  console.log('Adding default job schedules...');
+
+  await db.execute(sql`
+    INSERT INTO "jobSchedules" ("name", "type", "cron", "enabled") VALUES
+      ('Expire hold challenges', 'expire-hold-challenges', '0 * * * *', true),
+      ('Nightly predictions', 'prediction-job', '0 3 * * *', true),
+      ('Daily venue event sync', 'seed-venue-events', '0 6 * * *', false)
+    ON CONFLICT ("name") DO NOTHING
+  `);
+
+  console.log('Job queue added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
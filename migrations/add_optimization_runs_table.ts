@@ -0,0 +1,49 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add optimization runs
+ * Keeps every optimization of a tour with its input snapshot so runs can be diffed and rolled back
+ */
+async function main() {
+  console.log('Adding optimizationRuns table...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "optimizationRuns" (
+      "id" SERIAL PRIMARY KEY,
+      "tourId" INTEGER NOT NULL REFERENCES tours(id) ON DELETE CASCADE,
+      "kind" TEXT DEFAULT 'optimization',
+      "strategy" TEXT,
+      "requestedStrategy" TEXT,
+      "solver" TEXT,
+      "options" JSONB,
+      "inputSnapshot" JSONB NOT NULL,
+      "result" JSONB,
+      "sourceRunId" INTEGER,
+      "optimizationScore" INTEGER,
+      "totalDistance" REAL,
+      "totalTravelTimeMinutes" INTEGER,
+      "createdById" INTEGER REFERENCES users(id),
+      "appliedById" INTEGER REFERENCES users(id),
+      "appliedAt" TIMESTAMP,
+      "addedTourVenueIds" INTEGER[],
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS "optimizationRuns_tourId_idx" ON "optimizationRuns" ("tourId")
+  `);
+
+  console.log('optimizationRuns table created');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
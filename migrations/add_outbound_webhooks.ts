@@ -0,0 +1,59 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add outbound webhook subscriptions and their delivery log
+ * Deliveries are sent by webhook-delivery jobs, so this runs after add_job_queue.
+ */
+async function main() {
+  console.log('Adding outbound webhook tables...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "webhookSubscriptions" (
+      "id" SERIAL PRIMARY KEY,
+      "name" TEXT NOT NULL,
+      "url" TEXT NOT NULL,
+      "secret" TEXT NOT NULL,
+      "eventTypes" TEXT[] NOT NULL DEFAULT '{}',
+      "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+      "lastDeliveredAt" TIMESTAMP,
+      "createdById" INTEGER REFERENCES users(id),
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      "updatedAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "webhookDeliveries" (
+      "id" SERIAL PRIMARY KEY,
+      "subscriptionId" INTEGER NOT NULL REFERENCES "webhookSubscriptions"(id) ON DELETE CASCADE,
+      "eventType" TEXT NOT NULL,
+      "payload" JSONB NOT NULL,
+      "status" TEXT NOT NULL DEFAULT 'pending',
+      "attempts" INTEGER NOT NULL DEFAULT 0,
+      "responseStatus" INTEGER,
+      "responseBody" TEXT,
+      "error" TEXT,
+      "durationMs" INTEGER,
+      "jobId" INTEGER REFERENCES "jobs"(id) ON DELETE SET NULL,
+      "lastAttemptAt" TIMESTAMP,
+      "deliveredAt" TIMESTAMP,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // The settings page lists a subscription's most recent deliveries
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "webhookDeliveries_subscriptionId_createdAt_idx" ON "webhookDeliveries" ("subscriptionId", "createdAt")`);
+
+  console.log('Outbound webhooks added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
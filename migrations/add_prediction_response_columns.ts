@@ -0,0 +1,33 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add the prediction response columns
+ * Records which venue manager accepted or dismissed a prediction and when
+ */
+async function main() {
+  console.log('Adding prediction response columns...');
+
+  await db.execute(sql`
+    ALTER TABLE predictions
+    ADD COLUMN IF NOT EXISTS "respondedById" INTEGER REFERENCES users(id),
+    ADD COLUMN IF NOT EXISTS "respondedAt" TIMESTAMP
+  `);
+
+  // The prediction job replaces pending rows per venue, so look them up by venue and status
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS "predictions_venueId_status_idx" ON predictions ("venueId", status)
+  `);
+
+  console.log('Prediction response columns added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
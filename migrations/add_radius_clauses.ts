@@ -0,0 +1,40 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add radius clauses
+ * A booking's clause keeps the artist from playing nearby for some days before and after the show
+ */
+async function main() {
+  console.log('Adding radiusClauses table...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "radiusClauses" (
+      "id" SERIAL PRIMARY KEY,
+      "tourVenueId" INTEGER REFERENCES "tourVenues"(id) ON DELETE CASCADE,
+      "eventId" INTEGER REFERENCES events(id) ON DELETE CASCADE,
+      "radiusKm" REAL NOT NULL,
+      "daysBefore" INTEGER NOT NULL DEFAULT 0,
+      "daysAfter" INTEGER NOT NULL DEFAULT 0,
+      "notes" TEXT,
+      "createdById" INTEGER REFERENCES users(id),
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CHECK (("tourVenueId" IS NULL) <> ("eventId" IS NULL))
+    )
+  `);
+
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "radiusClauses_tourVenueId_idx" ON "radiusClauses" ("tourVenueId")`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "radiusClauses_eventId_idx" ON "radiusClauses" ("eventId")`);
+
+  console.log('Radius clauses table created');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,68 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add sync runs and their error records
+ * Replaces the syncLogs table, which SyncLogger created on first use and filled with one
+ * message per log line; nothing writes to it any more.
+ */
+async function main() {
+  console.log('Adding sync run tables...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "syncRuns" (
+      "id" SERIAL PRIMARY KEY,
+      "source" TEXT NOT NULL,
+      "operation" TEXT NOT NULL,
+      "entityType" TEXT,
+      "entityId" INTEGER,
+      "jobId" INTEGER REFERENCES "jobs"(id) ON DELETE SET NULL,
+      "status" TEXT NOT NULL DEFAULT 'running',
+      "created" INTEGER NOT NULL DEFAULT 0,
+      "updated" INTEGER NOT NULL DEFAULT 0,
+      "unchanged" INTEGER NOT NULL DEFAULT 0,
+      "skipped" INTEGER NOT NULL DEFAULT 0,
+      "errored" INTEGER NOT NULL DEFAULT 0,
+      "error" TEXT,
+      "startedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "finishedAt" TIMESTAMP,
+      "durationMs" INTEGER
+    )
+  `);
+
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "syncRuns_source_startedAt_idx" ON "syncRuns" ("source", "startedAt")`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "syncRuns_jobId_idx" ON "syncRuns" ("jobId")`);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "syncRunErrors" (
+      "id" SERIAL PRIMARY KEY,
+      "runId" INTEGER NOT NULL REFERENCES "syncRuns"(id) ON DELETE CASCADE,
+      "entityType" TEXT,
+      "entityId" INTEGER,
+      "externalId" TEXT,
+      "message" TEXT NOT NULL,
+      "details" JSONB,
+      "retryType" TEXT,
+      "retryPayload" JSONB,
+      "retryJobId" INTEGER REFERENCES "jobs"(id) ON DELETE SET NULL,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "syncRunErrors_runId_idx" ON "syncRunErrors" ("runId")`);
+
+  console.log('Dropping syncLogs...');
+  await db.execute(sql`DROP TABLE IF EXISTS "syncLogs"`);
+
+  console.log('Sync runs added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
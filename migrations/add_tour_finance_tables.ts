@@ -0,0 +1,64 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add tour budgets and show settlements
+ * Tour-wide cost assumptions, and the deal, projections and actual takings of each show
+ */
+async function main() {
+  console.log('Adding tourBudgets table...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "tourBudgets" (
+      "id" SERIAL PRIMARY KEY,
+      "tourId" INTEGER NOT NULL UNIQUE REFERENCES tours(id) ON DELETE CASCADE,
+      "currency" TEXT DEFAULT 'USD',
+      "fuelCostPerKm" REAL,
+      "lodgingPerNight" REAL,
+      "perDiem" REAL,
+      "partySize" INTEGER,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      "updatedAt" TIMESTAMP
+    )
+  `);
+
+  console.log('Adding showSettlements table...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "showSettlements" (
+      "id" SERIAL PRIMARY KEY,
+      "tourVenueId" INTEGER NOT NULL UNIQUE REFERENCES "tourVenues"(id) ON DELETE CASCADE,
+      "guarantee" REAL DEFAULT 0,
+      "doorSplitPercent" REAL DEFAULT 0,
+      "ticketPrice" REAL,
+      "barSplitPercent" REAL DEFAULT 0,
+      "merchSplitPercent" REAL DEFAULT 100,
+      "projectedTickets" INTEGER,
+      "projectedBarSales" REAL,
+      "projectedMerchSales" REAL,
+      "lodgingCost" REAL,
+      "otherExpenses" REAL,
+      "actualTickets" INTEGER,
+      "actualBarSales" REAL,
+      "actualMerchSales" REAL,
+      "actualExpenses" REAL,
+      "settledAt" TIMESTAMP,
+      "settledById" INTEGER REFERENCES users(id),
+      "notes" TEXT,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      "updatedAt" TIMESTAMP
+    )
+  `);
+
+  console.log('Tour finance tables created');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
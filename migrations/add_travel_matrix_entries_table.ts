@@ -0,0 +1,35 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add travel matrix entries
+ * Caches the distance and driving time between venue pairs per travel matrix provider
+ */
+async function main() {
+  console.log('Adding travelMatrixEntries table...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "travelMatrixEntries" (
+      "id" SERIAL PRIMARY KEY,
+      "provider" TEXT NOT NULL,
+      "fromVenueId" INTEGER NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+      "toVenueId" INTEGER NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+      "distanceKm" REAL NOT NULL,
+      "travelTimeMinutes" REAL NOT NULL,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "travelMatrixEntries_provider_fromVenueId_toVenueId_unique" UNIQUE ("provider", "fromVenueId", "toVenueId")
+    )
+  `);
+
+  console.log('travelMatrixEntries table created');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,43 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add venue availability
+ * Recurring open nights on venue tour preferences and blackout date ranges
+ */
+async function main() {
+  console.log('Adding openWeekdays to venueTourPreferences...');
+
+  await db.execute(sql`
+    ALTER TABLE "venueTourPreferences" ADD COLUMN IF NOT EXISTS "openWeekdays" INTEGER[]
+  `);
+
+  console.log('Adding venueBlackouts table...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "venueBlackouts" (
+      "id" SERIAL PRIMARY KEY,
+      "venueId" INTEGER NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+      "startDate" DATE NOT NULL,
+      "endDate" DATE NOT NULL,
+      "reason" TEXT,
+      "createdById" INTEGER REFERENCES users(id),
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CHECK ("endDate" >= "startDate")
+    )
+  `);
+
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "venueBlackouts_venueId_idx" ON "venueBlackouts" ("venueId", "startDate")`);
+
+  console.log('Venue availability added');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,41 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add the venue hold ledger
+ * Ranks every artist's hold on a venue's date, with challenges and their deadlines
+ */
+async function main() {
+  console.log('Adding venueHolds table...');
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "venueHolds" (
+      "id" SERIAL PRIMARY KEY,
+      "venueId" INTEGER NOT NULL REFERENCES venues(id),
+      "date" DATE NOT NULL,
+      "tourVenueId" INTEGER NOT NULL REFERENCES "tourVenues"(id) ON DELETE CASCADE,
+      "status" TEXT NOT NULL DEFAULT 'active',
+      "rank" INTEGER,
+      "challengedById" INTEGER,
+      "challengeDeadline" TIMESTAMP,
+      "resolution" TEXT,
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      "updatedAt" TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "venueHolds_venueId_date_idx" ON "venueHolds" ("venueId", "date")`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS "venueHolds_tourVenueId_idx" ON "venueHolds" ("tourVenueId")`);
+
+  console.log('Venue hold ledger created');
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,51 @@
+import { db } from '../server/db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Add the venueMembers table that gives users a role (owner, booker, staff) at each venue
+ * Existing venues.ownerId values are backfilled as owner memberships
+ */
+async function main() {
+  console.log('Adding venueMembers table...');
+
+  await db.execute(sql`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'venueMemberRole') THEN
+        CREATE TYPE "venueMemberRole" AS ENUM ('owner', 'booker', 'staff');
+      END IF;
+    END $$;
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "venueMembers" (
+      "id" SERIAL PRIMARY KEY,
+      "venueId" INTEGER NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+      "userId" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      "role" "venueMemberRole" NOT NULL DEFAULT 'staff',
+      "createdAt" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "venueMembers_venueId_userId_unique" UNIQUE ("venueId", "userId")
+    )
+  `);
+
+  // Carry existing single-owner venues over to the membership model
+  const backfill = await db.execute(sql`
+    INSERT INTO "venueMembers" ("venueId", "userId", "role")
+    SELECT id, "ownerId", 'owner'
+    FROM venues
+    WHERE "ownerId" IS NOT NULL
+    ON CONFLICT ("venueId", "userId") DO NOTHING
+  `);
+
+  console.log(`Backfilled ${backfill.count ?? 0} venue owners`);
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,39 @@
+import { db } from '../server/db';
+import { users } from '../shared/schema';
+import { eq } from 'drizzle-orm';
+import { hashPassword, isPasswordHash } from '../server/utils/password';
+
+/**
+ * Hash any plain-text passwords left in the users table
+ * Login only accepts hashed passwords, so this must run once before
+ * disabling AUTH_DEMO_MODE on an existing database
+ */
+async function main() {
+  console.log('Hashing plain-text user passwords...');
+
+  const allUsers = await db.select({ id: users.id, password: users.password }).from(users);
+  let updated = 0;
+
+  for (const user of allUsers) {
+    if (isPasswordHash(user.password)) {
+      continue;
+    }
+
+    await db.update(users)
+      .set({ password: await hashPassword(user.password) })
+      .where(eq(users.id, user.id));
+    updated++;
+  }
+
+  console.log(`Hashed ${updated} of ${allUsers.length} user passwords`);
+}
+
+main()
+  .then(() => {
+    console.log('Migration completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  });
@@ -10,9 +10,10 @@
 import axios from 'axios';
 import cheerio from 'cheerio';
 import { db } from './db';
-import { venues, events, artists } from '../shared/schema';
-import { eq, and, sql, isNull, not, desc, like, or } from 'drizzle-orm';
+import { artists } from '../shared/schema';
+import { eq, isNull, not } from 'drizzle-orm';
 import { setTimeout } from 'timers/promises';
+import { ingestEvent } from './services/event-ingestion';
 
 // Define the structure for scraped Bandsintown event data
 export interface BandsintownEvent {
@@ -308,61 +309,29 @@ async function saveArtistEvents(artist: any, scrapedEvents: BandsintownEvent[]):
         continue;
       }
       
-      // Look for matching venue in our database
-      let venueId = null;
-      const venueResults = await db
-        .select()
-        .from(venues)
-        .where(
-          or(
-            eq(venues.name, eventData.venueName),
-            and(
-              eq(venues.city, eventData.venueCity),
-              like(venues.name, `%${eventData.venueName.substring(0, Math.min(10, eventData.venueName.length))}%`)
-            )
-          )
-        )
-        .limit(1);
-      
-      if (venueResults.length > 0) {
-        venueId = venueResults[0].id;
-      }
+      // Ingestion matches the venue by name and city and skips shows we already have
+      const result = await ingestEvent({
+        source: 'bandsintown_scraper',
+        externalId: eventData.eventUrl || null,
+        url: eventData.eventUrl || null,
+        artistId: artist.id,
+        venue: {
+          name: eventData.venueName,
+          city: eventData.venueCity,
+          region: eventData.venueRegion || null,
+          country: eventData.venueCountry || 'US'
+        },
+        date: eventData.date,
+        startTime: eventData.time,
+        ticketUrl: eventData.eventUrl || null,
+        status: 'confirmed'
+      });
       
-      // Check if event already exists
-      const existingEvents = await db
-        .select()
-        .from(events)
-        .where(
-          and(
-            eq(events.artistId, artist.id),
-            eq(events.date, eventData.date),
-            venueId ? eq(events.venueId, venueId) : sql`${events.venueName} = ${eventData.venueName}`
-          )
-        );
-      
-      if (existingEvents.length > 0) {
+      if (result.outcome !== 'created') {
         console.log(`Event already exists: ${artist.name} at ${eventData.venueName} on ${eventData.date}`);
         continue;
       }
       
-      // Insert new event
-      await db
-        .insert(events)
-        .values({
-          artistId: artist.id,
-          date: eventData.date,
-          startTime: eventData.time || '20:00', // Default to 8 PM if time not specified
-          status: 'confirmed',
-          venueId: venueId,
-          venueName: eventData.venueName,
-          venueCity: eventData.venueCity,
-          venueRegion: eventData.venueRegion || null,
-          venueCountry: eventData.venueCountry || null,
-          ticketUrl: eventData.eventUrl || null,
-          sourceName: 'bandsintown_scraper',
-          sourceId: eventData.eventUrl || `${artist.id}-${eventData.date}-${eventData.venueName}`
-        });
-      
       console.log(`Created event: ${artist.name} at ${eventData.venueName} on ${eventData.date}`);
       savedCount++;
     } catch (error) {
@@ -1,11 +1,11 @@
 
-import { OptimizedRoute } from '../../shared/utils/tour-optimizer';
+import type { OptimizationResult } from '../services/optimization/types';
 import { createHash } from 'crypto';
 
 const CACHE_TTL = 1000 * 60 * 60; // 1 hour
 
 interface CacheEntry {
-  result: OptimizedRoute;
+  result: OptimizationResult;
   timestamp: number;
 }
 
@@ -18,7 +18,7 @@ class OptimizationCache {
     return `${tourId}:${hash}`;
   }
 
-  get(tourId: number, preferences: any): OptimizedRoute | null {
+  get(tourId: number, preferences: any): OptimizationResult | null {
     const key = this.getCacheKey(tourId, preferences);
     const entry = this.cache.get(key);
     
@@ -33,7 +33,7 @@ class OptimizationCache {
     return entry.result;
   }
 
-  set(tourId: number, preferences: any, result: OptimizedRoute): void {
+  set(tourId: number, preferences: any, result: OptimizationResult): void {
     const key = this.getCacheKey(tourId, preferences);
     this.cache.set(key, {
       result,
@@ -11,10 +11,11 @@
 
 import axios from 'axios';
 import { db } from './db';
-import { venues, artists, events, artistGenres, genres, venueGenres } from '../shared/schema';
+import { venues, artists, events, eventSources, artistGenres, genres, venueGenres } from '../shared/schema';
 import { eq, and, or, sql, inArray, like, not, isNull } from 'drizzle-orm';
-import { SyncLogger } from './utils/logging';
+import { SyncLogger } from './core/sync-logger';
 import { setTimeout } from 'timers/promises';
+import { ingestEvent } from './services/event-ingestion';
 
 // Initialize logger
 const logger = new SyncLogger('ChainDataCollector');
@@ -109,7 +110,7 @@ async function getVenueEvents(venue: any) {
         .from(events)
         .where(and(
           eq(events.artistId, artist.id),
-          eq(events.sourceName, 'bandsintown'),
+          inArray(events.id, db.select({ id: eventSources.eventId }).from(eventSources).where(eq(eventSources.source, 'bandsintown'))),
           sql`date(${events.date}) >= date('now')`
         ));
       
@@ -318,53 +319,19 @@ async function createOrGetVenue(venueData: any) {
  */
 async function createOrUpdateEvent(eventData: any, artistId: number, venueId: number) {
   try {
-    // Parse date
-    const eventDate = new Date(eventData.datetime || eventData.date);
-    const dateString = eventDate.toISOString().split('T')[0];
-    const timeString = eventDate.toTimeString().split(' ')[0].substring(0, 5);
-    
-    // First check if event already exists
-    const existingEvent = await db
-      .select()
-      .from(events)
-      .where(and(
-        eq(events.venueId, venueId),
-        eq(events.artistId, artistId),
-        eq(events.date, dateString)
-      ));
-    
-    // If event exists, update it with any new information
-    if (existingEvent.length > 0) {
-      logger.info(`Event already exists: ${dateString}`);
-      
-      // Update the event with any new information
-      await db
-        .update(events)
-        .set({
-          status: eventData.status || 'confirmed',
-          ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null,
-          sourceId: eventData.id || existingEvent[0].sourceId,
-          sourceName: 'bandsintown'
-        })
-        .where(eq(events.id, existingEvent[0].id));
-      
-      return existingEvent[0];
-    }
-    
-    // Create new event
-    logger.info(`Creating new event on ${dateString}`);
-    const [newEvent] = await db.insert(events).values({
+    const result = await ingestEvent({
+      source: 'bandsintown',
+      externalId: eventData.id ? String(eventData.id) : null,
+      url: eventData.url || null,
       artistId,
       venueId,
-      date: dateString,
-      startTime: timeString || '20:00',
+      date: eventData.datetime || eventData.date,
       status: eventData.status || 'confirmed',
-      ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null,
-      sourceId: eventData.id || null,
-      sourceName: 'bandsintown'
-    }).returning();
+      ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null
+    });
     
-    return newEvent;
+    logger.info(`Event ${result.outcome}: ${result.event?.date ?? eventData.datetime}`);
+    return result.event;
   } catch (error) {
     logger.error(`Error creating/updating event: ${error}`);
     throw error;
@@ -14,8 +14,9 @@ import * as cheerio from 'cheerio';
 import { db } from './db';
 import { venues, artists, events, artistGenres, genres } from '../shared/schema';
 import { eq, and, inArray, gt, sql, or, like, not, isNull } from 'drizzle-orm';
-import { SyncLogger } from './utils/logging';
+import { SyncLogger } from './core/sync-logger';
 import { setTimeout } from 'timers/promises';
+import { ingestEvent } from './services/event-ingestion';
 
 // Initialize logger
 const logger = new SyncLogger('ChainScraper');
@@ -515,36 +516,26 @@ async function createOrGetVenue(venueName: string, venueCity: string, venueRegio
 
 /**
  * Create event in database
+ * Goes through ingestion, which reuses the event when the venue already lists the show.
  */
-async function createEvent(venueId: number, artistId: number, date: string) {
+async function createEvent(venueId: number, artistId: number, date: string, source: string, externalId?: string) {
   try {
-    // Check if event already exists
-    const existingEvent = await db
-      .select()
-      .from(events)
-      .where(and(
-        eq(events.venueId, venueId),
-        eq(events.artistId, artistId),
-        eq(events.date, date)
-      ));
-    
-    if (existingEvent.length > 0) {
-      logger.info(`Event already exists: ${date}`);
-      return existingEvent[0];
-    }
-    
-    // Create new event
-    logger.info(`Creating new event on ${date}`);
-    const [newEvent] = await db.insert(events).values({
+    const result = await ingestEvent({
+      source,
+      externalId: externalId || null,
       venueId,
       artistId,
       date,
-      status: 'confirmed',
       startTime: '20:00', // Default to 8pm
-      sourceName: 'web_scraping'
-    }).returning();
+      status: 'confirmed'
+    });
     
-    return newEvent;
+    if (result.outcome === 'skipped') {
+      logger.warn(`Skipped event on ${date}: ${result.reason}`);
+    } else {
+      logger.info(`Event on ${date} ${result.outcome}`);
+    }
+    return result.event;
   } catch (error) {
     logger.error(`Error creating event: ${error}`);
     throw error;
@@ -644,7 +635,7 @@ async function processVenueEventsScraping(venue: any, chainDepth: number = 0) {
         }
         
         // Create event
-        const event = await createEvent(venue.id, artist.id, eventDate);
+        const event = await createEvent(venue.id, artist.id, eventDate, 'web_scraping');
         if (event) eventsProcessed++;
       } catch (error) {
         logger.error(`Error processing event: ${eventData.artistName} at ${venue.name}: ${error}`);
@@ -719,7 +710,7 @@ async function processArtistEvents(artist: any, chainDepth: number = 0) {
         }
         
         // Create event
-        const event = await createEvent(venue.id, artist.id, eventDate);
+        const event = await createEvent(venue.id, artist.id, eventDate, 'bandsintown', eventData.id ? String(eventData.id) : undefined);
         if (event) eventsProcessed++;
       } catch (error) {
         logger.error(`Error processing artist event: ${error}`);
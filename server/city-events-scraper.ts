@@ -10,9 +10,12 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { db } from './db';
-import { venues, artists, events, artistGenres, genres } from '../shared/schema';
+import { venues, artists, artistGenres, genres } from '../shared/schema';
 import { eq, and, inArray, like, ilike } from 'drizzle-orm';
 import { setTimeout } from 'timers/promises';
+import { AUTO_MATCH_SCORE, scoreVenueMatch } from '../shared/utils/entity-matching';
+import { findOrCreateArtist } from './services/entity-resolution';
+import { ingestEvent } from './services/event-ingestion';
 
 // Configuration
 const MAX_CITIES = 5; // Maximum number of cities to process in one run
@@ -20,51 +23,6 @@ const EVENTS_PER_CITY = 50; // Maximum events to process per city
 
 // -- Utility functions --
 
-// Format name for better matching
-function formatName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/^the\s+/, '') // Remove "The" prefix
-    .replace(/&/g, 'and')    // Replace & with and
-    .replace(/[^\w\s]/g, '') // Remove special characters
-    .trim();
-}
-
-// Calculate similarity score between two strings (0-1)
-function similarityScore(str1: string, str2: string): number {
-  const a = formatName(str1);
-  const b = formatName(str2);
-  
-  // Exact match
-  if (a === b) return 1;
-  
-  // Contains check
-  if (a.includes(b) || b.includes(a)) {
-    const longerLength = Math.max(a.length, b.length);
-    const shorterLength = Math.min(a.length, b.length);
-    return shorterLength / longerLength * 0.9; // 90% for partial contains
-  }
-  
-  // Word-by-word matching
-  const words1 = a.split(/\s+/);
-  const words2 = b.split(/\s+/);
-  let matchedWords = 0;
-  
-  for (const word1 of words1) {
-    if (word1.length <= 2) continue; // Skip very short words
-    for (const word2 of words2) {
-      if (word2.length <= 2) continue;
-      if (word1 === word2 || word1.includes(word2) || word2.includes(word1)) {
-        matchedWords++;
-        break;
-      }
-    }
-  }
-  
-  const totalUniqueWords = new Set([...words1, ...words2]).size;
-  return totalUniqueWords > 0 ? matchedWords / totalUniqueWords * 0.8 : 0;
-}
-
 // Parse a date string into a proper DB date format (YYYY-MM-DD)
 function parseDate(dateString: string): string {
   try {
@@ -232,20 +190,13 @@ async function findMatchingVenue(scrapedVenueName: string, scrapedLocation: stri
       return null;
     }
     
-    // Calculate similarity scores for each venue
-    const scoredVenues = cityVenues.map(venue => {
-      const nameScore = similarityScore(venue.name, scrapedVenueName);
-      return {
-        venue,
-        score: nameScore
-      };
-    });
-    
-    // Sort by score (descending)
-    scoredVenues.sort((a, b) => b.score - a.score);
+    // Score each venue with the shared matcher, best first
+    const scoredVenues = cityVenues
+      .map(venue => ({ venue, score: scoreVenueMatch({ name: scrapedVenueName, city }, venue).score }))
+      .sort((a, b) => b.score - a.score);
     
     // If the best score is good enough, return that venue
-    if (scoredVenues[0] && scoredVenues[0].score > 0.5) {
+    if (scoredVenues[0] && scoredVenues[0].score >= AUTO_MATCH_SCORE) {
       console.log(`Found venue match: "${scrapedVenueName}" -> "${scoredVenues[0].venue.name}" (score: ${scoredVenues[0].score.toFixed(2)})`);
       return scoredVenues[0].venue;
     }
@@ -261,27 +212,21 @@ async function findMatchingVenue(scrapedVenueName: string, scrapedLocation: stri
 // Create or get artist and associate genres
 async function createOrGetArtist(artistName: string) {
   try {
-    // Check if artist already exists
-    const existingArtist = await db
-      .select()
-      .from(artists)
-      .where(eq(artists.name, artistName));
+    // Reuse the artist if we already have it under this or a similar name
+    const { artist: newArtist, created } = await findOrCreateArtist({
+      name: artistName,
+      popularity: Math.floor(Math.random() * 50) + 30, // Random popularity 30-80
+      description: `${artistName} is an artist we found through city event listings.`
+    }, 'city-events-scraper');
     
-    if (existingArtist.length > 0) {
+    if (!created) {
       console.log(`Artist already exists: ${artistName}`);
-      return existingArtist[0];
+      return newArtist;
     }
     
-    // Create new artist
-    console.log(`Creating new artist: ${artistName}`);
-    
     // For new artists, assign "indie rock" as the default genre
     // This is a simplification - in production, you'd want to get real genre data
-    const [newArtist] = await db.insert(artists).values({
-      name: artistName,
-      popularity: Math.floor(Math.random() * 50) + 30, // Random popularity 30-80
-      description: `${artistName} is an artist we found through city event listings.`
-    }).returning();
+    console.log(`Created new artist: ${artistName}`);
     
     // Get the indie rock genre
     const indieRockGenre = await db
@@ -304,36 +249,20 @@ async function createOrGetArtist(artistName: string) {
   }
 }
 
-// Create event in database
+// Create event in database, through ingestion so shows we already have are reused
 async function createEvent(venueId: number, artistId: number, date: string) {
   try {
-    // Check if event already exists
-    const existingEvent = await db
-      .select()
-      .from(events)
-      .where(and(
-        eq(events.venueId, venueId),
-        eq(events.artistId, artistId),
-        eq(events.date, date)
-      ));
-    
-    if (existingEvent.length > 0) {
-      console.log(`Event already exists: ${date}`);
-      return existingEvent[0];
-    }
-    
-    // Create new event
-    console.log(`Creating new event on ${date}`);
-    const [newEvent] = await db.insert(events).values({
+    const result = await ingestEvent({
+      source: 'web_scraping',
       venueId,
       artistId,
       date,
-      status: 'confirmed',
       startTime: '20:00', // Default to 8pm
-      sourceName: 'web_scraping'
-    }).returning();
+      status: 'confirmed'
+    });
     
-    return newEvent;
+    console.log(result.outcome === 'created' ? `Created new event on ${date}` : `Event already exists: ${date}`);
+    return result.event;
   } catch (error) {
     console.error(`Error creating event:`, error);
     throw error;
@@ -2,6 +2,7 @@ import { db } from './db';
 import { tours, tourVenues, venues, artists } from '../shared/schema';
 import { eq } from 'drizzle-orm';
 import { calculateInitialTourScore } from '../shared/utils/initial-tour-score';
+import { buildTravelMatrix } from './services/travel-matrix';
 
 /**
  * Clear all existing tours and create new demo tours
@@ -503,9 +504,14 @@ async function calculateAndSetInitialScores(tourIds: number[]) {
         venue: record.venue
       }));
       
-      // Calculate the initial score
+      // Calculate the initial score with the configured travel matrix
+      const travel = await buildTravelMatrix(
+        venuesForScoring.flatMap(tourVenue => tourVenue.venue
+          ? [{ venueId: tourVenue.venue.id, latitude: tourVenue.venue.latitude, longitude: tourVenue.venue.longitude }]
+          : [])
+      );
       const { optimizationScore, totalDistance, totalTravelTime } = 
-        calculateInitialTourScore(venuesForScoring);
+        calculateInitialTourScore(venuesForScoring, travel);
       
       // Update the tour with the initial score
       await db
@@ -1,8 +1,9 @@
 import { db } from '../db';
-import { venues, artists, events as eventsTable } from '../../shared/schema';
+import { venues, artists } from '../../shared/schema';
 import { eq } from 'drizzle-orm';
 import axios from 'axios';
 import { SyncLogger } from './sync-logger';
+import { ingestEvent } from '../services/event-ingestion';
 
 interface ConcertsVenue {
   id: string;
@@ -241,17 +242,16 @@ export class ConcertsApiSeeder {
           stats.venues++;
 
           // Add event to events table
-          await db.insert(eventsTable).values({
+          const result = await ingestEvent({
+            source: 'concerts-api',
+            externalId: String(event.id),
             artistId,
             venueId,
-            date: event.datetime.split('T')[0],
-            startTime: event.datetime.split('T')[1].substring(0, 5),
-            status: event.status || 'confirmed',
-            sourceId: event.id,
-            sourceName: 'concerts-api'
+            date: event.datetime,
+            status: event.status || 'confirmed'
           });
 
-          stats.events++;
+          if (result.outcome === 'created') stats.events++;
           this.logger.log(`Added event on ${event.datetime.split('T')[0]}`);
         } catch (error) {
           this.logger.log(`Failed to process event: ${error}`, 'error');
@@ -2,6 +2,8 @@ import { db } from '../db';
 import { users, venues, venueNetwork, events, artists, tours, tourVenues } from '../../shared/schema';
 import { eq, and } from 'drizzle-orm';
 import { SyncLogger } from './sync-logger';
+import { ingestEvent } from '../services/event-ingestion';
+import { throttle } from '../services/rate-limits';
 import axios from 'axios';
 import { setTimeout } from 'timers/promises';
 
@@ -44,7 +46,6 @@ interface EventData {
 export class SeedManager {
   private logger: SyncLogger;
   private apiKey: string;
-  private rateLimitDelay = 1000; // 1 second between API calls
 
   constructor() {
     this.logger = new SyncLogger('SeedManager');
@@ -55,11 +56,11 @@ export class SeedManager {
 
   private async makeApiRequest<T>(url: string): Promise<T> {
     try {
+      await throttle('bandsintown');
       const response = await axios.get(url, {
         params: { app_id: this.apiKey },
         headers: { 'Accept': 'application/json' }
       });
-      await setTimeout(this.rateLimitDelay); // Rate limiting
       return response.data;
     } catch (error: any) {
       if (error.response?.status === 429) {
@@ -235,14 +236,14 @@ export class SeedManager {
         const eventDate = new Date();
         eventDate.setDate(eventDate.getDate() + Math.floor(Math.random() * 30));
         
-        await db.insert(events).values({
+        await ingestEvent({
+          source: 'seed',
+          externalId: `seed-${venue.id}-${artist.id}`,
           artistId: artist.id,
           venueId: venue.id,
-          date: eventDate.toISOString().split('T')[0],
+          date: eventDate,
           startTime: '20:00',
-          status: 'confirmed',
-          sourceId: `seed-${venue.id}-${artist.id}`,
-          sourceName: 'seed'
+          status: 'confirmed'
         });
       }
     }
@@ -318,28 +319,21 @@ export class SeedManager {
         return;
       }
 
-      // Check if event exists
-      const existingEvent = await db.select()
-        .from(events)
-        .where(eq(events.sourceId, eventData.sourceId))
-        .limit(1);
+      const result = await ingestEvent({
+        source: 'bandsintown',
+        externalId: eventData.sourceId,
+        artistId: artist.id,
+        venueId: venue.id,
+        date: eventData.datetime,
+        status: eventData.status || 'confirmed'
+      });
 
-      if (existingEvent.length) {
+      if (result.outcome !== 'created') {
         stats.duplicates++;
         this.logger.log(`Event already exists for ${artist.name} at ${venue.name}, skipping...`);
         return;
       }
 
-      await db.insert(events).values({
-        artistId: artist.id,
-        venueId: venue.id,
-        date: eventDate.toISOString().split('T')[0],
-        startTime: eventDate.toTimeString().split(' ')[0].substring(0, 5),
-        status: eventData.status || 'confirmed',
-        sourceId: eventData.sourceId,
-        sourceName: 'bandsintown'
-      });
-
       stats.totalEvents++;
       this.logger.log(`Added event: ${artist.name} at ${venue.name}`);
     } catch (error) {
@@ -1,6 +1,10 @@
+/**
+ * Logger for synchronization and data collection processes
+ * Writes timestamped lines to the console. What a run did is recorded as a sync run
+ * (server/services/sync-runs.ts), not in the log.
+ */
 
-import { db } from '../db';
-import { sql } from 'drizzle-orm';
+export type SyncLogLevel = 'debug' | 'info' | 'warning' | 'error';
 
 export class SyncLogger {
   private context: string;
@@ -9,48 +13,43 @@ export class SyncLogger {
     this.context = context;
   }
 
-  async log(message: string, level: 'info' | 'error' | 'warning' = 'info') {
-    console.log(`[${this.context}] ${message}`);
-
-    try {
-      // Create table if it doesn't exist with proper schema
-      await db.execute(sql`
-        CREATE TABLE IF NOT EXISTS "syncLogs" (
-          id SERIAL PRIMARY KEY,
-          context VARCHAR NOT NULL,
-          "logMessage" TEXT NOT NULL,
-          "createdAt" TIMESTAMP DEFAULT NOW()
-        );
-      `);
-
-      // Insert the log message
-      await db.execute(sql`
-        INSERT INTO "syncLogs" (context, "logMessage", "createdAt")
-        VALUES (${this.context}, ${message}, NOW());
-      `);
-    } catch (error: any) {
-      console.error('Error writing to syncLogs:', error);
-      
-      // If table doesn't exist, try to create it
-      if (error.code === '42P01') { // relation does not exist
-        try {
-          await db.execute(sql`
-            CREATE TABLE IF NOT EXISTS "syncLogs" (
-              id SERIAL PRIMARY KEY,
-              context VARCHAR NOT NULL,
-              "logMessage" TEXT NOT NULL,
-              "createdAt" TIMESTAMP DEFAULT NOW()
-            );
-          `);
-          // Try inserting again after table creation
-          await db.execute(sql`
-            INSERT INTO "syncLogs" (context, "logMessage", "createdAt")
-            VALUES (${this.context}, ${message}, NOW());
-          `);
-        } catch (createError) {
-          console.error('Failed to create syncLogs table:', createError);
-        }
-      }
+  log(message: string, level: SyncLogLevel = 'info'): void {
+    const line = `${new Date().toISOString()} [${this.context}] ${level.toUpperCase()}: ${message}`;
+
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warning') {
+      console.warn(line);
+    } else {
+      console.log(line);
     }
   }
+
+  /**
+   * Log an informational message
+   */
+  info(message: string): void {
+    this.log(message, 'info');
+  }
+
+  /**
+   * Log a warning message
+   */
+  warn(message: string): void {
+    this.log(message, 'warning');
+  }
+
+  /**
+   * Log an error message
+   */
+  error(message: string): void {
+    this.log(message, 'error');
+  }
+
+  /**
+   * Log a debug message
+   */
+  debug(message: string): void {
+    this.log(message, 'debug');
+  }
 }
@@ -1,13 +1,14 @@
 import { db } from '../db';
-import { events, artists, venues } from '@shared/schema';
+import { artists, venues } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import axios from 'axios';
 import { setTimeout } from 'timers/promises';
 import { SyncLogger } from './sync-logger';
+import { ingestEvent } from '../services/event-ingestion';
+import { throttle } from '../services/rate-limits';
 
 export class SyncManager {
   private apiKey: string;
-  private rateLimitDelay = 1000; // 1 second between API calls
   private stats = {
     eventsUpdated: 0,
     artistsUpdated: 0,
@@ -26,6 +27,7 @@ export class SyncManager {
   private async makeApiRequest<T>(url: string): Promise<T> {
     try {
       this.logger.log(`Making API request to: ${url}`, 'info');
+      await throttle('bandsintown');
       const response = await axios.get(url, {
         params: { app_id: this.apiKey },
         headers: {
@@ -33,7 +35,6 @@ export class SyncManager {
           'User-Agent': 'VenueNetwork/1.0'
         }
       });
-      await setTimeout(this.rateLimitDelay);
       return response.data;
     } catch (error: any) {
       if (error.response?.status === 429) {
@@ -71,31 +72,15 @@ export class SyncManager {
   async syncEvent(eventData: any) {
     try {
       const artist = await this.syncArtist(eventData.artist);
-      const eventDate = new Date(eventData.datetime);
 
-      const [existingEvent] = await db.select()
-        .from(events)
-        .where(eq(events.sourceId, eventData.id));
-
-      if (existingEvent) {
-        await db.update(events)
-          .set({
-            status: eventData.status || 'confirmed',
-            lastSyncedAt: new Date()
-          })
-          .where(eq(events.id, existingEvent.id));
-      } else {
-        await db.insert(events).values({
-          artistId: artist.id,
-          venueId: eventData.venue.id,
-          date: eventDate.toISOString().split('T')[0],
-          startTime: eventDate.toTimeString().split(' ')[0].substring(0, 5),
-          status: eventData.status || 'confirmed',
-          sourceId: eventData.id,
-          sourceName: 'bandsintown',
-          lastSyncedAt: new Date()
-        });
-      }
+      await ingestEvent({
+        source: 'bandsintown',
+        externalId: String(eventData.id),
+        artistId: artist.id,
+        venueId: eventData.venue.id,
+        date: eventData.datetime,
+        status: eventData.status || 'confirmed'
+      });
 
       this.stats.eventsUpdated++;
     } catch (error) {
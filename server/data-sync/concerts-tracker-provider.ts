@@ -1,7 +1,9 @@
 import axios from 'axios';
 import { EventProvider, SyncOptions } from './event-provider';
+import type { EventRecord } from '../services/event-ingestion';
 
 export class ConcertsTrackerProvider implements EventProvider {
+  readonly source = 'concerts-tracker';
   private apiKey: string;
   private baseUrl = 'https://concerts-artists-events-tracker.p.rapidapi.com';
 
@@ -9,7 +11,7 @@ export class ConcertsTrackerProvider implements EventProvider {
     this.apiKey = apiKey;
   }
 
-  async getArtistEvents(artistName: string, options?: SyncOptions): Promise<any[]> {
+  async getArtistEvents(artistName: string, options?: SyncOptions): Promise<EventRecord[]> {
     try {
       const response = await axios.get(`${this.baseUrl}/search`, {
         params: {
@@ -23,14 +25,14 @@ export class ConcertsTrackerProvider implements EventProvider {
         timeout: 60000 // 60 second timeout
       });
 
-      return response.data.data || [];
+      return this.mapEvents(response.data.data || [], artistName);
     } catch (error) {
       console.error('Error fetching artist events:', error);
       return [];
     }
   }
 
-  async getVenueEvents(venueId: string, options?: SyncOptions): Promise<any[]> {
+  async getVenueEvents(venueId: string, options?: SyncOptions): Promise<EventRecord[]> {
     try {
       const response = await axios.get(`${this.baseUrl}/search`, {
         params: {
@@ -44,7 +46,7 @@ export class ConcertsTrackerProvider implements EventProvider {
         timeout: 60000 // 60 second timeout
       });
 
-      return response.data.data || [];
+      return this.mapEvents(response.data.data || []);
     } catch (error) {
       console.error('Error fetching venue events:', error);
       return [];
@@ -71,4 +73,30 @@ export class ConcertsTrackerProvider implements EventProvider {
       return [];
     }
   }
-}
\ No newline at end of file
+
+  // Events without a venue can't be placed, so they are left out
+  private mapEvents(events: any[], artistName?: string): EventRecord[] {
+    return events
+      .filter(event => event.starts_at && event.venue?.name)
+      .map(event => ({
+        source: this.source,
+        externalId: String(event.id),
+        url: event.url || null,
+        artist: {
+          name: event.artist?.name || artistName || event.name,
+          imageUrl: event.artist?.image || null,
+          popularity: event.artist?.tracker_count || 50
+        },
+        venue: {
+          name: event.venue.name,
+          city: event.venue.city || '',
+          region: event.venue.state || null,
+          country: event.venue.country || 'US',
+          latitude: event.venue.latitude || null,
+          longitude: event.venue.longitude || null
+        },
+        date: event.starts_at,
+        status: event.status || 'confirmed'
+      }));
+  }
+}
@@ -1,7 +1,16 @@
+import { ingestEvents, type EventRecord, type IngestSummary } from '../services/event-ingestion';
+import type { SyncRunRecorder } from '../services/sync-runs';
 
+/**
+ * A searchable source of shows
+ * Providers return their events as ingestion records, so every provider's events are
+ * matched, linked and resolved the same way as scraped and webhook events.
+ */
 export interface EventProvider {
-  getArtistEvents(artistName: string, options?: SyncOptions): Promise<any[]>;
-  getVenueEvents(venueId: string, options?: SyncOptions): Promise<any[]>;
+  // Source name recorded in eventSources, see DEFAULT_SOURCE_PRECEDENCE
+  readonly source: string;
+  getArtistEvents(artistName: string, options?: SyncOptions): Promise<EventRecord[]>;
+  getVenueEvents(venueId: string, options?: SyncOptions): Promise<EventRecord[]>;
   searchVenues(query: string, options?: SyncOptions): Promise<any[]>;
 }
 
@@ -15,3 +24,20 @@ export interface SyncOptions {
   };
   limit?: number;
 }
+
+/**
+ * Fetch an artist's events from a provider and ingest them
+ * @param run The sync run to record the events in
+ */
+export async function syncArtistEvents(provider: EventProvider, artistName: string, options?: SyncOptions, run?: SyncRunRecorder): Promise<IngestSummary> {
+  return ingestEvents(await provider.getArtistEvents(artistName, options), run);
+}
+
+/**
+ * Fetch a venue's events from a provider and ingest them
+ * @param venueId The provider's ID for the venue
+ * @param run The sync run to record the events in
+ */
+export async function syncVenueEvents(provider: EventProvider, venueId: string, options?: SyncOptions, run?: SyncRunRecorder): Promise<IngestSummary> {
+  return ingestEvents(await provider.getVenueEvents(venueId, options), run);
+}
@@ -1,6 +1,7 @@
 
 import axios from 'axios';
 import { EventProvider, SyncOptions } from './event-provider';
+import type { EventRecord } from '../services/event-ingestion';
 
 interface PredictHQEvent {
   id: string;
@@ -22,6 +23,7 @@ interface PredictHQEvent {
 }
 
 export class PredictHQProvider implements EventProvider {
+  readonly source = 'predicthq';
   private apiKey: string;
   private baseUrl = 'https://api.predicthq.com/v1';
 
@@ -38,7 +40,7 @@ export class PredictHQProvider implements EventProvider {
     });
 
     const response = await this.makeRequest('/events/', params);
-    return this.mapEvents(response.results);
+    return this.mapEvents(response.results, artistName);
   }
 
   async getVenueEvents(venueId: string, options?: SyncOptions) {
@@ -65,26 +67,28 @@ export class PredictHQProvider implements EventProvider {
     return this.mapVenues(response.results);
   }
 
-  private mapEvents(events: PredictHQEvent[]) {
-    return events.map(event => ({
-      sourceId: event.id,
-      sourceName: 'predicthq',
-      name: event.title,
-      description: event.description,
-      date: event.start.split('T')[0],
-      startTime: event.start.split('T')[1].substring(0, 5),
-      status: 'confirmed',
-      predictedAttendance: event.predicted_attendance,
-      venue: event.venue ? {
-        name: event.venue.name,
-        latitude: event.venue.location[0],
-        longitude: event.venue.location[1],
-        address: event.venue.address,
-        city: event.venue.city,
-        country: event.venue.country
-      } : null,
-      genres: event.labels || []
-    }));
+  // PredictHQ names the performer only in the title; events without a venue are left out
+  private mapEvents(events: PredictHQEvent[], artistName?: string): EventRecord[] {
+    return events
+      .filter(event => event.venue)
+      .map(event => ({
+        source: this.source,
+        externalId: event.id,
+        artist: {
+          name: artistName || event.title,
+          description: event.description
+        },
+        venue: {
+          name: event.venue!.name,
+          latitude: event.venue!.location[0],
+          longitude: event.venue!.location[1],
+          address: event.venue!.address,
+          city: event.venue!.city || '',
+          country: event.venue!.country
+        },
+        date: event.start,
+        status: 'confirmed'
+      }));
   }
 
   private mapVenues(venues: any[]) {
@@ -1,6 +1,8 @@
 import dotenv from 'dotenv';
 import { syncVenuesFromBandsInTown, syncArtistEventsFromBandsInTown } from './bands-in-town-sync';
 import { PredictHQProvider } from './predict-hq-provider';
+import { syncArtistEvents } from './event-provider';
+import { withSyncRun } from '../services/sync-runs';
 
 const PREDICTHQ_ENABLED = process.env.PREDICTHQ_API_KEY ? true : false;
 const predictHQProvider = PREDICTHQ_ENABLED ? new PredictHQProvider(process.env.PREDICTHQ_API_KEY!) : null;
@@ -17,6 +19,9 @@ dotenv.config();
  * 
  * Usage for artist events sync:
  * - Manual: npx tsx server/data-sync/sync-runner.ts artist "Artist Name"
+ *
+ * Usage for PredictHQ artist events sync (needs PREDICTHQ_API_KEY):
+ * - Manual: npx tsx server/data-sync/sync-runner.ts predicthq "Artist Name"
  * 
  * Scheduled examples:
  * - npx tsx server/data-sync/sync-runner.ts artist "The Black Keys"
@@ -27,7 +32,7 @@ async function run() {
     const command = process.argv[2];
     
     if (!command) {
-      console.error('Command required: Use "venues" or "artist"');
+      console.error('Command required: Use "venues", "artist" or "predicthq"');
       process.exit(1);
     }
     
@@ -60,9 +65,30 @@ async function run() {
       
       console.log(`Sync complete. Added/updated ${syncedEvents.length} events for "${artistName}".`);
     }
+    else if (command === 'predicthq') {
+      const artistName = process.argv[3];
+
+      if (!predictHQProvider || !artistName) {
+        console.error('PREDICTHQ_API_KEY and an artist name are required');
+        process.exit(1);
+      }
+
+      console.log(`Starting artist events sync from PredictHQ for "${artistName}"`);
+
+      const summary = await withSyncRun({
+        source: 'predicthq',
+        operation: 'artist-events',
+        retry: { type: 'predicthq-artist-events', payload: { artistName } }
+      }, run => syncArtistEvents(predictHQProvider, artistName, undefined, run));
+
+      console.log(`Sync complete. ${summary.created} created, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.skipped} skipped for "${artistName}".`);
+      if (summary.errors.length > 0) {
+        console.error(`${summary.errors.length} events failed:\n${summary.errors.join('\n')}`);
+      }
+    }
     else {
       console.error(`Unknown command: ${command}`);
-      console.error('Use "venues" or "artist"');
+      console.error('Use "venues", "artist" or "predicthq"');
       process.exit(1);
     }
     
@@ -11,6 +11,7 @@ import { db } from './db';
 import { venues, artists, events, artistGenres, genres } from '../shared/schema';
 import { eq, and, inArray, like, ilike, desc, sql } from 'drizzle-orm';
 import { setTimeout } from 'timers/promises';
+import { ingestEvent } from './services/event-ingestion';
 
 // Configuration
 const VENUES_TO_PROCESS = 10; // Number of venues to process 
@@ -164,16 +165,16 @@ async function createVenueEvents(venue: any) {
       
       // Create event
       console.log(`Creating event: ${artist.name} at ${venue.name} on ${eventDate}`);
-      const [newEvent] = await db.insert(events).values({
+      const result = await ingestEvent({
+        source: 'direct_entry',
         venueId: venue.id,
         artistId: artist.id,
         date: eventDate,
-        status: 'confirmed',
         startTime: '20:00', // Default to 8pm
-        sourceName: 'direct_entry'
-      }).returning();
+        status: 'confirmed'
+      });
       
-      if (newEvent) eventsCreated++;
+      if (result.outcome === 'created') eventsCreated++;
     }
     
     return {
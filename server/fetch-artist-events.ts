@@ -10,7 +10,8 @@
 
 import axios from 'axios';
 import { db } from './db';
-import { artists, venues, events, artistGenres, genres } from '../shared/schema';
+import { ingestEvent } from './services/event-ingestion';
+import { artists, venues, artistGenres, genres } from '../shared/schema';
 import { eq, and, like, ilike, or, sql } from 'drizzle-orm';
 import { setTimeout } from 'timers/promises';
 
@@ -119,33 +120,18 @@ async function findMatchingVenue(venueName: string, venueCity: string, venueRegi
 // Create event in database
 async function createEvent(venueId: number, artistId: number, date: string, time: string = '20:00', status: string = 'confirmed') {
   try {
-    // Check if event already exists
-    const existingEvent = await db
-      .select()
-      .from(events)
-      .where(and(
-        eq(events.venueId, venueId),
-        eq(events.artistId, artistId),
-        eq(events.date, date)
-      ));
-    
-    if (existingEvent.length > 0) {
-      console.log(`Event already exists: ${date}`);
-      return existingEvent[0];
-    }
-    
-    // Create new event
-    console.log(`Creating new event on ${date}`);
-    const [newEvent] = await db.insert(events).values({
+    // Ingestion reuses the event when the venue already has the show
+    const result = await ingestEvent({
+      source: 'bandsintown',
       venueId,
       artistId,
       date,
-      status,
       startTime: time,
-      sourceName: 'bandsintown'
-    }).returning();
+      status
+    });
     
-    return newEvent;
+    console.log(result.outcome === 'created' ? `Created new event on ${date}` : `Event already exists: ${date}`);
+    return result.event;
   } catch (error) {
     console.error(`Error creating event:`, error);
     throw error;
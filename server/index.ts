@@ -1,14 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import session from "express-session";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
 import { users, venues } from "../shared/schema";
 import path from "path";
 import { Server } from "http";
-import adminRouter from './routes/admin';
 import seedingRouter from './routes/seeding-routes'; // Added import for seeding routes
+import { isAuthenticated, hasRole, isDemoMode } from './middleware/auth-middleware';
+import { sessionMiddleware } from './middleware/session-middleware';
 
 // Session type is defined in auth-middleware.ts
 
@@ -21,23 +21,13 @@ app.get('/api/health', (_, res) => {
   res.status(200).json({ status: 'healthy', timestamp: new Date().toISOString() });
 });
 
-// Set up session middleware with fallback secret for development
-const sessionSecret = process.env.SESSION_SECRET || 'venue-discovery-default-secret';
-app.use(session({
-  secret: sessionSecret,
-  resave: false,
-  saveUninitialized: false,
-  cookie: { 
-    secure: process.env.NODE_ENV === 'production',
-    maxAge: 24 * 60 * 60 * 1000 // 24 hours
-  }
-}));
+app.use(sessionMiddleware);
 
-// Authentication middleware - disabled for demo purposes
-app.use(async (req, res, next) => {
-  // All routes are public for the demo
-  return next();
-});
+// Authentication is enforced per router (see registerRoutes)
+// Set AUTH_DEMO_MODE=true to sign every request in as the demo user
+if (isDemoMode()) {
+  log('AUTH_DEMO_MODE is enabled - authentication checks are bypassed');
+}
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -109,5 +99,4 @@ app.use((req, res, next) => {
 })();
 
 // Added routes for seeding
-app.use('/api/admin', adminRouter);
-app.use('/api/admin', seedingRouter);
\ No newline at end of file
+app.use('/api/admin', isAuthenticated, hasRole('admin'), seedingRouter);
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { rolePermissions, type Permission, type VenueMemberRole } from '../../shared/schema';
 
 // Define the session user type
-interface SessionUser {
+export interface SessionUser {
   id: number;
   name: string;
   role: string;
@@ -18,58 +20,197 @@ declare module 'express-session' {
 }
 
 /**
- * Middleware to check if user is authenticated
- * In demo mode, this middleware is disabled and allows all requests
+ * User attached to the session when demo mode is enabled
  */
-export function isAuthenticated(req: Request, res: Response, next: NextFunction) {
-  // Demo mode: always pass through authentication
-  return next();
+export const DEMO_USER: SessionUser = {
+  id: 1,
+  name: 'Demo User',
+  role: 'admin'
+};
+
+/**
+ * Demo mode bypasses credential checks and signs every request in as DEMO_USER
+ * It is only enabled by setting AUTH_DEMO_MODE=true
+ */
+export function isDemoMode(): boolean {
+  return process.env.AUTH_DEMO_MODE === 'true';
 }
 
 /**
- * Simple role-permission mapping
+ * Check whether a role grants a permission according to the rolePermissions matrix
+ * @param role The user's role
+ * @param permission The permission to check
  */
-const rolePermissions: Record<string, string[]> = {
-  admin: ['canManageUsers', 'canManageVenues', 'canManageArtists', 'canManageTours', 'canViewAnalytics', 'canSendMessages', 'canViewAllVenueData', 'canCreateWebhooks'],
-  venue_manager: ['canManageVenues', 'canManageTours', 'canViewAnalytics', 'canSendMessages', 'canCreateWebhooks'],
-  artist_manager: ['canManageArtists', 'canManageTours', 'canViewAnalytics', 'canSendMessages', 'canCreateWebhooks'],
-  booking_agent: ['canManageTours', 'canViewAnalytics', 'canSendMessages'],
-  staff: ['canSendMessages'],
-  user: []
-};
+export function roleHasPermission(role: string, permission: Permission): boolean {
+  const permissions = rolePermissions[role as keyof typeof rolePermissions];
+  return permissions ? permissions[permission] === true : false;
+}
+
+/**
+ * Middleware to check if user is authenticated
+ * In demo mode, the demo user is attached to the session instead
+ */
+export function isAuthenticated(req: Request, res: Response, next: NextFunction) {
+  if (req.session?.user) {
+    return next();
+  }
+
+  if (isDemoMode()) {
+    req.session.user = DEMO_USER;
+    return next();
+  }
+
+  return res.status(401).json({
+    success: false,
+    message: 'Authentication required'
+  });
+}
 
 /**
  * Middleware to check if user has a specific permission
- * In demo mode, this middleware is disabled and allows all requests
+ * Must be used after isAuthenticated
  * @param permission The permission to check
  */
-export function hasPermission(permission: string) {
+export function hasPermission(permission: Permission) {
   return (req: Request, res: Response, next: NextFunction) => {
-    // Demo mode: always pass through permission check
+    const user = req.session.user;
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    if (!roleHasPermission(user.role, permission)) {
+      return res.status(403).json({
+        success: false,
+        message: `Missing permission: ${permission}`
+      });
+    }
+
     return next();
   };
 }
 
+/**
+ * Venue member roles that may change a venue's bookings, events and preferences
+ */
+export const VENUE_EDITOR_ROLES: VenueMemberRole[] = ['owner', 'booker'];
+
+/**
+ * Check whether a user may act on a venue
+ * Users with canViewAllVenueData can access any venue, other users need a venueMembers row
+ * @param user The session user
+ * @param venueId The venue to check
+ * @param memberRoles Venue member roles that are allowed (defaults to any membership)
+ */
+export async function checkVenueAccess(
+  user: SessionUser,
+  venueId: number,
+  memberRoles?: VenueMemberRole[]
+): Promise<boolean> {
+  if (roleHasPermission(user.role, 'canViewAllVenueData')) {
+    return true;
+  }
+
+  const membership = await storage.getVenueMembership(venueId, user.id);
+
+  if (!membership) {
+    return false;
+  }
+
+  return !memberRoles || memberRoles.includes(membership.role);
+}
+
+/**
+ * Check whether a user may act on a tour
+ * Users with canViewAllVenueData can access any tour, other users need to manage the
+ * tour's artist (users.artistId)
+ * @param user The session user
+ * @param tourId The tour to check
+ */
+export async function checkTourAccess(user: SessionUser, tourId: number): Promise<boolean> {
+  if (roleHasPermission(user.role, 'canViewAllVenueData')) {
+    return true;
+  }
+
+  const [tour, account] = await Promise.all([storage.getTour(tourId), storage.getUser(user.id)]);
+
+  return !!tour && !!account?.artistId && account.artistId === tour.artistId;
+}
+
 /**
  * Middleware to check if user has access to a specific venue
- * In demo mode, this middleware is disabled and allows all requests
+ * The venue ID is read from the route params, then the request body, then the session's current venue
+ * Must be used after isAuthenticated
  * @param paramName The parameter name containing the venue ID (defaults to 'venueId')
+ * @param memberRoles Venue member roles that are allowed (defaults to any membership)
  */
-export function hasVenueAccess(paramName: string = 'venueId') {
-  return (req: Request, res: Response, next: NextFunction) => {
-    // Demo mode: always pass through venue access check
-    return next();
+export function hasVenueAccess(paramName: string = 'venueId', memberRoles?: VenueMemberRole[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = req.session.user;
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const rawVenueId = req.params[paramName] ?? req.body?.[paramName] ?? req.session.currentVenueId;
+    const venueId = parseInt(String(rawVenueId));
+
+    if (isNaN(venueId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Venue ID is required'
+      });
+    }
+
+    try {
+      if (!(await checkVenueAccess(user, venueId, memberRoles))) {
+        return res.status(403).json({
+          success: false,
+          message: 'You do not have access to this venue'
+        });
+      }
+
+      return next();
+    } catch (error) {
+      console.error('Error checking venue access:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to verify venue access'
+      });
+    }
   };
 }
 
 /**
  * Middleware to check if user has a specific role
- * In demo mode, this middleware is disabled and allows all requests
+ * Must be used after isAuthenticated
  * @param roles Array of allowed roles
  */
 export function hasRole(roles: string | string[]) {
   return (req: Request, res: Response, next: NextFunction) => {
-    // Demo mode: always pass through role check
+    const user = req.session.user;
+    const allowedRoles = Array.isArray(roles) ? roles : [roles];
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    if (!allowedRoles.includes(user.role)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Insufficient role for this action'
+      });
+    }
+
     return next();
   };
-}
\ No newline at end of file
+}
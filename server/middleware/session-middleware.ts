@@ -0,0 +1,18 @@
+import session from 'express-session';
+
+// Set up session middleware with fallback secret for development
+const sessionSecret = process.env.SESSION_SECRET || 'venue-discovery-default-secret';
+
+/**
+ * Session middleware shared by the Express app and the realtime WebSocket upgrade,
+ * so both resolve the same signed-in user from the session cookie
+ */
+export const sessionMiddleware = session({
+  secret: sessionSecret,
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: 24 * 60 * 60 * 1000 // 24 hours
+  }
+});
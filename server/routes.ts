@@ -2,6 +2,12 @@
 import { Router } from 'express';
 import { createServer } from 'http';
 import tourRoutes from './routes/tour-routes';
+import tourFinanceRoutes from './routes/tour-finance-routes';
+import daySheetRoutes from './routes/day-sheet-routes';
+import radiusClauseRoutes from './routes/radius-clause-routes';
+import holdRoutes from './routes/hold-routes';
+import venueAvailabilityRoutes from './routes/venue-availability-routes';
+import calendarFeedRoutes from './routes/calendar-feed-routes';
 import documentationRoutes from './routes/documentation-routes';
 import userRoutes from './routes/user-routes';
 import authRoutes from './routes/auth-routes';
@@ -11,14 +17,24 @@ import dashboardRoutes from './routes/dashboard-routes';
 import venueNetworkRoutes from './routes/venue-network-routes';
 import tourRouteOptimizationRouter from './routes/tour-route-optimization-fixed';
 import tourOptimizationEnhancedRouter from './routes/tour-optimization-enhanced';
-import { aiOptimizationRouter } from './routes/ai-tour-optimizer';
-import { unifiedOptimizerRouter } from './routes/unified-tour-optimizer';
+import optimizationRoutes from './routes/optimization-routes';
 import searchRoutes from './routes/search-new';
 import webhookRoutes from './webhooks/webhook-routes';
 import adminRoutes from './routes/admin';
 import aiEnhancementRoutes from './routes/ai-enhancement';
 import eventSeedingRoutes from './routes/event-seeding';
 import venueImportRoutes from './routes/venue-import';
+import messageRoutes from './routes/message-routes';
+import inquiryRoutes from './routes/inquiry-routes';
+import collaborativeOpportunityRoutes from './routes/collaborative-opportunity-routes';
+import predictionRoutes from './routes/prediction-routes';
+import entityMatchRoutes from './routes/entity-match-routes';
+import jobRoutes from './routes/job-routes';
+import syncRunRoutes from './routes/sync-run-routes';
+import webhookSubscriptionRoutes from './routes/webhook-subscription-routes';
+import { realtime } from './services/realtime';
+import { isJobWorkerEnabled, jobWorker } from './services/job-queue';
+import { isAuthenticated, hasPermission, hasRole } from './middleware/auth-middleware';
 import { type Express } from 'express';
 import { type Server } from 'http';
 
@@ -30,12 +46,21 @@ export function registerRoutes(app: Express): Server {
   // Search routes for events, artists, and genres (register first to take precedence)
   app.use('/api', searchRoutes);
   
-  app.use('/api/tours', tourRoutes);
+  app.use('/api/tours', isAuthenticated, tourRoutes);
+  // Tour budgets, show deals and settlements
+  app.use('/api/tours', isAuthenticated, tourFinanceRoutes);
+  // Day sheets and itinerary books as PDF or printable HTML
+  app.use('/api/tours', isAuthenticated, daySheetRoutes);
+  app.use('/api/radius-clauses', isAuthenticated, radiusClauseRoutes);
+  app.use('/api/holds', isAuthenticated, holdRoutes);
+  app.use('/api/venue-availability', isAuthenticated, venueAvailabilityRoutes);
+  // iCal feeds authenticate with their token; managing feeds and importing require a session
+  app.use('/api/calendar', calendarFeedRoutes);
   app.use('/api/documentation', documentationRoutes);
-  app.use('/api/tour-optimization', tourRouteOptimizationRouter);
-  app.use('/api/tour-optimization-enhanced', tourOptimizationEnhancedRouter);
-  app.use('/api/ai-optimization', aiOptimizationRouter);
-  app.use('/api/unified-optimizer', unifiedOptimizerRouter);
+  // Optimization endpoints rewrite tour schedules, so they require tour management rights
+  app.use('/api/tour-optimization', isAuthenticated, hasPermission('canManageTours'), tourRouteOptimizationRouter);
+  app.use('/api/tour-optimization-enhanced', isAuthenticated, hasPermission('canManageTours'), tourOptimizationEnhancedRouter);
+  app.use('/api/v1/optimization', isAuthenticated, hasPermission('canManageTours'), optimizationRoutes);
   app.use('/api/users', userRoutes);
   app.use('/api/auth', authRoutes);
   app.use('/api/venues', venueRoutes);
@@ -49,23 +74,46 @@ export function registerRoutes(app: Express): Server {
       next();
     }
   }, artistRoutes);
-  app.use('/api/dashboard', dashboardRoutes);
-  app.use('/api/venue-network', venueNetworkRoutes);
+  app.use('/api/dashboard', isAuthenticated, dashboardRoutes);
+  app.use('/api/venue-network/opportunities', isAuthenticated, collaborativeOpportunityRoutes);
+  app.use('/api/venue-network', isAuthenticated, venueNetworkRoutes);
   
   // Webhook and admin routes
+  // Inbound webhooks authenticate with signatures rather than sessions
   app.use('/api/webhooks', webhookRoutes);
-  app.use('/api/admin', adminRoutes);
+  app.use('/api/admin/entity-matches', isAuthenticated, hasRole('admin'), entityMatchRoutes);
+  app.use('/api/admin/jobs', isAuthenticated, hasRole('admin'), jobRoutes);
+  app.use('/api/admin/sync-runs', isAuthenticated, hasRole('admin'), syncRunRoutes);
+  app.use('/api/admin/webhook-subscriptions', isAuthenticated, hasRole('admin'), webhookSubscriptionRoutes);
+  app.use('/api/admin', isAuthenticated, hasRole('admin'), adminRoutes);
   
   // AI enhancement routes
-  app.use('/api/ai', aiEnhancementRoutes);
+  app.use('/api/ai', isAuthenticated, hasRole('admin'), aiEnhancementRoutes);
   
   // Event seeding routes
-  app.use('/api/events', eventSeedingRoutes);
+  app.use('/api/events', isAuthenticated, hasRole('admin'), eventSeedingRoutes);
+  
+  // Messaging routes
+  app.use('/api/messages', isAuthenticated, messageRoutes);
+  
+  // Booking inquiry workflow (offers, counters and acceptances)
+  app.use('/api/inquiries', isAuthenticated, inquiryRoutes);
+  
+  // Routing gap predictions for venue managers
+  app.use('/api/predictions', isAuthenticated, predictionRoutes);
   
   // Venue import routes
-  app.use('/api/venue-import', venueImportRoutes);
+  app.use('/api/venue-import', isAuthenticated, hasPermission('canManageVenues'), venueImportRoutes);
   
   // Both user-info and venue selection are now handled in their respective route files
   
+  // Realtime push for messages and tour changes, authenticated with the same session cookie
+  realtime.attach(server);
+  
+  // Sync, scrape and enrichment jobs, unless a separate worker process runs them
+  if (isJobWorkerEnabled()) {
+    jobWorker.start();
+  }
+  
   return server;
 }
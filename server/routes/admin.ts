@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { syncVenuesFromBandsInTown } from '../data-sync/bands-in-town-sync';
+import { enqueueJob } from '../services/job-queue';
 import { 
   registerBandsintownWebhook, 
   unregisterBandsintownWebhook,
@@ -50,22 +50,13 @@ adminRouter.post('/sync-venues', requireAdmin, async (req, res) => {
       return res.status(400).json({ error: 'Limit must be between 1 and 100' });
     }
     
-    // Run the sync asynchronously - we don't want to block the response
-    console.log(`Venue sync triggered for venue ID ${venueId}`);
+    // The sync runs as a job; its progress and logs are on the admin data seeding page
+    const job = await enqueueJob('venue-network-sync', { venueId, radius, limit }, { createdById: req.session.user?.id });
+    console.log(`Venue sync queued for venue ID ${venueId} as job ${job.id}`);
     
-    // Return success immediately - sync will run in background
-    res.json({ message: 'Venue sync started' });
-    
-    // Run the actual sync after response is sent
-    syncVenuesFromBandsInTown(venueId, radius, limit)
-      .then((venues) => {
-        console.log(`Venue sync completed. Added ${venues.length} venues.`);
-      })
-      .catch((error) => {
-        console.error('Error during venue sync:', error);
-      });
+    res.status(202).json({ message: 'Venue sync queued', jobId: job.id });
   } catch (error) {
-    console.error('Error triggering venue sync:', error);
+    console.error('Error queueing venue sync:', error);
     res.status(500).json({ error: 'Failed to trigger venue sync' });
   }
 });
@@ -1,14 +1,42 @@
 import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
 import { db } from '../db';
 import { users } from '../../shared/schema';
-import { eq } from 'drizzle-orm';
-import { isAuthenticated, hasPermission } from '../middleware/auth-middleware';
+import { eq, or } from 'drizzle-orm';
+import { isAuthenticated, hasPermission, isDemoMode, DEMO_USER, type SessionUser } from '../middleware/auth-middleware';
+import { hashPassword, verifyPassword } from '../utils/password';
+import { storage } from '../storage';
 
 const router = express.Router();
 
+// New accounts are plain users; an admin grants venue and artist manager roles
+const registerSchema = z.object({
+  username: z.string().trim().min(3, 'Username must be at least 3 characters'),
+  name: z.string().trim().min(1, 'Name is required'),
+  email: z.string().trim().email('A valid email address is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters long')
+});
+
+/**
+ * Sign a user in on a new session
+ * The session ID is regenerated so one set before signing in can't be used afterwards
+ */
+function signIn(req: express.Request, user: SessionUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((error) => {
+      if (error) {
+        return reject(error);
+      }
+      req.session.user = user;
+      resolve();
+    });
+  });
+}
+
 /**
  * Login endpoint
- * Accepts username and password, returns user information if credentials are valid
+ * Accepts username and password, returns user information if the password matches the stored hash
  * Route: /api/auth
  */
 router.post('/', async (req, res) => {
@@ -28,14 +56,14 @@ router.post('/', async (req, res) => {
       columns: {
         id: true,
         username: true,
+        password: true,
         name: true,
         email: true,
         role: true
       }
     });
     
-    // In a real application, this would be a hashed password comparison
-    if (!user || password !== 'password') {
+    if (!user || !(await verifyPassword(password, user.password))) {
       return res.status(401).json({
         success: false,
         message: 'Invalid username or password'
@@ -49,7 +77,11 @@ router.post('/', async (req, res) => {
       role: user.role || 'user'
     };
     
-    req.session.user = sessionUser;
+    await signIn(req, sessionUser);
+    
+    await db.update(users)
+      .set({ lastLogin: new Date() })
+      .where(eq(users.id, user.id));
     
     return res.status(200).json({
       success: true,
@@ -64,6 +96,68 @@ router.post('/', async (req, res) => {
   }
 });
 
+/**
+ * Registration endpoint
+ * Creates a new user with the user role and a hashed password, and signs them in
+ * Route: /api/auth/register
+ */
+router.post('/register', async (req, res) => {
+  try {
+    const result = registerSchema.safeParse(req.body);
+    
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        message: fromZodError(result.error).message
+      });
+    }
+    
+    const { username, name, email, password } = result.data;
+    
+    const existingUser = await db.query.users.findFirst({
+      where: or(eq(users.username, username), eq(users.email, email)),
+      columns: {
+        id: true
+      }
+    });
+    
+    if (existingUser) {
+      return res.status(409).json({
+        success: false,
+        message: 'Username or email is already registered'
+      });
+    }
+    
+    const [newUser] = await db.insert(users).values({
+      username,
+      name,
+      email,
+      role: 'user',
+      password: await hashPassword(password),
+      lastLogin: new Date()
+    }).returning();
+    
+    const sessionUser = {
+      id: newUser.id,
+      name: newUser.name || newUser.username,
+      role: newUser.role || 'user'
+    };
+    
+    await signIn(req, sessionUser);
+    
+    return res.status(201).json({
+      success: true,
+      user: sessionUser
+    });
+  } catch (error) {
+    console.error('Registration error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'An error occurred during registration'
+    });
+  }
+});
+
 /**
  * Logout endpoint
  * Destroys the session and clears user information
@@ -100,20 +194,45 @@ router.post('/logout', (req, res) => {
  * Returns current user information if authenticated
  * Route: /api/auth/status
  */
-router.get('/status', (req, res) => {
-  if (req.session && req.session.user) {
+router.get('/status', async (req, res) => {
+  try {
+    if (req.session && req.session.user) {
+      const memberships = await storage.getVenueMembershipsByUser(req.session.user.id);
+      
+      return res.status(200).json({
+        success: true,
+        authenticated: true,
+        user: {
+          ...req.session.user,
+          venueMemberships: memberships.map(({ venueId, role }) => ({ venueId, role }))
+        },
+        currentVenueId: req.session.currentVenueId || null,
+        demoMode: isDemoMode()
+      });
+    }
+    
+    if (isDemoMode()) {
+      return res.status(200).json({
+        success: true,
+        authenticated: true,
+        user: DEMO_USER,
+        currentVenueId: req.session?.currentVenueId || null,
+        demoMode: true
+      });
+    }
+    
     return res.status(200).json({
       success: true,
-      authenticated: true,
-      user: req.session.user,
-      currentVenueId: req.session.currentVenueId || null
+      authenticated: false,
+      demoMode: false
+    });
+  } catch (error) {
+    console.error('Auth status error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to load authentication status'
     });
   }
-  
-  return res.status(200).json({
-    success: true,
-    authenticated: false
-  });
 });
 
 /**
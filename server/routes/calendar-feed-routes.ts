@@ -0,0 +1,159 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { hasPermission, hasVenueAccess, isAuthenticated, VENUE_EDITOR_ROLES } from '../middleware/auth-middleware';
+import { IcalParseError } from '../../shared/utils/ical';
+import {
+  createCalendarFeed,
+  getCalendarFeed,
+  importVenueCalendar,
+  listCalendarFeeds,
+  renderCalendarFeed,
+  revokeCalendarFeed,
+  type FeedScope
+} from '../services/calendar-feeds';
+
+const router = express.Router();
+
+// Largest .ics file a venue may import
+const MAX_IMPORT_SIZE = '2mb';
+
+const importSchema = z.object({
+  createAs: z.enum(['events', 'blackouts']),
+  artistId: z.coerce.number().int().positive().optional()
+});
+
+const canEditVenue = [isAuthenticated, hasPermission('canManageVenues'), hasVenueAccess('id', VENUE_EDITOR_ROLES)];
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+  if (error instanceof IcalParseError) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+function parseId(req: express.Request, res: express.Response, param: string, label: string): number | null {
+  const id = parseInt(req.params[param]);
+  if (isNaN(id)) {
+    res.status(400).json({ error: `Invalid ${label} ID` });
+    return null;
+  }
+  return id;
+}
+
+/**
+ * The iCal feed behind a token; calendar apps fetch it without a session
+ * Route: /api/calendar/feeds/:token.ics
+ */
+router.get('/feeds/:token.ics', async (req, res) => {
+  try {
+    const ics = await renderCalendarFeed(req.params.token);
+    if (ics === null) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="calendar.ics"',
+      'Cache-Control': 'no-cache'
+    });
+    return res.send(ics);
+  } catch (error) {
+    return handleError(res, error, 'load calendar feed');
+  }
+});
+
+// Feed management for a tour or a venue
+function feedRoutes(path: 'tours' | 'venues', scopeOf: (id: number) => FeedScope, guards: express.RequestHandler[]) {
+  const label = path === 'tours' ? 'tour' : 'venue';
+
+  router.get(`/${path}/:id/feeds`, ...guards, async (req, res) => {
+    try {
+      const id = parseId(req, res, 'id', label);
+      if (id === null) return;
+
+      return res.json(await listCalendarFeeds(scopeOf(id)));
+    } catch (error) {
+      return handleError(res, error, 'load calendar feeds');
+    }
+  });
+
+  router.post(`/${path}/:id/feeds`, ...guards, async (req, res) => {
+    try {
+      const id = parseId(req, res, 'id', label);
+      if (id === null) return;
+
+      const feed = await createCalendarFeed(scopeOf(id), req.session.user?.id);
+      if (!feed) {
+        return res.status(404).json({ error: `${label[0].toUpperCase()}${label.slice(1)} not found` });
+      }
+      return res.status(201).json(feed);
+    } catch (error) {
+      return handleError(res, error, 'create calendar feed');
+    }
+  });
+
+  router.delete(`/${path}/:id/feeds/:feedId`, ...guards, async (req, res) => {
+    try {
+      const id = parseId(req, res, 'id', label);
+      if (id === null) return;
+      const feedId = parseId(req, res, 'feedId', 'feed');
+      if (feedId === null) return;
+
+      const feed = await getCalendarFeed(feedId);
+      const scope = scopeOf(id);
+      const owned = feed && ('tourId' in scope ? feed.tourId === scope.tourId : feed.venueId === scope.venueId);
+      if (!owned || !await revokeCalendarFeed(feedId)) {
+        return res.status(404).json({ error: 'Calendar feed not found' });
+      }
+
+      return res.json({ success: true });
+    } catch (error) {
+      return handleError(res, error, 'revoke calendar feed');
+    }
+  });
+}
+
+/**
+ * A tour's feeds
+ * Routes: /api/calendar/tours/:id/feeds, /api/calendar/tours/:id/feeds/:feedId
+ */
+feedRoutes('tours', tourId => ({ tourId }), [isAuthenticated, hasPermission('canManageTours')]);
+
+/**
+ * A venue's feeds
+ * Routes: /api/calendar/venues/:id/feeds, /api/calendar/venues/:id/feeds/:feedId
+ */
+feedRoutes('venues', venueId => ({ venueId }), canEditVenue);
+
+/**
+ * Import an .ics file, sent as text/calendar, into a venue's events or blackouts
+ * Route: /api/calendar/venues/:id/import?createAs=events|blackouts&artistId=1
+ */
+router.post(
+  '/venues/:id/import',
+  ...canEditVenue,
+  express.text({ type: ['text/calendar', 'text/plain'], limit: MAX_IMPORT_SIZE }),
+  async (req, res) => {
+    try {
+      const venueId = parseId(req, res, 'id', 'venue');
+      if (venueId === null) return;
+
+      const options = importSchema.parse(req.query);
+      if (typeof req.body !== 'string' || !req.body.trim()) {
+        return res.status(400).json({ error: 'Send the .ics file as text/calendar' });
+      }
+
+      return res.json(await importVenueCalendar(venueId, req.body, options, req.session.user?.id));
+    } catch (error) {
+      return handleError(res, error, 'import calendar');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,475 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  artists,
+  collaborativeOpportunities,
+  collaborativeParticipants,
+  tours,
+  tourVenues,
+  venueNetwork,
+  type TourVenue
+} from '../../shared/schema';
+import { and, asc, desc, eq, gte, inArray, lte, or, sql } from 'drizzle-orm';
+import { hasPermission, checkVenueAccess, VENUE_EDITOR_ROLES } from '../middleware/auth-middleware';
+import { optimizationCache } from '../cache/optimization-cache';
+import { realtime, tourChannel } from '../services/realtime';
+import { buildRoutingProposal, findUnavailableStops } from '../services/collaborative-routing';
+import { loadVenueAvailability } from '../services/venue-availability';
+
+const router = express.Router();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must use the YYYY-MM-DD format');
+
+const createOpportunitySchema = z.object({
+  creatorVenueId: z.number().int().positive(),
+  artistId: z.number().int().positive(),
+  dateRangeStart: isoDate,
+  dateRangeEnd: isoDate,
+  invitedVenueIds: z.array(z.number().int().positive()).min(1, 'Invite at least one connected venue'),
+  notes: z.string().trim().max(1000).optional()
+}).refine(data => data.dateRangeStart <= data.dateRangeEnd, 'The date range must end after it starts');
+
+const respondSchema = z.object({
+  venueId: z.number().int().positive(),
+  status: z.enum(['accepted', 'declined']),
+  proposedDate: isoDate.optional()
+}).refine(data => data.status === 'declined' || data.proposedDate, 'Accepting requires a proposed date');
+
+const confirmSchema = z.object({
+  tourId: z.number().int().positive().optional()
+});
+
+/**
+ * Load an opportunity with the artist, creator venue and participating venues
+ */
+async function getOpportunityWithDetails(opportunityId: number) {
+  return await db.query.collaborativeOpportunities.findFirst({
+    where: eq(collaborativeOpportunities.id, opportunityId),
+    with: {
+      artist: true,
+      creatorVenue: true,
+      participants: {
+        with: { venue: true },
+        orderBy: asc(collaborativeParticipants.id)
+      }
+    }
+  });
+}
+
+/**
+ * Load an opportunity and check the current user can manage it for the creator venue
+ * Sends the error response and returns null when they cannot
+ */
+async function loadOpportunityForCreator(req: express.Request, res: express.Response) {
+  const opportunityId = parseInt(req.params.id);
+
+  if (isNaN(opportunityId)) {
+    res.status(400).json({ success: false, message: 'Invalid opportunity ID format' });
+    return null;
+  }
+
+  const opportunity = await getOpportunityWithDetails(opportunityId);
+
+  if (!opportunity) {
+    res.status(404).json({ success: false, message: 'Opportunity not found' });
+    return null;
+  }
+
+  if (!(await checkVenueAccess(req.session.user!, opportunity.creatorVenueId, VENUE_EDITOR_ROLES))) {
+    res.status(403).json({ success: false, message: 'Only the creating venue can manage this opportunity' });
+    return null;
+  }
+
+  return opportunity;
+}
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ success: false, message: fromZodError(error).message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ success: false, message: `Failed to ${action}` });
+}
+
+/**
+ * Get collaborative opportunities a venue created or was invited to
+ * Route: /api/venue-network/opportunities/:venueId
+ */
+router.get('/:venueId', async (req, res) => {
+  try {
+    const venueId = parseInt(req.params.venueId);
+
+    if (isNaN(venueId)) {
+      return res.status(400).json({ success: false, message: 'Invalid venue ID format' });
+    }
+
+    if (!(await checkVenueAccess(req.session.user!, venueId))) {
+      return res.status(403).json({ success: false, message: 'You do not have access to this venue' });
+    }
+
+    const invitedTo = db
+      .select({ opportunityId: collaborativeParticipants.opportunityId })
+      .from(collaborativeParticipants)
+      .where(eq(collaborativeParticipants.venueId, venueId));
+
+    const opportunities = await db.query.collaborativeOpportunities.findMany({
+      where: or(
+        eq(collaborativeOpportunities.creatorVenueId, venueId),
+        inArray(collaborativeOpportunities.id, invitedTo)
+      ),
+      with: {
+        artist: true,
+        creatorVenue: true,
+        participants: {
+          with: { venue: true },
+          orderBy: asc(collaborativeParticipants.id)
+        }
+      },
+      orderBy: desc(collaborativeOpportunities.createdAt)
+    });
+
+    return res.json(opportunities);
+  } catch (error) {
+    return handleError(res, error, 'load collaborative opportunities');
+  }
+});
+
+/**
+ * Start an opportunity for an artist and invite connected venues
+ * Invited venues must have an active venueNetwork connection with the creator venue
+ * Route: /api/venue-network/opportunities
+ */
+router.post('/', hasPermission('canManageVenues'), async (req, res) => {
+  try {
+    const data = createOpportunitySchema.parse(req.body);
+    const invitedVenueIds = Array.from(new Set(data.invitedVenueIds)).filter(id => id !== data.creatorVenueId);
+
+    if (invitedVenueIds.length === 0) {
+      return res.status(400).json({ success: false, message: 'Invite at least one other venue' });
+    }
+
+    if (!(await checkVenueAccess(req.session.user!, data.creatorVenueId, VENUE_EDITOR_ROLES))) {
+      return res.status(403).json({ success: false, message: 'You do not have access to this venue' });
+    }
+
+    const artist = await db.query.artists.findFirst({
+      where: eq(artists.id, data.artistId),
+      columns: { id: true }
+    });
+
+    if (!artist) {
+      return res.status(404).json({ success: false, message: 'Artist not found' });
+    }
+
+    const connections = await db.query.venueNetwork.findMany({
+      where: and(
+        eq(venueNetwork.status, 'active'),
+        or(
+          and(eq(venueNetwork.venueId, data.creatorVenueId), inArray(venueNetwork.connectedVenueId, invitedVenueIds)),
+          and(eq(venueNetwork.connectedVenueId, data.creatorVenueId), inArray(venueNetwork.venueId, invitedVenueIds))
+        )
+      ),
+      columns: { venueId: true, connectedVenueId: true }
+    });
+
+    const connectedIds = new Set(connections.flatMap(c => [c.venueId, c.connectedVenueId]));
+    const notConnected = invitedVenueIds.filter(id => !connectedIds.has(id));
+
+    if (notConnected.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Venues ${notConnected.join(', ')} are not connected to your venue`
+      });
+    }
+
+    const opportunity = await db.transaction(async (tx) => {
+      const [opportunity] = await tx.insert(collaborativeOpportunities).values({
+        artistId: data.artistId,
+        creatorVenueId: data.creatorVenueId,
+        createdById: req.session.user!.id,
+        dateRangeStart: data.dateRangeStart,
+        dateRangeEnd: data.dateRangeEnd,
+        notes: data.notes,
+        status: 'pending'
+      }).returning();
+
+      // The creating venue proposes its own date like every other participant
+      await tx.insert(collaborativeParticipants).values(
+        [data.creatorVenueId, ...invitedVenueIds].map(venueId => ({
+          opportunityId: opportunity.id,
+          venueId,
+          status: 'pending'
+        }))
+      );
+
+      return opportunity;
+    });
+
+    return res.status(201).json(await getOpportunityWithDetails(opportunity.id));
+  } catch (error) {
+    return handleError(res, error, 'create collaborative opportunity');
+  }
+});
+
+/**
+ * Accept with a proposed date, or decline, on behalf of a participating venue
+ * Any change after a proposal was built sends the opportunity back to pending
+ * Route: /api/venue-network/opportunities/:id/respond
+ */
+router.post('/:id/respond', async (req, res) => {
+  try {
+    const data = respondSchema.parse(req.body);
+    const opportunityId = parseInt(req.params.id);
+
+    if (isNaN(opportunityId)) {
+      return res.status(400).json({ success: false, message: 'Invalid opportunity ID format' });
+    }
+
+    if (!(await checkVenueAccess(req.session.user!, data.venueId, VENUE_EDITOR_ROLES))) {
+      return res.status(403).json({ success: false, message: 'You do not have access to this venue' });
+    }
+
+    const opportunity = await storage.getCollaborativeOpportunity(opportunityId);
+    const participants = opportunity ? await storage.getCollaborativeParticipantsByOpportunity(opportunityId) : [];
+    const participant = participants.find(p => p.venueId === data.venueId);
+
+    if (!opportunity || !participant) {
+      return res.status(404).json({ success: false, message: 'Opportunity not found' });
+    }
+
+    if (opportunity.status !== 'pending' && opportunity.status !== 'ready') {
+      return res.status(409).json({ success: false, message: `Opportunity is already ${opportunity.status}` });
+    }
+
+    if (data.proposedDate && (data.proposedDate < opportunity.dateRangeStart || data.proposedDate > opportunity.dateRangeEnd)) {
+      return res.status(400).json({
+        success: false,
+        message: `Proposed date must fall between ${opportunity.dateRangeStart} and ${opportunity.dateRangeEnd}`
+      });
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(collaborativeParticipants)
+        .set({
+          status: data.status,
+          proposedDate: data.status === 'accepted' ? data.proposedDate : null,
+          respondedAt: new Date()
+        })
+        .where(eq(collaborativeParticipants.id, participant.id));
+
+      await tx.update(collaborativeOpportunities)
+        .set({ status: 'pending', proposal: null, updatedAt: new Date() })
+        .where(eq(collaborativeOpportunities.id, opportunityId));
+    });
+
+    return res.json(await getOpportunityWithDetails(opportunityId));
+  } catch (error) {
+    return handleError(res, error, 'respond to collaborative opportunity');
+  }
+});
+
+/**
+ * Build the combined routing proposal from the accepted participants' dates
+ * Route: /api/venue-network/opportunities/:id/proposal
+ */
+router.post('/:id/proposal', async (req, res) => {
+  try {
+    const opportunity = await loadOpportunityForCreator(req, res);
+    if (!opportunity) return;
+
+    if (opportunity.status !== 'pending' && opportunity.status !== 'ready') {
+      return res.status(409).json({ success: false, message: `Opportunity is already ${opportunity.status}` });
+    }
+
+    const accepted = opportunity.participants.filter(p => p.status === 'accepted' && p.proposedDate);
+
+    if (accepted.length < 2) {
+      return res.status(409).json({
+        success: false,
+        message: 'At least two venues must propose dates before routing'
+      });
+    }
+
+    const proposal = buildRoutingProposal(accepted.map(p => ({
+      participantId: p.id,
+      venueId: p.venueId,
+      venueName: p.venue.name,
+      date: p.proposedDate!,
+      latitude: p.venue.latitude,
+      longitude: p.venue.longitude
+    })));
+
+    await db.update(collaborativeOpportunities)
+      .set({ proposal, status: 'ready', updatedAt: new Date() })
+      .where(eq(collaborativeOpportunities.id, opportunity.id));
+
+    return res.json(await getOpportunityWithDetails(opportunity.id));
+  } catch (error) {
+    return handleError(res, error, 'build routing proposal');
+  }
+});
+
+/**
+ * Confirm the proposal and push its stops into the artist's tour as suggested tour venues
+ * Uses the given tour, otherwise the artist's tour that overlaps the opportunity's date range.
+ * Stops the tour doesn't have yet must still be available: not booked (including a
+ * confirmed hold in the ledger), blacked out or outside the venue's open nights.
+ * Route: /api/venue-network/opportunities/:id/confirm
+ */
+router.post('/:id/confirm', async (req, res) => {
+  try {
+    const data = confirmSchema.parse(req.body);
+    const opportunity = await loadOpportunityForCreator(req, res);
+    if (!opportunity) return;
+
+    const proposal = opportunity.proposal;
+
+    if (opportunity.status !== 'ready' || !proposal) {
+      return res.status(409).json({ success: false, message: 'Build a routing proposal before confirming' });
+    }
+
+    if (proposal.dateConflicts.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `Resolve the date conflicts on ${proposal.dateConflicts.join(', ')} before confirming`
+      });
+    }
+
+    const tour = await db.query.tours.findFirst({
+      where: and(
+        eq(tours.artistId, opportunity.artistId),
+        data.tourId
+          ? eq(tours.id, data.tourId)
+          : and(lte(tours.startDate, opportunity.dateRangeEnd), gte(tours.endDate, opportunity.dateRangeStart))
+      ),
+      orderBy: asc(tours.startDate),
+      columns: { id: true }
+    });
+
+    if (!tour) {
+      return res.status(409).json({
+        success: false,
+        message: 'No tour for this artist overlaps the opportunity; provide a tourId'
+      });
+    }
+
+    const venueIds = proposal.stops.map(stop => stop.venueId);
+
+    // Stops the tour already has are kept as they are; the rest must still be open nights
+    const onTour = await db.select({ venueId: tourVenues.venueId, date: tourVenues.date })
+      .from(tourVenues)
+      .where(and(eq(tourVenues.tourId, tour.id), inArray(tourVenues.venueId, venueIds)));
+    const newStops = proposal.stops.filter(stop =>
+      !onTour.some(row => row.venueId === stop.venueId && row.date === stop.date));
+    const dates = newStops.map(stop => stop.date).sort();
+    const availability = await loadVenueAvailability(
+      newStops.map(stop => stop.venueId),
+      dates[0],
+      dates[dates.length - 1]
+    );
+    const unavailableStops = findUnavailableStops(newStops, availability);
+
+    if (unavailableStops.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `Venues can no longer take these dates: ${unavailableStops.map(stop => `${stop.venueName} on ${stop.date} (${stop.reason})`).join(', ')}`,
+        unavailableStops
+      });
+    }
+
+    const addedTourVenues = await db.transaction(async (tx) => {
+      const added: TourVenue[] = [];
+
+      for (const stop of proposal.stops) {
+        // Keep a row the tour already has for this venue and date
+        const existing = await tx.query.tourVenues.findFirst({
+          where: and(
+            eq(tourVenues.tourId, tour.id),
+            eq(tourVenues.venueId, stop.venueId),
+            eq(tourVenues.date, stop.date)
+          )
+        });
+
+        const [tourVenue] = existing
+          ? [existing]
+          : await tx.insert(tourVenues).values({
+              tourId: tour.id,
+              venueId: stop.venueId,
+              date: stop.date,
+              status: 'suggested',
+              statusUpdatedAt: new Date(),
+              notes: `Collaborative routing with ${proposal.stops.length} venues`
+            }).returning();
+
+        await tx.update(collaborativeParticipants)
+          .set({ tourVenueId: tourVenue.id })
+          .where(eq(collaborativeParticipants.id, stop.participantId));
+
+        if (!existing) {
+          added.push(tourVenue);
+        }
+      }
+
+      // Count the booking on every connection between the participating venues
+      await tx.update(venueNetwork)
+        .set({ collaborativeBookings: sql`COALESCE(${venueNetwork.collaborativeBookings}, 0) + 1` })
+        .where(and(
+          inArray(venueNetwork.venueId, venueIds),
+          inArray(venueNetwork.connectedVenueId, venueIds)
+        ));
+
+      await tx.update(collaborativeOpportunities)
+        .set({ status: 'confirmed', tourId: tour.id, confirmedAt: new Date(), updatedAt: new Date() })
+        .where(eq(collaborativeOpportunities.id, opportunity.id));
+
+      return added;
+    });
+
+    optimizationCache.invalidate(tour.id);
+
+    if (addedTourVenues.length > 0) {
+      realtime.publishToChannel(tourChannel(tour.id), {
+        type: 'tour.venuesAdded',
+        tourId: tour.id,
+        tourVenueIds: addedTourVenues.map(tv => tv.id)
+      });
+    }
+
+    return res.json({
+      opportunity: await getOpportunityWithDetails(opportunity.id),
+      tourId: tour.id,
+      addedTourVenues
+    });
+  } catch (error) {
+    return handleError(res, error, 'confirm collaborative opportunity');
+  }
+});
+
+/**
+ * Call off an opportunity that has not been confirmed yet
+ * Route: /api/venue-network/opportunities/:id/reject
+ */
+router.post('/:id/reject', async (req, res) => {
+  try {
+    const opportunity = await loadOpportunityForCreator(req, res);
+    if (!opportunity) return;
+
+    if (opportunity.status === 'confirmed' || opportunity.status === 'rejected') {
+      return res.status(409).json({ success: false, message: `Opportunity is already ${opportunity.status}` });
+    }
+
+    await db.update(collaborativeOpportunities)
+      .set({ status: 'rejected', updatedAt: new Date() })
+      .where(eq(collaborativeOpportunities.id, opportunity.id));
+
+    return res.json(await getOpportunityWithDetails(opportunity.id));
+  } catch (error) {
+    return handleError(res, error, 'reject collaborative opportunity');
+  }
+});
+
+export default router;
@@ -0,0 +1,82 @@
+import express from 'express';
+import {
+  DOCUMENT_CONTENT_TYPES,
+  renderHtml,
+  renderPdf,
+  type DocumentFormat,
+  type PrintDocument
+} from '../services/documents';
+import {
+  daySheetDocument,
+  getDaySheet,
+  getItineraryBook,
+  itineraryBookDocument
+} from '../services/day-sheets';
+
+const router = express.Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+// PDFs download with a file name; HTML opens in the browser ready to print
+function sendDocument(res: express.Response, document: PrintDocument, format: DocumentFormat, fileName: string) {
+  res.type(DOCUMENT_CONTENT_TYPES[format]);
+  if (format === 'pdf') {
+    res.attachment(`${fileName}.pdf`);
+    return res.send(renderPdf(document));
+  }
+  return res.send(renderHtml(document));
+}
+
+/**
+ * Itinerary book: the tour's schedule and a day sheet per confirmed show
+ * Route: /api/tours/:id/day-sheets.pdf or /api/tours/:id/day-sheets.html
+ */
+router.get('/:id/day-sheets.:format(pdf|html)', async (req, res) => {
+  try {
+    const tourId = parseInt(req.params.id);
+    if (isNaN(tourId)) {
+      return res.status(400).json({ error: 'Invalid tour ID' });
+    }
+
+    const book = await getItineraryBook(tourId);
+    if (!book) {
+      return res.status(404).json({ error: 'Tour not found' });
+    }
+
+    return sendDocument(res, itineraryBookDocument(book), req.params.format as DocumentFormat, `itinerary-tour-${tourId}`);
+  } catch (error) {
+    return handleError(res, error, 'generate itinerary');
+  }
+});
+
+/**
+ * Day sheet of the confirmed show on a date
+ * Route: /api/tours/:id/day-sheets/:date.pdf or /api/tours/:id/day-sheets/:date.html
+ */
+router.get('/:id/day-sheets/:date.:format(pdf|html)', async (req, res) => {
+  try {
+    const tourId = parseInt(req.params.id);
+    if (isNaN(tourId)) {
+      return res.status(400).json({ error: 'Invalid tour ID' });
+    }
+    if (!DATE_PATTERN.test(req.params.date)) {
+      return res.status(400).json({ error: 'Expected a date as YYYY-MM-DD' });
+    }
+
+    const sheet = await getDaySheet(tourId, req.params.date);
+    if (!sheet) {
+      return res.status(404).json({ error: 'No confirmed show on this date' });
+    }
+
+    return sendDocument(res, daySheetDocument(sheet), req.params.format as DocumentFormat, `day-sheet-${sheet.date}`);
+  } catch (error) {
+    return handleError(res, error, 'generate day sheet');
+  }
+});
+
+export default router;
@@ -0,0 +1,135 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { entityTypes, matchReviewStatuses } from '../../shared/utils/entity-matching';
+import {
+  EntityMergeError,
+  listMatchReviews,
+  mergeArtists,
+  mergeVenues,
+  resolveMatchReview,
+  scanForDuplicates
+} from '../services/entity-resolution';
+
+const router = express.Router();
+
+const listQuerySchema = z.object({
+  status: z.enum(matchReviewStatuses).default('pending'),
+  entityType: z.enum(entityTypes).optional()
+});
+
+const scanSchema = z.object({
+  entityType: z.enum(entityTypes)
+});
+
+const resolveSchema = z.object({
+  keep: z.enum(['source', 'target']).default('target')
+});
+
+const mergeSchema = z.object({
+  entityType: z.enum(entityTypes),
+  sourceId: z.number().int().positive(),
+  targetId: z.number().int().positive()
+});
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+  if (error instanceof EntityMergeError) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * Likely duplicate venues and artists, highest score first
+ * Route: /api/admin/entity-matches?status=&entityType=
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { status, entityType } = listQuerySchema.parse(req.query);
+    return res.json(await listMatchReviews(status, entityType));
+  } catch (error) {
+    return handleError(res, error, 'load duplicate reviews');
+  }
+});
+
+/**
+ * Compare all venues or all artists and queue the likely duplicates
+ * Route: /api/admin/entity-matches/scan
+ */
+router.post('/scan', async (req, res) => {
+  try {
+    const { entityType } = scanSchema.parse(req.body);
+    return res.json(await scanForDuplicates(entityType));
+  } catch (error) {
+    return handleError(res, error, 'scan for duplicates');
+  }
+});
+
+/**
+ * Merge two venues or artists directly, keeping the target
+ * Route: /api/admin/entity-matches/merge
+ */
+router.post('/merge', async (req, res) => {
+  try {
+    const { entityType, sourceId, targetId } = mergeSchema.parse(req.body);
+    const userId = req.session.user!.id;
+    const merged = entityType === 'venue'
+      ? await mergeVenues(sourceId, targetId, userId)
+      : await mergeArtists(sourceId, targetId, userId);
+    return res.json(merged);
+  } catch (error) {
+    return handleError(res, error, 'merge duplicates');
+  }
+});
+
+/**
+ * Merge a queued pair, keeping the target unless told to keep the source
+ * Route: /api/admin/entity-matches/:id/merge
+ */
+router.post('/:id/merge', async (req, res) => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ error: 'Invalid review ID' });
+    }
+
+    const { keep } = resolveSchema.parse(req.body ?? {});
+    const review = await resolveMatchReview(reviewId, 'merge', req.session.user!.id, keep);
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    return res.json(review);
+  } catch (error) {
+    return handleError(res, error, 'merge duplicates');
+  }
+});
+
+/**
+ * Mark a queued pair as distinct so scans leave it alone
+ * Route: /api/admin/entity-matches/:id/dismiss
+ */
+router.post('/:id/dismiss', async (req, res) => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ error: 'Invalid review ID' });
+    }
+
+    const review = await resolveMatchReview(reviewId, 'dismiss', req.session.user!.id);
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    return res.json(review);
+  } catch (error) {
+    return handleError(res, error, 'dismiss duplicate');
+  }
+});
+
+export default router;
@@ -0,0 +1,169 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import {
+  VENUE_EDITOR_ROLES,
+  checkTourAccess,
+  checkVenueAccess,
+  hasPermission,
+  hasVenueAccess,
+  type SessionUser
+} from '../middleware/auth-middleware';
+import {
+  HoldLedgerError,
+  confirmHold,
+  findHoldBooking,
+  findTourVenueBooking,
+  getVenueHoldCalendar,
+  placeHold,
+  releaseHold,
+  type HoldBooking
+} from '../services/hold-ledger';
+
+const router = express.Router();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+const calendarSchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional()
+});
+
+const confirmSchema = z.object({
+  challengeHours: z.number().positive().max(24 * 30).optional()
+});
+
+/**
+ * Whether a user may change a booking's holds: they manage the tour's artist, or own or
+ * book for the venue
+ */
+async function canManageBooking(user: SessionUser, booking: HoldBooking): Promise<boolean> {
+  return await checkTourAccess(user, booking.tourId) ||
+    await checkVenueAccess(user, booking.venueId, VENUE_EDITOR_ROLES);
+}
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+  if (error instanceof HoldLedgerError) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * A venue's hold stack for each date, for the venue's members
+ * Route: /api/holds/venues/:id?from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+router.get('/venues/:id', hasVenueAccess('id'), async (req, res) => {
+  try {
+    const venueId = parseInt(req.params.id);
+    if (isNaN(venueId)) {
+      return res.status(400).json({ error: 'Invalid venue ID' });
+    }
+
+    const { from, to } = calendarSchema.parse(req.query);
+    return res.json(await getVenueHoldCalendar(venueId, from, to));
+  } catch (error) {
+    return handleError(res, error, 'load venue holds');
+  }
+});
+
+/**
+ * Put a tour venue on hold for its date
+ * For the tour's artist managers and the venue's owners and bookers
+ * Route: /api/holds/tour-venues/:id
+ */
+router.post('/tour-venues/:id', hasPermission('canManageTours'), async (req, res) => {
+  try {
+    const tourVenueId = parseInt(req.params.id);
+    if (isNaN(tourVenueId)) {
+      return res.status(400).json({ error: 'Invalid tour venue ID' });
+    }
+
+    const booking = await findTourVenueBooking(tourVenueId);
+    if (!booking) {
+      return res.status(404).json({ error: 'Tour venue not found' });
+    }
+    if (!(await canManageBooking(req.session.user!, booking))) {
+      return res.status(403).json({ error: 'You do not have access to this tour venue' });
+    }
+
+    const hold = await placeHold(tourVenueId);
+    if (!hold) {
+      return res.status(404).json({ error: 'Tour venue not found' });
+    }
+
+    return res.status(201).json(hold);
+  } catch (error) {
+    return handleError(res, error, 'place hold');
+  }
+});
+
+/**
+ * Confirm a hold, challenging the holds above it if there are any
+ * For the tour's artist managers and the venue's owners and bookers
+ * Route: /api/holds/:id/confirm
+ */
+router.post('/:id/confirm', hasPermission('canManageTours'), async (req, res) => {
+  try {
+    const holdId = parseInt(req.params.id);
+    if (isNaN(holdId)) {
+      return res.status(400).json({ error: 'Invalid hold ID' });
+    }
+
+    const { challengeHours } = confirmSchema.parse(req.body ?? {});
+    const booking = await findHoldBooking(holdId);
+    if (!booking) {
+      return res.status(404).json({ error: 'Hold not found' });
+    }
+    if (!(await canManageBooking(req.session.user!, booking))) {
+      return res.status(403).json({ error: 'You do not have access to this hold' });
+    }
+
+    const hold = await confirmHold(holdId, challengeHours);
+    if (!hold) {
+      return res.status(404).json({ error: 'Hold not found' });
+    }
+
+    return res.json(hold);
+  } catch (error) {
+    return handleError(res, error, 'confirm hold');
+  }
+});
+
+/**
+ * Release a hold
+ * For the tour's artist managers and the venue's owners and bookers
+ * Route: /api/holds/:id/release
+ */
+router.post('/:id/release', hasPermission('canManageTours'), async (req, res) => {
+  try {
+    const holdId = parseInt(req.params.id);
+    if (isNaN(holdId)) {
+      return res.status(400).json({ error: 'Invalid hold ID' });
+    }
+
+    const booking = await findHoldBooking(holdId);
+    if (!booking) {
+      return res.status(404).json({ error: 'Hold not found' });
+    }
+    if (!(await canManageBooking(req.session.user!, booking))) {
+      return res.status(403).json({ error: 'You do not have access to this hold' });
+    }
+
+    const hold = await releaseHold(holdId);
+    if (!hold) {
+      return res.status(404).json({ error: 'Hold not found' });
+    }
+
+    return res.json(hold);
+  } catch (error) {
+    return handleError(res, error, 'release hold');
+  }
+});
+
+export default router;
@@ -0,0 +1,462 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { db } from '../db';
+import { storage } from '../storage';
+import { artists, inquiries, tours, tourVenues, venues, type Inquiry, type InquiryStatus } from '../../shared/schema';
+import { and, asc, eq, gte, isNull, lte, or, sql } from 'drizzle-orm';
+import {
+  hasPermission,
+  checkVenueAccess,
+  VENUE_EDITOR_ROLES,
+  type SessionUser
+} from '../middleware/auth-middleware';
+import { optimizationCache } from '../cache/optimization-cache';
+import { realtime, tourChannel } from '../services/realtime';
+import { publishWebhookEvent } from '../services/outbound-webhooks';
+import { HoldLedgerError, checkTourVenueHold, publishHoldChanges, syncTourVenueHold } from '../services/hold-ledger';
+
+const router = express.Router();
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must use the YYYY-MM-DD format');
+
+const sendInquirySchema = z.object({
+  venueId: z.number().int().positive(),
+  artistId: z.number().int().positive(),
+  tourId: z.number().int().positive().optional(),
+  proposedDate: isoDate,
+  offerAmount: z.number().nonnegative().optional(),
+  message: z.string().trim().min(1, 'A message is required')
+});
+
+const counterSchema = z.object({
+  proposedDate: isoDate.optional(),
+  offerAmount: z.number().nonnegative().optional(),
+  message: z.string().trim().min(1).optional()
+}).refine(
+  data => data.proposedDate !== undefined || data.offerAmount !== undefined,
+  'A counter offer must change the date or the amount'
+);
+
+const acceptSchema = z.object({
+  // Accepting places a hold unless the booking is confirmed outright
+  bookingStatus: z.enum(['hold', 'confirmed']).default('hold'),
+  tourId: z.number().int().positive().optional(),
+  message: z.string().trim().min(1).optional()
+});
+
+const declineSchema = z.object({
+  message: z.string().trim().min(1).optional()
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(['pending', 'countered', 'accepted', 'declined']).optional()
+});
+
+type InquirySide = 'venue' | 'artist';
+
+// Statuses an inquiry can still be answered from
+const OPEN_STATUSES: InquiryStatus[] = ['pending', 'countered'];
+
+/**
+ * The inquiry changed between loading it and answering it, such as by a concurrent accept
+ */
+class InquiryAnsweredError extends Error {
+  constructor() {
+    super('The inquiry has already been answered; reload it to see where it stands');
+    this.name = 'InquiryAnsweredError';
+  }
+}
+
+/**
+ * Work out which side(s) of an inquiry a user may act for
+ * The venue side is any owner or booker of the venue, the artist side is the sender
+ * Admins can act for both sides
+ */
+async function getInquirySides(user: SessionUser, inquiry: Inquiry): Promise<InquirySide[]> {
+  const sides: InquirySide[] = [];
+
+  if (await checkVenueAccess(user, inquiry.venueId, VENUE_EDITOR_ROLES)) {
+    sides.push('venue');
+  }
+  if (inquiry.senderId === user.id || user.role === 'admin') {
+    sides.push('artist');
+  }
+
+  return sides;
+}
+
+/**
+ * The side expected to respond next: the venue answers offers, the artist side answers counters
+ * Closed inquiries have no side to respond
+ */
+function respondingSide(inquiry: Inquiry): InquirySide | null {
+  if (inquiry.status === 'pending') return 'venue';
+  if (inquiry.status === 'countered') return 'artist';
+  return null;
+}
+
+/**
+ * Load an inquiry and check that the current user may respond to it now
+ * Sends the error response and returns null when they may not
+ */
+async function loadInquiryForResponse(req: express.Request, res: express.Response) {
+  const inquiryId = parseInt(req.params.id);
+
+  if (isNaN(inquiryId)) {
+    res.status(400).json({ error: 'Invalid inquiry ID format' });
+    return null;
+  }
+
+  const inquiry = await storage.getInquiry(inquiryId);
+  const sides = inquiry ? await getInquirySides(req.session.user!, inquiry) : [];
+
+  if (!inquiry || sides.length === 0) {
+    res.status(404).json({ error: 'Inquiry not found' });
+    return null;
+  }
+
+  const side = respondingSide(inquiry);
+
+  if (!side) {
+    res.status(409).json({ error: `Inquiry is already ${inquiry.status}` });
+    return null;
+  }
+
+  if (!sides.includes(side)) {
+    res.status(403).json({ error: `Waiting for the ${side} to respond` });
+    return null;
+  }
+
+  return { inquiry, side };
+}
+
+/**
+ * Find the tour an accepted inquiry books into
+ * Uses the inquiry's tour when set, otherwise the artist's tour whose dates cover the proposed date
+ */
+async function resolveTourId(inquiry: Inquiry, requestedTourId?: number): Promise<number | null> {
+  const tourId = inquiry.tourId ?? requestedTourId;
+
+  if (tourId) {
+    const tour = await db.query.tours.findFirst({
+      where: and(eq(tours.id, tourId), eq(tours.artistId, inquiry.artistId)),
+      columns: { id: true }
+    });
+    return tour?.id ?? null;
+  }
+
+  if (!inquiry.proposedDate) {
+    return null;
+  }
+
+  const tour = await db.query.tours.findFirst({
+    where: and(
+      eq(tours.artistId, inquiry.artistId),
+      lte(tours.startDate, inquiry.proposedDate),
+      gte(tours.endDate, inquiry.proposedDate)
+    ),
+    orderBy: asc(tours.startDate),
+    columns: { id: true }
+  });
+
+  return tour?.id ?? null;
+}
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+  if (error instanceof HoldLedgerError || error instanceof InquiryAnsweredError) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * Venue inbox: inquiries received by a venue
+ * Defaults to the session's current venue
+ * Route: /api/inquiries/inbox?venueId=&status=
+ */
+router.get('/inbox', async (req, res) => {
+  try {
+    const { status } = listQuerySchema.parse(req.query);
+    const venueId = parseInt(String(req.query.venueId ?? req.session.currentVenueId));
+
+    if (isNaN(venueId)) {
+      return res.status(400).json({ error: 'Venue ID is required' });
+    }
+
+    if (!(await checkVenueAccess(req.session.user!, venueId))) {
+      return res.status(403).json({ error: 'You do not have access to this venue' });
+    }
+
+    const received = await storage.getInquiriesByVenue(venueId);
+    return res.json(status ? received.filter(inquiry => inquiry.status === status) : received);
+  } catch (error) {
+    return handleError(res, error, 'load venue inbox');
+  }
+});
+
+/**
+ * Artist outbox: inquiries sent by the current user
+ * Route: /api/inquiries/outbox?status=
+ */
+router.get('/outbox', async (req, res) => {
+  try {
+    const { status } = listQuerySchema.parse(req.query);
+
+    const sent = await storage.getInquiriesBySender(req.session.user!.id);
+    return res.json(status ? sent.filter(inquiry => inquiry.status === status) : sent);
+  } catch (error) {
+    return handleError(res, error, 'load outbox');
+  }
+});
+
+/**
+ * Get a single inquiry with its venue, artist and booked tour venue
+ * Route: /api/inquiries/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const inquiryId = parseInt(req.params.id);
+
+    if (isNaN(inquiryId)) {
+      return res.status(400).json({ error: 'Invalid inquiry ID format' });
+    }
+
+    const inquiry = await db.query.inquiries.findFirst({
+      where: eq(inquiries.id, inquiryId),
+      with: {
+        venue: { columns: { id: true, name: true, city: true } },
+        artist: { columns: { id: true, name: true } },
+        tourVenue: true
+      }
+    });
+
+    const sides = inquiry ? await getInquirySides(req.session.user!, inquiry) : [];
+
+    if (!inquiry || sides.length === 0) {
+      return res.status(404).json({ error: 'Inquiry not found' });
+    }
+
+    return res.json({ ...inquiry, awaiting: respondingSide(inquiry), sides });
+  } catch (error) {
+    return handleError(res, error, 'load inquiry');
+  }
+});
+
+/**
+ * Send a dated offer to a venue
+ * Route: /api/inquiries
+ */
+router.post('/', hasPermission('canManageTours'), async (req, res) => {
+  try {
+    const data = sendInquirySchema.parse(req.body);
+
+    const [venue, artist] = await Promise.all([
+      db.query.venues.findFirst({ where: eq(venues.id, data.venueId), columns: { id: true } }),
+      db.query.artists.findFirst({ where: eq(artists.id, data.artistId), columns: { id: true } })
+    ]);
+
+    if (!venue) {
+      return res.status(404).json({ error: 'Venue not found' });
+    }
+    if (!artist) {
+      return res.status(404).json({ error: 'Artist not found' });
+    }
+
+    if (data.tourId) {
+      const tour = await db.query.tours.findFirst({
+        where: and(eq(tours.id, data.tourId), eq(tours.artistId, data.artistId)),
+        columns: { id: true }
+      });
+      if (!tour) {
+        return res.status(400).json({ error: 'Tour does not belong to this artist' });
+      }
+    }
+
+    const inquiry = await storage.createInquiry({
+      ...data,
+      senderId: req.session.user!.id,
+      status: 'pending',
+      sentAt: new Date()
+    });
+    publishWebhookEvent('inquiry.created', { inquiry });
+
+    return res.status(201).json(inquiry);
+  } catch (error) {
+    return handleError(res, error, 'send inquiry');
+  }
+});
+
+/**
+ * Counter an inquiry with a new date and/or amount
+ * A venue counter waits for the artist side; an artist counter re-sends the offer to the venue
+ * Route: /api/inquiries/:id/counter
+ */
+router.post('/:id/counter', async (req, res) => {
+  try {
+    const data = counterSchema.parse(req.body);
+    const loaded = await loadInquiryForResponse(req, res);
+    if (!loaded) return;
+
+    const { inquiry, side } = loaded;
+    const now = new Date();
+
+    // Only while it is still this side's turn, so a concurrent answer isn't overwritten
+    const updated = await storage.updateInquiry(inquiry.id, {
+      proposedDate: data.proposedDate ?? inquiry.proposedDate,
+      offerAmount: data.offerAmount ?? inquiry.offerAmount,
+      responseMessage: data.message ?? null,
+      ...(side === 'venue'
+        ? { status: 'countered', counteredAt: now }
+        : { status: 'pending', sentAt: now })
+    }, [side === 'venue' ? 'pending' : 'countered']);
+
+    if (!updated) {
+      throw new InquiryAnsweredError();
+    }
+
+    return res.json(updated);
+  } catch (error) {
+    return handleError(res, error, 'counter inquiry');
+  }
+});
+
+/**
+ * Decline an open inquiry
+ * Either side may decline while the inquiry is open
+ * Route: /api/inquiries/:id/decline
+ */
+router.post('/:id/decline', async (req, res) => {
+  try {
+    const data = declineSchema.parse(req.body);
+    const inquiryId = parseInt(req.params.id);
+
+    if (isNaN(inquiryId)) {
+      return res.status(400).json({ error: 'Invalid inquiry ID format' });
+    }
+
+    const inquiry = await storage.getInquiry(inquiryId);
+    const sides = inquiry ? await getInquirySides(req.session.user!, inquiry) : [];
+
+    if (!inquiry || sides.length === 0) {
+      return res.status(404).json({ error: 'Inquiry not found' });
+    }
+
+    if (!respondingSide(inquiry)) {
+      return res.status(409).json({ error: `Inquiry is already ${inquiry.status}` });
+    }
+
+    const updated = await storage.updateInquiry(inquiry.id, {
+      status: 'declined',
+      declinedAt: new Date(),
+      responseMessage: data.message ?? null
+    }, OPEN_STATUSES);
+
+    if (!updated) {
+      throw new InquiryAnsweredError();
+    }
+
+    return res.json(updated);
+  } catch (error) {
+    return handleError(res, error, 'decline inquiry');
+  }
+});
+
+/**
+ * Accept the current terms of an inquiry
+ * Creates or updates the tour venue for the proposed date with a hold or confirmed status
+ * and records it in the venue's hold ledger; refused when the ledger can't take it, such
+ * as on a night the venue is confirmed for another show
+ * Route: /api/inquiries/:id/accept
+ */
+router.post('/:id/accept', async (req, res) => {
+  try {
+    const data = acceptSchema.parse(req.body);
+    const loaded = await loadInquiryForResponse(req, res);
+    if (!loaded) return;
+
+    const { inquiry } = loaded;
+    const tourId = await resolveTourId(inquiry, data.tourId);
+
+    if (!tourId) {
+      return res.status(409).json({ error: 'No tour for this artist covers the proposed date; provide a tourId' });
+    }
+
+    const now = new Date();
+
+    const { tourVenue, previousStatus, updated, holdChanges } = await db.transaction(async (tx) => {
+      // Lock the inquiry so a concurrent accept, counter or decline can't also go through;
+      // it must still be the terms that were checked above
+      const [locked] = await tx.select().from(inquiries).where(eq(inquiries.id, inquiry.id)).for('update');
+      if (!locked || locked.status !== inquiry.status || locked.updatedAt?.getTime() !== inquiry.updatedAt?.getTime()) {
+        throw new InquiryAnsweredError();
+      }
+
+      // Reuse the venue's row on this tour for the same date (or an undated row) if there is one
+      const existing = await tx.query.tourVenues.findFirst({
+        where: and(
+          eq(tourVenues.tourId, tourId),
+          eq(tourVenues.venueId, inquiry.venueId),
+          inquiry.proposedDate
+            ? or(eq(tourVenues.date, inquiry.proposedDate), isNull(tourVenues.date))
+            : isNull(tourVenues.date)
+        ),
+        orderBy: sql`${tourVenues.date} IS NULL`
+      });
+
+      const values = {
+        date: inquiry.proposedDate,
+        status: data.bookingStatus,
+        statusUpdatedAt: now
+      };
+
+      // The hold or confirmation has to fit the venue's hold ledger for the date
+      await checkTourVenueHold({ id: existing?.id, venueId: inquiry.venueId, ...values }, tx);
+
+      const [tourVenue] = existing
+        ? await tx.update(tourVenues).set(values).where(eq(tourVenues.id, existing.id)).returning()
+        : await tx.insert(tourVenues).values({ ...values, tourId, venueId: inquiry.venueId }).returning();
+      const holdChanges = await syncTourVenueHold(tourVenue, tx);
+
+      const [updated] = await tx.update(inquiries)
+        .set({
+          status: 'accepted',
+          acceptedAt: now,
+          updatedAt: now,
+          tourId,
+          tourVenueId: tourVenue.id,
+          responseMessage: data.message ?? null
+        })
+        .where(eq(inquiries.id, inquiry.id))
+        .returning();
+
+      return { tourVenue, previousStatus: existing?.status ?? null, updated, holdChanges };
+    });
+
+    optimizationCache.invalidate(tourId);
+    publishHoldChanges(holdChanges);
+
+    if (previousStatus !== tourVenue.status) {
+      const change = {
+        tourId,
+        tourVenueId: tourVenue.id,
+        venueId: tourVenue.venueId,
+        previousStatus,
+        status: tourVenue.status!
+      };
+      realtime.publishToChannel(tourChannel(tourId), { type: 'tourVenue.statusChanged', ...change });
+      publishWebhookEvent('tourVenue.statusChanged', change);
+    }
+
+    return res.json({ ...updated, tourVenue });
+  } catch (error) {
+    return handleError(res, error, 'accept inquiry');
+  }
+});
+
+export default router;
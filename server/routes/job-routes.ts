@@ -0,0 +1,197 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { jobStatuses, jobTypes, parseCron } from '../../shared/utils/job-queue';
+import {
+  JobQueueError,
+  cancelJob,
+  enqueueJob,
+  getJob,
+  listJobs,
+  listSchedules,
+  retryJob,
+  runScheduleNow,
+  updateSchedule
+} from '../services/job-queue';
+
+const router = express.Router();
+
+const listQuerySchema = z.object({
+  status: z.enum(jobStatuses).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+const enqueueSchema = z.object({
+  type: z.enum(jobTypes),
+  payload: z.record(z.unknown()).default({}),
+  runAt: z.coerce.date().optional(),
+  priority: z.number().int().optional()
+});
+
+const scheduleUpdateSchema = z.object({
+  enabled: z.boolean().optional(),
+  cron: z.string().refine(cron => parseCron(cron) !== null, 'Invalid cron expression').optional()
+});
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+  if (error instanceof JobQueueError) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * Most recent jobs, with the number in each status
+ * Route: /api/admin/jobs?status=&limit=
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { status, limit } = listQuerySchema.parse(req.query);
+    return res.json(await listJobs(status, limit));
+  } catch (error) {
+    return handleError(res, error, 'load jobs');
+  }
+});
+
+/**
+ * Queue a job
+ * Route: /api/admin/jobs
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { type, payload, runAt, priority } = enqueueSchema.parse(req.body);
+    const job = await enqueueJob(type, payload, { runAt, priority, createdById: req.session.user!.id });
+    return res.status(201).json(job);
+  } catch (error) {
+    return handleError(res, error, 'queue job');
+  }
+});
+
+/**
+ * Cron schedules that queue jobs
+ * Route: /api/admin/jobs/schedules
+ */
+router.get('/schedules', async (req, res) => {
+  try {
+    return res.json(await listSchedules());
+  } catch (error) {
+    return handleError(res, error, 'load job schedules');
+  }
+});
+
+/**
+ * Turn a schedule on or off or change its cron expression
+ * Route: /api/admin/jobs/schedules/:id
+ */
+router.patch('/schedules/:id', async (req, res) => {
+  try {
+    const scheduleId = parseInt(req.params.id);
+    if (isNaN(scheduleId)) {
+      return res.status(400).json({ error: 'Invalid schedule ID' });
+    }
+
+    const schedule = await updateSchedule(scheduleId, scheduleUpdateSchema.parse(req.body));
+    if (!schedule) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    return res.json(schedule);
+  } catch (error) {
+    return handleError(res, error, 'update job schedule');
+  }
+});
+
+/**
+ * Queue a schedule's job now
+ * Route: /api/admin/jobs/schedules/:id/run
+ */
+router.post('/schedules/:id/run', async (req, res) => {
+  try {
+    const scheduleId = parseInt(req.params.id);
+    if (isNaN(scheduleId)) {
+      return res.status(400).json({ error: 'Invalid schedule ID' });
+    }
+
+    const job = await runScheduleNow(scheduleId, req.session.user!.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    return res.status(201).json(job);
+  } catch (error) {
+    return handleError(res, error, 'run job schedule');
+  }
+});
+
+/**
+ * A job with its log
+ * Route: /api/admin/jobs/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await getJob(jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    return res.json(job);
+  } catch (error) {
+    return handleError(res, error, 'load job');
+  }
+});
+
+/**
+ * Cancel a queued job or ask a running one to stop
+ * Route: /api/admin/jobs/:id/cancel
+ */
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await cancelJob(jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    return res.json(job);
+  } catch (error) {
+    return handleError(res, error, 'cancel job');
+  }
+});
+
+/**
+ * Queue a failed or cancelled job again
+ * Route: /api/admin/jobs/:id/retry
+ */
+router.post('/:id/retry', async (req, res) => {
+  try {
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const job = await retryJob(jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    return res.json(job);
+  } catch (error) {
+    return handleError(res, error, 'retry job');
+  }
+});
+
+export default router;
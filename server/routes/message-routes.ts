@@ -0,0 +1,511 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  conversations,
+  conversationParticipants,
+  messages,
+  tourVenues,
+  users
+} from '../../shared/schema';
+import { and, desc, eq, inArray, sql, isNull } from 'drizzle-orm';
+import {
+  hasPermission,
+  checkTourAccess,
+  checkVenueAccess,
+  type SessionUser
+} from '../middleware/auth-middleware';
+import { realtime, type RealtimeEvent } from '../services/realtime';
+
+const router = express.Router();
+
+const createConversationSchema = z.object({
+  participantIds: z.array(z.number().int().positive()).min(1, 'At least one participant is required'),
+  subject: z.string().trim().max(200).optional(),
+  tourId: z.number().int().positive().optional(),
+  tourVenueId: z.number().int().positive().optional(),
+  inquiryId: z.number().int().positive().optional(),
+  content: z.string().trim().min(1).optional()
+});
+
+const sendMessageSchema = z.object({
+  content: z.string().trim().min(1, 'Message content is required')
+});
+
+const directMessageSchema = z.object({
+  recipientId: z.number().int().positive(),
+  content: z.string().trim().min(1, 'Message content is required')
+});
+
+/**
+ * Check that a user takes part in a conversation
+ * @returns The participant row, or undefined if the user is not in the thread
+ */
+async function getParticipant(conversationId: number, userId: number) {
+  return await db.query.conversationParticipants.findFirst({
+    where: and(
+      eq(conversationParticipants.conversationId, conversationId),
+      eq(conversationParticipants.userId, userId)
+    )
+  });
+}
+
+/**
+ * Push a realtime event to everyone taking part in a conversation
+ */
+async function notifyParticipants(conversationId: number, event: RealtimeEvent) {
+  const participants = await db.select({ userId: conversationParticipants.userId })
+    .from(conversationParticipants)
+    .where(eq(conversationParticipants.conversationId, conversationId));
+
+  realtime.publishToUsers(participants.map(p => p.userId), event);
+}
+
+/**
+ * Insert a message into a conversation and bump its activity timestamps
+ * The sender's own message counts as read for them
+ */
+async function postMessage(conversationId: number, sender: { id: number; name: string }, content: string) {
+  const message = await db.transaction(async (tx) => {
+    const now = new Date();
+
+    const [message] = await tx.insert(messages).values({
+      conversationId,
+      senderId: sender.id,
+      senderName: sender.name,
+      content,
+      timestamp: now
+    }).returning();
+
+    await tx.update(conversations)
+      .set({ lastMessageAt: now })
+      .where(eq(conversations.id, conversationId));
+
+    await tx.update(conversationParticipants)
+      .set({ lastReadAt: now })
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, sender.id)
+      ));
+
+    return message;
+  });
+
+  await notifyParticipants(conversationId, {
+    type: 'message.created',
+    conversationId,
+    messageId: message.id,
+    senderId: sender.id
+  });
+
+  return message;
+}
+
+type ConversationLinks = { subject?: string; tourId?: number; tourVenueId?: number; inquiryId?: number };
+
+/**
+ * Find the first record a new conversation would link to that the user can't see
+ * Tours need tour access; tour venues need access to their tour or venue and have to
+ * be on the linked tour, if there is one; inquiries need to be sent by the user or
+ * received by one of their venues.
+ * @returns The kind of record, or null when every link is accessible
+ */
+async function findInaccessibleLink(user: SessionUser, links: ConversationLinks): Promise<string | null> {
+  if (links.tourId && !(await checkTourAccess(user, links.tourId))) {
+    return 'tour';
+  }
+
+  if (links.tourVenueId) {
+    const tourVenue = await db.query.tourVenues.findFirst({
+      where: eq(tourVenues.id, links.tourVenueId),
+      columns: { tourId: true, venueId: true }
+    });
+    const accessible = !!tourVenue &&
+      (!links.tourId || tourVenue.tourId === links.tourId) &&
+      ((await checkTourAccess(user, tourVenue.tourId)) || (await checkVenueAccess(user, tourVenue.venueId)));
+    if (!accessible) {
+      return 'tour venue';
+    }
+  }
+
+  if (links.inquiryId) {
+    const inquiry = await storage.getInquiry(links.inquiryId);
+    const accessible = !!inquiry &&
+      (inquiry.senderId === user.id || (await checkVenueAccess(user, inquiry.venueId)));
+    if (!accessible) {
+      return 'inquiry';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create a conversation with the given participants (the creator is always included)
+ */
+async function createConversation(
+  creatorId: number,
+  participantIds: number[],
+  links: ConversationLinks
+) {
+  const memberIds = Array.from(new Set([creatorId, ...participantIds]));
+
+  return await db.transaction(async (tx) => {
+    const [conversation] = await tx.insert(conversations).values({
+      createdById: creatorId,
+      subject: links.subject ?? null,
+      tourId: links.tourId ?? null,
+      tourVenueId: links.tourVenueId ?? null,
+      inquiryId: links.inquiryId ?? null
+    }).returning();
+
+    await tx.insert(conversationParticipants).values(
+      memberIds.map(userId => ({
+        conversationId: conversation.id,
+        userId,
+        lastReadAt: userId === creatorId ? new Date() : null
+      }))
+    );
+
+    return conversation;
+  });
+}
+
+/**
+ * Load participants (with read receipts) for a set of conversations
+ */
+async function getParticipants(conversationIds: number[]) {
+  if (conversationIds.length === 0) {
+    return [];
+  }
+
+  return await db
+    .select({
+      conversationId: conversationParticipants.conversationId,
+      userId: conversationParticipants.userId,
+      name: users.name,
+      username: users.username,
+      lastReadAt: conversationParticipants.lastReadAt
+    })
+    .from(conversationParticipants)
+    .innerJoin(users, eq(conversationParticipants.userId, users.id))
+    .where(inArray(conversationParticipants.conversationId, conversationIds));
+}
+
+/**
+ * List the current user's conversations with their last message and unread count
+ * Optional filters: tourId, tourVenueId, inquiryId
+ * Route: /api/messages/conversations
+ */
+router.get('/conversations', async (req, res) => {
+  try {
+    const userId = req.session.user!.id;
+    const filters = [eq(conversationParticipants.userId, userId)];
+
+    for (const key of ['tourId', 'tourVenueId', 'inquiryId'] as const) {
+      if (req.query[key]) {
+        const value = parseInt(req.query[key] as string);
+        if (isNaN(value)) {
+          return res.status(400).json({ error: `Invalid ${key}` });
+        }
+        filters.push(eq(conversations[key], value));
+      }
+    }
+
+    const rows = await db
+      .select({
+        conversation: conversations,
+        lastReadAt: conversationParticipants.lastReadAt,
+        unreadCount: sql<number>`(
+          SELECT COUNT(*)::int FROM ${messages}
+          WHERE ${messages.conversationId} = ${conversations.id}
+          AND ${messages.senderId} IS DISTINCT FROM ${userId}
+          AND (${conversationParticipants.lastReadAt} IS NULL OR ${messages.timestamp} > ${conversationParticipants.lastReadAt})
+        )`
+      })
+      .from(conversationParticipants)
+      .innerJoin(conversations, eq(conversationParticipants.conversationId, conversations.id))
+      .where(and(...filters))
+      .orderBy(desc(conversations.lastMessageAt));
+
+    const conversationIds = rows.map(row => row.conversation.id);
+
+    const lastMessages = conversationIds.length > 0
+      ? await db
+          .selectDistinctOn([messages.conversationId])
+          .from(messages)
+          .where(inArray(messages.conversationId, conversationIds))
+          .orderBy(messages.conversationId, desc(messages.timestamp))
+      : [];
+
+    const participants = await getParticipants(conversationIds);
+
+    return res.json(rows.map(row => ({
+      ...row.conversation,
+      unreadCount: row.unreadCount,
+      lastReadAt: row.lastReadAt,
+      lastMessage: lastMessages.find(message => message.conversationId === row.conversation.id) || null,
+      participants: participants.filter(p => p.conversationId === row.conversation.id)
+    })));
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    return res.status(500).json({ error: 'Failed to load conversations' });
+  }
+});
+
+/**
+ * Start a new conversation, optionally linked to a tour, tour venue or inquiry the user can access
+ * Route: /api/messages/conversations
+ */
+router.post('/conversations', hasPermission('canSendMessages'), async (req, res) => {
+  try {
+    const result = createConversationSchema.safeParse(req.body);
+
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    const { participantIds, content, ...links } = result.data;
+    const sender = req.session.user!;
+
+    // Linking a thread shows its participants the record's title, so the creator needs access to it
+    const inaccessible = await findInaccessibleLink(sender, links);
+    if (inaccessible) {
+      return res.status(404).json({ error: `Linked ${inaccessible} not found` });
+    }
+
+    const existingUsers = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(inArray(users.id, participantIds));
+
+    if (existingUsers.length !== new Set(participantIds).size) {
+      return res.status(404).json({ error: 'One or more participants do not exist' });
+    }
+
+    const conversation = await createConversation(sender.id, participantIds, links);
+    const message = content ? await postMessage(conversation.id, sender, content) : null;
+
+    return res.status(201).json({ ...conversation, lastMessage: message });
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+    return res.status(500).json({ error: 'Failed to create conversation' });
+  }
+});
+
+/**
+ * Get a conversation with its messages and participants' read receipts
+ * Route: /api/messages/conversations/:id
+ */
+router.get('/conversations/:id', async (req, res) => {
+  try {
+    const conversationId = parseInt(req.params.id);
+
+    if (isNaN(conversationId)) {
+      return res.status(400).json({ error: 'Invalid conversation ID format' });
+    }
+
+    if (!(await getParticipant(conversationId, req.session.user!.id))) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const conversation = await db.query.conversations.findFirst({
+      where: eq(conversations.id, conversationId)
+    });
+
+    const thread = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId))
+      .orderBy(messages.timestamp);
+
+    const participants = await getParticipants([conversationId]);
+
+    return res.json({ ...conversation, messages: thread, participants });
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return res.status(500).json({ error: 'Failed to load conversation' });
+  }
+});
+
+/**
+ * Send a message to a conversation
+ * Route: /api/messages/conversations/:id/messages
+ */
+router.post('/conversations/:id/messages', hasPermission('canSendMessages'), async (req, res) => {
+  try {
+    const conversationId = parseInt(req.params.id);
+
+    if (isNaN(conversationId)) {
+      return res.status(400).json({ error: 'Invalid conversation ID format' });
+    }
+
+    const result = sendMessageSchema.safeParse(req.body);
+
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    const sender = req.session.user!;
+
+    if (!(await getParticipant(conversationId, sender.id))) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const message = await postMessage(conversationId, sender, result.data.content);
+
+    return res.status(201).json(message);
+  } catch (error) {
+    console.error('Error sending message:', error);
+    return res.status(500).json({ error: 'Failed to send message' });
+  }
+});
+
+/**
+ * Mark a conversation as read for the current user
+ * Route: /api/messages/conversations/:id/read
+ */
+router.post('/conversations/:id/read', async (req, res) => {
+  try {
+    const conversationId = parseInt(req.params.id);
+
+    if (isNaN(conversationId)) {
+      return res.status(400).json({ error: 'Invalid conversation ID format' });
+    }
+
+    const [participant] = await db.update(conversationParticipants)
+      .set({ lastReadAt: new Date() })
+      .where(and(
+        eq(conversationParticipants.conversationId, conversationId),
+        eq(conversationParticipants.userId, req.session.user!.id)
+      ))
+      .returning();
+
+    if (!participant) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    // Lets the other participants update their read receipts
+    await notifyParticipants(conversationId, {
+      type: 'conversation.read',
+      conversationId,
+      userId: participant.userId,
+      lastReadAt: participant.lastReadAt!.toISOString()
+    });
+
+    return res.json({ success: true, lastReadAt: participant.lastReadAt });
+  } catch (error) {
+    console.error('Error marking conversation as read:', error);
+    return res.status(500).json({ error: 'Failed to mark conversation as read' });
+  }
+});
+
+/**
+ * Total unread message count across the current user's conversations
+ * Route: /api/messages/unread-count
+ */
+router.get('/unread-count', async (req, res) => {
+  try {
+    const userId = req.session.user!.id;
+
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(messages)
+      .innerJoin(conversationParticipants, and(
+        eq(conversationParticipants.conversationId, messages.conversationId),
+        eq(conversationParticipants.userId, userId)
+      ))
+      .where(and(
+        sql`${messages.senderId} IS DISTINCT FROM ${userId}`,
+        sql`(${conversationParticipants.lastReadAt} IS NULL OR ${messages.timestamp} > ${conversationParticipants.lastReadAt})`
+      ));
+
+    return res.json({ unreadCount: result?.count ?? 0 });
+  } catch (error) {
+    console.error('Error counting unread messages:', error);
+    return res.status(500).json({ error: 'Failed to count unread messages' });
+  }
+});
+
+/**
+ * Recent messages across all of the current user's conversations
+ * Route: /api/messages
+ */
+router.get('/', async (req, res) => {
+  try {
+    const recent = await db
+      .select({ message: messages })
+      .from(messages)
+      .innerJoin(conversationParticipants, and(
+        eq(conversationParticipants.conversationId, messages.conversationId),
+        eq(conversationParticipants.userId, req.session.user!.id)
+      ))
+      .orderBy(desc(messages.timestamp))
+      .limit(100);
+
+    return res.json(recent.map(row => row.message));
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    return res.status(500).json({ error: 'Failed to load messages' });
+  }
+});
+
+/**
+ * Send a direct message to another user
+ * Reuses the unlinked two-person conversation between them, creating it if needed
+ * Route: /api/messages
+ */
+router.post('/', hasPermission('canSendMessages'), async (req, res) => {
+  try {
+    const result = directMessageSchema.safeParse(req.body);
+
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    const sender = req.session.user!;
+    const { recipientId, content } = result.data;
+
+    if (recipientId === sender.id) {
+      return res.status(400).json({ error: 'You cannot message yourself' });
+    }
+
+    const recipient = await db.query.users.findFirst({
+      where: eq(users.id, recipientId),
+      columns: { id: true }
+    });
+
+    if (!recipient) {
+      return res.status(404).json({ error: 'Recipient not found' });
+    }
+
+    const [direct] = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .where(and(
+        isNull(conversations.tourId),
+        isNull(conversations.tourVenueId),
+        isNull(conversations.inquiryId),
+        sql`(SELECT array_agg(${conversationParticipants.userId} ORDER BY ${conversationParticipants.userId})
+             FROM ${conversationParticipants}
+             WHERE ${conversationParticipants.conversationId} = ${conversations.id})
+            = ARRAY[${Math.min(sender.id, recipientId)}, ${Math.max(sender.id, recipientId)}]::int[]`
+      ))
+      .limit(1);
+
+    const conversationId = direct
+      ? direct.id
+      : (await createConversation(sender.id, [recipientId], {})).id;
+
+    const message = await postMessage(conversationId, sender, content);
+
+    return res.status(201).json(message);
+  } catch (error) {
+    console.error('Error sending direct message:', error);
+    return res.status(500).json({ error: 'Failed to send message' });
+  }
+});
+
+export default router;
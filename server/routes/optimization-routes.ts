@@ -0,0 +1,194 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { isSolverName, tourSolvers, type SolverName } from '../../shared/utils/tour-solver';
+import {
+  OPTIMIZATION_API_VERSION,
+  OptimizationApplyError,
+  applyOptimization,
+  diffOptimizationRuns,
+  listOptimizationRuns,
+  loadOptimizationContext,
+  optimizationGoals,
+  optimizationStrategies,
+  optimizationStrategyNames,
+  optimizeTour,
+  rollbackToRun
+} from '../services/optimization';
+import { HoldLedgerError } from '../services/hold-ledger';
+
+const router = express.Router();
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const optimizeSchema = z.object({
+  strategy: z.enum(optimizationStrategyNames).default('standard'),
+  options: z.object({
+    optimizeFor: z.enum(optimizationGoals).optional(),
+    respectFixedDates: z.boolean().optional(),
+    preferredDates: z.record(z.coerce.number().int(), dateSchema).optional(),
+    avoidDates: z.array(dateSchema).optional(),
+    minDaysBetweenShows: z.number().int().min(0).optional(),
+    maxDaysBetweenShows: z.number().int().positive().optional(),
+    requiredDaysOff: z.array(z.string()).optional(),
+    maxTravelDistancePerDay: z.number().positive().optional(),
+    solver: z.custom<SolverName>(isSolverName, 'Unknown solver').optional(),
+    seed: z.number().int().optional()
+  }).default({})
+});
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive()
+});
+
+const applySchema = z.object({
+  runId: z.number().int().positive(),
+  // Stops of the run to apply; the whole route when left out
+  stops: z.array(z.object({
+    tourVenueId: z.number().int().positive().optional(),
+    venueId: z.number().int().positive()
+  })).min(1).optional()
+});
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+  if (error instanceof OptimizationApplyError || error instanceof HoldLedgerError) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * Available optimization strategies
+ * Route: /api/v1/optimization/strategies
+ */
+router.get('/strategies', (_req, res) => {
+  res.json({
+    version: OPTIMIZATION_API_VERSION,
+    strategies: Object.values(optimizationStrategies).map(({ name, description }) => ({ name, description })),
+    solvers: Object.keys(tourSolvers)
+  });
+});
+
+/**
+ * Optimize a tour without changing it
+ * Route: /api/v1/optimization/tours/:tourId/optimize
+ */
+router.post('/tours/:tourId/optimize', async (req, res) => {
+  try {
+    const tourId = parseInt(req.params.tourId);
+    if (isNaN(tourId)) {
+      return res.status(400).json({ error: 'Invalid tour ID' });
+    }
+
+    const request = optimizeSchema.parse(req.body ?? {});
+    const context = await loadOptimizationContext(tourId);
+
+    if (!context) {
+      return res.status(404).json({ error: 'Tour not found' });
+    }
+
+    if (context.stops.length < 2) {
+      return res.status(400).json({ error: 'Tour optimization requires at least 2 venues with coordinates' });
+    }
+
+    return res.json(await optimizeTour(context, request, req.session.user?.id));
+  } catch (error) {
+    return handleError(res, error, 'optimize tour');
+  }
+});
+
+/**
+ * Write an optimization run's route to a tour, or the chosen stops of it
+ * Route: /api/v1/optimization/tours/:tourId/apply
+ */
+router.post('/tours/:tourId/apply', async (req, res) => {
+  try {
+    const tourId = parseInt(req.params.tourId);
+    if (isNaN(tourId)) {
+      return res.status(400).json({ error: 'Invalid tour ID' });
+    }
+
+    const applied = await applyOptimization(tourId, applySchema.parse(req.body), req.session.user?.id);
+
+    if (!applied) {
+      return res.status(404).json({ error: 'Tour or optimization run not found' });
+    }
+
+    return res.json(applied);
+  } catch (error) {
+    return handleError(res, error, 'apply optimization');
+  }
+});
+
+/**
+ * A tour's optimization runs, newest first
+ * Route: /api/v1/optimization/tours/:tourId/runs
+ */
+router.get('/tours/:tourId/runs', async (req, res) => {
+  try {
+    const tourId = parseInt(req.params.tourId);
+    if (isNaN(tourId)) {
+      return res.status(400).json({ error: 'Invalid tour ID' });
+    }
+
+    return res.json(await listOptimizationRuns(tourId));
+  } catch (error) {
+    return handleError(res, error, 'list optimization runs');
+  }
+});
+
+/**
+ * Venue by venue difference between two runs of a tour
+ * Route: /api/v1/optimization/tours/:tourId/runs/diff?from=:runId&to=:runId
+ */
+router.get('/tours/:tourId/runs/diff', async (req, res) => {
+  try {
+    const tourId = parseInt(req.params.tourId);
+    if (isNaN(tourId)) {
+      return res.status(400).json({ error: 'Invalid tour ID' });
+    }
+
+    const { from, to } = diffQuerySchema.parse(req.query);
+    const diff = await diffOptimizationRuns(tourId, from, to);
+
+    if (!diff) {
+      return res.status(404).json({ error: 'Optimization run not found' });
+    }
+
+    return res.json(diff);
+  } catch (error) {
+    return handleError(res, error, 'compare optimization runs');
+  }
+});
+
+/**
+ * Roll a tour back to the venue order and dates a run started from
+ * Route: /api/v1/optimization/tours/:tourId/runs/:runId/rollback
+ */
+router.post('/tours/:tourId/runs/:runId/rollback', async (req, res) => {
+  try {
+    const tourId = parseInt(req.params.tourId);
+    const runId = parseInt(req.params.runId);
+    if (isNaN(tourId) || isNaN(runId)) {
+      return res.status(400).json({ error: 'Invalid tour or run ID' });
+    }
+
+    const rolledBack = await rollbackToRun(tourId, runId, req.session.user?.id);
+
+    if (!rolledBack) {
+      return res.status(404).json({ error: 'Tour or optimization run not found' });
+    }
+
+    return res.json(rolledBack);
+  } catch (error) {
+    return handleError(res, error, 'roll back tour');
+  }
+});
+
+export default router;
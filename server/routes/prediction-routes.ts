@@ -0,0 +1,137 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { db } from '../db';
+import { storage } from '../storage';
+import { predictions, predictionStatuses } from '../../shared/schema';
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { checkVenueAccess, VENUE_EDITOR_ROLES } from '../middleware/auth-middleware';
+import { runPredictionJob } from '../services/prediction-engine';
+
+const router = express.Router();
+
+const listQuerySchema = z.object({
+  status: z.enum(predictionStatuses).default('pending')
+});
+
+const generateSchema = z.object({
+  venueId: z.number().int().positive()
+});
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * Artists likely passing through a venue's city, highest confidence first
+ * Defaults to the session's current venue and to predictions still awaiting review
+ * Route: /api/predictions?venueId=&status=
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { status } = listQuerySchema.parse(req.query);
+    const venueId = parseInt(String(req.query.venueId ?? req.session.currentVenueId));
+
+    if (isNaN(venueId)) {
+      return res.status(400).json({ error: 'Venue ID is required' });
+    }
+
+    if (!(await checkVenueAccess(req.session.user!, venueId))) {
+      return res.status(403).json({ error: 'You do not have access to this venue' });
+    }
+
+    const venuePredictions = await db.query.predictions.findMany({
+      where: and(eq(predictions.venueId, venueId), eq(predictions.status, status)),
+      with: {
+        artist: true,
+        venue: true,
+        gapBeforeEventRel: { with: { venue: { columns: { id: true, name: true, city: true } } } },
+        gapAfterEventRel: { with: { venue: { columns: { id: true, name: true, city: true } } } }
+      },
+      orderBy: [desc(predictions.confidenceScore), asc(predictions.suggestedDate)]
+    });
+
+    return res.json(venuePredictions);
+  } catch (error) {
+    return handleError(res, error, 'load predictions');
+  }
+});
+
+/**
+ * Re-run the prediction job for one venue
+ * Route: /api/predictions/generate
+ */
+router.post('/generate', async (req, res) => {
+  try {
+    const { venueId } = generateSchema.parse(req.body);
+
+    if (!(await checkVenueAccess(req.session.user!, venueId, VENUE_EDITOR_ROLES))) {
+      return res.status(403).json({ error: 'Only venue owners and bookers can refresh predictions' });
+    }
+
+    const [result] = await runPredictionJob([venueId]);
+    return res.json(result);
+  } catch (error) {
+    return handleError(res, error, 'generate predictions');
+  }
+});
+
+/**
+ * Accept or dismiss a pending prediction
+ */
+function reviewPrediction(status: 'accepted' | 'dismissed') {
+  return async (req: express.Request, res: express.Response) => {
+    const action = status === 'accepted' ? 'accept prediction' : 'dismiss prediction';
+
+    try {
+      const predictionId = parseInt(req.params.id);
+
+      if (isNaN(predictionId)) {
+        return res.status(400).json({ error: 'Invalid prediction ID format' });
+      }
+
+      const prediction = await storage.getPrediction(predictionId);
+
+      if (!prediction || !(await checkVenueAccess(req.session.user!, prediction.venueId))) {
+        return res.status(404).json({ error: 'Prediction not found' });
+      }
+
+      if (!(await checkVenueAccess(req.session.user!, prediction.venueId, VENUE_EDITOR_ROLES))) {
+        return res.status(403).json({ error: 'Only venue owners and bookers can review predictions' });
+      }
+
+      if (prediction.status !== 'pending') {
+        return res.status(409).json({ error: `Prediction is already ${prediction.status}` });
+      }
+
+      const updated = await storage.updatePrediction(predictionId, {
+        status,
+        respondedById: req.session.user!.id,
+        respondedAt: new Date()
+      });
+
+      return res.json(updated);
+    } catch (error) {
+      return handleError(res, error, action);
+    }
+  };
+}
+
+/**
+ * Accept a prediction so the artist stays on the venue's shortlist
+ * Route: /api/predictions/:id/accept
+ */
+router.post('/:id/accept', reviewPrediction('accepted'));
+
+/**
+ * Dismiss a prediction; the job will not suggest the same gap again
+ * Route: /api/predictions/:id/dismiss
+ */
+router.post('/:id/dismiss', reviewPrediction('dismissed'));
+
+export default router;
@@ -0,0 +1,133 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { hasPermission } from '../middleware/auth-middleware';
+import {
+  createRadiusClause,
+  deleteRadiusClause,
+  findArtistRadiusConflicts,
+  findTourRadiusConflicts,
+  listRadiusClauses,
+  type BookingRef
+} from '../services/radius-clauses';
+
+const router = express.Router();
+
+const bookingSchema = z.union([
+  z.object({ tourVenueId: z.coerce.number().int().positive() }),
+  z.object({ eventId: z.coerce.number().int().positive() })
+]);
+
+const clauseSchema = z.object({
+  radiusKm: z.number().positive(),
+  daysBefore: z.number().int().nonnegative(),
+  daysAfter: z.number().int().nonnegative(),
+  notes: z.string().nullable().optional()
+});
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * Radius clauses of a booking
+ * Route: /api/radius-clauses?tourVenueId=:id or ?eventId=:id
+ */
+router.get('/', async (req, res) => {
+  try {
+    const booking: BookingRef = bookingSchema.parse(req.query);
+    const clauses = await listRadiusClauses(booking);
+    if (!clauses) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    return res.json(clauses);
+  } catch (error) {
+    return handleError(res, error, 'load radius clauses');
+  }
+});
+
+/**
+ * Add a radius clause to a tour venue or event
+ * Route: /api/radius-clauses
+ */
+router.post('/', hasPermission('canManageTours'), async (req, res) => {
+  try {
+    const booking: BookingRef = bookingSchema.parse(req.body);
+    const clause = await createRadiusClause(booking, clauseSchema.parse(req.body), req.session.user?.id);
+    if (!clause) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    return res.status(201).json(clause);
+  } catch (error) {
+    return handleError(res, error, 'add radius clause');
+  }
+});
+
+/**
+ * Remove a radius clause
+ * Route: /api/radius-clauses/:id
+ */
+router.delete('/:id', hasPermission('canManageTours'), async (req, res) => {
+  try {
+    const clauseId = parseInt(req.params.id);
+    if (isNaN(clauseId)) {
+      return res.status(400).json({ error: 'Invalid radius clause ID' });
+    }
+
+    if (!await deleteRadiusClause(clauseId)) {
+      return res.status(404).json({ error: 'Radius clause not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    return handleError(res, error, 'remove radius clause');
+  }
+});
+
+/**
+ * Radius clause conflicts involving a tour's venues
+ * Route: /api/radius-clauses/tours/:id/conflicts
+ */
+router.get('/tours/:id/conflicts', async (req, res) => {
+  try {
+    const tourId = parseInt(req.params.id);
+    if (isNaN(tourId)) {
+      return res.status(400).json({ error: 'Invalid tour ID' });
+    }
+
+    const conflicts = await findTourRadiusConflicts(tourId);
+    if (!conflicts) {
+      return res.status(404).json({ error: 'Tour not found' });
+    }
+
+    return res.json(conflicts);
+  } catch (error) {
+    return handleError(res, error, 'check radius clauses');
+  }
+});
+
+/**
+ * Radius clause conflicts across all of an artist's events and tours
+ * Route: /api/radius-clauses/artists/:id/conflicts
+ */
+router.get('/artists/:id/conflicts', async (req, res) => {
+  try {
+    const artistId = parseInt(req.params.id);
+    if (isNaN(artistId)) {
+      return res.status(400).json({ error: 'Invalid artist ID' });
+    }
+
+    return res.json(await findArtistRadiusConflicts(artistId));
+  } catch (error) {
+    return handleError(res, error, 'check radius clauses');
+  }
+});
+
+export default router;
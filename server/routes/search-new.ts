@@ -17,6 +17,7 @@ import {
   findRelatedGenresByArtistOverlap,
   getGenreWithChildren
 } from '../helpers/genre-utils';
+import { isAuthenticated } from '../middleware/auth-middleware';
 
 const router = Router();
 
@@ -43,7 +44,7 @@ const searchQuerySchema = z.object({
 });
 
 // Event search endpoint
-router.get('/search/events', async (req, res) => {
+router.get('/search/events', isAuthenticated, async (req, res) => {
   try {
     // Validate query parameters
     const result = searchQuerySchema.safeParse(req.query);
@@ -194,7 +195,7 @@ router.get('/search/events', async (req, res) => {
 });
 
 // Artist search endpoint
-router.get('/search/artists', async (req, res) => {
+router.get('/search/artists', isAuthenticated, async (req, res) => {
   try {
     // Validate query parameters
     console.log('Artist search query params:', req.query);
@@ -362,7 +363,7 @@ router.get('/search/artists', async (req, res) => {
 });
 
 // Get all genres with hierarchical structure
-router.get('/search/genres', async (req, res) => {
+router.get('/search/genres', isAuthenticated, async (req, res) => {
   try {
     // Get all root (parent) genres
     const rootGenres = await db
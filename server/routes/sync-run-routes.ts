@@ -0,0 +1,115 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { syncRunStatuses } from '../../shared/utils/sync-runs';
+import {
+  SyncRetryError,
+  getSyncRun,
+  listSyncRunErrors,
+  listSyncRuns,
+  retryFailedItems
+} from '../services/sync-runs';
+
+const router = express.Router();
+
+const listQuerySchema = z.object({
+  source: z.string().min(1).optional(),
+  operation: z.string().min(1).optional(),
+  status: z.enum(syncRunStatuses).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+const errorQuerySchema = z.object({
+  runId: z.coerce.number().int().positive().optional(),
+  source: z.string().min(1).optional(),
+  operation: z.string().min(1).optional(),
+  retryable: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+});
+
+const retrySchema = z.object({
+  errorIds: z.array(z.number().int().positive()).optional()
+});
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+  if (error instanceof SyncRetryError) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * Most recent sync runs
+ * Route: /api/admin/sync-runs?source=&operation=&status=&limit=
+ */
+router.get('/', async (req, res) => {
+  try {
+    return res.json(await listSyncRuns(listQuerySchema.parse(req.query)));
+  } catch (error) {
+    return handleError(res, error, 'load sync runs');
+  }
+});
+
+/**
+ * Failed items across runs, with the run each belongs to
+ * Route: /api/admin/sync-runs/errors?runId=&source=&operation=&retryable=&limit=
+ */
+router.get('/errors', async (req, res) => {
+  try {
+    return res.json(await listSyncRunErrors(errorQuerySchema.parse(req.query)));
+  } catch (error) {
+    return handleError(res, error, 'load sync errors');
+  }
+});
+
+/**
+ * A sync run with its failed items
+ * Route: /api/admin/sync-runs/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const runId = parseInt(req.params.id);
+    if (isNaN(runId)) {
+      return res.status(400).json({ error: 'Invalid sync run ID' });
+    }
+
+    const run = await getSyncRun(runId);
+    if (!run) {
+      return res.status(404).json({ error: 'Sync run not found' });
+    }
+
+    return res.json(run);
+  } catch (error) {
+    return handleError(res, error, 'load sync run');
+  }
+});
+
+/**
+ * Queue jobs to process a run's failed items again, all of them or the ones given
+ * Route: /api/admin/sync-runs/:id/retry
+ */
+router.post('/:id/retry', async (req, res) => {
+  try {
+    const runId = parseInt(req.params.id);
+    if (isNaN(runId)) {
+      return res.status(400).json({ error: 'Invalid sync run ID' });
+    }
+
+    const { errorIds } = retrySchema.parse(req.body ?? {});
+    const jobs = await retryFailedItems(runId, errorIds, req.session.user!.id);
+    if (!jobs) {
+      return res.status(404).json({ error: 'Sync run not found' });
+    }
+
+    return res.status(201).json(jobs);
+  } catch (error) {
+    return handleError(res, error, 'retry failed items');
+  }
+});
+
+export default router;
@@ -0,0 +1,156 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { hasPermission } from '../middleware/auth-middleware';
+import {
+  getTourFinances,
+  recordShowActuals,
+  saveShowDeal,
+  saveTourBudget
+} from '../services/tour-finance';
+
+const router = express.Router();
+
+const money = z.number().nonnegative();
+const percent = z.number().min(0).max(100);
+
+const budgetSchema = z.object({
+  totalBudget: money.nullable().optional(),
+  currency: z.string().trim().length(3).transform(code => code.toUpperCase()).optional(),
+  fuelCostPerKm: money.nullable().optional(),
+  lodgingPerNight: money.nullable().optional(),
+  perDiem: money.nullable().optional(),
+  partySize: z.number().int().positive().nullable().optional()
+});
+
+const dealSchema = z.object({
+  guarantee: money.optional(),
+  doorSplitPercent: percent.optional(),
+  ticketPrice: money.nullable().optional(),
+  barSplitPercent: percent.optional(),
+  merchSplitPercent: percent.optional(),
+  projectedTickets: z.number().int().nonnegative().nullable().optional(),
+  projectedBarSales: money.nullable().optional(),
+  projectedMerchSales: money.nullable().optional(),
+  lodgingCost: money.nullable().optional(),
+  otherExpenses: money.nullable().optional(),
+  notes: z.string().nullable().optional()
+});
+
+const actualsSchema = z.object({
+  actualTickets: z.number().int().nonnegative(),
+  actualBarSales: money.nullable().optional(),
+  actualMerchSales: money.nullable().optional(),
+  actualExpenses: money.nullable().optional(),
+  notes: z.string().nullable().optional()
+});
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+function parseIds(params: Record<string, string>): { tourId: number; tourVenueId: number } | null {
+  const tourId = parseInt(params.id);
+  const tourVenueId = parseInt(params.tourVenueId);
+  return isNaN(tourId) || isNaN(tourVenueId) ? null : { tourId, tourVenueId };
+}
+
+/**
+ * Projected and actual settlement of each show and the tour P&L
+ * Route: /api/tours/:id/finances
+ */
+router.get('/:id/finances', async (req, res) => {
+  try {
+    const tourId = parseInt(req.params.id);
+    if (isNaN(tourId)) {
+      return res.status(400).json({ error: 'Invalid tour ID' });
+    }
+
+    const finances = await getTourFinances(tourId);
+    if (!finances) {
+      return res.status(404).json({ error: 'Tour not found' });
+    }
+
+    return res.json(finances);
+  } catch (error) {
+    return handleError(res, error, 'load tour finances');
+  }
+});
+
+/**
+ * Set the tour's total budget and cost assumptions
+ * Route: /api/tours/:id/budget
+ */
+router.put('/:id/budget', hasPermission('canManageTours'), async (req, res) => {
+  try {
+    const tourId = parseInt(req.params.id);
+    if (isNaN(tourId)) {
+      return res.status(400).json({ error: 'Invalid tour ID' });
+    }
+
+    const budget = await saveTourBudget(tourId, budgetSchema.parse(req.body));
+    if (!budget) {
+      return res.status(404).json({ error: 'Tour not found' });
+    }
+
+    return res.json(budget);
+  } catch (error) {
+    return handleError(res, error, 'save tour budget');
+  }
+});
+
+/**
+ * Set a show's deal and projections
+ * Route: /api/tours/:id/shows/:tourVenueId/deal
+ */
+router.put('/:id/shows/:tourVenueId/deal', hasPermission('canManageTours'), async (req, res) => {
+  try {
+    const ids = parseIds(req.params);
+    if (!ids) {
+      return res.status(400).json({ error: 'Invalid tour or show ID' });
+    }
+
+    const settlement = await saveShowDeal(ids.tourId, ids.tourVenueId, dealSchema.parse(req.body));
+    if (!settlement) {
+      return res.status(404).json({ error: 'Show not found on this tour' });
+    }
+
+    return res.json(settlement);
+  } catch (error) {
+    return handleError(res, error, 'save show deal');
+  }
+});
+
+/**
+ * Enter a show's ticket count and takings after the show and settle it
+ * Route: /api/tours/:id/shows/:tourVenueId/actuals
+ */
+router.put('/:id/shows/:tourVenueId/actuals', hasPermission('canManageTours'), async (req, res) => {
+  try {
+    const ids = parseIds(req.params);
+    if (!ids) {
+      return res.status(400).json({ error: 'Invalid tour or show ID' });
+    }
+
+    const settlement = await recordShowActuals(
+      ids.tourId,
+      ids.tourVenueId,
+      actualsSchema.parse(req.body),
+      req.session.user?.id
+    );
+    if (!settlement) {
+      return res.status(404).json({ error: 'Show not found on this tour' });
+    }
+
+    return res.json(settlement);
+  } catch (error) {
+    return handleError(res, error, 'record show actuals');
+  }
+});
+
+export default router;
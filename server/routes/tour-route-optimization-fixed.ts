@@ -3,16 +3,11 @@ import { db } from '../db';
 import { eq, and, sql } from 'drizzle-orm';
 import { z } from 'zod';
 import { fromZodError } from 'zod-validation-error';
-import { optimizeTourRoute } from '../../shared/utils/tour-optimizer';
-import { calculateDistance, estimateTravelTime } from '../../shared/utils/geo';
+import { recalculateTourRoutes } from '../services/optimization';
 import { 
-  tours, 
-  tourVenues, 
-  tourGaps, 
   venues,
   tourRoutes,
-  insertTourRouteSchema,
-  TourRoute
+  insertTourRouteSchema
 } from '../../shared/schema';
 
 const router = Router();
@@ -117,107 +112,27 @@ router.delete('/tours/:tourId/routes/:routeId', async (req, res) => {
 });
 
 /**
- * Calculate all possible routes for a tour and store them
+ * Recalculate and store the routes between a tour's venues in their current order
  */
 router.post('/tours/:id/calculate-routes', async (req, res) => {
   try {
     const tourId = Number(req.params.id);
-    
-    // Get tour venues
-    const tourVenueResults = await db
-      .select({
-        tourVenue: tourVenues,
-        venue: venues,
-      })
-      .from(tourVenues)
-      .leftJoin(venues, eq(tourVenues.venueId, venues.id))
-      .where(eq(tourVenues.tourId, tourId))
-      .orderBy(tourVenues.sequence);
-    
-    // Extract venues with coordinates
-    const venuesWithCoordinates = tourVenueResults.filter(
-      tv => tv.venue && tv.venue.latitude && tv.venue.longitude
-    );
-    
-    if (venuesWithCoordinates.length < 2) {
+    const result = await recalculateTourRoutes(tourId);
+
+    if (!result) {
+      return res.status(404).json({ error: "Tour not found" });
+    }
+
+    if (result.routes.length === 0) {
       return res.status(400).json({ 
         error: "At least 2 venues with coordinates are required to calculate routes" 
       });
     }
-    
-    // First delete existing routes for this tour
-    await db
-      .delete(tourRoutes)
-      .where(eq(tourRoutes.tourId, tourId));
-    
-    const routes: TourRoute[] = [];
-    
-    // Calculate routes between consecutive venues
-    for (let i = 0; i < venuesWithCoordinates.length - 1; i++) {
-      const current = venuesWithCoordinates[i];
-      const next = venuesWithCoordinates[i + 1];
-      
-      // Skip if venues don't have valid coordinates or IDs
-      if (!current.venue || !next.venue || 
-          !current.venue.latitude || !current.venue.longitude || 
-          !next.venue.latitude || !next.venue.longitude ||
-          !current.venue.id || !next.venue.id) {
-        continue;
-      }
-      
-      // Calculate distance between venues
-      const distance = calculateDistance(
-        Number(current.venue.latitude),
-        Number(current.venue.longitude),
-        Number(next.venue.latitude),
-        Number(next.venue.longitude)
-      );
-      
-      // Estimate travel time
-      const travelTime = estimateTravelTime(distance);
-      
-      // Create route record
-      const routeResult = await db
-        .insert(tourRoutes)
-        .values({
-          tourId: tourId,
-          startVenueId: current.venue.id,
-          endVenueId: next.venue.id,
-          distanceKm: distance,
-          estimatedTravelTimeMinutes: travelTime,
-          optimizationScore: Math.round(100 - Math.min(50, distance / 10)), // Simple score calculation
-        })
-        .returning();
-        
-      if (routeResult && routeResult.length > 0) {
-        routes.push(routeResult[0]);
-      }
-    }
-    
-    // Calculate total distance and time
-    const totalDistance = routes.reduce((sum, route) => {
-      return sum + (typeof route.distanceKm === 'number' ? route.distanceKm : 0);
-    }, 0);
-    
-    const totalTime = routes.reduce((sum, route) => {
-      return sum + (typeof route.estimatedTravelTimeMinutes === 'number' 
-                   ? route.estimatedTravelTimeMinutes : 0);
-    }, 0);
-    
-    // Update tour with calculated metrics
-    await db
-      .update(tours)
-      .set({
-        estimatedTravelDistance: totalDistance,
-        estimatedTravelTime: totalTime,
-        updatedAt: new Date()
-      })
-      .where(eq(tours.id, tourId));
-    
+
     res.json({
-      routes,
-      totalDistance,
-      totalTime
+      routes: result.routes,
+      totalDistance: result.tour.estimatedTravelDistance,
+      totalTime: result.tour.estimatedTravelTime
     });
   } catch (error) {
     console.error("Error calculating tour routes:", error);
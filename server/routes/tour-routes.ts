@@ -2,8 +2,7 @@ import { Router } from 'express';
 import { db } from '../db';
 import { z } from 'zod';
 import { fromZodError } from 'zod-validation-error';
-import { optimizeTourRoute } from '../../shared/utils/tour-optimizer';
-import { calculateDistance, estimateTravelTime } from '../../shared/utils/geo';
+import { calculateDistance } from '../../shared/utils/geo';
 import { 
   tours, 
   tourVenues, 
@@ -22,6 +21,13 @@ import {
   insertVenueTourPreferencesSchema
 } from '../../shared/schema';
 import { and, eq, gte, lte, desc, or, sql, notInArray, isNotNull } from 'drizzle-orm';
+import { hasPermission, hasVenueAccess, VENUE_EDITOR_ROLES } from '../middleware/auth-middleware';
+import { realtime, tourChannel } from '../services/realtime';
+import { publishWebhookEvent } from '../services/outbound-webhooks';
+import { optimizationCache } from '../cache/optimization-cache';
+import { getTourItinerary } from '../services/tour-itinerary';
+import { buildTravelMatrix } from '../services/travel-matrix';
+import { HoldLedgerError, checkTourVenueHold, publishHoldChanges, syncTourVenueHold } from '../services/hold-ledger';
 
 /**
  * Normalize venue status to one of the standardized values
@@ -50,6 +56,9 @@ function normalizeStatus(status: string): string {
 
 const router = Router();
 
+// Day sheet times on a tour venue, HH:MM
+const showTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:MM').nullable().optional();
+
 /**
  * Get venue network graph data for a specific venue
  * This endpoint returns venue network visualization data structured for D3.js
@@ -154,14 +163,14 @@ router.get('/venue-network/graph/:id', async (req, res) => {
           if (!a.latitude || !a.longitude) return 1;
           if (!b.latitude || !b.longitude) return -1;
           
-          const distA = calculateDistanceInMiles(
+          const distA = calculateDistance(
             currentVenueObj.latitude, 
             currentVenueObj.longitude,
             a.latitude,
             a.longitude
           );
           
-          const distB = calculateDistanceInMiles(
+          const distB = calculateDistance(
             currentVenueObj.latitude, 
             currentVenueObj.longitude,
             b.latitude,
@@ -196,26 +205,30 @@ router.get('/venue-network/graph/:id', async (req, res) => {
   }
 });
 
+type VenueRecord = typeof venues.$inferSelect;
+
 /**
- * Calculate distance between two coordinates in miles (legacy implementation)
- * This is kept for backward compatibility with existing code
+ * Distance (km) and travel time (minutes) of the leg from the previous venue, as
+ * measured by the travel matrix provider
  */
-function calculateDistanceInMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  if (!lat1 || !lon1 || !lat2 || !lon2 || 
-      Math.abs(lat1) > 90 || Math.abs(lat2) > 90 ||
-      Math.abs(lon1) > 180 || Math.abs(lon2) > 180) {
-    return 9999;
-  }
-  
-  // Use our new km-based distance calculator and convert to miles
-  const distanceKm = calculateDistance(lat1, lon1, lat2, lon2);
-  return distanceKm * 0.621371; // Convert km to miles
+async function legFromPrevious(previous: VenueRecord, current: VenueRecord) {
+  const points = [previous, current].map(venue => ({
+    venueId: venue.id,
+    latitude: venue.latitude,
+    longitude: venue.longitude,
+    country: venue.country
+  }));
+  const leg = (await buildTravelMatrix(points)).leg(points[0], points[1]);
+  return {
+    travelDistanceFromPrevious: leg.distanceKm,
+    travelTimeFromPrevious: Math.round(leg.travelTimeMinutes)
+  };
 }
 
 /**
  * Create a venue network connection
  */
-router.post('/venue-network', async (req, res) => {
+router.post('/venue-network', hasPermission('canManageTours'), async (req, res) => {
   try {
     // Validate request body
     const validatedData = z.object({
@@ -556,10 +569,29 @@ router.get('/:id/gaps', async (req, res) => {
   }
 });
 
+/**
+ * Get the day-by-day itinerary of a tour: shows, travel days and off days, with the
+ * shows that break the artist's daily driving limit or days off
+ */
+router.get('/:id/itinerary', async (req, res) => {
+  try {
+    const itinerary = await getTourItinerary(Number(req.params.id));
+
+    if (!itinerary) {
+      return res.status(404).json({ error: "Tour not found" });
+    }
+
+    res.json(itinerary);
+  } catch (error) {
+    console.error("Error building tour itinerary:", error);
+    res.status(500).json({ error: "Failed to build tour itinerary" });
+  }
+});
+
 /**
  * Create a new tour
  */
-router.post('/', async (req, res) => {
+router.post('/', hasPermission('canManageTours'), async (req, res) => {
   try {
     // Validate request body
     const validatedData = insertTourSchema.parse(req.body);
@@ -585,7 +617,7 @@ router.post('/', async (req, res) => {
 /**
  * Add a venue to a tour
  */
-router.post('/:tourId/venues', async (req, res) => {
+router.post('/:tourId/venues', hasPermission('canManageTours'), async (req, res) => {
   try {
     const tourId = Number(req.params.tourId);
     // Invalidate optimization cache when venues change
@@ -638,32 +670,37 @@ router.post('/:tourId/venues', async (req, res) => {
         const prevVenue = previousVenueResult[0].venue;
         const currVenue = currentVenueResult[0];
         
-        if (prevVenue.latitude && prevVenue.longitude && currVenue.latitude && currVenue.longitude) {
-          const distance = calculateDistanceInMiles(
-            Number(prevVenue.latitude),
-            Number(prevVenue.longitude),
-            Number(currVenue.latitude),
-            Number(currVenue.longitude)
-          );
-          
-          validatedData.travelDistanceFromPrevious = distance;
-          validatedData.travelTimeFromPrevious = estimateTravelTime(distance);
+        if (prevVenue && prevVenue.latitude && prevVenue.longitude && currVenue.latitude && currVenue.longitude) {
+          validatedData = { ...validatedData, ...await legFromPrevious(prevVenue, currVenue) };
         }
       }
     }
     
-    // Add the venue to the tour
-    const result = await db
-      .insert(tourVenues)
-      .values(validatedData)
-      .returning();
+    // Add the venue to the tour; holds and confirmations have to fit the venue's hold ledger for the date
+    const { tourVenue, holdChanges } = await db.transaction(async (tx) => {
+      await checkTourVenueHold({
+        venueId: validatedData.venueId,
+        status: validatedData.status ?? null,
+        date: validatedData.date ?? null
+      }, tx);
+      
+      const [tourVenue] = await tx
+        .insert(tourVenues)
+        .values(validatedData)
+        .returning();
+      return { tourVenue, holdChanges: await syncTourVenueHold(tourVenue, tx) };
+    });
+    publishHoldChanges(holdChanges);
     
-    res.json(result[0]);
+    res.json(tourVenue);
   } catch (error) {
     if (error instanceof z.ZodError) {
       const validationError = fromZodError(error);
       return res.status(400).json({ error: validationError.message });
     }
+    if (error instanceof HoldLedgerError) {
+      return res.status(409).json({ error: error.message });
+    }
     
     console.error("Error adding venue to tour:", error);
     res.status(500).json({ error: "Failed to add venue to tour" });
@@ -673,7 +710,7 @@ router.post('/:tourId/venues', async (req, res) => {
 /**
  * Update tour status
  */
-router.patch('/:id', async (req, res) => {
+router.patch('/:id', hasPermission('canManageTours'), async (req, res) => {
   try {
     const tourId = Number(req.params.id);
     
@@ -734,7 +771,7 @@ router.patch('/:id', async (req, res) => {
 /**
  * Update a tour venue
  */
-router.patch('/:tourId/venues/:venueId', async (req, res) => {
+router.patch('/:tourId/venues/:venueId', hasPermission('canManageTours'), async (req, res) => {
   try {
     const tourId = Number(req.params.tourId);
     const venueId = Number(req.params.venueId);
@@ -770,6 +807,11 @@ router.patch('/:tourId/venues/:venueId', async (req, res) => {
       date: z.string().transform(s => new Date(s)).optional(),
       sequence: z.number().optional(),
       notes: z.string().optional(),
+      loadInTime: showTime,
+      soundcheckTime: showTime,
+      doorsTime: showTime,
+      setTime: showTime,
+      accommodation: z.string().nullable().optional(),
     }).parse(req.body);
     
     // Prepare update data
@@ -782,6 +824,9 @@ router.patch('/:tourId/venues/:venueId', async (req, res) => {
     if (validatedData.date !== undefined) updateData.date = validatedData.date;
     if (validatedData.sequence !== undefined) updateData.sequence = validatedData.sequence;
     if (validatedData.notes !== undefined) updateData.notes = validatedData.notes;
+    for (const field of ['loadInTime', 'soundcheckTime', 'doorsTime', 'setTime', 'accommodation'] as const) {
+      if (validatedData[field] !== undefined) updateData[field] = validatedData[field];
+    }
     
     // If sequence is updated, we may need to recalculate travel distances
     if (validatedData.sequence !== undefined && validatedData.sequence > 1) {
@@ -815,25 +860,44 @@ router.patch('/:tourId/venues/:venueId', async (req, res) => {
         if (prevVenue && currVenue && 
             prevVenue.latitude && prevVenue.longitude && 
             currVenue.latitude && currVenue.longitude) {
-          const distance = calculateDistanceInMiles(
-            Number(prevVenue.latitude),
-            Number(prevVenue.longitude),
-            Number(currVenue.latitude),
-            Number(currVenue.longitude)
-          );
-          
-          updateData.travelDistanceFromPrevious = distance;
-          updateData.travelTimeFromPrevious = estimateTravelTime(distance);
+          Object.assign(updateData, await legFromPrevious(prevVenue, currVenue));
         }
       }
     }
     
-    // Update the tour venue
-    const result = await db
-      .update(tourVenues)
-      .set(updateData)
-      .where(eq(tourVenues.id, venueId))
-      .returning();
+    // Update the tour venue; holds and confirmations have to fit the venue's hold ledger for the date
+    const bookingChanged = validatedData.status !== undefined || validatedData.date !== undefined;
+    const { result, holdChanges } = await db.transaction(async (tx) => {
+      if (bookingChanged) {
+        await checkTourVenueHold({
+          id: venueId,
+          venueId: tourVenueResult[0].venueId,
+          status: updateData.status ?? tourVenueResult[0].status,
+          date: validatedData.date ? validatedData.date.toISOString().split('T')[0] : tourVenueResult[0].date
+        }, tx);
+      }
+      
+      const result = await tx
+        .update(tourVenues)
+        .set(updateData)
+        .where(eq(tourVenues.id, venueId))
+        .returning();
+      return { result, holdChanges: bookingChanged ? await syncTourVenueHold(result[0], tx) : [] };
+    });
+    publishHoldChanges(holdChanges);
+    
+    const previousStatus = tourVenueResult[0].status;
+    if (updateData.status !== undefined && updateData.status !== previousStatus) {
+      const change = {
+        tourId,
+        tourVenueId: venueId,
+        venueId: result[0].venueId,
+        previousStatus,
+        status: updateData.status
+      };
+      realtime.publishToChannel(tourChannel(tourId), { type: 'tourVenue.statusChanged', ...change });
+      publishWebhookEvent('tourVenue.statusChanged', change);
+    }
     
     res.json(result[0]);
   } catch (error) {
@@ -842,351 +906,12 @@ router.patch('/:tourId/venues/:venueId', async (req, res) => {
       return res.status(400).json({ error: validationError.message });
     }
     
-    console.error("Error updating tour venue:", error);
-    res.status(500).json({ error: "Failed to update tour venue" });
-  }
-});
-
-/**
- * Optimize a tour route
- */
-import { optimizationCache } from '../cache/optimization-cache';
-
-router.post('/:id/optimize', async (req, res) => {
-  try {
-    const tourId = Number(req.params.id);
-    const wizardPreferences = req.body?.preferences || null;
-    
-    // Check cache first
-    const cachedResult = optimizationCache.get(tourId, wizardPreferences);
-    if (cachedResult) {
-      return res.json(cachedResult);
-    }
-    
-    // Validate tour exists
-    const tourResult = await db
-      .select()
-      .from(tours)
-      .where(eq(tours.id, tourId))
-      .limit(1);
-    
-    if (!tourResult.length) {
-      return res.status(404).json({ error: "Tour not found" });
-    }
-    
-    const tour = tourResult[0];
-    
-    // Get existing tour venues
-    const tourVenuesResult = await db
-      .select({
-        tourVenue: tourVenues,
-        venue: venues
-      })
-      .from(tourVenues)
-      .leftJoin(venues, eq(tourVenues.venueId, venues.id))
-      .where(eq(tourVenues.tourId, tourId));
-    
-    // Get artist tour preferences for optimization constraints
-    const preferencesResult = await db
-      .select()
-      .from(artistTourPreferences)
-      .where(eq(artistTourPreferences.artistId, tour.artistId))
-      .limit(1);
-    
-    const preferences = preferencesResult.length ? preferencesResult[0] : null;
-    
-    // Create optimization constraints from preferences or wizard preferences
-    const constraints = wizardPreferences ? {
-      // Use wizard preferences if available, with fallbacks to database preferences
-      optimizationGoal: wizardPreferences.optimizationGoal || 'balance',
-      maxTravelDistancePerDay: wizardPreferences.maxTravelDistancePerDay || preferences?.maxTravelDistancePerDay,
-      minDaysBetweenShows: wizardPreferences.minDaysBetweenShows || preferences?.minDaysBetweenShows,
-      maxDaysBetweenShows: wizardPreferences.maxDaysBetweenShows || preferences?.maxDaysBetweenShows,
-      avoidDates: wizardPreferences.avoidCities || preferences?.avoidDates as string[] | undefined,
-      requiredDaysOff: wizardPreferences.requiredDaysOff || preferences?.requiredDayOff as string[] | undefined,
-      preferredRegions: wizardPreferences.preferredRegions || preferences?.preferredRegions as string[] | undefined,
-      focusOnArtistFanbase: wizardPreferences.focusOnArtistFanbase || false,
-      prioritizeVenueSize: wizardPreferences.prioritizeVenueSize || 'any'
-    } : {
-      // Fall back to stored preferences
-      maxTravelDistancePerDay: preferences?.maxTravelDistancePerDay ?? undefined,
-      minDaysBetweenShows: preferences?.minDaysBetweenShows ?? undefined,
-      maxDaysBetweenShows: preferences?.maxDaysBetweenShows ?? undefined,
-      avoidDates: preferences?.avoidDates as string[] | undefined,
-      requiredDaysOff: preferences?.requiredDayOff as string[] | undefined,
-      preferredRegions: preferences?.preferredRegions as string[] | undefined
-    };
-    
-    // Extract fixed and semi-fixed points from existing tour venues with dates
-    // Include confirmed venues as fixed points (these won't move)
-    const confirmedPoints = tourVenuesResult
-      .filter(tv => tv.tourVenue.status === 'confirmed' && tv.tourVenue.date !== null)
-      .map(tv => ({
-        id: tv.venue.id,
-        latitude: Number(tv.venue.latitude),
-        longitude: Number(tv.venue.longitude),
-        date: tv.tourVenue.date ? new Date(tv.tourVenue.date) : null,
-        isFixed: true,
-        status: 'confirmed' as string
-      }));
-      
-    // Include hold and potential venues as semi-fixed points that can be moved
-    const plannedPoints = tourVenuesResult
-      .filter(tv => 
-        (tv.tourVenue.status === 'hold' || tv.tourVenue.status === 'potential') && 
-        tv.tourVenue.date !== null
-      )
-      .map(tv => ({
-        id: tv.venue.id,
-        latitude: Number(tv.venue.latitude),
-        longitude: Number(tv.venue.longitude),
-        date: tv.tourVenue.date ? new Date(tv.tourVenue.date) : null,
-        isFixed: false,
-        status: tv.tourVenue.status || 'potential'
-      }));
-    
-    // Combine all points, with at least 2 points total
-    const allTourPoints = [...confirmedPoints, ...plannedPoints];
-    
-    // We need at least 2 points with dates for optimization
-    if (allTourPoints.length < 2) {
-      return res.status(400).json({ 
-        error: "Tour optimization requires at least 2 venues with dates (confirmed, hold, or potential)" 
-      });
-    }
-    
-    // Get potential venues with coordinates
-    // We'll get all venues with coordinates and then filter out the existing ones in JavaScript
-    // This avoids SQL syntax issues with the NOT IN clause
-    const allVenuesWithCoordinates = await db
-      .select()
-      .from(venues)
-      .where(
-        and(
-          sql`${venues.latitude} IS NOT NULL`,
-          sql`${venues.longitude} IS NOT NULL`
-        )
-      );
-    
-    // Extract venue IDs that are part of this tour
-    const existingVenueIds = new Set(
-      tourVenuesResult
-        .filter(tv => tv.venue && tv.venue.id)
-        .map(tv => tv.venue.id)
-    );
-    
-    // Filter out venues that are already part of the tour
-    const potentialVenuesResult = allVenuesWithCoordinates.filter(
-      venue => !existingVenueIds.has(venue.id)
-    );
-    
-    // Run the optimization algorithm
-    const optimizedRoute = optimizeTourRoute(
-      allTourPoints,
-      potentialVenuesResult,
-      constraints
-    );
-    
-    // Update the tour with optimization results
-    await db
-      .update(tours)
-      .set({
-        estimatedTravelDistance: optimizedRoute.totalDistance,
-        estimatedTravelTime: optimizedRoute.totalTravelTime,
-        optimizationScore: optimizedRoute.optimizationScore,
-        updatedAt: new Date()
-      })
-      .where(eq(tours.id, tourId));
-    
-    const result = {
-      tourId,
-      optimizationScore: optimizedRoute.optimizationScore,
-      totalDistance: optimizedRoute.totalDistance,
-      totalTravelTime: optimizedRoute.totalTravelTime,
-      fixedPoints: allTourPoints,
-      potentialFillVenues: optimizedRoute.tourVenues,
-      gaps: optimizedRoute.gaps
-    };
-
-    // Store in cache
-    optimizationCache.set(tourId, wizardPreferences, result);
-
-    // Return the optimized route
-    res.json(result);
-  } catch (error) {
-    console.error("Error optimizing tour:", error);
-    res.status(500).json({ error: "Failed to optimize tour" });
-  }
-});
-
-/**
- * Apply optimized tour route
- */
-router.post('/:id/apply-optimization', async (req, res) => {
-  try {
-    const tourId = Number(req.params.id);
-    const { optimizationData } = req.body;
-    
-    if (!optimizationData) {
-      return res.status(400).json({ error: "Optimization data is required" });
-    }
-    
-    // Verify the tour exists
-    const tourResult = await db
-      .select()
-      .from(tours)
-      .where(eq(tours.id, tourId))
-      .limit(1);
-    
-    if (!tourResult.length) {
-      return res.status(404).json({ error: "Tour not found" });
+    if (error instanceof HoldLedgerError) {
+      return res.status(409).json({ error: error.message });
     }
     
-    // Get existing tour venues with venue data
-    const existingTourVenues = await db
-      .select({
-        tourVenue: tourVenues,
-        venue: venues
-      })
-      .from(tourVenues)
-      .leftJoin(venues, eq(tourVenues.venueId, venues.id))
-      .where(eq(tourVenues.tourId, tourId));
-    
-    // Create a map of confirmed venues (these will not be modified)
-    const confirmedVenues = new Set(
-      existingTourVenues
-        .filter(tv => tv.tourVenue.status === 'confirmed')
-        .map(tv => tv.tourVenue.venueId)
-    );
-    
-    // First, create a sorted and combined list of all venues
-    // Sort optimization data by date to ensure proper sequencing
-    const sortedVenues = [...(optimizationData.potentialFillVenues || [])].sort((a, b) => {
-      if (!a.suggestedDate || !b.suggestedDate) return 0;
-      return new Date(a.suggestedDate).getTime() - new Date(b.suggestedDate).getTime();
-    });
-    
-    // Step 1: Reset all sequences first to avoid conflicts
-    // This ensures we have a clean slate for sequence ordering
-    await db
-      .update(tourVenues)
-      .set({
-        sequence: 0,
-        updatedAt: new Date()
-      })
-      .where(and(
-        eq(tourVenues.tourId, tourId),
-        sql`${tourVenues.status} != 'confirmed'` // Don't touch confirmed venues
-      ));
-      
-    console.log('Applying optimized tour with', sortedVenues.length, 'venues');
-    
-    // Step 2: Process all optimized venues in sequence order
-    const updatedVenueIds = new Set();
-    
-    // Update or create tour venues from optimized data, preserving the sequence from the sorted list
-    for (let i = 0; i < sortedVenues.length; i++) {
-      const venue = sortedVenues[i];
-      if (!venue.venue || !venue.venue.id) continue;
-      
-      const venueId = venue.venue.id;
-      updatedVenueIds.add(venueId);
-      
-      // Calculate sequence based on position in the sorted array (1-based)
-      const sequenceNum = i + 1;
-      
-      const existingTourVenue = existingTourVenues.find(tv => tv.tourVenue.venueId === venueId);
-      
-      if (existingTourVenue) {
-        // Update existing tour venue if it's not confirmed
-        if (existingTourVenue.tourVenue.status !== 'confirmed') {
-          console.log(`Updating venue ${venueId} with sequence ${sequenceNum}`);
-          // Map venue.status to our standardized statuses if provided
-          const standardizedStatus = venue.status ? 
-            normalizeStatus(venue.status) : 
-            existingTourVenue.tourVenue.status;
-          
-          await db
-            .update(tourVenues)
-            .set({
-              date: venue.suggestedDate ? new Date(venue.suggestedDate) : existingTourVenue.tourVenue.date,
-              status: standardizedStatus,
-              sequence: sequenceNum, // Use the calculated sequence
-              statusUpdatedAt: new Date(), // Track status update time
-              updatedAt: new Date()
-            })
-            .where(and(
-              eq(tourVenues.tourId, tourId),
-              eq(tourVenues.venueId, venueId)
-            ));
-        }
-      } else if (venue.gapFilling && venue.suggestedDate) {
-        // Add new venue if it's a gap filler
-        console.log(`Adding new venue ${venueId} with sequence ${sequenceNum}`);
-        await db
-          .insert(tourVenues)
-          .values({
-            tourId,
-            venueId,
-            status: 'potential',
-            date: new Date(venue.suggestedDate),
-            sequence: sequenceNum, // Use the calculated sequence
-            notes: 'Added via tour optimization',
-            createdAt: new Date(),
-            updatedAt: new Date()
-          });
-      }
-    }
-    
-    // Step 3: For venues not included in optimization, set high sequence numbers
-    // Use a base high number plus increments to preserve some order
-    let highSequence = 1000;
-    
-    for (const tv of existingTourVenues) {
-      const venueId = tv.tourVenue.venueId;
-      
-      // Skip venues we've already processed or that are confirmed
-      if (updatedVenueIds.has(venueId) || confirmedVenues.has(venueId)) {
-        continue;
-      }
-      
-      console.log(`Setting venue ${venueId} to high sequence ${highSequence}`);
-      
-      // Update non-confirmed venues that weren't in the optimization
-      await db
-        .update(tourVenues)
-        .set({
-          sequence: highSequence++, // Use incremented sequence to preserve some ordering
-          updatedAt: new Date()
-        })
-        .where(and(
-          eq(tourVenues.tourId, tourId),
-          eq(tourVenues.venueId, venueId)
-        ));
-    }
-    
-    // Update tour with optimization metrics
-    await db
-      .update(tours)
-      .set({
-        estimatedTravelDistance: optimizationData.totalDistance,
-        estimatedTravelTime: optimizationData.totalTravelTime,
-        optimizationScore: optimizationData.optimizationScore,
-        updatedAt: new Date()
-      })
-      .where(eq(tours.id, tourId));
-    
-    // Return success response with tour data
-    const updatedTour = await db
-      .select()
-      .from(tours)
-      .where(eq(tours.id, tourId))
-      .limit(1);
-    
-    res.json(updatedTour[0]);
-  } catch (error) {
-    console.error("Error applying tour optimization:", error);
-    res.status(500).json({ error: "Failed to apply tour optimization" });
+    console.error("Error updating tour venue:", error);
+    res.status(500).json({ error: "Failed to update tour venue" });
   }
 });
 
@@ -1217,7 +942,7 @@ router.get('/artists/:id/tour-preferences', async (req, res) => {
 /**
  * Set artist tour preferences
  */
-router.post('/artists/:id/tour-preferences', async (req, res) => {
+router.post('/artists/:id/tour-preferences', hasPermission('canManageTours'), async (req, res) => {
   try {
     const artistId = Number(req.params.id);
     
@@ -1304,7 +1029,7 @@ router.get('/venues/:id/tour-preferences', async (req, res) => {
 /**
  * Set venue tour preferences
  */
-router.post('/venues/:id/tour-preferences', async (req, res) => {
+router.post('/venues/:id/tour-preferences', hasPermission('canManageVenues'), hasVenueAccess('id', VENUE_EDITOR_ROLES), async (req, res) => {
   try {
     const venueId = Number(req.params.id);
     
@@ -1424,7 +1149,7 @@ router.get('/artists/:id/tour-stats', async (req, res) => {
 /**
  * Create a demo tour for optimization testing
  */
-router.post('/create-demo', async (req, res) => {
+router.post('/create-demo', hasPermission('canManageTours'), async (req, res) => {
   try {
     // Find an artist to use for the tour
     const artistResult = await db
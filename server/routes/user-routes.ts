@@ -1,11 +1,17 @@
 import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
 import { db } from '../db';
-import { users, venues } from '../../shared/schema';
+import { users, venues, venueMembers, rolePermissions, type UserRole } from '../../shared/schema';
 import { eq } from 'drizzle-orm';
-import { isAuthenticated, hasPermission } from '../middleware/auth-middleware';
+import { isAuthenticated, hasPermission, roleHasPermission } from '../middleware/auth-middleware';
 
 const router = express.Router();
 
+const roleSchema = z.object({
+  role: z.enum(Object.keys(rolePermissions) as [UserRole, ...UserRole[]])
+});
+
 /**
  * Get current user information
  * Route: /api/users/me
@@ -23,18 +29,18 @@ router.get('/me', isAuthenticated, (req, res) => {
 
 /**
  * Get available venues for the current user
- * Returns all venues for admin users, filtered venues for other users based on role
+ * Returns all venues for users who can view all venue data, otherwise the venues
+ * the user is a member of, along with their role at each venue
  * Route: /api/users/available-venues
  */
 router.get('/available-venues', isAuthenticated, async (req, res) => {
   try {
     // User is guaranteed to exist due to isAuthenticated middleware
-    const { role } = req.session.user as { role: string };
+    const { id, role } = req.session.user!;
     
     let availableVenues: any[] = [];
     
-    // Admin can see all venues
-    if (role === 'admin') {
+    if (roleHasPermission(role, 'canViewAllVenueData')) {
       availableVenues = await db.query.venues.findMany({
         columns: {
           id: true,
@@ -44,19 +50,19 @@ router.get('/available-venues', isAuthenticated, async (req, res) => {
         },
         orderBy: venues.name
       });
-    } 
-    // For now, venue managers and other users get the first 5 venues (this will be replaced with a proper user-venue relation)
-    else {
-      availableVenues = await db.query.venues.findMany({
-        columns: {
-          id: true,
-          name: true,
-          city: true,
-          region: true
-        },
-        orderBy: venues.name,
-        limit: 5
-      });
+    } else {
+      availableVenues = await db
+        .select({
+          id: venues.id,
+          name: venues.name,
+          city: venues.city,
+          region: venues.region,
+          memberRole: venueMembers.role
+        })
+        .from(venueMembers)
+        .innerJoin(venues, eq(venueMembers.venueId, venues.id))
+        .where(eq(venueMembers.userId, id))
+        .orderBy(venues.name);
     }
     
     return res.status(200).json(availableVenues);
@@ -98,4 +104,44 @@ router.get('/list', isAuthenticated, hasPermission('canManageUsers'), async (req
   }
 });
 
+/**
+ * Change a user's role; the only way to grant the manager and admin roles
+ * The new role applies from the user's next sign-in
+ * Route: /api/users/:id/role
+ */
+router.patch('/:id/role', isAuthenticated, hasPermission('canManageUsers'), async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ success: false, message: 'Invalid user ID' });
+    }
+
+    const result = roleSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ success: false, message: fromZodError(result.error).message });
+    }
+
+    if (userId === req.session.user!.id) {
+      return res.status(400).json({ success: false, message: 'You cannot change your own role' });
+    }
+
+    const [updated] = await db.update(users)
+      .set({ role: result.data.role })
+      .where(eq(users.id, userId))
+      .returning({ id: users.id, username: users.username, name: users.name, role: users.role });
+
+    if (!updated) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    return res.status(200).json(updated);
+  } catch (error) {
+    console.error('Error changing user role:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to change user role'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
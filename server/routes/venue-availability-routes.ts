@@ -0,0 +1,156 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { hasPermission, hasVenueAccess, VENUE_EDITOR_ROLES } from '../middleware/auth-middleware';
+import { addDays } from '../../shared/utils/tour-solver/schedule';
+import { availabilityCalendar } from '../../shared/utils/venue-availability';
+import {
+  createBlackout,
+  deleteBlackout,
+  getVenueAvailability,
+  loadVenueAvailability,
+  updateOpenNights
+} from '../services/venue-availability';
+
+const router = express.Router();
+
+// Longest range one request may ask about
+const MAX_RANGE_DAYS = 366;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+const rangeSchema = z.object({
+  from: isoDate,
+  to: isoDate
+}).refine(({ from, to }) => from <= to && to <= addDays(from, MAX_RANGE_DAYS), {
+  message: `to must be on or after from and at most ${MAX_RANGE_DAYS} days later`
+});
+
+const openNightsSchema = z.object({
+  openWeekdays: z.array(z.number().int().min(0).max(6)),
+  openDates: z.array(isoDate)
+});
+
+const blackoutSchema = z.object({
+  startDate: isoDate,
+  endDate: isoDate,
+  reason: z.string().nullable().optional()
+}).refine(({ startDate, endDate }) => startDate <= endDate, { message: 'endDate must be on or after startDate' });
+
+const venueIdsSchema = z.string()
+  .transform(ids => ids.split(',').map(id => parseInt(id)))
+  .pipe(z.array(z.number().int().positive()).min(1).max(500));
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+function parseVenueId(req: express.Request, res: express.Response): number | null {
+  const venueId = parseInt(req.params.id);
+  if (isNaN(venueId)) {
+    res.status(400).json({ error: 'Invalid venue ID' });
+    return null;
+  }
+  return venueId;
+}
+
+/**
+ * Dates each venue can take between two dates, by venue id; what the optimizer and the
+ * gap finder check before suggesting a date
+ * Route: /api/venue-availability?venueIds=1,2&from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+router.get('/', async (req, res) => {
+  try {
+    const venueIds = venueIdsSchema.parse(req.query.venueIds ?? '');
+    const { from, to } = rangeSchema.parse(req.query);
+    const availability = await loadVenueAvailability(venueIds, from, to);
+
+    const availableDates: Record<number, string[]> = {};
+    availability.forEach((venue, venueId) => {
+      availableDates[venueId] = availabilityCalendar(venue, from, to)
+        .filter(day => day.available)
+        .map(day => day.date);
+    });
+    return res.json(availableDates);
+  } catch (error) {
+    return handleError(res, error, 'load venue availability');
+  }
+});
+
+/**
+ * A venue's open nights, blackouts and bookings, with the availability of each date
+ * Route: /api/venue-availability/venues/:id?from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+router.get('/venues/:id', async (req, res) => {
+  try {
+    const venueId = parseVenueId(req, res);
+    if (venueId === null) return;
+
+    const { from, to } = rangeSchema.parse(req.query);
+    return res.json(await getVenueAvailability(venueId, from, to));
+  } catch (error) {
+    return handleError(res, error, 'load venue availability');
+  }
+});
+
+/**
+ * Set a venue's open nights (0 = Sunday) and one-off open dates
+ * Route: /api/venue-availability/venues/:id
+ */
+router.put('/venues/:id', hasPermission('canManageVenues'), hasVenueAccess('id', VENUE_EDITOR_ROLES), async (req, res) => {
+  try {
+    const venueId = parseVenueId(req, res);
+    if (venueId === null) return;
+
+    return res.json(await updateOpenNights(venueId, openNightsSchema.parse(req.body)));
+  } catch (error) {
+    return handleError(res, error, 'update venue availability');
+  }
+});
+
+/**
+ * Black out a range of a venue's dates
+ * Route: /api/venue-availability/venues/:id/blackouts
+ */
+router.post('/venues/:id/blackouts', hasPermission('canManageVenues'), hasVenueAccess('id', VENUE_EDITOR_ROLES), async (req, res) => {
+  try {
+    const venueId = parseVenueId(req, res);
+    if (venueId === null) return;
+
+    const blackout = await createBlackout(venueId, blackoutSchema.parse(req.body), req.session.user?.id);
+    return res.status(201).json(blackout);
+  } catch (error) {
+    return handleError(res, error, 'add blackout');
+  }
+});
+
+/**
+ * Remove a blackout
+ * Route: /api/venue-availability/venues/:id/blackouts/:blackoutId
+ */
+router.delete('/venues/:id/blackouts/:blackoutId', hasPermission('canManageVenues'), hasVenueAccess('id', VENUE_EDITOR_ROLES), async (req, res) => {
+  try {
+    const venueId = parseVenueId(req, res);
+    if (venueId === null) return;
+
+    const blackoutId = parseInt(req.params.blackoutId);
+    if (isNaN(blackoutId)) {
+      return res.status(400).json({ error: 'Invalid blackout ID' });
+    }
+
+    if (!await deleteBlackout(venueId, blackoutId)) {
+      return res.status(404).json({ error: 'Blackout not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    return handleError(res, error, 'remove blackout');
+  }
+});
+
+export default router;
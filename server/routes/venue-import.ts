@@ -1,9 +1,13 @@
 import express from 'express';
 import { db } from '../db';
-import { venues, events, artists } from '../../shared/schema';
-import { eq, sql, inArray, and, like } from 'drizzle-orm';
+import { venues, artists } from '../../shared/schema';
+import { eq, sql, inArray, like } from 'drizzle-orm';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
+import { storage } from '../storage';
+import { checkVenueAccess, VENUE_EDITOR_ROLES } from '../middleware/auth-middleware';
+import { findArtistMatch, findVenueMatch, queueMatchReview } from '../services/entity-resolution';
+import { ingestEvent } from '../services/event-ingestion';
 
 const router = express.Router();
 
@@ -23,16 +27,9 @@ router.post('/import-from-csv', async (req, res) => {
     
     for (const venue of data) {
       try {
-        // Check if venue already exists (by name and city)
-        const existingVenue = await db.select()
-          .from(venues)
-          .where(
-            and(
-              eq(venues.name, venue.name),
-              eq(venues.city, venue.city)
-            )
-          )
-          .limit(1);
+        // Check if venue already exists, allowing for variations of its name
+        const { match, review } = await findVenueMatch({ name: venue.name, city: venue.city });
+        const existingVenue = match ? [match.candidate] : [];
         
         if (existingVenue.length > 0) {
           // Update venue
@@ -55,7 +52,7 @@ router.post('/import-from-csv', async (req, res) => {
           venuesUpdated++;
         } else {
           // Insert new venue
-          await db.insert(venues).values({
+          const [newVenue] = await db.insert(venues).values({
             name: venue.name,
             address: venue.address || null,
             city: venue.city,
@@ -68,8 +65,11 @@ router.post('/import-from-csv', async (req, res) => {
             venueType: venue.venueType || venue.venue_type || null,
             createdAt: sql`NOW()`,
             updatedAt: sql`NOW()`
-          });
+          }).returning();
           
+          if (review) {
+            await queueMatchReview('venue', newVenue.id, review.candidate.id, review, 'csv-import');
+          }
           venuesAdded++;
         }
       } catch (error) {
@@ -100,22 +100,14 @@ router.post('/add-venue', async (req, res) => {
       return res.status(400).json({ success: false, message: 'Venue name and city are required' });
     }
     
-    // Check if venue already exists
-    const existingVenue = await db.select()
-      .from(venues)
-      .where(
-        and(
-          eq(venues.name, venueData.name),
-          eq(venues.city, venueData.city)
-        )
-      )
-      .limit(1);
+    // Check if venue already exists, allowing for variations of its name
+    const { match, review } = await findVenueMatch({ name: venueData.name, city: venueData.city });
     
-    if (existingVenue.length > 0) {
+    if (match) {
       return res.status(409).json({ 
         success: false, 
         message: 'Venue already exists', 
-        venue: existingVenue[0]
+        venue: match.candidate
       });
     }
     
@@ -131,10 +123,17 @@ router.post('/add-venue', async (req, res) => {
       websiteUrl: venueData.websiteUrl || venueData.website_url || venueData.website || null,
       description: venueData.description || null,
       venueType: venueData.venueType || venueData.venue_type || null,
+      ownerId: req.session.user!.id,
       createdAt: sql`NOW()`,
       updatedAt: sql`NOW()`
     }).returning();
     
+    // The user who adds a venue becomes its first owner
+    await storage.setVenueMember({ venueId: newVenue.id, userId: req.session.user!.id, role: 'owner' });
+    if (review) {
+      await queueMatchReview('venue', newVenue.id, review.candidate.id, review, 'manual');
+    }
+    
     return res.json({
       success: true,
       message: `Added venue: ${venueData.name}`,
@@ -169,24 +168,16 @@ router.post('/batch-add-venues', async (req, res) => {
           continue;
         }
         
-        // Check if venue already exists
-        const existingVenue = await db.select()
-          .from(venues)
-          .where(
-            and(
-              eq(venues.name, venueData.name),
-              eq(venues.city, venueData.city)
-            )
-          )
-          .limit(1);
+        // Check if venue already exists, allowing for variations of its name
+        const { match, review } = await findVenueMatch({ name: venueData.name, city: venueData.city });
         
-        if (existingVenue.length > 0) {
+        if (match) {
           results.skipped++;
           continue;
         }
         
         // Add the venue
-        await db.insert(venues).values({
+        const [newVenue] = await db.insert(venues).values({
           name: venueData.name,
           address: venueData.address || null,
           city: venueData.city,
@@ -199,8 +190,11 @@ router.post('/batch-add-venues', async (req, res) => {
           venueType: venueData.venueType || venueData.venue_type || null,
           createdAt: sql`NOW()`,
           updatedAt: sql`NOW()`
-        });
+        }).returning();
         
+        if (review) {
+          await queueMatchReview('venue', newVenue.id, review.candidate.id, review, 'batch-import');
+        }
         results.added++;
       } catch (error) {
         console.error(`Error processing venue ${venueData.name}:`, error);
@@ -230,6 +224,7 @@ router.post('/add-event', async (req, res) => {
     
     // Find or create venue
     let venue;
+    let createdVenue = false;
     if (eventData.venueId) {
       // Use provided venue ID
       const existingVenue = await db.select()
@@ -247,33 +242,36 @@ router.post('/add-event', async (req, res) => {
       const city = eventData.venueCity || '';
       const state = eventData.venueState || '';
       
-      const existingVenue = await db.select()
-        .from(venues)
-        .where(
-          and(
-            eq(venues.name, eventData.venueName),
-            city ? eq(venues.city, city) : sql`1=1`
-          )
-        )
-        .limit(1);
+      const { match, review } = await findVenueMatch({ name: eventData.venueName, city: city || null });
       
-      if (existingVenue.length === 0) {
+      if (!match) {
         // Create a minimal venue record
         const [newVenue] = await db.insert(venues).values({
           name: eventData.venueName,
           city: city || null,
           region: state || null,
           country: 'USA',
+          ownerId: req.session.user!.id,
           createdAt: sql`NOW()`,
           updatedAt: sql`NOW()`
         }).returning();
         
+        await storage.setVenueMember({ venueId: newVenue.id, userId: req.session.user!.id, role: 'owner' });
+        if (review) {
+          await queueMatchReview('venue', newVenue.id, review.candidate.id, review, 'manual');
+        }
         venue = newVenue;
+        createdVenue = true;
       } else {
-        venue = existingVenue[0];
+        venue = match.candidate;
       }
     }
     
+    // Only owners and bookers may add events to an existing venue
+    if (!createdVenue && !(await checkVenueAccess(req.session.user!, venue.id, VENUE_EDITOR_ROLES))) {
+      return res.status(403).json({ success: false, message: 'You do not have access to this venue' });
+    }
+    
     // Find or create artist
     let artist;
     if (eventData.artistId) {
@@ -289,13 +287,10 @@ router.post('/add-event', async (req, res) => {
       
       artist = existingArtist[0];
     } else {
-      // Look up artist by name
-      const existingArtist = await db.select()
-        .from(artists)
-        .where(eq(artists.name, eventData.artistName))
-        .limit(1);
+      // Look up artist by name, allowing for variations of it
+      const { match, review } = await findArtistMatch({ name: eventData.artistName });
       
-      if (existingArtist.length === 0) {
+      if (!match) {
         // Create a new artist
         const [newArtist] = await db.insert(artists).values({
           name: eventData.artistName,
@@ -305,45 +300,33 @@ router.post('/add-event', async (req, res) => {
           updatedAt: sql`NOW()`
         }).returning();
         
+        if (review) {
+          await queueMatchReview('artist', newArtist.id, review.candidate.id, review, 'manual');
+        }
         artist = newArtist;
       } else {
-        artist = existingArtist[0];
+        artist = match.candidate;
       }
     }
     
-    // Check if event already exists
-    const existingEvent = await db.select()
-      .from(events)
-      .where(
-        and(
-          eq(events.artistId, artist.id),
-          eq(events.venueId, venue.id),
-          eq(events.date, eventData.date)
-        )
-      )
-      .limit(1);
+    // Add the event unless it is already on file
+    const result = await ingestEvent({
+      source: eventData.sourceName || 'manual',
+      artistId: artist.id,
+      venueId: venue.id,
+      date: eventData.date,
+      startTime: eventData.time || null,
+      status: eventData.status || 'confirmed'
+    });
     
-    if (existingEvent.length > 0) {
+    if (result.outcome !== 'created') {
       return res.status(409).json({ 
         success: false, 
-        message: 'Event already exists', 
-        event: existingEvent[0]
+        message: result.reason ?? 'Event already exists', 
+        event: result.event
       });
     }
-    
-    // Add the event
-    const [newEvent] = await db.insert(events).values({
-      date: eventData.date,
-      time: eventData.time || null,
-      artistId: artist.id,
-      venueId: venue.id,
-      ticketPrice: eventData.ticketPrice || null,
-      description: eventData.description || `${artist.name} at ${venue.name}`,
-      status: eventData.status || 'confirmed',
-      sourceName: eventData.sourceName || 'manual',
-      createdAt: sql`NOW()`,
-      updatedAt: sql`NOW()`
-    }).returning();
+    const newEvent = result.event;
     
     return res.json({
       success: true,
@@ -2,7 +2,7 @@ import express from 'express';
 import { db } from '../db';
 import { venues, venueNetwork } from '../../shared/schema';
 import { eq, and, like, or, isNotNull } from 'drizzle-orm';
-import { isAuthenticated } from '../middleware/auth-middleware';
+import { isAuthenticated, hasPermission } from '../middleware/auth-middleware';
 
 const router = express.Router();
 
@@ -184,9 +184,9 @@ router.get('/graph/:venueId', async (req, res) => {
 
 /**
  * Create a new venue connection
- * In demo mode, no authentication is required
+ * Requires the canManageVenues permission
  */
-router.post('/connections', async (req, res) => {
+router.post('/connections', hasPermission('canManageVenues'), async (req, res) => {
   try {
     const { venueId, connectedVenueId, status, trustScore, collaborativeBookings } = req.body;
     
@@ -1,11 +1,19 @@
 import express from 'express';
 import { db } from '../db';
-import { venues } from '../../shared/schema';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { venues, users, venueMembers, venueMemberRoleEnum } from '../../shared/schema';
 import { eq, sql, like, or, and, not } from 'drizzle-orm';
-import { isAuthenticated } from '../middleware/auth-middleware';
+import { storage } from '../storage';
+import { isAuthenticated, hasVenueAccess, checkVenueAccess } from '../middleware/auth-middleware';
 
 const router = express.Router();
 
+const venueMemberSchema = z.object({
+  userId: z.number().int().positive(),
+  role: z.enum(venueMemberRoleEnum.enumValues)
+});
+
 /**
  * Search venues by name, city, or region
  * Returns venues matching the search query
@@ -130,6 +138,13 @@ router.get('/select/:id', isAuthenticated, async (req, res) => {
       });
     }
     
+    if (!(await checkVenueAccess(req.session.user!, venue.id))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You are not a member of this venue'
+      });
+    }
+    
     console.log(`Setting current venue ID in session to ${venue.id} (${venue.name})`);
     
     // Store the current venue ID in the session (not in the user object)
@@ -170,6 +185,107 @@ router.get('/select/:id', isAuthenticated, async (req, res) => {
   }
 });
 
+/**
+ * List the members of a venue
+ * Any member of the venue can see who else works there
+ * Route: /api/venues/:id/members
+ */
+router.get('/:id/members', isAuthenticated, hasVenueAccess('id'), async (req, res) => {
+  try {
+    const venueId = parseInt(req.params.id);
+    
+    const members = await db
+      .select({
+        userId: venueMembers.userId,
+        role: venueMembers.role,
+        name: users.name,
+        username: users.username,
+        email: users.email,
+        createdAt: venueMembers.createdAt
+      })
+      .from(venueMembers)
+      .innerJoin(users, eq(venueMembers.userId, users.id))
+      .where(eq(venueMembers.venueId, venueId))
+      .orderBy(users.name);
+    
+    return res.json(members);
+  } catch (error) {
+    console.error('Error fetching venue members:', error);
+    return res.status(500).json({ error: 'Failed to load venue members' });
+  }
+});
+
+/**
+ * Add a member to a venue or change their role
+ * Only venue owners can manage members
+ * Route: /api/venues/:id/members
+ */
+router.post('/:id/members', isAuthenticated, hasVenueAccess('id', ['owner']), async (req, res) => {
+  try {
+    const venueId = parseInt(req.params.id);
+    const result = venueMemberSchema.safeParse(req.body);
+    
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+    
+    const user = await storage.getUser(result.data.userId);
+    
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    
+    const members = await storage.getVenueMembers(venueId);
+    const ownerCount = members.filter(member => member.role === 'owner').length;
+    const current = members.find(member => member.userId === user.id);
+    if (current?.role === 'owner' && result.data.role !== 'owner' && ownerCount <= 1) {
+      return res.status(400).json({ error: 'A venue must keep at least one owner' });
+    }
+    
+    const member = await storage.setVenueMember({ venueId, ...result.data });
+    
+    return res.status(201).json(member);
+  } catch (error) {
+    console.error('Error saving venue member:', error);
+    return res.status(500).json({ error: 'Failed to save venue member' });
+  }
+});
+
+/**
+ * Remove a member from a venue
+ * Only venue owners can manage members, and the last owner cannot be removed
+ * Route: /api/venues/:id/members/:userId
+ */
+router.delete('/:id/members/:userId', isAuthenticated, hasVenueAccess('id', ['owner']), async (req, res) => {
+  try {
+    const venueId = parseInt(req.params.id);
+    const userId = parseInt(req.params.userId);
+    
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid user ID format' });
+    }
+    
+    const members = await storage.getVenueMembers(venueId);
+    const target = members.find(member => member.userId === userId);
+    
+    if (!target) {
+      return res.status(404).json({ error: 'Venue member not found' });
+    }
+    
+    const ownerCount = members.filter(member => member.role === 'owner').length;
+    if (target.role === 'owner' && ownerCount <= 1) {
+      return res.status(400).json({ error: 'A venue must keep at least one owner' });
+    }
+    
+    await storage.removeVenueMember(venueId, userId);
+    
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing venue member:', error);
+    return res.status(500).json({ error: 'Failed to remove venue member' });
+  }
+});
+
 /**
  * Get venue by id
  * Returns detailed information about a specific venue
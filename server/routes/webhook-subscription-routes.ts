@@ -0,0 +1,177 @@
+import express from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { webhookDeliveryStatuses, webhookEventTypes } from '../../shared/utils/outbound-webhooks';
+import {
+  WebhookSubscriptionError,
+  createSubscription,
+  deleteSubscription,
+  listDeliveries,
+  listSubscriptions,
+  redeliver,
+  sendTestEvent,
+  updateSubscription
+} from '../services/outbound-webhooks';
+
+const router = express.Router();
+
+const subscriptionSchema = z.object({
+  name: z.string().min(1),
+  url: z.string().url().refine(url => /^https?:\/\//.test(url), 'URL must use http or https'),
+  // Empty takes every event
+  eventTypes: z.array(z.enum(webhookEventTypes)).default([]),
+  isEnabled: z.boolean().optional()
+});
+
+const subscriptionChangesSchema = subscriptionSchema.partial().extend({
+  rotateSecret: z.boolean().optional()
+});
+
+const deliveryQuerySchema = z.object({
+  status: z.enum(webhookDeliveryStatuses).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+});
+
+function handleError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: fromZodError(error).message });
+  }
+  if (error instanceof WebhookSubscriptionError) {
+    return res.status(409).json({ error: error.message });
+  }
+
+  console.error(`Error trying to ${action}:`, error);
+  return res.status(500).json({ error: `Failed to ${action}` });
+}
+
+/**
+ * Outbound webhook subscriptions, without their secrets
+ * Route: /api/admin/webhook-subscriptions
+ */
+router.get('/', async (req, res) => {
+  try {
+    return res.json(await listSubscriptions());
+  } catch (error) {
+    return handleError(res, error, 'load webhook subscriptions');
+  }
+});
+
+/**
+ * Subscribe an external URL to events; the response includes the signing secret
+ * Route: /api/admin/webhook-subscriptions
+ */
+router.post('/', async (req, res) => {
+  try {
+    const subscription = await createSubscription(subscriptionSchema.parse(req.body), req.session.user!.id);
+    return res.status(201).json(subscription);
+  } catch (error) {
+    return handleError(res, error, 'create webhook subscription');
+  }
+});
+
+/**
+ * Queue a delivery to be posted again
+ * Route: /api/admin/webhook-subscriptions/deliveries/:id/redeliver
+ */
+router.post('/deliveries/:id/redeliver', async (req, res) => {
+  try {
+    const deliveryId = parseInt(req.params.id);
+    if (isNaN(deliveryId)) {
+      return res.status(400).json({ error: 'Invalid delivery ID' });
+    }
+
+    const delivery = await redeliver(deliveryId);
+    if (!delivery) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    return res.json(delivery);
+  } catch (error) {
+    return handleError(res, error, 'redeliver webhook');
+  }
+});
+
+/**
+ * Change a subscription's URL, events or enabled state, or rotate its secret; the
+ * response only includes the secret when it was rotated
+ * Route: /api/admin/webhook-subscriptions/:id
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const subscriptionId = parseInt(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return res.status(400).json({ error: 'Invalid subscription ID' });
+    }
+
+    const subscription = await updateSubscription(subscriptionId, subscriptionChangesSchema.parse(req.body));
+    if (!subscription) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    return res.json(subscription);
+  } catch (error) {
+    return handleError(res, error, 'update webhook subscription');
+  }
+});
+
+/**
+ * Route: /api/admin/webhook-subscriptions/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const subscriptionId = parseInt(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return res.status(400).json({ error: 'Invalid subscription ID' });
+    }
+
+    if (!await deleteSubscription(subscriptionId)) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    return handleError(res, error, 'delete webhook subscription');
+  }
+});
+
+/**
+ * Post a test event to a subscription now and return the delivery
+ * Route: /api/admin/webhook-subscriptions/:id/test
+ */
+router.post('/:id/test', async (req, res) => {
+  try {
+    const subscriptionId = parseInt(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return res.status(400).json({ error: 'Invalid subscription ID' });
+    }
+
+    const delivery = await sendTestEvent(subscriptionId);
+    if (!delivery) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    return res.json(delivery);
+  } catch (error) {
+    return handleError(res, error, 'send test event');
+  }
+});
+
+/**
+ * A subscription's delivery log, most recent first
+ * Route: /api/admin/webhook-subscriptions/:id/deliveries?status=&limit=
+ */
+router.get('/:id/deliveries', async (req, res) => {
+  try {
+    const subscriptionId = parseInt(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return res.status(400).json({ error: 'Invalid subscription ID' });
+    }
+
+    const { status, limit } = deliveryQuerySchema.parse(req.query);
+    return res.json(await listDeliveries(subscriptionId, status, limit));
+  } catch (error) {
+    return handleError(res, error, 'load webhook deliveries');
+  }
+});
+
+export default router;
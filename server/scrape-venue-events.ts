@@ -11,7 +11,8 @@
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { db } from './db';
-import { venues, artists, events, artistGenres, genres } from '../shared/schema';
+import { ingestEvent } from './services/event-ingestion';
+import { venues, artists, artistGenres, genres } from '../shared/schema';
 import { eq, and, inArray, gt, sql, or, like, ilike } from 'drizzle-orm';
 import { setTimeout } from 'timers/promises';
 
@@ -242,33 +243,18 @@ async function createOrGetArtist(artistName: string) {
 // Create event in database
 async function createEvent(venueId: number, artistId: number, date: string) {
   try {
-    // Check if event already exists
-    const existingEvent = await db
-      .select()
-      .from(events)
-      .where(and(
-        eq(events.venueId, venueId),
-        eq(events.artistId, artistId),
-        eq(events.date, date)
-      ));
-    
-    if (existingEvent.length > 0) {
-      console.log(`Event already exists: ${date}`);
-      return existingEvent[0];
-    }
-    
-    // Create new event
-    console.log(`Creating new event on ${date}`);
-    const [newEvent] = await db.insert(events).values({
+    // Ingestion reuses the event when the venue already has the show
+    const result = await ingestEvent({
+      source: 'web_scraping',
       venueId,
       artistId,
       date,
-      status: 'confirmed',
       startTime: '20:00', // Default to 8pm
-      sourceName: 'web_scraping'
-    }).returning();
+      status: 'confirmed'
+    });
     
-    return newEvent;
+    console.log(result.outcome === 'created' ? `Created new event on ${date}` : `Event already exists: ${date}`);
+    return result.event;
   } catch (error) {
     console.error(`Error creating event:`, error);
     throw error;
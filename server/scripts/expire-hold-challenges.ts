@@ -0,0 +1,28 @@
+/**
+ * Script to enforce hold challenge deadlines
+ *
+ * Releases every hold that let a challenge deadline pass, promoting the holds below it
+ * and confirming challengers that reached the top. Venue hold calendars also expire
+ * overdue challenges when they load; schedule this (e.g., hourly with cron) so tours
+ * are updated without waiting for someone to look.
+ *
+ * Usage: npx tsx server/scripts/expire-hold-challenges.ts
+ */
+
+import { expireHoldChallenges } from '../services/hold-ledger';
+
+async function run() {
+  console.log('Expiring overdue hold challenges...');
+
+  try {
+    const released = await expireHoldChallenges();
+
+    console.log(`Hold challenges checked: ${released} holds released.`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Error expiring hold challenges:', error);
+    process.exit(1);
+  }
+}
+
+run();
@@ -0,0 +1,31 @@
+/**
+ * Script to work the job queue outside the web server
+ *
+ * Runs queued sync, scrape and enrichment jobs and queues scheduled ones until stopped.
+ * Start it when the web servers run with JOB_WORKER_ENABLED=false, or alongside them to
+ * add capacity; per-source limits hold across every worker.
+ *
+ * Usage: npx tsx server/scripts/run-job-worker.ts
+ */
+
+import { JobWorker } from '../services/job-queue';
+
+const worker = new JobWorker();
+
+async function shutdown(signal: string) {
+  console.log(`${signal} received, waiting for running jobs to finish...`);
+
+  try {
+    await worker.stop();
+    console.log('Job worker stopped.');
+    process.exit(0);
+  } catch (error) {
+    console.error('Error stopping job worker:', error);
+    process.exit(1);
+  }
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+worker.start();
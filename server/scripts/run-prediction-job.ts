@@ -0,0 +1,36 @@
+/**
+ * Script to populate the predictions table
+ *
+ * Scans artists' upcoming events for routing gaps near each venue and writes ranked
+ * predictions. Run it manually or schedule it (e.g., nightly with cron).
+ *
+ * Usage:
+ * - Every venue with members: npx tsx server/scripts/run-prediction-job.ts
+ * - Specific venues: npx tsx server/scripts/run-prediction-job.ts 12 18
+ */
+
+import { runPredictionJob } from '../services/prediction-engine';
+
+async function run() {
+  const venueIds = process.argv.slice(2).map(id => parseInt(id)).filter(id => !isNaN(id));
+
+  console.log(venueIds.length > 0
+    ? `Generating predictions for venues ${venueIds.join(', ')}...`
+    : 'Generating predictions for every venue with members...');
+
+  try {
+    const results = await runPredictionJob(venueIds.length > 0 ? venueIds : undefined);
+
+    for (const result of results) {
+      console.log(`Venue ${result.venueId}: ${result.written} predictions written`);
+    }
+
+    console.log(`Prediction job complete for ${results.length} venues.`);
+    process.exit(0);
+  } catch (error) {
+    console.error('Error running prediction job:', error);
+    process.exit(1);
+  }
+}
+
+run();
@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import { db } from './db';
-import { venues, venueNetwork, artists, events } from '../shared/schema';
+import { venues, venueNetwork, artists } from '../shared/schema';
+import { ingestEvent } from './services/event-ingestion';
 import axios from 'axios';
 import { eq, and } from 'drizzle-orm';
 
@@ -154,50 +155,21 @@ async function processEvents(venueDbId: number, events: BandsInTownEvent[]): Pro
 
       processedArtists.add(artistName);
 
-      // Process datetime
-      const eventDate = new Date(eventData.datetime);
-      const dateString = eventDate.toISOString().split('T')[0];
-      const timeString = eventDate.toTimeString().split(' ')[0].substring(0, 5);
-
-      // Check if event already exists
-      const existingEvents = await db.select()
-        .from(events)
-        .where(
-          and(
-            eq(events.artistId, artist[0].id),
-            eq(events.venueId, venueDbId),
-            eq(events.date, dateString)
-          )
-        )
-        .limit(1);
-
-      if (existingEvents.length > 0) {
-        // Update existing event with fresh data
-        await db.update(events)
-          .set({
-            status: eventData.status || 'confirmed',
-            ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null,
-            sourceId: eventData.id,
-            sourceName: 'bandsintown'
-          })
-          .where(eq(events.id, existingEvents[0].id));
-
-        console.log(`Updated existing event: ${artistName} on ${dateString}`);
-      } else {
-        // Create new event
-        await db.insert(events).values({
-          artistId: artist[0].id,
-          venueId: venueDbId,
-          date: dateString,
-          startTime: timeString,
-          status: eventData.status || 'confirmed',
-          ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null,
-          sourceId: eventData.id,
-          sourceName: 'bandsintown'
-        });
-
+      const result = await ingestEvent({
+        source: 'bandsintown',
+        externalId: eventData.id,
+        artistId: artist[0].id,
+        venueId: venueDbId,
+        date: eventData.datetime,
+        status: eventData.status || 'confirmed',
+        ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null
+      });
+
+      if (result.outcome === 'created') {
         eventsAdded++;
-        console.log(`Added new event: ${artistName} on ${dateString}`);
+        console.log(`Added new event: ${artistName} on ${result.event?.date}`);
+      } else {
+        console.log(`Updated existing event: ${artistName} on ${result.event?.date ?? eventData.datetime}`);
       }
     }
   }
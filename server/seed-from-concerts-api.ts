@@ -1,7 +1,8 @@
 import dotenv from 'dotenv';
 import { db } from './db';
 import { ConcertsApiSeeder } from './core/concerts-api-seeder';
-import { venues, artists, events as eventsTable } from '../shared/schema';
+import { venues, artists } from '../shared/schema';
+import { ingestEvent } from './services/event-ingestion';
 import axios from 'axios';
 import { eq, and } from 'drizzle-orm';
 
@@ -87,38 +88,21 @@ async function addVenueToDatabase(venueData: any) {
 }
 
 async function addEventToDatabase(eventData: any, artistId: number, venueId: number) {
-  const eventDate = new Date(eventData.starts_at);
-  const dateString = eventDate.toISOString().split('T')[0];
-  const timeString = eventDate.toTimeString().split(' ')[0].substring(0, 5);
-
-  const existingEvents = await db.select()
-    .from(eventsTable)
-    .where(
-      and(
-        eq(eventsTable.artistId, artistId),
-        eq(eventsTable.venueId, venueId),
-        eq(eventsTable.date, dateString)
-      )
-    )
-    .limit(1);
-
-  if (existingEvents.length > 0) {
-    console.log(`Event already exists for ${dateString}`);
-    return;
-  }
-
-  await db.insert(eventsTable).values({
+  const result = await ingestEvent({
+    source: 'concerts-tracker',
+    externalId: eventData.id.toString(),
     artistId,
     venueId,
-    date: dateString,
-    startTime: timeString,
-    status: 'confirmed',
-    ticketUrl: null,
-    sourceId: eventData.id.toString(),
-    sourceName: 'concerts-tracker'
+    date: eventData.starts_at,
+    status: 'confirmed'
   });
 
-  console.log(`Added event on ${dateString}`);
+  if (result.outcome !== 'created') {
+    console.log(`Event already exists for ${result.event?.date ?? eventData.starts_at}`);
+    return;
+  }
+
+  console.log(`Added event on ${result.event?.date}`);
 }
 
 async function seedFromConcertsApi(artistNames: string[] = ['Taylor Swift', 'Coldplay', 'Adele', 'BTS', 'Ed Sheeran']) {
@@ -3,6 +3,7 @@ import { db } from './db';
 import { venues, artists, events, venueNetwork } from '../shared/schema';
 import axios from 'axios';
 import { eq, and, sql } from 'drizzle-orm';
+import { ingestEvent } from './services/event-ingestion';
 
 // Load environment variables
 dotenv.config();
@@ -396,14 +397,14 @@ async function createArtistEvents() {
       const timeString = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
       
       // Create the event
-      await db.insert(events).values({
+      await ingestEvent({
+        source: 'seed-script',
+        externalId: `manual-seed-${artist.id}-${venue.id}`,
         artistId: artist.id,
         venueId: venue.id,
         date: dateString,
         startTime: timeString,
-        status: 'confirmed',
-        sourceId: `manual-seed-${artist.id}-${venue.id}`,
-        sourceName: 'seed-script'
+        status: 'confirmed'
       });
       
       eventsCreated++;
@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import { db } from './db';
-import { venues, artists, events } from '../shared/schema';
+import { venues, artists } from '../shared/schema';
+import { ingestEvent } from './services/event-ingestion';
 import axios from 'axios';
 import { eq, and, sql } from 'drizzle-orm';
 import cheerio from 'cheerio';
@@ -313,31 +314,17 @@ async function seedPublicEvents() {
         const eventDate = eventDates[i];
         const eventTime = eventTimes[i];
         
-        // Check if event already exists
-        const existingEvent = await db.select()
-          .from(events)
-          .where(
-            and(
-              eq(events.artistId, artist.id),
-              eq(events.venueId, venue.id),
-              eq(events.date, eventDate)
-            )
-          );
+        const result = await ingestEvent({
+          source: 'public_data',
+          artistId: artist.id,
+          venueId: venue.id,
+          date: eventDate,
+          startTime: eventTime,
+          status: 'confirmed',
+          ticketUrl: `https://tickets.example.com/${venue.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}/${eventDate}/${artist.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}`
+        });
         
-        if (existingEvent.length === 0) {
-          // Create the event
-          console.log(`Creating event: ${artist.name} at ${venue.name} on ${eventDate}`);
-          
-          await db.insert(events).values({
-            artistId: artist.id,
-            venueId: venue.id,
-            date: eventDate,
-            startTime: eventTime,
-            status: 'confirmed',
-            ticketUrl: `https://tickets.example.com/${venue.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}/${eventDate}/${artist.name.toLowerCase().replace(/[^a-z0-9]/g, '-')}`,
-            sourceName: 'public_data'
-          });
-          
+        if (result.outcome === 'created') {
           eventsAdded++;
           console.log(`Created event: ${artist.name} at ${venue.name} on ${eventDate}`);
         } else {
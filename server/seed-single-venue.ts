@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import { db } from './db';
-import { venues, artists, events } from '../shared/schema';
+import { venues, artists } from '../shared/schema';
+import { ingestEvent } from './services/event-ingestion';
 import axios from 'axios';
 import { eq, and } from 'drizzle-orm';
 
@@ -132,53 +133,20 @@ async function seedSingleVenue() {
         // Process event
         console.log(`Processing event for ${artistName}`);
         
-        // Parse date
-        const eventDate = new Date(eventData.datetime);
-        const dateString = eventDate.toISOString().split('T')[0];
-        const timeString = eventDate.toTimeString().split(' ')[0].substring(0, 5);
+        const result = await ingestEvent({
+          source: 'bandsintown',
+          externalId: eventData.id ? String(eventData.id) : null,
+          artistId: artist[0].id,
+          venueId: venueId,
+          date: eventData.datetime,
+          status: eventData.status || 'confirmed',
+          ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null
+        });
         
-        // Check if event exists
-        const existingEvent = await db.select()
-          .from(events)
-          .where(
-            and(
-              eq(events.artistId, artist[0].id),
-              eq(events.venueId, venueId),
-              eq(events.date, dateString)
-            )
-          )
-          .limit(1);
-        
-        if (existingEvent.length > 0) {
-          // Update event
-          console.log(`Updating existing event: ${artistName} on ${dateString}`);
-          
-          await db.update(events)
-            .set({
-              status: eventData.status || 'confirmed',
-              ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null,
-              sourceId: eventData.id,
-              sourceName: 'bandsintown'
-            })
-            .where(eq(events.id, existingEvent[0].id));
-        } else {
-          // Create event
-          console.log(`Creating new event: ${artistName} on ${dateString}`);
-          
-          await db.insert(events).values({
-            artistId: artist[0].id,
-            venueId: venueId,
-            date: dateString,
-            startTime: timeString,
-            status: eventData.status || 'confirmed',
-            ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null,
-            sourceId: eventData.id,
-            sourceName: 'bandsintown'
-          });
-          
+        if (result.outcome === 'created') {
           eventsAdded++;
-          console.log(`Created event: ${artistName} on ${dateString}`);
         }
+        console.log(`Event ${result.outcome}: ${artistName} on ${result.event?.date ?? eventData.datetime}`);
       }
       
       // Print summary
@@ -2,13 +2,14 @@
 import { db } from './db';
 import { users, venues } from '../shared/schema';
 import { eq } from 'drizzle-orm';
+import { hashPassword } from './utils/password';
 
 async function seedTestUsers() {
   try {
     // Create super admin user
     const [superAdmin] = await db.insert(users).values({
       username: 'superadmin',
-      password: 'admin123',
+      password: await hashPassword('admin123'),
       name: 'Super Admin',
       email: 'admin@venues.com',
       role: 'super_admin',
@@ -28,7 +29,7 @@ async function seedTestUsers() {
     // Create venue manager
     const [venueManager] = await db.insert(users).values({
       username: 'venuemanager',
-      password: 'venue123',
+      password: await hashPassword('venue123'),
       name: 'Venue Manager',
       email: 'manager@venues.com',
       role: 'venue_manager',
@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import { db } from './db';
-import { venues, artists, events } from '../shared/schema';
+import { venues, artists } from '../shared/schema';
+import { ingestEvent } from './services/event-ingestion';
 import axios from 'axios';
 import { eq, and } from 'drizzle-orm';
 
@@ -239,51 +240,18 @@ async function addVenueToDatabase(venueData: BandsInTownVenue): Promise<number>
  * Add event to database if it doesn't exist
  */
 async function addEventToDatabase(eventData: BandsInTownEvent, artistId: number, venueId: number): Promise<void> {
-  // Parse datetime
-  const eventDate = new Date(eventData.datetime);
-  const dateString = eventDate.toISOString().split('T')[0];
-  const timeString = eventDate.toTimeString().split(' ')[0].substring(0, 5);
-
-  // Check if event already exists
-  const existingEvents = await db.select()
-    .from(events)
-    .where(
-      and(
-        eq(events.artistId, artistId),
-        eq(events.venueId, venueId),
-        eq(events.date, dateString)
-      )
-    )
-    .limit(1);
-
-  if (existingEvents.length > 0) {
-    // Update existing event
-    await db.update(events)
-      .set({
-        status: eventData.status || 'confirmed',
-        ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null,
-        sourceId: eventData.id,
-        sourceName: 'bandsintown'
-      })
-      .where(eq(events.id, existingEvents[0].id));
-
-    console.log(`Updated existing event: ${eventData.artist?.name} at ${eventData.venue.name} on ${dateString}`);
-    return;
-  }
-
-  // Create new event
-  await db.insert(events).values({
+  const result = await ingestEvent({
+    source: 'bandsintown',
+    externalId: eventData.id,
     artistId,
     venueId,
-    date: dateString,
-    startTime: timeString,
+    date: eventData.datetime,
     status: eventData.status || 'confirmed',
-    ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null,
-    sourceId: eventData.id,
-    sourceName: 'bandsintown'
+    ticketUrl: eventData.offers && eventData.offers.length > 0 ? eventData.offers[0].url : null
   });
 
-  console.log(`Added new event: ${eventData.artist?.name} at ${eventData.venue.name} on ${dateString}`);
+  const verb = result.outcome === 'created' ? 'Added new' : 'Updated existing';
+  console.log(`${verb} event: ${eventData.artist?.name} at ${eventData.venue.name} on ${result.event?.date ?? eventData.datetime}`);
 }
 
 /**
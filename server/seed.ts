@@ -3,6 +3,8 @@ import { users, venues, venueNetwork, events, artists, tours, tourVenues } from
 import { eq, lessThanOrEqual, greaterThanOrEqual } from 'drizzle-orm';
 import dotenv from 'dotenv';
 import { SeedManager } from './core/seed-manager';
+import { ingestEvent } from './services/event-ingestion';
+import { hashPassword } from './utils/password';
 
 // Load environment variables
 dotenv.config();
@@ -51,7 +53,7 @@ class SeedManager {
         console.log('Creating venue manager...');
         const [manager] = await db.insert(users).values({
             username: 'manager',
-            password: 'venue123',
+            password: await hashPassword('venue123'),
             name: 'Demo User',
             email: 'manager@venues.com',
             role: 'venue_manager'
@@ -117,13 +119,13 @@ class SeedManager {
                     startDate.getTime() + Math.random() * (endDate.getTime() - startDate.getTime())
                 );
 
-                await db.insert(events).values({
+                await ingestEvent({
+                    source: 'manual',
                     artistId: artist.id,
                     venueId: venue.id,
                     date: eventDate.toISOString().split('T')[0],
                     startTime: '20:00',
-                    status: 'confirmed',
-                    sourceName: 'manual'
+                    status: 'confirmed'
                 });
 
                 console.log(`Created event: ${artist.name} at ${venue.name} on ${eventDate.toISOString().split('T')[0]}`);
@@ -2,6 +2,7 @@ import { OpenAI } from 'openai';
 import { venues, artists } from '../../shared/schema';
 import { db } from '../db';
 import { eq } from 'drizzle-orm';
+import type { SyncRunRecorder } from './sync-runs';
 
 // Define types for Venue and Artist based on the schema
 type Venue = typeof venues.$inferSelect;
@@ -317,8 +318,9 @@ export class AIDataEnhancementService {
   
   /**
    * Process a batch of venues to enhance their data
+   * @param run The sync run to record each venue's outcome in
    */
-  public async enhanceVenueBatch(venueIds: number[]): Promise<number> {
+  public async enhanceVenueBatch(venueIds: number[], run?: SyncRunRecorder): Promise<number> {
     if (!this.openai) {
       throw new Error('OpenAI client not initialized');
     }
@@ -332,12 +334,14 @@ export class AIDataEnhancementService {
         
         if (!venueData) {
           console.warn(`Venue with ID ${venueId} not found.`);
+          run?.count('skipped');
           continue;
         }
         
         // Skip if venue already has a description
         if (venueData.description && venueData.description.length > 50) {
           console.log(`Venue ${venueId} already has a description. Skipping.`);
+          run?.count('skipped');
           continue;
         }
         
@@ -370,9 +374,15 @@ export class AIDataEnhancementService {
           .where(eq(venues.id, venueId));
         
         enhancedCount++;
+        run?.count('updated');
         console.log(`Enhanced venue ${venueId} successfully.`);
       } catch (error) {
         console.error(`Error enhancing venue ${venueId}:`, error);
+        await run?.error(error, {
+          entityType: 'venue',
+          entityId: venueId,
+          retry: { type: 'venue-enrichment', payload: { venueIds: [venueId] } }
+        });
       }
     }
     
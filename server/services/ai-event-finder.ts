@@ -1,10 +1,12 @@
 import { db } from '../db';
-import { artists, events, venues } from '../../shared/schema';
+import { artists, venues } from '../../shared/schema';
 import { eq, sql } from 'drizzle-orm';
 import OpenAI from 'openai';
 import dotenv from 'dotenv';
 import axios from 'axios';
 import { parseISO, isFuture } from 'date-fns';
+import { AUTO_MATCH_SCORE, rankMatches, scoreArtistMatch } from '../../shared/utils/entity-matching';
+import { ingestEvent } from './event-ingestion';
 
 dotenv.config();
 
@@ -196,7 +198,7 @@ async function fetchSongkickEvents(venueId: string, apiKey: string): Promise<any
  * Process events to normalize data, match artists, and save to database
  */
 async function processEvents(sourceEvents: any[], existingArtists: any[], venueId: number): Promise<any[]> {
-  const processedEvents = [];
+  const processedEvents: any[] = [];
   
   for (const sourceEvent of sourceEvents) {
     try {
@@ -224,19 +226,17 @@ async function processEvents(sourceEvents: any[], existingArtists: any[], venueI
       }
       
       // Save to database
-      const savedEvent = await db.insert(events).values({
-        date: sourceEvent.date,
+      const result = await ingestEvent({
+        source: sourceEvent.source,
         artistId: artist.id,
         venueId: venueId,
-        ticketPrice: sourceEvent.price || null,
-        description: sourceEvent.description || null,
-        time: sourceEvent.time || null,
-        status: 'confirmed',
-        sourceName: sourceEvent.source
-      }).returning();
+        date: sourceEvent.date,
+        startTime: sourceEvent.time || null,
+        status: 'confirmed'
+      });
       
-      if (savedEvent && savedEvent.length > 0) {
-        processedEvents.push(savedEvent[0]);
+      if (result.outcome === 'created') {
+        processedEvents.push(result.event);
       }
     } catch (error) {
       console.error(`Error processing event: ${error instanceof Error ? error.message : String(error)}`);
@@ -250,8 +250,9 @@ async function processEvents(sourceEvents: any[], existingArtists: any[], venueI
  * Find matching artist in existing artists
  */
 function findMatchingArtist(artistName: string, existingArtists: any[]): any | null {
-  // Basic exact name matching
-  return existingArtists.find(a => a.name.toLowerCase() === artistName.toLowerCase());
+  // Best match by normalized, fuzzy name, e.g. "The Beths" for "Beths"
+  const [best] = rankMatches({ name: artistName }, existingArtists, scoreArtistMatch);
+  return best && best.score >= AUTO_MATCH_SCORE ? best.candidate : null;
 }
 
 /**
@@ -1,9 +1,10 @@
 import { db } from '../db';
-import { artists, events, venues } from '../../shared/schema';
+import { artists, venues } from '../../shared/schema';
 import { eq, sql } from 'drizzle-orm';
 import OpenAI from 'openai';
 import dotenv from 'dotenv';
 import { addMonths, format, addDays, isFuture, parseISO } from 'date-fns';
+import { ingestEvent } from './event-ingestion';
 
 dotenv.config();
 
@@ -81,16 +82,15 @@ export async function generateEventsForVenue(venueId: number, numberOfEvents: nu
         }
 
         // Create event
-        await db.insert(events).values({
-          date: eventData.date,
+        const result = await ingestEvent({
+          source: 'ai-generated',
           artistId: artist.id,
           venueId: venueId,
-          ticketPrice: eventData.ticketPrice,
-          description: eventData.description,
-          time: eventData.time,
-          status: 'confirmed',
-          sourceName: 'ai-generated'
+          date: eventData.date,
+          startTime: eventData.time,
+          status: 'confirmed'
         });
+        if (result.outcome !== 'created') continue;
 
         eventsCreated++;
       } catch (error) {
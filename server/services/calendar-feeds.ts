@@ -0,0 +1,337 @@
+/**
+ * Calendar feeds
+ *
+ * Read-only iCal feeds of a tour's or a venue's dates for Google and Apple calendars.
+ * A feed is reached by its token alone, so anyone with the URL can subscribe until the
+ * feed is revoked. Feeds are built from the live tables on every fetch: moving a tour
+ * venue's date moves the event on the subscriber's next refresh, as its UID stays put.
+ *
+ * Venues can also import an .ics file as events or as blackout dates.
+ */
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { and, asc, eq, gte, inArray, isNull, ne, or } from 'drizzle-orm';
+import {
+  artists,
+  calendarFeeds,
+  events,
+  tours,
+  tourVenues,
+  venueBlackouts,
+  venueHolds,
+  venues,
+  type CalendarFeed
+} from '../../shared/schema';
+import { buildCalendar, parseCalendar, type CalendarEvent } from '../../shared/utils/ical';
+import { addDays } from '../../shared/utils/tour-solver/schedule';
+import { getTourItinerary } from './tour-itinerary';
+import { ingestEvent } from './event-ingestion';
+import { withSyncRun } from './sync-runs';
+import { createBlackout, invalidateVenueOptimizations } from './venue-availability';
+
+export type FeedScope = { tourId: number } | { venueId: number };
+
+export type ImportTarget = 'events' | 'blackouts';
+
+export interface ImportOptions {
+  createAs: ImportTarget;
+  // Artist for imported events whose summary names no known artist
+  artistId?: number;
+}
+
+export interface ImportSkip {
+  summary: string;
+  date: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: ImportSkip[];
+}
+
+// Feeds leave out dates further back than this
+const FEED_HISTORY_DAYS = 365;
+
+// Imported events are matched to earlier imports by the file's UIDs, or by artist and date without one
+const IMPORT_SOURCE = 'ical';
+
+const UID_DOMAIN = 'venueconnect';
+
+const uid = (kind: string, id: number | string) => `${kind}-${id}@${UID_DOMAIN}`;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const place = (venue: { name: string; city: string | null }) => venue.city ? `${venue.name}, ${venue.city}` : venue.name;
+
+/**
+ * Create a feed for a tour or a venue
+ * @returns null when the tour or venue does not exist
+ */
+export async function createCalendarFeed(scope: FeedScope, userId?: number): Promise<CalendarFeed | null> {
+  const [owner] = 'tourId' in scope
+    ? await db.select({ id: tours.id }).from(tours).where(eq(tours.id, scope.tourId))
+    : await db.select({ id: venues.id }).from(venues).where(eq(venues.id, scope.venueId));
+  if (!owner) return null;
+
+  const [feed] = await db.insert(calendarFeeds)
+    .values({ ...scope, token: randomBytes(24).toString('base64url'), createdById: userId ?? null })
+    .returning();
+  return feed;
+}
+
+/**
+ * A tour's or a venue's feeds that have not been revoked
+ */
+export async function listCalendarFeeds(scope: FeedScope): Promise<CalendarFeed[]> {
+  const owner = 'tourId' in scope ? eq(calendarFeeds.tourId, scope.tourId) : eq(calendarFeeds.venueId, scope.venueId);
+  return db.select()
+    .from(calendarFeeds)
+    .where(and(owner, isNull(calendarFeeds.revokedAt)))
+    .orderBy(asc(calendarFeeds.createdAt));
+}
+
+export async function getCalendarFeed(feedId: number): Promise<CalendarFeed | null> {
+  const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.id, feedId));
+  return feed ?? null;
+}
+
+/**
+ * Revoke a feed; its URL stops serving at once
+ * @returns null when there is no such feed
+ */
+export async function revokeCalendarFeed(feedId: number): Promise<CalendarFeed | null> {
+  const [feed] = await db.update(calendarFeeds)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(calendarFeeds.id, feedId), isNull(calendarFeeds.revokedAt)))
+    .returning();
+  return feed ?? null;
+}
+
+// Shows, holds, load-ins and travel days of a tour
+async function tourCalendar(tourId: number): Promise<{ name: string; events: CalendarEvent[] } | null> {
+  const [tour] = await db.select({ name: tours.name, artistName: artists.name })
+    .from(tours)
+    .innerJoin(artists, eq(tours.artistId, artists.id))
+    .where(eq(tours.id, tourId));
+  if (!tour) return null;
+
+  const from = addDays(today(), -FEED_HISTORY_DAYS);
+  const [stops, itinerary] = await Promise.all([
+    db.select({ stop: tourVenues, venue: venues, holdRank: venueHolds.rank })
+      .from(tourVenues)
+      .innerJoin(venues, eq(tourVenues.venueId, venues.id))
+      .leftJoin(venueHolds, and(eq(venueHolds.tourVenueId, tourVenues.id), eq(venueHolds.status, 'active')))
+      .where(and(
+        eq(tourVenues.tourId, tourId),
+        inArray(tourVenues.status, ['hold', 'confirmed']),
+        gte(tourVenues.date, from)
+      ))
+      .orderBy(asc(tourVenues.date)),
+    getTourItinerary(tourId)
+  ]);
+
+  const calendar: CalendarEvent[] = [];
+  const venueNames = new Map<number, string>();
+  for (const { stop, venue, holdRank } of stops) {
+    venueNames.set(stop.id, venue.name);
+    const confirmed = stop.status === 'confirmed';
+    calendar.push({
+      uid: uid('tour-venue', stop.id),
+      summary: confirmed
+        ? `${tour.artistName} @ ${venue.name}`
+        : `Hold${holdRank ? ` #${holdRank}` : ''}: ${tour.artistName} @ ${venue.name}`,
+      description: stop.notes,
+      location: place(venue),
+      date: stop.date!,
+      status: confirmed ? 'CONFIRMED' : 'TENTATIVE',
+      categories: [confirmed ? 'Show' : 'Hold']
+    });
+    if (stop.loadInTime) {
+      calendar.push({
+        uid: uid('load-in', stop.id),
+        summary: `Load-in: ${venue.name}`,
+        location: place(venue),
+        date: stop.date!,
+        startTime: stop.loadInTime,
+        status: confirmed ? 'CONFIRMED' : 'TENTATIVE',
+        categories: ['Load-in']
+      });
+    }
+  }
+
+  for (const day of itinerary?.days ?? []) {
+    if (day.type !== 'travel' || day.date < from) continue;
+    const origin = day.fromTourVenueId !== null ? venueNames.get(day.fromTourVenueId) : undefined;
+    const destination = venueNames.get(day.tourVenueId);
+    calendar.push({
+      uid: uid(`tour-${tourId}-travel`, day.date),
+      summary: origin && destination ? `Travel: ${origin} → ${destination}` : 'Travel day',
+      description: `${Math.round(day.distanceKm)} km`,
+      date: day.date,
+      categories: ['Travel']
+    });
+  }
+
+  return { name: `${tour.artistName} – ${tour.name}`, events: calendar };
+}
+
+// Events, confirmed tour dates, holds and load-ins at a venue
+async function venueCalendar(venueId: number): Promise<{ name: string; events: CalendarEvent[] } | null> {
+  const [venue] = await db.select().from(venues).where(eq(venues.id, venueId));
+  if (!venue) return null;
+
+  const from = addDays(today(), -FEED_HISTORY_DAYS);
+  const [venueEvents, stops] = await Promise.all([
+    db.select({ event: events, artistName: artists.name })
+      .from(events)
+      .innerJoin(artists, eq(events.artistId, artists.id))
+      .where(and(
+        eq(events.venueId, venueId),
+        gte(events.date, from),
+        or(isNull(events.status), ne(events.status, 'cancelled'))
+      ))
+      .orderBy(asc(events.date)),
+    db.select({ stop: tourVenues, tourName: tours.name, artistName: artists.name, holdRank: venueHolds.rank })
+      .from(tourVenues)
+      .innerJoin(tours, eq(tourVenues.tourId, tours.id))
+      .innerJoin(artists, eq(tours.artistId, artists.id))
+      .leftJoin(venueHolds, and(eq(venueHolds.tourVenueId, tourVenues.id), eq(venueHolds.status, 'active')))
+      .where(and(
+        eq(tourVenues.venueId, venueId),
+        inArray(tourVenues.status, ['hold', 'confirmed']),
+        gte(tourVenues.date, from)
+      ))
+      .orderBy(asc(tourVenues.date), asc(venueHolds.rank))
+  ]);
+
+  const calendar: CalendarEvent[] = venueEvents.map(({ event, artistName }) => ({
+    uid: uid('event', event.id),
+    summary: artistName,
+    description: [event.startTime && `Starts ${event.startTime}`, event.ticketUrl].filter(Boolean).join('\n') || null,
+    location: place(venue),
+    date: event.date,
+    status: event.status === 'confirmed' || event.status === null ? 'CONFIRMED' : 'TENTATIVE',
+    categories: ['Show']
+  }));
+
+  for (const { stop, tourName, artistName, holdRank } of stops) {
+    const confirmed = stop.status === 'confirmed';
+    calendar.push({
+      uid: uid('tour-venue', stop.id),
+      summary: confirmed ? `${artistName} (${tourName})` : `Hold${holdRank ? ` #${holdRank}` : ''}: ${artistName} (${tourName})`,
+      location: place(venue),
+      date: stop.date!,
+      status: confirmed ? 'CONFIRMED' : 'TENTATIVE',
+      categories: [confirmed ? 'Show' : 'Hold']
+    });
+    if (confirmed && stop.loadInTime) {
+      calendar.push({
+        uid: uid('load-in', stop.id),
+        summary: `Load-in: ${artistName}`,
+        location: place(venue),
+        date: stop.date!,
+        startTime: stop.loadInTime,
+        status: 'CONFIRMED',
+        categories: ['Load-in']
+      });
+    }
+  }
+
+  return { name: venue.name, events: calendar };
+}
+
+/**
+ * The .ics text of a feed
+ * @returns null when the token is unknown or the feed was revoked
+ */
+export async function renderCalendarFeed(token: string): Promise<string | null> {
+  const [feed] = await db.select()
+    .from(calendarFeeds)
+    .where(and(eq(calendarFeeds.token, token), isNull(calendarFeeds.revokedAt)));
+  if (!feed) return null;
+
+  const calendar = feed.tourId !== null ? await tourCalendar(feed.tourId) : await venueCalendar(feed.venueId!);
+  if (!calendar) return null;
+
+  await db.update(calendarFeeds).set({ lastAccessedAt: new Date() }).where(eq(calendarFeeds.id, feed.id));
+  return buildCalendar(calendar.name, calendar.events);
+}
+
+/**
+ * Import an .ics file into a venue's events or blackouts
+ * Events are matched to artists by their summary, and re-importing a file updates the
+ * events it created before instead of adding them again. A cancelled entry cancels the
+ * event it was imported as; cancelled blackouts and unknown cancelled events are skipped.
+ * Event imports are recorded as sync runs.
+ * @throws IcalParseError when the text is not an iCalendar file
+ */
+export async function importVenueCalendar(
+  venueId: number,
+  ics: string,
+  options: ImportOptions,
+  userId?: number
+): Promise<ImportResult> {
+  const parsed = parseCalendar(ics);
+  const result: ImportResult = { created: 0, updated: 0, skipped: [] };
+  const skip = (summary: string, date: string, reason: string) => result.skipped.push({ summary, date, reason });
+
+  if (options.createAs === 'blackouts') {
+    const existing = await db.select().from(venueBlackouts).where(eq(venueBlackouts.venueId, venueId));
+    for (const entry of parsed) {
+      if (entry.status === 'CANCELLED') {
+        skip(entry.summary, entry.startDate, 'Cancelled');
+      } else if (existing.some(range => range.startDate === entry.startDate && range.endDate === entry.endDate)) {
+        skip(entry.summary, entry.startDate, 'Already blacked out');
+      } else {
+        existing.push(await createBlackout(venueId, {
+          startDate: entry.startDate,
+          endDate: entry.endDate,
+          reason: entry.summary || null
+        }, userId));
+        result.created++;
+      }
+    }
+    return result;
+  }
+
+  const artistIds = new Map(
+    (await db.select({ id: artists.id, name: artists.name }).from(artists))
+      .map(artist => [artist.name.trim().toLowerCase(), artist.id] as const)
+  );
+  await withSyncRun({ source: IMPORT_SOURCE, operation: 'calendar-import', entityType: 'venue', entityId: venueId }, async (run) => {
+    for (const entry of parsed) {
+      const artistId = artistIds.get(entry.summary.trim().toLowerCase()) ?? options.artistId;
+      if (!artistId) {
+        skip(entry.summary, entry.startDate, 'No artist with this name');
+        run.count('skipped');
+        continue;
+      }
+
+      const ingested = await ingestEvent({
+        source: IMPORT_SOURCE,
+        externalId: entry.uid ? `${venueId}:${entry.uid}` : null,
+        artistId,
+        venueId,
+        date: entry.startDate,
+        startTime: entry.startTime,
+        status: entry.status
+      });
+      run.count(ingested.outcome);
+
+      if (ingested.outcome === 'created') {
+        result.created++;
+      } else if (ingested.outcome === 'updated') {
+        result.updated++;
+      } else {
+        skip(entry.summary, entry.startDate, ingested.reason ?? 'Already on the calendar');
+      }
+    }
+  });
+
+  if (result.created > 0 || result.updated > 0) {
+    await invalidateVenueOptimizations(venueId);
+  }
+  return result;
+}
@@ -0,0 +1,100 @@
+import { calculateDistance, calculateTotalDistance } from '../../shared/utils/geo';
+import { dayAvailability, type VenueAvailability } from '../../shared/utils/venue-availability';
+import type { RoutingProposal, RoutingProposalStop } from '../../shared/schema';
+
+/**
+ * A participant's proposed date together with the venue's location
+ */
+export interface ProposedStop {
+  participantId: number;
+  venueId: number;
+  venueName: string;
+  date: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+/**
+ * A proposal stop its venue can no longer take, and why
+ */
+export interface UnavailableStop extends RoutingProposalStop {
+  reason: string;
+}
+
+/**
+ * Build a combined routing proposal from the dates proposed by collaborating venues
+ *
+ * Stops are played in date order; venues proposing the same date are ordered by
+ * distance from the previous stop and the date is reported as a conflict.
+ * @param proposed Proposed stops (participants without a date should be left out)
+ */
+export function buildRoutingProposal(proposed: ProposedStop[]): RoutingProposal {
+  const byDate = new Map<string, ProposedStop[]>();
+  for (const stop of proposed) {
+    byDate.set(stop.date, [...(byDate.get(stop.date) || []), stop]);
+  }
+
+  const ordered: ProposedStop[] = [];
+  const dateConflicts: string[] = [];
+
+  for (const date of Array.from(byDate.keys()).sort()) {
+    const sameDay = [...byDate.get(date)!];
+    if (sameDay.length > 1) {
+      dateConflicts.push(date);
+    }
+
+    while (sameDay.length > 0) {
+      const previous = ordered[ordered.length - 1];
+      let nearestIndex = 0;
+
+      if (previous) {
+        let nearestDistance = Infinity;
+        sameDay.forEach((candidate, index) => {
+          const distance = calculateDistance(previous.latitude, previous.longitude, candidate.latitude, candidate.longitude);
+          if (distance < nearestDistance) {
+            nearestDistance = distance;
+            nearestIndex = index;
+          }
+        });
+      }
+
+      ordered.push(sameDay.splice(nearestIndex, 1)[0]);
+    }
+  }
+
+  const stops: RoutingProposalStop[] = ordered.map((stop, index) => {
+    const previous = ordered[index - 1];
+    return {
+      participantId: stop.participantId,
+      venueId: stop.venueId,
+      venueName: stop.venueName,
+      date: stop.date,
+      distanceFromPreviousKm: previous
+        ? Math.round(calculateDistance(previous.latitude, previous.longitude, stop.latitude, stop.longitude) * 10) / 10
+        : 0
+    };
+  });
+
+  return {
+    stops,
+    totalDistanceKm: Math.round(calculateTotalDistance(ordered) * 10) / 10,
+    dateConflicts,
+    builtAt: new Date().toISOString()
+  };
+}
+
+/**
+ * The stops whose venue can't take their date any more: booked (a confirmed event or
+ * confirmed hold), blacked out or not an open night
+ * @param availability Availability by venue id; venues left out can take any date
+ */
+export function findUnavailableStops(
+  stops: RoutingProposalStop[],
+  availability: Map<number, VenueAvailability>
+): UnavailableStop[] {
+  return stops.flatMap(stop => {
+    const venueAvailability = availability.get(stop.venueId);
+    const day = venueAvailability && dayAvailability(venueAvailability, stop.date);
+    return day && !day.available ? [{ ...stop, reason: day.detail ?? day.status }] : [];
+  });
+}
@@ -0,0 +1,280 @@
+/**
+ * Day sheets
+ *
+ * A day sheet per confirmed show with the venue's address and contacts, the day's times,
+ * the drive from the previous confirmed show, accommodation and notes, and an itinerary
+ * book with the tour's schedule followed by every day sheet. Both render to printable
+ * HTML or PDF through ./documents.
+ */
+import { db } from '../db';
+import { and, asc, eq } from 'drizzle-orm';
+import { artists, tours, tourVenues, venues } from '../../shared/schema';
+import type { TravelMode } from '../../shared/utils/geo';
+import { daysBetween } from '../../shared/utils/tour-solver';
+import { buildTravelMatrix } from './travel-matrix';
+import type { DocumentBlock, PrintDocument } from './documents';
+
+export interface DaySheetDrive {
+  fromVenueName: string;
+  fromCity: string;
+  distanceKm: number;
+  travelTimeMinutes: number;
+  mode: TravelMode;
+}
+
+export interface DaySheet {
+  tourId: number;
+  tourName: string;
+  artistName: string;
+  tourVenueId: number;
+  date: string;
+  // Days since the first confirmed show, counting it as day 1
+  dayNumber: number;
+  showNumber: number;
+  showCount: number;
+  venue: {
+    name: string;
+    address: string | null;
+    city: string;
+    region: string | null;
+    country: string | null;
+    capacity: number | null;
+  };
+  contacts: {
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+  times: {
+    loadIn: string | null;
+    soundcheck: string | null;
+    doors: string | null;
+    set: string | null;
+  };
+  // null on the first show
+  drive: DaySheetDrive | null;
+  accommodation: string | null;
+  notes: string | null;
+}
+
+export interface ItineraryBook {
+  tourId: number;
+  tourName: string;
+  artistName: string;
+  sheets: DaySheet[];
+}
+
+/**
+ * Day sheets of a tour's confirmed shows in date order
+ * @returns null when the tour does not exist
+ */
+export async function getItineraryBook(tourId: number): Promise<ItineraryBook | null> {
+  const [tour] = await db.select({ name: tours.name, artistName: artists.name })
+    .from(tours)
+    .innerJoin(artists, eq(tours.artistId, artists.id))
+    .where(eq(tours.id, tourId));
+  if (!tour) return null;
+
+  const shows = (await db.select({ stop: tourVenues, venue: venues })
+    .from(tourVenues)
+    .innerJoin(venues, eq(tourVenues.venueId, venues.id))
+    .where(and(eq(tourVenues.tourId, tourId), eq(tourVenues.status, 'confirmed')))
+    .orderBy(asc(tourVenues.date), asc(tourVenues.sequence)))
+    .filter(show => show.stop.date);
+
+  const travel = await buildTravelMatrix(shows.map(({ venue }) => ({
+    venueId: venue.id,
+    latitude: venue.latitude,
+    longitude: venue.longitude,
+    country: venue.country
+  })));
+
+  const sheets = shows.map(({ stop, venue }, index): DaySheet => {
+    const previous = index > 0 ? shows[index - 1].venue : null;
+    const leg = previous && travel.leg(
+      { venueId: previous.id, latitude: previous.latitude, longitude: previous.longitude, country: previous.country },
+      { venueId: venue.id, latitude: venue.latitude, longitude: venue.longitude, country: venue.country }
+    );
+    return {
+      tourId,
+      tourName: tour.name,
+      artistName: tour.artistName,
+      tourVenueId: stop.id,
+      date: stop.date!,
+      dayNumber: daysBetween(shows[0].stop.date!, stop.date!) + 1,
+      showNumber: index + 1,
+      showCount: shows.length,
+      venue: {
+        name: venue.name,
+        address: venue.address,
+        city: venue.city,
+        region: venue.region,
+        country: venue.country,
+        capacity: venue.capacity
+      },
+      contacts: {
+        name: venue.bookingContactName,
+        email: venue.bookingEmail,
+        phone: venue.contactPhone
+      },
+      times: {
+        loadIn: stop.loadInTime,
+        soundcheck: stop.soundcheckTime,
+        doors: stop.doorsTime,
+        set: stop.setTime
+      },
+      drive: previous && leg ? {
+        fromVenueName: previous.name,
+        fromCity: previous.city,
+        distanceKm: leg.distanceKm,
+        travelTimeMinutes: leg.travelTimeMinutes,
+        mode: leg.mode ?? 'drive'
+      } : null,
+      accommodation: stop.accommodation,
+      notes: stop.notes
+    };
+  });
+
+  return { tourId, tourName: tour.name, artistName: tour.artistName, sheets };
+}
+
+/**
+ * Day sheet of the tour's confirmed show on a date
+ * @returns null when the tour has no confirmed show that day
+ */
+export async function getDaySheet(tourId: number, date: string): Promise<DaySheet | null> {
+  const book = await getItineraryBook(tourId);
+  return book?.sheets.find(sheet => sheet.date === date) ?? null;
+}
+
+const longDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  timeZone: 'UTC'
+});
+
+const shortDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC'
+});
+
+function duration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours > 0 ? `${hours} h ${rest} min` : `${rest} min`;
+}
+
+const addressLines = (venue: DaySheet['venue']) => [
+  venue.address,
+  [venue.city, venue.region].filter(Boolean).join(', '),
+  venue.country
+].filter(Boolean).join('\n');
+
+function sheetBlocks(sheet: DaySheet): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [
+    {
+      type: 'title',
+      text: `${sheet.artistName} — ${sheet.venue.name}`,
+      subtitle: `${longDate(sheet.date)} · ${sheet.tourName} · Day ${sheet.dayNumber}, show ${sheet.showNumber} of ${sheet.showCount}`
+    },
+    { type: 'heading', text: 'Venue' },
+    {
+      type: 'fields',
+      fields: [
+        ['Venue', sheet.venue.name],
+        ['Address', addressLines(sheet.venue)],
+        ['Capacity', sheet.venue.capacity ? sheet.venue.capacity.toLocaleString('en-US') : null]
+      ]
+    },
+    { type: 'heading', text: 'Contacts' },
+    {
+      type: 'fields',
+      fields: [
+        ['Booking contact', sheet.contacts.name],
+        ['Email', sheet.contacts.email],
+        ['Phone', sheet.contacts.phone]
+      ]
+    },
+    { type: 'heading', text: 'Schedule' },
+    {
+      type: 'fields',
+      fields: [
+        ['Load-in', sheet.times.loadIn],
+        ['Soundcheck', sheet.times.soundcheck],
+        ['Doors', sheet.times.doors],
+        ['Set', sheet.times.set]
+      ]
+    },
+    { type: 'heading', text: 'Travel' },
+    sheet.drive
+      ? {
+        type: 'fields',
+        fields: [
+          ['From', `${sheet.drive.fromVenueName}, ${sheet.drive.fromCity}`],
+          ['Distance', `${Math.round(sheet.drive.distanceKm)} km`],
+          [sheet.drive.mode === 'drive' ? 'Drive time' : `Travel time (${sheet.drive.mode})`, duration(sheet.drive.travelTimeMinutes)]
+        ]
+      }
+      : { type: 'text', text: 'First show of the tour.' },
+    { type: 'heading', text: 'Accommodation' },
+    { type: 'text', text: sheet.accommodation || 'Not booked yet.' }
+  ];
+  if (sheet.notes) {
+    blocks.push({ type: 'heading', text: 'Notes' }, { type: 'text', text: sheet.notes });
+  }
+  return blocks;
+}
+
+/**
+ * One show's day sheet as a printable document
+ */
+export function daySheetDocument(sheet: DaySheet): PrintDocument {
+  return {
+    title: `Day sheet: ${sheet.artistName} at ${sheet.venue.name}, ${sheet.date}`,
+    footer: `${sheet.artistName} · ${sheet.tourName}`,
+    blocks: sheetBlocks(sheet)
+  };
+}
+
+/**
+ * The tour's schedule followed by a day sheet per show, each on its own page
+ */
+export function itineraryBookDocument(book: ItineraryBook): PrintDocument {
+  const first = book.sheets[0];
+  const last = book.sheets[book.sheets.length - 1];
+  const blocks: DocumentBlock[] = [
+    {
+      type: 'title',
+      text: `${book.artistName} — ${book.tourName}`,
+      subtitle: first
+        ? `${longDate(first.date)} to ${longDate(last.date)} · ${book.sheets.length} show${book.sheets.length === 1 ? '' : 's'}`
+        : 'No confirmed shows yet'
+    },
+    { type: 'heading', text: 'Schedule' },
+    {
+      type: 'table',
+      columns: ['Date', 'City', 'Venue', 'Load-in', 'Doors', 'Set', 'Travel'],
+      widths: [0.14, 0.17, 0.29, 0.09, 0.08, 0.08, 0.15],
+      rows: book.sheets.map(sheet => [
+        shortDate(sheet.date),
+        sheet.venue.city,
+        sheet.venue.name,
+        sheet.times.loadIn ?? '',
+        sheet.times.doors ?? '',
+        sheet.times.set ?? '',
+        sheet.drive ? `${Math.round(sheet.drive.distanceKm)} km, ${duration(sheet.drive.travelTimeMinutes)}` : ''
+      ])
+    },
+    ...book.sheets.flatMap(sheet => [{ type: 'pageBreak' } as const, ...sheetBlocks(sheet)])
+  ];
+
+  return {
+    title: `Itinerary: ${book.artistName}, ${book.tourName}`,
+    footer: `${book.artistName} · ${book.tourName}`,
+    blocks
+  };
+}
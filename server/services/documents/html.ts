@@ -0,0 +1,73 @@
+import type { DocumentBlock, PrintDocument } from './types';
+
+const EMPTY_VALUE = '—';
+
+const STYLES = `
+  @page { size: A4; margin: 18mm; }
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 10pt; color: #111; max-width: 180mm; margin: 0 auto; }
+  h1 { font-size: 20pt; margin: 0; }
+  .subtitle { color: #666; margin: 4pt 0 12pt; font-size: 11pt; }
+  h2 { font-size: 13pt; border-bottom: 0.5pt solid #ccc; padding-bottom: 2pt; margin: 14pt 0 6pt; }
+  dl { display: grid; grid-template-columns: 42mm 1fr; gap: 3pt 8pt; margin: 0; }
+  dt { font-weight: bold; }
+  dd { margin: 0; white-space: pre-wrap; }
+  p { white-space: pre-wrap; margin: 0 0 6pt; }
+  table { width: 100%; border-collapse: collapse; font-size: 9pt; }
+  th { text-align: left; border-bottom: 0.5pt solid #999; padding: 2pt 4pt; }
+  td { border-bottom: 0.5pt solid #eee; padding: 2pt 4pt; vertical-align: top; }
+  .page-break { break-after: page; }
+  footer { color: #666; font-size: 8pt; margin-top: 16pt; text-align: center; }
+  @media screen { body { padding: 16px; } .page-break { border-top: 1px dashed #ccc; margin: 24px 0; } }
+`;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderBlock(block: DocumentBlock): string {
+  switch (block.type) {
+    case 'title':
+      return `<h1>${escapeHtml(block.text)}</h1>` +
+        (block.subtitle ? `<div class="subtitle">${escapeHtml(block.subtitle)}</div>` : '');
+    case 'heading':
+      return `<h2>${escapeHtml(block.text)}</h2>`;
+    case 'fields':
+      return `<dl>${block.fields.map(([label, value]) =>
+        `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value || EMPTY_VALUE)}</dd>`).join('')}</dl>`;
+    case 'text':
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case 'table': {
+      const header = block.columns.map((column, index) =>
+        `<th style="width:${Math.round(block.widths[index] * 100)}%">${escapeHtml(column)}</th>`).join('');
+      const rows = block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('');
+      return `<table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+    }
+    case 'pageBreak':
+      return '<div class="page-break"></div>';
+  }
+}
+
+/**
+ * A standalone HTML page of the document, styled to print on A4
+ */
+export function renderHtml(document: PrintDocument): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(document.title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    ...document.blocks.map(renderBlock),
+    document.footer ? `<footer>${escapeHtml(document.footer)}</footer>` : '',
+    '</body>',
+    '</html>'
+  ].join('\n');
+}
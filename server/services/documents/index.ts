@@ -0,0 +1,16 @@
+/**
+ * Printable documents
+ *
+ * Day sheets and itinerary books are described once as blocks and rendered server-side
+ * to a printable HTML page or a PDF, so both formats carry the same content.
+ */
+export type { DocumentBlock, PrintDocument } from './types';
+export { renderHtml, escapeHtml } from './html';
+export { renderPdf } from './pdf';
+
+export type DocumentFormat = 'html' | 'pdf';
+
+export const DOCUMENT_CONTENT_TYPES: Record<DocumentFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf'
+};
@@ -0,0 +1,259 @@
+/**
+ * PDF rendering
+ *
+ * Writes A4 PDFs with the standard Helvetica fonts every PDF reader has built in, so
+ * documents need no font files or browser to render. Text is encoded as WinAnsi;
+ * characters outside it print as "?".
+ */
+import type { DocumentBlock, PrintDocument } from './types';
+
+type FontStyle = 'regular' | 'bold';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+// Bottom of the page kept free for the footer
+const BOTTOM = MARGIN + 10;
+const FOOTER_BASELINE = 30;
+
+const FIELD_LABEL_WIDTH = 130;
+const EMPTY_VALUE = '—';
+
+const FONT_RESOURCES: Record<FontStyle, string> = { regular: 'F1', bold: 'F2' };
+const FONT_NAMES: Record<FontStyle, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+
+const DIGITS = Array(10).fill(556);
+
+// Glyph widths of characters 32 to 126, in thousandths of the font size
+const GLYPH_WIDTHS: Record<FontStyle, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    ...DIGITS,
+    278, 278, 584, 584, 584, 556, 1015,
+    667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611,
+    278, 278, 278, 469, 556, 333,
+    556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833,
+    556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500,
+    334, 260, 334, 584
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    ...DIGITS,
+    333, 333, 584, 584, 584, 611, 975,
+    722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+    722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611,
+    333, 278, 333, 584, 556, 333,
+    556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889,
+    611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500,
+    389, 280, 389, 584
+  ]
+};
+const DEFAULT_GLYPH_WIDTH = 556;
+
+// WinAnsi codes of the characters outside Latin-1 that documents use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+};
+
+function encode(text: string): number[] {
+  return [...text].map(char => {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+    return (code >= 32 && code <= 126) || (code >= 160 && code <= 255) ? code : 63;
+  });
+}
+
+export function textWidth(text: string, style: FontStyle, size: number): number {
+  const widths = GLYPH_WIDTHS[style];
+  const total = encode(text).reduce((sum, code) => sum + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH), 0);
+  return (total / 1000) * size;
+}
+
+/**
+ * Break text into lines no wider than the width, at spaces where possible
+ */
+export function wrapText(text: string, style: FontStyle, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, style, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Words wider than a line are split wherever they run out of room
+      line = '';
+      for (const char of word) {
+        if (line && textWidth(line + char, style, size) > width) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function truncate(text: string, style: FontStyle, size: number, width: number): string {
+  if (textWidth(text, style, size) <= width) return text;
+  let cut = text;
+  while (cut && textWidth(`${cut}…`, style, size) > width) cut = cut.slice(0, -1);
+  return `${cut}…`;
+}
+
+const hex = (codes: number[]) => codes.map(code => code.toString(16).padStart(2, '0')).join('');
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+// Text strings outside content streams, e.g. the title, are UTF-16 with a byte order mark
+function utf16Hex(text: string): string {
+  let result = 'FEFF';
+  for (let index = 0; index < text.length; index++) {
+    result += text.charCodeAt(index).toString(16).padStart(4, '0');
+  }
+  return `<${result}>`;
+}
+
+/**
+ * Lays blocks out top to bottom, starting new pages as they fill
+ */
+function layout(blocks: DocumentBlock[]): string[][] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const page = () => pages[pages.length - 1];
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  const ensureSpace = (height: number) => {
+    if (y - height < BOTTOM && page().length > 0) newPage();
+  };
+  const text = (x: number, baseline: number, value: string, style: FontStyle, size: number, gray = 0) => {
+    page().push(`BT ${gray} g /${FONT_RESOURCES[style]} ${size} Tf ${num(x)} ${num(baseline)} Td <${hex(encode(value))}> Tj ET`);
+  };
+  const rule = (at: number, gray = 0.8) => {
+    page().push(`${gray} G 0.5 w ${num(MARGIN)} ${num(at)} m ${num(MARGIN + CONTENT_WIDTH)} ${num(at)} l S`);
+  };
+  // One line of text at the cursor, moving the cursor down
+  const line = (x: number, value: string, style: FontStyle, size: number, height: number, gray = 0) => {
+    ensureSpace(height);
+    text(x, y - size, value, style, size, gray);
+    y -= height;
+  };
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'title':
+        line(MARGIN, block.text, 'bold', 20, 26);
+        for (const subtitle of block.subtitle ? wrapText(block.subtitle, 'regular', 11, CONTENT_WIDTH) : []) {
+          line(MARGIN, subtitle, 'regular', 11, 14, 0.4);
+        }
+        y -= 8;
+        break;
+      case 'heading':
+        y -= 10;
+        // Keep a heading with the first lines under it
+        ensureSpace(50);
+        line(MARGIN, block.text, 'bold', 13, 17);
+        rule(y + 2);
+        y -= 6;
+        break;
+      case 'fields':
+        for (const [label, value] of block.fields) {
+          const lines = wrapText(value || EMPTY_VALUE, 'regular', 10, CONTENT_WIDTH - FIELD_LABEL_WIDTH);
+          ensureSpace(Math.min(lines.length, 3) * 13);
+          text(MARGIN, y - 10, label, 'bold', 10);
+          lines.forEach(valueLine => line(MARGIN + FIELD_LABEL_WIDTH, valueLine, 'regular', 10, 13));
+          y -= 2;
+        }
+        break;
+      case 'text':
+        wrapText(block.text, 'regular', 10, CONTENT_WIDTH).forEach(textLine => line(MARGIN, textLine, 'regular', 10, 13));
+        y -= 4;
+        break;
+      case 'table': {
+        const columns = block.widths.map(width => width * CONTENT_WIDTH);
+        const row = (cells: string[], style: FontStyle) => {
+          let x = MARGIN;
+          cells.forEach((cell, index) => {
+            text(x, y - 9, truncate(cell, style, 9, columns[index] - 4), style, 9);
+            x += columns[index];
+          });
+          y -= 12;
+        };
+        const header = () => {
+          row(block.columns, 'bold');
+          rule(y + 2, 0.6);
+          y -= 2;
+        };
+
+        ensureSpace(40);
+        header();
+        for (const cells of block.rows) {
+          if (y - 12 < BOTTOM) {
+            newPage();
+            header();
+          }
+          row(cells, 'regular');
+        }
+        y -= 6;
+        break;
+      }
+      case 'pageBreak':
+        if (page().length > 0) newPage();
+        break;
+    }
+  }
+  return pages;
+}
+
+/**
+ * The document as a PDF file
+ */
+export function renderPdf(document: PrintDocument): Buffer {
+  const pages = layout(document.blocks);
+  pages.forEach((operations, index) => {
+    const footer = [document.footer, `Page ${index + 1} of ${pages.length}`].filter(Boolean).join(' · ');
+    const x = (PAGE_WIDTH - textWidth(footer, 'regular', 8)) / 2;
+    operations.push(`BT 0.4 g /F1 8 Tf ${num(x)} ${FOOTER_BASELINE} Td <${hex(encode(footer))}> Tj ET`);
+  });
+
+  // 1 catalog, 2 page tree, 3 and 4 fonts, 5 info, then a content stream and a page per page
+  const pageObject = (index: number) => 7 + index * 2;
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObject(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.regular} /Encoding /WinAnsiEncoding >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.bold} /Encoding /WinAnsiEncoding >>`,
+    `<< /Title ${utf16Hex(document.title)} /Producer (VenueConnect) >>`,
+    ...pages.flatMap((operations, index) => {
+      const content = operations.join('\n');
+      return [
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObject(index) - 1} 0 R >>`
+      ];
+    })
+  ];
+
+  // Content streams only hold ASCII, so string lengths are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
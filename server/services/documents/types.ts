@@ -0,0 +1,19 @@
+/**
+ * A printable document laid out as blocks, rendered to HTML or PDF
+ */
+export type DocumentBlock =
+  | { type: 'title'; text: string; subtitle?: string }
+  | { type: 'heading'; text: string }
+  // Label and value pairs; empty values are shown as a dash
+  | { type: 'fields'; fields: Array<[string, string | null]> }
+  | { type: 'text'; text: string }
+  // widths are fractions of the page width, one per column
+  | { type: 'table'; columns: string[]; widths: number[]; rows: string[][] }
+  | { type: 'pageBreak' };
+
+export interface PrintDocument {
+  title: string;
+  // Printed at the foot of every page
+  footer?: string;
+  blocks: DocumentBlock[];
+}
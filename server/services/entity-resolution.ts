@@ -0,0 +1,565 @@
+/**
+ * Entity resolution
+ *
+ * One place to decide whether an incoming venue or artist is already in the database,
+ * used by the webhook, venue import and scraper ingestion paths. Clear matches are reused,
+ * near misses are created and queued in entityMatchReviews for an admin, and a merge folds
+ * a duplicate into the record that is kept, repointing everything that referenced it.
+ * Scoring lives in shared/utils/entity-matching.ts.
+ */
+import { db } from '../db';
+import { and, asc, count, desc, eq, ilike, inArray, ne, notInArray, or, sql, type SQL } from 'drizzle-orm';
+import {
+  artistGenres,
+  artists,
+  artistTourPreferences,
+  collaborativeOpportunities,
+  collaborativeParticipants,
+  entityMatchReviews,
+  events,
+  eventSources,
+  inquiries,
+  predictions,
+  radiusClauses,
+  tourGaps,
+  tourGapSuggestions,
+  tourRoutes,
+  tours,
+  tourVenues,
+  users,
+  venueBlackouts,
+  venueGenres,
+  venueHolds,
+  venueMembers,
+  venueNetwork,
+  venues,
+  venueTourPreferences,
+  calendarFeeds,
+  type EntityMatchReview
+} from '../../shared/schema';
+import {
+  AUTO_MATCH_SCORE,
+  artistBlockKey,
+  findDuplicatePairs,
+  normalizeName,
+  rankMatches,
+  scoreArtistMatch,
+  scoreVenueMatch,
+  venueBlockKey,
+  type ArtistMatchFields,
+  type EntityType,
+  type MatchReviewStatus,
+  type MatchScore,
+  type RankedMatch,
+  type VenueMatchFields
+} from '../../shared/utils/entity-matching';
+import { reconcileEvent } from './event-ingestion';
+import { invalidateVenueOptimizations } from './venue-availability';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Venue = typeof venues.$inferSelect;
+type Artist = typeof artists.$inferSelect;
+type NewVenue = typeof venues.$inferInsert;
+type NewArtist = typeof artists.$inferInsert;
+
+// Degrees of latitude around a venue's coordinates searched for candidates, about 5 km
+const NEARBY_DEGREES = 0.05;
+const CANDIDATE_LIMIT = 500;
+
+/**
+ * A merge that cannot go ahead, e.g. merging a venue into itself
+ */
+export class EntityMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EntityMergeError';
+  }
+}
+
+/**
+ * Outcome of looking an entity up
+ */
+export interface Resolution<T> {
+  // Existing entity scoring at least AUTO_MATCH_SCORE
+  match: RankedMatch<T> | null;
+  // Best candidate below that, worth an admin's look
+  review: RankedMatch<T> | null;
+}
+
+export interface MatchReviewEntry extends EntityMatchReview {
+  source: Venue | Artist | null;
+  target: Venue | Artist | null;
+  // Events of each side, to help pick the record to keep
+  sourceEventCount: number;
+  targetEventCount: number;
+}
+
+function resolution<T>(matches: RankedMatch<T>[]): Resolution<T> {
+  const [best] = matches;
+  if (!best) return { match: null, review: null };
+  return best.score >= AUTO_MATCH_SCORE ? { match: best, review: null } : { match: null, review: best };
+}
+
+// Longest word of the normalized name, to narrow candidates by name in SQL
+function searchToken(name: string): string | null {
+  const [token] = normalizeName(name).split(' ').sort((a, b) => b.length - a.length);
+  return token && token.length >= 3 ? token : null;
+}
+
+async function venueCandidates(input: VenueMatchFields): Promise<Venue[]> {
+  const conditions: (SQL | undefined)[] = [];
+  if (input.bandsintownId) conditions.push(eq(venues.bandsintownId, input.bandsintownId));
+  if (input.songkickId) conditions.push(eq(venues.songkickId, input.songkickId));
+  if (input.googlePlaceId) conditions.push(eq(venues.googlePlaceId, input.googlePlaceId));
+  if (input.latitude != null && input.longitude != null) {
+    const longitudeDegrees = NEARBY_DEGREES / Math.max(0.1, Math.cos(input.latitude * Math.PI / 180));
+    conditions.push(sql`${venues.latitude} BETWEEN ${input.latitude - NEARBY_DEGREES} AND ${input.latitude + NEARBY_DEGREES}
+      AND ${venues.longitude} BETWEEN ${input.longitude - longitudeDegrees} AND ${input.longitude + longitudeDegrees}`);
+  }
+  if (input.city) {
+    const token = searchToken(input.name);
+    conditions.push(and(
+      sql`lower(${venues.city}) = ${input.city.trim().toLowerCase()}`,
+      token ? ilike(venues.name, `%${token}%`) : undefined
+    ));
+  }
+  if (!conditions.length) return [];
+
+  return db.select().from(venues).where(or(...conditions)).limit(CANDIDATE_LIMIT);
+}
+
+async function artistCandidates(input: ArtistMatchFields): Promise<Artist[]> {
+  const conditions: (SQL | undefined)[] = [];
+  if (input.spotifyId) conditions.push(eq(artists.spotifyId, input.spotifyId));
+  if (input.bandsintownId) conditions.push(eq(artists.bandsintownId, input.bandsintownId));
+  if (input.songkickId) conditions.push(eq(artists.songkickId, input.songkickId));
+  const token = searchToken(input.name);
+  conditions.push(token ? ilike(artists.name, `%${token}%`) : sql`lower(${artists.name}) = ${input.name.trim().toLowerCase()}`);
+
+  return db.select().from(artists).where(or(...conditions)).limit(CANDIDATE_LIMIT);
+}
+
+/**
+ * The existing venue an incoming one most likely is
+ */
+export async function findVenueMatch(input: VenueMatchFields): Promise<Resolution<Venue>> {
+  return resolution(rankMatches(input, await venueCandidates(input), scoreVenueMatch));
+}
+
+/**
+ * The existing artist an incoming one most likely is
+ */
+export async function findArtistMatch(input: ArtistMatchFields): Promise<Resolution<Artist>> {
+  return resolution(rankMatches(input, await artistCandidates(input), scoreArtistMatch));
+}
+
+/**
+ * Queue a likely duplicate for review; a pair already queued or dismissed is left alone
+ */
+export async function queueMatchReview(
+  entityType: EntityType,
+  sourceId: number,
+  targetId: number,
+  match: MatchScore,
+  detectedBy: string
+): Promise<void> {
+  await db.insert(entityMatchReviews)
+    .values({ entityType, sourceId, targetId, score: match.score, reasons: match.reasons, detectedBy })
+    .onConflictDoNothing();
+}
+
+/**
+ * Reuse the venue an incoming one matches, or create it
+ * A matched venue gains the external IDs it was missing. A new venue that resembles an
+ * existing one is queued for review.
+ */
+export async function findOrCreateVenue(values: NewVenue, detectedBy: string): Promise<{ venue: Venue; created: boolean }> {
+  const { match, review } = await findVenueMatch(values);
+
+  if (match) {
+    const existing = match.candidate;
+    const missing = {
+      bandsintownId: existing.bandsintownId ?? values.bandsintownId ?? null,
+      songkickId: existing.songkickId ?? values.songkickId ?? null,
+      googlePlaceId: existing.googlePlaceId ?? values.googlePlaceId ?? null,
+      latitude: existing.latitude ?? values.latitude ?? null,
+      longitude: existing.longitude ?? values.longitude ?? null
+    };
+    const changed = (Object.keys(missing) as (keyof typeof missing)[]).some(key => missing[key] !== existing[key]);
+    if (!changed) return { venue: existing, created: false };
+
+    const [venue] = await db.update(venues).set(missing).where(eq(venues.id, existing.id)).returning();
+    return { venue, created: false };
+  }
+
+  const [venue] = await db.insert(venues).values(values).returning();
+  if (review) {
+    await queueMatchReview('venue', venue.id, review.candidate.id, review, detectedBy);
+  }
+  return { venue, created: true };
+}
+
+/**
+ * Reuse the artist an incoming one matches, or create it
+ * A new artist that resembles an existing one is queued for review.
+ */
+export async function findOrCreateArtist(values: NewArtist, detectedBy: string): Promise<{ artist: Artist; created: boolean }> {
+  const { match, review } = await findArtistMatch(values);
+
+  if (match) {
+    const existing = match.candidate;
+    const missing = {
+      spotifyId: existing.spotifyId ?? values.spotifyId ?? null,
+      bandsintownId: existing.bandsintownId ?? values.bandsintownId ?? null,
+      songkickId: existing.songkickId ?? values.songkickId ?? null
+    };
+    const changed = (Object.keys(missing) as (keyof typeof missing)[]).some(key => missing[key] !== existing[key]);
+    if (!changed) return { artist: existing, created: false };
+
+    const [artist] = await db.update(artists).set(missing).where(eq(artists.id, existing.id)).returning();
+    return { artist, created: false };
+  }
+
+  const [artist] = await db.insert(artists).values(values).returning();
+  if (review) {
+    await queueMatchReview('artist', artist.id, review.candidate.id, review, detectedBy);
+  }
+  return { artist, created: true };
+}
+
+/**
+ * Compare every venue or artist with the others and queue the likely duplicates
+ * @returns how many pairs were found and how many of them are new to the queue
+ */
+export async function scanForDuplicates(entityType: EntityType): Promise<{ found: number; queued: number }> {
+  const pairs = entityType === 'venue'
+    ? findDuplicatePairs(await db.select().from(venues), venueBlockKey, scoreVenueMatch)
+    : findDuplicatePairs(await db.select().from(artists), artistBlockKey, scoreArtistMatch);
+
+  let queued = 0;
+  for (const pair of pairs) {
+    const inserted = await db.insert(entityMatchReviews)
+      .values({
+        entityType,
+        sourceId: pair.source.id,
+        targetId: pair.target.id,
+        score: pair.score,
+        reasons: pair.reasons,
+        detectedBy: 'scan'
+      })
+      .onConflictDoNothing()
+      .returning({ id: entityMatchReviews.id });
+    queued += inserted.length;
+  }
+
+  return { found: pairs.length, queued };
+}
+
+/**
+ * Review queue entries with both entities, highest score first
+ */
+export async function listMatchReviews(status: MatchReviewStatus, entityType?: EntityType): Promise<MatchReviewEntry[]> {
+  const reviews = await db.select().from(entityMatchReviews)
+    .where(and(
+      eq(entityMatchReviews.status, status),
+      entityType ? eq(entityMatchReviews.entityType, entityType) : undefined
+    ))
+    .orderBy(desc(entityMatchReviews.score), asc(entityMatchReviews.id));
+
+  const idsOf = (type: EntityType) => [...new Set(reviews
+    .filter(review => review.entityType === type)
+    .flatMap(review => [review.sourceId, review.targetId]))];
+  const venueIds = idsOf('venue');
+  const artistIds = idsOf('artist');
+
+  const noCounts: { id: number; total: number }[] = [];
+  const [venueRows, artistRows, venueEvents, artistEvents] = await Promise.all([
+    venueIds.length ? db.select().from(venues).where(inArray(venues.id, venueIds)) : Promise.resolve([] as Venue[]),
+    artistIds.length ? db.select().from(artists).where(inArray(artists.id, artistIds)) : Promise.resolve([] as Artist[]),
+    venueIds.length
+      ? db.select({ id: events.venueId, total: count() }).from(events).where(inArray(events.venueId, venueIds)).groupBy(events.venueId)
+      : Promise.resolve(noCounts),
+    artistIds.length
+      ? db.select({ id: events.artistId, total: count() }).from(events).where(inArray(events.artistId, artistIds)).groupBy(events.artistId)
+      : Promise.resolve(noCounts)
+  ]);
+
+  const entities = {
+    venue: new Map<number, Venue | Artist>(venueRows.map(venue => [venue.id, venue])),
+    artist: new Map<number, Venue | Artist>(artistRows.map(artist => [artist.id, artist]))
+  };
+  const eventCounts = {
+    venue: new Map(venueEvents.map(row => [row.id, row.total])),
+    artist: new Map(artistEvents.map(row => [row.id, row.total]))
+  };
+
+  return reviews.map(review => {
+    const type = review.entityType as EntityType;
+    return {
+      ...review,
+      source: entities[type].get(review.sourceId) ?? null,
+      target: entities[type].get(review.targetId) ?? null,
+      sourceEventCount: eventCounts[type].get(review.sourceId) ?? 0,
+      targetEventCount: eventCounts[type].get(review.targetId) ?? 0
+    };
+  });
+}
+
+// Values the kept record lacks and the duplicate has
+function missingValues<T extends { id: number }>(kept: T, duplicate: T): Partial<T> {
+  const values: Partial<T> = {};
+  (Object.keys(duplicate) as (keyof T)[]).forEach(key => {
+    if (key !== 'id' && kept[key] == null && duplicate[key] != null) {
+      values[key] = duplicate[key];
+    }
+  });
+  return values;
+}
+
+// Events left at the same artist, venue and date by a merge collapse into the oldest one
+async function collapseDuplicateEvents(tx: Transaction, where: SQL) {
+  const rows = await tx.select({ id: events.id, artistId: events.artistId, venueId: events.venueId, date: events.date })
+    .from(events)
+    .where(where)
+    .orderBy(asc(events.id));
+
+  const kept = new Map<string, number>();
+  const collapsedInto = new Set<number>();
+  for (const row of rows) {
+    const key = `${row.artistId}:${row.venueId}:${row.date}`;
+    const keptId = kept.get(key);
+    if (keptId === undefined) {
+      kept.set(key, row.id);
+      continue;
+    }
+    await tx.update(eventSources).set({ eventId: keptId }).where(eq(eventSources.eventId, row.id));
+    await tx.update(radiusClauses).set({ eventId: keptId }).where(eq(radiusClauses.eventId, row.id));
+    await tx.update(predictions).set({ gapBeforeEventId: keptId }).where(eq(predictions.gapBeforeEventId, row.id));
+    await tx.update(predictions).set({ gapAfterEventId: keptId }).where(eq(predictions.gapAfterEventId, row.id));
+    await tx.delete(events).where(eq(events.id, row.id));
+    collapsedInto.add(keptId);
+  }
+
+  // The kept events now have the duplicates' sources too
+  for (const eventId of Array.from(collapsedInto)) {
+    await reconcileEvent(tx, eventId);
+  }
+}
+
+// Settle the review queue after a merge: pairs of the two are merged, other pairs of the duplicate go
+async function closeReviews(tx: Transaction, entityType: EntityType, sourceId: number, targetId: number, userId: number) {
+  await tx.update(entityMatchReviews)
+    .set({ status: 'merged', reviewedById: userId, reviewedAt: new Date() })
+    .where(and(
+      eq(entityMatchReviews.entityType, entityType),
+      or(
+        and(eq(entityMatchReviews.sourceId, sourceId), eq(entityMatchReviews.targetId, targetId)),
+        and(eq(entityMatchReviews.sourceId, targetId), eq(entityMatchReviews.targetId, sourceId))
+      )
+    ));
+  await tx.delete(entityMatchReviews)
+    .where(and(
+      eq(entityMatchReviews.entityType, entityType),
+      ne(entityMatchReviews.status, 'merged'),
+      or(eq(entityMatchReviews.sourceId, sourceId), eq(entityMatchReviews.targetId, sourceId))
+    ));
+}
+
+/**
+ * Fold a duplicate venue into the venue that is kept
+ * Events, tour dates, holds, blackouts, genres, members, network links and everything else
+ * pointing at the duplicate move to the kept venue, which also takes any details it lacked.
+ */
+export async function mergeVenues(sourceId: number, targetId: number, userId: number): Promise<Venue> {
+  if (sourceId === targetId) {
+    throw new EntityMergeError('A venue cannot be merged into itself');
+  }
+
+  const merged = await db.transaction(async (tx) => {
+    const rows = await tx.select().from(venues).where(inArray(venues.id, [sourceId, targetId])).for('update');
+    const source = rows.find(row => row.id === sourceId);
+    const target = rows.find(row => row.id === targetId);
+    if (!source || !target) {
+      throw new EntityMergeError('Both venues must exist to merge them');
+    }
+
+    await tx.update(events).set({ venueId: targetId }).where(eq(events.venueId, sourceId));
+    await tx.update(tourVenues).set({ venueId: targetId }).where(eq(tourVenues.venueId, sourceId));
+    await tx.update(predictions).set({ venueId: targetId }).where(eq(predictions.venueId, sourceId));
+    await tx.update(inquiries).set({ venueId: targetId }).where(eq(inquiries.venueId, sourceId));
+    await tx.update(collaborativeOpportunities).set({ creatorVenueId: targetId }).where(eq(collaborativeOpportunities.creatorVenueId, sourceId));
+    await tx.update(tourRoutes).set({ startVenueId: targetId }).where(eq(tourRoutes.startVenueId, sourceId));
+    await tx.update(tourRoutes).set({ endVenueId: targetId }).where(eq(tourRoutes.endVenueId, sourceId));
+    await tx.update(tourGaps).set({ previousVenueId: targetId }).where(eq(tourGaps.previousVenueId, sourceId));
+    await tx.update(tourGaps).set({ nextVenueId: targetId }).where(eq(tourGaps.nextVenueId, sourceId));
+    await tx.update(tourGapSuggestions).set({ venueId: targetId }).where(eq(tourGapSuggestions.venueId, sourceId));
+    await tx.update(venueBlackouts).set({ venueId: targetId }).where(eq(venueBlackouts.venueId, sourceId));
+    await tx.update(calendarFeeds).set({ venueId: targetId }).where(eq(calendarFeeds.venueId, sourceId));
+    // Travel matrix entries of the duplicate are a cache and go with it
+
+    // One set of tour preferences per venue: the kept venue's win
+    const [targetPreferences] = await tx.select({ id: venueTourPreferences.id }).from(venueTourPreferences)
+      .where(eq(venueTourPreferences.venueId, targetId)).limit(1);
+    if (targetPreferences) {
+      await tx.delete(venueTourPreferences).where(eq(venueTourPreferences.venueId, sourceId));
+    } else {
+      await tx.update(venueTourPreferences).set({ venueId: targetId }).where(eq(venueTourPreferences.venueId, sourceId));
+    }
+
+    // Genres, members and collaboration seats the kept venue already has are dropped
+    const targetGenres = (await tx.select({ id: venueGenres.genreId }).from(venueGenres)
+      .where(eq(venueGenres.venueId, targetId))).map(row => row.id);
+    await tx.update(venueGenres).set({ venueId: targetId })
+      .where(and(eq(venueGenres.venueId, sourceId), targetGenres.length ? notInArray(venueGenres.genreId, targetGenres) : undefined));
+    await tx.delete(venueGenres).where(eq(venueGenres.venueId, sourceId));
+
+    const targetMembers = (await tx.select({ id: venueMembers.userId }).from(venueMembers)
+      .where(eq(venueMembers.venueId, targetId))).map(row => row.id);
+    await tx.update(venueMembers).set({ venueId: targetId })
+      .where(and(eq(venueMembers.venueId, sourceId), targetMembers.length ? notInArray(venueMembers.userId, targetMembers) : undefined));
+    await tx.delete(venueMembers).where(eq(venueMembers.venueId, sourceId));
+
+    const targetSeats = (await tx.select({ id: collaborativeParticipants.opportunityId }).from(collaborativeParticipants)
+      .where(eq(collaborativeParticipants.venueId, targetId))).map(row => row.id);
+    await tx.update(collaborativeParticipants).set({ venueId: targetId })
+      .where(and(eq(collaborativeParticipants.venueId, sourceId), targetSeats.length ? notInArray(collaborativeParticipants.opportunityId, targetSeats) : undefined));
+    await tx.delete(collaborativeParticipants).where(eq(collaborativeParticipants.venueId, sourceId));
+
+    // Network links: the link between the two goes, and a link both had to a third venue is kept once
+    await tx.update(venueNetwork).set({ venueId: targetId }).where(eq(venueNetwork.venueId, sourceId));
+    await tx.update(venueNetwork).set({ connectedVenueId: targetId }).where(eq(venueNetwork.connectedVenueId, sourceId));
+    await tx.delete(venueNetwork).where(and(eq(venueNetwork.venueId, targetId), eq(venueNetwork.connectedVenueId, targetId)));
+    const links = await tx.select({ id: venueNetwork.id, venueId: venueNetwork.venueId, connectedVenueId: venueNetwork.connectedVenueId })
+      .from(venueNetwork)
+      .where(or(eq(venueNetwork.venueId, targetId), eq(venueNetwork.connectedVenueId, targetId)))
+      .orderBy(asc(venueNetwork.id));
+    const seenLinks = new Set<string>();
+    const duplicateLinks = links.filter(link => {
+      const key = `${link.venueId}:${link.connectedVenueId}`;
+      if (seenLinks.has(key)) return true;
+      seenLinks.add(key);
+      return false;
+    });
+    if (duplicateLinks.length) {
+      await tx.delete(venueNetwork).where(inArray(venueNetwork.id, duplicateLinks.map(link => link.id)));
+    }
+
+    // Holds join the kept venue's stacks; active holds on a shared night are re-ranked in the order they were placed
+    await tx.update(venueHolds).set({ venueId: targetId }).where(eq(venueHolds.venueId, sourceId));
+    const activeHolds = await tx.select({ id: venueHolds.id, date: venueHolds.date, rank: venueHolds.rank })
+      .from(venueHolds)
+      .where(and(eq(venueHolds.venueId, targetId), eq(venueHolds.status, 'active')))
+      .orderBy(asc(venueHolds.date), asc(venueHolds.createdAt), asc(venueHolds.id));
+    let date: string | null = null;
+    let rank = 0;
+    for (const hold of activeHolds) {
+      rank = hold.date === date ? rank + 1 : 1;
+      date = hold.date;
+      if (hold.rank !== rank) {
+        await tx.update(venueHolds).set({ rank, updatedAt: new Date() }).where(eq(venueHolds.id, hold.id));
+      }
+    }
+
+    await collapseDuplicateEvents(tx, eq(events.venueId, targetId));
+    await closeReviews(tx, 'venue', sourceId, targetId, userId);
+
+    // External IDs are unique, so the duplicate goes before the kept venue takes its details
+    const fill = missingValues(target, source);
+    await tx.delete(venues).where(eq(venues.id, sourceId));
+    const [venue] = await tx.update(venues)
+      .set({ ...fill, updatedAt: new Date() })
+      .where(eq(venues.id, targetId))
+      .returning();
+    return venue;
+  });
+
+  await invalidateVenueOptimizations(targetId);
+  return merged;
+}
+
+/**
+ * Fold a duplicate artist into the artist that is kept
+ * Events, tours, predictions, inquiries, opportunities, genres and linked user accounts move
+ * to the kept artist, which also takes any details it lacked.
+ */
+export async function mergeArtists(sourceId: number, targetId: number, userId: number): Promise<Artist> {
+  if (sourceId === targetId) {
+    throw new EntityMergeError('An artist cannot be merged into itself');
+  }
+
+  return db.transaction(async (tx) => {
+    const rows = await tx.select().from(artists).where(inArray(artists.id, [sourceId, targetId])).for('update');
+    const source = rows.find(row => row.id === sourceId);
+    const target = rows.find(row => row.id === targetId);
+    if (!source || !target) {
+      throw new EntityMergeError('Both artists must exist to merge them');
+    }
+
+    await tx.update(events).set({ artistId: targetId }).where(eq(events.artistId, sourceId));
+    await tx.update(tours).set({ artistId: targetId }).where(eq(tours.artistId, sourceId));
+    await tx.update(predictions).set({ artistId: targetId }).where(eq(predictions.artistId, sourceId));
+    await tx.update(inquiries).set({ artistId: targetId }).where(eq(inquiries.artistId, sourceId));
+    await tx.update(collaborativeOpportunities).set({ artistId: targetId }).where(eq(collaborativeOpportunities.artistId, sourceId));
+    await tx.update(users).set({ artistId: targetId }).where(eq(users.artistId, sourceId));
+
+    const [targetPreferences] = await tx.select({ id: artistTourPreferences.id }).from(artistTourPreferences)
+      .where(eq(artistTourPreferences.artistId, targetId)).limit(1);
+    if (targetPreferences) {
+      await tx.delete(artistTourPreferences).where(eq(artistTourPreferences.artistId, sourceId));
+    } else {
+      await tx.update(artistTourPreferences).set({ artistId: targetId }).where(eq(artistTourPreferences.artistId, sourceId));
+    }
+
+    const targetGenres = (await tx.select({ id: artistGenres.genreId }).from(artistGenres)
+      .where(eq(artistGenres.artistId, targetId))).map(row => row.id);
+    await tx.update(artistGenres).set({ artistId: targetId })
+      .where(and(eq(artistGenres.artistId, sourceId), targetGenres.length ? notInArray(artistGenres.genreId, targetGenres) : undefined));
+    await tx.delete(artistGenres).where(eq(artistGenres.artistId, sourceId));
+
+    await collapseDuplicateEvents(tx, eq(events.artistId, targetId));
+    await closeReviews(tx, 'artist', sourceId, targetId, userId);
+
+    const fill = missingValues(target, source);
+    await tx.delete(artists).where(eq(artists.id, sourceId));
+    if (!Object.keys(fill).length) return target;
+
+    const [artist] = await tx.update(artists).set(fill).where(eq(artists.id, targetId)).returning();
+    return artist;
+  });
+}
+
+/**
+ * Merge or dismiss a queued pair
+ * @param keep which side survives a merge; defaults to the target
+ * @returns null when the review does not exist
+ */
+export async function resolveMatchReview(
+  reviewId: number,
+  action: 'merge' | 'dismiss',
+  userId: number,
+  keep: 'source' | 'target' = 'target'
+): Promise<EntityMatchReview | null> {
+  const [review] = await db.select().from(entityMatchReviews).where(eq(entityMatchReviews.id, reviewId));
+  if (!review) return null;
+  if (review.status !== 'pending') {
+    throw new EntityMergeError(`This pair was already ${review.status}`);
+  }
+
+  if (action === 'dismiss') {
+    const [dismissed] = await db.update(entityMatchReviews)
+      .set({ status: 'dismissed', reviewedById: userId, reviewedAt: new Date() })
+      .where(eq(entityMatchReviews.id, reviewId))
+      .returning();
+    return dismissed;
+  }
+
+  const [duplicate, kept] = keep === 'target' ? [review.sourceId, review.targetId] : [review.targetId, review.sourceId];
+  if (review.entityType === 'venue') {
+    await mergeVenues(duplicate, kept, userId);
+  } else {
+    await mergeArtists(duplicate, kept, userId);
+  }
+
+  const [merged] = await db.select().from(entityMatchReviews).where(eq(entityMatchReviews.id, reviewId));
+  return merged;
+}
@@ -0,0 +1,249 @@
+/**
+ * Event ingestion
+ *
+ * The one way events get into the database. Scrapers, API syncs, webhooks and imports hand
+ * over records as their source reported them; each record is normalized, its artist and
+ * venue are matched or created through entity resolution, and it is linked to the event it
+ * describes in eventSources, creating the event when no source has reported it before.
+ * The event's fields are then resolved from every source linked to it using the
+ * precedence rules in shared/utils/event-ingestion.ts, and the source behind each value is
+ * kept in events.provenance.
+ *
+ * EVENT_SOURCE_PRECEDENCE and EVENT_FIELD_RULES override the default rules.
+ */
+import { db } from '../db';
+import { and, asc, eq, lte, sql } from 'drizzle-orm';
+import { artists, events, eventSources, venues } from '../../shared/schema';
+import {
+  loadPrecedenceRules,
+  normalizeEventFields,
+  resolveEventFields,
+  sourceConfidence,
+  type FieldConflict
+} from '../../shared/utils/event-ingestion';
+import { findOrCreateArtist, findOrCreateVenue } from './entity-resolution';
+import type { SyncRunRecorder } from './sync-runs';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Event = typeof events.$inferSelect;
+type NewArtist = typeof artists.$inferInsert;
+type NewVenue = typeof venues.$inferInsert;
+
+const precedenceRules = loadPrecedenceRules(process.env);
+
+/**
+ * A record that can't be ingested however it is retried, e.g. one without an artist
+ */
+export class EventIngestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EventIngestionError';
+  }
+}
+
+/**
+ * One event as a source reported it
+ */
+export interface EventRecord {
+  // e.g. "bandsintown", "web_scraping"; see DEFAULT_SOURCE_PRECEDENCE
+  source: string;
+  // The source's ID for the event; when it has none the artist, venue and date stand in
+  externalId?: string | null;
+  // Where the source lists the event
+  url?: string | null;
+  // 0-1, defaults to the source's usual confidence
+  confidence?: number;
+  // When the source was read, defaults to now
+  fetchedAt?: Date;
+  // An artist and venue already in the database, or the details to match or create them from
+  artistId?: number;
+  artist?: NewArtist;
+  venueId?: number;
+  venue?: NewVenue;
+  date: string | Date;
+  startTime?: string | null;
+  ticketUrl?: string | null;
+  status?: string | null;
+}
+
+export type IngestOutcome = 'created' | 'updated' | 'unchanged' | 'skipped';
+
+export interface IngestResult {
+  outcome: IngestOutcome;
+  event: Event | null;
+  // Fields where this event's sources disagree
+  conflicts: FieldConflict[];
+  // Why the record was skipped
+  reason?: string;
+}
+
+export interface IngestSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  conflicts: number;
+  errors: string[];
+}
+
+async function resolveEntities(record: EventRecord): Promise<{ artistId: number; venueId: number }> {
+  const artistId = record.artistId
+    ?? (record.artist ? (await findOrCreateArtist(record.artist, record.source)).artist.id : undefined);
+  const venueId = record.venueId
+    ?? (record.venue ? (await findOrCreateVenue(record.venue, record.source)).venue.id : undefined);
+
+  if (!artistId || !venueId) {
+    throw new EventIngestionError(`A ${record.source} record for ${record.date} has no ${artistId ? 'venue' : 'artist'}`);
+  }
+  return { artistId, venueId };
+}
+
+// The event a source record describes: the one the source reported it as before, or the
+// artist's show at the venue that night
+async function findEvent(
+  tx: Transaction,
+  source: string,
+  externalId: string,
+  artistId: number,
+  venueId: number,
+  date: string
+): Promise<Event | undefined> {
+  const [linked] = await tx.select({ event: events })
+    .from(eventSources)
+    .innerJoin(events, eq(eventSources.eventId, events.id))
+    .where(and(eq(eventSources.source, source), eq(eventSources.externalId, externalId)));
+  if (linked) return linked.event;
+
+  const [sameShow] = await tx.select().from(events)
+    .where(and(eq(events.artistId, artistId), eq(events.venueId, venueId), eq(events.date, date)))
+    .orderBy(asc(events.id))
+    .limit(1);
+  return sameShow;
+}
+
+/**
+ * Resolve an event's fields from all of its sources and store them with their provenance
+ * Fields no source reports keep their current value.
+ */
+export async function reconcileEvent(tx: Transaction, eventId: number): Promise<{ event: Event; changed: boolean; conflicts: FieldConflict[] } | null> {
+  const [event] = await tx.select().from(events).where(eq(events.id, eventId));
+  if (!event) return null;
+
+  const sources = await tx.select().from(eventSources).where(eq(eventSources.eventId, eventId));
+  if (sources.length === 0) return { event, changed: false, conflicts: [] };
+
+  const { values, provenance, conflicts } = resolveEventFields(sources.map(row => ({
+    source: row.source,
+    fields: row.fields,
+    confidence: row.confidence,
+    fetchedAt: row.fetchedAt
+  })), precedenceRules);
+
+  const next = {
+    date: values.date || event.date,
+    startTime: values.startTime ?? event.startTime,
+    ticketUrl: values.ticketUrl ?? event.ticketUrl,
+    status: values.status ?? event.status
+  };
+  const changed = (Object.keys(next) as (keyof typeof next)[]).some(key => next[key] !== event[key]);
+  if (!changed && JSON.stringify(provenance) === JSON.stringify(event.provenance)) {
+    return { event, changed, conflicts };
+  }
+
+  const [updated] = await tx.update(events)
+    .set({ ...next, provenance, ...(changed ? { updatedAt: new Date() } : {}) })
+    .where(eq(events.id, eventId))
+    .returning();
+  return { event: updated, changed, conflicts };
+}
+
+/**
+ * Ingest one source record
+ * A cancellation of an event nobody has reported is skipped rather than created.
+ */
+export async function ingestEvent(record: EventRecord): Promise<IngestResult> {
+  const fields = normalizeEventFields(record);
+  if (!fields) {
+    return { outcome: 'skipped', event: null, conflicts: [], reason: `Unreadable date "${record.date}"` };
+  }
+
+  const { artistId, venueId } = await resolveEntities(record);
+  const externalId = record.externalId || `${artistId}:${venueId}:${fields.date}`;
+  const fetchedAt = record.fetchedAt ?? new Date();
+  const confidence = record.confidence ?? sourceConfidence(record.source);
+
+  return db.transaction(async (tx) => {
+    let event = await findEvent(tx, record.source, externalId, artistId, venueId, fields.date);
+    if (!event && fields.status === 'cancelled') {
+      return { outcome: 'skipped', event: null, conflicts: [], reason: 'Cancelled event that is not on file' };
+    }
+
+    const created = !event;
+    if (!event) {
+      [event] = await tx.insert(events).values({
+        artistId,
+        venueId,
+        date: fields.date,
+        startTime: fields.startTime ?? null,
+        ticketUrl: fields.ticketUrl ?? null,
+        status: fields.status ?? 'confirmed'
+      }).returning();
+    }
+
+    // A source's later reports add to what it said before; older reports arriving late are ignored
+    await tx.insert(eventSources).values({
+      eventId: event.id,
+      source: record.source,
+      externalId,
+      url: record.url ?? null,
+      fields,
+      confidence,
+      fetchedAt
+    }).onConflictDoUpdate({
+      target: [eventSources.source, eventSources.externalId],
+      set: {
+        url: sql`COALESCE(excluded."url", ${eventSources.url})`,
+        fields: sql`${eventSources.fields} || excluded."fields"`,
+        confidence,
+        fetchedAt
+      },
+      setWhere: lte(eventSources.fetchedAt, fetchedAt)
+    });
+
+    const reconciled = await reconcileEvent(tx, event.id);
+    return {
+      outcome: created ? 'created' : reconciled?.changed ? 'updated' : 'unchanged',
+      event: reconciled?.event ?? event,
+      conflicts: reconciled?.conflicts ?? []
+    };
+  });
+}
+
+/**
+ * Ingest a batch of records from one run of a source
+ * A record that fails is counted in errors and doesn't stop the rest.
+ * @param run The sync run to count each record's outcome in
+ */
+export async function ingestEvents(records: EventRecord[], run?: SyncRunRecorder): Promise<IngestSummary> {
+  const summary: IngestSummary = { created: 0, updated: 0, unchanged: 0, skipped: 0, conflicts: 0, errors: [] };
+
+  for (const record of records) {
+    try {
+      const result = await ingestEvent(record);
+      summary[result.outcome]++;
+      summary.conflicts += result.conflicts.length;
+      run?.count(result.outcome);
+    } catch (error) {
+      summary.errors.push(`${record.source} ${record.externalId ?? record.date}: ${error instanceof Error ? error.message : String(error)}`);
+      await run?.error(error, {
+        entityType: 'event',
+        externalId: record.externalId ?? null,
+        details: { date: String(record.date), url: record.url ?? null },
+        // Records that can never be ingested aren't worth another try
+        ...(error instanceof EventIngestionError ? { retry: null } : {})
+      });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,504 @@
+/**
+ * Venue hold ledger
+ *
+ * Stores each venue's stack of holds per date in venueHolds and keeps the tour venues
+ * behind them in step: a hold that confirms confirms its tour venue, and a hold that is
+ * released, bumped or lets a challenge deadline pass puts its tour venue back to
+ * potential. The stack rules live in shared/utils/hold-ledger.ts.
+ */
+import { db } from '../db';
+import { and, asc, eq, gte, inArray, lte, sql } from 'drizzle-orm';
+import {
+  artists,
+  tours,
+  tourVenues,
+  venueHolds,
+  type TourVenue,
+  type VenueHold
+} from '../../shared/schema';
+import {
+  DEFAULT_CHALLENGE_HOURS,
+  HoldLedgerError,
+  assertFirstHold,
+  confirmHold as confirmInStack,
+  expireChallenges,
+  nextHoldRank,
+  releaseHold as releaseFromStack,
+  type HoldTransition,
+  type HoldTransitionType,
+  type LedgerHold,
+  type LedgerUpdate
+} from '../../shared/utils/hold-ledger';
+import { optimizationCache } from '../cache/optimization-cache';
+import { publishWebhookEvent } from './outbound-webhooks';
+import { realtime, tourChannel } from './realtime';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Stored hold; status only ever holds the ledger's statuses
+type StackHold = VenueHold & LedgerHold;
+
+export { HoldLedgerError };
+
+/**
+ * A hold with the tour and artist behind it
+ */
+export interface HoldEntry extends VenueHold {
+  tourId: number;
+  tourName: string;
+  artistId: number;
+  artistName: string;
+}
+
+/**
+ * A venue's holds on one date: the confirmed booking, if any, and the active holds by rank
+ */
+export interface HoldDate {
+  date: string;
+  confirmed: HoldEntry | null;
+  holds: HoldEntry[];
+}
+
+// What a tour venue becomes when its hold leaves the stack
+const TOUR_VENUE_STATUS: Partial<Record<HoldTransitionType, string>> = {
+  confirmed: 'confirmed',
+  released: 'potential',
+  bumped: 'potential',
+  challengeExpired: 'potential'
+};
+
+/**
+ * A change the ledger made to a tour venue's hold, published once its transaction commits
+ */
+export interface HoldChange {
+  tourId: number;
+  tourVenueId: number;
+  venueId: number;
+  holdId: number;
+  transition: HoldTransitionType;
+  rank: number | null;
+  previousStatus: string | null;
+  status: string | null;
+}
+
+/**
+ * Lock and load the open holds of a venue on a date
+ * The advisory lock serializes changes to the date's stack, even while it is empty.
+ */
+async function loadStack(tx: Transaction, venueId: number, date: string): Promise<StackHold[]> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(${venueId}, hashtext(${date}))`);
+  const holds = await tx.select().from(venueHolds)
+    .where(and(
+      eq(venueHolds.venueId, venueId),
+      eq(venueHolds.date, date),
+      inArray(venueHolds.status, ['active', 'confirmed'])
+    ))
+    .orderBy(asc(venueHolds.rank))
+    .for('update');
+  return holds as StackHold[];
+}
+
+/**
+ * Store the holds an update changed and move their tour venues along
+ * @param editedTourVenueId Tour venue being edited by the caller, which keeps the status it was given
+ */
+async function storeUpdate(
+  tx: Transaction,
+  stack: StackHold[],
+  update: LedgerUpdate,
+  now: Date,
+  editedTourVenueId?: number
+): Promise<HoldChange[]> {
+  const byId = new Map(stack.map(hold => [hold.id, hold]));
+  const lastTransition = new Map<number, HoldTransition>();
+  update.transitions.forEach(transition => lastTransition.set(transition.holdId, transition));
+
+  const changes: HoldChange[] = [];
+  for (const hold of update.holds) {
+    const before = byId.get(hold.id)!;
+    const transition = lastTransition.get(hold.id);
+    const unchanged = before.status === hold.status && before.rank === hold.rank &&
+      before.challengedById === hold.challengedById &&
+      before.challengeDeadline?.getTime() === hold.challengeDeadline?.getTime();
+    if (unchanged && !transition) continue;
+
+    await tx.update(venueHolds)
+      .set({
+        status: hold.status,
+        rank: hold.rank,
+        challengedById: hold.challengedById,
+        challengeDeadline: hold.challengeDeadline,
+        ...(hold.status !== 'active' && transition && { resolution: transition.type }),
+        updatedAt: now
+      })
+      .where(eq(venueHolds.id, hold.id));
+
+    if (!transition) continue;
+    const [tourVenue] = await tx.select().from(tourVenues).where(eq(tourVenues.id, before.tourVenueId));
+    if (!tourVenue) continue;
+    const status = tourVenue.id === editedTourVenueId ? null : TOUR_VENUE_STATUS[transition.type] ?? null;
+
+    if (status && status !== tourVenue.status) {
+      await tx.update(tourVenues)
+        .set({ status, statusUpdatedAt: now })
+        .where(eq(tourVenues.id, tourVenue.id));
+    }
+    changes.push({
+      tourId: tourVenue.tourId,
+      tourVenueId: tourVenue.id,
+      venueId: before.venueId,
+      holdId: hold.id,
+      transition: transition.type,
+      rank: transition.rank,
+      previousStatus: tourVenue.status,
+      status: status ?? tourVenue.status
+    });
+  }
+  return changes;
+}
+
+/**
+ * Tell tour subscribers and webhooks about ledger changes, once the transaction that made them has committed
+ */
+export function publishHoldChanges(changes: HoldChange[]) {
+  for (const tourId of new Set(changes.map(change => change.tourId))) {
+    optimizationCache.invalidate(tourId);
+  }
+
+  for (const change of changes) {
+    realtime.publishToChannel(tourChannel(change.tourId), {
+      type: 'venueHold.changed',
+      tourId: change.tourId,
+      tourVenueId: change.tourVenueId,
+      holdId: change.holdId,
+      transition: change.transition,
+      rank: change.rank
+    });
+    if (change.status && change.status !== change.previousStatus) {
+      const statusChange = {
+        tourId: change.tourId,
+        tourVenueId: change.tourVenueId,
+        venueId: change.venueId,
+        previousStatus: change.previousStatus,
+        status: change.status
+      };
+      realtime.publishToChannel(tourChannel(change.tourId), { type: 'tourVenue.statusChanged', ...statusChange });
+      publishWebhookEvent('tourVenue.statusChanged', statusChange);
+    }
+  }
+}
+
+/**
+ * Run a ledger update on the stack of the hold's venue and date, expiring overdue challenges first
+ * @returns null when the hold does not exist; the hold is null when it was already released
+ */
+async function changeHoldStack(
+  tx: Transaction,
+  holdId: number,
+  change: (stack: StackHold[], now: Date) => LedgerUpdate,
+  now: Date,
+  editedTourVenueId?: number
+): Promise<{ hold: VenueHold | null; changes: HoldChange[] } | null> {
+  const [hold] = await tx.select().from(venueHolds).where(eq(venueHolds.id, holdId));
+  if (!hold) return null;
+
+  const stack = await loadStack(tx, hold.venueId, hold.date);
+  const expired = expireChallenges(stack, now);
+  const expiredChanges = await storeUpdate(tx, stack, expired, now);
+
+  const current = await loadStack(tx, hold.venueId, hold.date);
+  if (!current.some(open => open.id === holdId)) {
+    // Released, possibly by the challenge that just expired; keep the expiry
+    return { hold: null, changes: expiredChanges };
+  }
+
+  const changes = await storeUpdate(tx, current, change(current, now), now, editedTourVenueId);
+  const [updated] = await tx.select().from(venueHolds).where(eq(venueHolds.id, holdId));
+  return { hold: updated, changes: [...expiredChanges, ...changes] };
+}
+
+async function updateHoldStack(
+  holdId: number,
+  change: (stack: StackHold[], now: Date) => LedgerUpdate
+): Promise<VenueHold | null> {
+  const result = await db.transaction(tx => changeHoldStack(tx, holdId, change, new Date()));
+
+  if (!result) return null;
+  publishHoldChanges(result.changes);
+  if (!result.hold) {
+    throw new HoldLedgerError(`Hold ${holdId} has already been released`);
+  }
+  return result.hold;
+}
+
+const challengeDeadline = (now: Date, challengeHours: number) =>
+  new Date(now.getTime() + challengeHours * 60 * 60 * 1000);
+
+/**
+ * Put a tour venue on hold for its date inside a transaction; see placeHold
+ */
+async function placeTourVenueHold(
+  tx: Transaction,
+  tourVenueId: number,
+  now: Date
+): Promise<{ hold: VenueHold; changes: HoldChange[] } | null> {
+  const [tourVenue] = await tx.select().from(tourVenues).where(eq(tourVenues.id, tourVenueId));
+  if (!tourVenue) return null;
+  if (!tourVenue.date) throw new HoldLedgerError('A tour venue needs a date to be put on hold');
+
+  const changes: HoldChange[] = [];
+  const open = await tx.select().from(venueHolds)
+    .where(and(eq(venueHolds.tourVenueId, tourVenueId), inArray(venueHolds.status, ['active', 'confirmed'])));
+  for (const existing of open) {
+    if (existing.status === 'active' && existing.venueId === tourVenue.venueId && existing.date === tourVenue.date) {
+      return { hold: existing, changes };
+    }
+    if (existing.status === 'confirmed') {
+      // A confirmed show going back on hold gives up its date
+      await tx.update(venueHolds)
+        .set({ status: 'released', resolution: 'released', updatedAt: now })
+        .where(eq(venueHolds.id, existing.id));
+      continue;
+    }
+    const stack = await loadStack(tx, existing.venueId, existing.date);
+    changes.push(...await storeUpdate(tx, stack, releaseFromStack(stack, existing.id), now, tourVenueId));
+  }
+
+  const stack = await loadStack(tx, tourVenue.venueId, tourVenue.date);
+  changes.push(...await storeUpdate(tx, stack, expireChallenges(stack, now), now));
+  const current = await loadStack(tx, tourVenue.venueId, tourVenue.date);
+
+  const [hold] = await tx.insert(venueHolds).values({
+    venueId: tourVenue.venueId,
+    date: tourVenue.date,
+    tourVenueId,
+    rank: nextHoldRank(current)
+  }).returning();
+
+  if (tourVenue.status !== 'hold') {
+    await tx.update(tourVenues).set({ status: 'hold', statusUpdatedAt: now }).where(eq(tourVenues.id, tourVenueId));
+  }
+  changes.push({
+    tourId: tourVenue.tourId,
+    tourVenueId,
+    venueId: tourVenue.venueId,
+    holdId: hold.id,
+    transition: 'placed',
+    rank: hold.rank,
+    previousStatus: tourVenue.status,
+    status: 'hold'
+  });
+  return { hold, changes };
+}
+
+/**
+ * Put a tour venue on hold for its date, below the holds already on that night
+ * A hold on another date, or a confirmation, is released first. The tour venue's status
+ * becomes hold.
+ * @returns null when the tour venue does not exist
+ * @throws HoldLedgerError when the tour venue has no date or the venue is confirmed that night
+ */
+export async function placeHold(tourVenueId: number): Promise<VenueHold | null> {
+  const result = await db.transaction(tx => placeTourVenueHold(tx, tourVenueId, new Date()));
+
+  if (!result) return null;
+  publishHoldChanges(result.changes);
+  return result.hold;
+}
+
+/**
+ * Confirm a hold, or challenge the holds above it
+ * @param challengeHours Time challenged holds get to confirm or release
+ * @returns null when the hold does not exist
+ * @throws HoldLedgerError when the hold is no longer active or a challenge is already running
+ */
+export async function confirmHold(holdId: number, challengeHours = DEFAULT_CHALLENGE_HOURS): Promise<VenueHold | null> {
+  return updateHoldStack(holdId, (stack, now) => confirmInStack(stack, holdId, challengeDeadline(now, challengeHours)));
+}
+
+/**
+ * Release a hold; the holds below it move up
+ * @returns null when the hold does not exist
+ * @throws HoldLedgerError when the hold is no longer active
+ */
+export async function releaseHold(holdId: number): Promise<VenueHold | null> {
+  return updateHoldStack(holdId, stack => releaseFromStack(stack, holdId));
+}
+
+/**
+ * The tour venue's open hold, if any
+ */
+export async function findTourVenueHold(tourVenueId: number, tx: Transaction | typeof db = db): Promise<VenueHold | null> {
+  const [hold] = await tx.select().from(venueHolds)
+    .where(and(eq(venueHolds.tourVenueId, tourVenueId), inArray(venueHolds.status, ['active', 'confirmed'])));
+  return hold ?? null;
+}
+
+/**
+ * The tour and venue behind a hold or tour venue, to check who may act on it
+ */
+export interface HoldBooking {
+  tourId: number;
+  venueId: number;
+}
+
+export async function findHoldBooking(holdId: number): Promise<HoldBooking | null> {
+  const [booking] = await db.select({ tourId: tourVenues.tourId, venueId: venueHolds.venueId })
+    .from(venueHolds)
+    .innerJoin(tourVenues, eq(venueHolds.tourVenueId, tourVenues.id))
+    .where(eq(venueHolds.id, holdId));
+  return booking ?? null;
+}
+
+export async function findTourVenueBooking(tourVenueId: number): Promise<HoldBooking | null> {
+  const [booking] = await db.select({ tourId: tourVenues.tourId, venueId: tourVenues.venueId })
+    .from(tourVenues)
+    .where(eq(tourVenues.id, tourVenueId));
+  return booking ?? null;
+}
+
+type TourVenueBooking = Pick<TourVenue, 'id' | 'venueId' | 'status' | 'date'>;
+
+/**
+ * Check a tour venue can take a status and date without going through a challenge
+ * Run it in the transaction that writes the tour venue, followed by syncTourVenueHold:
+ * it locks the date's stack until the transaction ends. Leave the id out for a tour
+ * venue that is yet to be added.
+ * @throws HoldLedgerError when the venue is confirmed for someone else that night, or
+ * when confirming would jump holds placed before the tour venue's
+ */
+export async function checkTourVenueHold(
+  tourVenue: Omit<TourVenueBooking, 'id'> & { id?: number },
+  tx: Transaction
+): Promise<void> {
+  if (!tourVenue.date || (tourVenue.status !== 'hold' && tourVenue.status !== 'confirmed')) return;
+
+  const stack = await loadStack(tx, tourVenue.venueId, tourVenue.date);
+  const others = stack.filter(hold => hold.tourVenueId !== tourVenue.id);
+
+  if (others.some(hold => hold.status === 'confirmed')) {
+    throw new HoldLedgerError(`The venue is already confirmed for another show on ${tourVenue.date}`);
+  }
+  if (tourVenue.status !== 'confirmed') return;
+
+  const own = stack.find(hold => hold.tourVenueId === tourVenue.id && hold.status === 'active');
+  if (own) {
+    assertFirstHold(stack, own.id);
+  } else if (others.length > 0) {
+    throw new HoldLedgerError(`The venue has ${others.length} hold(s) on ${tourVenue.date}; place a hold and confirm it instead`);
+  }
+}
+
+/**
+ * Bring the ledger in line with a tour venue written directly, after checkTourVenueHold
+ * and in the same transaction; publish the changes with publishHoldChanges once it commits
+ *
+ * A hold with a date is placed (or moved to the new date) and a confirmation confirms
+ * the tour venue's hold or records a new confirmed one. Any other status, or a
+ * confirmation without a date, gives the tour venue's hold up. The tour venue keeps the
+ * status it was written with.
+ */
+export async function syncTourVenueHold(tourVenue: TourVenueBooking, tx: Transaction): Promise<HoldChange[]> {
+  const now = new Date();
+  if (tourVenue.status === 'hold' && tourVenue.date) {
+    return (await placeTourVenueHold(tx, tourVenue.id, now))?.changes ?? [];
+  }
+
+  const hold = await findTourVenueHold(tourVenue.id, tx);
+  const sameNight = hold?.venueId === tourVenue.venueId && hold?.date === tourVenue.date;
+  if (tourVenue.status === 'confirmed' && tourVenue.date && sameNight) {
+    if (hold.status !== 'active') return [];
+
+    const confirmed = await changeHoldStack(tx, hold.id, (stack, at) =>
+      confirmInStack(stack, hold.id, challengeDeadline(at, DEFAULT_CHALLENGE_HOURS)), now, tourVenue.id);
+    if (!confirmed?.hold) {
+      throw new HoldLedgerError(`Hold ${hold.id} has already been released`);
+    }
+    return confirmed.changes;
+  }
+
+  const changes: HoldChange[] = [];
+  if (hold?.status === 'active') {
+    const released = await changeHoldStack(tx, hold.id, stack => releaseFromStack(stack, hold.id), now, tourVenue.id);
+    changes.push(...released?.changes ?? []);
+  } else if (hold) {
+    await tx.update(venueHolds)
+      .set({ status: 'released', resolution: 'released', updatedAt: now })
+      .where(eq(venueHolds.id, hold.id));
+  }
+
+  if (tourVenue.status === 'confirmed' && tourVenue.date) {
+    await tx.insert(venueHolds).values({
+      venueId: tourVenue.venueId,
+      date: tourVenue.date,
+      tourVenueId: tourVenue.id,
+      status: 'confirmed',
+      rank: null,
+      resolution: 'confirmed'
+    });
+  }
+  return changes;
+}
+
+/**
+ * Release the holds of every stack whose challenge deadline has passed
+ * @returns Number of holds released
+ */
+export async function expireHoldChallenges(now = new Date()): Promise<number> {
+  const challengers = await db.selectDistinct({ venueId: venueHolds.venueId, date: venueHolds.date })
+    .from(venueHolds)
+    .where(and(eq(venueHolds.status, 'active'), lte(venueHolds.challengeDeadline, now)));
+
+  let released = 0;
+  for (const { venueId, date } of challengers) {
+    const changes = await db.transaction(async (tx) => {
+      const stack = await loadStack(tx, venueId, date);
+      return storeUpdate(tx, stack, expireChallenges(stack, now), now);
+    });
+    released += changes.filter(change => change.transition === 'challengeExpired').length;
+    publishHoldChanges(changes);
+  }
+  return released;
+}
+
+/**
+ * A venue's hold stack for each date with holds, expiring overdue challenges first
+ * @param from First date (YYYY-MM-DD) to include
+ * @param to Last date to include
+ */
+export async function getVenueHoldCalendar(venueId: number, from?: string, to?: string): Promise<HoldDate[]> {
+  await expireHoldChallenges();
+
+  const rows = await db
+    .select({
+      hold: venueHolds,
+      tourId: tours.id,
+      tourName: tours.name,
+      artistId: artists.id,
+      artistName: artists.name
+    })
+    .from(venueHolds)
+    .innerJoin(tourVenues, eq(venueHolds.tourVenueId, tourVenues.id))
+    .innerJoin(tours, eq(tourVenues.tourId, tours.id))
+    .innerJoin(artists, eq(tours.artistId, artists.id))
+    .where(and(
+      eq(venueHolds.venueId, venueId),
+      inArray(venueHolds.status, ['active', 'confirmed']),
+      from ? gte(venueHolds.date, from) : undefined,
+      to ? lte(venueHolds.date, to) : undefined
+    ))
+    .orderBy(asc(venueHolds.date), asc(venueHolds.rank));
+
+  const dates = new Map<string, HoldDate>();
+  for (const { hold, ...owner } of rows) {
+    const entry: HoldEntry = { ...hold, ...owner };
+    const day = dates.get(hold.date) ?? { date: hold.date, confirmed: null, holds: [] };
+    if (hold.status === 'confirmed') {
+      day.confirmed = entry;
+    } else {
+      day.holds.push(entry);
+    }
+    dates.set(hold.date, day);
+  }
+  return [...dates.values()];
+}
@@ -15,12 +15,13 @@ import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { eq, and, sql, or, like } from 'drizzle-orm';
 import { db } from '../db';
-import { venues, artists, events } from '../../shared/schema';
+import { venues, artists } from '../../shared/schema';
 
 // Define types based on the schema
 type VenueInsert = typeof venues.$inferInsert;
 type ArtistInsert = typeof artists.$inferInsert;
 import { setTimeout } from 'timers/promises';
+import { ingestEvent } from './event-ingestion';
 
 // Types for the data we'll extract
 interface IndieVenue {
@@ -573,31 +574,17 @@ export async function saveEventsToDatabase(indieEvents: IndieEvent[]): Promise<{
         artistsAdded++;
       }
       
-      // 3. Create event if it doesn't exist
-      const existingEvent = await db.select()
-        .from(events)
-        .where(
-          and(
-            eq(events.date, event.date),
-            eq(events.artistId, artistId),
-            eq(events.venueId, venueId)
-          )
-        )
-        .limit(1);
+      // 3. Create event unless the venue already lists the show
+      const result = await ingestEvent({
+        source: 'indieonthemove',
+        artistId,
+        venueId,
+        date: event.date,
+        startTime: event.time || null,
+        status: 'confirmed'
+      });
       
-      if (existingEvent.length === 0) {
-        await db.insert(events).values({
-          date: event.date,
-          time: event.time || null,
-          artistId,
-          venueId,
-          status: 'confirmed',
-          description: `${event.artistName} at ${event.venueName}`,
-          sourceName: 'indieonthemove',
-          createdAt: new Date(),
-          updatedAt: new Date()
-        });
-        
+      if (result.outcome === 'created') {
         eventsAdded++;
       }
     }
@@ -0,0 +1,204 @@
+/**
+ * Job handlers
+ *
+ * What each job type in the queue does. A handler declares the source its work calls, which
+ * decides the concurrency and rate limits it shares with other jobs, and a schema for its
+ * payload, which is checked when the job is queued and again when it runs.
+ *
+ * Handlers that report progress can be cancelled between steps: progress() throws once a
+ * cancellation has been requested. Handlers that don't finish the run they are in.
+ *
+ * Handlers that collect data record a sync run linked to the job, with each failed item
+ * naming the job that processes it again.
+ */
+import { z } from 'zod';
+import type { Job } from '../../shared/schema';
+import type { JobLogLevel, JobType } from '../../shared/utils/job-queue';
+import { syncVenuesFromBandsInTown } from '../data-sync/bands-in-town-sync';
+import { syncArtistEvents } from '../data-sync/event-provider';
+import { PredictHQProvider } from '../data-sync/predict-hq-provider';
+import { aiDataEnhancer } from './ai-data-enhancer';
+import { expireHoldChallenges } from './hold-ledger';
+import { runWebhookDelivery } from './outbound-webhooks';
+import { runPredictionJob } from './prediction-engine';
+import { withSyncRun } from './sync-runs';
+import { seedVenueEvents } from './venue-event-seeding';
+
+/**
+ * What a running job can tell the queue
+ */
+export interface JobContext {
+  job: Job;
+  log(message: string, level?: JobLogLevel): Promise<void>;
+  // Throws JobCancelledError when the job has been asked to stop
+  progress(current: number, total: number | null, message?: string): Promise<void>;
+}
+
+export interface JobHandler<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  // See DEFAULT_SOURCE_LIMITS
+  source: string;
+  payload: S;
+  // Defaults to 3
+  maxAttempts?: number;
+  // Whatever it returns is stored as the job's result
+  run(payload: z.infer<S>, context: JobContext): Promise<unknown>;
+}
+
+function defineHandler<S extends z.ZodTypeAny>(handler: JobHandler<S>): JobHandler<S> {
+  return handler;
+}
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  'venue-network-sync': defineHandler({
+    source: 'bandsintown',
+    payload: z.object({
+      venueId: z.number().int().positive(),
+      radius: z.number().min(0).max(500).default(250),
+      limit: z.number().int().min(1).max(100).default(10)
+    }),
+    run: async ({ venueId, radius, limit }, context) => {
+      const result = await withSyncRun({
+        source: 'bandsintown',
+        operation: 'venue-network-sync',
+        entityType: 'venue',
+        entityId: venueId,
+        jobId: context.job.id
+      }, async (run) => {
+        const result = await syncVenuesFromBandsInTown(venueId, radius, limit);
+        run.count('created', result.venueCount);
+        return result;
+      });
+      await context.log(`Added ${result.venueCount} venues to the network of venue ${venueId}`);
+      return result;
+    }
+  }),
+
+  'predicthq-artist-events': defineHandler({
+    source: 'predicthq',
+    payload: z.object({
+      artistName: z.string().min(1)
+    }),
+    run: async ({ artistName }, context) => {
+      const apiKey = process.env.PREDICTHQ_API_KEY;
+      if (!apiKey) {
+        throw new Error('PREDICTHQ_API_KEY is not configured');
+      }
+
+      const summary = await withSyncRun({
+        source: 'predicthq',
+        operation: 'artist-events',
+        jobId: context.job.id,
+        // Ingestion is idempotent, so a failed event is retried by syncing the artist again
+        retry: { type: 'predicthq-artist-events', payload: { artistName } }
+      }, run => syncArtistEvents(new PredictHQProvider(apiKey), artistName, undefined, run));
+      await context.log(`${summary.created} created, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.skipped} skipped for "${artistName}"`);
+      for (const error of summary.errors) {
+        await context.log(error, 'warning');
+      }
+      return summary;
+    }
+  }),
+
+  'seed-venue-events': defineHandler({
+    source: 'bandsintown',
+    payload: z.object({
+      // Venues with at least this many events are skipped
+      minEvents: z.number().int().min(1).default(5),
+      // Only these venues, as when failed venues are retried
+      venueIds: z.array(z.number().int().positive()).min(1).optional()
+    }),
+    run: async ({ minEvents, venueIds }, context) => {
+      const results = await withSyncRun({
+        source: 'bandsintown',
+        operation: 'seed-venue-events',
+        jobId: context.job.id
+      }, run => seedVenueEvents({ minEvents, venueIds }, run, (done, total, venueName) =>
+        context.progress(done, total, venueName)));
+      await context.log(`Processed ${results.venuesProcessed} venues, found events for ${results.venuesWithEvents} venues`);
+      return results;
+    }
+  }),
+
+  'chain-collection': defineHandler({
+    source: 'bandsintown',
+    payload: z.object({
+      venueLimit: z.number().int().min(1).max(50).default(5),
+      maxDepth: z.number().int().min(1).max(3).default(3)
+    }),
+    // Each run walks a different set of venues, so a failed one isn't worth repeating
+    maxAttempts: 1,
+    run: async ({ venueLimit, maxDepth }, context) => {
+      // The collector exits the process on import when the key is missing
+      if (!process.env.BANDSINTOWN_API_KEY) {
+        throw new Error('BANDSINTOWN_API_KEY is not configured');
+      }
+
+      const { runChainedCollection } = await import('../chain-data-collector');
+      await withSyncRun({ source: 'bandsintown', operation: 'chain-collection', jobId: context.job.id }, () =>
+        runChainedCollection(venueLimit, maxDepth, maxDepth));
+      await context.log(`Chained collection from ${venueLimit} venues finished`);
+      return null;
+    }
+  }),
+
+  'venue-enrichment': defineHandler({
+    source: 'openai',
+    payload: z.object({
+      venueIds: z.array(z.number().int().positive()).min(1).max(100)
+    }),
+    run: async ({ venueIds }, context) => {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey || !aiDataEnhancer.initializeOpenAI(apiKey)) {
+        throw new Error('OPENAI_API_KEY is not configured');
+      }
+
+      const enhanced = await withSyncRun({ source: 'openai', operation: 'venue-enrichment', jobId: context.job.id }, run =>
+        aiDataEnhancer.enhanceVenueBatch(venueIds, run));
+      await context.log(`Enhanced ${enhanced} of ${venueIds.length} venues`);
+      return { enhanced };
+    }
+  }),
+
+  'prediction-job': defineHandler({
+    source: 'internal',
+    payload: z.object({
+      // Every venue with members when left out
+      venueIds: z.array(z.number().int().positive()).optional()
+    }),
+    run: async ({ venueIds }, context) => {
+      const results = await runPredictionJob(venueIds);
+      const written = results.reduce((sum, result) => sum + result.written, 0);
+      await context.log(`Wrote ${written} predictions for ${results.length} venues`);
+      return results;
+    }
+  }),
+
+  'expire-hold-challenges': defineHandler({
+    source: 'internal',
+    payload: z.object({}),
+    run: async (_payload, context) => {
+      const released = await expireHoldChallenges();
+      await context.log(`${released} holds released`);
+      return { released };
+    }
+  }),
+
+  'webhook-delivery': defineHandler({
+    source: 'webhooks',
+    payload: z.object({
+      deliveryId: z.number().int().positive()
+    }),
+    // Retried after 30 seconds, then 1, 2, 4 and 8 minutes
+    maxAttempts: 6,
+    run: async ({ deliveryId }, context) => {
+      const delivery = await runWebhookDelivery(deliveryId, context.job.attempts >= context.job.maxAttempts);
+      if (!delivery) {
+        await context.log(`Delivery ${deliveryId} no longer exists`, 'warning');
+        return null;
+      }
+
+      await context.log(`Delivery ${deliveryId} ${delivery.status}${delivery.responseStatus ? ` (${delivery.responseStatus})` : ''}`);
+      return { status: delivery.status, responseStatus: delivery.responseStatus };
+    }
+  })
+};
@@ -0,0 +1,481 @@
+/**
+ * Job queue
+ *
+ * Postgres-backed queue for sync, scrape, enrichment and maintenance work. Jobs are rows in
+ * the jobs table; the worker in each server process (or server/scripts/run-job-worker.ts)
+ * claims due jobs, runs them through their handler in job-handlers.ts, and records their
+ * progress, logs and result.
+ *
+ * - Claims are serialized with an advisory lock so each source's concurrency limit holds
+ *   across every worker; a claim lapses if the worker stops renewing it, and the job is
+ *   retried as if it had failed
+ * - A failed attempt is retried with exponential backoff until maxAttempts is reached
+ * - Cancelling a queued job removes it; cancelling a running job asks its handler to stop
+ *   at its next progress report
+ * - Cron schedules in jobSchedules queue a job each time they come round, unless the
+ *   previous run is still queued or running
+ *
+ * JOB_WORKER_ENABLED=false keeps a server process from working the queue, and
+ * JOB_WORKER_CONCURRENCY sets how many jobs one worker runs at once (default 3).
+ */
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { ZodError } from 'zod';
+import { and, asc, count, desc, eq, inArray, isNull, lte, notInArray, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { jobLogs, jobs, jobSchedules, type Job, type JobLog, type JobSchedule } from '../../shared/schema';
+import {
+  jobStatuses,
+  nextCronRun,
+  retryDelayMs,
+  sourcesAtCapacity,
+  type JobLogLevel,
+  type JobStatus,
+  type JobType
+} from '../../shared/utils/job-queue';
+import { jobHandlers, type JobContext } from './job-handlers';
+import { sourceLimits } from './rate-limits';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const POLL_INTERVAL = 1000 * 5; // 5 seconds
+const LEASE_DURATION = 1000 * 60 * 2; // 2 minutes, renewed every 30 seconds
+const HEARTBEAT_INTERVAL = 1000 * 30;
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Any constant works; it only has to differ from other advisory locks in the database
+const CLAIM_LOCK_KEY = 7301;
+
+/**
+ * A request the queue can't carry out, such as cancelling a finished job
+ */
+export class JobQueueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobQueueError';
+  }
+}
+
+/**
+ * Thrown from a job's progress report once it has been asked to stop
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: number) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface EnqueueOptions {
+  // Defaults to now
+  runAt?: Date;
+  priority?: number;
+  scheduleId?: number;
+  createdById?: number;
+}
+
+export interface JobDetail extends Job {
+  logs: JobLog[];
+}
+
+export type JobCounts = Record<JobStatus, number>;
+
+/**
+ * Add a job to the queue
+ * Throws a ZodError when the payload doesn't fit the job type.
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: unknown = {},
+  options: EnqueueOptions = {},
+  tx: Transaction | typeof db = db
+): Promise<Job> {
+  const handler = jobHandlers[type];
+  const parsed = handler.payload.parse(payload ?? {});
+
+  const [job] = await tx.insert(jobs).values({
+    type,
+    source: handler.source,
+    payload: parsed,
+    priority: options.priority ?? 0,
+    maxAttempts: handler.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    runAt: options.runAt ?? new Date(),
+    scheduleId: options.scheduleId ?? null,
+    createdById: options.createdById ?? null
+  }).returning();
+  return job;
+}
+
+/**
+ * Record a line in a job's log
+ */
+export async function logJob(job: Pick<Job, 'id' | 'type'>, message: string, level: JobLogLevel = 'info'): Promise<void> {
+  console.log(`[job ${job.id} ${job.type}] ${message}`);
+  await db.insert(jobLogs).values({ jobId: job.id, level, message });
+}
+
+/**
+ * Most recent jobs first, with the number of jobs in each status
+ */
+export async function listJobs(status?: JobStatus, limit = 50): Promise<{ counts: JobCounts; jobs: Job[] }> {
+  const rows = await db.select().from(jobs)
+    .where(status ? eq(jobs.status, status) : undefined)
+    .orderBy(desc(jobs.createdAt), desc(jobs.id))
+    .limit(limit);
+
+  const totals = await db.select({ status: jobs.status, count: count() })
+    .from(jobs)
+    .groupBy(jobs.status);
+  const counts = Object.fromEntries(jobStatuses.map(value => [value, 0])) as JobCounts;
+  for (const total of totals) {
+    counts[total.status as JobStatus] = total.count;
+  }
+
+  return { counts, jobs: rows };
+}
+
+export async function getJob(jobId: number): Promise<JobDetail | null> {
+  const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
+  if (!job) return null;
+
+  const logs = await db.select().from(jobLogs)
+    .where(eq(jobLogs.jobId, jobId))
+    .orderBy(asc(jobLogs.createdAt), asc(jobLogs.id));
+  return { ...job, logs };
+}
+
+/**
+ * Cancel a queued job, or ask a running one to stop
+ */
+export async function cancelJob(jobId: number): Promise<Job | null> {
+  const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
+  if (!job) return null;
+
+  if (job.status === 'queued') {
+    const [cancelled] = await db.update(jobs)
+      .set({ status: 'cancelled', finishedAt: new Date() })
+      .where(and(eq(jobs.id, jobId), eq(jobs.status, 'queued')))
+      .returning();
+    // Claimed by a worker in the meantime
+    if (!cancelled) return cancelJob(jobId);
+    await logJob(cancelled, 'Cancelled before it ran');
+    return cancelled;
+  }
+
+  if (job.status === 'running') {
+    const [requested] = await db.update(jobs)
+      .set({ cancelRequestedAt: new Date() })
+      .where(eq(jobs.id, jobId))
+      .returning();
+    await logJob(requested, 'Cancellation requested');
+    return requested;
+  }
+
+  throw new JobQueueError(`Job ${jobId} has already ${job.status}`);
+}
+
+/**
+ * Queue a failed or cancelled job again with a fresh set of attempts
+ */
+export async function retryJob(jobId: number): Promise<Job | null> {
+  const [job] = await db.select().from(jobs).where(eq(jobs.id, jobId));
+  if (!job) return null;
+
+  if (job.status !== 'failed' && job.status !== 'cancelled') {
+    throw new JobQueueError(`Only failed or cancelled jobs can be retried; job ${jobId} is ${job.status}`);
+  }
+
+  const [queued] = await db.update(jobs)
+    .set({
+      status: 'queued',
+      attempts: 0,
+      runAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+      progress: null,
+      cancelRequestedAt: null
+    })
+    .where(eq(jobs.id, jobId))
+    .returning();
+  await logJob(queued, 'Queued again');
+  return queued;
+}
+
+export async function listSchedules(): Promise<JobSchedule[]> {
+  return db.select().from(jobSchedules).orderBy(asc(jobSchedules.name));
+}
+
+/**
+ * Turn a schedule on or off or change when it runs
+ * The next run is worked out again from now.
+ */
+export async function updateSchedule(scheduleId: number, changes: { enabled?: boolean; cron?: string }): Promise<JobSchedule | null> {
+  const [schedule] = await db.select().from(jobSchedules).where(eq(jobSchedules.id, scheduleId));
+  if (!schedule) return null;
+
+  const cron = changes.cron ?? schedule.cron;
+  const [updated] = await db.update(jobSchedules)
+    .set({ ...changes, nextRunAt: nextCronRun(cron, new Date()) })
+    .where(eq(jobSchedules.id, scheduleId))
+    .returning();
+  return updated;
+}
+
+/**
+ * Queue a schedule's job now, outside its cron times
+ */
+export async function runScheduleNow(scheduleId: number, createdById?: number): Promise<Job | null> {
+  const [schedule] = await db.select().from(jobSchedules).where(eq(jobSchedules.id, scheduleId));
+  if (!schedule) return null;
+
+  return enqueueJob(schedule.type as JobType, schedule.payload, { scheduleId, createdById });
+}
+
+/**
+ * Queue the job of every enabled schedule that has come due
+ * Schedules the worker hasn't seen before only get their next run worked out.
+ */
+export async function enqueueDueSchedules(now = new Date()): Promise<number> {
+  const due = await db.select().from(jobSchedules)
+    .where(and(
+      eq(jobSchedules.enabled, true),
+      or(isNull(jobSchedules.nextRunAt), lte(jobSchedules.nextRunAt, now))
+    ));
+
+  let queued = 0;
+  for (const schedule of due) {
+    const enqueued = await db.transaction(async (tx) => {
+      // Only the worker that moves nextRunAt on queues the run
+      const [claimed] = await tx.update(jobSchedules)
+        .set({
+          nextRunAt: nextCronRun(schedule.cron, now),
+          ...(schedule.nextRunAt ? { lastRunAt: now } : {})
+        })
+        .where(and(
+          eq(jobSchedules.id, schedule.id),
+          schedule.nextRunAt ? eq(jobSchedules.nextRunAt, schedule.nextRunAt) : isNull(jobSchedules.nextRunAt)
+        ))
+        .returning();
+      if (!claimed || !schedule.nextRunAt) return false;
+
+      const [pending] = await tx.select({ id: jobs.id }).from(jobs)
+        .where(and(eq(jobs.scheduleId, schedule.id), inArray(jobs.status, ['queued', 'running'])))
+        .limit(1);
+      if (pending) return false;
+
+      await enqueueJob(schedule.type as JobType, schedule.payload, { scheduleId: schedule.id }, tx);
+      return true;
+    });
+    if (enqueued) queued++;
+  }
+
+  return queued;
+}
+
+/**
+ * Claim the next due job whose source has room for it
+ */
+export async function claimNextJob(workerId: string): Promise<Job | null> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY})`);
+
+    const running = await tx.select({ source: jobs.source, count: count() })
+      .from(jobs)
+      .where(eq(jobs.status, 'running'))
+      .groupBy(jobs.source);
+    const full = sourcesAtCapacity(
+      Object.fromEntries(running.map(row => [row.source, row.count])),
+      sourceLimits
+    );
+
+    const now = new Date();
+    const [next] = await tx.select({ id: jobs.id }).from(jobs)
+      .where(and(
+        eq(jobs.status, 'queued'),
+        lte(jobs.runAt, now),
+        full.length > 0 ? notInArray(jobs.source, full) : undefined
+      ))
+      .orderBy(desc(jobs.priority), asc(jobs.runAt), asc(jobs.id))
+      .limit(1)
+      .for('update', { skipLocked: true });
+    if (!next) return null;
+
+    const [job] = await tx.update(jobs)
+      .set({
+        status: 'running',
+        attempts: sql`${jobs.attempts} + 1`,
+        startedAt: now,
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + LEASE_DURATION)
+      })
+      .where(eq(jobs.id, next.id))
+      .returning();
+    return job;
+  });
+}
+
+// Queue the job again after its backoff, or fail it for good once it is out of attempts
+async function failAttempt(job: Job, message: string): Promise<void> {
+  const retry = job.attempts < job.maxAttempts;
+  const runAt = new Date(Date.now() + retryDelayMs(job.attempts));
+
+  await db.update(jobs)
+    .set(retry
+      ? { status: 'queued', runAt, lastError: message, lockedBy: null, lockedUntil: null }
+      : { status: 'failed', finishedAt: new Date(), lastError: message, lockedBy: null, lockedUntil: null })
+    .where(eq(jobs.id, job.id));
+
+  await logJob(job, retry
+    ? `Attempt ${job.attempts} of ${job.maxAttempts} failed: ${message}. Retrying at ${runAt.toISOString()}`
+    : `Failed after ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}: ${message}`,
+    retry ? 'warning' : 'error');
+}
+
+/**
+ * Put running jobs whose worker stopped renewing its claim back through the retry rules
+ */
+export async function recoverExpiredJobs(now = new Date()): Promise<number> {
+  const expired = await db.update(jobs)
+    .set({ lockedUntil: null })
+    .where(and(eq(jobs.status, 'running'), lte(jobs.lockedUntil, now)))
+    .returning();
+
+  for (const job of expired) {
+    if (job.cancelRequestedAt) {
+      await finishJob(job, 'cancelled');
+    } else {
+      await failAttempt(job, `Worker ${job.lockedBy} stopped responding`);
+    }
+  }
+  return expired.length;
+}
+
+async function finishJob(job: Job, status: 'succeeded' | 'cancelled', result?: unknown): Promise<void> {
+  await db.update(jobs)
+    .set({
+      status,
+      finishedAt: new Date(),
+      lockedBy: null,
+      lockedUntil: null,
+      ...(result !== undefined ? { result } : {})
+    })
+    .where(eq(jobs.id, job.id));
+  await logJob(job, status === 'succeeded' ? 'Finished' : 'Cancelled');
+}
+
+/**
+ * Job Worker
+ *
+ * Polls the queue, queues scheduled jobs as they come due and runs up to `concurrency`
+ * claimed jobs at a time, renewing their claims and watching for cancellation while
+ * they run.
+ */
+export class JobWorker {
+  readonly id = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private timer: NodeJS.Timeout | null = null;
+  private running = new Map<number, Promise<void>>();
+  private stopping = false;
+
+  constructor(private concurrency = Number(process.env.JOB_WORKER_CONCURRENCY) || 3) {}
+
+  start(): void {
+    if (this.timer || this.stopping) return;
+    console.log(`Job worker ${this.id} started`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop claiming jobs and wait for the running ones to finish
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await Promise.allSettled(this.running.values());
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.tick()
+        .catch(error => console.error('Job worker poll failed:', error))
+        .finally(() => {
+          if (!this.stopping) this.schedule(POLL_INTERVAL);
+        });
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    await enqueueDueSchedules();
+    await recoverExpiredJobs();
+
+    while (!this.stopping && this.running.size < this.concurrency) {
+      const job = await claimNextJob(this.id);
+      if (!job) break;
+
+      const execution = this.execute(job).finally(() => this.running.delete(job.id));
+      this.running.set(job.id, execution);
+    }
+  }
+
+  private async execute(job: Job): Promise<void> {
+    let cancelRequested = false;
+    const heartbeat = setInterval(async () => {
+      try {
+        const [renewed] = await db.update(jobs)
+          .set({ lockedUntil: new Date(Date.now() + LEASE_DURATION) })
+          .where(and(eq(jobs.id, job.id), eq(jobs.lockedBy, this.id)))
+          .returning({ cancelRequestedAt: jobs.cancelRequestedAt });
+        if (renewed?.cancelRequestedAt) cancelRequested = true;
+      } catch (error) {
+        console.error(`Failed to renew claim on job ${job.id}:`, error);
+      }
+    }, HEARTBEAT_INTERVAL);
+    heartbeat.unref();
+
+    const context: JobContext = {
+      job,
+      log: (message, level) => logJob(job, message, level),
+      progress: async (current, total, message) => {
+        const [updated] = await db.update(jobs)
+          .set({ progress: { current, total, ...(message ? { message } : {}) } })
+          .where(eq(jobs.id, job.id))
+          .returning({ cancelRequestedAt: jobs.cancelRequestedAt });
+        if (cancelRequested || updated?.cancelRequestedAt) {
+          throw new JobCancelledError(job.id);
+        }
+      }
+    };
+
+    try {
+      await logJob(job, `Started attempt ${job.attempts} of ${job.maxAttempts} on ${this.id}`);
+      const handler = jobHandlers[job.type as JobType];
+      if (!handler) {
+        throw new JobQueueError(`Unknown job type "${job.type}"`);
+      }
+
+      const result = await handler.run(handler.payload.parse(job.payload), context);
+      await finishJob(job, 'succeeded', result ?? null);
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        await finishJob(job, 'cancelled');
+      } else if (error instanceof JobQueueError || error instanceof ZodError) {
+        // Retrying won't help a job the queue can't run
+        await failAttempt({ ...job, maxAttempts: job.attempts }, error.message);
+      } else {
+        await failAttempt(job, error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+export const jobWorker = new JobWorker();
+
+/**
+ * Whether this process should work the queue; see JOB_WORKER_ENABLED
+ */
+export function isJobWorkerEnabled(): boolean {
+  return process.env.JOB_WORKER_ENABLED !== 'false';
+}
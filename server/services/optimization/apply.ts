@@ -0,0 +1,335 @@
+import { db } from '../../db';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { optimizationRuns, tourRoutes, tours, tourVenues, type Tour, type TourRoute } from '../../../shared/schema';
+import { optimizationCache } from '../../cache/optimization-cache';
+import { realtime, tourChannel } from '../realtime';
+import { publishWebhookEvent } from '../outbound-webhooks';
+import { checkTourVenueHold, publishHoldChanges, syncTourVenueHold, type HoldChange } from '../hold-ledger';
+import { buildTravelMatrix } from '../travel-matrix';
+import { compareTourOrder, isRoutable } from './context';
+import { measureRoute, stopPoint, type RouteMetrics } from './metrics';
+import { OptimizationApplyError, runRoute, selectRunStops, snapshotStops } from './runs';
+import type { AppliedOptimization, ApplyOptimizationRequest, TourStop } from './types';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function loadTourStops(tx: Transaction, tourId: number): Promise<TourStop[]> {
+  const stops = await tx.query.tourVenues.findMany({
+    where: eq(tourVenues.tourId, tourId),
+    with: { venue: true }
+  });
+  return (stops as TourStop[]).sort(compareTourOrder);
+}
+
+// Metrics of a tour's venues in their current order
+async function measureStops(stops: TourStop[]): Promise<RouteMetrics> {
+  const points = stops.filter(isRoutable).map(stopPoint);
+  return measureRoute(points, await buildTravelMatrix(points));
+}
+
+/**
+ * Replace a tour's stored legs with those between its routable venues in order and
+ * record each venue's distance and travel time from the previous one, as measured by
+ * the travel matrix provider
+ */
+async function writeRouteLegs(
+  tx: Transaction,
+  tourId: number,
+  stops: TourStop[]
+): Promise<{ routes: TourRoute[]; metrics: RouteMetrics }> {
+  const routable = stops.filter(isRoutable);
+  const points = routable.map(stopPoint);
+  const travel = await buildTravelMatrix(points);
+  const routes: TourRoute[] = [];
+
+  await tx.delete(tourRoutes).where(eq(tourRoutes.tourId, tourId));
+
+  for (let i = 0; i < routable.length; i++) {
+    const stop = routable[i];
+    const previous = routable[i - 1];
+
+    if (!previous) {
+      await tx.update(tourVenues)
+        .set({ travelDistanceFromPrevious: null, travelTimeFromPrevious: null })
+        .where(eq(tourVenues.id, stop.id));
+      continue;
+    }
+
+    const leg = travel.leg(points[i - 1], points[i]);
+    const distance = leg.distanceKm;
+    const travelTime = Math.round(leg.travelTimeMinutes);
+
+    await tx.update(tourVenues)
+      .set({ travelDistanceFromPrevious: distance, travelTimeFromPrevious: travelTime })
+      .where(eq(tourVenues.id, stop.id));
+
+    const [route] = await tx.insert(tourRoutes).values({
+      tourId,
+      startVenueId: previous.venueId,
+      endVenueId: stop.venueId,
+      distanceKm: distance,
+      estimatedTravelTimeMinutes: travelTime,
+      optimizationScore: Math.round(100 - Math.min(50, distance / 10)),
+      travelMode: leg.mode ?? 'drive',
+      fromCountry: leg.borderCrossing?.fromCountry ?? null,
+      toCountry: leg.borderCrossing?.toCountry ?? null,
+      borderCrossing: !!leg.borderCrossing
+    }).returning();
+    routes.push(route);
+  }
+
+  return { routes, metrics: measureRoute(points, travel) };
+}
+
+/**
+ * Move the hold of a tour venue whose date changed to its new date in the venue's hold ledger
+ * @throws HoldLedgerError when the venue can't take the hold on the new date
+ */
+async function moveHold(tx: Transaction, stop: TourStop, date: string | null): Promise<HoldChange[]> {
+  const booking = { id: stop.id, venueId: stop.venueId, status: stop.status, date };
+  await checkTourVenueHold(booking, tx);
+  return syncTourVenueHold(booking, tx);
+}
+
+async function updateTourMetrics(tx: Transaction, tour: Tour, initial: RouteMetrics, metrics: RouteMetrics, now: Date) {
+  const [updatedTour] = await tx.update(tours)
+    .set({
+      estimatedTravelDistance: metrics.totalDistance,
+      estimatedTravelTime: metrics.totalTravelTime,
+      optimizationScore: metrics.optimizationScore,
+      // The first optimization records where the tour started from
+      initialTotalDistance: tour.initialTotalDistance ?? initial.totalDistance,
+      initialTravelTime: tour.initialTravelTime ?? initial.totalTravelTime,
+      initialOptimizationScore: tour.initialOptimizationScore ?? initial.optimizationScore,
+      updatedAt: now
+    })
+    .where(eq(tours.id, tour.id))
+    .returning();
+  return updatedTour;
+}
+
+function publishTourChange(tourId: number, source: string) {
+  optimizationCache.invalidate(tourId);
+  realtime.publishToChannel(tourChannel(tourId), {
+    type: 'tour.optimized',
+    tourId,
+    source,
+    applied: true
+  });
+  publishWebhookEvent('tour.optimized', { tourId, source, applied: true });
+}
+
+/**
+ * Write a stored optimization run to a tour in one transaction: venue order and dates,
+ * the legs in tourRoutes, the tour's score fields and who applied the run
+ *
+ * The route and dates come from the run's stored result; the request can only pick
+ * which of its stops to apply. Confirmed venues keep their dates, and holds move with
+ * their tour venue's new date in the venue's hold ledger. Venues left out of the route
+ * keep their place after it, and gap fillers are added as suggested venues.
+ * @returns null when the tour or the optimization run does not exist
+ * @throws OptimizationApplyError when the run was already applied or a requested stop is not on its route
+ * @throws HoldLedgerError when a held venue can't take its new date
+ */
+export async function applyOptimization(
+  tourId: number,
+  request: ApplyOptimizationRequest,
+  userId?: number
+): Promise<AppliedOptimization | null> {
+  const result = await db.transaction(async (tx) => {
+    const tour = await tx.query.tours.findFirst({ where: eq(tours.id, tourId) });
+    if (!tour) return null;
+
+    const run = await tx.query.optimizationRuns.findFirst({
+      where: and(
+        eq(optimizationRuns.id, request.runId),
+        eq(optimizationRuns.tourId, tourId),
+        eq(optimizationRuns.kind, 'optimization')
+      )
+    });
+    if (!run) return null;
+    if (run.appliedAt) {
+      throw new OptimizationApplyError(`Optimization run ${run.id} has already been applied`);
+    }
+
+    const route = selectRunStops(runRoute(run), request.stops);
+    const existing = await loadTourStops(tx, tourId);
+    const existingById = new Map(existing.map(stop => [stop.id, stop]));
+    const initial = await measureStops(existing);
+    const placed = new Set<number>();
+    const added: number[] = [];
+    const holdChanges: HoldChange[] = [];
+    const now = new Date();
+    let sequence = 0;
+
+    for (const stop of route) {
+      if (stop.tourVenueId === null) {
+        const [inserted] = await tx.insert(tourVenues).values({
+          tourId,
+          venueId: stop.venueId,
+          date: stop.date,
+          status: 'suggested',
+          sequence: ++sequence,
+          notes: 'Added via tour optimization',
+          statusUpdatedAt: now
+        }).returning({ id: tourVenues.id });
+        added.push(inserted.id);
+        continue;
+      }
+
+      const current = existingById.get(stop.tourVenueId);
+      if (!current || placed.has(current.id)) {
+        console.warn(`Skipping tour venue ${stop.tourVenueId}: not on tour ${tourId} or listed twice`);
+        continue;
+      }
+
+      placed.add(current.id);
+      const date = current.status === 'confirmed' ? current.date : (stop.date ?? current.date);
+      await tx.update(tourVenues)
+        .set({ sequence: ++sequence, date })
+        .where(eq(tourVenues.id, current.id));
+      if (date !== current.date) {
+        holdChanges.push(...await moveHold(tx, current, date));
+      }
+    }
+
+    for (const stop of existing.filter(stop => !placed.has(stop.id))) {
+      await tx.update(tourVenues).set({ sequence: ++sequence }).where(eq(tourVenues.id, stop.id));
+    }
+
+    const updatedStops = await loadTourStops(tx, tourId);
+    const { routes, metrics } = await writeRouteLegs(tx, tourId, updatedStops);
+    const updatedTour = await updateTourMetrics(tx, tour, initial, metrics, now);
+
+    // Snapshot the tour as it was right before this apply so a rollback undoes exactly it
+    const [appliedRun] = await tx.update(optimizationRuns)
+      .set({
+        inputSnapshot: snapshotStops(existing),
+        addedTourVenueIds: added,
+        appliedById: userId ?? null,
+        appliedAt: now
+      })
+      .where(and(eq(optimizationRuns.id, run.id), isNull(optimizationRuns.appliedAt)))
+      .returning();
+    if (!appliedRun) {
+      // Applied by a concurrent request since it was loaded
+      throw new OptimizationApplyError(`Optimization run ${run.id} has already been applied`);
+    }
+
+    return { applied: { tour: updatedTour, tourVenues: updatedStops, routes, run: appliedRun }, holdChanges };
+  });
+
+  if (!result) return null;
+  publishHoldChanges(result.holdChanges);
+  publishTourChange(tourId, 'optimization-service');
+  return result.applied;
+}
+
+/**
+ * Restore a tour to the venue order and dates a run started from, and record the rollback as a run
+ *
+ * Suggested venues the run's apply added are removed. Confirmed venues keep their dates,
+ * holds move back with their tour venue's date, and venues added to the tour since the
+ * run keep their place after the restored route.
+ * @returns null when the run does not belong to the tour
+ * @throws HoldLedgerError when a held venue can't take its restored date
+ */
+export async function rollbackToRun(
+  tourId: number,
+  runId: number,
+  userId?: number
+): Promise<AppliedOptimization | null> {
+  const result = await db.transaction(async (tx) => {
+    const tour = await tx.query.tours.findFirst({ where: eq(tours.id, tourId) });
+    if (!tour) return null;
+
+    const run = await tx.query.optimizationRuns.findFirst({
+      where: and(eq(optimizationRuns.id, runId), eq(optimizationRuns.tourId, tourId))
+    });
+    if (!run) return null;
+
+    const existing = await loadTourStops(tx, tourId);
+    const initial = await measureStops(existing);
+    const addedIds = new Set(run.addedTourVenueIds ?? []);
+    const removed = existing.filter(stop => addedIds.has(stop.id) && stop.status === 'suggested');
+    const removedIds = new Set(removed.map(stop => stop.id));
+    const existingById = new Map(existing.map(stop => [stop.id, stop]));
+    const placed = new Set<number>();
+    const holdChanges: HoldChange[] = [];
+    const now = new Date();
+    let sequence = 0;
+
+    if (removed.length > 0) {
+      await tx.delete(tourVenues).where(inArray(tourVenues.id, [...removedIds]));
+    }
+
+    const snapshot = [...run.inputSnapshot].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+    for (const stop of snapshot) {
+      const current = existingById.get(stop.tourVenueId);
+      if (!current || removedIds.has(current.id) || placed.has(current.id)) continue;
+
+      placed.add(current.id);
+      const date = current.status === 'confirmed' ? current.date : stop.date;
+      await tx.update(tourVenues)
+        .set({ sequence: ++sequence, date })
+        .where(eq(tourVenues.id, current.id));
+      if (date !== current.date) {
+        holdChanges.push(...await moveHold(tx, current, date));
+      }
+    }
+
+    for (const stop of existing.filter(stop => !placed.has(stop.id) && !removedIds.has(stop.id))) {
+      await tx.update(tourVenues).set({ sequence: ++sequence }).where(eq(tourVenues.id, stop.id));
+    }
+
+    const restoredStops = await loadTourStops(tx, tourId);
+    const { routes, metrics } = await writeRouteLegs(tx, tourId, restoredStops);
+    const updatedTour = await updateTourMetrics(tx, tour, initial, metrics, now);
+
+    const [rollbackRun] = await tx.insert(optimizationRuns).values({
+      tourId,
+      kind: 'rollback',
+      sourceRunId: run.id,
+      inputSnapshot: snapshotStops(existing),
+      optimizationScore: metrics.optimizationScore,
+      totalDistance: metrics.totalDistance,
+      totalTravelTime: metrics.totalTravelTime,
+      createdById: userId ?? null,
+      appliedById: userId ?? null,
+      appliedAt: now,
+      addedTourVenueIds: []
+    }).returning();
+
+    return { rolledBack: { tour: updatedTour, tourVenues: restoredStops, routes, run: rollbackRun }, holdChanges };
+  });
+
+  if (!result) return null;
+  publishHoldChanges(result.holdChanges);
+  publishTourChange(tourId, 'optimization-rollback');
+  return result.rolledBack;
+}
+
+/**
+ * Recalculate a tour's legs and travel totals for its current venue order
+ * @returns null when the tour does not exist
+ */
+export async function recalculateTourRoutes(tourId: number): Promise<AppliedOptimization | null> {
+  return db.transaction(async (tx) => {
+    const tour = await tx.query.tours.findFirst({ where: eq(tours.id, tourId) });
+    if (!tour) return null;
+
+    const stops = await loadTourStops(tx, tourId);
+    const { routes, metrics } = await writeRouteLegs(tx, tourId, stops);
+
+    const [updatedTour] = await tx.update(tours)
+      .set({
+        estimatedTravelDistance: metrics.totalDistance,
+        estimatedTravelTime: metrics.totalTravelTime,
+        updatedAt: new Date()
+      })
+      .where(eq(tours.id, tourId))
+      .returning();
+
+    return { tour: updatedTour, tourVenues: stops, routes };
+  });
+}
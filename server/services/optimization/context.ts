@@ -0,0 +1,76 @@
+import { db } from '../../db';
+import { eq } from 'drizzle-orm';
+import { artistTourPreferences, artists, tourBudgets, tours, tourVenues } from '../../../shared/schema';
+import { resolveCostRates } from '../../../shared/utils/tour-finance';
+import { buildTravelMatrix } from '../travel-matrix';
+import { loadArtistBookings } from '../radius-clauses';
+import { loadVenueAvailability } from '../venue-availability';
+import { addDays } from '../../../shared/utils/tour-solver/schedule';
+import { stopPoint } from './metrics';
+import type { OptimizationContext, TourStop } from './types';
+
+/**
+ * Current tour order: by sequence, then by date for venues without one
+ */
+export function compareTourOrder(a: TourStop, b: TourStop): number {
+  const bySequence = (a.sequence || Number.MAX_SAFE_INTEGER) - (b.sequence || Number.MAX_SAFE_INTEGER);
+  if (bySequence !== 0) return bySequence;
+  return (a.date || '9999-12-31').localeCompare(b.date || '9999-12-31') || a.id - b.id;
+}
+
+export function isRoutable(stop: TourStop): boolean {
+  return stop.status !== 'cancelled' && stop.venue.latitude != null && stop.venue.longitude != null;
+}
+
+// Scheduling looks up to a year past the last known date for an open one
+const AVAILABILITY_LOOKAHEAD_DAYS = 366;
+
+/**
+ * Dates the optimizer may schedule shows on: from the earliest of today, the tour start
+ * and the venues' dates to a year after the latest of them
+ */
+export function availabilityWindow(context: Pick<OptimizationContext, 'tour' | 'stops'>): { from: string; to: string } {
+  const dates = [
+    new Date().toISOString().slice(0, 10),
+    context.tour.startDate,
+    context.tour.endDate,
+    ...context.stops.map(stop => stop.date)
+  ].filter((date): date is string => !!date).map(date => date.slice(0, 10)).sort();
+
+  return { from: dates[0], to: addDays(dates[dates.length - 1], AVAILABILITY_LOOKAHEAD_DAYS) };
+}
+
+/**
+ * Load a tour with its artist, scheduling preferences, cost rates, routable venues and
+ * their travel matrix and availability, and the artist's bookings for radius clause checks
+ * @returns null when the tour does not exist
+ */
+export async function loadOptimizationContext(tourId: number): Promise<OptimizationContext | null> {
+  const tour = await db.query.tours.findFirst({ where: eq(tours.id, tourId) });
+  if (!tour) return null;
+
+  const [artist, preferences, budget, stops, bookings] = await Promise.all([
+    db.query.artists.findFirst({ where: eq(artists.id, tour.artistId) }),
+    db.query.artistTourPreferences.findFirst({ where: eq(artistTourPreferences.artistId, tour.artistId) }),
+    db.query.tourBudgets.findFirst({ where: eq(tourBudgets.tourId, tourId) }),
+    db.query.tourVenues.findMany({
+      where: eq(tourVenues.tourId, tourId),
+      with: { venue: true }
+    }),
+    loadArtistBookings(tour.artistId)
+  ]);
+
+  const routable = (stops as TourStop[]).filter(isRoutable).sort(compareTourOrder);
+  const { from, to } = availabilityWindow({ tour, stops: routable });
+
+  return {
+    tour,
+    artist: artist ?? null,
+    preferences: preferences ?? null,
+    stops: routable,
+    travel: await buildTravelMatrix(routable.map(stopPoint)),
+    rates: resolveCostRates(budget),
+    bookings,
+    availability: await loadVenueAvailability(routable.map(stop => stop.venueId), from, to)
+  };
+}
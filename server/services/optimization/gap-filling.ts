@@ -1,70 +1,14 @@
-import { db } from '../db';
-import { tourRoutes, venues } from '../../shared/schema';
-import { calculateDistance, estimateTravelTime } from '../../shared/utils/geo';
-import { eq, and, sql } from 'drizzle-orm';
-
-/**
- * Enhance the apply optimization functionality to store detailed route information
- * This function adds rich route data to the tour_routes table for visualization and analytics
- */
-export async function enhanceApplyOptimization(
-  tourId: number,
-  sortedVenues: any[],
-  totalTravelDistance: number,
-  totalTravelTime: number
-) {
-  try {
-    // First, clear existing route data for this tour
-    await db
-      .delete(tourRoutes)
-      .where(eq(tourRoutes.tourId, tourId));
-    
-    // Process venues in pairs to create routes
-    for (let i = 0; i < sortedVenues.length - 1; i++) {
-      const currentVenue = sortedVenues[i];
-      const nextVenue = sortedVenues[i + 1];
-      
-      // Skip venues without locations
-      if (!currentVenue.venue?.latitude || !currentVenue.venue?.longitude ||
-          !nextVenue.venue?.latitude || !nextVenue.venue?.longitude) {
-        continue;
-      }
-      
-      // Calculate the distance and travel time between these venues
-      const distance = calculateDistance(
-        Number(currentVenue.venue.latitude),
-        Number(currentVenue.venue.longitude),
-        Number(nextVenue.venue.latitude),
-        Number(nextVenue.venue.longitude)
-      );
-      
-      const travelTime = estimateTravelTime(distance);
-      
-      // Calculate local optimization score based on distance and time
-      const optimizationScore = Math.max(0, 100 - Math.min(50, distance / 10));
-      
-      // Insert the route data
-      await db.insert(tourRoutes).values({
-        tourId,
-        startVenueId: currentVenue.venueId,
-        endVenueId: nextVenue.venueId,
-        distanceKm: distance,
-        estimatedTravelTimeMinutes: travelTime,
-        optimizationScore,
-        createdAt: new Date()
-      });
-    }
-    
-    return { success: true };
-  } catch (error) {
-    console.error("Error enhancing route optimization:", error);
-    throw error;
-  }
-}
+import { calculateDistance } from '../../../shared/utils/geo';
+import { addDays } from '../../../shared/utils/tour-solver/schedule';
+import { nearestAvailableDate } from '../../../shared/utils/venue-availability';
 
 /**
  * Find improved venues to fill gaps in a tour schedule
  * Uses geographic proximity and artist preferences to suggest venues
+ * @param isAllowed Leaves out venues that may not be played on their suggested date,
+ * e.g. because of a radius clause
+ * @param canPlay Whether a venue can take a show on a date; a venue that cannot take its
+ * ideal date is suggested on the nearest date inside the gap it can take, if any
  */
 export function findImprovedVenuesForGap(
   startVenue: any,
@@ -72,7 +16,9 @@ export function findImprovedVenuesForGap(
   startDate: Date,
   endDate: Date,
   allVenues: any[],
-  artistPreferences?: any
+  artistPreferences?: any,
+  isAllowed: (venue: any, suggestedDate: string) => boolean = () => true,
+  canPlay: (venue: any, date: string) => boolean = () => true
 ) {
   // Check if we have valid coordinates for start and end
   if (!startVenue?.latitude || !startVenue?.longitude ||
@@ -95,6 +41,8 @@ export function findImprovedVenuesForGap(
   if (daysBetween < 1) {
     return [];
   }
+  const gapStart = startDate.toISOString().split('T')[0];
+  const gapEnd = endDate.toISOString().split('T')[0];
   
   // Determine maximum reasonable distance to travel
   // Based on the idea that we don't want to increase the total travel distance by more than 40%
@@ -177,8 +125,12 @@ export function findImprovedVenuesForGap(
     // For simplicity, we'll use linear interpolation based on distance from start
     const totalDays = daysBetween + 1; // Include both start and end dates
     const dayOffset = Math.round((distanceFromStart / totalDistance) * totalDays);
-    const suggestedDate = new Date(startDate);
-    suggestedDate.setDate(startDate.getDate() + dayOffset);
+    const idealDate = new Date(startDate);
+    idealDate.setDate(startDate.getDate() + dayOffset);
+    const ideal = idealDate.toISOString().split('T')[0];
+    const suggestedDate = canPlay(venue, ideal)
+      ? ideal
+      : nearestAvailableDate(ideal, addDays(gapStart, 1), addDays(gapEnd, -1), date => canPlay(venue, date));
     
     return {
       venue,
@@ -186,7 +138,7 @@ export function findImprovedVenuesForGap(
       totalDistance,
       distanceFromStart,
       distanceFromEnd,
-      suggestedDate: suggestedDate.toISOString().split('T')[0],
+      suggestedDate,
       gapFilling: true,
       status: 'potential'
     };
@@ -196,8 +148,11 @@ export function findImprovedVenuesForGap(
   const filteredVenues = scoredVenues
     .filter(item => 
       item.distanceFromStart <= maxDistanceFromEndpoint && 
-      item.distanceFromEnd <= maxDistanceFromEndpoint
+      item.distanceFromEnd <= maxDistanceFromEndpoint &&
+      item.suggestedDate !== null &&
+      isAllowed(item.venue, item.suggestedDate)
     )
+    .map(item => ({ ...item, suggestedDate: item.suggestedDate! }))
     .sort((a, b) => b.score - a.score);
   
   // Return top improved venues
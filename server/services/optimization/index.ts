@@ -0,0 +1,107 @@
+/**
+ * Tour optimization service
+ *
+ * One entry point for every optimization strategy (standard, enhanced, AI) with a
+ * versioned request/response contract built on OptimizedRoute, and one apply path
+ * that writes the chosen route to the tour. Every optimization is stored as a run
+ * so a tour's history can be diffed and rolled back.
+ */
+import { optimizationCache } from '../../cache/optimization-cache';
+import { realtime, tourChannel } from '../realtime';
+import { publishWebhookEvent } from '../outbound-webhooks';
+import { measureRoute, revenueTradeoff, stopPoint } from './metrics';
+import { routeRadiusConflicts } from './radius';
+import { recordOptimizationRun } from './runs';
+import { optimizationStrategies } from './strategies';
+import {
+  OPTIMIZATION_API_VERSION,
+  type OptimizationContext,
+  type OptimizationRequest,
+  type OptimizationResult,
+  type StoredOptimizationResult,
+  type StrategyResult
+} from './types';
+
+export * from './types';
+export { loadOptimizationContext } from './context';
+export { applyOptimization, recalculateTourRoutes, rollbackToRun } from './apply';
+export {
+  OptimizationApplyError,
+  diffOptimizationRuns,
+  diffRoutes,
+  listOptimizationRuns,
+  runRoute,
+  selectRunStops
+} from './runs';
+export { findImprovedVenuesForGap } from './gap-filling';
+export { optimizationStrategies };
+
+/**
+ * Optimize a tour with the requested strategy
+ *
+ * A failing enhanced or AI strategy falls back to the standard one and the result
+ * says why. The revenue goal adds the route's projected net revenue against the
+ * current route to the result and its reasoning. Radius clauses the route breaches
+ * are reported as warnings. Each new result is stored as an optimization run, and
+ * results are cached per tour and request until the tour changes.
+ */
+export async function optimizeTour(
+  context: OptimizationContext,
+  request: OptimizationRequest,
+  userId?: number
+): Promise<OptimizationResult> {
+  const tourId = context.tour.id;
+  const cached = optimizationCache.get(tourId, request);
+  if (cached) return cached;
+
+  const options = request.options ?? {};
+  let result: StrategyResult;
+  let fallbackReason: string | undefined;
+
+  try {
+    result = await optimizationStrategies[request.strategy].optimize(context, options);
+  } catch (error) {
+    if (request.strategy === 'standard') throw error;
+
+    console.error(`The ${request.strategy} optimization failed, using the standard strategy:`, error);
+    fallbackReason = error instanceof Error ? error.message : 'Unknown error';
+    result = await optimizationStrategies.standard.optimize(context, options);
+  }
+
+  const revenue = options.optimizeFor === 'revenue' ? revenueTradeoff(context, result) : undefined;
+  const radiusConflicts = routeRadiusConflicts(context, result.tourVenues);
+  const reasoning = [
+    result.reasoning,
+    radiusConflicts.length > 0 && `${radiusConflicts.length} radius clause conflicts need attention.`,
+    revenue?.explanation
+  ].filter(Boolean).join(' ');
+
+  const stored: StoredOptimizationResult = {
+    ...result,
+    reasoning,
+    radiusConflicts,
+    ...(revenue && { revenue }),
+    version: OPTIMIZATION_API_VERSION,
+    tourId,
+    requestedStrategy: request.strategy,
+    baseline: measureRoute(context.stops.map(stopPoint), context.travel),
+    ...(fallbackReason && { fallbackReason })
+  };
+  const run = await recordOptimizationRun(context, request, stored, userId);
+  const optimization: OptimizationResult = { ...stored, runId: run.id };
+
+  // A fallback may be temporary, so only cache what the requested strategy produced
+  if (!fallbackReason) {
+    optimizationCache.set(tourId, request, optimization);
+  }
+
+  realtime.publishToChannel(tourChannel(tourId), {
+    type: 'tour.optimized',
+    tourId,
+    source: 'optimization-service',
+    applied: false
+  });
+  publishWebhookEvent('tour.optimized', { tourId, runId: run.id, source: 'optimization-service', applied: false });
+
+  return optimization;
+}
@@ -0,0 +1,172 @@
+import {
+  calculateDateCoverage,
+  calculateGeographicClustering,
+  calculateScheduleEfficiency,
+  calculateScoreBreakdown,
+  haversineMatrix,
+  measureTravel,
+  routeLegs,
+  type OptimizationScoreBreakdown,
+  type TravelMatrix
+} from '../../../shared/utils/geo';
+import {
+  expectedDraw,
+  projectRevenue,
+  type MarketCategory,
+  type RevenueProjection,
+  type TourCostRates
+} from '../../../shared/utils/tour-finance';
+import { daysBetween } from '../../../shared/utils/tour-solver';
+import type { OptimizedRoute } from '../../../shared/utils/tour-optimizer';
+import type { OptimizationContext, RevenueTradeoff, TourStop } from './types';
+
+export interface RouteMetrics {
+  totalDistance: number;
+  totalTravelTime: number;
+  optimizationScore: number;
+  scoreBreakdown: OptimizationScoreBreakdown;
+}
+
+/**
+ * Distance, travel time and optimization score of stops visited in the given order
+ * Every optimization strategy and the apply path score routes with this function so
+ * their numbers can be compared.
+ * @param travel Travel matrix of the tour; straight-line distance when not given
+ */
+export function measureRoute(points: Array<{
+  venueId?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  country?: string | null;
+  date?: Date | string | null;
+  gapFilling?: boolean;
+}>, travel: TravelMatrix = haversineMatrix): RouteMetrics {
+  const travelled = measureTravel(points, travel);
+  const totalDistance = travelled.distanceKm;
+  const totalTravelTime = Math.round(travelled.travelTimeMinutes);
+  const gapFillers = points.filter(point => point.gapFilling).length;
+  const scoreBreakdown = calculateScoreBreakdown({
+    totalDistance,
+    totalTravelTime,
+    gapFillingQuality: points.length > 0 ? Math.round((gapFillers / points.length) * 100) : 0,
+    geographicClustering: calculateGeographicClustering(points),
+    scheduleEfficiency: calculateScheduleEfficiency(points),
+    dateCoverage: calculateDateCoverage(points)
+  });
+
+  return {
+    totalDistance,
+    totalTravelTime,
+    optimizationScore: scoreBreakdown.score,
+    scoreBreakdown
+  };
+}
+
+const dateString = (date: Date | string) => typeof date === 'string' ? date : date.toISOString().slice(0, 10);
+
+/**
+ * Projected net revenue of playing venues in the given order
+ * Each show's draw comes from the artist's popularity and the venue's capacity and
+ * market; fuel is charged for driven legs and daily costs from the first show to the last.
+ * @param travel Travel matrix of the tour; straight-line distance when not given
+ */
+export function measureRevenue(
+  shows: Array<{
+    venue: {
+      id: number;
+      latitude?: number | null;
+      longitude?: number | null;
+      country?: string | null;
+      capacity?: number | null;
+      marketCategory?: MarketCategory | null;
+    };
+    date?: Date | string | null;
+  }>,
+  popularity: number | null | undefined,
+  rates: TourCostRates,
+  travel: TravelMatrix = haversineMatrix
+): RevenueProjection {
+  const points = shows.map(show => ({
+    venueId: show.venue.id,
+    latitude: show.venue.latitude,
+    longitude: show.venue.longitude,
+    country: show.venue.country
+  }));
+  const drivenKm = routeLegs(points, travel)
+    .filter(leg => leg.mode === 'drive')
+    .reduce((sum, leg) => sum + leg.distanceKm, 0);
+
+  // Undated routes are costed at one day per show
+  const dates = shows.flatMap(show => show.date ? [dateString(show.date)] : []).sort();
+  const days = dates.length > 0
+    ? Math.max(shows.length, daysBetween(dates[0], dates[dates.length - 1]) + 1)
+    : shows.length;
+
+  return projectRevenue(shows.map(show => expectedDraw(show.venue, popularity)), drivenKm, days, rates);
+}
+
+const amount = (value: number) => Math.round(value).toLocaleString('en-US');
+// "2 more shows", "1 fewer day"
+const countChange = (change: number, word: string) =>
+  `${Math.abs(change)} ${change > 0 ? 'more' : 'fewer'} ${word}${Math.abs(change) === 1 ? '' : 's'}`;
+
+function describeRevenueChange(changes: Omit<RevenueTradeoff, 'projected' | 'baseline' | 'explanation'>): string {
+  const { showsChange, distanceChange, daysChange, netChange } = changes;
+  const parts = [
+    showsChange !== 0 && countChange(showsChange, 'show'),
+    Math.round(distanceChange) !== 0 &&
+      `${amount(Math.abs(distanceChange))} km ${distanceChange > 0 ? 'more' : 'less'} driving`,
+    daysChange !== 0 && `${countChange(daysChange, 'day')} on the road`
+  ].filter(Boolean);
+
+  const net = Math.round(netChange) === 0
+    ? 'the same net revenue'
+    : `${amount(Math.abs(netChange))} ${netChange > 0 ? 'more' : 'less'} net revenue`;
+  return parts.length > 0
+    ? `Against the current route: ${parts.join(', ')} for ${net}.`
+    : `Against the current route: ${net}.`;
+}
+
+/**
+ * Projected net revenue of an optimized route against the tour's current route, with
+ * a sentence on what the extra driving or days bought
+ */
+export function revenueTradeoff(
+  context: OptimizationContext,
+  route: Pick<OptimizedRoute, 'tourVenues' | 'totalDistance'>
+): RevenueTradeoff {
+  const popularity = context.artist?.popularity;
+  const projected = measureRevenue(
+    route.tourVenues.map(stop => ({ venue: stop.venue, date: stop.suggestedDate ?? stop.date })),
+    popularity,
+    context.rates,
+    context.travel
+  );
+  const baseline = measureRevenue(context.stops, popularity, context.rates, context.travel);
+  const baselineDistance = measureTravel(context.stops.map(stopPoint), context.travel).distanceKm;
+
+  const changes = {
+    showsChange: projected.shows - baseline.shows,
+    netChange: Math.round((projected.net - baseline.net) * 100) / 100,
+    distanceChange: Math.round((route.totalDistance - baselineDistance) * 10) / 10,
+    daysChange: projected.days - baseline.days
+  };
+  const explanation = `Projected net revenue ${amount(projected.net)}: ${amount(projected.ticketGross)} from ` +
+    `${amount(projected.expectedDraw)} expected tickets less ${amount(projected.travelCost)} fuel and ` +
+    `${amount(projected.dailyCosts)} lodging and per diems. ${describeRevenueChange(changes)}`;
+
+  return { projected, baseline, ...changes, explanation };
+}
+
+/**
+ * A tour venue as a point of its current route
+ */
+export function stopPoint(stop: TourStop) {
+  return {
+    venueId: stop.venueId,
+    latitude: stop.venue.latitude,
+    longitude: stop.venue.longitude,
+    country: stop.venue.country,
+    date: stop.date
+  };
+}
@@ -0,0 +1,41 @@
+import {
+  findRadiusConflicts,
+  type Booking,
+  type RadiusConflict
+} from '../../../shared/utils/radius-clauses';
+import type { OptimizedVenueData } from '../../../shared/utils/tour-optimizer';
+import type { OptimizationContext } from './types';
+
+const dateString = (date: Date | null | undefined) => date ? date.toISOString().slice(0, 10) : null;
+
+/**
+ * Radius clauses an optimized route breaches, or has breached by the artist's other bookings
+ * The tour's venues are checked on their proposed dates with their own clauses; gap
+ * fillers are checked as proposed bookings without clauses.
+ */
+export function routeRadiusConflicts(
+  context: OptimizationContext,
+  tourVenues: OptimizedVenueData[]
+): RadiusConflict[] {
+  const tourId = context.tour.id;
+  const clauses = new Map(context.bookings
+    .filter(booking => booking.kind === 'tourVenue')
+    .map(booking => [booking.id, booking.clauses]));
+
+  const route = tourVenues.map((stop): Booking => ({
+    kind: stop.tourVenueId ? 'tourVenue' : 'proposed',
+    id: stop.tourVenueId ?? stop.venue.id,
+    tourId,
+    venueId: stop.venue.id,
+    venueName: stop.venue.name,
+    latitude: stop.venue.latitude,
+    longitude: stop.venue.longitude,
+    date: dateString(stop.suggestedDate ?? stop.date),
+    clauses: (stop.tourVenueId && clauses.get(stop.tourVenueId)) || []
+  }));
+  const otherBookings = context.bookings.filter(booking => booking.tourId !== tourId);
+
+  return findRadiusConflicts([...route, ...otherBookings]).filter(conflict =>
+    conflict.protectedBooking.tourId === tourId || conflict.conflictingBooking.tourId === tourId
+  );
+}
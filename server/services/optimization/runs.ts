@@ -0,0 +1,235 @@
+import { db } from '../../db';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { optimizationRuns, type OptimizationRun, type TourSnapshotStop } from '../../../shared/schema';
+import type {
+  AppliedStop,
+  OptimizationContext,
+  OptimizationRequest,
+  OptimizationRunDiff,
+  OptimizationRunSummary,
+  RunStop,
+  RunStopChange,
+  StoredOptimizationResult,
+  TourStop
+} from './types';
+
+const appliedByColumns = { id: true, name: true, username: true } as const;
+
+/**
+ * A run that can't be applied as asked: already applied, or asked for stops it doesn't have
+ */
+export class OptimizationApplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OptimizationApplyError';
+  }
+}
+
+export function snapshotStops(stops: TourStop[]): TourSnapshotStop[] {
+  return stops.map(stop => ({
+    tourVenueId: stop.id,
+    venueId: stop.venueId,
+    venueName: stop.venue.name,
+    city: stop.venue.city,
+    latitude: stop.venue.latitude,
+    longitude: stop.venue.longitude,
+    date: stop.date,
+    status: stop.status,
+    sequence: stop.sequence
+  }));
+}
+
+/**
+ * Store an optimization as a new run of the tour
+ */
+export async function recordOptimizationRun(
+  context: OptimizationContext,
+  request: OptimizationRequest,
+  result: StoredOptimizationResult,
+  userId?: number
+): Promise<OptimizationRun> {
+  const [run] = await db.insert(optimizationRuns).values({
+    tourId: context.tour.id,
+    kind: 'optimization',
+    strategy: result.strategy,
+    requestedStrategy: result.requestedStrategy,
+    solver: result.solver,
+    options: request.options ?? {},
+    inputSnapshot: snapshotStops(context.stops),
+    result,
+    optimizationScore: result.optimizationScore,
+    totalDistance: result.totalDistance,
+    totalTravelTime: result.totalTravelTime,
+    createdById: userId ?? null
+  }).returning();
+
+  return run;
+}
+
+// Drizzle types the one-sided appliedBy relation as a user or a list of users
+function toSummary(run: OptimizationRun & { appliedBy?: unknown }): OptimizationRunSummary {
+  const { result, inputSnapshot, appliedBy, ...summary } = run;
+  return { ...summary, appliedBy: (appliedBy ?? null) as OptimizationRunSummary['appliedBy'] };
+}
+
+/**
+ * A tour's optimization runs, newest first
+ */
+export async function listOptimizationRuns(tourId: number): Promise<OptimizationRunSummary[]> {
+  const runs = await db.query.optimizationRuns.findMany({
+    where: eq(optimizationRuns.tourId, tourId),
+    with: { appliedBy: { columns: appliedByColumns } },
+    orderBy: [desc(optimizationRuns.createdAt), desc(optimizationRuns.id)]
+  });
+  return runs.map(toSummary);
+}
+
+/**
+ * Route of a run in tour order: what an optimization proposed, or what a rollback restored
+ * @param source The run a rollback restored
+ */
+export function runRoute(run: OptimizationRun, source?: OptimizationRun): RunStop[] {
+  const result = run.result as StoredOptimizationResult | null;
+
+  if (!result) {
+    return source ? source.inputSnapshot : [];
+  }
+
+  return result.tourVenues.map((stop, index) => {
+    const date = stop.suggestedDate ?? stop.date;
+    return {
+      tourVenueId: stop.tourVenueId ?? null,
+      venueId: stop.venue.id,
+      venueName: stop.venue.name,
+      city: stop.venue.city,
+      latitude: stop.venue.latitude,
+      longitude: stop.venue.longitude,
+      // Dates are strings once the result has been stored as JSON
+      date: date ? new Date(date).toISOString().slice(0, 10) : null,
+      status: stop.status ?? null,
+      sequence: index + 1
+    };
+  });
+}
+
+// Gap fillers have no tour venue yet, so they are matched on the venue
+function stopKey(stop: Pick<RunStop, 'tourVenueId' | 'venueId'>): string {
+  return stop.tourVenueId !== null ? `tourVenue:${stop.tourVenueId}` : `venue:${stop.venueId}`;
+}
+
+/**
+ * The stops of a run's route to apply, in route order
+ * @param selection Stops to apply; the whole route when left out
+ * @throws OptimizationApplyError when a selected stop is not on the route
+ */
+export function selectRunStops(route: RunStop[], selection?: AppliedStop[]): RunStop[] {
+  if (!selection) return route;
+
+  const selected = new Set<string>();
+  for (const stop of selection) {
+    const key = stopKey({ tourVenueId: stop.tourVenueId ?? null, venueId: stop.venueId });
+    const onRoute = route.find(routeStop => stopKey(routeStop) === key);
+    if (onRoute?.venueId !== stop.venueId) {
+      throw new OptimizationApplyError(stop.tourVenueId !== undefined
+        ? `Tour venue ${stop.tourVenueId} is not on the optimized route`
+        : `Venue ${stop.venueId} is not on the optimized route`);
+    }
+    selected.add(key);
+  }
+
+  return route.filter(stop => selected.has(stopKey(stop)));
+}
+
+/**
+ * Compare two routes venue by venue, in the order of the second route
+ */
+export function diffRoutes(from: RunStop[], to: RunStop[]): RunStopChange[] {
+  const fromByKey = new Map(from.map((stop, index) => [stopKey(stop), { stop, position: index + 1 }]));
+  const toKeys = new Set(to.map(stopKey));
+
+  const changes: RunStopChange[] = to.map((stop, index) => {
+    const before = fromByKey.get(stopKey(stop));
+    const after = { position: index + 1, date: stop.date };
+
+    if (!before) {
+      return {
+        venueId: stop.venueId,
+        venueName: stop.venueName,
+        tourVenueId: stop.tourVenueId,
+        type: 'added',
+        from: null,
+        to: after,
+        positionChanged: false,
+        dateChanged: false
+      };
+    }
+
+    const positionChanged = before.position !== after.position;
+    const dateChanged = before.stop.date !== after.date;
+    return {
+      venueId: stop.venueId,
+      venueName: stop.venueName,
+      tourVenueId: stop.tourVenueId,
+      type: positionChanged || dateChanged ? 'changed' : 'unchanged',
+      from: { position: before.position, date: before.stop.date },
+      to: after,
+      positionChanged,
+      dateChanged
+    };
+  });
+
+  from.forEach((stop, index) => {
+    if (!toKeys.has(stopKey(stop))) {
+      changes.push({
+        venueId: stop.venueId,
+        venueName: stop.venueName,
+        tourVenueId: stop.tourVenueId,
+        type: 'removed',
+        from: { position: index + 1, date: stop.date },
+        to: null,
+        positionChanged: false,
+        dateChanged: false
+      });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Diff the routes of two runs of a tour
+ * @returns null when either run does not belong to the tour
+ */
+export async function diffOptimizationRuns(
+  tourId: number,
+  fromRunId: number,
+  toRunId: number
+): Promise<OptimizationRunDiff | null> {
+  const runs = await db.query.optimizationRuns.findMany({
+    where: and(eq(optimizationRuns.tourId, tourId), inArray(optimizationRuns.id, [fromRunId, toRunId])),
+    with: { appliedBy: { columns: appliedByColumns } }
+  });
+
+  const fromRun = runs.find(run => run.id === fromRunId);
+  const toRun = runs.find(run => run.id === toRunId);
+  if (!fromRun || !toRun) return null;
+
+  // Rollbacks restored the input snapshot of their source run
+  const sourceIds = [fromRun, toRun].map(run => run.sourceRunId).filter((id): id is number => id !== null);
+  const sources = sourceIds.length > 0
+    ? await db.query.optimizationRuns.findMany({ where: inArray(optimizationRuns.id, sourceIds) })
+    : [];
+  const sourceOf = (run: OptimizationRun) => sources.find(source => source.id === run.sourceRunId);
+
+  const fromStops = runRoute(fromRun, sourceOf(fromRun));
+  const toStops = runRoute(toRun, sourceOf(toRun));
+
+  return {
+    from: { run: toSummary(fromRun), stops: fromStops },
+    to: { run: toSummary(toRun), stops: toStops },
+    changes: diffRoutes(fromStops, toStops),
+    distanceChange: (toRun.totalDistance ?? 0) - (fromRun.totalDistance ?? 0),
+    travelTimeChange: (toRun.totalTravelTime ?? 0) - (fromRun.totalTravelTime ?? 0),
+    scoreChange: (toRun.optimizationScore ?? 0) - (fromRun.optimizationScore ?? 0)
+  };
+}
@@ -0,0 +1,427 @@
+import OpenAI from 'openai';
+import { db } from '../../db';
+import { and, isNotNull } from 'drizzle-orm';
+import { venues } from '../../../shared/schema';
+import { routeLegs, travelChecklist } from '../../../shared/utils/geo';
+import type { OptimizedRoute, OptimizedVenueData } from '../../../shared/utils/tour-optimizer';
+import {
+  DEFAULT_TICKET_PRICE,
+  dailyCost,
+  expectedDraw
+} from '../../../shared/utils/tour-finance';
+import {
+  DEFAULT_SOLVER,
+  createScheduleContext,
+  daysBetween,
+  keepsFixedOrder,
+  scheduleRoute,
+  solveTourRoute,
+  type RoutingProblem,
+  type ScheduledStop,
+  type SolverOptions,
+  type SolverName,
+  type SolverStop
+} from '../../../shared/utils/tour-solver';
+import { clausesBreachedBy } from '../../../shared/utils/radius-clauses';
+import { isVenueAvailable } from '../../../shared/utils/venue-availability';
+import { loadVenueAvailability } from '../venue-availability';
+import { availabilityWindow } from './context';
+import { findImprovedVenuesForGap } from './gap-filling';
+import { measureRoute, type RouteMetrics } from './metrics';
+import type {
+  OptimizationContext,
+  OptimizationGoal,
+  OptimizationOptions,
+  OptimizationStrategy,
+  OptimizationStrategyName,
+  TourStop
+} from './types';
+
+type VenueRecord = typeof venues.$inferSelect;
+
+// Cost of each extra tour day (in km) for each optimization goal
+const DAY_COST_KM: Record<Exclude<OptimizationGoal, 'revenue'>, number> = {
+  distance: 0,
+  balanced: 50,
+  time: 200
+};
+
+/**
+ * The revenue goal prices a day's lodging and per diems in km of fuel, so the solver
+ * trades driving against days on the road as money
+ */
+function dayCostKm(context: OptimizationContext, goal: OptimizationGoal): number {
+  if (goal !== 'revenue') return DAY_COST_KM[goal];
+  return context.rates.fuelCostPerKm > 0
+    ? dailyCost(context.rates) / context.rates.fuelCostPerKm
+    : DAY_COST_KM.time;
+}
+
+/**
+ * A venue on the route being built; gap fillers have no tour venue yet
+ */
+interface RouteEntry {
+  venue: VenueRecord;
+  tourStop?: TourStop;
+  gapFilling?: boolean;
+  score?: number;
+}
+
+// Gap fillers use the negated venue id as solver id so they never clash with tour venue ids
+const gapFillerId = (venueId: number) => -venueId;
+
+/**
+ * Routing problem for the tour's venues; request options override stored preferences
+ */
+function createRoutingProblem(context: OptimizationContext, options: OptimizationOptions) {
+  const preferences = context.preferences;
+  const respectFixedDates = options.respectFixedDates ?? true;
+  const preferredDates = options.preferredDates ?? {};
+
+  const problem: RoutingProblem = {
+    stops: context.stops.map(stop => {
+      const isFixed = respectFixedDates && stop.status === 'confirmed' && !!stop.date;
+      return {
+        id: stop.id,
+        latitude: stop.venue.latitude,
+        longitude: stop.venue.longitude,
+        country: stop.venue.country,
+        fixedDate: isFixed ? stop.date : null,
+        // A movable venue's current date is kept when it still fits
+        preferredDate: isFixed ? null : (preferredDates[stop.venueId] ?? stop.date),
+        canPlay: (date: string) => isVenueAvailable(context.availability.get(stop.venueId), date)
+      };
+    }),
+    startDate: context.tour.startDate,
+    endDate: context.tour.endDate,
+    constraints: {
+      minDaysBetweenShows: options.minDaysBetweenShows ?? preferences?.minDaysBetweenShows,
+      maxDaysBetweenShows: options.maxDaysBetweenShows ?? preferences?.maxDaysBetweenShows,
+      avoidDates: options.avoidDates ?? (preferences?.avoidDates as string[] | null),
+      requiredDaysOff: options.requiredDaysOff ?? preferences?.requiredDayOff,
+      maxTravelDistancePerDay: options.maxTravelDistancePerDay ?? preferences?.maxTravelDistancePerDay
+    }
+  };
+
+  const solverOptions: SolverOptions & { solver: SolverName } = {
+    solver: options.solver ?? DEFAULT_SOLVER,
+    seed: options.seed,
+    dayCostKm: dayCostKm(context, options.optimizeFor ?? 'balanced'),
+    travelMatrix: context.travel
+  };
+
+  return { problem, solverOptions };
+}
+
+function routeEntries(context: OptimizationContext): Map<number, RouteEntry> {
+  return new Map(context.stops.map(stop => [stop.id, { venue: stop.venue, tourStop: stop }]));
+}
+
+const toDate = (date: string) => new Date(`${date}T00:00:00Z`);
+
+/**
+ * Turn a dated sequence into the OptimizedRoute contract, scored with measureRoute
+ */
+function toOptimizedRoute(
+  context: OptimizationContext,
+  sequence: ScheduledStop[],
+  entries: Map<number, RouteEntry>,
+  gaps: OptimizedRoute['gaps'] = []
+): OptimizedRoute & Pick<RouteMetrics, 'scoreBreakdown'> {
+  const tourVenues: OptimizedVenueData[] = sequence.map((scheduled, index) => {
+    const entry = entries.get(scheduled.stopId)!;
+    return {
+      venue: entry.venue,
+      tourVenueId: entry.tourStop?.id,
+      date: entry.tourStop?.date ? toDate(entry.tourStop.date) : null,
+      isFixed: scheduled.isFixed,
+      status: entry.tourStop?.status ?? 'potential',
+      suggestedDate: toDate(scheduled.date),
+      gapFilling: entry.gapFilling,
+      score: entry.score,
+      sequence: index + 1
+    };
+  });
+
+  const points = tourVenues.map(tourVenue => ({
+    venueId: tourVenue.venue.id,
+    latitude: tourVenue.venue.latitude,
+    longitude: tourVenue.venue.longitude,
+    country: tourVenue.venue.country,
+    date: tourVenue.suggestedDate,
+    gapFilling: tourVenue.gapFilling
+  }));
+  const legs = routeLegs(points, context.travel);
+
+  return {
+    tourVenues,
+    gaps,
+    legs,
+    travelChecklist: travelChecklist(legs),
+    ...measureRoute(points, context.travel)
+  };
+}
+
+const venuePoint = (venue: VenueRecord) => ({
+  venueId: venue.id,
+  latitude: venue.latitude,
+  longitude: venue.longitude,
+  country: venue.country
+});
+
+/**
+ * Gap fillers whose expected ticket sales pay for the detour, most profitable first
+ */
+function rankByNetRevenue<T extends { venue: VenueRecord }>(
+  suggestions: T[],
+  startVenue: VenueRecord,
+  endVenue: VenueRecord,
+  context: OptimizationContext
+): T[] {
+  const start = venuePoint(startVenue);
+  const end = venuePoint(endVenue);
+  const direct = context.travel.leg(start, end).distanceKm;
+
+  return suggestions
+    .map(suggestion => {
+      const via = venuePoint(suggestion.venue);
+      const detourKm = context.travel.leg(start, via).distanceKm + context.travel.leg(via, end).distanceKm - direct;
+      const net = expectedDraw(suggestion.venue, context.artist?.popularity) * DEFAULT_TICKET_PRICE -
+        detourKm * context.rates.fuelCostPerKm;
+      return { suggestion, net };
+    })
+    .filter(ranked => ranked.net > 0)
+    .sort((a, b) => b.net - a.net)
+    .map(ranked => ranked.suggestion);
+}
+
+function describeViolations(count: number): string {
+  return count > 0 ? ` ${count} scheduling constraints could not be met.` : '';
+}
+
+/**
+ * Standard strategy: sequence and date the tour's venues with the routing solver
+ */
+const standardStrategy: OptimizationStrategy = {
+  name: 'standard',
+  description: 'Sequence and date the tour venues with the routing solver',
+  async optimize(context, options) {
+    const { problem, solverOptions } = createRoutingProblem(context, options);
+    const solution = solveTourRoute(problem, solverOptions);
+
+    return {
+      ...toOptimizedRoute(context, solution.sequence, routeEntries(context)),
+      strategy: 'standard',
+      solver: solution.solver,
+      violations: solution.violations,
+      reasoning: `Sequenced with the ${solution.solver} solver (${options.optimizeFor ?? 'balanced'} goal) keeping confirmed dates.${
+        describeViolations(solution.violations.length)
+      }`
+    };
+  }
+};
+
+/**
+ * Enhanced strategy: the standard route, then the best nearby venue added to each
+ * break long enough for another show, as long as it breaks no scheduling rule
+ * For the revenue goal the best venue is the one adding the most net revenue. Venues
+ * breaching one of the artist's radius clauses are never suggested, and venues are only
+ * suggested on dates they can take.
+ */
+const enhancedStrategy: OptimizationStrategy = {
+  name: 'enhanced',
+  description: 'Standard routing plus venues suggested for long breaks between shows',
+  async optimize(context, options) {
+    const { problem, solverOptions } = createRoutingProblem(context, options);
+    const solution = solveTourRoute(problem, solverOptions);
+    const scheduleContext = createScheduleContext(problem, solverOptions);
+    const entries = routeEntries(context);
+
+    const tourVenueIds = new Set(context.stops.map(stop => stop.venueId));
+    const candidates = (await db.select().from(venues)
+      .where(and(isNotNull(venues.latitude), isNotNull(venues.longitude))))
+      .filter(venue => !tourVenueIds.has(venue.id));
+    const artistPreferences = { genres: context.artist?.genres ?? [] };
+    const clearOfRadiusClauses = (venue: VenueRecord, date: string) =>
+      clausesBreachedBy(context.bookings, venue, date).length === 0;
+    const { from, to } = availabilityWindow(context);
+    const candidateAvailability = await loadVenueAvailability(candidates.map(venue => venue.id), from, to);
+    const canPlay = (venue: VenueRecord, date: string) => isVenueAvailable(candidateAvailability.get(venue.id), date);
+
+    const stopsById = new Map(problem.stops.map(stop => [stop.id, stop]));
+    let route: SolverStop[] = solution.sequence.map(scheduled => stopsById.get(scheduled.stopId)!);
+    let schedule = scheduleRoute(route, scheduleContext);
+    const gaps: OptimizedRoute['gaps'] = [];
+    const used = new Set<number>();
+
+    // Walk backwards so an insertion never shifts the breaks still to be visited
+    for (let i = schedule.sequence.length - 1; i > 0; i--) {
+      const before = schedule.sequence[i - 1];
+      const after = schedule.sequence[i];
+      const days = daysBetween(before.date, after.date);
+      if (days < 2 * scheduleContext.minGapDays) continue;
+
+      const startVenue = entries.get(before.stopId)!.venue;
+      const endVenue = entries.get(after.stopId)!.venue;
+      const suggestions = findImprovedVenuesForGap(
+        startVenue,
+        endVenue,
+        toDate(before.date),
+        toDate(after.date),
+        candidates.filter(venue => !used.has(venue.id)),
+        artistPreferences,
+        clearOfRadiusClauses,
+        canPlay
+      );
+
+      const ranked = options.optimizeFor === 'revenue'
+        ? rankByNetRevenue(suggestions, startVenue, endVenue, context)
+        : suggestions;
+      for (const suggestion of ranked) {
+        const filler: SolverStop = {
+          id: gapFillerId(suggestion.venue.id),
+          latitude: suggestion.venue.latitude,
+          longitude: suggestion.venue.longitude,
+          country: suggestion.venue.country,
+          preferredDate: suggestion.suggestedDate,
+          canPlay: date => canPlay(suggestion.venue, date)
+        };
+        const candidateRoute = [...route.slice(0, i), filler, ...route.slice(i)];
+        const candidateSchedule = scheduleRoute(candidateRoute, scheduleContext);
+        if (candidateSchedule.violations.length > schedule.violations.length) continue;
+
+        route = candidateRoute;
+        schedule = candidateSchedule;
+        used.add(suggestion.venue.id);
+        entries.set(filler.id, { venue: suggestion.venue, gapFilling: true, score: suggestion.score });
+        break;
+      }
+
+      gaps.unshift({
+        startDate: toDate(before.date),
+        endDate: toDate(after.date),
+        daysBetween: days,
+        startVenueId: startVenue.id,
+        endVenueId: endVenue.id,
+        potentialVenues: suggestions.map(suggestion => suggestion.venue)
+      });
+    }
+
+    return {
+      ...toOptimizedRoute(context, schedule.sequence, entries, gaps),
+      strategy: 'enhanced',
+      solver: solution.solver,
+      violations: schedule.violations,
+      reasoning: `Sequenced with the ${solution.solver} solver and filled ${used.size} of ${gaps.length} long breaks with nearby venues.${
+        describeViolations(schedule.violations.length)
+      }`
+    };
+  }
+};
+
+// Parse the first JSON object in a model reply, with or without a code fence
+function parseJsonObject(text: string): any {
+  const fenced = text.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+  const candidate = fenced ? fenced[1] : text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  return JSON.parse(candidate);
+}
+
+/**
+ * AI strategy: OpenAI proposes the order, the scheduler dates it under the same rules
+ * as the standard strategy. Throws when no usable order comes back so the service can
+ * fall back to the standard strategy.
+ */
+const aiStrategy: OptimizationStrategy = {
+  name: 'ai',
+  description: 'Venue order proposed by OpenAI, dated with the scheduling rules',
+  async optimize(context, options) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const describe = (stop: TourStop) =>
+      `- ID ${stop.id}: ${stop.venue.name} (${stop.venue.city}) - ${stop.date ?? 'No date'} - Coordinates: [${stop.venue.latitude}, ${stop.venue.longitude}]`;
+    const confirmed = context.stops.filter(stop => stop.status === 'confirmed');
+    const movable = context.stops.filter(stop => stop.status !== 'confirmed');
+
+    const prompt = `
+You are an AI assistant specializing in tour optimization for artists and venues.
+
+# TOUR DATA
+Tour Name: ${context.tour.name}
+Artist: ${context.artist?.name ?? 'Unknown Artist'}
+Genres: ${(context.artist?.genres ?? []).join(', ')}
+Start Date: ${context.tour.startDate}
+End Date: ${context.tour.endDate}
+
+# CONFIRMED VENUES (their dates cannot change)
+${confirmed.map(describe).join('\n')}
+
+# OTHER VENUES (can be reordered and redated)
+${movable.map(describe).join('\n')}
+
+# TASK
+Order ALL of these venues to minimize travel distance while keeping confirmed venues in date order.
+
+Respond with a JSON object only:
+{
+  "optimizedSequence": [venue IDs in tour order],
+  "suggestedDates": {"venue ID": "YYYY-MM-DD"},
+  "reasoning": "short explanation"
+}
+`;
+
+    const response = await openai.chat.completions.create({
+      model: 'gpt-3.5-turbo',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a specialized AI for optimizing music tours. Generate JSON responses based on venue and tour data.'
+        },
+        { role: 'user', content: prompt }
+      ],
+      temperature: 0.2
+    });
+
+    const suggestion = parseJsonObject(response.choices[0]?.message?.content || '');
+    const sequence: number[] = Array.isArray(suggestion.optimizedSequence) ? suggestion.optimizedSequence.map(Number) : [];
+    const suggestedDates: Record<string, string> = suggestion.suggestedDates ?? {};
+
+    const { problem, solverOptions } = createRoutingProblem(context, options);
+    const stopsById = new Map(problem.stops.map(stop => [stop.id, stop]));
+
+    if (sequence.length !== stopsById.size || new Set(sequence).size !== sequence.length ||
+        !sequence.every(id => stopsById.has(id))) {
+      throw new Error('AI response did not order every tour venue exactly once');
+    }
+
+    const route = sequence.map(id => {
+      const stop = stopsById.get(id)!;
+      const date = suggestedDates[String(id)];
+      return !stop.fixedDate && typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)
+        ? { ...stop, preferredDate: date }
+        : stop;
+    });
+
+    if (!keepsFixedOrder(route)) {
+      throw new Error('AI response moved confirmed venues out of date order');
+    }
+
+    const schedule = scheduleRoute(route, createScheduleContext({ ...problem, stops: route }, solverOptions));
+
+    return {
+      ...toOptimizedRoute(context, schedule.sequence, routeEntries(context)),
+      strategy: 'ai',
+      solver: null,
+      violations: schedule.violations,
+      reasoning: `${suggestion.reasoning ?? 'Venue order suggested by AI.'}${describeViolations(schedule.violations.length)}`
+    };
+  }
+};
+
+export const optimizationStrategies: Record<OptimizationStrategyName, OptimizationStrategy> = {
+  standard: standardStrategy,
+  enhanced: enhancedStrategy,
+  ai: aiStrategy
+};
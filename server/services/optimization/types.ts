@@ -0,0 +1,191 @@
+import type {
+  artists,
+  users,
+  venues,
+  ArtistTourPreferences,
+  OptimizationRun,
+  Tour,
+  TourRoute,
+  TourSnapshotStop,
+  TourVenue
+} from '../../../shared/schema';
+import type { OptimizedRoute } from '../../../shared/utils/tour-optimizer';
+import type { OptimizationScoreBreakdown, TravelMatrix } from '../../../shared/utils/geo';
+import type { RevenueProjection, TourCostRates } from '../../../shared/utils/tour-finance';
+import type { Booking, RadiusConflict } from '../../../shared/utils/radius-clauses';
+import type { VenueAvailability } from '../../../shared/utils/venue-availability';
+import type { ConstraintViolation, SolverName } from '../../../shared/utils/tour-solver';
+
+/**
+ * Version of the optimization request/response contract, bumped on breaking changes
+ */
+export const OPTIMIZATION_API_VERSION = 1;
+
+export const optimizationStrategyNames = ['standard', 'enhanced', 'ai'] as const;
+export type OptimizationStrategyName = typeof optimizationStrategyNames[number];
+
+export const optimizationGoals = ['distance', 'time', 'balanced', 'revenue'] as const;
+export type OptimizationGoal = typeof optimizationGoals[number];
+
+type VenueRecord = typeof venues.$inferSelect;
+
+/**
+ * Options shared by every strategy; scheduling options override the artist's stored tour preferences
+ */
+export interface OptimizationOptions {
+  optimizeFor?: OptimizationGoal;
+  respectFixedDates?: boolean;
+  preferredDates?: Record<number, string>; // venueId -> YYYY-MM-DD
+  avoidDates?: string[];
+  minDaysBetweenShows?: number;
+  maxDaysBetweenShows?: number;
+  requiredDaysOff?: string[];
+  maxTravelDistancePerDay?: number;
+  solver?: SolverName;
+  seed?: number;
+}
+
+export interface OptimizationRequest {
+  strategy: OptimizationStrategyName;
+  options?: OptimizationOptions;
+}
+
+/**
+ * Optimized route for a tour
+ *
+ * `tourVenues` is in tour order. Venues already on the tour carry `tourVenueId`;
+ * venues suggested to fill a gap are marked `gapFilling`.
+ */
+export interface OptimizationResult extends OptimizedRoute {
+  version: typeof OPTIMIZATION_API_VERSION;
+  tourId: number;
+  // Optimization run the result is stored as; pass it back when applying
+  runId: number;
+  strategy: OptimizationStrategyName;
+  requestedStrategy: OptimizationStrategyName;
+  solver: SolverName | null;
+  // Metrics of the tour in its current order, for comparison
+  baseline: {
+    totalDistance: number;
+    totalTravelTime: number;
+    optimizationScore: number;
+  };
+  // Points each factor added to or took from optimizationScore
+  scoreBreakdown: OptimizationScoreBreakdown;
+  // Set for the revenue goal
+  revenue?: RevenueTradeoff;
+  violations: ConstraintViolation[];
+  // Radius clauses the route breaches or has breached by the artist's other bookings
+  radiusConflicts: RadiusConflict[];
+  reasoning: string;
+  // Why the requested strategy was replaced by the standard one
+  fallbackReason?: string;
+}
+
+/**
+ * Projected net revenue of an optimized route against the tour's current route
+ */
+export interface RevenueTradeoff {
+  projected: RevenueProjection;
+  baseline: RevenueProjection;
+  showsChange: number;
+  netChange: number;
+  distanceChange: number;
+  daysChange: number;
+  explanation: string;
+}
+
+/**
+ * A stop of a run's route to apply: a tour venue, or the venue of a gap filler that is
+ * added to the tour as a suggested venue
+ */
+export interface AppliedStop {
+  tourVenueId?: number;
+  venueId: number;
+}
+
+export interface ApplyOptimizationRequest {
+  runId: number;
+  // Stops of the run to apply, the whole route when left out; order and dates come from the run
+  stops?: AppliedStop[];
+}
+
+export type TourStop = TourVenue & { venue: VenueRecord };
+
+export interface AppliedOptimization {
+  tour: Tour;
+  tourVenues: TourStop[];
+  routes: TourRoute[];
+  // Run recording the change: the applied optimization or the rollback
+  run?: OptimizationRun;
+}
+
+/**
+ * Everything a strategy needs to know about the tour being optimized
+ */
+export interface OptimizationContext {
+  tour: Tour;
+  artist: typeof artists.$inferSelect | null;
+  preferences: ArtistTourPreferences | null;
+  // Tour venues that can be routed (not cancelled, with coordinates) in current tour order
+  stops: TourStop[];
+  // Distances and driving times between the stops
+  travel: TravelMatrix;
+  // Cost assumptions of the tour's budget, with defaults for unset rates
+  rates: TourCostRates;
+  // The artist's events and tour venues on every tour, with their radius clauses
+  bookings: Booking[];
+  // Availability of the tour's venues over availabilityWindow(context)
+  availability: Map<number, VenueAvailability>;
+}
+
+/**
+ * What a strategy produces; the service adds the contract envelope
+ */
+export type StrategyResult = Omit<OptimizationResult, 'version' | 'tourId' | 'runId' | 'requestedStrategy' | 'baseline' | 'revenue' | 'radiusConflicts'>;
+
+/**
+ * A result as stored with its optimization run
+ */
+export type StoredOptimizationResult = Omit<OptimizationResult, 'runId'>;
+
+/**
+ * A stop of the route a run proposed or restored; gap fillers are not tour venues yet
+ */
+export type RunStop = Omit<TourSnapshotStop, 'tourVenueId'> & { tourVenueId: number | null };
+
+/**
+ * An optimization run without its stored result, as listed in a tour's history
+ */
+export type OptimizationRunSummary = Omit<OptimizationRun, 'result' | 'inputSnapshot'> & {
+  appliedBy: Pick<typeof users.$inferSelect, 'id' | 'name' | 'username'> | null;
+};
+
+export interface RunStopChange {
+  venueId: number;
+  venueName: string;
+  tourVenueId: number | null;
+  type: 'added' | 'removed' | 'changed' | 'unchanged';
+  from: { position: number; date: string | null } | null;
+  to: { position: number; date: string | null } | null;
+  positionChanged: boolean;
+  dateChanged: boolean;
+}
+
+/**
+ * Venue by venue difference between the routes of two runs
+ */
+export interface OptimizationRunDiff {
+  from: { run: OptimizationRunSummary; stops: RunStop[] };
+  to: { run: OptimizationRunSummary; stops: RunStop[] };
+  changes: RunStopChange[];
+  distanceChange: number;
+  travelTimeChange: number;
+  scoreChange: number;
+}
+
+export interface OptimizationStrategy {
+  name: OptimizationStrategyName;
+  description: string;
+  optimize(context: OptimizationContext, options: OptimizationOptions): Promise<StrategyResult>;
+}
@@ -0,0 +1,307 @@
+/**
+ * Outbound webhooks
+ *
+ * Notifies external systems of tour and booking changes: a tour venue's status changing, a
+ * tour being optimized and an inquiry arriving. Each event is posted to every enabled
+ * subscription whose filter includes it, signed with the subscription's secret (see
+ * shared/utils/outbound-webhooks.ts for the body and headers).
+ *
+ * Every post is a row in webhookDeliveries and is sent by a webhook-delivery job, so a
+ * subscriber that is down or answers with an error is retried with the job queue's
+ * backoff. Test events are sent straight away and not retried.
+ */
+import { randomBytes, randomUUID } from 'crypto';
+import axios from 'axios';
+import { and, desc, eq, getTableColumns, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  webhookDeliveries,
+  webhookSubscriptions,
+  type WebhookDelivery,
+  type WebhookSubscription
+} from '../../shared/schema';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TEST_EVENT,
+  subscribesTo,
+  truncateResponseBody,
+  type WebhookDeliveryStatus,
+  type WebhookEnvelope,
+  type WebhookEventType
+} from '../../shared/utils/outbound-webhooks';
+import { signWebhookPayload } from '../webhooks/signature';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DELIVERY_TIMEOUT = 1000 * 10; // 10 seconds
+
+/**
+ * A request that can't be carried out, such as redelivering a post that is still pending
+ */
+export class WebhookSubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSubscriptionError';
+  }
+}
+
+/**
+ * A post the subscriber didn't accept; thrown so the delivery job is retried
+ */
+export class WebhookDeliveryError extends Error {
+  constructor(deliveryId: number, reason: string) {
+    super(`Delivery ${deliveryId} failed: ${reason}`);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+export interface SubscriptionInput {
+  name: string;
+  url: string;
+  eventTypes: WebhookEventType[];
+  isEnabled?: boolean;
+}
+
+export interface SubscriptionChanges extends Partial<SubscriptionInput> {
+  // Replace the secret; receivers need the new one to check signatures
+  rotateSecret?: boolean;
+}
+
+function newSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * A subscription without its secret, which is only shown when it is created or rotated
+ */
+export type SubscriptionSummary = Omit<WebhookSubscription, 'secret'>;
+
+const { secret: _secret, ...summaryColumns } = getTableColumns(webhookSubscriptions);
+
+export async function listSubscriptions(): Promise<SubscriptionSummary[]> {
+  return db.select(summaryColumns).from(webhookSubscriptions).orderBy(desc(webhookSubscriptions.createdAt), desc(webhookSubscriptions.id));
+}
+
+export async function createSubscription(input: SubscriptionInput, createdById?: number): Promise<WebhookSubscription> {
+  const [subscription] = await db.insert(webhookSubscriptions).values({
+    ...input,
+    secret: newSecret(),
+    createdById: createdById ?? null
+  }).returning();
+  return subscription;
+}
+
+/**
+ * Change a subscription; the secret is only returned when it has been rotated
+ */
+export async function updateSubscription(
+  subscriptionId: number,
+  { rotateSecret, ...changes }: SubscriptionChanges
+): Promise<SubscriptionSummary | WebhookSubscription | null> {
+  const update = db.update(webhookSubscriptions)
+    .set({ ...changes, ...(rotateSecret ? { secret: newSecret() } : {}), updatedAt: new Date() })
+    .where(eq(webhookSubscriptions.id, subscriptionId));
+  const [subscription] = rotateSecret ? await update.returning() : await update.returning(summaryColumns);
+  return subscription ?? null;
+}
+
+/**
+ * Delete a subscription and its delivery log
+ */
+export async function deleteSubscription(subscriptionId: number): Promise<boolean> {
+  const deleted = await db.delete(webhookSubscriptions)
+    .where(eq(webhookSubscriptions.id, subscriptionId))
+    .returning({ id: webhookSubscriptions.id });
+  return deleted.length > 0;
+}
+
+/**
+ * A subscription's deliveries, most recent first
+ */
+export async function listDeliveries(subscriptionId: number, status?: WebhookDeliveryStatus, limit = 50): Promise<WebhookDelivery[]> {
+  const conditions: SQL[] = [eq(webhookDeliveries.subscriptionId, subscriptionId)];
+  if (status) conditions.push(eq(webhookDeliveries.status, status));
+
+  return db.select().from(webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+    .limit(limit);
+}
+
+// Queue the job that posts a delivery; the queue is only loaded once it is needed, as
+// its handlers import this module
+async function queueDelivery(tx: Transaction, deliveryId: number): Promise<WebhookDelivery> {
+  const { enqueueJob } = await import('./job-queue');
+  const job = await enqueueJob('webhook-delivery', { deliveryId }, {}, tx);
+
+  const [delivery] = await tx.update(webhookDeliveries)
+    .set({ jobId: job.id })
+    .where(eq(webhookDeliveries.id, deliveryId))
+    .returning();
+  return delivery;
+}
+
+/**
+ * Queue an event for every enabled subscription that takes it
+ * @returns How many subscriptions the event was queued for
+ */
+export async function queueWebhookEvent(type: WebhookEventType, data: Record<string, unknown>): Promise<number> {
+  const subscriptions = (await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.isEnabled, true)))
+    .filter(subscription => subscribesTo(subscription.eventTypes, type));
+  if (!subscriptions.length) return 0;
+
+  const envelope: WebhookEnvelope = { id: randomUUID(), type, createdAt: new Date().toISOString(), data };
+  await db.transaction(async (tx) => {
+    for (const subscription of subscriptions) {
+      const [delivery] = await tx.insert(webhookDeliveries).values({
+        subscriptionId: subscription.id,
+        eventType: type,
+        payload: { ...envelope }
+      }).returning();
+      await queueDelivery(tx, delivery.id);
+    }
+  });
+  return subscriptions.length;
+}
+
+/**
+ * Notify subscribers of a change without holding up the request that made it
+ * Failing to queue the event is logged, never thrown.
+ */
+export function publishWebhookEvent(type: WebhookEventType, data: Record<string, unknown>): void {
+  queueWebhookEvent(type, data).catch(error => {
+    console.error(`Error queueing ${type} webhooks:`, error);
+  });
+}
+
+/**
+ * Post a delivery once and record the outcome
+ * @param final Whether a failure is the last attempt, which marks the delivery failed
+ */
+async function attemptDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription, final: boolean): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const started = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await axios.post(subscription.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, subscription.secret),
+        [WEBHOOK_EVENT_HEADER]: delivery.eventType,
+        [WEBHOOK_DELIVERY_HEADER]: String(delivery.id)
+      },
+      timeout: DELIVERY_TIMEOUT,
+      maxRedirects: 0,
+      responseType: 'text',
+      transformResponse: (data) => data,
+      validateStatus: () => true
+    });
+    responseStatus = response.status;
+    responseBody = truncateResponseBody(String(response.data ?? ''));
+    if (response.status < 200 || response.status >= 300) {
+      error = `Responded with ${response.status}`;
+    }
+  } catch (requestError) {
+    error = requestError instanceof Error ? requestError.message : String(requestError);
+  }
+
+  const now = new Date();
+  const [attempted] = await db.update(webhookDeliveries)
+    .set({
+      status: error === null ? 'succeeded' : final ? 'failed' : 'pending',
+      attempts: delivery.attempts + 1,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - started,
+      lastAttemptAt: now,
+      deliveredAt: error === null ? now : null
+    })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning();
+
+  if (error === null) {
+    await db.update(webhookSubscriptions)
+      .set({ lastDeliveredAt: now })
+      .where(eq(webhookSubscriptions.id, subscription.id));
+  }
+  return attempted;
+}
+
+/**
+ * Post a queued delivery; run by the webhook-delivery job
+ * Throws WebhookDeliveryError when the subscriber doesn't accept it, so the job is retried.
+ * Deliveries for subscriptions that have since been disabled are failed without posting.
+ * @param final Whether this is the job's last attempt
+ */
+export async function runWebhookDelivery(deliveryId: number, final: boolean): Promise<WebhookDelivery | null> {
+  const [row] = await db.select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+    .from(webhookDeliveries)
+    .innerJoin(webhookSubscriptions, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+    .where(eq(webhookDeliveries.id, deliveryId));
+  if (!row) return null;
+
+  const { delivery, subscription } = row;
+  if (delivery.status !== 'pending') return delivery;
+
+  if (!subscription.isEnabled) {
+    const [skipped] = await db.update(webhookDeliveries)
+      .set({ status: 'failed', error: 'Subscription was disabled before delivery' })
+      .where(eq(webhookDeliveries.id, deliveryId))
+      .returning();
+    return skipped;
+  }
+
+  const attempted = await attemptDelivery(delivery, subscription, final);
+  if (attempted.status !== 'succeeded') {
+    throw new WebhookDeliveryError(deliveryId, attempted.error ?? 'Unknown error');
+  }
+  return attempted;
+}
+
+/**
+ * Post a test event to a subscription now, whatever its filter and whether or not it is enabled
+ * The outcome is returned rather than retried.
+ */
+export async function sendTestEvent(subscriptionId: number): Promise<WebhookDelivery | null> {
+  const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, subscriptionId));
+  if (!subscription) return null;
+
+  const envelope: WebhookEnvelope = {
+    id: randomUUID(),
+    type: WEBHOOK_TEST_EVENT,
+    createdAt: new Date().toISOString(),
+    data: { subscriptionId, message: `Test event for ${subscription.name}` }
+  };
+  const [delivery] = await db.insert(webhookDeliveries).values({
+    subscriptionId,
+    eventType: WEBHOOK_TEST_EVENT,
+    payload: { ...envelope }
+  }).returning();
+
+  return attemptDelivery(delivery, subscription, true);
+}
+
+/**
+ * Queue a finished delivery to be posted again, with the same body
+ */
+export async function redeliver(deliveryId: number): Promise<WebhookDelivery | null> {
+  const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, deliveryId));
+  if (!delivery) return null;
+
+  if (delivery.status === 'pending') {
+    throw new WebhookSubscriptionError(`Delivery ${deliveryId} is still pending`);
+  }
+
+  return db.transaction(async (tx) => {
+    await tx.update(webhookDeliveries)
+      .set({ status: 'pending', error: null, deliveredAt: null })
+      .where(eq(webhookDeliveries.id, deliveryId));
+    return queueDelivery(tx, deliveryId);
+  });
+}
@@ -0,0 +1,420 @@
+import { db } from '../db';
+import {
+  artists,
+  events,
+  predictions,
+  venueMembers,
+  venues,
+  venueTourPreferences,
+  type Prediction,
+  type VenueTourPreferences
+} from '../../shared/schema';
+import { and, asc, eq, gte, inArray, lte, ne } from 'drizzle-orm';
+import { calculateDistance } from '../../shared/utils/geo';
+import { getArtistGenres, getVenueGenres } from '../helpers/genre-utils';
+
+/**
+ * Points available to each scoring factor; they add up to a confidence of 100
+ */
+export const PREDICTION_WEIGHTS = {
+  distance: 40,
+  genre: 25,
+  capacity: 20,
+  preferences: 15
+};
+
+const DEFAULT_MAX_DETOUR_KM = 300;
+const MAX_GAP_DAYS = 10; // longer breaks usually mean the artist goes home
+const HORIZON_DAYS = 180;
+const MIN_CONFIDENCE = 50;
+const MAX_PREDICTIONS_PER_VENUE = 25;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * An upcoming show with the location of the venue it is played at
+ */
+export interface ArtistEventStop {
+  eventId: number;
+  artistId: number;
+  venueId: number;
+  date: string;
+  city: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+/**
+ * The venue predictions are generated for
+ */
+export interface PredictionVenue {
+  id: number;
+  city: string;
+  latitude: number;
+  longitude: number;
+  capacity: number | null;
+}
+
+/**
+ * Open dates between two consecutive shows that pass close to the venue
+ */
+export interface RoutingGap {
+  before: ArtistEventStop;
+  after: ArtistEventStop;
+  suggestedDate: string;
+  detourKm: number;
+}
+
+interface GenreRef {
+  id: number;
+  slug: string;
+  parentId: number | null;
+}
+
+interface ArtistProfile {
+  id: number;
+  popularity: number | null;
+  genres: GenreRef[];
+  genreSlugs: string[];
+}
+
+interface VenueContext {
+  venue: PredictionVenue;
+  genres: GenreRef[];
+  preferences: VenueTourPreferences | undefined;
+}
+
+export interface PredictionJobResult {
+  venueId: number;
+  written: number;
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+// Genre enum values use underscores where genre slugs use hyphens
+function normalizeGenre(value: string): string {
+  return value.toLowerCase().replace(/-/g, '_');
+}
+
+/**
+ * Find the breaks in an artist's schedule that a venue could fill
+ *
+ * A gap qualifies when there is at least one open date between two consecutive shows,
+ * the break is no longer than MAX_GAP_DAYS and playing the venue adds at most
+ * maxDetourKm to the drive. The suggested date splits the open days in proportion
+ * to the distance from each show.
+ * @param stops The artist's upcoming shows
+ * @param venue The venue to fit into the schedule
+ * @param options Detour limit and the first date the venue can take
+ */
+export function findRoutingGaps(
+  stops: ArtistEventStop[],
+  venue: PredictionVenue,
+  options: { maxDetourKm: number; earliestDate: string }
+): RoutingGap[] {
+  const ordered = [...stops].sort((a, b) => a.date.localeCompare(b.date));
+  const gaps: RoutingGap[] = [];
+
+  for (let i = 0; i < ordered.length - 1; i++) {
+    const before = ordered[i];
+    const after = ordered[i + 1];
+    const gapDays = daysBetween(before.date, after.date);
+
+    if (gapDays < 2 || gapDays > MAX_GAP_DAYS) continue;
+    if (before.venueId === venue.id || after.venueId === venue.id) continue;
+    if (before.latitude == null || before.longitude == null || after.latitude == null || after.longitude == null) continue;
+
+    const toVenue = calculateDistance(before.latitude, before.longitude, venue.latitude, venue.longitude);
+    const fromVenue = calculateDistance(venue.latitude, venue.longitude, after.latitude, after.longitude);
+    const direct = calculateDistance(before.latitude, before.longitude, after.latitude, after.longitude);
+    const detourKm = Math.max(0, toVenue + fromVenue - direct);
+
+    if (detourKm > options.maxDetourKm) continue;
+
+    const share = toVenue + fromVenue > 0 ? toVenue / (toVenue + fromVenue) : 0.5;
+    const offset = Math.min(gapDays - 1, Math.max(1, Math.round(share * gapDays)));
+    let suggestedDate = addDays(before.date, offset);
+
+    if (suggestedDate < options.earliestDate) {
+      // Fall back to the first open date the venue still has time to promote
+      if (options.earliestDate >= after.date) continue;
+      suggestedDate = options.earliestDate;
+    }
+
+    gaps.push({ before, after, suggestedDate, detourKm });
+  }
+
+  return gaps;
+}
+
+/**
+ * 1 when the venue is already on the way, falling to 0 at the detour limit
+ */
+export function scoreDistance(detourKm: number, maxDetourKm: number): number {
+  if (maxDetourKm <= 0) return detourKm === 0 ? 1 : 0;
+  return Math.max(0, 1 - detourKm / maxDetourKm);
+}
+
+/**
+ * 1 for a shared genre, 0.6 for related genres (same parent or parent and child), otherwise 0
+ * Neutral 0.5 when either side has no genres on record
+ */
+export function scoreGenreOverlap(artistGenres: GenreRef[], venueGenres: GenreRef[]): number {
+  if (artistGenres.length === 0 || venueGenres.length === 0) return 0.5;
+
+  const venueIds = new Set(venueGenres.map(genre => genre.id));
+  if (artistGenres.some(genre => venueIds.has(genre.id))) return 1;
+
+  const family = (genre: GenreRef) => genre.parentId ?? genre.id;
+  const venueFamilies = new Set(venueGenres.map(family));
+  if (artistGenres.some(genre => venueFamilies.has(family(genre)))) return 0.6;
+
+  return 0;
+}
+
+/**
+ * How well the room suits the artist's draw
+ * Popularity (0-100) maps to an expected room size that doubles every 12 points;
+ * the score drops to 0 once the venue is eight times too big or too small
+ */
+export function scoreCapacityFit(capacity: number | null, popularity: number | null): number {
+  if (!capacity || popularity == null) return 0.5;
+
+  const expectedCapacity = 100 * Math.pow(2, popularity / 12);
+  const mismatch = Math.abs(Math.log2(capacity / expectedCapacity));
+  return Math.max(0, 1 - mismatch / 3);
+}
+
+/**
+ * Share of the venue's tour preferences the artist meets
+ * Neutral 0.5 when the venue has not set any applicable preference
+ */
+export function scorePreferences(
+  preferences: Pick<VenueTourPreferences, 'preferredGenres' | 'minimumArtistPopularity'> | undefined,
+  artist: { popularity: number | null; genreSlugs: string[] }
+): number {
+  const checks: boolean[] = [];
+
+  if (preferences?.minimumArtistPopularity != null && artist.popularity != null) {
+    checks.push(artist.popularity >= preferences.minimumArtistPopularity);
+  }
+
+  if (preferences?.preferredGenres?.length) {
+    const preferred = new Set(preferences.preferredGenres.map(normalizeGenre));
+    checks.push(artist.genreSlugs.some(slug => preferred.has(slug)));
+  }
+
+  if (checks.length === 0) return 0.5;
+  return checks.filter(Boolean).length / checks.length;
+}
+
+function describeGap(gap: RoutingGap, venue: PredictionVenue): string {
+  return `Passing through ${venue.city} - Between ${gap.before.city} (${gap.before.date}) and ` +
+    `${gap.after.city} (${gap.after.date}), ${Math.round(gap.detourKm)} km off route`;
+}
+
+/**
+ * Score every qualifying gap for a venue and keep the best one per artist
+ */
+function rankPredictions(
+  context: VenueContext,
+  stopsByArtist: Map<number, ArtistEventStop[]>,
+  profiles: Map<number, ArtistProfile>,
+  earliestDate: string
+) {
+  const { venue, genres, preferences } = context;
+  const maxDetourKm = preferences?.participationRadius ?? DEFAULT_MAX_DETOUR_KM;
+  const ranked: Array<Omit<Prediction, 'id' | 'createdAt' | 'respondedById' | 'respondedAt'>> = [];
+
+  for (const [artistId, stops] of stopsByArtist) {
+    const profile = profiles.get(artistId);
+    // Artists who already play the venue in this window do not need a prediction
+    if (!profile || stops.some(stop => stop.venueId === venue.id)) continue;
+
+    let best: { gap: RoutingGap; confidence: number } | null = null;
+
+    for (const gap of findRoutingGaps(stops, venue, { maxDetourKm, earliestDate })) {
+      const confidence = Math.round(
+        PREDICTION_WEIGHTS.distance * scoreDistance(gap.detourKm, maxDetourKm) +
+        PREDICTION_WEIGHTS.genre * scoreGenreOverlap(profile.genres, genres) +
+        PREDICTION_WEIGHTS.capacity * scoreCapacityFit(venue.capacity, profile.popularity) +
+        PREDICTION_WEIGHTS.preferences * scorePreferences(preferences, profile)
+      );
+
+      if (!best || confidence > best.confidence) {
+        best = { gap, confidence };
+      }
+    }
+
+    if (best && best.confidence >= MIN_CONFIDENCE) {
+      ranked.push({
+        artistId,
+        venueId: venue.id,
+        suggestedDate: best.gap.suggestedDate,
+        confidenceScore: best.confidence,
+        status: 'pending',
+        reasoning: describeGap(best.gap, venue),
+        gapBeforeEventId: best.gap.before.eventId,
+        gapAfterEventId: best.gap.after.eventId
+      });
+    }
+  }
+
+  return ranked
+    .sort((a, b) => b.confidenceScore - a.confidenceScore || a.suggestedDate.localeCompare(b.suggestedDate))
+    .slice(0, MAX_PREDICTIONS_PER_VENUE);
+}
+
+async function loadUpcomingStops(from: string, to: string): Promise<Map<number, ArtistEventStop[]>> {
+  const rows = await db
+    .select({
+      eventId: events.id,
+      artistId: events.artistId,
+      venueId: events.venueId,
+      date: events.date,
+      city: venues.city,
+      latitude: venues.latitude,
+      longitude: venues.longitude
+    })
+    .from(events)
+    .innerJoin(venues, eq(events.venueId, venues.id))
+    .where(and(gte(events.date, from), lte(events.date, to), ne(events.status, 'cancelled')))
+    .orderBy(asc(events.artistId), asc(events.date));
+
+  const stopsByArtist = new Map<number, ArtistEventStop[]>();
+  for (const row of rows) {
+    stopsByArtist.set(row.artistId, [...(stopsByArtist.get(row.artistId) || []), row]);
+  }
+  return stopsByArtist;
+}
+
+async function loadArtistProfiles(artistIds: number[]): Promise<Map<number, ArtistProfile>> {
+  const profiles = new Map<number, ArtistProfile>();
+  if (artistIds.length === 0) return profiles;
+
+  const rows = await db
+    .select({ id: artists.id, popularity: artists.popularity, genres: artists.genres })
+    .from(artists)
+    .where(inArray(artists.id, artistIds));
+
+  for (const row of rows) {
+    const genres = await getArtistGenres(row.id);
+    const genreSlugs = new Set([
+      ...genres.map(genre => normalizeGenre(genre.slug)),
+      ...(row.genres || []).map(normalizeGenre)
+    ]);
+
+    profiles.set(row.id, {
+      id: row.id,
+      popularity: row.popularity,
+      genres,
+      genreSlugs: Array.from(genreSlugs)
+    });
+  }
+
+  return profiles;
+}
+
+async function loadVenueContext(venueId: number): Promise<VenueContext | null> {
+  const venue = await db.query.venues.findFirst({
+    where: eq(venues.id, venueId),
+    columns: { id: true, city: true, latitude: true, longitude: true, capacity: true }
+  });
+
+  if (!venue || venue.latitude == null || venue.longitude == null) {
+    return null;
+  }
+
+  const [genres, preferences] = await Promise.all([
+    getVenueGenres(venueId),
+    db.query.venueTourPreferences.findFirst({ where: eq(venueTourPreferences.venueId, venueId) })
+  ]);
+
+  return {
+    venue: { ...venue, latitude: venue.latitude, longitude: venue.longitude },
+    genres,
+    preferences
+  };
+}
+
+/**
+ * Replace a venue's pending predictions with a freshly ranked set
+ * Predictions a manager already accepted or dismissed are kept, and the same
+ * routing gap is not predicted again for that artist
+ */
+async function writePredictions(
+  venueId: number,
+  ranked: ReturnType<typeof rankPredictions>
+): Promise<Prediction[]> {
+  return db.transaction(async (tx) => {
+    const reviewed = await tx
+      .select({
+        artistId: predictions.artistId,
+        gapBeforeEventId: predictions.gapBeforeEventId,
+        gapAfterEventId: predictions.gapAfterEventId
+      })
+      .from(predictions)
+      .where(and(eq(predictions.venueId, venueId), ne(predictions.status, 'pending')));
+
+    const gapKey = (p: { artistId: number; gapBeforeEventId: number | null; gapAfterEventId: number | null }) =>
+      `${p.artistId}:${p.gapBeforeEventId}:${p.gapAfterEventId}`;
+    const reviewedKeys = new Set(reviewed.map(gapKey));
+
+    await tx
+      .delete(predictions)
+      .where(and(eq(predictions.venueId, venueId), eq(predictions.status, 'pending')));
+
+    const fresh = ranked.filter(prediction => !reviewedKeys.has(gapKey(prediction)));
+    if (fresh.length === 0) {
+      return [];
+    }
+
+    return tx.insert(predictions).values(fresh).returning();
+  });
+}
+
+/**
+ * Prediction Job
+ *
+ * Scans every artist's upcoming events for breaks that pass near a venue, scores how
+ * likely a booking is and writes the ranked results to the predictions table.
+ * @param venueIds Venues to predict for (defaults to every venue with members)
+ * @param today First date to consider, as YYYY-MM-DD (defaults to the current date)
+ */
+export async function runPredictionJob(venueIds?: number[], today?: string): Promise<PredictionJobResult[]> {
+  const from = today ?? new Date().toISOString().slice(0, 10);
+  const targetVenueIds = venueIds ?? (
+    await db.selectDistinct({ venueId: venueMembers.venueId }).from(venueMembers)
+  ).map(row => row.venueId);
+
+  if (targetVenueIds.length === 0) {
+    return [];
+  }
+
+  const stopsByArtist = await loadUpcomingStops(from, addDays(from, HORIZON_DAYS));
+  const profiles = await loadArtistProfiles(Array.from(stopsByArtist.keys()));
+  const results: PredictionJobResult[] = [];
+
+  for (const venueId of targetVenueIds) {
+    const context = await loadVenueContext(venueId);
+    if (!context) {
+      // Distances cannot be scored without coordinates
+      results.push({ venueId, written: 0 });
+      continue;
+    }
+
+    const earliestDate = addDays(from, context.preferences?.preferredNoticeTime ?? 1);
+    const ranked = rankPredictions(context, stopsByArtist, profiles, earliestDate);
+    const written = await writePredictions(venueId, ranked);
+    results.push({ venueId, written: written.length });
+  }
+
+  return results;
+}
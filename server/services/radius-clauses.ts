@@ -0,0 +1,171 @@
+/**
+ * Radius clauses and market conflicts
+ *
+ * Clauses are kept per booking (tour venue or event) in radiusClauses. Conflicts are
+ * checked across all of the artist's bookings: its events and the venues of every one
+ * of its tours, so a show on one tour can breach a clause signed for another.
+ */
+import { db } from '../db';
+import { optimizationCache } from '../cache/optimization-cache';
+import { and, eq, inArray, isNull, ne, or } from 'drizzle-orm';
+import {
+  events,
+  radiusClauses,
+  tours,
+  tourVenues,
+  venues,
+  type RadiusClause,
+  type Tour,
+  type TourVenue
+} from '../../shared/schema';
+import { findRadiusConflicts, type Booking, type RadiusConflict } from '../../shared/utils/radius-clauses';
+
+export type RadiusClauseInput = Pick<RadiusClause, 'radiusKm' | 'daysBefore' | 'daysAfter'> &
+  Partial<Pick<RadiusClause, 'notes'>>;
+
+export type BookingRef = { tourVenueId: number } | { eventId: number };
+
+type WithClauses<T> = T & { venue: typeof venues.$inferSelect; radiusClauses: RadiusClause[] };
+
+const clauseTerms = ({ id, radiusKm, daysBefore, daysAfter }: RadiusClause) =>
+  ({ id, radiusKm, daysBefore, daysAfter });
+
+/**
+ * Every booking of an artist that is not cancelled, with its radius clauses
+ */
+export async function loadArtistBookings(artistId: number): Promise<Booking[]> {
+  const artistTours = await db.select({ id: tours.id }).from(tours).where(eq(tours.artistId, artistId));
+  const tourIds = artistTours.map(tour => tour.id);
+
+  const [artistEvents, stops] = await Promise.all([
+    db.query.events.findMany({
+      where: and(eq(events.artistId, artistId), or(isNull(events.status), ne(events.status, 'cancelled'))),
+      with: { venue: true, radiusClauses: true }
+    }),
+    tourIds.length > 0
+      ? db.query.tourVenues.findMany({
+          where: and(
+            inArray(tourVenues.tourId, tourIds),
+            or(isNull(tourVenues.status), ne(tourVenues.status, 'cancelled'))
+          ),
+          with: { venue: true, radiusClauses: true }
+        })
+      : Promise.resolve([])
+  ]);
+
+  return [
+    ...(stops as WithClauses<TourVenue>[]).map((stop): Booking => ({
+      kind: 'tourVenue',
+      id: stop.id,
+      tourId: stop.tourId,
+      venueId: stop.venueId,
+      venueName: stop.venue.name,
+      latitude: stop.venue.latitude,
+      longitude: stop.venue.longitude,
+      date: stop.date,
+      clauses: stop.radiusClauses.map(clauseTerms)
+    })),
+    ...(artistEvents as WithClauses<typeof events.$inferSelect>[]).map((event): Booking => ({
+      kind: 'event',
+      id: event.id,
+      tourId: null,
+      venueId: event.venueId,
+      venueName: event.venue.name,
+      latitude: event.venue.latitude,
+      longitude: event.venue.longitude,
+      date: event.date,
+      clauses: event.radiusClauses.map(clauseTerms)
+    }))
+  ];
+}
+
+/**
+ * Radius clauses an artist's bookings breach
+ */
+export async function findArtistRadiusConflicts(artistId: number): Promise<RadiusConflict[]> {
+  return findRadiusConflicts(await loadArtistBookings(artistId));
+}
+
+/**
+ * Radius clause conflicts involving a tour's venues, with the artist's other bookings
+ * @returns null when the tour does not exist
+ */
+export async function findTourRadiusConflicts(tourId: number): Promise<RadiusConflict[] | null> {
+  const tour = await db.query.tours.findFirst({ where: eq(tours.id, tourId) });
+  if (!tour) return null;
+
+  const conflicts = await findArtistRadiusConflicts(tour.artistId);
+  return conflicts.filter(conflict =>
+    conflict.protectedBooking.tourId === tourId || conflict.conflictingBooking.tourId === tourId
+  );
+}
+
+const bookingCondition = (booking: BookingRef) => 'tourVenueId' in booking
+  ? eq(radiusClauses.tourVenueId, booking.tourVenueId)
+  : eq(radiusClauses.eventId, booking.eventId);
+
+/**
+ * Artist playing a booking, or null when the booking does not exist
+ */
+async function bookingArtistId(booking: BookingRef): Promise<number | null> {
+  if ('tourVenueId' in booking) {
+    const stop = await db.query.tourVenues.findFirst({
+      where: eq(tourVenues.id, booking.tourVenueId),
+      with: { tour: true }
+    });
+    return (stop as (TourVenue & { tour: Tour }) | undefined)?.tour.artistId ?? null;
+  }
+
+  const event = await db.query.events.findFirst({ where: eq(events.id, booking.eventId) });
+  return event?.artistId ?? null;
+}
+
+// A clause can conflict with a show on any of the artist's tours, so none of their cached optimizations hold
+async function invalidateArtistOptimizations(artistId: number) {
+  const artistTours = await db.select({ id: tours.id }).from(tours).where(eq(tours.artistId, artistId));
+  artistTours.forEach(tour => optimizationCache.invalidate(tour.id));
+}
+
+/**
+ * Radius clauses of a booking
+ * @returns null when the booking does not exist
+ */
+export async function listRadiusClauses(booking: BookingRef): Promise<RadiusClause[] | null> {
+  if (await bookingArtistId(booking) == null) return null;
+  return db.select().from(radiusClauses).where(bookingCondition(booking));
+}
+
+/**
+ * Add a radius clause to a booking
+ * @returns null when the booking does not exist
+ */
+export async function createRadiusClause(
+  booking: BookingRef,
+  input: RadiusClauseInput,
+  userId?: number
+): Promise<RadiusClause | null> {
+  const artistId = await bookingArtistId(booking);
+  if (artistId == null) return null;
+
+  const [clause] = await db
+    .insert(radiusClauses)
+    .values({ ...booking, ...input, createdById: userId ?? null })
+    .returning();
+  await invalidateArtistOptimizations(artistId);
+  return clause;
+}
+
+/**
+ * Remove a radius clause
+ * @returns false when the clause does not exist
+ */
+export async function deleteRadiusClause(clauseId: number): Promise<boolean> {
+  const [deleted] = await db.delete(radiusClauses).where(eq(radiusClauses.id, clauseId)).returning();
+  if (!deleted) return false;
+
+  const artistId = await bookingArtistId(
+    deleted.tourVenueId != null ? { tourVenueId: deleted.tourVenueId } : { eventId: deleted.eventId! }
+  );
+  if (artistId != null) await invalidateArtistOptimizations(artistId);
+  return true;
+}
@@ -0,0 +1,28 @@
+/**
+ * Source rate limits
+ *
+ * Spaces out calls to external APIs so that everything in this process calling the same
+ * source, whether a queued job or a script, together stays under the source's limit.
+ * Limits come from shared/utils/job-queue.ts, overridden by JOB_SOURCE_LIMITS.
+ */
+import { setTimeout } from 'timers/promises';
+import { loadSourceLimits, sourceLimit } from '../../shared/utils/job-queue';
+
+export const sourceLimits = loadSourceLimits(process.env);
+
+// When each source may next be called
+const nextCallAt = new Map<string, number>();
+
+/**
+ * Wait until the source may be called again, and hold the following slot for this call
+ */
+export async function throttle(source: string): Promise<void> {
+  const { minIntervalMs } = sourceLimit(sourceLimits, source);
+  const now = Date.now();
+  const callAt = Math.max(now, nextCallAt.get(source) ?? 0);
+  nextCallAt.set(source, callAt + minIntervalMs);
+
+  if (callAt > now) {
+    await setTimeout(callAt - now);
+  }
+}
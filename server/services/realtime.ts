@@ -0,0 +1,217 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import type { Request, RequestHandler, Response } from 'express';
+import type { Session, SessionData } from 'express-session';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { DEMO_USER, isDemoMode } from '../middleware/auth-middleware';
+import { sessionMiddleware } from '../middleware/session-middleware';
+
+export const REALTIME_PATH = '/ws';
+
+const HEARTBEAT_INTERVAL = 1000 * 30; // 30 seconds
+
+// An upgrade request once the session middleware has run over it
+type UpgradeRequest = IncomingMessage & { session: Session & Partial<SessionData> };
+
+/**
+ * Events pushed to browsers over the realtime socket
+ */
+export type RealtimeEvent =
+  | { type: 'message.created'; conversationId: number; messageId: number; senderId: number }
+  | { type: 'conversation.read'; conversationId: number; userId: number; lastReadAt: string }
+  | {
+      type: 'tourVenue.statusChanged';
+      tourId: number;
+      tourVenueId: number;
+      venueId: number;
+      previousStatus: string | null;
+      status: string;
+    }
+  | { type: 'tour.optimized'; tourId: number; source: string; applied: boolean }
+  | { type: 'tour.venuesAdded'; tourId: number; tourVenueIds: number[] }
+  | {
+      type: 'venueHold.changed';
+      tourId: number;
+      tourVenueId: number;
+      holdId: number;
+      transition: string;
+      rank: number | null;
+    };
+
+/**
+ * Messages a browser may send after connecting
+ */
+interface ClientMessage {
+  type: 'subscribe' | 'unsubscribe';
+  channel: string;
+}
+
+interface ClientState {
+  userId: number;
+  channels: Set<string>;
+  isAlive: boolean;
+}
+
+/**
+ * Channel carrying status changes and optimization results for a tour
+ */
+export function tourChannel(tourId: number): string {
+  return `tour:${tourId}`;
+}
+
+// Tours are readable by every signed-in user, so tour channels are the only ones clients may join
+function isSubscribableChannel(channel: unknown): channel is string {
+  return typeof channel === 'string' && /^tour:\d+$/.test(channel);
+}
+
+/**
+ * Realtime Hub
+ *
+ * Pushes events to connected browsers over a WebSocket attached to the HTTP server.
+ * Connections are authenticated with the express-session cookie; every connection
+ * receives events addressed to its user and to the channels it has subscribed to.
+ */
+class RealtimeHub {
+  private wss: WebSocketServer | null = null;
+  private clients: Map<WebSocket, ClientState> = new Map();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  /**
+   * Accept WebSocket upgrades on REALTIME_PATH
+   * Other upgrade requests (such as Vite HMR) are left for their own handlers
+   * @param server The HTTP server created in registerRoutes
+   * @param session Session middleware used to identify the user (defaults to the app's)
+   */
+  attach(server: Server, session: RequestHandler = sessionMiddleware): void {
+    if (this.wss) {
+      return;
+    }
+
+    const wss = new WebSocketServer({ noServer: true });
+    this.wss = wss;
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(req.url || '/', 'http://localhost');
+      if (pathname !== REALTIME_PATH) {
+        return;
+      }
+
+      session(req as Request, {} as Response, () => {
+        const user = (req as UpgradeRequest).session?.user ?? (isDemoMode() ? DEMO_USER : undefined);
+
+        if (!user) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => this.register(ws, user.id));
+      });
+    });
+
+    this.heartbeat = setInterval(() => this.checkConnections(), HEARTBEAT_INTERVAL);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Push an event to every connection belonging to the given users
+   */
+  publishToUsers(userIds: number[], event: RealtimeEvent): void {
+    const recipients = new Set(userIds);
+    this.send(event, (state) => recipients.has(state.userId));
+  }
+
+  /**
+   * Push an event to every connection subscribed to a channel
+   */
+  publishToChannel(channel: string, event: RealtimeEvent): void {
+    this.send(event, (state) => state.channels.has(channel), channel);
+  }
+
+  /**
+   * Drop all connections and stop accepting new ones
+   */
+  close(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    for (const ws of this.clients.keys()) {
+      ws.terminate();
+    }
+    this.clients.clear();
+
+    this.wss?.close();
+    this.wss = null;
+  }
+
+  private register(ws: WebSocket, userId: number): void {
+    const state: ClientState = { userId, channels: new Set(), isAlive: true };
+    this.clients.set(ws, state);
+
+    ws.on('pong', () => {
+      state.isAlive = true;
+    });
+
+    ws.on('message', (data: RawData) => this.handleClientMessage(ws, state, data));
+
+    ws.on('close', () => {
+      this.clients.delete(ws);
+    });
+
+    ws.send(JSON.stringify({ type: 'connected', userId }));
+  }
+
+  private handleClientMessage(ws: WebSocket, state: ClientState, data: RawData): void {
+    let message: ClientMessage;
+
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      ws.send(JSON.stringify({ type: 'error', message: 'Invalid JSON' }));
+      return;
+    }
+
+    if (!isSubscribableChannel(message?.channel)) {
+      ws.send(JSON.stringify({ type: 'error', message: 'Unknown channel' }));
+      return;
+    }
+
+    if (message.type === 'subscribe') {
+      state.channels.add(message.channel);
+      ws.send(JSON.stringify({ type: 'subscribed', channel: message.channel }));
+    } else if (message.type === 'unsubscribe') {
+      state.channels.delete(message.channel);
+      ws.send(JSON.stringify({ type: 'unsubscribed', channel: message.channel }));
+    } else {
+      ws.send(JSON.stringify({ type: 'error', message: 'Unknown message type' }));
+    }
+  }
+
+  private send(event: RealtimeEvent, matches: (state: ClientState) => boolean, channel?: string): void {
+    const payload = JSON.stringify(channel ? { ...event, channel } : event);
+
+    for (const [ws, state] of this.clients) {
+      if (ws.readyState === WebSocket.OPEN && matches(state)) {
+        ws.send(payload);
+      }
+    }
+  }
+
+  // Terminate connections that did not answer the previous ping
+  private checkConnections(): void {
+    for (const [ws, state] of this.clients) {
+      if (!state.isAlive) {
+        ws.terminate();
+        this.clients.delete(ws);
+        continue;
+      }
+
+      state.isAlive = false;
+      ws.ping();
+    }
+  }
+}
+
+export const realtime = new RealtimeHub();
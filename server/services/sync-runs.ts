@@ -0,0 +1,280 @@
+/**
+ * Sync runs
+ *
+ * The record every collector keeps of a run: which source it read, what it was about, how
+ * many items it created, updated, left unchanged, skipped or failed on, how long it took,
+ * and an error record for each item that failed. Runs are written to syncRuns and
+ * syncRunErrors and browsed from the admin data page.
+ *
+ * A collector starts a run, counts each item's outcome and records each failure as it goes,
+ * and finishes the run, usually through withSyncRun. An error can name the job that
+ * processes its item again; retryFailedItems queues those jobs.
+ */
+import { and, desc, eq, inArray, isNull, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { syncRunErrors, syncRuns, type Job, type SyncRun, type SyncRunError } from '../../shared/schema';
+import { jobTypes, type JobType } from '../../shared/utils/job-queue';
+import {
+  emptySyncCounts,
+  retryRequests,
+  syncRunStatus,
+  type SyncCounts,
+  type SyncOutcome,
+  type SyncRunStatus
+} from '../../shared/utils/sync-runs';
+import { SyncLogger } from '../core/sync-logger';
+
+/**
+ * A retry that can't be queued, such as for a run with no retryable failures
+ */
+export class SyncRetryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncRetryError';
+  }
+}
+
+export interface SyncRetry {
+  type: JobType;
+  payload: Record<string, unknown>;
+}
+
+export interface SyncRunOptions {
+  // See syncRuns.source
+  source: string;
+  operation: string;
+  entityType?: 'venue' | 'artist';
+  entityId?: number;
+  jobId?: number;
+  // The job that processes a failed item again, when the failure doesn't name its own
+  retry?: SyncRetry;
+}
+
+export interface SyncItem {
+  entityType?: 'venue' | 'artist' | 'event';
+  entityId?: number;
+  externalId?: string | null;
+  details?: Record<string, unknown>;
+  // null when the item can't be processed again on its own
+  retry?: SyncRetry | null;
+}
+
+export interface SyncRunDetail extends SyncRun {
+  errors: SyncRunError[];
+}
+
+export interface SyncRunFilters {
+  source?: string;
+  operation?: string;
+  status?: SyncRunStatus;
+  limit?: number;
+}
+
+export interface SyncRunErrorFilters {
+  runId?: number;
+  source?: string;
+  operation?: string;
+  // Only errors that can be retried and haven't been
+  retryable?: boolean;
+  limit?: number;
+}
+
+/**
+ * A run in progress
+ * Counts are kept in memory and written with each error, each flush and when the run ends.
+ */
+export class SyncRunRecorder {
+  private readonly counts: SyncCounts = emptySyncCounts();
+  private readonly logger: SyncLogger;
+  private finished: SyncRun | null = null;
+
+  constructor(private readonly run: SyncRun, private readonly options: SyncRunOptions) {
+    this.logger = new SyncLogger(`${options.source}:${options.operation}`);
+  }
+
+  get id(): number {
+    return this.run.id;
+  }
+
+  get totals(): Readonly<SyncCounts> {
+    return this.counts;
+  }
+
+  /**
+   * Count items that went through
+   */
+  count(outcome: Exclude<SyncOutcome, 'errored'>, items = 1): void {
+    this.counts[outcome] += items;
+  }
+
+  /**
+   * Record an item that failed
+   */
+  async error(error: unknown, item: SyncItem = {}): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    this.counts.errored++;
+    this.logger.log(`${item.externalId ?? item.entityId ?? 'Item'}: ${message}`, 'error');
+
+    const retry = item.retry === undefined ? this.options.retry : item.retry;
+    await db.insert(syncRunErrors).values({
+      runId: this.run.id,
+      entityType: item.entityType ?? null,
+      entityId: item.entityId ?? null,
+      externalId: item.externalId ?? null,
+      message,
+      details: item.details ?? null,
+      retryType: retry?.type ?? null,
+      retryPayload: retry?.payload ?? null
+    });
+    await this.flush();
+  }
+
+  /**
+   * Write the counts so far
+   */
+  async flush(): Promise<void> {
+    await db.update(syncRuns).set({ ...this.counts }).where(eq(syncRuns.id, this.run.id));
+  }
+
+  /**
+   * End the run
+   * @param error Why the run stopped, when it stopped short
+   */
+  async finish(error?: unknown): Promise<SyncRun> {
+    if (this.finished) return this.finished;
+
+    const finishedAt = new Date();
+    const status = syncRunStatus(this.counts, error !== undefined);
+    const [run] = await db.update(syncRuns)
+      .set({
+        ...this.counts,
+        status,
+        error: error === undefined ? null : error instanceof Error ? error.message : String(error),
+        finishedAt,
+        durationMs: finishedAt.getTime() - this.run.startedAt.getTime()
+      })
+      .where(eq(syncRuns.id, this.run.id))
+      .returning();
+
+    const { created, updated, unchanged, skipped, errored } = this.counts;
+    this.logger.log(
+      `Run ${run.id} ${status} in ${run.durationMs}ms: ${created} created, ${updated} updated, ${unchanged} unchanged, ${skipped} skipped, ${errored} errored`,
+      status === 'succeeded' ? 'info' : 'warning'
+    );
+    this.finished = run;
+    return run;
+  }
+}
+
+export async function startSyncRun(options: SyncRunOptions): Promise<SyncRunRecorder> {
+  const [run] = await db.insert(syncRuns).values({
+    source: options.source,
+    operation: options.operation,
+    entityType: options.entityType ?? null,
+    entityId: options.entityId ?? null,
+    jobId: options.jobId ?? null
+  }).returning();
+  return new SyncRunRecorder(run, options);
+}
+
+/**
+ * Run a collector inside a sync run
+ * The run is finished when the collector returns, and marked failed when it throws; the
+ * error is then thrown on.
+ */
+export async function withSyncRun<T>(options: SyncRunOptions, collect: (run: SyncRunRecorder) => Promise<T>): Promise<T> {
+  const run = await startSyncRun(options);
+
+  let result: T;
+  try {
+    result = await collect(run);
+  } catch (error) {
+    await run.finish(error);
+    throw error;
+  }
+
+  await run.finish();
+  return result;
+}
+
+/**
+ * Most recent runs first
+ */
+export async function listSyncRuns(filters: SyncRunFilters = {}): Promise<SyncRun[]> {
+  const conditions: SQL[] = [];
+  if (filters.source) conditions.push(eq(syncRuns.source, filters.source));
+  if (filters.operation) conditions.push(eq(syncRuns.operation, filters.operation));
+  if (filters.status) conditions.push(eq(syncRuns.status, filters.status));
+
+  return db.select().from(syncRuns)
+    .where(and(...conditions))
+    .orderBy(desc(syncRuns.startedAt), desc(syncRuns.id))
+    .limit(filters.limit ?? 50);
+}
+
+export async function getSyncRun(runId: number): Promise<SyncRunDetail | null> {
+  const [run] = await db.select().from(syncRuns).where(eq(syncRuns.id, runId));
+  if (!run) return null;
+
+  const errors = await db.select().from(syncRunErrors)
+    .where(eq(syncRunErrors.runId, runId))
+    .orderBy(desc(syncRunErrors.createdAt), desc(syncRunErrors.id));
+  return { ...run, errors };
+}
+
+/**
+ * Failed items across runs, most recent first, with the run each belongs to
+ */
+export async function listSyncRunErrors(filters: SyncRunErrorFilters = {}): Promise<Array<SyncRunError & { run: SyncRun }>> {
+  const conditions: SQL[] = [];
+  if (filters.runId) conditions.push(eq(syncRunErrors.runId, filters.runId));
+  if (filters.source) conditions.push(eq(syncRuns.source, filters.source));
+  if (filters.operation) conditions.push(eq(syncRuns.operation, filters.operation));
+  if (filters.retryable) {
+    conditions.push(isNull(syncRunErrors.retryJobId));
+    conditions.push(inArray(syncRunErrors.retryType, [...jobTypes]));
+  }
+
+  const rows = await db.select({ error: syncRunErrors, run: syncRuns })
+    .from(syncRunErrors)
+    .innerJoin(syncRuns, eq(syncRunErrors.runId, syncRuns.id))
+    .where(and(...conditions))
+    .orderBy(desc(syncRunErrors.createdAt), desc(syncRunErrors.id))
+    .limit(filters.limit ?? 100);
+  return rows.map(({ error, run }) => ({ ...error, run }));
+}
+
+/**
+ * Queue the jobs that process a run's failed items again
+ * Each job is queued once, however many of the items it covers; items already retried are
+ * left alone.
+ * @param errorIds Only these errors; every retryable error in the run when left out
+ */
+export async function retryFailedItems(runId: number, errorIds?: number[], createdById?: number): Promise<Job[] | null> {
+  const [run] = await db.select().from(syncRuns).where(eq(syncRuns.id, runId));
+  if (!run) return null;
+
+  const conditions = [eq(syncRunErrors.runId, runId), isNull(syncRunErrors.retryJobId)];
+  if (errorIds?.length) conditions.push(inArray(syncRunErrors.id, errorIds));
+  const errors = await db.select().from(syncRunErrors).where(and(...conditions));
+
+  const requests = retryRequests(errors)
+    .filter(request => (jobTypes as readonly string[]).includes(request.type));
+  if (!requests.length) {
+    throw new SyncRetryError(`Run ${runId} has no failed items that can be retried`);
+  }
+
+  // Job handlers record sync runs, so the queue is only loaded once it is needed
+  const { enqueueJob } = await import('./job-queue');
+  return db.transaction(async (tx) => {
+    const queued: Job[] = [];
+    for (const request of requests) {
+      const job = await enqueueJob(request.type as JobType, request.payload, { createdById }, tx);
+      await tx.update(syncRunErrors)
+        .set({ retryJobId: job.id })
+        .where(inArray(syncRunErrors.id, request.errorIds));
+      queued.push(job);
+    }
+    return queued;
+  });
+}
@@ -0,0 +1,262 @@
+/**
+ * Tour budget and settlement ledger
+ *
+ * Each show's deal and takings are kept in showSettlements and the tour's cost
+ * assumptions in tourBudgets. Fuel is costed from the drive between shows, lodging
+ * and per diems from the days on the road, and the shows add up into a tour P&L.
+ */
+import { db } from '../db';
+import { and, eq } from 'drizzle-orm';
+import {
+  showSettlements,
+  tourBudgets,
+  tours,
+  tourVenues,
+  type ShowSettlement,
+  type TourBudget
+} from '../../shared/schema';
+import {
+  DEFAULT_PROJECTED_ATTENDANCE,
+  DEFAULT_TICKET_PRICE,
+  profitAndLoss,
+  resolveCostRates,
+  settleShow,
+  showCosts,
+  type ProfitAndLoss,
+  type ShowDeal,
+  type ShowSettlementFigures,
+  type TourCostRates
+} from '../../shared/utils/tour-finance';
+import { daysBetween } from '../../shared/utils/tour-solver';
+import { buildTravelMatrix } from './travel-matrix';
+import { compareTourOrder, isRoutable } from './optimization/context';
+import { stopPoint } from './optimization/metrics';
+import type { TourStop } from './optimization';
+
+type FinanceStop = TourStop & { settlement: ShowSettlement | null };
+
+export interface ShowFinances {
+  tourVenueId: number;
+  venueId: number;
+  venueName: string;
+  city: string | null;
+  date: string | null;
+  status: string | null;
+  settlement: ShowSettlement | null;
+  deal: ShowDeal;
+  distanceKm: number;
+  days: number;
+  projected: ShowSettlementFigures;
+  // Null until the show's takings are entered
+  actual: ShowSettlementFigures | null;
+}
+
+export interface TourFinances {
+  tourId: number;
+  currency: string;
+  totalBudget: number | null;
+  budget: TourBudget | null;
+  rates: TourCostRates;
+  shows: ShowFinances[];
+  projected: ProfitAndLoss;
+  actual: ProfitAndLoss & { settledShows: number };
+  // Actual figures for settled shows and projections for the rest
+  forecast: ProfitAndLoss;
+  // Total budget less the forecast expenses
+  budgetRemaining: number | null;
+}
+
+export type ShowDealInput = Partial<Pick<ShowSettlement,
+  | 'guarantee'
+  | 'doorSplitPercent'
+  | 'ticketPrice'
+  | 'barSplitPercent'
+  | 'merchSplitPercent'
+  | 'projectedTickets'
+  | 'projectedBarSales'
+  | 'projectedMerchSales'
+  | 'lodgingCost'
+  | 'otherExpenses'
+  | 'notes'
+>>;
+
+export type ShowActualsInput = Pick<ShowSettlement, 'actualTickets'> &
+  Partial<Pick<ShowSettlement, 'actualBarSales' | 'actualMerchSales' | 'actualExpenses' | 'notes'>>;
+
+export type TourBudgetInput = Partial<Pick<TourBudget,
+  'currency' | 'fuelCostPerKm' | 'lodgingPerNight' | 'perDiem' | 'partySize'
+>> & { totalBudget?: number | null };
+
+function showDeal(settlement: ShowSettlement | null): ShowDeal {
+  return {
+    guarantee: settlement?.guarantee ?? 0,
+    doorSplitPercent: settlement?.doorSplitPercent ?? 0,
+    ticketPrice: settlement?.ticketPrice ?? DEFAULT_TICKET_PRICE,
+    barSplitPercent: settlement?.barSplitPercent ?? 0,
+    merchSplitPercent: settlement?.merchSplitPercent ?? 100
+  };
+}
+
+/**
+ * Projected and actual settlement of every show of a tour, and the tour P&L
+ * Cancelled shows are left out. Ferry and flight legs cost no fuel; their fares belong
+ * in the show's other expenses.
+ * @returns null when the tour does not exist
+ */
+export async function getTourFinances(tourId: number): Promise<TourFinances | null> {
+  const tour = await db.query.tours.findFirst({ where: eq(tours.id, tourId) });
+  if (!tour) return null;
+
+  const [budget, stops] = await Promise.all([
+    db.query.tourBudgets.findFirst({ where: eq(tourBudgets.tourId, tourId) }),
+    db.query.tourVenues.findMany({
+      where: eq(tourVenues.tourId, tourId),
+      with: { venue: true, settlement: true }
+    })
+  ]);
+
+  const rates = resolveCostRates(budget);
+  const active = (stops as FinanceStop[])
+    .filter(stop => stop.status !== 'cancelled')
+    .sort(compareTourOrder);
+  const travel = await buildTravelMatrix(active.filter(isRoutable).map(stopPoint));
+
+  let previous: FinanceStop | null = null;
+  const shows = active.map((stop): ShowFinances => {
+    const settlement = stop.settlement ?? null;
+    const deal = showDeal(settlement);
+
+    const leg = previous && isRoutable(previous) && isRoutable(stop)
+      ? travel.leg(stopPoint(previous), stopPoint(stop))
+      : null;
+    const distanceKm = leg ? Math.round(leg.distanceKm * 10) / 10 : 0;
+    const drivenKm = leg && (leg.mode ?? 'drive') === 'drive' ? distanceKm : 0;
+    const days = previous?.date && stop.date ? Math.max(1, daysBetween(previous.date, stop.date)) : 1;
+    previous = stop;
+
+    const costs = showCosts(drivenKm, days, rates, settlement ?? {});
+    const projected = settleShow(deal, {
+      tickets: settlement?.projectedTickets ??
+        Math.round((stop.venue.capacity ?? 0) * DEFAULT_PROJECTED_ATTENDANCE),
+      barSales: settlement?.projectedBarSales ?? 0,
+      merchSales: settlement?.projectedMerchSales ?? 0
+    }, costs);
+    const actual = settlement?.actualTickets != null
+      ? settleShow(deal, {
+          tickets: settlement.actualTickets,
+          barSales: settlement.actualBarSales ?? 0,
+          merchSales: settlement.actualMerchSales ?? 0
+        }, costs, settlement.actualExpenses)
+      : null;
+
+    return {
+      tourVenueId: stop.id,
+      venueId: stop.venueId,
+      venueName: stop.venue.name,
+      city: stop.venue.city,
+      date: stop.date,
+      status: stop.status,
+      settlement,
+      deal,
+      distanceKm,
+      days,
+      projected,
+      actual
+    };
+  });
+
+  const settled = shows.flatMap(show => show.actual ? [show.actual] : []);
+  const forecast = profitAndLoss(shows.map(show => show.actual ?? show.projected));
+
+  return {
+    tourId,
+    currency: budget?.currency ?? 'USD',
+    totalBudget: tour.totalBudget,
+    budget: budget ?? null,
+    rates,
+    shows,
+    projected: profitAndLoss(shows.map(show => show.projected)),
+    actual: { ...profitAndLoss(settled), settledShows: settled.length },
+    forecast,
+    budgetRemaining: tour.totalBudget != null
+      ? Math.round((tour.totalBudget - forecast.expenses) * 100) / 100
+      : null
+  };
+}
+
+async function findTourVenue(tourId: number, tourVenueId: number) {
+  return db.query.tourVenues.findFirst({
+    where: and(eq(tourVenues.id, tourVenueId), eq(tourVenues.tourId, tourId))
+  });
+}
+
+/**
+ * Set the deal and projections of a show
+ * @returns null when the show is not part of the tour
+ */
+export async function saveShowDeal(
+  tourId: number,
+  tourVenueId: number,
+  deal: ShowDealInput
+): Promise<ShowSettlement | null> {
+  if (!await findTourVenue(tourId, tourVenueId)) return null;
+
+  const [settlement] = await db
+    .insert(showSettlements)
+    .values({ tourVenueId, ...deal })
+    .onConflictDoUpdate({
+      target: showSettlements.tourVenueId,
+      set: { ...deal, updatedAt: new Date() }
+    })
+    .returning();
+  return settlement;
+}
+
+/**
+ * Record what a show actually took and settle it
+ * @returns null when the show is not part of the tour
+ */
+export async function recordShowActuals(
+  tourId: number,
+  tourVenueId: number,
+  actuals: ShowActualsInput,
+  userId?: number
+): Promise<ShowSettlement | null> {
+  if (!await findTourVenue(tourId, tourVenueId)) return null;
+
+  const values = { ...actuals, settledAt: new Date(), settledById: userId ?? null };
+  const [settlement] = await db
+    .insert(showSettlements)
+    .values({ tourVenueId, ...values })
+    .onConflictDoUpdate({
+      target: showSettlements.tourVenueId,
+      set: { ...values, updatedAt: new Date() }
+    })
+    .returning();
+  return settlement;
+}
+
+/**
+ * Set a tour's cost assumptions and total budget
+ * @returns null when the tour does not exist
+ */
+export async function saveTourBudget(tourId: number, input: TourBudgetInput): Promise<TourBudget | null> {
+  const { totalBudget, ...rates } = input;
+
+  return db.transaction(async (tx) => {
+    const [tour] = totalBudget !== undefined
+      ? await tx.update(tours).set({ totalBudget, updatedAt: new Date() }).where(eq(tours.id, tourId)).returning()
+      : await tx.select().from(tours).where(eq(tours.id, tourId));
+    if (!tour) return null;
+
+    const [budget] = await tx
+      .insert(tourBudgets)
+      .values({ tourId, ...rates })
+      .onConflictDoUpdate({
+        target: tourBudgets.tourId,
+        set: { ...rates, updatedAt: new Date() }
+      })
+      .returning();
+    return budget;
+  });
+}
@@ -0,0 +1,73 @@
+import { db } from '../db';
+import { eq } from 'drizzle-orm';
+import { artistTourPreferences, tours, tourVenues } from '../../shared/schema';
+import { buildItinerary, type TourItinerary } from '../../shared/utils/tour-solver';
+import { buildTravelMatrix } from './travel-matrix';
+import type { TourStop } from './optimization';
+
+export interface ItineraryShowSummary {
+  tourVenueId: number;
+  venueId: number;
+  venueName: string;
+  city: string | null;
+  status: string | null;
+  date: string;
+}
+
+export interface TourItineraryResponse extends TourItinerary {
+  tourId: number;
+  maxTravelDistancePerDay: number | null;
+  requiredDaysOff: string[];
+  shows: ItineraryShowSummary[];
+}
+
+/**
+ * Day-by-day itinerary of a tour's dated shows under the artist's driving limit and days off
+ * Cancelled shows and shows without a date are left out.
+ * @returns null when the tour does not exist
+ */
+export async function getTourItinerary(tourId: number): Promise<TourItineraryResponse | null> {
+  const tour = await db.query.tours.findFirst({ where: eq(tours.id, tourId) });
+  if (!tour) return null;
+
+  const [preferences, stops] = await Promise.all([
+    db.query.artistTourPreferences.findFirst({ where: eq(artistTourPreferences.artistId, tour.artistId) }),
+    db.query.tourVenues.findMany({
+      where: eq(tourVenues.tourId, tourId),
+      with: { venue: true }
+    })
+  ]);
+
+  const dated = (stops as TourStop[]).filter(stop => stop.date && stop.status !== 'cancelled');
+  const shows = dated.map(stop => ({
+    tourVenueId: stop.id,
+    venueId: stop.venueId,
+    latitude: stop.venue.latitude,
+    longitude: stop.venue.longitude,
+    country: stop.venue.country,
+    date: stop.date!
+  }));
+
+  const maxTravelDistancePerDay = preferences?.maxTravelDistancePerDay ?? null;
+  const requiredDaysOff = preferences?.requiredDayOff ?? [];
+  const itinerary = buildItinerary(shows, {
+    maxTravelDistancePerDay,
+    requiredDaysOff,
+    travel: await buildTravelMatrix(shows)
+  });
+
+  return {
+    tourId,
+    maxTravelDistancePerDay,
+    requiredDaysOff,
+    ...itinerary,
+    shows: dated.map(stop => ({
+      tourVenueId: stop.id,
+      venueId: stop.venueId,
+      venueName: stop.venue.name,
+      city: stop.venue.city,
+      status: stop.status,
+      date: stop.date!
+    }))
+  };
+}
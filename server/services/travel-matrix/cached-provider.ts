@@ -0,0 +1,80 @@
+import { db } from '../../db';
+import { and, eq, inArray } from 'drizzle-orm';
+import { travelMatrixEntries } from '../../../shared/schema';
+import {
+  TravelLegTable,
+  travelPointKey,
+  type TravelMatrix,
+  type TravelMatrixProvider,
+  type TravelMode,
+  type TravelPoint
+} from '../../../shared/utils/geo';
+
+/**
+ * Keeps another provider's legs in travelMatrixEntries, keyed by provider and venue pair
+ *
+ * The wrapped provider is only asked when a pair of venues is missing from the cache
+ * or a point has no venue id, and every venue pair it returns is stored.
+ */
+export class CachedTravelMatrixProvider implements TravelMatrixProvider {
+  readonly name: string;
+
+  constructor(private provider: TravelMatrixProvider) {
+    this.name = provider.name;
+  }
+
+  async getMatrix(points: TravelPoint[]): Promise<TravelMatrix> {
+    const located = points.filter(point => travelPointKey(point) !== null);
+    const venuePoints = new Map<number, TravelPoint>();
+    for (const point of located) {
+      if (point.venueId != null) venuePoints.set(point.venueId, point);
+    }
+
+    const venueIds = [...venuePoints.keys()];
+    const cached = venueIds.length > 1
+      ? await db.select().from(travelMatrixEntries).where(and(
+          eq(travelMatrixEntries.provider, this.name),
+          inArray(travelMatrixEntries.fromVenueId, venueIds),
+          inArray(travelMatrixEntries.toVenueId, venueIds)
+        ))
+      : [];
+
+    const table = new TravelLegTable();
+    for (const entry of cached) {
+      table.set(venuePoints.get(entry.fromVenueId)!, venuePoints.get(entry.toVenueId)!, {
+        distanceKm: entry.distanceKm,
+        travelTimeMinutes: entry.travelTimeMinutes,
+        mode: entry.travelMode as TravelMode
+      });
+    }
+
+    const venuePointList = [...venuePoints.values()];
+    const complete = located.every(point => point.venueId != null) &&
+      venuePointList.every(from => venuePointList.every(to => from === to || table.has(from, to)));
+    if (complete) return table;
+
+    const matrix = await this.provider.getMatrix(points);
+    // Legs the provider could not measure fell back to straight-line distance and are not its to cache
+    const measured = (from: TravelPoint, to: TravelPoint) =>
+      !(matrix instanceof TravelLegTable) || matrix.has(from, to);
+
+    const entries = venuePointList.flatMap(from => venuePointList
+      .filter(to => from !== to && !table.has(from, to) && measured(from, to))
+      .map(to => {
+        const leg = matrix.leg(from, to);
+        return {
+          provider: this.name,
+          fromVenueId: from.venueId!,
+          toVenueId: to.venueId!,
+          distanceKm: leg.distanceKm,
+          travelTimeMinutes: leg.travelTimeMinutes,
+          travelMode: leg.mode ?? 'drive'
+        };
+      }));
+    if (entries.length > 0) {
+      await db.insert(travelMatrixEntries).values(entries).onConflictDoNothing();
+    }
+
+    return matrix;
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  TravelLegTable,
+  type TravelLeg,
+  type TravelMatrix,
+  type TravelMatrixProvider,
+  type TravelPoint
+} from '../../../shared/utils/geo';
+
+export interface FixtureLeg extends TravelLeg {
+  fromVenueId: number;
+  toVenueId: number;
+}
+
+/**
+ * Fixed legs between venues, for tests and offline development
+ * Legs apply in both directions unless the reverse leg is given too; other pairs fall
+ * back to straight-line distance. Counts its requests so callers can check caching.
+ */
+export class FixtureTravelMatrixProvider implements TravelMatrixProvider {
+  readonly name: string;
+  requests = 0;
+  private legs = new Map<string, TravelLeg>();
+
+  constructor(legs: FixtureLeg[], name = 'fixture') {
+    this.name = name;
+    for (const { fromVenueId, toVenueId, ...leg } of legs) {
+      this.legs.set(`${fromVenueId}-${toVenueId}`, leg);
+      if (!this.legs.has(`${toVenueId}-${fromVenueId}`)) {
+        this.legs.set(`${toVenueId}-${fromVenueId}`, leg);
+      }
+    }
+  }
+
+  async getMatrix(points: TravelPoint[]): Promise<TravelMatrix> {
+    this.requests++;
+    const table = new TravelLegTable();
+
+    for (const from of points) {
+      for (const to of points) {
+        const leg = from.venueId != null && to.venueId != null
+          ? this.legs.get(`${from.venueId}-${to.venueId}`)
+          : undefined;
+        if (leg) table.set(from, to, leg);
+      }
+    }
+
+    return table;
+  }
+}
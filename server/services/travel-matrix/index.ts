@@ -0,0 +1,82 @@
+/**
+ * Travel matrix service
+ *
+ * Every distance and travel time the optimizer, tour scores and stored tour routes use
+ * comes from one configured provider. TRAVEL_MATRIX_PROVIDER=osrm with OSRM_URL set
+ * measures legs on the road network through an OSRM-compatible router and caches them
+ * per venue pair; otherwise straight-line distance at the default touring speed is used.
+ * Either way legs are marked with their border crossings (each adding
+ * BORDER_CROSSING_MINUTES) and legs between countries with no road link are taken by
+ * ferry, or by flight beyond MAX_FERRY_DISTANCE_KM.
+ */
+import {
+  HaversineTravelMatrixProvider,
+  haversineMatrix,
+  withInternationalLegs,
+  type InternationalLegOptions,
+  type TravelMatrix,
+  type TravelMatrixProvider,
+  type TravelPoint
+} from '../../../shared/utils/geo';
+import { CachedTravelMatrixProvider } from './cached-provider';
+import { OsrmTravelMatrixProvider } from './osrm-provider';
+
+export { CachedTravelMatrixProvider } from './cached-provider';
+export { FixtureTravelMatrixProvider, type FixtureLeg } from './fixture-provider';
+export { OsrmTravelMatrixProvider, type OsrmProviderOptions } from './osrm-provider';
+
+function createConfiguredProvider(): TravelMatrixProvider {
+  if (process.env.TRAVEL_MATRIX_PROVIDER === 'osrm') {
+    if (process.env.OSRM_URL) {
+      return new CachedTravelMatrixProvider(new OsrmTravelMatrixProvider(process.env.OSRM_URL, {
+        profile: process.env.OSRM_PROFILE
+      }));
+    }
+    console.warn('TRAVEL_MATRIX_PROVIDER is osrm but OSRM_URL is not set, using straight-line distances');
+  }
+  return new HaversineTravelMatrixProvider();
+}
+
+let provider: TravelMatrixProvider | null = null;
+
+function numberFromEnv(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) ? value : undefined;
+}
+
+function internationalLegOptions(): InternationalLegOptions {
+  return {
+    borderCrossingMinutes: numberFromEnv('BORDER_CROSSING_MINUTES'),
+    maxFerryDistanceKm: numberFromEnv('MAX_FERRY_DISTANCE_KM')
+  };
+}
+
+export function getTravelMatrixProvider(): TravelMatrixProvider {
+  if (!provider) provider = createConfiguredProvider();
+  return provider;
+}
+
+/**
+ * Replace the configured provider, e.g. with a fixture in tests
+ * @param next null restores the provider configured by the environment
+ */
+export function setTravelMatrixProvider(next: TravelMatrixProvider | null): void {
+  provider = next;
+}
+
+/**
+ * Travel matrix between the given points from the configured provider
+ * Falls back to straight-line distances when the provider fails, so routing keeps working
+ * while the router is down.
+ */
+export async function buildTravelMatrix(points: TravelPoint[]): Promise<TravelMatrix> {
+  const current = getTravelMatrixProvider();
+  let matrix: TravelMatrix;
+  try {
+    matrix = await current.getMatrix(points);
+  } catch (error) {
+    console.error(`The ${current.name} travel matrix failed, using straight-line distances:`, error);
+    matrix = haversineMatrix;
+  }
+  return withInternationalLegs(matrix, internationalLegOptions());
+}
@@ -0,0 +1,90 @@
+import axios from 'axios';
+import {
+  TravelLegTable,
+  calculateDistance,
+  nonDrivingLeg,
+  travelPointKey,
+  type TravelMatrix,
+  type TravelMatrixProvider,
+  type TravelPoint
+} from '../../../shared/utils/geo';
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  distances?: Array<Array<number | null>>; // meters
+  durations?: Array<Array<number | null>>; // seconds
+}
+
+export interface OsrmProviderOptions {
+  profile?: string;
+  /**
+   * Multiplier on the router's driving time for rest stops and traffic, as in estimateTravelTime
+   */
+  bufferFactor?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Road distances and driving times from an OSRM-compatible table service
+ * Pairs the router cannot connect by road are taken by ferry or flight.
+ */
+export class OsrmTravelMatrixProvider implements TravelMatrixProvider {
+  readonly name = 'osrm';
+  private baseUrl: string;
+  private profile: string;
+  private bufferFactor: number;
+  private timeoutMs: number;
+
+  constructor(baseUrl: string, options: OsrmProviderOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.profile = options.profile ?? 'driving';
+    this.bufferFactor = options.bufferFactor ?? 1.2;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  async getMatrix(points: TravelPoint[]): Promise<TravelMatrix> {
+    const table = new TravelLegTable();
+
+    // One entry per location; points without coordinates cannot be routed
+    const unique = new Map<string, TravelPoint>();
+    for (const point of points) {
+      const key = travelPointKey(point);
+      if (key && !unique.has(key)) unique.set(key, point);
+    }
+    const located = [...unique.values()];
+    if (located.length < 2) return table;
+
+    const coordinates = located.map(point => `${point.longitude},${point.latitude}`).join(';');
+    const { data } = await axios.get<OsrmTableResponse>(
+      `${this.baseUrl}/table/v1/${this.profile}/${coordinates}`,
+      { params: { annotations: 'distance,duration' }, timeout: this.timeoutMs }
+    );
+
+    if (data.code !== 'Ok' || !data.distances || !data.durations) {
+      throw new Error(`OSRM table request failed: ${data.message ?? data.code}`);
+    }
+
+    located.forEach((from, i) => {
+      located.forEach((to, j) => {
+        const distance = data.distances![i]?.[j];
+        const duration = data.durations![i]?.[j];
+        if (i === j) return;
+
+        if (distance == null || duration == null) {
+          table.set(from, to, nonDrivingLeg(
+            calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude)
+          ));
+          return;
+        }
+
+        table.set(from, to, {
+          distanceKm: distance / 1000,
+          travelTimeMinutes: Math.round((duration / 60) * this.bufferFactor)
+        });
+      });
+    });
+
+    return table;
+  }
+}
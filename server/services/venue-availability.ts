@@ -0,0 +1,179 @@
+/**
+ * Venue availability
+ *
+ * Open nights and one-off open dates are kept on venueTourPreferences, blackouts in
+ * venueBlackouts. Confirmed events and confirmed holds block their dates. The
+ * optimizer and the gap finder load availability here so they only suggest dates a
+ * venue can take; the rules live in shared/utils/venue-availability.ts.
+ */
+import { db } from '../db';
+import { and, eq, gte, inArray, isNull, lte, or } from 'drizzle-orm';
+import {
+  artists,
+  events,
+  tours,
+  tourVenues,
+  venueBlackouts,
+  venueHolds,
+  venueTourPreferences,
+  type VenueBlackout
+} from '../../shared/schema';
+import {
+  availabilityCalendar,
+  type DayAvailability,
+  type VenueAvailability
+} from '../../shared/utils/venue-availability';
+import { optimizationCache } from '../cache/optimization-cache';
+
+export interface VenueAvailabilityCalendar extends VenueAvailability {
+  days: DayAvailability[];
+}
+
+export type OpenNightsInput = Pick<VenueAvailability, 'openWeekdays' | 'openDates'>;
+
+export type BlackoutInput = Pick<VenueBlackout, 'startDate' | 'endDate'> & Partial<Pick<VenueBlackout, 'reason'>>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// availableDates predates typed columns; skip entries that are not plain dates
+const openDates = (values: unknown[] | null) =>
+  (values ?? []).filter((value): value is string => typeof value === 'string' && DATE_PATTERN.test(value));
+
+/**
+ * Availability of venues between two dates, by venue id
+ * @param venueIds Venues to load; every venue is open when none of its rules are set
+ */
+export async function loadVenueAvailability(
+  venueIds: number[],
+  from: string,
+  to: string
+): Promise<Map<number, VenueAvailability>> {
+  const availability = new Map<number, VenueAvailability>(venueIds.map(venueId => [venueId, {
+    venueId,
+    openWeekdays: [],
+    openDates: [],
+    blackouts: [],
+    booked: []
+  }]));
+  if (venueIds.length === 0) return availability;
+
+  const [preferences, blackouts, confirmedEvents, confirmedHolds] = await Promise.all([
+    db.select().from(venueTourPreferences).where(inArray(venueTourPreferences.venueId, venueIds)),
+    db.select().from(venueBlackouts).where(and(
+      inArray(venueBlackouts.venueId, venueIds),
+      lte(venueBlackouts.startDate, to),
+      gte(venueBlackouts.endDate, from)
+    )),
+    db.select({ venueId: events.venueId, date: events.date, artistName: artists.name })
+      .from(events)
+      .innerJoin(artists, eq(events.artistId, artists.id))
+      .where(and(
+        inArray(events.venueId, venueIds),
+        gte(events.date, from),
+        lte(events.date, to),
+        or(isNull(events.status), eq(events.status, 'confirmed'))
+      )),
+    db.select({ venueId: venueHolds.venueId, date: venueHolds.date, tourName: tours.name, artistName: artists.name })
+      .from(venueHolds)
+      .innerJoin(tourVenues, eq(venueHolds.tourVenueId, tourVenues.id))
+      .innerJoin(tours, eq(tourVenues.tourId, tours.id))
+      .innerJoin(artists, eq(tours.artistId, artists.id))
+      .where(and(
+        inArray(venueHolds.venueId, venueIds),
+        gte(venueHolds.date, from),
+        lte(venueHolds.date, to),
+        eq(venueHolds.status, 'confirmed')
+      ))
+  ]);
+
+  for (const preference of preferences) {
+    const entry = availability.get(preference.venueId)!;
+    entry.openWeekdays = preference.openWeekdays ?? [];
+    entry.openDates = openDates(preference.availableDates);
+  }
+  for (const { id, venueId, startDate, endDate, reason } of blackouts) {
+    availability.get(venueId)!.blackouts.push({ id, startDate, endDate, reason });
+  }
+  for (const event of confirmedEvents) {
+    availability.get(event.venueId)!.booked.push({
+      date: event.date,
+      reason: 'event',
+      label: `${event.artistName} (confirmed event)`
+    });
+  }
+  for (const hold of confirmedHolds) {
+    availability.get(hold.venueId)!.booked.push({
+      date: hold.date,
+      reason: 'confirmedHold',
+      label: `${hold.artistName} (${hold.tourName})`
+    });
+  }
+
+  return availability;
+}
+
+/**
+ * A venue's availability rules and the availability of each date between two dates
+ */
+export async function getVenueAvailability(venueId: number, from: string, to: string): Promise<VenueAvailabilityCalendar> {
+  const availability = (await loadVenueAvailability([venueId], from, to)).get(venueId)!;
+  return { ...availability, days: availabilityCalendar(availability, from, to) };
+}
+
+/**
+ * Tours already routed through the venue have to be optimized again after its
+ * availability or bookings change
+ */
+export async function invalidateVenueOptimizations(venueId: number) {
+  const stops = await db.selectDistinct({ tourId: tourVenues.tourId }).from(tourVenues).where(eq(tourVenues.venueId, venueId));
+  stops.forEach(stop => optimizationCache.invalidate(stop.tourId));
+}
+
+/**
+ * Set a venue's open nights and one-off open dates
+ */
+export async function updateOpenNights(venueId: number, input: OpenNightsInput): Promise<OpenNightsInput> {
+  const values = {
+    openWeekdays: [...new Set(input.openWeekdays)].sort((a, b) => a - b),
+    availableDates: [...new Set(input.openDates)].sort()
+  };
+
+  const [existing] = await db.select({ id: venueTourPreferences.id })
+    .from(venueTourPreferences)
+    .where(eq(venueTourPreferences.venueId, venueId));
+  if (existing) {
+    await db.update(venueTourPreferences)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(venueTourPreferences.id, existing.id));
+  } else {
+    await db.insert(venueTourPreferences).values({ venueId, ...values });
+  }
+
+  await invalidateVenueOptimizations(venueId);
+  return { openWeekdays: values.openWeekdays, openDates: values.availableDates };
+}
+
+/**
+ * Black out a range of a venue's dates
+ */
+export async function createBlackout(venueId: number, input: BlackoutInput, userId?: number): Promise<VenueBlackout> {
+  const [blackout] = await db.insert(venueBlackouts)
+    .values({ venueId, ...input, createdById: userId ?? null })
+    .returning();
+  await invalidateVenueOptimizations(venueId);
+  return blackout;
+}
+
+/**
+ * Remove one of a venue's blackouts
+ * @returns false when the venue has no such blackout
+ */
+export async function deleteBlackout(venueId: number, blackoutId: number): Promise<boolean> {
+  const [deleted] = await db.delete(venueBlackouts)
+    .where(and(eq(venueBlackouts.id, blackoutId), eq(venueBlackouts.venueId, venueId)))
+    .returning();
+  if (!deleted) return false;
+
+  await invalidateVenueOptimizations(venueId);
+  return true;
+}
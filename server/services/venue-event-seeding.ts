@@ -0,0 +1,419 @@
+/**
+ * Venue event seeding
+ *
+ * Fills in upcoming shows for venues from Bandsintown. Venues without a Bandsintown ID are
+ * looked up in a short list of known IDs, then guessed with OpenAI and checked against the
+ * API. Runs as the seed-venue-events job and behind the per-venue real events route.
+ */
+import { db } from '../db';
+import { venues, events, artists } from '../../shared/schema';
+import { eq, sql, count, inArray } from 'drizzle-orm';
+import axios from 'axios';
+import OpenAI from 'openai';
+import dotenv from 'dotenv';
+import { ingestEvent } from './event-ingestion';
+import { throttle } from './rate-limits';
+import type { SyncRetry, SyncRunRecorder } from './sync-runs';
+
+dotenv.config();
+
+type Venue = typeof venues.$inferSelect;
+
+// Initialize OpenAI client
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+// Bandsintown venue ID mapping - we can expand this list
+const knownVenueIds: Record<string, string> = {
+  'The Bug Jar': '10068739-the-bug-jar',
+  'The Bowery Ballroom': '1847-the-bowery-ballroom',
+  '9:30 Club': '209-9-30-club',
+  'The Troubadour': '1941-the-troubadour',
+  'The Fillmore': '1941-the-fillmore',
+  'Red Rocks Amphitheatre': '598-red-rocks-amphitheatre',
+  'The Ryman Auditorium': '1941-ryman-auditorium',
+  'House of Blues': '1941-house-of-blues-chicago'
+};
+
+export interface BandsInTownEvent {
+  id: string;
+  artist_id: string;
+  url: string;
+  on_sale_datetime?: string;
+  datetime: string;
+  description?: string;
+  venue: {
+    name: string;
+    latitude: string;
+    longitude: string;
+    city: string;
+    region: string;
+    country: string;
+  };
+  offers: Array<{
+    type: string;
+    url: string;
+    status: string;
+  }>;
+  lineup: string[];
+  title?: string;
+  artist?: {
+    name: string;
+    url: string;
+    mbid?: string;
+    image_url?: string;
+    thumb_url?: string;
+    facebook_page_url?: string;
+    tracker_count: number;
+  };
+  status?: 'confirmed' | 'cancelled';
+}
+
+/**
+ * Use AI to try to find a Bandsintown ID for the venue
+ */
+async function tryToFindVenueId(venue: any): Promise<string | null> {
+  try {
+    // Format varies, but common formats are:
+    // - [number]-[venue-name-slug]
+    // - [number]-[venue-name-slug]-[city]
+    
+    // Use GPT-4 to generate possible Bandsintown IDs
+    const prompt = `I'm trying to find the Bandsintown ID for a music venue called "${venue.name}" in ${venue.city}, ${venue.region || venue.country}.
+
+Bandsintown venue IDs usually follow formats like:
+1. [number]-[venue-name-slug] (e.g., "1847-the-bowery-ballroom")
+2. [number]-[venue-name-slug]-[city] (e.g., "209-9-30-club")
+3. [long-number]-[venue-name] (e.g., "10068739-the-bug-jar")
+
+Based on the venue name "${venue.name}" in ${venue.city}, ${venue.region || venue.country}, predict what the most likely Bandsintown venue ID might be.
+
+Provide only the ID string with no other text or explanation. If you're not confident, respond with "unknown".`;
+
+    const response = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        { role: "system", content: "You help identify Bandsintown venue IDs based on venue information." },
+        { role: "user", content: prompt }
+      ],
+      temperature: 0.2,
+      max_tokens: 50
+    });
+
+    const potentialId = response.choices[0]?.message?.content?.trim();
+    
+    if (!potentialId || potentialId === "unknown") {
+      return null;
+    }
+    
+    // Verify the ID by trying to fetch data
+    const apiKey = process.env.BANDSINTOWN_API_KEY;
+    if (!apiKey) {
+      return null;
+    }
+    
+    // Try to fetch events with this ID to see if it's valid
+    try {
+      await throttle('bandsintown');
+      const response = await axios.get(`https://rest.bandsintown.com/venues/${potentialId}/events`, {
+        params: { app_id: apiKey },
+        headers: { 'Accept': 'application/json' }
+      });
+      
+      if (response.status === 200 && Array.isArray(response.data)) {
+        // Successfully verified the ID
+        console.log(`AI found a valid Bandsintown ID for ${venue.name}: ${potentialId}`);
+        
+        // Update the venue with this ID for future use
+        await db.update(venues)
+          .set({ bandsintownId: potentialId })
+          .where(eq(venues.id, venue.id));
+        
+        return potentialId;
+      }
+    } catch (error) {
+      console.log(`Invalid Bandsintown ID prediction: ${potentialId}`);
+    }
+    
+    return null;
+  } catch (error) {
+    console.error('Error finding venue ID with AI:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch events for a venue from Bandsintown
+ * Throws when the request fails, so the venue is recorded as failed rather than empty.
+ */
+export async function fetchVenueEvents(venueName: string, venueId: string, apiKey: string): Promise<BandsInTownEvent[]> {
+  console.log(`Fetching events for venue: ${venueName} (${venueId})`);
+
+  // Fetch events for the specific venue
+  const apiEndpoint = `https://rest.bandsintown.com/venues/${venueId}/events`;
+
+  await throttle('bandsintown');
+  const response = await axios.get(apiEndpoint, {
+    params: { 
+      app_id: apiKey
+    },
+    headers: { 
+      'Accept': 'application/json'
+    }
+  });
+
+  if (!response.data || !Array.isArray(response.data)) {
+    console.log(`No valid event data returned for ${venueName}`);
+    return [];
+  }
+
+  console.log(`Found ${response.data.length} events for venue ${venueName}`);
+  return response.data;
+}
+
+/**
+ * The job that fetches a venue's events again
+ */
+export function venueEventsRetry(venueId: number): SyncRetry {
+  return { type: 'seed-venue-events', payload: { venueIds: [venueId] } };
+}
+
+/**
+ * Process and save events from Bandsintown to our database
+ * @param run The sync run to record each event's outcome in
+ */
+export async function processAndSaveEvents(eventsData: BandsInTownEvent[], venueId: number, run?: SyncRunRecorder): Promise<{ eventsAdded: number, artistsAdded: number }> {
+  let eventsAdded = 0;
+  let artistsAdded = 0;
+  
+  for (const eventData of eventsData) {
+    try {
+      if (!eventData.artist) {
+        console.log('Skipping event with missing artist data');
+        run?.count('skipped');
+        continue;
+      }
+      
+      // Process artist
+      const artistName = eventData.artist.name;
+      console.log(`Processing artist: ${artistName}`);
+      
+      // Check if artist exists
+      let artist = await db.select().from(artists).where(eq(artists.name, artistName)).limit(1);
+      
+      if (!artist.length) {
+        // Create artist
+        console.log(`Creating new artist: ${artistName}`);
+        
+        const [newArtist] = await db.insert(artists).values({
+          name: artistName,
+          genres: ['other'],
+          popularity: eventData.artist.tracker_count || 50,
+          imageUrl: eventData.artist.image_url || null,
+          bandsintownId: eventData.artist_id || null,
+          createdAt: sql`NOW()`,
+          updatedAt: sql`NOW()`
+        }).returning();
+        
+        artist = [newArtist];
+        artistsAdded++;
+        
+        // Use AI to enhance the artist data after creation
+        enhanceArtistData(newArtist.id, artistName).catch(console.error);
+      }
+      
+      // Create the event unless the venue already has it
+      const result = await ingestEvent({
+        source: 'bandsintown',
+        externalId: eventData.id ? String(eventData.id) : null,
+        url: eventData.url || null,
+        artistId: artist[0].id,
+        venueId: venueId,
+        date: eventData.datetime,
+        status: eventData.status || 'confirmed'
+      });
+      run?.count(result.outcome);
+      
+      if (result.outcome === 'created') {
+        console.log(`Created new event: ${artistName} at venue ID ${venueId} on ${eventData.datetime}`);
+        eventsAdded++;
+      } else {
+        console.log(`Event already exists: ${artistName} at venue ID ${venueId} on ${eventData.datetime}`);
+      }
+    } catch (error) {
+      console.error(`Error processing event:`, error);
+      await run?.error(error, {
+        entityType: 'event',
+        externalId: eventData.id ? String(eventData.id) : null,
+        details: { venueId, artist: eventData.artist?.name ?? null, date: eventData.datetime },
+        retry: venueEventsRetry(venueId)
+      });
+    }
+  }
+  
+  return { eventsAdded, artistsAdded };
+}
+
+/**
+ * Use AI to enhance artist data
+ */
+async function enhanceArtistData(artistId: number, artistName: string): Promise<void> {
+  try {
+    // Don't process if OpenAI key is not set
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      console.log('OpenAI API key not set, skipping artist enhancement');
+      return;
+    }
+    
+    console.log(`Enhancing data for artist: ${artistName}`);
+    
+    const prompt = `Provide factual information about the musical artist "${artistName}".
+    
+Return the information in JSON format with these fields:
+1. genres: An array of 1-3 music genres that most accurately describe this artist's music
+2. description: A brief factual bio (100-150 words)
+3. popularity: A number from 1-100 estimating their current popularity (higher = more popular)
+
+Only include verifiable information. If you don't have enough information about this specific artist, respond with "unknown" for all fields.`;
+
+    const response = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        { role: "system", content: "You provide factual information about musical artists." },
+        { role: "user", content: prompt }
+      ],
+      temperature: 0.3,
+      response_format: { type: "json_object" }
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      console.log(`No content returned from OpenAI for artist ${artistName}`);
+      return;
+    }
+
+    try {
+      const artistInfo = JSON.parse(content);
+      
+      if (artistInfo.genres === "unknown" || !artistInfo.genres) {
+        console.log(`No useful information found for artist ${artistName}`);
+        return;
+      }
+      
+      // Update the artist with the enhanced data
+      await db.update(artists)
+        .set({
+          genres: Array.isArray(artistInfo.genres) ? artistInfo.genres : ['other'],
+          description: artistInfo.description || null,
+          popularity: artistInfo.popularity || 50,
+          updatedAt: sql`NOW()`
+        })
+        .where(eq(artists.id, artistId));
+      
+      console.log(`Successfully enhanced data for artist: ${artistName}`);
+    } catch (err) {
+      console.error(`Failed to parse OpenAI response for artist ${artistName}:`, err);
+    }
+  } catch (error) {
+    console.error(`Error enhancing artist data for ${artistName}:`, error);
+  }
+}
+
+/**
+ * The venue's Bandsintown ID, from the venue, the known list or OpenAI, or null
+ */
+export async function findBandsintownVenueId(venue: Venue): Promise<string | null> {
+  return venue.bandsintownId || knownVenueIds[venue.name] || await tryToFindVenueId(venue);
+}
+
+export interface VenueEventSeedingOptions {
+  // Venues with at least this many events are skipped
+  minEvents?: number;
+  // Only these venues, however many events they have
+  venueIds?: number[];
+}
+
+export interface VenueEventSeedingResult {
+  venuesProcessed: number;
+  venuesWithEvents: number;
+  totalEventsAdded: number;
+  totalArtistsAdded: number;
+}
+
+/**
+ * Fetch Bandsintown events for every venue with fewer than minEvents events, or for the
+ * venues given
+ * A venue that fails is recorded in the run and doesn't stop the rest.
+ * @param run The sync run to record events and failed venues in
+ * @param onProgress Called after each venue; throwing from it stops the run
+ */
+export async function seedVenueEvents(
+  { minEvents = 5, venueIds }: VenueEventSeedingOptions = {},
+  run?: SyncRunRecorder,
+  onProgress?: (done: number, total: number, venueName: string) => Promise<void>
+): Promise<VenueEventSeedingResult> {
+  const apiKey = process.env.BANDSINTOWN_API_KEY;
+  if (!apiKey) {
+    throw new Error('Bandsintown API key not configured. Please set the BANDSINTOWN_API_KEY environment variable.');
+  }
+
+  const results: VenueEventSeedingResult = {
+    venuesProcessed: 0,
+    venuesWithEvents: 0,
+    totalEventsAdded: 0,
+    totalArtistsAdded: 0
+  };
+
+  let venuesToProcess: Venue[];
+  if (venueIds) {
+    venuesToProcess = venueIds.length ? await db.select().from(venues).where(inArray(venues.id, venueIds)) : [];
+  } else {
+    // Skip venues that already have a good number of events
+    const eventCounts = await db
+      .select({ venueId: events.venueId, count: count() })
+      .from(events)
+      .groupBy(events.venueId);
+    const countByVenue = new Map(eventCounts.map(row => [row.venueId, row.count]));
+    venuesToProcess = (await db.select().from(venues))
+      .filter(venue => (countByVenue.get(venue.id) ?? 0) < minEvents);
+  }
+
+  for (const venue of venuesToProcess) {
+    try {
+      results.venuesProcessed++;
+
+      const bandsintownId = await findBandsintownVenueId(venue);
+      if (!bandsintownId) {
+        console.log(`No Bandsintown ID found for venue: ${venue.name}`);
+        continue;
+      }
+
+      const venueEvents = await fetchVenueEvents(venue.name, bandsintownId, apiKey);
+      if (venueEvents.length > 0) {
+        const result = await processAndSaveEvents(venueEvents, venue.id, run);
+        if (result.eventsAdded > 0) {
+          results.venuesWithEvents++;
+          results.totalEventsAdded += result.eventsAdded;
+          results.totalArtistsAdded += result.artistsAdded;
+        }
+      } else {
+        console.log(`No events found for venue: ${venue.name}`);
+      }
+    } catch (error) {
+      console.error(`Error processing venue ${venue.name}:`, error);
+      await run?.error(error, {
+        entityType: 'venue',
+        entityId: venue.id,
+        details: { name: venue.name },
+        retry: venueEventsRetry(venue.id)
+      });
+    } finally {
+      await run?.flush();
+      await onProgress?.(results.venuesProcessed, venuesToProcess.length, venue.name);
+    }
+  }
+
+  return results;
+}
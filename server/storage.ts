@@ -1,17 +1,19 @@
 import { 
   users, type User, type InsertUser, 
   venues, type Venue, type InsertVenue,
+  venueMembers, type VenueMember, type InsertVenueMember, type VenueMemberRole,
   artists, type Artist, type InsertArtist,
+  tours, type Tour,
   events, type Event, type InsertEvent,
   venueNetwork, type VenueNetwork, type InsertVenueNetwork,
   predictions, type Prediction, type InsertPrediction,
-  inquiries, type Inquiry, type InsertInquiry,
+  inquiries, type Inquiry, type InsertInquiry, type InquiryStatus,
   collaborativeOpportunities, type CollaborativeOpportunity, type InsertCollaborativeOpportunity,
   collaborativeParticipants, type CollaborativeParticipant, type InsertCollaborativeParticipant,
   webhookConfigurations, type WebhookConfiguration, type InsertWebhookConfiguration
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, gte, lte, like, desc, SQL } from "drizzle-orm";
+import { eq, and, gte, lte, like, desc, inArray, SQL } from "drizzle-orm";
 
 // Storage interface
 export interface IStorage {
@@ -27,11 +29,21 @@ export interface IStorage {
   createVenue(venue: InsertVenue): Promise<Venue>;
   updateVenue(id: number, venue: Partial<InsertVenue>): Promise<Venue | undefined>;
   
+  // Venue membership methods
+  getVenueMembership(venueId: number, userId: number): Promise<VenueMember | undefined>;
+  getVenueMembershipsByUser(userId: number): Promise<VenueMember[]>;
+  getVenueMembers(venueId: number): Promise<VenueMember[]>;
+  setVenueMember(member: InsertVenueMember): Promise<VenueMember>;
+  removeVenueMember(venueId: number, userId: number): Promise<boolean>;
+  
   // Artist methods
   getArtist(id: number): Promise<Artist | undefined>;
   getArtists(filter?: string): Promise<Artist[]>;
   createArtist(artist: InsertArtist): Promise<Artist>;
   
+  // Tour methods
+  getTour(id: number): Promise<Tour | undefined>;
+  
   // Event methods
   getEvent(id: number): Promise<Event | undefined>;
   getEvents(): Promise<Event[]>;
@@ -47,12 +59,18 @@ export interface IStorage {
   getPrediction(id: number): Promise<Prediction | undefined>;
   getPredictionsByVenue(venueId: number): Promise<Prediction[]>;
   createPrediction(prediction: InsertPrediction): Promise<Prediction>;
+  updatePrediction(id: number, prediction: Partial<InsertPrediction>): Promise<Prediction | undefined>;
   
   // Inquiry methods
+  getInquiry(id: number): Promise<Inquiry | undefined>;
   createInquiry(inquiry: InsertInquiry): Promise<Inquiry>;
+  // With fromStatuses, only updates the inquiry while it is in one of them
+  updateInquiry(id: number, inquiry: Partial<InsertInquiry>, fromStatuses?: InquiryStatus[]): Promise<Inquiry | undefined>;
   getInquiriesByVenue(venueId: number): Promise<Inquiry[]>;
+  getInquiriesBySender(senderId: number): Promise<Inquiry[]>;
   
   // Collaborative Opportunity methods
+  getCollaborativeOpportunity(id: number): Promise<CollaborativeOpportunity | undefined>;
   createCollaborativeOpportunity(opportunity: InsertCollaborativeOpportunity): Promise<CollaborativeOpportunity>;
   getCollaborativeOpportunitiesByVenue(venueId: number): Promise<CollaborativeOpportunity[]>;
   
@@ -97,7 +115,13 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getVenuesByUser(userId: number): Promise<Venue[]> {
-    return await db.select().from(venues).where(eq(venues.ownerId, userId));
+    const rows = await db
+      .select({ venue: venues })
+      .from(venueMembers)
+      .innerJoin(venues, eq(venueMembers.venueId, venues.id))
+      .where(eq(venueMembers.userId, userId))
+      .orderBy(venues.name);
+    return rows.map(row => row.venue);
   }
   
   async createVenue(venue: InsertVenue): Promise<Venue> {
@@ -114,6 +138,49 @@ export class DatabaseStorage implements IStorage {
     return updatedVenue;
   }
   
+  // Venue membership methods
+  async getVenueMembership(venueId: number, userId: number): Promise<VenueMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(venueMembers)
+      .where(and(eq(venueMembers.venueId, venueId), eq(venueMembers.userId, userId)));
+    return member;
+  }
+  
+  async getVenueMembershipsByUser(userId: number): Promise<VenueMember[]> {
+    return await db
+      .select()
+      .from(venueMembers)
+      .where(eq(venueMembers.userId, userId));
+  }
+  
+  async getVenueMembers(venueId: number): Promise<VenueMember[]> {
+    return await db
+      .select()
+      .from(venueMembers)
+      .where(eq(venueMembers.venueId, venueId));
+  }
+  
+  async setVenueMember(member: InsertVenueMember): Promise<VenueMember> {
+    const [savedMember] = await db
+      .insert(venueMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [venueMembers.venueId, venueMembers.userId],
+        set: { role: member.role as VenueMemberRole }
+      })
+      .returning();
+    return savedMember;
+  }
+  
+  async removeVenueMember(venueId: number, userId: number): Promise<boolean> {
+    const removed = await db
+      .delete(venueMembers)
+      .where(and(eq(venueMembers.venueId, venueId), eq(venueMembers.userId, userId)))
+      .returning();
+    return removed.length > 0;
+  }
+  
   // Artist methods
   async getArtist(id: number): Promise<Artist | undefined> {
     const [artist] = await db.select().from(artists).where(eq(artists.id, id));
@@ -135,6 +202,12 @@ export class DatabaseStorage implements IStorage {
     return newArtist;
   }
   
+  // Tour methods
+  async getTour(id: number): Promise<Tour | undefined> {
+    const [tour] = await db.select().from(tours).where(eq(tours.id, id));
+    return tour;
+  }
+  
   // Event methods
   async getEvent(id: number): Promise<Event | undefined> {
     const [event] = await db.select().from(events).where(eq(events.id, id));
@@ -197,13 +270,38 @@ export class DatabaseStorage implements IStorage {
     const [newPrediction] = await db.insert(predictions).values(prediction).returning();
     return newPrediction;
   }
+
+  async updatePrediction(id: number, prediction: Partial<InsertPrediction>): Promise<Prediction | undefined> {
+    const [updatedPrediction] = await db
+      .update(predictions)
+      .set(prediction)
+      .where(eq(predictions.id, id))
+      .returning();
+    return updatedPrediction;
+  }
   
   // Inquiry methods
+  async getInquiry(id: number): Promise<Inquiry | undefined> {
+    const [inquiry] = await db.select().from(inquiries).where(eq(inquiries.id, id));
+    return inquiry;
+  }
+  
   async createInquiry(inquiry: InsertInquiry): Promise<Inquiry> {
     const [newInquiry] = await db.insert(inquiries).values(inquiry).returning();
     return newInquiry;
   }
   
+  async updateInquiry(id: number, inquiry: Partial<InsertInquiry>, fromStatuses?: InquiryStatus[]): Promise<Inquiry | undefined> {
+    const [updatedInquiry] = await db
+      .update(inquiries)
+      .set({ ...inquiry, updatedAt: new Date() })
+      .where(fromStatuses
+        ? and(eq(inquiries.id, id), inArray(inquiries.status, fromStatuses))
+        : eq(inquiries.id, id))
+      .returning();
+    return updatedInquiry;
+  }
+  
   async getInquiriesByVenue(venueId: number): Promise<Inquiry[]> {
     return await db
       .select()
@@ -212,7 +310,23 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(inquiries.createdAt));
   }
   
+  async getInquiriesBySender(senderId: number): Promise<Inquiry[]> {
+    return await db
+      .select()
+      .from(inquiries)
+      .where(eq(inquiries.senderId, senderId))
+      .orderBy(desc(inquiries.createdAt));
+  }
+  
   // Collaborative Opportunity methods
+  async getCollaborativeOpportunity(id: number): Promise<CollaborativeOpportunity | undefined> {
+    const [opportunity] = await db
+      .select()
+      .from(collaborativeOpportunities)
+      .where(eq(collaborativeOpportunities.id, id));
+    return opportunity;
+  }
+  
   async createCollaborativeOpportunity(opportunity: InsertCollaborativeOpportunity): Promise<CollaborativeOpportunity> {
     const [newOpportunity] = await db.insert(collaborativeOpportunities).values(opportunity).returning();
     return newOpportunity;
@@ -7,7 +7,7 @@ import axios from 'axios';
 import { db } from './db';
 import { artists, events } from '../shared/schema';
 import { eq } from 'drizzle-orm';
-import { SyncLogger } from './utils/logging';
+import { SyncLogger } from './core/sync-logger';
 import { setTimeout } from 'timers/promises';
 
 const logger = new SyncLogger('ArtistTest');
@@ -7,7 +7,7 @@ import { processVenueEvents, processArtistEvents } from './chain-data-collector'
 import { db } from './db';
 import { venues, artists } from '../shared/schema';
 import { eq } from 'drizzle-orm';
-import { SyncLogger } from './utils/logging';
+import { SyncLogger } from './core/sync-logger';
 
 const logger = new SyncLogger('TestChainCollector');
 
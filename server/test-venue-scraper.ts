@@ -7,7 +7,7 @@ import { scrapeVenueEvents, searchSongkickVenue, getSongkickVenueEvents, process
 import { db } from './db';
 import { venues } from '../shared/schema';
 import { eq } from 'drizzle-orm';
-import { SyncLogger } from './utils/logging';
+import { SyncLogger } from './core/sync-logger';
 
 const logger = new SyncLogger('TestVenueScraper');
 
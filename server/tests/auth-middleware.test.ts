@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import type { Request, Response } from 'express';
+import {
+  DEMO_USER,
+  VENUE_EDITOR_ROLES,
+  checkVenueAccess,
+  hasPermission,
+  hasRole,
+  hasVenueAccess,
+  isAuthenticated,
+  type SessionUser
+} from '../middleware/auth-middleware';
+import { storage } from '../storage';
+
+// Venue memberships: user 3 owns venue 10 and is staff at venue 20
+jest.mock('../storage', () => ({
+  storage: {
+    getVenueMembership: jest.fn(async (venueId: number, userId: number) => {
+      if (userId !== 3) return undefined;
+      if (venueId === 10) return { venueId, userId, role: 'owner' };
+      if (venueId === 20) return { venueId, userId, role: 'staff' };
+      return undefined;
+    })
+  }
+}));
+
+// Just enough of a request and response for the middleware
+function call(
+  middleware: (req: Request, res: Response, next: () => void) => unknown,
+  user?: SessionUser,
+  params: Record<string, string> = {}
+) {
+  const req = { session: { user }, params, body: {} } as unknown as Request;
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    }
+  };
+  const next = jest.fn();
+  return Promise.resolve(middleware(req, res as unknown as Response, next)).then(() => ({ req, res, next }));
+}
+
+const user = (role: string): SessionUser => ({ id: 3, name: 'Alex', role });
+
+describe('isAuthenticated', () => {
+  beforeEach(() => {
+    delete process.env.AUTH_DEMO_MODE;
+  });
+
+  it('lets signed-in users through', async () => {
+    const { next, res } = await call(isAuthenticated, user('user'));
+
+    expect(next).toHaveBeenCalled();
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('answers 401 without a user', async () => {
+    const { next, res } = await call(isAuthenticated);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it('signs requests in as the demo user in demo mode', async () => {
+    process.env.AUTH_DEMO_MODE = 'true';
+    const { next, req } = await call(isAuthenticated);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.session.user).toEqual(DEMO_USER);
+  });
+});
+
+describe('hasPermission', () => {
+  it('allows roles the permission matrix grants it to', async () => {
+    expect((await call(hasPermission('canManageTours'), user('booking_agent'))).next).toHaveBeenCalled();
+    expect((await call(hasPermission('canManageUsers'), user('admin'))).next).toHaveBeenCalled();
+  });
+
+  it('answers 403 for roles without it and 401 without a user', async () => {
+    const denied = await call(hasPermission('canManageTours'), user('user'));
+    expect(denied.next).not.toHaveBeenCalled();
+    expect(denied.res.statusCode).toBe(403);
+
+    expect((await call(hasPermission('canManageUsers'), user('venue_manager'))).res.statusCode).toBe(403);
+    expect((await call(hasPermission('canManageTours'))).res.statusCode).toBe(401);
+  });
+
+  it('grants nothing to unknown roles', async () => {
+    expect((await call(hasPermission('canSendMessages'), user('superuser'))).res.statusCode).toBe(403);
+  });
+});
+
+describe('hasRole', () => {
+  it('allows only the listed roles', async () => {
+    expect((await call(hasRole('admin'), user('admin'))).next).toHaveBeenCalled();
+    expect((await call(hasRole(['admin', 'staff']), user('staff'))).next).toHaveBeenCalled();
+    expect((await call(hasRole('admin'), user('venue_manager'))).res.statusCode).toBe(403);
+    expect((await call(hasRole('admin'))).res.statusCode).toBe(401);
+  });
+});
+
+describe('checkVenueAccess', () => {
+  it('gives members access to their venues', async () => {
+    expect(await checkVenueAccess(user('venue_manager'), 10)).toBe(true);
+    expect(await checkVenueAccess(user('venue_manager'), 20)).toBe(true);
+  });
+
+  it('refuses venues the user is not a member of', async () => {
+    expect(await checkVenueAccess(user('venue_manager'), 30)).toBe(false);
+    expect(await checkVenueAccess({ id: 4, name: 'Jo', role: 'venue_manager' }, 10)).toBe(false);
+  });
+
+  it('limits access to the given member roles', async () => {
+    expect(await checkVenueAccess(user('venue_manager'), 10, VENUE_EDITOR_ROLES)).toBe(true);
+    expect(await checkVenueAccess(user('venue_manager'), 20, VENUE_EDITOR_ROLES)).toBe(false);
+  });
+
+  it('lets admins into every venue without a membership', async () => {
+    expect(await checkVenueAccess({ id: 1, name: 'Admin', role: 'admin' }, 30, VENUE_EDITOR_ROLES)).toBe(true);
+    expect(storage.getVenueMembership).not.toHaveBeenCalledWith(30, 1);
+  });
+});
+
+describe('hasVenueAccess', () => {
+  it('reads the venue from the route params', async () => {
+    expect((await call(hasVenueAccess('id'), user('venue_manager'), { id: '10' })).next).toHaveBeenCalled();
+    expect((await call(hasVenueAccess('id'), user('venue_manager'), { id: '30' })).res.statusCode).toBe(403);
+  });
+
+  it('applies the member roles', async () => {
+    const staff = await call(hasVenueAccess('venueId', VENUE_EDITOR_ROLES), user('venue_manager'), { venueId: '20' });
+
+    expect(staff.next).not.toHaveBeenCalled();
+    expect(staff.res.statusCode).toBe(403);
+  });
+
+  it('answers 400 without a venue and 401 without a user', async () => {
+    expect((await call(hasVenueAccess('id'), user('venue_manager'))).res.statusCode).toBe(400);
+    expect((await call(hasVenueAccess('id'), undefined, { id: '10' })).res.statusCode).toBe(401);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import request from 'supertest';
+import express from 'express';
+import authRoutes from '../routes/auth-routes';
+import { hashPassword } from '../utils/password';
+import { fakeDb } from './route-helpers';
+import { sessionMiddleware } from '../middleware/session-middleware';
+
+jest.mock('../db', () => ({ db: require('./route-helpers').fakeDb.db }));
+
+jest.mock('../storage', () => ({
+  storage: { getVenueMembershipsByUser: jest.fn(async () => []) }
+}));
+
+const app = express();
+app.use(express.json());
+app.use(sessionMiddleware);
+// Starts a session before signing in, as a fixation attempt would
+app.post('/visit', (req, res) => {
+  req.session.currentVenueId = 7;
+  res.json({ success: true });
+});
+app.use('/api/auth', authRoutes);
+
+const sessionCookie = (response: request.Response) =>
+  ([] as string[]).concat(response.headers['set-cookie'] ?? []).find(cookie => cookie.startsWith('connect.sid='))?.split(';')[0];
+
+describe('auth routes', () => {
+  let storedUser: Record<string, unknown>;
+
+  beforeEach(async () => {
+    fakeDb.reset();
+    delete process.env.AUTH_DEMO_MODE;
+    storedUser = {
+      id: 5,
+      username: 'sam',
+      password: await hashPassword('a long password'),
+      name: 'Sam',
+      email: 'sam@example.com',
+      role: 'venue_manager'
+    };
+  });
+
+  it('rejects a wrong password', async () => {
+    fakeDb.queue(storedUser);
+
+    const response = await request(app).post('/api/auth').send({ username: 'sam', password: 'not the password' });
+
+    expect(response.status).toBe(401);
+    expect(sessionCookie(response)).toBeUndefined();
+  });
+
+  it('signs in on a new session and signs out again', async () => {
+    const agent = request.agent(app);
+    fakeDb.queue(storedUser, []);
+
+    const login = await agent.post('/api/auth').send({ username: 'sam', password: 'a long password' });
+    expect(login.status).toBe(200);
+    expect(login.body.user).toEqual({ id: 5, name: 'Sam', role: 'venue_manager' });
+
+    const status = await agent.get('/api/auth/status');
+    expect(status.body.authenticated).toBe(true);
+    expect(status.body.user.id).toBe(5);
+
+    expect((await agent.post('/api/auth/logout')).status).toBe(200);
+    expect((await agent.get('/api/auth/status')).body.authenticated).toBe(false);
+  });
+
+  it('does not sign in the session that existed before signing in', async () => {
+    const visit = await request(app).post('/visit');
+    const before = sessionCookie(visit)!;
+    fakeDb.queue(storedUser, []);
+
+    const login = await request(app).post('/api/auth').set('Cookie', before)
+      .send({ username: 'sam', password: 'a long password' });
+
+    expect(sessionCookie(login)).toBeDefined();
+    expect(sessionCookie(login)).not.toBe(before);
+    expect((await request(app).get('/api/auth/status').set('Cookie', before)).body.authenticated).toBe(false);
+  });
+
+  it('registers every new account as a plain user', async () => {
+    fakeDb.queue(undefined, [{ id: 9, username: 'newbie', name: 'New', role: 'user' }]);
+
+    const response = await request(app).post('/api/auth/register').send({
+      username: 'newbie',
+      name: 'New',
+      email: 'new@example.com',
+      password: 'a long password',
+      role: 'admin'
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.user.role).toBe('user');
+    const [[values]] = fakeDb.argsOf('values') as [[Record<string, unknown>]];
+    expect(values.role).toBe('user');
+    expect(values.password).toMatch(/^scrypt\$/);
+  });
+
+  it('refuses a username or email that is taken', async () => {
+    fakeDb.queue({ id: 5 });
+
+    const response = await request(app).post('/api/auth/register').send({
+      username: 'sam',
+      name: 'Sam',
+      email: 'sam@example.com',
+      password: 'a long password'
+    });
+
+    expect(response.status).toBe(409);
+    expect(fakeDb.argsOf('values')).toHaveLength(0);
+  });
+});
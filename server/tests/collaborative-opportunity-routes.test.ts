@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import request from 'supertest';
+import opportunityRoutes from '../routes/collaborative-opportunity-routes';
+import { loadVenueAvailability } from '../services/venue-availability';
+import { realtime } from '../services/realtime';
+import { createTestApp, fakeDb } from './route-helpers';
+import type { VenueAvailability } from '../../shared/utils/venue-availability';
+
+jest.mock('../db', () => ({ db: require('./route-helpers').fakeDb.db }));
+
+jest.mock('../services/realtime', () => ({
+  realtime: { publishToChannel: jest.fn() },
+  tourChannel: (tourId: number) => `tour:${tourId}`
+}));
+
+jest.mock('../cache/optimization-cache', () => ({
+  optimizationCache: { invalidate: jest.fn() }
+}));
+
+jest.mock('../services/venue-availability', () => ({
+  loadVenueAvailability: jest.fn()
+}));
+
+// User 3 books the creating venue, 40
+jest.mock('../storage', () => ({
+  storage: {
+    getVenueMembership: jest.fn(async (venueId: number, userId: number) =>
+      venueId === 40 && userId === 3 ? { venueId, userId, role: 'booker' } : undefined)
+  }
+}));
+
+const app = createTestApp('/api/venue-network/opportunities', opportunityRoutes, { id: 3, name: 'Sam', role: 'venue_manager' });
+
+const stops = [
+  { participantId: 1, venueId: 40, venueName: 'The Hall', date: '2025-06-12', distanceFromPreviousKm: 0 },
+  { participantId: 2, venueId: 41, venueName: 'The Basement', date: '2025-06-13', distanceFromPreviousKm: 140 }
+];
+
+const opportunity = {
+  id: 7,
+  creatorVenueId: 40,
+  artistId: 5,
+  status: 'ready',
+  dateRangeStart: '2025-06-10',
+  dateRangeEnd: '2025-06-20',
+  proposal: { stops, totalDistanceKm: 140, dateConflicts: [], builtAt: '2025-05-01T00:00:00.000Z' },
+  participants: []
+};
+
+const openEveryNight = (venueId: number): VenueAvailability =>
+  ({ venueId, openWeekdays: [], openDates: [], blackouts: [], booked: [] });
+
+describe('collaborative opportunity routes', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    jest.clearAllMocks();
+  });
+
+  describe('confirming a proposal', () => {
+    it('adds the stops to the tour as suggested tour venues', async () => {
+      jest.mocked(loadVenueAvailability).mockResolvedValue(new Map([[40, openEveryNight(40)], [41, openEveryNight(41)]]));
+      fakeDb.queue(
+        opportunity,
+        { id: 100 }, // the artist's tour over the range
+        [], // none of the stops are on it yet
+        undefined, [{ id: 20, venueId: 40 }], undefined,
+        undefined, [{ id: 21, venueId: 41 }], undefined,
+        undefined, undefined, // network counts and the opportunity
+        { ...opportunity, status: 'confirmed' }
+      );
+
+      const response = await request(app).post('/api/venue-network/opportunities/7/confirm').send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ tourId: 100, opportunity: { status: 'confirmed' } });
+      expect(loadVenueAvailability).toHaveBeenCalledWith([40, 41], '2025-06-12', '2025-06-13');
+      const inserted = (fakeDb.argsOf('values') as [Record<string, unknown>][]).map(([values]) => values);
+      expect(inserted).toEqual([
+        expect.objectContaining({ tourId: 100, venueId: 40, date: '2025-06-12', status: 'suggested' }),
+        expect.objectContaining({ tourId: 100, venueId: 41, date: '2025-06-13', status: 'suggested' })
+      ]);
+      expect(realtime.publishToChannel).toHaveBeenCalledWith('tour:100', {
+        type: 'tour.venuesAdded',
+        tourId: 100,
+        tourVenueIds: [20, 21]
+      });
+    });
+
+    it("refuses stops a venue can't take any more and writes nothing", async () => {
+      jest.mocked(loadVenueAvailability).mockResolvedValue(new Map([[41, {
+        ...openEveryNight(41),
+        booked: [{ date: '2025-06-13', reason: 'confirmedHold', label: 'Other Band (Spring Run)' }]
+      }]]));
+      fakeDb.queue(opportunity, { id: 100 }, [{ venueId: 40, date: '2025-06-12' }]);
+
+      const response = await request(app).post('/api/venue-network/opportunities/7/confirm').send({});
+
+      expect(response.status).toBe(409);
+      expect(response.body.unavailableStops).toEqual([
+        expect.objectContaining({ venueId: 41, date: '2025-06-13', reason: 'Other Band (Spring Run)' })
+      ]);
+      // The stop already on the tour isn't checked again
+      expect(loadVenueAvailability).toHaveBeenCalledWith([41], '2025-06-13', '2025-06-13');
+      expect(fakeDb.argsOf('insert')).toHaveLength(0);
+      expect(fakeDb.argsOf('update')).toHaveLength(0);
+    });
+
+    it('refuses proposals with date conflicts', async () => {
+      fakeDb.queue({ ...opportunity, proposal: { ...opportunity.proposal, dateConflicts: ['2025-06-13'] } });
+
+      const response = await request(app).post('/api/venue-network/opportunities/7/confirm').send({});
+
+      expect(response.status).toBe(409);
+      expect(loadVenueAvailability).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildRoutingProposal, findUnavailableStops, type ProposedStop } from '../services/collaborative-routing';
+import { calculateDistance } from '../../shared/utils/geo';
+import type { VenueAvailability } from '../../shared/utils/venue-availability';
+
+const chicago = { venueId: 1, venueName: 'Chicago', latitude: 41.88, longitude: -87.63 };
+const milwaukee = { venueId: 2, venueName: 'Milwaukee', latitude: 43.04, longitude: -87.91 };
+const detroit = { venueId: 3, venueName: 'Detroit', latitude: 42.33, longitude: -83.05 };
+
+const propose = (venue: typeof chicago, date: string, participantId = venue.venueId): ProposedStop =>
+  ({ ...venue, date, participantId });
+
+const km = (from: typeof chicago, to: typeof chicago) =>
+  Math.round(calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude) * 10) / 10;
+
+describe('collaborative routing', () => {
+  describe('buildRoutingProposal', () => {
+    it('plays the stops in date order with the distance from each previous stop', () => {
+      const proposal = buildRoutingProposal([
+        propose(detroit, '2025-06-14'),
+        propose(chicago, '2025-06-12'),
+        propose(milwaukee, '2025-06-13')
+      ]);
+
+      expect(proposal.stops.map(stop => [stop.venueName, stop.date, stop.distanceFromPreviousKm])).toEqual([
+        ['Chicago', '2025-06-12', 0],
+        ['Milwaukee', '2025-06-13', km(chicago, milwaukee)],
+        ['Detroit', '2025-06-14', km(milwaukee, detroit)]
+      ]);
+      expect(proposal.totalDistanceKm).toBeCloseTo(km(chicago, milwaukee) + km(milwaukee, detroit), 0);
+      expect(proposal.dateConflicts).toEqual([]);
+    });
+
+    it('reports a date claimed twice and plays the nearer venue first', () => {
+      const proposal = buildRoutingProposal([
+        propose(chicago, '2025-06-12'),
+        propose(detroit, '2025-06-13'),
+        propose(milwaukee, '2025-06-13')
+      ]);
+
+      expect(proposal.stops.map(stop => stop.venueName)).toEqual(['Chicago', 'Milwaukee', 'Detroit']);
+      expect(proposal.dateConflicts).toEqual(['2025-06-13']);
+    });
+
+    it('builds an empty proposal from no dates', () => {
+      expect(buildRoutingProposal([])).toMatchObject({ stops: [], totalDistanceKm: 0, dateConflicts: [] });
+    });
+  });
+
+  describe('findUnavailableStops', () => {
+    // Milwaukee is open Thursday to Saturday and booked on Friday 2025-06-13
+    const availability = new Map<number, VenueAvailability>([
+      [2, {
+        venueId: 2,
+        openWeekdays: [4, 5, 6],
+        openDates: [],
+        blackouts: [{ id: 1, startDate: '2025-06-20', endDate: '2025-06-21', reason: 'Renovation' }],
+        booked: [{ date: '2025-06-13', reason: 'confirmedHold', label: 'The Band (Summer Tour)' }]
+      }]
+    ]);
+    const stop = (venue: typeof chicago, date: string) =>
+      ({ participantId: venue.venueId, venueId: venue.venueId, venueName: venue.venueName, date, distanceFromPreviousKm: 0 });
+
+    it('finds booked, blacked out and closed nights with the reason', () => {
+      expect(findUnavailableStops([
+        stop(milwaukee, '2025-06-13'),
+        stop(milwaukee, '2025-06-20'),
+        stop(milwaukee, '2025-06-16')
+      ], availability).map(unavailable => [unavailable.date, unavailable.reason])).toEqual([
+        ['2025-06-13', 'The Band (Summer Tour)'],
+        ['2025-06-20', 'Renovation'],
+        ['2025-06-16', 'Not open on Mondays']
+      ]);
+    });
+
+    it('passes open nights and venues without availability', () => {
+      expect(findUnavailableStops([stop(milwaukee, '2025-06-14'), stop(chicago, '2025-06-16')], availability)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderHtml, renderPdf, type PrintDocument } from '../services/documents';
+import { wrapText } from '../services/documents/pdf';
+
+const document: PrintDocument = {
+  title: 'Day sheet: The Band at <The Hall>',
+  footer: 'The Band · Summer Tour',
+  blocks: [
+    { type: 'title', text: 'The Band — The Hall', subtitle: 'Friday, June 13, 2025' },
+    { type: 'heading', text: 'Schedule' },
+    { type: 'fields', fields: [['Load-in', '16:00'], ['Doors', null]] },
+    { type: 'pageBreak' },
+    { type: 'table', columns: ['Date', 'Venue'], widths: [0.3, 0.7], rows: [['Fri, Jun 13', 'The Hall']] }
+  ]
+};
+
+describe('documents', () => {
+  it('renders escaped, printable HTML', () => {
+    const html = renderHtml(document);
+
+    expect(html).toContain('<title>Day sheet: The Band at &lt;The Hall&gt;</title>');
+    expect(html).toContain('<dt>Doors</dt><dd>—</dd>');
+    expect(html).toContain('<div class="page-break"></div>');
+  });
+
+  it('writes a PDF with a page per page break and a valid cross-reference table', () => {
+    const pdf = renderPdf(document).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+
+    const xref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe('xref');
+    const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true));
+  });
+
+  it('wraps text at spaces to the width', () => {
+    expect(wrapText('Load-in at the back door on Mill Lane', 'regular', 10, 100)).toEqual([
+      'Load-in at the back',
+      'door on Mill Lane'
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  classifyMatch,
+  findDuplicatePairs,
+  nameSimilarity,
+  normalizeName,
+  scoreArtistMatch,
+  scoreVenueMatch,
+  venueBlockKey
+} from '../../shared/utils/entity-matching';
+
+const bugJar = { id: 1, name: 'The Bug Jar', city: 'Rochester', latitude: 43.1497, longitude: -77.5917 };
+
+describe('entity matching', () => {
+  it('normalizes articles, ampersands and punctuation', () => {
+    expect(normalizeName('The Bug Jar')).toBe('bug jar');
+    expect(normalizeName('Bug Jar!')).toBe('bug jar');
+    expect(normalizeName('Café Wha?')).toBe('cafe wha');
+    expect(normalizeName('Mercy Lounge & Cannery')).toBe('mercy lounge and cannery');
+    expect(nameSimilarity('The Bug Jar', 'BugJar')).toBeGreaterThan(0.9);
+  });
+
+  it('matches the same venue under another name and keeps distant namesakes apart', () => {
+    const sameSite = scoreVenueMatch({ name: 'Bug Jar', latitude: 43.1499, longitude: -77.5915 }, bugJar);
+    expect(classifyMatch(sameSite.score)).toBe('match');
+    expect(sameSite.reasons).toContain('28 m apart');
+
+    const namesake = scoreVenueMatch({ name: 'Bug Jar', latitude: 40.7128, longitude: -74.006 }, bugJar);
+    expect(classifyMatch(namesake.score)).not.toBe('match');
+
+    const otherCity = scoreVenueMatch({ name: 'The Bug Jar', city: 'Buffalo' }, { name: 'The Bug Jar', city: 'Rochester' });
+    expect(otherCity.score).toBe(0.6);
+  });
+
+  it('lets external IDs settle a match either way', () => {
+    expect(scoreArtistMatch({ name: 'Beths', bandsintownId: '42' }, { name: 'The Beths', bandsintownId: '42' }))
+      .toEqual({ score: 1, reasons: ['same bandsintownId'] });
+    expect(scoreVenueMatch({ name: 'Bug Jar', googlePlaceId: 'a' }, { ...bugJar, googlePlaceId: 'b' }).score).toBe(0);
+  });
+
+  it('pairs duplicates within a city with the newer record as the source', () => {
+    const pairs = findDuplicatePairs([
+      bugJar,
+      { id: 7, name: 'Bug Jar', city: 'Rochester', latitude: 43.1498, longitude: -77.5916 },
+      { id: 9, name: 'Bug Jar', city: 'Portland', latitude: 45.5152, longitude: -122.6784 },
+      { id: 12, name: 'Anthology', city: 'Rochester', latitude: 43.1545, longitude: -77.6039 }
+    ], venueBlockKey, scoreVenueMatch);
+
+    expect(pairs.map(pair => [pair.source.id, pair.target.id])).toEqual([[7, 1]]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_PRECEDENCE_RULES,
+  loadPrecedenceRules,
+  normalizeEventFields,
+  normalizeEventTime,
+  resolveEventFields,
+  type SourceObservation
+} from '../../shared/utils/event-ingestion';
+
+const observation = (source: string, fields: SourceObservation['fields'], fetchedAt: string, confidence = 0.8): SourceObservation => ({
+  source,
+  fields,
+  confidence,
+  fetchedAt: new Date(fetchedAt)
+});
+
+describe('event ingestion rules', () => {
+  it('normalizes dates, times, statuses and ticket links', () => {
+    expect(normalizeEventFields({ date: '2025-06-07T20:30:00', status: 'Canceled', ticketUrl: 'not a url' }))
+      .toEqual({ date: '2025-06-07', startTime: '20:30', status: 'cancelled' });
+    expect(normalizeEventFields({ date: '2025-6-7', startTime: '8pm', ticketUrl: 'https://tix.example.com/1' }))
+      .toEqual({ date: '2025-06-07', startTime: '20:00', ticketUrl: 'https://tix.example.com/1' });
+    expect(normalizeEventTime('12:15 a.m.')).toBe('00:15');
+    expect(normalizeEventTime('soon')).toBeNull();
+    expect(normalizeEventFields({ date: 'TBA' })).toBeNull();
+  });
+
+  it('takes each field from the most trusted source and reports disagreements', () => {
+    const { values, provenance, conflicts } = resolveEventFields([
+      observation('web_scraping', { date: '2025-06-07', startTime: '20:00', ticketUrl: 'https://a.example.com' }, '2025-05-02T00:00:00Z'),
+      observation('bandsintown', { date: '2025-06-07', startTime: '21:00' }, '2025-05-01T00:00:00Z', 0.9)
+    ]);
+
+    expect(values).toEqual({ date: '2025-06-07', startTime: '21:00', ticketUrl: 'https://a.example.com' });
+    expect(provenance.startTime).toEqual({ source: 'bandsintown', fetchedAt: '2025-05-01T00:00:00.000Z', confidence: 0.9 });
+    expect(provenance.ticketUrl?.source).toBe('web_scraping');
+    expect(conflicts).toEqual([
+      { field: 'startTime', value: '21:00', source: 'bandsintown', others: [{ source: 'web_scraping', value: '20:00' }] }
+    ]);
+  });
+
+  it('lets the latest report decide the status', () => {
+    const { values, provenance } = resolveEventFields([
+      observation('bandsintown', { date: '2025-06-07', status: 'confirmed' }, '2025-05-01T00:00:00Z'),
+      observation('web_scraping', { date: '2025-06-07', status: 'cancelled' }, '2025-05-03T00:00:00Z')
+    ]);
+
+    expect(values.status).toBe('cancelled');
+    expect(provenance.status?.source).toBe('web_scraping');
+  });
+
+  it('reads precedence overrides from the environment', () => {
+    const rules = loadPrecedenceRules({
+      EVENT_SOURCE_PRECEDENCE: 'web_scraping, bandsintown',
+      EVENT_FIELD_RULES: 'status:precedence,startTime:confidence,venue:latest'
+    });
+
+    expect(rules.sources.slice(0, 3)).toEqual(['web_scraping', 'bandsintown', 'manual']);
+    expect(rules.sources.filter(source => source === 'bandsintown')).toHaveLength(1);
+    expect(rules.fields).toEqual({ ...DEFAULT_PRECEDENCE_RULES.fields, status: 'precedence', startTime: 'confidence' });
+  });
+});
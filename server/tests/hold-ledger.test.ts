@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  HoldLedgerError,
+  confirmHold,
+  expireChallenges,
+  nextHoldRank,
+  releaseHold,
+  type LedgerHold
+} from '../../shared/utils/hold-ledger';
+
+function stack(count: number): LedgerHold[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: index + 1,
+    status: 'active',
+    rank: index + 1,
+    challengedById: null,
+    challengeDeadline: null
+  }));
+}
+
+const deadline = new Date('2025-03-03T12:00:00Z');
+
+describe('hold ledger', () => {
+  it('promotes the holds below a released hold', () => {
+    const { holds, transitions } = releaseHold(stack(3), 1);
+
+    expect(holds.map(hold => [hold.id, hold.status, hold.rank])).toEqual([
+      [1, 'released', null],
+      [2, 'active', 1],
+      [3, 'active', 2]
+    ]);
+    expect(transitions).toEqual([
+      { holdId: 1, type: 'released', rank: null },
+      { holdId: 2, type: 'promoted', rank: 1 },
+      { holdId: 3, type: 'promoted', rank: 2 }
+    ]);
+    expect(nextHoldRank(holds)).toBe(3);
+  });
+
+  it('confirms the 1st hold and bumps the rest', () => {
+    const { holds, transitions } = confirmHold(stack(3), 1, deadline);
+
+    expect(holds.map(hold => hold.status)).toEqual(['confirmed', 'released', 'released']);
+    expect(transitions.map(transition => transition.type)).toEqual(['bumped', 'bumped', 'confirmed']);
+    expect(() => nextHoldRank(holds)).toThrow(HoldLedgerError);
+  });
+
+  it('has a lower hold challenge the holds above it and confirm once they release', () => {
+    const challenged = confirmHold(stack(3), 3, deadline);
+
+    expect(challenged.holds.map(hold => hold.challengedById)).toEqual([3, 3, null]);
+    expect(challenged.holds[2].challengeDeadline).toEqual(deadline);
+    expect(() => confirmHold(challenged.holds, 2, deadline)).toThrow(HoldLedgerError);
+
+    const firstReleased = releaseHold(challenged.holds, 1);
+    expect(firstReleased.holds.map(hold => [hold.status, hold.rank])).toEqual([
+      ['released', null],
+      ['active', 1],
+      ['active', 2]
+    ]);
+
+    const { holds, transitions } = releaseHold(firstReleased.holds, 2);
+    expect(holds[2].status).toBe('confirmed');
+    expect(transitions.map(transition => transition.type)).toEqual(['released', 'promoted', 'confirmed']);
+  });
+
+  it('releases challenged holds that let the deadline pass', () => {
+    const challenged = confirmHold(stack(3), 2, deadline);
+
+    expect(expireChallenges(challenged.holds, new Date('2025-03-02T12:00:00Z')).transitions).toEqual([]);
+
+    const { holds, transitions } = expireChallenges(challenged.holds, new Date('2025-03-03T12:00:01Z'));
+    expect(holds.map(hold => hold.status)).toEqual(['released', 'confirmed', 'released']);
+    expect(transitions.map(transition => [transition.holdId, transition.type])).toEqual([
+      [1, 'challengeExpired'],
+      [2, 'promoted'],
+      [3, 'promoted'],
+      [3, 'bumped'],
+      [2, 'confirmed']
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import request from 'supertest';
+import holdRoutes from '../routes/hold-routes';
+import { confirmHold, findHoldBooking, getVenueHoldCalendar, releaseHold } from '../services/hold-ledger';
+import { createTestApp } from './route-helpers';
+
+// Hold 500 books tour 100 (artist 7) at venue 40
+jest.mock('../services/hold-ledger', () => ({
+  HoldLedgerError: jest.requireActual<typeof import('../../shared/utils/hold-ledger')>('../../shared/utils/hold-ledger').HoldLedgerError,
+  confirmHold: jest.fn(async (id: number) => ({ id, status: 'confirmed' })),
+  releaseHold: jest.fn(async (id: number) => ({ id, status: 'released' })),
+  placeHold: jest.fn(),
+  getVenueHoldCalendar: jest.fn(async () => []),
+  findHoldBooking: jest.fn(async (id: number) => (id === 500 ? { tourId: 100, venueId: 40 } : null)),
+  findTourVenueBooking: jest.fn(async () => null)
+}));
+
+// User 1 manages artist 7, user 3 books venue 40 and user 5 neither
+jest.mock('../storage', () => ({
+  storage: {
+    getUser: jest.fn(async (id: number) => ({ id, artistId: id === 1 ? 7 : null })),
+    getTour: jest.fn(async (id: number) => ({ id, artistId: 7 })),
+    getVenueMembership: jest.fn(async (venueId: number, userId: number) =>
+      venueId === 40 && userId === 3 ? { venueId, userId, role: 'booker' } : undefined)
+  }
+}));
+
+const appFor = (id: number) =>
+  createTestApp('/api/holds', holdRoutes, { id, name: `User ${id}`, role: 'artist_manager' });
+
+describe('hold routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("shows a venue's holds to its members only", async () => {
+    expect((await request(appFor(3)).get('/api/holds/venues/40')).status).toBe(200);
+
+    const response = await request(appFor(5)).get('/api/holds/venues/40');
+
+    expect(response.status).toBe(403);
+    expect(getVenueHoldCalendar).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets the tour's artist managers and the venue's bookers confirm and release", async () => {
+    expect((await request(appFor(1)).post('/api/holds/500/confirm').send({})).status).toBe(200);
+    expect((await request(appFor(3)).post('/api/holds/500/release').send({})).status).toBe(200);
+
+    expect(confirmHold).toHaveBeenCalledWith(500, undefined);
+    expect(releaseHold).toHaveBeenCalledWith(500);
+  });
+
+  it('refuses everyone else', async () => {
+    expect((await request(appFor(5)).post('/api/holds/500/confirm').send({})).status).toBe(403);
+    expect((await request(appFor(5)).post('/api/holds/500/release').send({})).status).toBe(403);
+    expect((await request(appFor(5)).post('/api/holds/501/release').send({})).status).toBe(404);
+
+    expect(findHoldBooking).toHaveBeenCalledTimes(3);
+    expect(confirmHold).not.toHaveBeenCalled();
+    expect(releaseHold).not.toHaveBeenCalled();
+  });
+});
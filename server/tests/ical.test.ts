@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildCalendar, foldLine, IcalParseError, parseCalendar } from '../../shared/utils/ical';
+
+const now = new Date('2025-06-01T12:00:00Z');
+
+describe('iCalendar', () => {
+  it('writes all-day shows and timed load-ins that read back the same', () => {
+    const ics = buildCalendar('The Band – Summer Tour', [
+      {
+        uid: 'tour-venue-7@venueconnect',
+        summary: 'The Band @ The Hall; Leeds, UK',
+        description: 'Doors 19:00\nCurfew 23:00',
+        date: '2025-06-13',
+        status: 'CONFIRMED'
+      },
+      { uid: 'load-in-7@venueconnect', summary: 'Load-in: The Hall', date: '2025-06-13', startTime: '23:30', durationMinutes: 90 }
+    ], now);
+
+    expect(ics).toContain('DTSTART;VALUE=DATE:20250613\r\nDTEND;VALUE=DATE:20250614\r\n');
+    expect(ics).toContain('DTSTART:20250613T233000\r\nDTEND:20250614T010000\r\n');
+    expect(ics).toContain('SUMMARY:The Band @ The Hall\\; Leeds\\, UK\r\n');
+    expect(ics).toContain('DTSTAMP:20250601T120000Z\r\n');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+
+    expect(parseCalendar(ics)).toEqual([
+      {
+        uid: 'tour-venue-7@venueconnect',
+        summary: 'The Band @ The Hall; Leeds, UK',
+        description: 'Doors 19:00\nCurfew 23:00',
+        location: null,
+        startDate: '2025-06-13',
+        endDate: '2025-06-13',
+        startTime: null,
+        status: 'CONFIRMED'
+      },
+      // Ends after midnight, so it still counts as the night of the 13th
+      expect.objectContaining({ startDate: '2025-06-13', endDate: '2025-06-13', startTime: '23:30' })
+    ]);
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const folded = foldLine(line).split('\r\n');
+
+    expect(folded.length).toBeGreaterThan(1);
+    folded.forEach(part => expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75));
+    expect(folded.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+
+  it('reads multi-day events and skips nested components', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:abc',
+      'DTSTART;VALUE=DATE:20250719',
+      'DTEND;VALUE=DATE:20250722',
+      'SUMMARY:Private hire',
+      'BEGIN:VALARM',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\n');
+
+    expect(parseCalendar(ics)).toEqual([expect.objectContaining({
+      summary: 'Private hire',
+      description: null,
+      startDate: '2025-07-19',
+      endDate: '2025-07-21'
+    })]);
+    expect(() => parseCalendar('not a calendar')).toThrow(IcalParseError);
+  });
+});
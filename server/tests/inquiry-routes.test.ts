@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import request from 'supertest';
+import inquiryRoutes from '../routes/inquiry-routes';
+import { storage } from '../storage';
+import { realtime } from '../services/realtime';
+import { publishWebhookEvent } from '../services/outbound-webhooks';
+import { optimizationCache } from '../cache/optimization-cache';
+import { createTestApp, fakeDb } from './route-helpers';
+import type { Inquiry } from '../../shared/schema';
+
+jest.mock('../db', () => ({ db: require('./route-helpers').fakeDb.db }));
+
+jest.mock('../services/realtime', () => ({
+  realtime: { publishToChannel: jest.fn() },
+  tourChannel: (tourId: number) => `tour:${tourId}`
+}));
+
+jest.mock('../services/outbound-webhooks', () => ({
+  publishWebhookEvent: jest.fn()
+}));
+
+jest.mock('../cache/optimization-cache', () => ({
+  optimizationCache: { invalidate: jest.fn() }
+}));
+
+// User 3 books venue 40; inquiries are read from and written back to `current`
+let current: Inquiry | undefined;
+
+jest.mock('../storage', () => ({
+  storage: {
+    getVenueMembership: jest.fn(async (venueId: number, userId: number) =>
+      venueId === 40 && userId === 3 ? { venueId, userId, role: 'booker' } : undefined),
+    getInquiry: jest.fn(async () => current),
+    createInquiry: jest.fn(async (values: Partial<Inquiry>) => ({ id: 9, ...values })),
+    updateInquiry: jest.fn(async (_id: number, values: Partial<Inquiry>) => ({ ...current, ...values }))
+  }
+}));
+
+const artistApp = createTestApp('/api/inquiries', inquiryRoutes, { id: 1, name: 'Robin', role: 'artist_manager' });
+const venueApp = createTestApp('/api/inquiries', inquiryRoutes, { id: 3, name: 'Sam', role: 'venue_manager' });
+const outsiderApp = createTestApp('/api/inquiries', inquiryRoutes, { id: 5, name: 'Alex', role: 'venue_manager' });
+
+function inquiry(overrides: Partial<Inquiry> = {}): Inquiry {
+  return {
+    id: 9,
+    venueId: 40,
+    artistId: 7,
+    senderId: 1,
+    tourId: null,
+    tourVenueId: null,
+    proposedDate: '2025-07-12',
+    offerAmount: 1500,
+    message: 'Friday night?',
+    responseMessage: null,
+    status: 'pending',
+    ...overrides
+  } as Inquiry;
+}
+
+describe('inquiry routes', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    jest.clearAllMocks();
+    current = inquiry();
+  });
+
+  describe('sending an offer', () => {
+    it('creates a pending inquiry from the sender', async () => {
+      fakeDb.queue({ id: 40 }, { id: 7 });
+
+      const response = await request(artistApp).post('/api/inquiries')
+        .send({ venueId: 40, artistId: 7, proposedDate: '2025-07-12', offerAmount: 1500, message: 'Friday night?' });
+
+      expect(response.status).toBe(201);
+      expect(storage.createInquiry).toHaveBeenCalledWith(expect.objectContaining({
+        senderId: 1,
+        status: 'pending',
+        sentAt: expect.any(Date)
+      }));
+      expect(publishWebhookEvent).toHaveBeenCalledWith('inquiry.created', { inquiry: expect.objectContaining({ id: 9, status: 'pending' }) });
+    });
+
+    it("rejects a tour that isn't the artist's", async () => {
+      fakeDb.queue({ id: 40 }, { id: 7 }, undefined);
+
+      const response = await request(artistApp).post('/api/inquiries')
+        .send({ venueId: 40, artistId: 7, tourId: 200, proposedDate: '2025-07-12', message: 'Friday night?' });
+
+      expect(response.status).toBe(400);
+      expect(storage.createInquiry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('countering', () => {
+    it('waits for the artist after a venue counter', async () => {
+      const response = await request(venueApp).post('/api/inquiries/9/counter').send({ offerAmount: 1200 });
+
+      expect(response.status).toBe(200);
+      expect(storage.updateInquiry).toHaveBeenCalledWith(9, expect.objectContaining({
+        status: 'countered',
+        counteredAt: expect.any(Date),
+        offerAmount: 1200,
+        proposedDate: '2025-07-12'
+      }), ['pending']);
+    });
+
+    it('re-sends the offer to the venue after an artist counter', async () => {
+      current = inquiry({ status: 'countered' });
+
+      const response = await request(artistApp).post('/api/inquiries/9/counter').send({ proposedDate: '2025-07-13' });
+
+      expect(response.status).toBe(200);
+      expect(storage.updateInquiry).toHaveBeenCalledWith(9, expect.objectContaining({
+        status: 'pending',
+        sentAt: expect.any(Date),
+        proposedDate: '2025-07-13'
+      }), ['countered']);
+    });
+
+    it('refuses a counter once the inquiry has been answered by someone else', async () => {
+      // Another request answered the inquiry between loading and writing it
+      jest.mocked(storage.updateInquiry).mockResolvedValueOnce(undefined);
+
+      const response = await request(venueApp).post('/api/inquiries/9/counter').send({ offerAmount: 1200 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('The inquiry has already been answered; reload it to see where it stands');
+    });
+
+    it('only lets the side whose turn it is respond', async () => {
+      const response = await request(artistApp).post('/api/inquiries/9/counter').send({ offerAmount: 1800 });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Waiting for the venue to respond');
+      expect(storage.updateInquiry).not.toHaveBeenCalled();
+    });
+
+    it('requires a new date or amount', async () => {
+      const response = await request(venueApp).post('/api/inquiries/9/counter').send({ message: 'Hmm' });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('declining', () => {
+    it('lets either side decline an open inquiry', async () => {
+      for (const app of [artistApp, venueApp]) {
+        const response = await request(app).post('/api/inquiries/9/decline').send({ message: 'Not this time' });
+        expect(response.status).toBe(200);
+      }
+
+      expect(storage.updateInquiry).toHaveBeenLastCalledWith(9, {
+        status: 'declined',
+        declinedAt: expect.any(Date),
+        responseMessage: 'Not this time'
+      }, ['pending', 'countered']);
+    });
+
+    it('refuses a decline once the inquiry has been accepted meanwhile', async () => {
+      jest.mocked(storage.updateInquiry).mockResolvedValueOnce(undefined);
+
+      const response = await request(venueApp).post('/api/inquiries/9/decline').send({});
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('The inquiry has already been answered; reload it to see where it stands');
+    });
+
+    it('refuses closed inquiries and users on neither side', async () => {
+      expect((await request(outsiderApp).post('/api/inquiries/9/decline').send({})).status).toBe(404);
+
+      current = inquiry({ status: 'declined' });
+      const response = await request(venueApp).post('/api/inquiries/9/decline').send({});
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Inquiry is already declined');
+      expect(storage.updateInquiry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('accepting', () => {
+    const tourVenue = { id: 20, tourId: 100, venueId: 40, date: '2025-07-12', status: 'hold' };
+    // Another tour's booking of the venue that night
+    const otherHold = { id: 600, venueId: 40, date: '2025-07-12', tourVenueId: 99, status: 'active', rank: 1, challengedById: null, challengeDeadline: null };
+    // Locking and loading the venue's hold stack for the night
+    const stack = (...holds: unknown[]) => [undefined, holds];
+
+    it("holds the venue's tour date and records the booking on the inquiry", async () => {
+      fakeDb.queue(
+        { id: 100 }, // tour covering the date
+        [current], // the inquiry, locked
+        { id: 20, status: 'potential' }, // the venue's undated row on that tour
+        ...stack(), // checked against the ledger
+        [tourVenue],
+        [tourVenue], [], ...stack(), ...stack(), [{ id: 500, tourVenueId: 20, rank: 1 }], // hold placed
+        [{ ...current, status: 'accepted', tourId: 100, tourVenueId: 20 }]
+      );
+
+      const response = await request(venueApp).post('/api/inquiries/9/accept').send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ status: 'accepted', tourVenue });
+      const [[tourVenueValues], [inquiryValues]] = fakeDb.argsOf('set') as [[Record<string, unknown>], [Record<string, unknown>]];
+      expect(tourVenueValues).toMatchObject({ date: '2025-07-12', status: 'hold' });
+      expect(inquiryValues).toMatchObject({ status: 'accepted', acceptedAt: expect.any(Date), tourId: 100, tourVenueId: 20 });
+      expect(optimizationCache.invalidate).toHaveBeenCalledWith(100);
+
+      const change = { tourId: 100, tourVenueId: 20, venueId: 40, previousStatus: 'potential', status: 'hold' };
+      expect(realtime.publishToChannel).toHaveBeenCalledWith('tour:100', { type: 'tourVenue.statusChanged', ...change });
+      expect(publishWebhookEvent).toHaveBeenCalledWith('tourVenue.statusChanged', change);
+      expect(realtime.publishToChannel).toHaveBeenCalledWith('tour:100', expect.objectContaining({
+        type: 'venueHold.changed',
+        holdId: 500,
+        transition: 'placed'
+      }));
+      expect(fakeDb.pending()).toBe(0);
+    });
+
+    it('adds the venue to the tour when it has no row yet', async () => {
+      current = inquiry({ status: 'countered', tourId: 100 });
+      fakeDb.queue(
+        { id: 100 },
+        [current],
+        undefined,
+        ...stack(),
+        [{ id: 21, tourId: 100, venueId: 40, date: '2025-07-12', status: 'confirmed' }],
+        [], undefined, // no hold of its own, so the confirmation is recorded
+        [{ ...current, status: 'accepted' }]
+      );
+
+      const response = await request(artistApp).post('/api/inquiries/9/accept').send({ bookingStatus: 'confirmed' });
+
+      expect(response.status).toBe(200);
+      const [[values], [hold]] = fakeDb.argsOf('values') as [[Record<string, unknown>], [Record<string, unknown>]];
+      expect(values).toMatchObject({ tourId: 100, venueId: 40, date: '2025-07-12', status: 'confirmed' });
+      expect(hold).toMatchObject({ tourVenueId: 21, date: '2025-07-12', status: 'confirmed' });
+    });
+
+    it("queues the hold behind another tour's hold on the night", async () => {
+      fakeDb.queue(
+        { id: 100 },
+        [current],
+        { id: 20, status: 'potential' },
+        ...stack(otherHold),
+        [tourVenue],
+        [tourVenue], [], ...stack(otherHold), ...stack(otherHold), [{ id: 501, tourVenueId: 20, rank: 2 }],
+        [{ ...current, status: 'accepted' }]
+      );
+
+      const response = await request(venueApp).post('/api/inquiries/9/accept').send({});
+
+      expect(response.status).toBe(200);
+      expect(fakeDb.argsOf('values')).toContainEqual([{ venueId: 40, date: '2025-07-12', tourVenueId: 20, rank: 2 }]);
+    });
+
+    it('refuses a night the venue is confirmed for another show', async () => {
+      fakeDb.queue({ id: 100 }, [current], { id: 20, status: 'potential' }, ...stack({ ...otherHold, status: 'confirmed', rank: null }));
+
+      const response = await request(venueApp).post('/api/inquiries/9/accept').send({});
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('The venue is already confirmed for another show on 2025-07-12');
+      expect(fakeDb.argsOf('set')).toHaveLength(0);
+      expect(fakeDb.argsOf('values')).toHaveLength(0);
+    });
+
+    it("refuses to confirm over another tour's hold", async () => {
+      fakeDb.queue({ id: 100 }, [current], undefined, ...stack(otherHold));
+
+      const response = await request(venueApp).post('/api/inquiries/9/accept').send({ bookingStatus: 'confirmed' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('The venue has 1 hold(s) on 2025-07-12; place a hold and confirm it instead');
+      expect(fakeDb.argsOf('values')).toHaveLength(0);
+      expect(storage.updateInquiry).not.toHaveBeenCalled();
+    });
+
+    it('refuses an inquiry another request answered while it was being accepted', async () => {
+      // A concurrent accept booked it first; the lock waits for that and sees it
+      fakeDb.queue({ id: 100 }, [{ ...current, status: 'accepted', tourId: 101, tourVenueId: 30 }]);
+
+      const response = await request(venueApp).post('/api/inquiries/9/accept').send({});
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('The inquiry has already been answered; reload it to see where it stands');
+      expect(fakeDb.argsOf('for')).toEqual([['update']]);
+      expect(fakeDb.argsOf('set')).toHaveLength(0);
+      expect(fakeDb.argsOf('values')).toHaveLength(0);
+      expect(publishWebhookEvent).not.toHaveBeenCalled();
+      expect(fakeDb.pending()).toBe(0);
+    });
+
+    it('asks for a tour when none covers the date', async () => {
+      fakeDb.queue(undefined);
+
+      const response = await request(venueApp).post('/api/inquiries/9/accept').send({});
+
+      expect(response.status).toBe(409);
+      expect(fakeDb.argsOf('set')).toHaveLength(0);
+    });
+
+    it('refuses inquiries that are already settled or waiting on the other side', async () => {
+      expect((await request(artistApp).post('/api/inquiries/9/accept').send({})).status).toBe(403);
+
+      current = inquiry({ status: 'accepted' });
+      const response = await request(venueApp).post('/api/inquiries/9/accept').send({});
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Inquiry is already accepted');
+      expect(realtime.publishToChannel).not.toHaveBeenCalled();
+    });
+  });
+});
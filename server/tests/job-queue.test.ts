@@ -0,0 +1,59 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_SOURCE_LIMITS,
+  loadSourceLimits,
+  nextCronRun,
+  parseCron,
+  retryDelayMs,
+  sourcesAtCapacity
+} from '../../shared/utils/job-queue';
+
+const next = (cron: string, after: string) => nextCronRun(cron, new Date(after))?.toISOString();
+
+describe('job queue rules', () => {
+  it('reads cron fields with lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 9-17 * * 1-5');
+    expect([...schedule!.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule!.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule!.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron('5/20 0 1,15 * 7')!.minutes]).toEqual([5, 25, 45]);
+    expect([...parseCron('0 0 * * 7')!.daysOfWeek]).toEqual([0]);
+
+    expect(parseCron('0 0 * *')).toBeNull();
+    expect(parseCron('60 * * * *')).toBeNull();
+    expect(parseCron('0 0 31-1 * *')).toBeNull();
+    expect(parseCron('@daily')).toBeNull();
+  });
+
+  it('finds the next run in UTC', () => {
+    expect(next('0 * * * *', '2025-06-07T10:00:00Z')).toBe('2025-06-07T11:00:00.000Z');
+    expect(next('0 3 * * *', '2025-06-07T10:20:30Z')).toBe('2025-06-08T03:00:00.000Z');
+    expect(next('*/15 9-17 * * 1-5', '2025-06-06T17:50:00Z')).toBe('2025-06-09T09:00:00.000Z');
+    expect(next('0 0 29 2 *', '2025-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    expect(next('0 0 30 2 *', '2025-03-01T00:00:00Z')).toBeUndefined();
+  });
+
+  it('runs on either restricted day field, as cron does', () => {
+    // The 1st of the month or any Monday
+    expect(next('0 12 1 * 1', '2025-06-02T13:00:00Z')).toBe('2025-06-09T12:00:00.000Z');
+    expect(next('0 12 1 * 1', '2025-06-28T00:00:00Z')).toBe('2025-06-30T12:00:00.000Z');
+    expect(next('0 12 1 * 1', '2025-06-30T13:00:00Z')).toBe('2025-07-01T12:00:00.000Z');
+  });
+
+  it('doubles the retry delay up to an hour', () => {
+    expect(retryDelayMs(1)).toBe(30 * 1000);
+    expect(retryDelayMs(2)).toBe(60 * 1000);
+    expect(retryDelayMs(4)).toBe(4 * 60 * 1000);
+    expect(retryDelayMs(20)).toBe(60 * 60 * 1000);
+  });
+
+  it('reads source limits from the environment and reports full sources', () => {
+    const limits = loadSourceLimits({ JOB_SOURCE_LIMITS: 'bandsintown:2:2000, songkick:1, openai:0:0' });
+
+    expect(limits.bandsintown).toEqual({ concurrency: 2, minIntervalMs: 2000 });
+    expect(limits.songkick).toEqual({ concurrency: 1, minIntervalMs: 0 });
+    expect(limits.openai).toEqual(DEFAULT_SOURCE_LIMITS.openai);
+
+    expect(sourcesAtCapacity({ bandsintown: 2, internal: 1, scraper: 1 }, limits)).toEqual(['bandsintown', 'scraper']);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import request from 'supertest';
+import messageRoutes from '../routes/message-routes';
+import { realtime } from '../services/realtime';
+import { createTestApp, fakeDb } from './route-helpers';
+
+jest.mock('../db', () => ({ db: require('./route-helpers').fakeDb.db }));
+
+jest.mock('../services/realtime', () => ({
+  realtime: { publishToUsers: jest.fn() }
+}));
+
+// User 1 manages artist 7, whose tour is 100; tour 200 is another artist's. User 1
+// sent inquiry 300 and is not a member of any venue.
+jest.mock('../storage', () => ({
+  storage: {
+    getUser: jest.fn(async (id: number) => ({ id, artistId: id === 1 ? 7 : null })),
+    getTour: jest.fn(async (id: number) => ({ id, artistId: id === 100 ? 7 : 8 })),
+    getInquiry: jest.fn(async (id: number) => ({ id, senderId: id === 300 ? 1 : 9, venueId: 40 })),
+    getVenueMembership: jest.fn(async () => undefined)
+  }
+}));
+
+const app = createTestApp('/api/messages', messageRoutes, { id: 1, name: 'Robin', role: 'artist_manager' });
+
+describe('message routes', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    jest.clearAllMocks();
+  });
+
+  describe('starting a conversation', () => {
+    it('links a tour the user manages and posts the first message', async () => {
+      fakeDb.queue(
+        [{ id: 2 }], // participants exist
+        [{ id: 50, tourId: 100 }], undefined, // conversation and participants
+        [{ id: 70, conversationId: 50 }], undefined, undefined, // message and activity timestamps
+        [{ userId: 1 }, { userId: 2 }] // participants to notify
+      );
+
+      const response = await request(app).post('/api/messages/conversations')
+        .send({ participantIds: [2], tourId: 100, content: 'Hold for the 12th?' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.lastMessage.id).toBe(70);
+      const [[conversation], [participants]] = fakeDb.argsOf('values') as [[Record<string, unknown>], [Array<Record<string, unknown>>]];
+      expect(conversation).toMatchObject({ createdById: 1, tourId: 100 });
+      expect(participants.map(p => p.userId)).toEqual([1, 2]);
+      expect(participants[0].lastReadAt).toBeInstanceOf(Date);
+      expect(participants[1].lastReadAt).toBeNull();
+      expect(realtime.publishToUsers).toHaveBeenCalledWith([1, 2], expect.objectContaining({ type: 'message.created' }));
+    });
+
+    it("refuses to link another artist's tour", async () => {
+      const response = await request(app).post('/api/messages/conversations')
+        .send({ participantIds: [2], tourId: 200 });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Linked tour not found');
+      expect(fakeDb.argsOf('insert')).toHaveLength(0);
+    });
+
+    it('refuses a tour venue that is not on the linked tour', async () => {
+      fakeDb.queue({ tourId: 200, venueId: 40 });
+
+      const response = await request(app).post('/api/messages/conversations')
+        .send({ participantIds: [2], tourId: 100, tourVenueId: 5 });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Linked tour venue not found');
+    });
+
+    it("refuses an inquiry between other users' venue and artist", async () => {
+      const sent = await request(app).post('/api/messages/conversations').send({ participantIds: [2], inquiryId: 301 });
+      expect(sent.status).toBe(404);
+
+      fakeDb.queue([{ id: 2 }], [{ id: 51, inquiryId: 300 }], undefined);
+      const own = await request(app).post('/api/messages/conversations').send({ participantIds: [2], inquiryId: 300 });
+      expect(own.status).toBe(201);
+    });
+  });
+
+  describe('read receipts', () => {
+    it('marks the thread read and tells the other participants', async () => {
+      const lastReadAt = new Date('2025-06-01T10:00:00Z');
+      fakeDb.queue([{ conversationId: 50, userId: 1, lastReadAt }], [{ userId: 1 }, { userId: 2 }]);
+
+      const response = await request(app).post('/api/messages/conversations/50/read');
+
+      expect(response.status).toBe(200);
+      expect(realtime.publishToUsers).toHaveBeenCalledWith([1, 2], {
+        type: 'conversation.read',
+        conversationId: 50,
+        userId: 1,
+        lastReadAt: lastReadAt.toISOString()
+      });
+    });
+
+    it("answers 404 for a thread the user isn't in", async () => {
+      fakeDb.queue([]);
+
+      const response = await request(app).post('/api/messages/conversations/51/read');
+
+      expect(response.status).toBe(404);
+      expect(realtime.publishToUsers).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unread counts', () => {
+    it('returns the unread total, or zero without messages', async () => {
+      fakeDb.queue([{ count: 4 }], []);
+
+      expect((await request(app).get('/api/messages/unread-count')).body).toEqual({ unreadCount: 4 });
+      expect((await request(app).get('/api/messages/unread-count')).body).toEqual({ unreadCount: 0 });
+    });
+
+    it('lists each conversation with its unread count and last message', async () => {
+      fakeDb.queue(
+        [{ conversation: { id: 50 }, lastReadAt: null, unreadCount: 2 }],
+        [{ id: 70, conversationId: 50, content: 'Hi' }],
+        [{ conversationId: 50, userId: 1 }, { conversationId: 50, userId: 2 }]
+      );
+
+      const response = await request(app).get('/api/messages/conversations');
+
+      expect(response.body).toEqual([expect.objectContaining({
+        id: 50,
+        unreadCount: 2,
+        lastMessage: expect.objectContaining({ id: 70 })
+      })]);
+      expect(response.body[0].participants).toHaveLength(2);
+    });
+  });
+});
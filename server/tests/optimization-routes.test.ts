@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import request from 'supertest';
+import optimizationRoutes from '../routes/optimization-routes';
+import { createTestApp, fakeDb } from './route-helpers';
+
+jest.mock('../db', () => ({ db: require('./route-helpers').fakeDb.db }));
+
+jest.mock('../services/outbound-webhooks', () => ({
+  publishWebhookEvent: jest.fn()
+}));
+
+const app = createTestApp('/api/v1/optimization', optimizationRoutes, { id: 1, name: 'Robin', role: 'artist_manager' });
+
+const run = {
+  id: 42,
+  tourId: 1,
+  kind: 'optimization',
+  appliedAt: null,
+  result: {
+    tourVenues: [
+      { tourVenueId: 11, venue: { id: 101, name: 'The Hall', city: 'Chicago' }, suggestedDate: '2025-06-05T00:00:00.000Z' }
+    ]
+  }
+};
+
+describe('optimization routes', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  describe('applying a run', () => {
+    it('refuses a run that was already applied', async () => {
+      fakeDb.queue({ id: 1 }, { ...run, appliedAt: new Date('2025-05-01T12:00:00Z') });
+
+      const response = await request(app).post('/api/v1/optimization/tours/1/apply').send({ runId: 42 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Optimization run 42 has already been applied');
+      expect(fakeDb.argsOf('set')).toHaveLength(0);
+    });
+
+    it('refuses stops the run did not propose', async () => {
+      fakeDb.queue({ id: 1 }, run);
+
+      const response = await request(app).post('/api/v1/optimization/tours/1/apply')
+        .send({ runId: 42, stops: [{ tourVenueId: 12, venueId: 102 }] });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Tour venue 12 is not on the optimized route');
+    });
+
+    it('answers 404 for a run of another tour', async () => {
+      fakeDb.queue({ id: 1 }, undefined);
+
+      const response = await request(app).post('/api/v1/optimization/tours/1/apply').send({ runId: 43 });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
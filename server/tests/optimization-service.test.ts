@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { optimizationCache } from '../cache/optimization-cache';
+import { haversineMatrix } from '../../shared/utils/geo';
+import { resolveCostRates } from '../../shared/utils/tour-finance';
+import {
+  OPTIMIZATION_API_VERSION,
+  OptimizationApplyError,
+  diffRoutes,
+  optimizeTour,
+  selectRunStops,
+  type OptimizationContext,
+  type RunStop,
+  type TourStop
+} from '../services/optimization';
+
+// Runs are stored in the database, which the tests do not have
+jest.mock('../services/optimization/runs', () => ({
+  ...jest.requireActual<typeof import('../services/optimization/runs')>('../services/optimization/runs'),
+  recordOptimizationRun: jest.fn(async () => ({ id: 42 }))
+}));
+
+// Subscribers are looked up in the database too
+jest.mock('../services/outbound-webhooks', () => ({
+  publishWebhookEvent: jest.fn()
+}));
+
+// Tour venues one degree of longitude apart along the 40th parallel, listed out of route order
+function tourStop(id: number, position: number, extra: Partial<TourStop> = {}): TourStop {
+  return {
+    id,
+    tourId: 1,
+    venueId: 100 + id,
+    date: null,
+    status: 'potential',
+    sequence: id,
+    venue: { id: 100 + id, name: `Venue ${id}`, city: `City ${id}`, latitude: 40, longitude: -100 + position },
+    ...extra
+  } as TourStop;
+}
+
+function tourContext(stops: TourStop[]): OptimizationContext {
+  return {
+    tour: { id: 1, artistId: 1, startDate: '2025-06-01', endDate: '2025-06-30' } as OptimizationContext['tour'],
+    artist: null,
+    preferences: null,
+    stops,
+    travel: haversineMatrix,
+    rates: resolveCostRates(null),
+    bookings: [],
+    availability: new Map()
+  };
+}
+
+const shuffled = [3, 0, 4, 1, 2].map((position, index) => tourStop(index + 1, position));
+
+describe('optimizeTour', () => {
+  beforeEach(() => {
+    optimizationCache.clear();
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  it('returns every tour venue once with the contract envelope', async () => {
+    const result = await optimizeTour(tourContext(shuffled), { strategy: 'standard', options: { seed: 7 } });
+
+    expect(result.version).toBe(OPTIMIZATION_API_VERSION);
+    expect(result.tourId).toBe(1);
+    expect(result.runId).toBe(42);
+    expect(result.strategy).toBe('standard');
+    expect(result.tourVenues.map(stop => stop.tourVenueId).sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(result.totalDistance).toBeLessThan(result.baseline.totalDistance);
+  });
+
+  it('keeps confirmed dates when asked to respect them', async () => {
+    const stops = shuffled.map(stop => stop.id === 2 ? { ...stop, status: 'confirmed', date: '2025-06-10' } : stop);
+    const result = await optimizeTour(tourContext(stops), { strategy: 'standard', options: { respectFixedDates: true } });
+    const confirmed = result.tourVenues.find(stop => stop.tourVenueId === 2)!;
+
+    expect(confirmed.isFixed).toBe(true);
+    expect(confirmed.suggestedDate?.toISOString().slice(0, 10)).toBe('2025-06-10');
+  });
+
+  it('falls back to the standard strategy and does not cache the fallback', async () => {
+    const request = { strategy: 'ai' as const };
+    const result = await optimizeTour(tourContext(shuffled), request);
+
+    expect(result.requestedStrategy).toBe('ai');
+    expect(result.strategy).toBe('standard');
+    expect(result.fallbackReason).toBeDefined();
+    expect(optimizationCache.get(1, request)).toBeNull();
+  });
+
+  it('explains the projected net revenue of the revenue goal against the current route', async () => {
+    const stops = shuffled.map(stop => ({ ...stop, venue: { ...stop.venue, capacity: 200, marketCategory: 'primary' } }) as TourStop);
+    const result = await optimizeTour(tourContext(stops), { strategy: 'standard', options: { optimizeFor: 'revenue', seed: 7 } });
+    const revenue = result.revenue!;
+
+    // 60% of a 200 seat room at the default ticket price, five times over
+    expect(revenue.projected.ticketGross).toBe(5 * 120 * 25);
+    expect(revenue.distanceChange).toBeLessThan(0);
+    expect(revenue.netChange).toBeGreaterThan(0);
+    expect(result.reasoning).toContain(revenue.explanation);
+    expect(result.scoreBreakdown.score).toBe(result.optimizationScore);
+  });
+
+  it('serves repeated requests from the cache', async () => {
+    const request = { strategy: 'standard' as const };
+    const first = await optimizeTour(tourContext(shuffled), request);
+
+    expect(await optimizeTour(tourContext(shuffled), request)).toBe(first);
+  });
+});
+
+function runStop(tourVenueId: number | null, venueId: number, date: string | null = null): RunStop {
+  return {
+    tourVenueId,
+    venueId,
+    venueName: `Venue ${venueId}`,
+    city: null,
+    latitude: 40,
+    longitude: -100,
+    date,
+    status: 'potential',
+    sequence: null
+  };
+}
+
+describe('diffRoutes', () => {
+  it('reports moved, re-dated, added and removed venues', () => {
+    const from = [runStop(1, 101), runStop(2, 102, '2025-06-02'), runStop(3, 103)];
+    const to = [runStop(2, 102, '2025-06-05'), runStop(1, 101), runStop(null, 200)];
+    const changes = diffRoutes(from, to);
+
+    expect(changes.map(change => [change.venueId, change.type])).toEqual([
+      [102, 'changed'],
+      [101, 'changed'],
+      [200, 'added'],
+      [103, 'removed']
+    ]);
+    expect(changes[0]).toMatchObject({ positionChanged: true, dateChanged: true });
+    expect(changes[3].from).toEqual({ position: 3, date: null });
+  });
+
+  it('marks identical routes as unchanged', () => {
+    const route = [runStop(1, 101, '2025-06-01'), runStop(2, 102)];
+    expect(diffRoutes(route, route).every(change => change.type === 'unchanged')).toBe(true);
+  });
+});
+
+describe('selectRunStops', () => {
+  const route = [runStop(2, 102, '2025-06-05'), runStop(1, 101, '2025-06-07'), runStop(null, 200, '2025-06-06')];
+
+  it('applies the whole route when no stops are chosen', () => {
+    expect(selectRunStops(route)).toBe(route);
+  });
+
+  it("keeps the run's order and dates for the chosen stops", () => {
+    const selected = selectRunStops(route, [{ tourVenueId: 1, venueId: 101 }, { venueId: 200 }]);
+
+    expect(selected.map(stop => [stop.tourVenueId, stop.venueId, stop.date])).toEqual([
+      [1, 101, '2025-06-07'],
+      [null, 200, '2025-06-06']
+    ]);
+  });
+
+  it('refuses stops that are not on the route', () => {
+    expect(() => selectRunStops(route, [{ tourVenueId: 3, venueId: 103 }])).toThrow(OptimizationApplyError);
+    // A tour venue asked for with another venue, and a gap filler the run didn't suggest
+    expect(() => selectRunStops(route, [{ tourVenueId: 1, venueId: 102 }])).toThrow('Tour venue 1 is not on the optimized route');
+    expect(() => selectRunStops(route, [{ venueId: 300 }])).toThrow('Venue 300 is not on the optimized route');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import { WEBHOOK_SIGNATURE_HEADER, subscribesTo, truncateResponseBody } from '../../shared/utils/outbound-webhooks';
+import { signWebhookPayload, verifyWebhookSignature } from '../webhooks/signature';
+import {
+  WebhookDeliveryError,
+  WebhookSubscriptionError,
+  listSubscriptions,
+  redeliver,
+  runWebhookDelivery
+} from '../services/outbound-webhooks';
+import { fakeDb } from './route-helpers';
+
+jest.mock('../db', () => ({ db: require('./route-helpers').fakeDb.db }));
+
+jest.mock('axios');
+const mockedPost = axios.post as jest.MockedFunction<typeof axios.post>;
+
+describe('outbound webhook rules', () => {
+  it('sends every event to a subscription without a filter', () => {
+    expect(subscribesTo([], 'tour.optimized')).toBe(true);
+    expect(subscribesTo(['tour.optimized'], 'tour.optimized')).toBe(true);
+    expect(subscribesTo(['inquiry.created'], 'tour.optimized')).toBe(false);
+  });
+
+  it('keeps response bodies to the log limit', () => {
+    expect(truncateResponseBody('ok')).toBe('ok');
+    expect(truncateResponseBody('abcdef', 3)).toBe('abc…');
+    expect(truncateResponseBody('x'.repeat(5000))).toHaveLength(2001);
+  });
+});
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ id: 'evt-1', type: 'tour.optimized', data: { tourId: 7 } });
+
+  it('accepts the signature of the body it was made from', () => {
+    const signature = signWebhookPayload(body, 'secret');
+
+    expect(signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(body, signature, 'secret')).toBe(true);
+  });
+
+  it('rejects another secret, a changed body or a malformed signature', () => {
+    const signature = signWebhookPayload(body, 'secret');
+
+    expect(verifyWebhookSignature(body, signature, 'other')).toBe(false);
+    expect(verifyWebhookSignature(body.replace('7', '8'), signature, 'secret')).toBe(false);
+    expect(verifyWebhookSignature(body, signature.slice(0, 10), 'secret')).toBe(false);
+  });
+});
+
+describe('webhook deliveries', () => {
+  const subscription = {
+    id: 3,
+    name: 'Ticketing',
+    url: 'https://hooks.example.com/tours',
+    secret: 'secret',
+    eventTypes: [],
+    isEnabled: true
+  };
+  const delivery = {
+    id: 70,
+    subscriptionId: 3,
+    eventType: 'tour.optimized',
+    payload: { id: 'evt-1', type: 'tour.optimized', data: { tourId: 7 } },
+    status: 'pending',
+    attempts: 1
+  };
+  // What the delivery's update writes, from the fake db's recorded calls
+  const written = () => fakeDb.argsOf('set')[0][0] as Record<string, unknown>;
+
+  beforeEach(() => {
+    fakeDb.reset();
+    mockedPost.mockReset();
+  });
+
+  it('posts the signed body and records the delivery', async () => {
+    mockedPost.mockResolvedValue({ status: 204, data: '' });
+    fakeDb.queue([{ delivery, subscription }], [{ ...delivery, status: 'succeeded' }], []);
+
+    await runWebhookDelivery(70, false);
+
+    const [url, body, config] = mockedPost.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/tours');
+    expect(config?.headers).toMatchObject({ [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(String(body), 'secret') });
+    expect(written()).toMatchObject({ status: 'succeeded', attempts: 2, responseStatus: 204, error: null });
+    expect(fakeDb.argsOf('set')[1]).toEqual([{ lastDeliveredAt: expect.any(Date) }]);
+  });
+
+  it('throws on a response outside 2xx so the job is retried', async () => {
+    mockedPost.mockResolvedValue({ status: 500, data: 'Down for maintenance' });
+    fakeDb.queue([{ delivery, subscription }], [{ ...delivery, status: 'pending', error: 'Responded with 500' }]);
+
+    await expect(runWebhookDelivery(70, false)).rejects.toThrow(WebhookDeliveryError);
+
+    expect(written()).toMatchObject({
+      status: 'pending',
+      responseStatus: 500,
+      responseBody: 'Down for maintenance',
+      error: 'Responded with 500',
+      deliveredAt: null
+    });
+    expect(fakeDb.pending()).toBe(0);
+  });
+
+  it('marks the delivery failed when the last attempt fails', async () => {
+    mockedPost.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    fakeDb.queue([{ delivery, subscription }], [{ ...delivery, status: 'failed', error: 'connect ECONNREFUSED' }]);
+
+    await expect(runWebhookDelivery(70, true)).rejects.toThrow('Delivery 70 failed: connect ECONNREFUSED');
+
+    expect(written()).toMatchObject({ status: 'failed', responseStatus: null, error: 'connect ECONNREFUSED' });
+  });
+
+  it('fails deliveries for a disabled subscription without posting', async () => {
+    fakeDb.queue([{ delivery, subscription: { ...subscription, isEnabled: false } }], [{ ...delivery, status: 'failed' }]);
+
+    const skipped = await runWebhookDelivery(70, false);
+
+    expect(skipped?.status).toBe('failed');
+    expect(written()).toEqual({ status: 'failed', error: 'Subscription was disabled before delivery' });
+    expect(mockedPost).not.toHaveBeenCalled();
+  });
+
+  it('refuses to redeliver a delivery that is still pending', async () => {
+    fakeDb.queue([delivery]);
+
+    await expect(redeliver(70)).rejects.toThrow(WebhookSubscriptionError);
+
+    expect(fakeDb.argsOf('set')).toHaveLength(0);
+  });
+
+  it('lists subscriptions without their secrets', async () => {
+    fakeDb.queue([]);
+
+    await listSubscriptions();
+
+    const [[columns]] = fakeDb.argsOf('select') as [[Record<string, unknown>]];
+    expect(columns).toHaveProperty('url');
+    expect(columns).not.toHaveProperty('secret');
+  });
+});
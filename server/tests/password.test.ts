@@ -0,0 +1,27 @@
+import { describe, it, expect } from '@jest/globals';
+import { hashPassword, isPasswordHash, verifyPassword } from '../utils/password';
+
+describe('password hashing', () => {
+  it('stores a salted scrypt hash that verifies the password', async () => {
+    const stored = await hashPassword('correct horse battery');
+
+    expect(stored).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    expect(isPasswordHash(stored)).toBe(true);
+    expect(await verifyPassword('correct horse battery', stored)).toBe(true);
+    expect(await verifyPassword('correct horse battery!', stored)).toBe(false);
+  });
+
+  it('salts every hash differently', async () => {
+    const [first, second] = await Promise.all([hashPassword('same password'), hashPassword('same password')]);
+
+    expect(first).not.toBe(second);
+    expect(await verifyPassword('same password', second)).toBe(true);
+  });
+
+  it('rejects legacy plain-text and malformed values', async () => {
+    expect(isPasswordHash('hunter22')).toBe(false);
+    expect(isPasswordHash('bcrypt$salt$key')).toBe(false);
+    expect(await verifyPassword('hunter22', 'hunter22')).toBe(false);
+    expect(await verifyPassword('hunter22', 'scrypt$abcd$00ff')).toBe(false);
+  });
+});
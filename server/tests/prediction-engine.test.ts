@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  findRoutingGaps,
+  scoreCapacityFit,
+  scoreDistance,
+  scoreGenreOverlap,
+  scorePreferences,
+  type ArtistEventStop,
+  type PredictionVenue
+} from '../services/prediction-engine';
+
+function stop(eventId: number, date: string, city: string, latitude: number, longitude: number): ArtistEventStop {
+  return { eventId, artistId: 1, venueId: 100 + eventId, date, city, latitude, longitude };
+}
+
+const chicago = stop(1, '2025-03-01', 'Chicago', 41.8781, -87.6298);
+const detroit = stop(2, '2025-03-05', 'Detroit', 42.3314, -83.0458);
+
+// Kalamazoo sits on the drive from Chicago to Detroit
+const kalamazoo: PredictionVenue = { id: 7, city: 'Kalamazoo', latitude: 42.2917, longitude: -85.5872, capacity: 500 };
+const nashville: PredictionVenue = { id: 8, city: 'Nashville', latitude: 36.1627, longitude: -86.7816, capacity: 500 };
+
+describe('findRoutingGaps', () => {
+  const options = { maxDetourKm: 300, earliestDate: '2025-01-01' };
+
+  it('suggests a date between shows for a venue on the route', () => {
+    const [gap] = findRoutingGaps([detroit, chicago], kalamazoo, options);
+
+    expect(gap.before.eventId).toBe(1);
+    expect(gap.after.eventId).toBe(2);
+    expect(gap.detourKm).toBeLessThan(50);
+    // Kalamazoo is a little over half way, so the date falls in the middle of the break
+    expect(gap.suggestedDate).toBe('2025-03-03');
+  });
+
+  it('skips venues too far off the route', () => {
+    expect(findRoutingGaps([chicago, detroit], nashville, options)).toEqual([]);
+  });
+
+  it('skips back-to-back shows and long breaks', () => {
+    const nextDay = { ...detroit, date: '2025-03-02' };
+    const monthLater = { ...detroit, date: '2025-04-01' };
+
+    expect(findRoutingGaps([chicago, nextDay], kalamazoo, options)).toEqual([]);
+    expect(findRoutingGaps([chicago, monthLater], kalamazoo, options)).toEqual([]);
+  });
+
+  it('moves the date back to respect the venue notice period', () => {
+    const [gap] = findRoutingGaps([chicago, detroit], kalamazoo, { ...options, earliestDate: '2025-03-04' });
+    expect(gap.suggestedDate).toBe('2025-03-04');
+
+    expect(findRoutingGaps([chicago, detroit], kalamazoo, { ...options, earliestDate: '2025-03-05' })).toEqual([]);
+  });
+});
+
+describe('prediction scores', () => {
+  it('scores distance against the detour limit', () => {
+    expect(scoreDistance(0, 300)).toBe(1);
+    expect(scoreDistance(150, 300)).toBe(0.5);
+    expect(scoreDistance(400, 300)).toBe(0);
+  });
+
+  it('scores shared, related and unrelated genres', () => {
+    const rock = { id: 1, slug: 'rock', parentId: null };
+    const indieRock = { id: 2, slug: 'indie-rock', parentId: 1 };
+    const jazz = { id: 3, slug: 'jazz', parentId: null };
+
+    expect(scoreGenreOverlap([rock], [rock])).toBe(1);
+    expect(scoreGenreOverlap([indieRock], [rock])).toBe(0.6);
+    expect(scoreGenreOverlap([jazz], [rock])).toBe(0);
+    expect(scoreGenreOverlap([], [rock])).toBe(0.5);
+  });
+
+  it('prefers rooms sized for the artist draw', () => {
+    expect(scoreCapacityFit(800, 36)).toBe(1);
+    expect(scoreCapacityFit(800, 36)).toBeGreaterThan(scoreCapacityFit(5000, 36));
+    expect(scoreCapacityFit(null, 36)).toBe(0.5);
+  });
+
+  it('scores the share of venue preferences met', () => {
+    const artist = { popularity: 40, genreSlugs: ['hip_hop'] };
+
+    expect(scorePreferences(undefined, artist)).toBe(0.5);
+    expect(scorePreferences({ preferredGenres: ['hip_hop'], minimumArtistPopularity: 30 }, artist)).toBe(1);
+    expect(scorePreferences({ preferredGenres: ['jazz'], minimumArtistPopularity: 30 }, artist)).toBe(0.5);
+  });
+});
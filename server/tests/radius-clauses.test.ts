@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import { clausesBreachedBy, findRadiusConflicts, type Booking } from '../../shared/utils/radius-clauses';
+
+// Venues along the 40th parallel; one degree of longitude is about 85 km
+function booking(id: number, longitude: number, date: string, extra: Partial<Booking> = {}): Booking {
+  return {
+    kind: 'tourVenue',
+    id,
+    tourId: 1,
+    venueId: 100 + id,
+    venueName: `Venue ${id}`,
+    latitude: 40,
+    longitude,
+    date,
+    clauses: [],
+    ...extra
+  };
+}
+
+const clause = { id: 9, radiusKm: 100, daysBefore: 30, daysAfter: 10 };
+
+describe('radius clauses', () => {
+  it('flags bookings inside the radius and the days before and after the show', () => {
+    const protectedShow = booking(1, -100, '2025-06-15', { clauses: [clause] });
+    const conflicts = findRadiusConflicts([
+      protectedShow,
+      booking(2, -99, '2025-05-20'),
+      booking(3, -99, '2025-06-30'),
+      booking(4, -98, '2025-06-16'),
+      booking(5, -99.5, '2025-06-20', { kind: 'event', id: 5, tourId: null })
+    ]);
+
+    expect(conflicts.map(conflict => conflict.conflictingBooking.id)).toEqual([2, 5]);
+    expect(conflicts[0]).toMatchObject({ clauseId: 9, daysApart: -26 });
+    expect(conflicts[0].distanceKm).toBeLessThan(100);
+    expect(conflicts[1].detail).toContain('5 days after');
+  });
+
+  it('does not count the same show recorded as a tour venue and an event', () => {
+    const tourShow = booking(1, -100, '2025-06-15', { clauses: [clause] });
+    const event = { ...tourShow, kind: 'event' as const, id: 77, tourId: null, clauses: [] };
+
+    expect(findRadiusConflicts([tourShow, event])).toEqual([]);
+  });
+
+  it('checks a venue that is not booked yet against every clause', () => {
+    const bookings = [booking(1, -100, '2025-06-15', { clauses: [clause] })];
+    const nearby = { id: 500, name: 'Nearby', latitude: 40, longitude: -99.8 };
+
+    expect(clausesBreachedBy(bookings, nearby, '2025-06-10')).toHaveLength(1);
+    expect(clausesBreachedBy(bookings, nearby, '2025-07-10')).toEqual([]);
+    expect(clausesBreachedBy(bookings, { ...nearby, longitude: -97 }, '2025-06-10')).toEqual([]);
+  });
+});
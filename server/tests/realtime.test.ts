@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { sessionMiddleware } from '../middleware/session-middleware';
+import { realtime, tourChannel, REALTIME_PATH } from '../services/realtime';
+
+const app = express();
+app.use(sessionMiddleware);
+app.post('/login/:id', (req, res) => {
+  req.session.user = { id: Number(req.params.id), name: 'Test User', role: 'user' };
+  res.json({ success: true });
+});
+
+let server: Server;
+let baseUrl: string;
+
+// Sign in over HTTP and return the session cookie
+async function login(userId: number): Promise<string> {
+  const response = await fetch(`${baseUrl}/login/${userId}`, { method: 'POST' });
+  return response.headers.get('set-cookie')!.split(';')[0];
+}
+
+// Open a socket and collect everything the server pushes to it
+async function connect(cookie: string) {
+  const ws = new WebSocket(`${baseUrl.replace('http', 'ws')}${REALTIME_PATH}`, { headers: { cookie } });
+  const received: any[] = [];
+  const waiters: Array<(message: any) => void> = [];
+
+  ws.on('message', (data) => {
+    const message = JSON.parse(data.toString());
+    const waiter = waiters.shift();
+    if (waiter) {
+      waiter(message);
+    } else {
+      received.push(message);
+    }
+  });
+
+  const next = () => new Promise<any>((resolve) => {
+    const message = received.shift();
+    if (message) {
+      resolve(message);
+    } else {
+      waiters.push(resolve);
+    }
+  });
+
+  expect(await next()).toMatchObject({ type: 'connected' });
+
+  return { ws, received, next };
+}
+
+// Give the server a moment to deliver anything that is in flight
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('Realtime Hub', () => {
+  beforeAll(async () => {
+    server = createServer(app);
+    realtime.attach(server);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    realtime.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should reject connections without a signed-in session', async () => {
+    const ws = new WebSocket(`${baseUrl.replace('http', 'ws')}${REALTIME_PATH}`);
+
+    const status = await new Promise<number | undefined>((resolve) => {
+      ws.on('unexpected-response', (_req, res) => resolve(res.statusCode));
+      ws.on('error', () => resolve(undefined));
+    });
+
+    expect(status).toBe(401);
+  });
+
+  it('should deliver user events only to that user', async () => {
+    const alice = await connect(await login(1));
+    const bob = await connect(await login(2));
+
+    realtime.publishToUsers([1], { type: 'message.created', conversationId: 7, messageId: 3, senderId: 2 });
+
+    expect(await alice.next()).toEqual({ type: 'message.created', conversationId: 7, messageId: 3, senderId: 2 });
+    await settle();
+    expect(bob.received).toHaveLength(0);
+
+    alice.ws.close();
+    bob.ws.close();
+  });
+
+  it('should deliver tour events to subscribers until they unsubscribe', async () => {
+    const client = await connect(await login(3));
+    const channel = tourChannel(42);
+
+    client.ws.send(JSON.stringify({ type: 'subscribe', channel }));
+    expect(await client.next()).toEqual({ type: 'subscribed', channel });
+
+    realtime.publishToChannel(channel, {
+      type: 'tourVenue.statusChanged',
+      tourId: 42,
+      tourVenueId: 5,
+      venueId: 9,
+      previousStatus: 'hold',
+      status: 'confirmed'
+    });
+    expect(await client.next()).toMatchObject({ type: 'tourVenue.statusChanged', channel, status: 'confirmed' });
+
+    client.ws.send(JSON.stringify({ type: 'unsubscribe', channel }));
+    expect(await client.next()).toEqual({ type: 'unsubscribed', channel });
+
+    realtime.publishToChannel(channel, { type: 'tour.optimized', tourId: 42, source: 'test', applied: true });
+    await settle();
+    expect(client.received).toHaveLength(0);
+
+    client.ws.close();
+  });
+
+  it('should refuse subscriptions to unknown channels', async () => {
+    const client = await connect(await login(4));
+
+    client.ws.send(JSON.stringify({ type: 'subscribe', channel: 'user:1' }));
+    expect(await client.next()).toEqual({ type: 'error', message: 'Unknown channel' });
+
+    client.ws.close();
+  });
+});
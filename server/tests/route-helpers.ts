@@ -0,0 +1,82 @@
+import express from 'express';
+import { sessionMiddleware } from '../middleware/session-middleware';
+import type { SessionUser } from '../middleware/auth-middleware';
+
+type QueryCall = { method: string; args: unknown[] };
+
+/**
+ * A stand-in for the drizzle client in route tests
+ *
+ * Every query chain (db.select().from()..., db.query.tours.findFirst(...), tx.update()...)
+ * resolves to the next queued result when it is awaited, so queue results in the order
+ * the code under test awaits its queries. A queued Error rejects instead. Calls are
+ * recorded so tests can check what was written; db.transaction runs its callback with
+ * the same client.
+ */
+export function createFakeDb() {
+  const results: unknown[] = [];
+  const calls: QueryCall[] = [];
+
+  const chain: any = new Proxy(function () {}, {
+    get(_target, property) {
+      if (property === 'then') {
+        const result = results.shift();
+        return (resolve: (value: unknown) => void, reject: (error: unknown) => void) =>
+          result instanceof Error ? reject(result) : resolve(result);
+      }
+      if (property === 'transaction') {
+        return (callback: (tx: unknown) => unknown) => callback(chain);
+      }
+
+      return new Proxy(function () {}, {
+        apply(_target, _thisArg, args) {
+          calls.push({ method: String(property), args });
+          return chain;
+        },
+        get(_target, nested) {
+          return chain[nested];
+        }
+      });
+    }
+  });
+
+  return {
+    db: chain,
+    calls,
+    queue(...next: unknown[]) {
+      results.push(...next);
+    },
+    reset() {
+      results.length = 0;
+      calls.length = 0;
+    },
+    // Arguments of every call to a query method, e.g. the rows passed to values()
+    argsOf(method: string): unknown[][] {
+      return calls.filter(call => call.method === method).map(call => call.args);
+    },
+    pending(): number {
+      return results.length;
+    }
+  };
+}
+
+// Shared by a test file and its jest.mock('../db') factory, which can't reach the file's own variables
+export const fakeDb = createFakeDb();
+
+/**
+ * An app serving a router behind the real session middleware
+ * @param user Signed-in user attached to every request, if any
+ */
+export function createTestApp(mountPath: string, router: express.Router, user?: SessionUser) {
+  const app = express();
+  app.use(express.json());
+  app.use(sessionMiddleware);
+  if (user) {
+    app.use((req, _res, next) => {
+      req.session.user = user;
+      next();
+    });
+  }
+  app.use(mountPath, router);
+  return app;
+}
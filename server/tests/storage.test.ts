@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { venueMembers } from '../../shared/schema';
+import { storage } from '../storage';
+import { fakeDb } from './route-helpers';
+
+jest.mock('../db', () => ({ db: require('./route-helpers').fakeDb.db }));
+
+describe('venue membership storage', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  it('finds a membership or nothing', async () => {
+    fakeDb.queue([{ venueId: 10, userId: 3, role: 'owner' }], []);
+
+    expect(await storage.getVenueMembership(10, 3)).toEqual({ venueId: 10, userId: 3, role: 'owner' });
+    expect(await storage.getVenueMembership(10, 4)).toBeUndefined();
+    expect(fakeDb.argsOf('from')).toEqual([[venueMembers], [venueMembers]]);
+  });
+
+  it('lists the memberships of a user and the members of a venue', async () => {
+    const owner = { venueId: 10, userId: 3, role: 'owner' };
+    fakeDb.queue([owner], [owner, { venueId: 10, userId: 4, role: 'staff' }]);
+
+    expect(await storage.getVenueMembershipsByUser(3)).toEqual([owner]);
+    expect(await storage.getVenueMembers(10)).toHaveLength(2);
+  });
+
+  it('changes the role of an existing member instead of adding them twice', async () => {
+    fakeDb.queue([{ venueId: 10, userId: 4, role: 'booker' }]);
+
+    const member = await storage.setVenueMember({ venueId: 10, userId: 4, role: 'booker' });
+
+    expect(member.role).toBe('booker');
+    const [[conflict]] = fakeDb.argsOf('onConflictDoUpdate') as [[{ target: unknown[]; set: unknown }]];
+    expect(conflict.target).toEqual([venueMembers.venueId, venueMembers.userId]);
+    expect(conflict.set).toEqual({ role: 'booker' });
+  });
+
+  it('reports whether a member was removed', async () => {
+    fakeDb.queue([{ venueId: 10, userId: 4, role: 'staff' }], []);
+
+    expect(await storage.removeVenueMember(10, 4)).toBe(true);
+    expect(await storage.removeVenueMember(10, 4)).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import { emptySyncCounts, retryRequests, syncRunStatus } from '../../shared/utils/sync-runs';
+
+describe('sync run rules', () => {
+  it('marks a run partial when only some items failed', () => {
+    const counts = { ...emptySyncCounts(), created: 3, unchanged: 5 };
+
+    expect(syncRunStatus(counts)).toBe('succeeded');
+    expect(syncRunStatus({ ...counts, errored: 2 })).toBe('partial');
+    expect(syncRunStatus({ ...emptySyncCounts(), errored: 2 })).toBe('failed');
+    expect(syncRunStatus(emptySyncCounts())).toBe('succeeded');
+    expect(syncRunStatus(counts, true)).toBe('failed');
+  });
+
+  it('queues each retry once for the items that share it', () => {
+    const requests = retryRequests([
+      { id: 1, retryType: 'predicthq-artist-events', retryPayload: { artistName: 'Tame Impala' } },
+      { id: 2, retryType: 'seed-venue-events', retryPayload: { venueIds: [4] } },
+      { id: 3, retryType: 'predicthq-artist-events', retryPayload: { artistName: 'Tame Impala' } },
+      { id: 4, retryType: null, retryPayload: null },
+      { id: 5, retryType: 'seed-venue-events', retryPayload: { venueIds: [7] } }
+    ]);
+
+    expect(requests).toEqual([
+      { type: 'predicthq-artist-events', payload: { artistName: 'Tame Impala' }, errorIds: [1, 3] },
+      { type: 'seed-venue-events', payload: { venueIds: [4] }, errorIds: [2] },
+      { type: 'seed-venue-events', payload: { venueIds: [7] }, errorIds: [5] }
+    ]);
+  });
+
+  it('treats payloads with the same fields in another order as the same retry', () => {
+    const requests = retryRequests([
+      { id: 1, retryType: 'venue-network-sync', retryPayload: { venueId: 2, radius: 100 } },
+      { id: 2, retryType: 'venue-network-sync', retryPayload: { radius: 100, venueId: 2 } }
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].errorIds).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  expectedDraw,
+  profitAndLoss,
+  projectRevenue,
+  settleShow,
+  showCosts,
+  type ShowDeal,
+  type TourCostRates
+} from '../../shared/utils/tour-finance';
+
+const rates: TourCostRates = { fuelCostPerKm: 0.5, lodgingPerNight: 120, perDiem: 30, partySize: 4 };
+
+const deal: ShowDeal = {
+  guarantee: 1000,
+  doorSplitPercent: 70,
+  ticketPrice: 20,
+  barSplitPercent: 10,
+  merchSplitPercent: 85
+};
+
+describe('tour finances', () => {
+  it('costs fuel by distance and lodging and per diems by days on the road', () => {
+    expect(showCosts(400, 2, rates)).toEqual({
+      fuel: 200,
+      lodging: 240,
+      perDiems: 240,
+      other: 0,
+      total: 680
+    });
+    expect(showCosts(0, 1, rates, { lodgingCost: 0, otherExpenses: 50 }).total).toBe(170);
+  });
+
+  it('pays the guarantee until the door share is higher', () => {
+    const costs = showCosts(0, 1, rates);
+    const small = settleShow(deal, { tickets: 50, barSales: 0, merchSales: 0 }, costs);
+    const big = settleShow(deal, { tickets: 100, barSales: 2000, merchSales: 1000 }, costs);
+
+    expect(small.doorShare).toBe(700);
+    expect(small.showFee).toBe(1000);
+    expect(big.doorShare).toBe(1400);
+    expect(big.showFee).toBe(1400);
+    expect(big.income).toBe(1400 + 200 + 850);
+    expect(big.net).toBe(big.income - costs.total);
+  });
+
+  it('uses entered expenses over the computed costs and adds shows into a P&L', () => {
+    const costs = showCosts(100, 1, rates);
+    const projected = settleShow(deal, { tickets: 80, barSales: 0, merchSales: 0 }, costs);
+    const actual = settleShow(deal, { tickets: 120, barSales: 0, merchSales: 0 }, costs, 500);
+
+    expect(actual.costs.total).toBe(500);
+    expect(profitAndLoss([projected, actual])).toEqual({
+      income: projected.income + actual.income,
+      expenses: costs.total + 500,
+      net: projected.net + actual.net
+    });
+  });
+
+  it('expects a draw from the artist\'s popularity, scaled by market and capped at capacity', () => {
+    // Popularity 36 is an audience of 800
+    expect(expectedDraw({ capacity: 2000, marketCategory: 'primary' }, 36)).toBe(800);
+    expect(expectedDraw({ capacity: 2000, marketCategory: 'tertiary' }, 36)).toBe(400);
+    expect(expectedDraw({ capacity: 500, marketCategory: 'primary' }, 36)).toBe(500);
+    expect(expectedDraw({ capacity: 500 }, null)).toBe(300);
+    expect(expectedDraw({ capacity: null }, 36)).toBe(0);
+  });
+
+  it('projects a route\'s ticket sales less fuel and days on the road', () => {
+    expect(projectRevenue([100, 200], 400, 3, rates, 20)).toEqual({
+      shows: 2,
+      expectedDraw: 300,
+      ticketGross: 6000,
+      travelCost: 200,
+      dailyCosts: 3 * 120 + 3 * 30 * 4,
+      days: 3,
+      net: 6000 - 200 - 720
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildItinerary, type ItineraryShow } from '../../shared/utils/tour-solver';
+import type { TravelLeg, TravelMatrix } from '../../shared/utils/geo';
+
+// Legs between venue ids, in either direction
+function fixedMatrix(legs: Record<string, TravelLeg>): TravelMatrix {
+  return {
+    leg: (from, to) =>
+      legs[`${from.venueId}-${to.venueId}`] ?? legs[`${to.venueId}-${from.venueId}`] ?? { distanceKm: 0, travelTimeMinutes: 0 }
+  };
+}
+
+function show(tourVenueId: number, date: string): ItineraryShow {
+  return { tourVenueId, venueId: tourVenueId, latitude: 0, longitude: 0, date };
+}
+
+describe('buildItinerary', () => {
+  it('turns the days before a long drive into travel days and the rest into off days', () => {
+    // 2025-06-02 is a Monday
+    const itinerary = buildItinerary(
+      [show(2, '2025-06-06'), show(1, '2025-06-02')],
+      {
+        maxTravelDistancePerDay: 500,
+        requiredDaysOff: ['Tuesday'],
+        travel: fixedMatrix({ '1-2': { distanceKm: 1200, travelTimeMinutes: 900 } })
+      }
+    );
+
+    expect(itinerary.days.map(day => [day.date, day.type])).toEqual([
+      ['2025-06-02', 'show'],
+      ['2025-06-03', 'off'],
+      ['2025-06-04', 'travel'],
+      ['2025-06-05', 'travel'],
+      ['2025-06-06', 'show']
+    ]);
+    expect(itinerary.days[1].requiredDayOff).toBe(true);
+    expect(itinerary.days[2]).toMatchObject({ fromTourVenueId: 1, tourVenueId: 2, distanceKm: 400, mode: 'drive' });
+    expect(itinerary.issues).toEqual([]);
+  });
+
+  it('flags an overnight drive over the limit and proposes dates that leave room for it', () => {
+    const itinerary = buildItinerary(
+      [show(1, '2025-06-02'), show(2, '2025-06-03'), show(3, '2025-06-10')],
+      {
+        maxTravelDistancePerDay: 500,
+        travel: fixedMatrix({
+          '1-2': { distanceKm: 1200, travelTimeMinutes: 900 },
+          '2-3': { distanceKm: 300, travelTimeMinutes: 240 }
+        })
+      }
+    );
+
+    expect(itinerary.issues).toHaveLength(1);
+    expect(itinerary.issues[0]).toMatchObject({
+      type: 'driveLimitExceeded',
+      tourVenueId: 2,
+      proposedDates: ['2025-06-05', '2025-06-06', '2025-06-07']
+    });
+    expect(itinerary.issues[0].detail).toContain('1200 km');
+  });
+
+  it('proposes other dates for a show on a required day off', () => {
+    // 2025-06-08 is a Sunday
+    const itinerary = buildItinerary(
+      [show(1, '2025-06-06'), show(2, '2025-06-08')],
+      { requiredDaysOff: ['Sunday'] }
+    );
+
+    expect(itinerary.issues).toEqual([
+      expect.objectContaining({
+        type: 'showOnDayOff',
+        tourVenueId: 2,
+        proposedDates: ['2025-06-07', '2025-06-09', '2025-06-10']
+      })
+    ]);
+  });
+
+  it('does not add travel days for ferries and flights', () => {
+    const itinerary = buildItinerary(
+      [show(1, '2025-06-02'), show(2, '2025-06-03')],
+      {
+        maxTravelDistancePerDay: 300,
+        travel: fixedMatrix({ '1-2': { distanceKm: 2000, travelTimeMinutes: 360, mode: 'flight' } })
+      }
+    );
+
+    expect(itinerary.days.map(day => day.type)).toEqual(['show', 'show']);
+    expect(itinerary.days[1].mode).toBe('flight');
+    expect(itinerary.issues).toEqual([]);
+  });
+});
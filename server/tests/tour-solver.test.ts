@@ -0,0 +1,138 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  solveTourRoute,
+  tourSolvers,
+  type RoutingProblem,
+  type SolverStop
+} from '../../shared/utils/tour-solver';
+import { daysBetween } from '../../shared/utils/tour-solver/schedule';
+import { calculateDistance } from '../../shared/utils/geo';
+
+// Stops one degree of longitude apart (about 85 km) along the 40th parallel
+function lineStop(id: number, position: number, extra: Partial<SolverStop> = {}): SolverStop {
+  return { id, latitude: 40, longitude: -100 + position, ...extra };
+}
+
+// Shuffled order that a date sort or latitude sort cannot untangle
+const shuffledLine = [3, 0, 5, 1, 4, 2, 6].map(position => lineStop(position + 1, position));
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+describe('tour solvers', () => {
+  it.each(['local-search', 'simulated-annealing'] as const)('%s untangles stops along a line', (solver) => {
+    const solution = solveTourRoute({ stops: shuffledLine, startDate: '2025-06-01' }, { solver });
+    const order = solution.sequence.map(stop => stop.stopId);
+
+    expect([order, [...order].reverse()]).toContainEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(solution.totalDistanceKm).toBeCloseTo(6 * calculateDistance(40, -100, 40, -99), 3);
+    expect(solution.violations).toEqual([]);
+  });
+
+  it('never does worse than cheapest insertion', () => {
+    const stops = Array.from({ length: 12 }, (_, i) => ({
+      id: i + 1,
+      latitude: 35 + ((i * 7) % 11),
+      longitude: -110 + ((i * 5) % 13)
+    }));
+    const problem: RoutingProblem = { stops, startDate: '2025-06-01' };
+    const greedy = tourSolvers.greedy.solve(problem);
+
+    expect(tourSolvers['local-search'].solve(problem).cost).toBeLessThanOrEqual(greedy.cost);
+    expect(tourSolvers['simulated-annealing'].solve(problem).cost).toBeLessThanOrEqual(greedy.cost);
+  });
+
+  it('is deterministic for a seed', () => {
+    const problem: RoutingProblem = { stops: shuffledLine, startDate: '2025-06-01' };
+    const first = solveTourRoute(problem, { solver: 'simulated-annealing', seed: 42 });
+    const second = solveTourRoute(problem, { solver: 'simulated-annealing', seed: 42 });
+
+    expect(second).toEqual(first);
+  });
+
+  it('keeps confirmed shows on their dates', () => {
+    const stops = [
+      lineStop(1, 0, { fixedDate: '2025-06-01' }),
+      lineStop(2, 6, { fixedDate: '2025-06-08' }),
+      lineStop(3, 4),
+      lineStop(4, 2)
+    ];
+
+    const solution = solveTourRoute({ stops, startDate: '2025-06-01', endDate: '2025-06-10' });
+    const dates = Object.fromEntries(solution.sequence.map(stop => [stop.stopId, stop.date]));
+
+    expect(solution.sequence.map(stop => stop.stopId)).toEqual([1, 4, 3, 2]);
+    expect(dates[1]).toBe('2025-06-01');
+    expect(dates[2]).toBe('2025-06-08');
+    expect(dates[4] > dates[1] && dates[3] > dates[4] && dates[2] > dates[3]).toBe(true);
+    expect(solution.violations).toEqual([]);
+  });
+
+  it('respects the gap between shows, avoided dates and days off', () => {
+    const problem: RoutingProblem = {
+      stops: shuffledLine,
+      startDate: '2025-06-02', // a Monday
+      constraints: {
+        minDaysBetweenShows: 2,
+        avoidDates: ['2025-06-06'],
+        requiredDaysOff: ['Sunday']
+      }
+    };
+
+    const { sequence } = solveTourRoute(problem);
+
+    for (let i = 1; i < sequence.length; i++) {
+      expect(daysBetween(sequence[i - 1].date, sequence[i].date)).toBeGreaterThanOrEqual(2);
+    }
+    expect(sequence.map(stop => stop.date)).not.toContain('2025-06-06');
+    expect(sequence.some(stop => weekday(stop.date) === 0)).toBe(false);
+  });
+
+  it('only dates a stop on days its venue can take', () => {
+    // Stop 3 only plays Fridays and Saturdays
+    const stops = shuffledLine.map(stop => stop.id === 3
+      ? { ...stop, canPlay: (date: string) => [5, 6].includes(weekday(date)) }
+      : stop);
+
+    const { sequence, violations } = solveTourRoute({ stops, startDate: '2025-06-02' });
+
+    expect([5, 6]).toContain(weekday(sequence.find(stop => stop.stopId === 3)!.date));
+    expect(violations).toEqual([]);
+  });
+
+  it('adds travel days when a drive exceeds the daily limit', () => {
+    const stops = [lineStop(1, 0), lineStop(2, 5)]; // about 425 km apart
+    const { sequence } = solveTourRoute({
+      stops,
+      startDate: '2025-06-01',
+      constraints: { maxTravelDistancePerDay: 200 }
+    });
+
+    expect(daysBetween(sequence[0].date, sequence[1].date)).toBe(3);
+  });
+
+  it('reports confirmed shows that cannot be reached in time', () => {
+    const stops = [
+      lineStop(1, 0, { fixedDate: '2025-06-01' }),
+      lineStop(2, 10, { fixedDate: '2025-06-02' }) // about 850 km away the next day
+    ];
+
+    const solution = solveTourRoute({ stops, constraints: { maxTravelDistancePerDay: 400 } });
+
+    expect(solution.violations).toEqual([
+      expect.objectContaining({ stopId: 2, type: 'fixedDateUnreachable' })
+    ]);
+  });
+
+  it('flags breaks longer than maxDaysBetweenShows', () => {
+    const stops = [
+      lineStop(1, 0, { fixedDate: '2025-06-01' }),
+      lineStop(2, 1, { fixedDate: '2025-06-20' })
+    ];
+
+    const solution = solveTourRoute({ stops, constraints: { maxDaysBetweenShows: 7 } });
+
+    expect(solution.violations.map(violation => violation.type)).toEqual(['maxDaysBetweenShows']);
+  });
+});
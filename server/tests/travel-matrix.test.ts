@@ -0,0 +1,149 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import {
+  haversineLeg,
+  haversineMatrix,
+  measureTravel,
+  routeLegs,
+  travelChecklist,
+  TravelLegTable,
+  withInternationalLegs
+} from '../../shared/utils/geo';
+import { solveTourRoute } from '../../shared/utils/tour-solver';
+import { FixtureTravelMatrixProvider, OsrmTravelMatrixProvider } from '../services/travel-matrix';
+import { measureRoute } from '../services/optimization/metrics';
+
+jest.mock('axios');
+const mockedGet = axios.get as jest.MockedFunction<typeof axios.get>;
+
+// Three venues on a line; the fixture says the road from 1 to 2 is a long detour
+const venues = [
+  { venueId: 1, latitude: 40, longitude: -100 },
+  { venueId: 2, latitude: 40, longitude: -99 },
+  { venueId: 3, latitude: 40, longitude: -98 }
+];
+
+const fixture = () => new FixtureTravelMatrixProvider([
+  { fromVenueId: 1, toVenueId: 2, distanceKm: 400, travelTimeMinutes: 300 },
+  { fromVenueId: 2, toVenueId: 3, distanceKm: 90, travelTimeMinutes: 60 },
+  { fromVenueId: 1, toVenueId: 3, distanceKm: 180, travelTimeMinutes: 120 }
+]);
+
+describe('FixtureTravelMatrixProvider', () => {
+  it('returns fixture legs in both directions and straight lines otherwise', async () => {
+    const matrix = await fixture().getMatrix(venues);
+
+    expect(matrix.leg(venues[0], venues[1])).toEqual({ distanceKm: 400, travelTimeMinutes: 300 });
+    expect(matrix.leg(venues[1], venues[0])).toEqual({ distanceKm: 400, travelTimeMinutes: 300 });
+
+    const elsewhere = { latitude: 41, longitude: -100 };
+    expect(matrix.leg(venues[0], elsewhere)).toEqual(haversineLeg(venues[0], elsewhere));
+  });
+
+  it('is what route metrics and the solver measure with', async () => {
+    const matrix = await fixture().getMatrix(venues);
+
+    expect(measureTravel(venues, matrix)).toEqual({ distanceKm: 490, travelTimeMinutes: 360 });
+    expect(measureRoute(venues, matrix).totalDistance).toBe(490);
+
+    // Straight-line distance would visit the venues in line; the road network avoids the 1-2 leg
+    const solution = solveTourRoute({
+      stops: venues.map(venue => ({ id: venue.venueId, latitude: venue.latitude, longitude: venue.longitude })),
+      startDate: '2025-06-01'
+    }, { solver: 'greedy', travelMatrix: matrix });
+
+    expect(solution.totalDistanceKm).toBe(270);
+    expect(solution.sequence.map(stop => stop.stopId)).not.toEqual([1, 2, 3]);
+  });
+});
+
+describe('OsrmTravelMatrixProvider', () => {
+  beforeEach(() => {
+    mockedGet.mockReset();
+  });
+
+  it('reads road distances and buffered driving times from the table service', async () => {
+    mockedGet.mockResolvedValue({
+      data: {
+        code: 'Ok',
+        distances: [[0, 120000], [125000, 0]],
+        durations: [[0, 3600], [3700, null]]
+      }
+    });
+
+    const provider = new OsrmTravelMatrixProvider('http://router.local/');
+    const matrix = await provider.getMatrix(venues.slice(0, 2));
+
+    expect(mockedGet.mock.calls[0][0]).toBe('http://router.local/table/v1/driving/-100,40;-99,40');
+    expect(matrix.leg(venues[0], venues[1])).toEqual({ distanceKm: 120, travelTimeMinutes: 72 });
+    expect(matrix.leg(venues[1], venues[0])).toEqual({ distanceKm: 125, travelTimeMinutes: 74 });
+  });
+
+  it('takes a ferry or a flight where the router finds no road', async () => {
+    mockedGet.mockResolvedValue({
+      data: { code: 'Ok', distances: [[0, null], [null, 0]], durations: [[0, null], [null, 0]] }
+    });
+
+    const matrix = await new OsrmTravelMatrixProvider('http://router.local').getMatrix(venues.slice(0, 2));
+
+    expect(matrix.leg(venues[0], venues[1]).mode).toBe('ferry');
+  });
+
+  it('throws when the router rejects the request', async () => {
+    mockedGet.mockResolvedValue({ data: { code: 'TooBig', message: 'Too many table coordinates' } });
+
+    await expect(new OsrmTravelMatrixProvider('http://router.local').getMatrix(venues))
+      .rejects.toThrow('Too many table coordinates');
+  });
+});
+
+describe('TravelLegTable', () => {
+  it('falls back for pairs it does not know and for points without coordinates', () => {
+    const table = new TravelLegTable();
+    table.set(venues[0], venues[1], { distanceKm: 1, travelTimeMinutes: 1 });
+
+    expect(table.has(venues[0], venues[1])).toBe(true);
+    expect(table.has(venues[1], venues[0])).toBe(false);
+    expect(table.leg(venues[1], venues[2])).toEqual(haversineLeg(venues[1], venues[2]));
+    expect(table.leg({ venueId: 9 }, venues[0])).toEqual({ distanceKm: 0, travelTimeMinutes: 0 });
+  });
+});
+
+describe('withInternationalLegs', () => {
+  const toronto = { venueId: 10, latitude: 43.65, longitude: -79.38, country: 'CA' };
+  const buffalo = { venueId: 11, latitude: 42.89, longitude: -78.88, country: 'US' };
+  const montreal = { venueId: 12, latitude: 45.5, longitude: -73.57, country: 'Canada' };
+
+  it('adds the crossing time to legs that cross a border', () => {
+    const matrix = withInternationalLegs(haversineMatrix, { borderCrossingMinutes: 45 });
+    const legs = routeLegs([toronto, buffalo, montreal], matrix);
+
+    expect(legs.map(leg => leg.borderCrossing)).toEqual([
+      { fromCountry: 'CA', toCountry: 'US' },
+      { fromCountry: 'US', toCountry: 'CA' }
+    ]);
+    expect(legs.every(leg => leg.mode === 'drive')).toBe(true);
+    expect(legs[0].travelTimeMinutes).toBe(haversineLeg(toronto, buffalo).travelTimeMinutes + 45);
+    expect(matrix.leg(toronto, montreal).borderCrossing).toBeNull();
+  });
+
+  it('lists visas and a carnet once for each country entered', () => {
+    const legs = routeLegs([toronto, buffalo, montreal], withInternationalLegs(haversineMatrix));
+    const checklist = travelChecklist(legs);
+
+    expect(checklist.map(item => [item.type, item.country])).toEqual([
+      ['visa', 'US'], ['carnet', 'US'], ['visa', 'CA'], ['carnet', 'CA']
+    ]);
+    expect(checklist[0]).toMatchObject({ fromVenueId: 10, toVenueId: 11 });
+  });
+
+  it('takes a ferry or a flight between countries with no road link', () => {
+    const matrix = withInternationalLegs(haversineMatrix);
+    const holyhead = { latitude: 53.31, longitude: -4.63, country: 'GB' };
+    const dublin = { latitude: 53.35, longitude: -6.26, country: 'IE' };
+    const reykjavik = { latitude: 64.15, longitude: -21.94, country: 'IS' };
+
+    expect(matrix.leg(holyhead, dublin).mode).toBe('ferry');
+    expect(matrix.leg(dublin, reykjavik).mode).toBe('flight');
+  });
+});
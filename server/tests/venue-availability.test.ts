@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  availabilityCalendar,
+  dayAvailability,
+  nearestAvailableDate,
+  type VenueAvailability
+} from '../../shared/utils/venue-availability';
+
+// Open Thursday to Saturday, plus Monday 2025-06-09
+const availability: VenueAvailability = {
+  venueId: 1,
+  openWeekdays: [4, 5, 6],
+  openDates: ['2025-06-09'],
+  blackouts: [{ id: 1, startDate: '2025-06-19', endDate: '2025-06-21', reason: 'Renovation' }],
+  booked: [{ date: '2025-06-13', reason: 'event', label: 'The Band (confirmed event)' }]
+};
+
+describe('venue availability', () => {
+  it('opens the open nights and one-off dates and blocks bookings and blackouts', () => {
+    expect(availabilityCalendar(availability, '2025-06-09', '2025-06-15').map(day => [day.date, day.status])).toEqual([
+      ['2025-06-09', 'open'],
+      ['2025-06-10', 'closed'],
+      ['2025-06-11', 'closed'],
+      ['2025-06-12', 'open'],
+      ['2025-06-13', 'booked'],
+      ['2025-06-14', 'open'],
+      ['2025-06-15', 'closed']
+    ]);
+    expect(dayAvailability(availability, '2025-06-20')).toEqual({
+      date: '2025-06-20',
+      status: 'blackout',
+      available: false,
+      detail: 'Renovation'
+    });
+  });
+
+  it('treats a venue without open nights as open every night', () => {
+    const everyNight = { ...availability, openWeekdays: [] };
+    expect(dayAvailability(everyNight, '2025-06-10').available).toBe(true);
+    expect(dayAvailability(everyNight, '2025-06-13').available).toBe(false);
+  });
+
+  it('finds the nearest date the venue can take inside a range', () => {
+    const isAvailable = (date: string) => dayAvailability(availability, date).available;
+
+    expect(nearestAvailableDate('2025-06-11', '2025-06-10', '2025-06-16', isAvailable)).toBe('2025-06-12');
+    expect(nearestAvailableDate('2025-06-13', '2025-06-10', '2025-06-16', isAvailable)).toBe('2025-06-12');
+    expect(nearestAvailableDate('2025-06-20', '2025-06-19', '2025-06-21', isAvailable)).toBeNull();
+  });
+});
@@ -38,7 +38,7 @@ describe('Webhook Routes', () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual({
         status: 'success',
-        message: 'Daily sync completed'
+        message: 'Daily sync queued'
       });
     });
 
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import request from 'supertest';
+import webhookSubscriptionRoutes from '../routes/webhook-subscription-routes';
+import { createTestApp, fakeDb } from './route-helpers';
+
+jest.mock('../db', () => ({ db: require('./route-helpers').fakeDb.db }));
+
+const app = createTestApp('/api/admin/webhook-subscriptions', webhookSubscriptionRoutes, { id: 2, name: 'Kim', role: 'admin' });
+
+const subscription = {
+  id: 3,
+  name: 'Ticketing',
+  url: 'https://hooks.example.com/tours',
+  eventTypes: ['tourVenue.statusChanged'],
+  isEnabled: true
+};
+
+describe('webhook subscription routes', () => {
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  it('lists subscriptions without selecting their secrets', async () => {
+    fakeDb.queue([subscription]);
+
+    const response = await request(app).get('/api/admin/webhook-subscriptions');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([subscription]);
+    const [[columns]] = fakeDb.argsOf('select') as [[Record<string, unknown>]];
+    expect(columns).not.toHaveProperty('secret');
+  });
+
+  it('returns the new signing secret when a subscription is created', async () => {
+    fakeDb.queue([{ ...subscription, secret: 'a'.repeat(64) }]);
+
+    const response = await request(app).post('/api/admin/webhook-subscriptions').send({
+      name: 'Ticketing',
+      url: 'https://hooks.example.com/tours',
+      eventTypes: ['tourVenue.statusChanged']
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body.secret).toBe('a'.repeat(64));
+    const [[values]] = fakeDb.argsOf('values') as [[Record<string, unknown>]];
+    expect(values).toMatchObject({ createdById: 2, secret: expect.stringMatching(/^[0-9a-f]{64}$/) });
+  });
+
+  it('refuses URLs that are not http or https', async () => {
+    const response = await request(app).post('/api/admin/webhook-subscriptions').send({ name: 'Files', url: 'ftp://example.com/drop' });
+
+    expect(response.status).toBe(400);
+    expect(fakeDb.argsOf('values')).toHaveLength(0);
+  });
+
+  it('leaves the secret out of updates that do not rotate it', async () => {
+    fakeDb.queue([{ ...subscription, isEnabled: false }]);
+
+    const response = await request(app).patch('/api/admin/webhook-subscriptions/3').send({ isEnabled: false });
+
+    expect(response.status).toBe(200);
+    expect(response.body).not.toHaveProperty('secret');
+    const [[changes]] = fakeDb.argsOf('set') as [[Record<string, unknown>]];
+    expect(changes).not.toHaveProperty('secret');
+    const [[columns]] = fakeDb.argsOf('returning') as [[Record<string, unknown>]];
+    expect(columns).toHaveProperty('isEnabled');
+    expect(columns).not.toHaveProperty('secret');
+  });
+
+  it('returns the secret once it is rotated', async () => {
+    fakeDb.queue([{ ...subscription, secret: 'b'.repeat(64) }]);
+
+    const response = await request(app).patch('/api/admin/webhook-subscriptions/3').send({ rotateSecret: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body.secret).toBe('b'.repeat(64));
+    const [[changes]] = fakeDb.argsOf('set') as [[Record<string, unknown>]];
+    expect(changes.secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(fakeDb.argsOf('returning')).toEqual([[]]);
+  });
+
+  it('answers 404 for a subscription that does not exist', async () => {
+    fakeDb.queue([]);
+
+    const response = await request(app).patch('/api/admin/webhook-subscriptions/99').send({ rotateSecret: true });
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Password hashing utility functions
+ * Passwords are stored in the users.password column as
+ * "scrypt$<salt>$<derivedKey>" (both hex encoded)
+ */
+import { scrypt, randomBytes, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const HASH_PREFIX = 'scrypt';
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a plain-text password with a random salt
+ * @param password Plain-text password
+ * @returns Encoded hash suitable for storing in users.password
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const derivedKey = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt}$${derivedKey.toString('hex')}`;
+}
+
+/**
+ * Check whether a stored value is an encoded password hash
+ * Used to detect legacy plain-text passwords that still need hashing
+ * @param stored Value from users.password
+ */
+export function isPasswordHash(stored: string): boolean {
+  const parts = stored.split('$');
+  return parts.length === 3 && parts[0] === HASH_PREFIX;
+}
+
+/**
+ * Verify a plain-text password against a stored hash
+ * Uses a constant-time comparison of the derived keys
+ * @param password Plain-text password supplied by the user
+ * @param stored Encoded hash from users.password
+ * @returns true if the password matches
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    return false;
+  }
+
+  const [, salt, key] = stored.split('$');
+  const storedKey = Buffer.from(key, 'hex');
+  const derivedKey = await scryptAsync(password, salt, storedKey.length);
+
+  return storedKey.length === derivedKey.length && timingSafeEqual(storedKey, derivedKey);
+}
@@ -10,8 +10,9 @@
 import { db } from './db';
 import { venues, artists, events, artistGenres, venueGenres, genres } from '../shared/schema';
 import { eq, and, or, inArray, like, not, isNull, sql, desc, asc } from 'drizzle-orm';
-import { SyncLogger } from './utils/logging';
+import { SyncLogger } from './core/sync-logger';
 import { setTimeout } from 'timers/promises';
+import { ingestEvent } from './services/event-ingestion';
 
 // Initialize logger
 const logger = new SyncLogger('VenueArtistMatcher');
@@ -209,34 +210,21 @@ async function generateEventsForVenue(venue: any, targetCount: number = EVENTS_P
         const eventDate = generateEventDate();
         const startTime = generateEventTime();
         
-        // Check if this would be a duplicate event
-        const existingEvent = await db
-          .select()
-          .from(events)
-          .where(and(
-            eq(events.venueId, venue.id),
-            eq(events.artistId, artist.id),
-            eq(events.date, eventDate)
-          ));
+        // Create the event unless it would duplicate one the venue has
+        const result = await ingestEvent({
+          source: 'system',
+          artistId: artist.id,
+          venueId: venue.id,
+          date: eventDate,
+          startTime: startTime,
+          status: 'confirmed'
+        });
         
-        if (existingEvent.length > 0) {
+        if (result.outcome !== 'created') {
           logger.info(`Event already exists for ${artist.name} at ${venue.name} on ${eventDate}, skipping`);
           continue;
         }
         
-        // Create the event
-        const [newEvent] = await db
-          .insert(events)
-          .values({
-            artistId: artist.id,
-            venueId: venue.id,
-            date: eventDate,
-            startTime: startTime,
-            status: 'confirmed',
-            sourceName: 'system'
-          })
-          .returning();
-        
         logger.info(`Created event: ${artist.name} at ${venue.name} on ${eventDate}`);
         eventsAdded++;
       } catch (error) {
@@ -12,7 +12,7 @@ import axios from 'axios';
 import { db } from './db';
 import { venues } from '../shared/schema';
 import { eq, and, isNull, not, or } from 'drizzle-orm';
-import { SyncLogger } from './utils/logging';
+import { SyncLogger } from './core/sync-logger';
 
 // Initialize logger
 const logger = new SyncLogger('VenueEnhancer');
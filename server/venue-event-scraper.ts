@@ -10,9 +10,10 @@
 import axios from 'axios';
 import cheerio from 'cheerio';
 import { db } from './db';
-import { venues, events, artists } from '../shared/schema';
+import { venues, artists } from '../shared/schema';
 import { eq, and, sql, isNull, not, desc } from 'drizzle-orm';
 import { setTimeout } from 'timers/promises';
+import { ingestEvent } from './services/event-ingestion';
 
 // Define the structure for scraped event data
 export interface ScrapedEvent {
@@ -130,40 +131,24 @@ export abstract class VenueEventScraper {
         // Find or create artist
         let artist = await this.findOrCreateArtist(artistName);
         
-        // Check if event already exists
-        const existingEvents = await db
-          .select()
-          .from(events)
-          .where(
-            and(
-              eq(events.venueId, this.venue.id),
-              eq(events.date, eventData.date),
-              eq(events.artistId, artist.id)
-            )
-          );
+        // Ingestion skips shows the venue already has and links this listing to them
+        const result = await ingestEvent({
+          source: 'venue_website',
+          externalId: eventData.url || null,
+          url: eventData.url || null,
+          venueId: this.venue.id,
+          artistId: artist.id,
+          date: eventData.date,
+          startTime: eventData.time,
+          ticketUrl: eventData.url || null,
+          status: 'confirmed'
+        });
         
-        if (existingEvents.length > 0) {
+        if (result.outcome !== 'created') {
           console.log(`Event already exists: ${artistName} at ${this.venue.name} on ${eventData.date}`);
           continue;
         }
         
-        // Insert new event
-        await db
-          .insert(events)
-          .values({
-            venueId: this.venue.id,
-            artistId: artist.id,
-            date: eventData.date,
-            startTime: eventData.time || '20:00', // Default to 8 PM if time not specified
-            status: 'confirmed',
-            price: eventData.price || null,
-            description: eventData.description || null,
-            imageUrl: eventData.imageUrl || null,
-            ticketUrl: eventData.url || null,
-            sourceName: 'venue_website',
-            sourceId: eventData.url || `${this.venue.id}-${eventData.date}-${artist.id}`
-          });
-        
         console.log(`Created event: ${artistName} at ${this.venue.name} on ${eventData.date}`);
         savedCount++;
       } catch (error) {
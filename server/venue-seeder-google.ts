@@ -9,7 +9,7 @@
 import axios from 'axios';
 import { db } from './db';
 import { venues } from '../shared/schema';
-import { SyncLogger } from './utils/logging';
+import { SyncLogger } from './core/sync-logger';
 import { setTimeout } from 'timers/promises';
 import { eq } from 'drizzle-orm';
 
@@ -1,21 +1,23 @@
 import { SyncLogger } from '../core/sync-logger';
+import { enqueueJob } from '../services/job-queue';
 
 const logger = new SyncLogger('DailySync');
 
 /**
  * Run the daily sync process
- * This function is called by the daily sync webhook
+ * This function is called by the daily sync webhook. The sync itself runs as a
+ * seed-venue-events job, so the webhook returns once it is queued.
  */
 export async function runDailySync() {
   logger.log('Starting daily sync process', 'info');
   
   try {
-    // This is where you would implement the actual sync logic
-    // For example, syncing venues from Bandsintown, etc.
+    const job = await enqueueJob('seed-venue-events');
     
-    logger.log('Simulated daily sync completed successfully', 'info');
+    logger.log(`Daily sync queued as job ${job.id}`, 'info');
+    return job;
   } catch (error) {
     logger.log(`Error during daily sync: ${error}`, 'error');
     throw error;
   }
-}
\ No newline at end of file
+}
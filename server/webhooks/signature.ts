@@ -0,0 +1,19 @@
+import crypto from 'crypto';
+
+/**
+ * HMAC-SHA256 of a webhook body, hex encoded
+ * Inbound webhooks are checked against it and outbound ones are signed with it.
+ * @param body The body exactly as sent
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Whether a signature matches the body, compared in constant time
+ */
+export function verifyWebhookSignature(body: string, signature: string, secret: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(body, secret));
+  const received = Buffer.from(signature);
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
@@ -1,9 +1,8 @@
 import { NextFunction, Request, Response } from 'express';
-import crypto from 'crypto';
-import { db } from '../db';
-import { events, artists, venues } from '@shared/schema';
-import { eq, and } from 'drizzle-orm';
 import { SyncLogger } from '../core/sync-logger';
+import { verifyWebhookSignature } from './signature';
+import { withSyncRun } from '../services/sync-runs';
+import { ingestEvent } from '../services/event-ingestion';
 
 
 // Interface for webhook payload from Bandsintown
@@ -54,20 +53,8 @@ export function validateWebhookSignature(
     return false;
   }
 
-  // Create HMAC using webhook secret
-  const hmac = crypto.createHmac('sha256', webhookSecret);
-
-  // Add request body to HMAC
-  hmac.update(JSON.stringify(req.body));
-
-  // Get computed signature
-  const computedSignature = hmac.digest('hex');
-
-  // Compare signatures
-  const isValid = crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(computedSignature)
-  );
+  // HMAC of the request body, the same scheme outbound webhooks are signed with
+  const isValid = verifyWebhookSignature(JSON.stringify(req.body), signature, webhookSecret);
 
   if (!isValid) {
     console.warn('Webhook signature validation failed');
@@ -88,141 +75,48 @@ export async function processBandsintownEventWebhook(
     const { event_type, data } = payload;
     logger.log(`Processing Bandsintown webhook: ${event_type}`, 'info');
 
-    // Get or create artist
-    let artist = await db.select().from(artists).where(eq(artists.name, data.artist.name)).limit(1);
-
-    if (!artist.length) {
-      // Create artist if it doesn't exist
-      const [newArtist] = await db.insert(artists).values({
-        name: data.artist.name,
-        genres: ['rock'], // Default genre, should be updated with real data
-        popularity: 50, // Default popularity score
-        imageUrl: data.artist.image_url || null,
-        websiteUrl: data.artist.url || null,
-        description: `Artist from Bandsintown: ${data.artist.name}`
-      }).returning();
-
-      artist = [newArtist];
-    }
-
-    // Get or create venue
-    let venue = await db.select().from(venues).where(
-      eq(venues.name, data.venue.name)
-    ).limit(1);
-
-    if (!venue.length) {
-      // Create venue if it doesn't exist
-      const [newVenue] = await db.insert(venues).values({
-        name: data.venue.name,
-        address: `${data.venue.name}, ${data.venue.city}`,
-        city: data.venue.city,
-        state: data.venue.region || '',
-        country: data.venue.country || 'US',
-        zipCode: '',
-        latitude: data.venue.latitude,
-        longitude: data.venue.longitude,
-        capacity: 500, // Default capacity
-        description: `Venue from Bandsintown webhook: ${data.venue.name} in ${data.venue.city}`,
-        ownerId: 1 // Default owner ID - in a real system this should be handled better
-      }).returning();
-
-      venue = [newVenue];
-    }
-
-    // Handle the event based on event_type
-    switch (event_type) {
-      case 'event.created':
-        // Create new event
-        await db.insert(events).values({
-          artistId: artist[0].id,
-          venueId: venue[0].id,
-          date: data.datetime, // Use string date directly
-          startTime: new Date(data.datetime).toLocaleTimeString(), // Extract time
-          status: 'confirmed',
-          sourceId: data.id || null,
-          sourceName: 'bandsintown'
+    // Created, updated and cancelled shows all go through ingestion, which matches the
+    // artist and venue and finds the event by its Bandsintown ID. Each delivery is recorded
+    // as a sync run of one event; a delivery can't be fetched again, so it isn't retryable.
+    const result = await withSyncRun({ source: 'bandsintown', operation: 'webhook' }, async (run) => {
+      try {
+        const result = await ingestEvent({
+          source: 'bandsintown',
+          externalId: data.id || null,
+          artist: {
+            name: data.artist.name,
+            genres: ['rock'], // Default genre, should be updated with real data
+            popularity: 50, // Default popularity score
+            imageUrl: data.artist.image_url || null,
+            websiteUrl: data.artist.url || null,
+            description: `Artist from Bandsintown: ${data.artist.name}`
+          },
+          venue: {
+            name: data.venue.name,
+            address: `${data.venue.name}, ${data.venue.city}`,
+            city: data.venue.city,
+            region: data.venue.region || null,
+            country: data.venue.country || 'US',
+            latitude: data.venue.latitude,
+            longitude: data.venue.longitude,
+            capacity: 500, // Default capacity
+            description: `Venue from Bandsintown webhook: ${data.venue.name} in ${data.venue.city}`,
+            ownerId: 1 // Default owner ID - in a real system this should be handled better
+          },
+          fetchedAt: payload.timestamp ? new Date(payload.timestamp) : undefined,
+          date: data.datetime,
+          status: event_type === 'event.canceled' ? 'cancelled' : data.status || 'confirmed'
         });
-        break;
-
-      case 'event.updated':
-        // Update existing event if it exists
-        // Find event by artist, venue and source ID if available
-        let existingEvents;
-
-        if (data.id) {
-          existingEvents = await db.select().from(events).where(eq(events.sourceId, data.id));
-        } else {
-          // If no source ID, use artist and venue IDs
-          existingEvents = await db.select().from(events).where(
-            and(
-              eq(events.artistId, artist[0].id),
-              eq(events.venueId, venue[0].id)
-            )
-          );
-        }
-
-        if (existingEvents.length > 0) {
-          // Find closest date match if we have multiple results
-          let eventToUpdate = existingEvents[0];
-
-          if (existingEvents.length > 1) {
-            const eventDate = new Date(data.datetime);
-            eventToUpdate = existingEvents.reduce((closest, current) => {
-              const closestDiff = Math.abs(new Date(closest.date).getTime() - eventDate.getTime());
-              const currentDiff = Math.abs(new Date(current.date).getTime() - eventDate.getTime());
-              return currentDiff < closestDiff ? current : closest;
-            });
-          }
-
-          // Update the event with the new information
-          await db.update(events)
-            .set({
-              date: data.datetime,
-              startTime: new Date(data.datetime).toLocaleTimeString(),
-              status: 'confirmed'
-            })
-            .where(eq(events.id, eventToUpdate.id));
-        }
-        break;
-
-      case 'event.canceled':
-        // Mark event as cancelled if it exists
-        // Similar approach to the update case
-        let cancelEvents;
-
-        if (data.id) {
-          cancelEvents = await db.select().from(events).where(eq(events.sourceId, data.id));
-        } else {
-          // If no source ID, use artist and venue IDs
-          cancelEvents = await db.select().from(events).where(
-            and(
-              eq(events.artistId, artist[0].id),
-              eq(events.venueId, venue[0].id)
-            )
-          );
-        }
-
-        if (cancelEvents.length > 0) {
-          // Find closest date match if we have multiple results
-          let eventToCancel = cancelEvents[0];
-
-          if (cancelEvents.length > 1) {
-            const eventDate = new Date(data.datetime);
-            eventToCancel = cancelEvents.reduce((closest, current) => {
-              const closestDiff = Math.abs(new Date(closest.date).getTime() - eventDate.getTime());
-              const currentDiff = Math.abs(new Date(current.date).getTime() - eventDate.getTime());
-              return currentDiff < closestDiff ? current : closest;
-            });
-          }
+        run.count(result.outcome);
+        return result;
+      } catch (error) {
+        await run.error(error, { entityType: 'event', externalId: data.id || null, details: { eventType: event_type }, retry: null });
+        throw error;
+      }
+    });
 
-          // Update the event status
-          await db.update(events)
-            .set({
-              status: 'cancelled'
-            })
-            .where(eq(events.id, eventToCancel.id));
-        }
-        break;
+    if (result.outcome === 'skipped') {
+      logger.log(`Skipped ${event_type} webhook: ${result.reason}`, 'warning');
     }
 
     console.log(`Successfully processed ${event_type} webhook`);
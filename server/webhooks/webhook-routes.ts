@@ -49,7 +49,7 @@ webhookRouter.post('/daily-sync', async (req: Request, res: Response) => {
   try {
     logger.log('Running daily sync from webhook', 'info');
     await runDailySync();
-    res.json({ status: 'success', message: 'Daily sync completed' });
+    res.json({ status: 'success', message: 'Daily sync queued' });
   } catch (error) {
     logger.log(`Error in daily sync webhook: ${error}`, 'error');
     console.error('Error in daily sync webhook:', error);
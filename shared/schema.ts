@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, date, pgEnum, real, jsonb, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, pgEnum, real, jsonb, primaryKey, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -77,6 +77,9 @@ export const rolePermissions = {
   }
 };
 
+export type UserRole = keyof typeof rolePermissions;
+export type Permission = keyof typeof rolePermissions.admin;
+
 // Users table with enhanced roles
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -149,6 +152,7 @@ export const capacityCategoryEnum = pgEnum("capacityCategory", [
 export const venues = pgTable("venues", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
+  address: text("address"), // Street address, for day sheets
   city: text("city").notNull(),
   region: text("region"), // State/province/region
   country: text("country").default('US'),
@@ -196,6 +200,24 @@ export const venues = pgTable("venues", {
   updatedAt: timestamp("updatedAt"),
 });
 
+// Venue membership role enum
+export const venueMemberRoleEnum = pgEnum("venueMemberRole", [
+  "owner",   // Full control of the venue, including its members
+  "booker",  // Can manage bookings, events and tour preferences
+  "staff"    // Read-only access to the venue's data
+]);
+
+// Venue members - links users to the venues they work at
+export const venueMembers = pgTable("venueMembers", {
+  id: serial("id").primaryKey(),
+  venueId: integer("venueId").notNull().references(() => venues.id, { onDelete: "cascade" }),
+  userId: integer("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: venueMemberRoleEnum("role").notNull().default("staff"),
+  createdAt: timestamp("createdAt").defaultNow(),
+}, (t) => ({
+  venueUserUnique: unique("venueMembers_venueId_userId_unique").on(t.venueId, t.userId)
+}));
+
 // Artists table
 export const artists = pgTable("artists", {
   id: serial("id").primaryKey(),
@@ -212,7 +234,26 @@ export const artists = pgTable("artists", {
   createdAt: timestamp("createdAt").defaultNow(),
 });
 
+// An event's fields as one source reported them, normalized
+export interface EventFieldValues {
+  date: string;
+  startTime?: string | null;
+  ticketUrl?: string | null;
+  status?: string | null;
+}
+
+// Which source an event field's value came from
+export interface EventFieldProvenance {
+  source: string;
+  fetchedAt: string;
+  confidence: number;
+}
+
+export type EventProvenance = Partial<Record<keyof EventFieldValues, EventFieldProvenance>>;
+
 // Events table
+// Written by the ingestion pipeline (server/services/event-ingestion.ts), which resolves the
+// fields from every source in eventSources
 export const events = pgTable("events", {
   id: serial("id").primaryKey(),
   artistId: integer("artistId").references(() => artists.id).notNull(),
@@ -220,12 +261,28 @@ export const events = pgTable("events", {
   date: date("date").notNull(),
   startTime: text("startTime"),
   ticketUrl: text("ticketUrl"),
-  status: text("status").default("confirmed"),
-  sourceId: text("sourceId"),
-  sourceName: text("sourceName"),
+  status: text("status").default("confirmed"), // See eventStatuses for valid values
+  provenance: jsonb("provenance").$type<EventProvenance>(),
   createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
 });
 
+// One source's record of an event: its ID for the event there and the fields it last reported
+// See shared/utils/event-ingestion.ts for how sources that disagree are resolved
+export const eventSources = pgTable("eventSources", {
+  id: serial("id").primaryKey(),
+  eventId: integer("eventId").references(() => events.id, { onDelete: "cascade" }).notNull(),
+  source: text("source").notNull(),
+  externalId: text("externalId").notNull(),
+  url: text("url"),
+  fields: jsonb("fields").$type<EventFieldValues>().notNull(),
+  confidence: real("confidence").notNull(),
+  fetchedAt: timestamp("fetchedAt").notNull(),
+  createdAt: timestamp("createdAt").defaultNow(),
+}, (t) => ({
+  sourceExternalUnique: unique("eventSources_source_externalId_unique").on(t.source, t.externalId)
+}));
+
 // VenueNetwork table
 export const venueNetwork = pgTable("venueNetwork", {
   id: serial("id").primaryKey(),
@@ -237,6 +294,10 @@ export const venueNetwork = pgTable("venueNetwork", {
   createdAt: timestamp("createdAt").defaultNow(),
 });
 
+// Prediction review: pending (written by the prediction job) -> accepted | dismissed
+export const predictionStatuses = ["pending", "accepted", "dismissed"] as const;
+export type PredictionStatus = typeof predictionStatuses[number];
+
 // Predictions table
 export const predictions = pgTable("predictions", {
   id: serial("id").primaryKey(),
@@ -244,45 +305,97 @@ export const predictions = pgTable("predictions", {
   venueId: integer("venueId").references(() => venues.id).notNull(),
   suggestedDate: date("suggestedDate").notNull(),
   confidenceScore: integer("confidenceScore").notNull(),
-  status: text("status").default("pending"),
+  status: text("status").default("pending"), // See predictionStatuses for valid values
   reasoning: text("reasoning"),
   gapBeforeEventId: integer("gapBeforeEventId").references(() => events.id),
   gapAfterEventId: integer("gapAfterEventId").references(() => events.id),
+  // Set when a venue manager accepts or dismisses the prediction
+  respondedById: integer("respondedById").references(() => users.id),
+  respondedAt: timestamp("respondedAt"),
   createdAt: timestamp("createdAt").defaultNow(),
 });
 
+// Inquiry lifecycle: pending (offer sent to the venue) -> countered | accepted | declined
+// A countered inquiry goes back to pending when the artist side sends new terms
+export const inquiryStatuses = ["pending", "countered", "accepted", "declined"] as const;
+export type InquiryStatus = typeof inquiryStatuses[number];
+
 // Inquiries table
 export const inquiries = pgTable("inquiries", {
   id: serial("id").primaryKey(),
   venueId: integer("venueId").references(() => venues.id).notNull(),
   artistId: integer("artistId").references(() => artists.id).notNull(),
+  senderId: integer("senderId").references(() => users.id),
+  tourId: integer("tourId").references(() => tours.id, { onDelete: "set null" }),
+  // tourVenues row created or updated when the inquiry is accepted
+  tourVenueId: integer("tourVenueId").references(() => tourVenues.id, { onDelete: "set null" }),
   message: text("message").notNull(),
+  // Current terms; a counter offer replaces them
   proposedDate: date("proposedDate"),
-  status: text("status").default("pending"),
+  offerAmount: real("offerAmount"),
+  responseMessage: text("responseMessage"),
+  status: text("status").default("pending"), // See inquiryStatuses for valid values
   collaborators: integer("collaborators").array(),
+  // Stage timestamps
+  sentAt: timestamp("sentAt").defaultNow(),
+  counteredAt: timestamp("counteredAt"),
+  acceptedAt: timestamp("acceptedAt"),
+  declinedAt: timestamp("declinedAt"),
+  updatedAt: timestamp("updatedAt"),
   createdAt: timestamp("createdAt").defaultNow(),
 });
 
+// Combined routing proposal built from the dates proposed by collaborating venues
+export interface RoutingProposalStop {
+  participantId: number;
+  venueId: number;
+  venueName: string;
+  date: string;
+  distanceFromPreviousKm: number;
+}
+
+export interface RoutingProposal {
+  stops: RoutingProposalStop[];
+  totalDistanceKm: number;
+  // Dates claimed by more than one venue; these must be resolved before confirming
+  dateConflicts: string[];
+  builtAt: string;
+}
+
 // CollaborativeOpportunities table
+// Status: pending (waiting for dates) -> ready (proposal built) -> confirmed (pushed to a tour) | rejected
 export const collaborativeOpportunities = pgTable("collaborativeOpportunities", {
   id: serial("id").primaryKey(),
   artistId: integer("artistId").references(() => artists.id).notNull(),
   creatorVenueId: integer("creatorVenueId").references(() => venues.id).notNull(),
+  createdById: integer("createdById").references(() => users.id),
   dateRangeStart: date("dateRangeStart").notNull(),
   dateRangeEnd: date("dateRangeEnd").notNull(),
   status: text("status").default("pending"),
+  notes: text("notes"),
+  proposal: jsonb("proposal").$type<RoutingProposal>(),
+  // Tour the confirmed proposal was pushed into
+  tourId: integer("tourId").references(() => tours.id, { onDelete: "set null" }),
+  confirmedAt: timestamp("confirmedAt"),
+  updatedAt: timestamp("updatedAt"),
   createdAt: timestamp("createdAt").defaultNow(),
 });
 
 // CollaborativeParticipants table
+// Status: pending (invited) -> accepted (date proposed) | declined
 export const collaborativeParticipants = pgTable("collaborativeParticipants", {
   id: serial("id").primaryKey(),
   opportunityId: integer("opportunityId").references(() => collaborativeOpportunities.id).notNull(),
   venueId: integer("venueId").references(() => venues.id).notNull(),
   status: text("status").default("pending"),
   proposedDate: date("proposedDate"),
+  respondedAt: timestamp("respondedAt"),
+  // Suggested tour venue created when the proposal is confirmed
+  tourVenueId: integer("tourVenueId").references(() => tourVenues.id, { onDelete: "set null" }),
   createdAt: timestamp("createdAt").defaultNow(),
-});
+}, (t) => ({
+  opportunityVenueUnique: unique("collaborativeParticipants_opportunityId_venueId_unique").on(t.opportunityId, t.venueId)
+}));
 
 // Genre relations
 export const genresRelations = relations(genres, ({ one, many }) => ({
@@ -318,7 +431,20 @@ export const venueGenresRelations = relations(venueGenres, ({ one }) => ({
 }));
 
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({}));
+export const usersRelations = relations(users, ({ many }) => ({
+  venueMemberships: many(venueMembers),
+}));
+
+export const venueMembersRelations = relations(venueMembers, ({ one }) => ({
+  venue: one(venues, {
+    fields: [venueMembers.venueId],
+    references: [venues.id],
+  }),
+  user: one(users, {
+    fields: [venueMembers.userId],
+    references: [users.id],
+  }),
+}));
 
 export const venuesRelations = relations(venues, ({ one, many }) => ({
   owner: one(users, {
@@ -330,6 +456,7 @@ export const venuesRelations = relations(venues, ({ one, many }) => ({
   venueConnections: many(venueNetwork, { relationName: "venueConnections" }),
   connectedByVenues: many(venueNetwork, { relationName: "connectedByVenues" }),
   genreConnections: many(venueGenres),
+  members: many(venueMembers),
 }));
 
 export const artistsRelations = relations(artists, ({ many }) => ({
@@ -338,7 +465,7 @@ export const artistsRelations = relations(artists, ({ many }) => ({
   genreConnections: many(artistGenres),
 }));
 
-export const eventsRelations = relations(events, ({ one }) => ({
+export const eventsRelations = relations(events, ({ one, many }) => ({
   artist: one(artists, {
     fields: [events.artistId],
     references: [artists.id],
@@ -347,6 +474,15 @@ export const eventsRelations = relations(events, ({ one }) => ({
     fields: [events.venueId],
     references: [venues.id],
   }),
+  radiusClauses: many(radiusClauses),
+  sources: many(eventSources),
+}));
+
+export const eventSourcesRelations = relations(eventSources, ({ one }) => ({
+  event: one(events, {
+    fields: [eventSources.eventId],
+    references: [events.id],
+  }),
 }));
 
 export const predictionsRelations = relations(predictions, ({ one }) => ({
@@ -381,10 +517,33 @@ export const venueNetworkRelations = relations(venueNetwork, ({ one }) => ({
   }),
 }));
 
+// Conversation threads - optionally attached to a tour, tour venue or inquiry
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  subject: text("subject"),
+  createdById: integer("createdById").references(() => users.id),
+  tourId: integer("tourId").references(() => tours.id, { onDelete: "set null" }),
+  tourVenueId: integer("tourVenueId").references(() => tourVenues.id, { onDelete: "set null" }),
+  inquiryId: integer("inquiryId").references(() => inquiries.id, { onDelete: "set null" }),
+  lastMessageAt: timestamp("lastMessageAt").defaultNow(),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+// Conversation participants - lastReadAt doubles as the read receipt for the thread
+export const conversationParticipants = pgTable("conversationParticipants", {
+  conversationId: integer("conversationId").notNull().references(() => conversations.id, { onDelete: "cascade" }),
+  userId: integer("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+  lastReadAt: timestamp("lastReadAt"),
+  joinedAt: timestamp("joinedAt").defaultNow(),
+}, (t) => ({
+  pk: primaryKey({ columns: [t.conversationId, t.userId] })
+}));
+
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
+  conversationId: integer("conversationId").references(() => conversations.id, { onDelete: "cascade" }),
   senderId: integer("senderId").references(() => users.id),
-  receiverId: integer("receiverId").references(() => users.id),
+  receiverId: integer("receiverId").references(() => users.id), // Legacy direct messages only
   content: text("content").notNull(),
   timestamp: timestamp("timestamp").defaultNow(),
   senderName: text("senderName").notNull(),
@@ -404,7 +563,43 @@ export const webhookConfigurations = pgTable("webhookConfigurations", {
   createdAt: timestamp("createdAt").defaultNow()
 });
 
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [conversations.createdById],
+    references: [users.id],
+  }),
+  tour: one(tours, {
+    fields: [conversations.tourId],
+    references: [tours.id],
+  }),
+  tourVenue: one(tourVenues, {
+    fields: [conversations.tourVenueId],
+    references: [tourVenues.id],
+  }),
+  inquiry: one(inquiries, {
+    fields: [conversations.inquiryId],
+    references: [inquiries.id],
+  }),
+  participants: many(conversationParticipants),
+  messages: many(messages),
+}));
+
+export const conversationParticipantsRelations = relations(conversationParticipants, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [conversationParticipants.conversationId],
+    references: [conversations.id],
+  }),
+  user: one(users, {
+    fields: [conversationParticipants.userId],
+    references: [users.id],
+  }),
+}));
+
 export const messagesRelations = relations(messages, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [messages.conversationId],
+    references: [conversations.id],
+  }),
   sender: one(users, {
     fields: [messages.senderId],
     references: [users.id],
@@ -424,6 +619,18 @@ export const inquiriesRelations = relations(inquiries, ({ one }) => ({
     fields: [inquiries.artistId],
     references: [artists.id],
   }),
+  sender: one(users, {
+    fields: [inquiries.senderId],
+    references: [users.id],
+  }),
+  tour: one(tours, {
+    fields: [inquiries.tourId],
+    references: [tours.id],
+  }),
+  tourVenue: one(tourVenues, {
+    fields: [inquiries.tourVenueId],
+    references: [tourVenues.id],
+  }),
 }));
 
 export const collaborativeOpportunitiesRelations = relations(collaborativeOpportunities, ({ one, many }) => ({
@@ -435,6 +642,10 @@ export const collaborativeOpportunitiesRelations = relations(collaborativeOpport
     fields: [collaborativeOpportunities.creatorVenueId],
     references: [venues.id],
   }),
+  tour: one(tours, {
+    fields: [collaborativeOpportunities.tourId],
+    references: [tours.id],
+  }),
   participants: many(collaborativeParticipants),
 }));
 
@@ -447,6 +658,10 @@ export const collaborativeParticipantsRelations = relations(collaborativePartici
     fields: [collaborativeParticipants.venueId],
     references: [venues.id],
   }),
+  tourVenue: one(tourVenues, {
+    fields: [collaborativeParticipants.tourVenueId],
+    references: [tourVenues.id],
+  }),
 }));
 
 // Insert Schemas
@@ -460,6 +675,15 @@ export const insertVenueSchema = createInsertSchema(venues).omit({
   createdAt: true,
 });
 
+export const insertVenueMemberSchema = createInsertSchema(venueMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type VenueMember = typeof venueMembers.$inferSelect;
+export type InsertVenueMember = z.infer<typeof insertVenueMemberSchema>;
+export type VenueMemberRole = VenueMember["role"];
+
 export const insertArtistSchema = createInsertSchema(artists).omit({
   id: true,
   createdAt: true,
@@ -500,14 +724,22 @@ export const insertPredictionSchema = createInsertSchema(predictions).omit({
   createdAt: true,
 });
 
+export type Prediction = typeof predictions.$inferSelect;
+export type InsertPrediction = z.infer<typeof insertPredictionSchema>;
+
 export const insertInquirySchema = createInsertSchema(inquiries).omit({
   id: true,
   createdAt: true,
 });
 
+export type Inquiry = typeof inquiries.$inferSelect;
+export type InsertInquiry = z.infer<typeof insertInquirySchema>;
+
 export const insertCollaborativeOpportunitySchema = createInsertSchema(collaborativeOpportunities).omit({
   id: true,
   createdAt: true,
+  // Built by the server from participants' dates
+  proposal: true,
 });
 
 export const insertCollaborativeParticipantSchema = createInsertSchema(collaborativeParticipants).omit({
@@ -515,6 +747,31 @@ export const insertCollaborativeParticipantSchema = createInsertSchema(collabora
   createdAt: true,
 });
 
+export type CollaborativeOpportunity = typeof collaborativeOpportunities.$inferSelect;
+export type InsertCollaborativeOpportunity = z.infer<typeof insertCollaborativeOpportunitySchema>;
+
+export type CollaborativeParticipant = typeof collaborativeParticipants.$inferSelect;
+export type InsertCollaborativeParticipant = z.infer<typeof insertCollaborativeParticipantSchema>;
+
+export const insertConversationSchema = createInsertSchema(conversations).omit({
+  id: true,
+  createdAt: true,
+  lastMessageAt: true,
+});
+
+export const insertMessageSchema = createInsertSchema(messages).omit({
+  id: true,
+  timestamp: true,
+});
+
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+
+export type ConversationParticipant = typeof conversationParticipants.$inferSelect;
+
+export type Message = typeof messages.$inferSelect;
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+
 // Add schema and type for webhook configurations
 export const insertWebhookConfigurationSchema = createInsertSchema(webhookConfigurations).omit({
   id: true,
@@ -533,9 +790,28 @@ export const tourRoutes = pgTable("tourRoutes", {
   distanceKm: real("distanceKm"),
   estimatedTravelTimeMinutes: integer("estimatedTravelTimeMinutes"),
   optimizationScore: integer("optimizationScore"),
+  travelMode: text("travelMode").default("drive"), // drive, ferry, flight
+  // Countries of a leg that crosses a border
+  fromCountry: text("fromCountry"),
+  toCountry: text("toCountry"),
+  borderCrossing: boolean("borderCrossing").default(false),
   createdAt: timestamp("createdAt").defaultNow(),
 });
 
+// Travel between two venues as measured by a travel matrix provider (e.g. a road router)
+export const travelMatrixEntries = pgTable("travelMatrixEntries", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(),
+  fromVenueId: integer("fromVenueId").references(() => venues.id, { onDelete: 'cascade' }).notNull(),
+  toVenueId: integer("toVenueId").references(() => venues.id, { onDelete: 'cascade' }).notNull(),
+  distanceKm: real("distanceKm").notNull(),
+  travelTimeMinutes: real("travelTimeMinutes").notNull(),
+  travelMode: text("travelMode").default("drive").notNull(), // drive, ferry, flight
+  createdAt: timestamp("createdAt").defaultNow(),
+}, (t) => ({
+  providerPairUnique: unique("travelMatrixEntries_provider_fromVenueId_toVenueId_unique").on(t.provider, t.fromVenueId, t.toVenueId)
+}));
+
 // Tour optimization tables
 export const tours = pgTable("tours", {
   id: serial("id").primaryKey(),
@@ -584,6 +860,12 @@ export const tourVenues = pgTable("tourVenues", {
   travelDistanceFromPrevious: real("travelDistanceFromPrevious"),
   travelTimeFromPrevious: integer("travelTimeFromPrevious"), // in minutes
   notes: text("notes"),
+  // Day sheet times, HH:MM venue local time
+  loadInTime: text("loadInTime"),
+  soundcheckTime: text("soundcheckTime"),
+  doorsTime: text("doorsTime"),
+  setTime: text("setTime"),
+  accommodation: text("accommodation"), // Where the band stays that night
   statusUpdatedAt: timestamp("statusUpdatedAt"), // Track when status changes
   createdAt: timestamp("createdAt").defaultNow(),
 });
@@ -633,7 +915,8 @@ export const venueTourPreferences = pgTable("venueTourPreferences", {
   id: serial("id").primaryKey(),
   venueId: integer("venueId").references(() => venues.id).notNull(),
   preferredGenres: genreEnum("preferredGenres").array(),
-  availableDates: jsonb("availableDates").array(),
+  availableDates: jsonb("availableDates").$type<string>().array(), // One-off open dates (YYYY-MM-DD) outside openWeekdays
+  openWeekdays: integer("openWeekdays").array(), // Nights the venue books shows on, 0 = Sunday; empty for every night
   minimumArtistPopularity: integer("minimumArtistPopularity"),
   preferredNoticeTime: integer("preferredNoticeTimeDays"),
   openToCollaboration: boolean("openToCollaboration").default(true),
@@ -642,6 +925,307 @@ export const venueTourPreferences = pgTable("venueTourPreferences", {
   updatedAt: timestamp("updatedAt"),
 });
 
+// A tour venue as it was when an optimization run started
+export interface TourSnapshotStop {
+  tourVenueId: number;
+  venueId: number;
+  venueName: string;
+  city: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  date: string | null;
+  status: string | null;
+  sequence: number | null;
+}
+
+// Run kinds: optimization (a strategy proposed a route) | rollback (the tour was restored to an earlier run's snapshot)
+export const optimizationRunKinds = ["optimization", "rollback"] as const;
+export type OptimizationRunKind = typeof optimizationRunKinds[number];
+
+// Optimization runs: every optimization of a tour and what was applied, so tours can be diffed and rolled back
+export const optimizationRuns = pgTable("optimizationRuns", {
+  id: serial("id").primaryKey(),
+  tourId: integer("tourId").references(() => tours.id, { onDelete: "cascade" }).notNull(),
+  kind: text("kind").default("optimization"), // See optimizationRunKinds for valid values
+  strategy: text("strategy"),
+  requestedStrategy: text("requestedStrategy"),
+  solver: text("solver"),
+  options: jsonb("options"),
+  // Tour venues the run started from; refreshed when the run is applied so a rollback undoes exactly that apply
+  inputSnapshot: jsonb("inputSnapshot").$type<TourSnapshotStop[]>().notNull(),
+  // Optimization result contract (see server/services/optimization/types.ts); null for rollbacks
+  result: jsonb("result"),
+  // Run whose input snapshot a rollback restored
+  sourceRunId: integer("sourceRunId"),
+  optimizationScore: integer("optimizationScore"),
+  totalDistance: real("totalDistance"),
+  totalTravelTime: integer("totalTravelTimeMinutes"),
+  createdById: integer("createdById").references(() => users.id),
+  appliedById: integer("appliedById").references(() => users.id),
+  appliedAt: timestamp("appliedAt"),
+  // Tour venues the apply added, removed again by a rollback
+  addedTourVenueIds: integer("addedTourVenueIds").array(),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+// Tour-wide cost assumptions for the tour P&L; unset values use the defaults in shared/utils/tour-finance.ts
+export const tourBudgets = pgTable("tourBudgets", {
+  id: serial("id").primaryKey(),
+  tourId: integer("tourId").references(() => tours.id, { onDelete: "cascade" }).notNull().unique(),
+  currency: text("currency").default("USD"),
+  fuelCostPerKm: real("fuelCostPerKm"),
+  lodgingPerNight: real("lodgingPerNight"),
+  perDiem: real("perDiem"), // per person per day
+  partySize: integer("partySize"),
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt"),
+});
+
+// Deal and settlement of one show; percentages are the artist's share (0-100)
+export const showSettlements = pgTable("showSettlements", {
+  id: serial("id").primaryKey(),
+  tourVenueId: integer("tourVenueId").references(() => tourVenues.id, { onDelete: "cascade" }).notNull().unique(),
+  guarantee: real("guarantee").default(0),
+  doorSplitPercent: real("doorSplitPercent").default(0),
+  ticketPrice: real("ticketPrice"),
+  barSplitPercent: real("barSplitPercent").default(0),
+  merchSplitPercent: real("merchSplitPercent").default(100),
+  // Projections; tickets default to a share of the venue's capacity
+  projectedTickets: integer("projectedTickets"),
+  projectedBarSales: real("projectedBarSales"),
+  projectedMerchSales: real("projectedMerchSales"),
+  // Overrides the tour's lodging per night for this show
+  lodgingCost: real("lodgingCost"),
+  otherExpenses: real("otherExpenses"),
+  // Entered after the show
+  actualTickets: integer("actualTickets"),
+  actualBarSales: real("actualBarSales"),
+  actualMerchSales: real("actualMerchSales"),
+  actualExpenses: real("actualExpenses"),
+  settledAt: timestamp("settledAt"),
+  settledById: integer("settledById").references(() => users.id),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt"),
+});
+
+// Radius clause of a booking: no other shows within radiusKm from daysBefore the show to daysAfter it
+// Belongs to either a tour venue or an event
+export const radiusClauses = pgTable("radiusClauses", {
+  id: serial("id").primaryKey(),
+  tourVenueId: integer("tourVenueId").references(() => tourVenues.id, { onDelete: "cascade" }),
+  eventId: integer("eventId").references(() => events.id, { onDelete: "cascade" }),
+  radiusKm: real("radiusKm").notNull(),
+  daysBefore: integer("daysBefore").notNull().default(0),
+  daysAfter: integer("daysAfter").notNull().default(0),
+  notes: text("notes"),
+  createdById: integer("createdById").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+// Dates a venue takes no shows, e.g. renovations or private hire
+export const venueBlackouts = pgTable("venueBlackouts", {
+  id: serial("id").primaryKey(),
+  venueId: integer("venueId").references(() => venues.id, { onDelete: "cascade" }).notNull(),
+  startDate: date("startDate").notNull(),
+  endDate: date("endDate").notNull(), // inclusive
+  reason: text("reason"),
+  createdById: integer("createdById").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+// A tour venue's hold on a venue's date, ranked against other artists' holds on the same night
+// See shared/utils/hold-ledger.ts for how holds are promoted, challenged and bumped
+export const venueHolds = pgTable("venueHolds", {
+  id: serial("id").primaryKey(),
+  venueId: integer("venueId").references(() => venues.id).notNull(),
+  date: date("date").notNull(),
+  tourVenueId: integer("tourVenueId").references(() => tourVenues.id, { onDelete: "cascade" }).notNull(),
+  status: text("status").notNull().default("active"), // See holdStatuses for valid values
+  rank: integer("rank"), // 1 for the first hold; null once confirmed or released
+  // Lower hold challenging this one
+  challengedById: integer("challengedById"),
+  // Set on a challenger: when the holds above it must confirm or release
+  challengeDeadline: timestamp("challengeDeadline"),
+  // How the hold left the stack: confirmed, released, bumped or challengeExpired
+  resolution: text("resolution"),
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt"),
+});
+
+// Read-only iCal feed of a tour's or a venue's dates, reached by its token alone
+// Exactly one of tourId and venueId is set; a revoked feed stops serving
+export const calendarFeeds = pgTable("calendarFeeds", {
+  id: serial("id").primaryKey(),
+  token: text("token").notNull().unique(),
+  tourId: integer("tourId").references(() => tours.id, { onDelete: "cascade" }),
+  venueId: integer("venueId").references(() => venues.id, { onDelete: "cascade" }),
+  createdById: integer("createdById").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow(),
+  revokedAt: timestamp("revokedAt"),
+  lastAccessedAt: timestamp("lastAccessedAt"),
+});
+
+// Likely duplicate venues or artists waiting for an admin to merge or dismiss them
+// sourceId and targetId are venue or artist IDs depending on entityType; a merge keeps the target
+// See shared/utils/entity-matching.ts for how pairs are scored
+export const entityMatchReviews = pgTable("entityMatchReviews", {
+  id: serial("id").primaryKey(),
+  entityType: text("entityType").notNull(), // See entityTypes for valid values
+  sourceId: integer("sourceId").notNull(),
+  targetId: integer("targetId").notNull(),
+  score: real("score").notNull(),
+  reasons: jsonb("reasons").$type<string[]>(),
+  // Where the pair was found, e.g. "bandsintown-webhook" or "scan"
+  detectedBy: text("detectedBy"),
+  status: text("status").notNull().default("pending"), // See matchReviewStatuses for valid values
+  reviewedById: integer("reviewedById").references(() => users.id),
+  reviewedAt: timestamp("reviewedAt"),
+  createdAt: timestamp("createdAt").defaultNow(),
+}, (t) => ({
+  pairUnique: unique("entityMatchReviews_entityType_sourceId_targetId_unique").on(t.entityType, t.sourceId, t.targetId)
+}));
+
+// How far a running job has got, as its handler last reported
+export interface JobProgress {
+  current: number;
+  total: number | null;
+  message?: string;
+}
+
+// A recurring job; the job worker queues one each time the cron expression comes round
+// See shared/utils/job-queue.ts for the cron format
+export const jobSchedules = pgTable("jobSchedules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  type: text("type").notNull(), // See jobTypes for valid values
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  cron: text("cron").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  lastRunAt: timestamp("lastRunAt"),
+  // Worked out by the job worker; null until it first sees the schedule
+  nextRunAt: timestamp("nextRunAt"),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+// Sync, scrape, enrichment and maintenance work for the job worker (server/services/job-queue.ts)
+// queued -> running -> succeeded | failed | cancelled; a failed attempt goes back to queued
+// with its runAt pushed back until maxAttempts is reached
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // See jobTypes for valid values
+  // The API or service the job calls; jobs from one source share its concurrency and rate limits
+  source: text("source").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+  status: text("status").notNull().default("queued"), // See jobStatuses for valid values
+  priority: integer("priority").notNull().default(0),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("maxAttempts").notNull().default(3),
+  // Not started before this
+  runAt: timestamp("runAt").notNull().defaultNow(),
+  startedAt: timestamp("startedAt"),
+  finishedAt: timestamp("finishedAt"),
+  // The worker running the job; its claim lapses at lockedUntil unless renewed
+  lockedBy: text("lockedBy"),
+  lockedUntil: timestamp("lockedUntil"),
+  progress: jsonb("progress").$type<JobProgress>(),
+  result: jsonb("result"),
+  lastError: text("lastError"),
+  cancelRequestedAt: timestamp("cancelRequestedAt"),
+  scheduleId: integer("scheduleId").references(() => jobSchedules.id, { onDelete: "set null" }),
+  createdById: integer("createdById").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+// What a job reported while it ran
+export const jobLogs = pgTable("jobLogs", {
+  id: serial("id").primaryKey(),
+  jobId: integer("jobId").references(() => jobs.id, { onDelete: "cascade" }).notNull(),
+  level: text("level").notNull().default("info"), // See jobLogLevels for valid values
+  message: text("message").notNull(),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+// One run of a collector: a sync, scrape, import or webhook delivery (server/services/sync-runs.ts)
+// running -> succeeded | partial | failed; partial when some items failed, see syncRunStatus
+export const syncRuns = pgTable("syncRuns", {
+  id: serial("id").primaryKey(),
+  // The API or site the run read from, e.g. bandsintown, predicthq, openai
+  source: text("source").notNull(),
+  // What the run did, e.g. seed-venue-events or bandsintown-webhook
+  operation: text("operation").notNull(),
+  // The venue or artist the run was about, when it was about one
+  entityType: text("entityType"),
+  entityId: integer("entityId"),
+  jobId: integer("jobId").references(() => jobs.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("running"), // See syncRunStatuses for valid values
+  created: integer("created").notNull().default(0),
+  updated: integer("updated").notNull().default(0),
+  unchanged: integer("unchanged").notNull().default(0),
+  skipped: integer("skipped").notNull().default(0),
+  errored: integer("errored").notNull().default(0),
+  // Why the run as a whole failed
+  error: text("error"),
+  startedAt: timestamp("startedAt").notNull().defaultNow(),
+  finishedAt: timestamp("finishedAt"),
+  durationMs: integer("durationMs"),
+});
+
+// An item a sync run couldn't process
+// retryType and retryPayload are the job that processes the item again, when there is one
+export const syncRunErrors = pgTable("syncRunErrors", {
+  id: serial("id").primaryKey(),
+  runId: integer("runId").references(() => syncRuns.id, { onDelete: "cascade" }).notNull(),
+  entityType: text("entityType"),
+  entityId: integer("entityId"),
+  // The source's own ID for the item
+  externalId: text("externalId"),
+  message: text("message").notNull(),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  retryType: text("retryType"), // See jobTypes for valid values
+  retryPayload: jsonb("retryPayload").$type<Record<string, unknown>>(),
+  // The job queued to process the item again
+  retryJobId: integer("retryJobId").references(() => jobs.id, { onDelete: "set null" }),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
+// An external system notified of tour and booking changes (server/services/outbound-webhooks.ts)
+// Unlike webhookConfigurations, which receive data from other services, these send it
+export const webhookSubscriptions = pgTable("webhookSubscriptions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  // Signs each body; shared with the receiver to check X-Webhook-Signature
+  secret: text("secret").notNull(),
+  // See webhookEventTypes; empty takes every event
+  eventTypes: text("eventTypes").array().notNull().default([]),
+  isEnabled: boolean("isEnabled").notNull().default(true),
+  lastDeliveredAt: timestamp("lastDeliveredAt"),
+  createdById: integer("createdById").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow(),
+  updatedAt: timestamp("updatedAt").defaultNow(),
+});
+
+// One event posted to one subscription, with the outcome of its latest attempt
+// Attempts run as webhook-delivery jobs, so failures are retried with the queue's backoff
+export const webhookDeliveries = pgTable("webhookDeliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscriptionId").references(() => webhookSubscriptions.id, { onDelete: "cascade" }).notNull(),
+  eventType: text("eventType").notNull(),
+  // The envelope as posted; see WebhookEnvelope
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status").notNull().default("pending"), // See webhookDeliveryStatuses for valid values
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("responseStatus"),
+  responseBody: text("responseBody"),
+  error: text("error"),
+  durationMs: integer("durationMs"),
+  jobId: integer("jobId").references(() => jobs.id, { onDelete: "set null" }),
+  lastAttemptAt: timestamp("lastAttemptAt"),
+  deliveredAt: timestamp("deliveredAt"),
+  createdAt: timestamp("createdAt").defaultNow(),
+});
+
 // Relations for tour optimization
 export const toursRelations = relations(tours, ({ one, many }) => ({
   artist: one(artists, {
@@ -651,6 +1235,8 @@ export const toursRelations = relations(tours, ({ one, many }) => ({
   venues: many(tourVenues),
   gaps: many(tourGaps),
   routes: many(tourRoutes),
+  optimizationRuns: many(optimizationRuns),
+  budget: one(tourBudgets),
 }));
 
 export const tourRoutesRelations = relations(tourRoutes, ({ one }) => ({
@@ -668,7 +1254,7 @@ export const tourRoutesRelations = relations(tourRoutes, ({ one }) => ({
   }),
 }));
 
-export const tourVenuesRelations = relations(tourVenues, ({ one }) => ({
+export const tourVenuesRelations = relations(tourVenues, ({ one, many }) => ({
   tour: one(tours, {
     fields: [tourVenues.tourId],
     references: [tours.id],
@@ -677,6 +1263,67 @@ export const tourVenuesRelations = relations(tourVenues, ({ one }) => ({
     fields: [tourVenues.venueId],
     references: [venues.id],
   }),
+  settlement: one(showSettlements),
+  radiusClauses: many(radiusClauses),
+  holds: many(venueHolds),
+}));
+
+export const tourBudgetsRelations = relations(tourBudgets, ({ one }) => ({
+  tour: one(tours, {
+    fields: [tourBudgets.tourId],
+    references: [tours.id],
+  }),
+}));
+
+export const venueBlackoutsRelations = relations(venueBlackouts, ({ one }) => ({
+  venue: one(venues, {
+    fields: [venueBlackouts.venueId],
+    references: [venues.id],
+  }),
+}));
+
+export const venueHoldsRelations = relations(venueHolds, ({ one }) => ({
+  venue: one(venues, {
+    fields: [venueHolds.venueId],
+    references: [venues.id],
+  }),
+  tourVenue: one(tourVenues, {
+    fields: [venueHolds.tourVenueId],
+    references: [tourVenues.id],
+  }),
+}));
+
+export const calendarFeedsRelations = relations(calendarFeeds, ({ one }) => ({
+  tour: one(tours, {
+    fields: [calendarFeeds.tourId],
+    references: [tours.id],
+  }),
+  venue: one(venues, {
+    fields: [calendarFeeds.venueId],
+    references: [venues.id],
+  }),
+}));
+
+export const radiusClausesRelations = relations(radiusClauses, ({ one }) => ({
+  tourVenue: one(tourVenues, {
+    fields: [radiusClauses.tourVenueId],
+    references: [tourVenues.id],
+  }),
+  event: one(events, {
+    fields: [radiusClauses.eventId],
+    references: [events.id],
+  }),
+}));
+
+export const showSettlementsRelations = relations(showSettlements, ({ one }) => ({
+  tourVenue: one(tourVenues, {
+    fields: [showSettlements.tourVenueId],
+    references: [tourVenues.id],
+  }),
+  settledBy: one(users, {
+    fields: [showSettlements.settledById],
+    references: [users.id],
+  }),
 }));
 
 export const tourGapsRelations = relations(tourGaps, ({ one, many }) => ({
@@ -706,6 +1353,21 @@ export const tourGapSuggestionsRelations = relations(tourGapSuggestions, ({ one
   }),
 }));
 
+export const optimizationRunsRelations = relations(optimizationRuns, ({ one }) => ({
+  tour: one(tours, {
+    fields: [optimizationRuns.tourId],
+    references: [tours.id],
+  }),
+  createdBy: one(users, {
+    fields: [optimizationRuns.createdById],
+    references: [users.id],
+  }),
+  appliedBy: one(users, {
+    fields: [optimizationRuns.appliedById],
+    references: [users.id],
+  }),
+}));
+
 export const artistTourPreferencesRelations = relations(artistTourPreferences, ({ one }) => ({
   artist: one(artists, {
     fields: [artistTourPreferences.artistId],
@@ -763,6 +1425,7 @@ export type InsertTour = z.infer<typeof insertTourSchema>;
 
 export type TourRoute = typeof tourRoutes.$inferSelect;
 export type InsertTourRoute = z.infer<typeof insertTourRouteSchema>;
+export type TravelMatrixEntry = typeof travelMatrixEntries.$inferSelect;
 
 export type TourVenue = typeof tourVenues.$inferSelect;
 export type InsertTourVenue = z.infer<typeof insertTourVenueSchema>;
@@ -773,6 +1436,24 @@ export type InsertTourGap = z.infer<typeof insertTourGapSchema>;
 export type TourGapSuggestion = typeof tourGapSuggestions.$inferSelect;
 export type InsertTourGapSuggestion = z.infer<typeof insertTourGapSuggestionSchema>;
 
+export type OptimizationRun = typeof optimizationRuns.$inferSelect;
+
+export type TourBudget = typeof tourBudgets.$inferSelect;
+export type ShowSettlement = typeof showSettlements.$inferSelect;
+export type RadiusClause = typeof radiusClauses.$inferSelect;
+export type VenueHold = typeof venueHolds.$inferSelect;
+export type VenueBlackout = typeof venueBlackouts.$inferSelect;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type EntityMatchReview = typeof entityMatchReviews.$inferSelect;
+export type EventSource = typeof eventSources.$inferSelect;
+export type Job = typeof jobs.$inferSelect;
+export type JobSchedule = typeof jobSchedules.$inferSelect;
+export type JobLog = typeof jobLogs.$inferSelect;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type SyncRunError = typeof syncRunErrors.$inferSelect;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
 export type ArtistTourPreferences = typeof artistTourPreferences.$inferSelect;
 export type InsertArtistTourPreferences = z.infer<typeof insertArtistTourPreferencesSchema>;
 
@@ -0,0 +1,254 @@
+/**
+ * Entity matching
+ *
+ * Decides whether an incoming venue or artist is one we already have. A shared external
+ * ID (Bandsintown, Songkick, Google Places, Spotify) settles it either way; otherwise the
+ * score is the similarity of the normalized names, raised when the venues sit within a
+ * few hundred metres of each other and lowered when they are far apart or in different
+ * cities. Scores at or above AUTO_MATCH_SCORE are treated as the same entity; scores
+ * between REVIEW_MATCH_SCORE and that go to the admin review queue.
+ */
+import { calculateDistance } from './geo';
+
+export const entityTypes = ['venue', 'artist'] as const;
+export type EntityType = typeof entityTypes[number];
+
+export const matchReviewStatuses = ['pending', 'merged', 'dismissed'] as const;
+export type MatchReviewStatus = typeof matchReviewStatuses[number];
+
+export const AUTO_MATCH_SCORE = 0.9;
+export const REVIEW_MATCH_SCORE = 0.6;
+
+// Venues this close are the same building unless their names disagree
+const SAME_SITE_KM = 0.25;
+const NEARBY_KM = 2;
+// Venues further apart than this are different places whatever their names
+const FAR_APART_KM = 50;
+
+export interface VenueMatchFields {
+  name: string;
+  city?: string | null;
+  region?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  bandsintownId?: string | null;
+  songkickId?: string | null;
+  googlePlaceId?: string | null;
+}
+
+export interface ArtistMatchFields {
+  name: string;
+  spotifyId?: string | null;
+  bandsintownId?: string | null;
+  songkickId?: string | null;
+}
+
+export interface MatchScore {
+  // 0-1
+  score: number;
+  // Why, e.g. "same bandsintownId" or "120 m apart"
+  reasons: string[];
+}
+
+export interface RankedMatch<T> extends MatchScore {
+  candidate: T;
+}
+
+export interface DuplicatePair<T> extends MatchScore {
+  // The entity that would be merged away: the later of the two
+  source: T;
+  target: T;
+}
+
+const VENUE_EXTERNAL_IDS = ['bandsintownId', 'songkickId', 'googlePlaceId'] as const;
+const ARTIST_EXTERNAL_IDS = ['spotifyId', 'bandsintownId', 'songkickId'] as const;
+
+/**
+ * Lowercase a name and strip accents, punctuation, "&" and a leading "The"
+ * e.g. "The Bug Jar" and "Bug Jar!" both become "bug jar"
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+function bigrams(value: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const bigram = value.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient of the letter pairs, which tolerates typos and run-together words
+function bigramSimilarity(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let shared = 0;
+  left.forEach((count, bigram) => {
+    shared += Math.min(count, right.get(bigram) ?? 0);
+  });
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+}
+
+// Share of the words that appear in both names, ignoring order
+function tokenSimilarity(a: string, b: string): number {
+  const left = new Set(a.split(' '));
+  const right = new Set(b.split(' '));
+  let shared = 0;
+  left.forEach(token => {
+    if (right.has(token)) shared++;
+  });
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Similarity of two names from 0 to 1 after normalizing them
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const compactLeft = left.replace(/ /g, '');
+  const compactRight = right.replace(/ /g, '');
+  if (compactLeft === compactRight) return 0.98;
+
+  return Math.max(tokenSimilarity(left, right), bigramSimilarity(compactLeft, compactRight));
+}
+
+// 1 when both have the same ID, 0 when both have different ones, null when either lacks one
+function compareExternalIds<T>(a: T, b: T, keys: readonly (keyof T)[]): MatchScore | null {
+  for (const key of keys) {
+    const left = a[key];
+    const right = b[key];
+    if (left == null || right == null) continue;
+    return left === right
+      ? { score: 1, reasons: [`same ${String(key)}`] }
+      : { score: 0, reasons: [`different ${String(key)}`] };
+  }
+  return null;
+}
+
+const round = (score: number) => Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+
+/**
+ * How likely two venues are the same place
+ */
+export function scoreVenueMatch(a: VenueMatchFields, b: VenueMatchFields): MatchScore {
+  const external = compareExternalIds(a, b, VENUE_EXTERNAL_IDS);
+  if (external) return external;
+
+  let score = nameSimilarity(a.name, b.name);
+  const reasons = [`name ${round(score).toFixed(2)}`];
+
+  if (a.latitude != null && a.longitude != null && b.latitude != null && b.longitude != null) {
+    const distanceKm = calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+    reasons.push(distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m apart` : `${Math.round(distanceKm)} km apart`);
+    if (distanceKm <= SAME_SITE_KM) score += 0.1;
+    else if (distanceKm <= NEARBY_KM) score += 0.05;
+    else if (distanceKm > FAR_APART_KM) score *= 0.5;
+  } else if (a.city && b.city) {
+    if (normalizeName(a.city) === normalizeName(b.city)) {
+      score += 0.05;
+      reasons.push('same city');
+    } else {
+      score *= 0.6;
+      reasons.push('different city');
+    }
+  }
+
+  return { score: round(score), reasons };
+}
+
+/**
+ * How likely two artists are the same act
+ */
+export function scoreArtistMatch(a: ArtistMatchFields, b: ArtistMatchFields): MatchScore {
+  const external = compareExternalIds(a, b, ARTIST_EXTERNAL_IDS);
+  if (external) return external;
+
+  const score = round(nameSimilarity(a.name, b.name));
+  return { score, reasons: [`name ${score.toFixed(2)}`] };
+}
+
+/**
+ * Candidates scoring at least REVIEW_MATCH_SCORE, best first
+ */
+export function rankMatches<T, Q>(
+  query: Q,
+  candidates: T[],
+  score: (query: Q, candidate: T) => MatchScore
+): RankedMatch<T>[] {
+  return candidates
+    .map(candidate => ({ candidate, ...score(query, candidate) }))
+    .filter(match => match.score >= REVIEW_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Whether a score means the same entity, a pair for an admin to review, or no match
+ */
+export function classifyMatch(score: number): 'match' | 'review' | 'none' {
+  if (score >= AUTO_MATCH_SCORE) return 'match';
+  if (score >= REVIEW_MATCH_SCORE) return 'review';
+  return 'none';
+}
+
+/**
+ * Pairs of likely duplicates among existing entities
+ * Only entities sharing a block key are compared, e.g. venues in the same city, and the
+ * higher ID of each pair is the source so the older record survives a merge.
+ */
+export function findDuplicatePairs<T extends { id: number }>(
+  entities: T[],
+  blockKey: (entity: T) => string,
+  score: (a: T, b: T) => MatchScore
+): DuplicatePair<T>[] {
+  const blocks = new Map<string, T[]>();
+  for (const entity of entities) {
+    const key = blockKey(entity);
+    if (!key) continue;
+    const block = blocks.get(key);
+    if (block) block.push(entity);
+    else blocks.set(key, [entity]);
+  }
+
+  const pairs: DuplicatePair<T>[] = [];
+  blocks.forEach(block => {
+    const sorted = [...block].sort((a, b) => a.id - b.id);
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const match = score(sorted[j], sorted[i]);
+        if (match.score >= REVIEW_MATCH_SCORE) {
+          pairs.push({ source: sorted[j], target: sorted[i], ...match });
+        }
+      }
+    }
+  });
+  return pairs.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Block key for artists: the first letters of the normalized name without spaces
+ */
+export function artistBlockKey(artist: { name: string }): string {
+  return normalizeName(artist.name).replace(/ /g, '').slice(0, 3);
+}
+
+/**
+ * Block key for venues: the normalized city
+ */
+export function venueBlockKey(venue: { city?: string | null }): string {
+  return venue.city ? normalizeName(venue.city) : '';
+}
@@ -0,0 +1,288 @@
+/**
+ * Event ingestion rules
+ *
+ * Every source that reports shows (scrapers, APIs, webhooks, calendar imports) hands its
+ * records to the ingestion pipeline as source observations. The functions here normalize
+ * an observation's fields and decide, field by field, which source's value the event
+ * keeps when sources disagree. Each field follows one of three rules:
+ *
+ * - precedence: the value from the highest-ranked source in the precedence list wins
+ * - latest: the most recently fetched value wins, e.g. a cancellation reported after a
+ *   scrape saw the show as confirmed
+ * - confidence: the value reported with the highest confidence wins
+ *
+ * Ties fall back to source rank, then confidence, then fetch time. The winning source,
+ * its fetch time and confidence are kept as the field's provenance.
+ */
+import type { EventFieldProvenance, EventFieldValues, EventProvenance } from '../schema';
+
+export const eventFields = ['date', 'startTime', 'ticketUrl', 'status'] as const;
+export type EventField = typeof eventFields[number];
+
+export const fieldRules = ['precedence', 'latest', 'confidence'] as const;
+export type FieldRule = typeof fieldRules[number];
+
+export const eventStatuses = ['confirmed', 'tentative', 'cancelled', 'postponed'] as const;
+export type EventStatus = typeof eventStatuses[number];
+
+// Most trusted first. Sources not listed rank below all listed ones.
+export const DEFAULT_SOURCE_PRECEDENCE = [
+  'manual',
+  'ical',
+  'venue_website',
+  'direct_entry',
+  'bandsintown',
+  'songkick',
+  'concert-data-webhook',
+  'predicthq',
+  'concerts-tracker',
+  'concerts-api',
+  'indieonthemove',
+  'bandsintown_scraper',
+  'web_scraping',
+  'public_data',
+  'system',
+  'seed',
+  'ai-generated'
+];
+
+// Confidence given to a source's observations when it does not report its own
+export const DEFAULT_SOURCE_CONFIDENCE: Record<string, number> = {
+  manual: 1,
+  ical: 0.95,
+  venue_website: 0.9,
+  direct_entry: 0.9,
+  bandsintown: 0.9,
+  songkick: 0.85,
+  'concert-data-webhook': 0.85,
+  predicthq: 0.8,
+  'concerts-tracker': 0.75,
+  'concerts-api': 0.75,
+  indieonthemove: 0.6,
+  bandsintown_scraper: 0.6,
+  web_scraping: 0.5,
+  public_data: 0.5,
+  system: 0.4,
+  seed: 0.3,
+  'ai-generated': 0.3
+};
+const FALLBACK_CONFIDENCE = 0.5;
+
+export interface PrecedenceRules {
+  sources: string[];
+  fields: Record<EventField, FieldRule>;
+}
+
+export const DEFAULT_PRECEDENCE_RULES: PrecedenceRules = {
+  sources: DEFAULT_SOURCE_PRECEDENCE,
+  fields: {
+    date: 'precedence',
+    startTime: 'precedence',
+    ticketUrl: 'precedence',
+    status: 'latest'
+  }
+};
+
+// One source's view of an event
+export interface SourceObservation {
+  source: string;
+  fields: EventFieldValues;
+  confidence: number;
+  fetchedAt: Date;
+}
+
+export interface FieldConflict {
+  field: EventField;
+  // The value kept and where it came from
+  value: string | null;
+  source: string;
+  // Every other value reported, by source
+  others: { source: string; value: string | null }[];
+}
+
+export interface ResolvedEvent {
+  values: EventFieldValues;
+  provenance: EventProvenance;
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Precedence rules with overrides from the environment
+ * EVENT_SOURCE_PRECEDENCE is a comma-separated source list, most trusted first; sources it
+ * leaves out keep their default order after it. EVENT_FIELD_RULES is a comma-separated
+ * list of field:rule pairs, e.g. "status:latest,startTime:confidence".
+ */
+export function loadPrecedenceRules(env: Record<string, string | undefined> = {}): PrecedenceRules {
+  const rules: PrecedenceRules = {
+    sources: [...DEFAULT_PRECEDENCE_RULES.sources],
+    fields: { ...DEFAULT_PRECEDENCE_RULES.fields }
+  };
+
+  const sources = env.EVENT_SOURCE_PRECEDENCE?.split(',').map(source => source.trim()).filter(Boolean);
+  if (sources?.length) {
+    rules.sources = [...sources, ...rules.sources.filter(source => !sources.includes(source))];
+  }
+
+  for (const pair of env.EVENT_FIELD_RULES?.split(',') ?? []) {
+    const [field, rule] = pair.split(':').map(part => part.trim());
+    if ((eventFields as readonly string[]).includes(field) && (fieldRules as readonly string[]).includes(rule)) {
+      rules.fields[field as EventField] = rule as FieldRule;
+    }
+  }
+
+  return rules;
+}
+
+export function sourceConfidence(source: string): number {
+  return DEFAULT_SOURCE_CONFIDENCE[source] ?? FALLBACK_CONFIDENCE;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * A date as YYYY-MM-DD, or null when it can't be read
+ * Date-times keep the calendar date they were written with rather than shifting to UTC.
+ */
+export function normalizeEventDate(value: string | Date | null | undefined): string | null {
+  if (value == null || value === '') return null;
+  if (typeof value === 'string') {
+    const isoDate = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (isoDate) {
+      return `${isoDate[1]}-${pad(Number(isoDate[2]))}-${pad(Number(isoDate[3]))}`;
+    }
+  }
+
+  const parsed = value instanceof Date ? value : new Date(value);
+  if (isNaN(parsed.getTime())) return null;
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+/**
+ * A time as 24-hour HH:MM, or null when it can't be read
+ * Accepts "20:00", "20:00:00", "8pm", "8:30 PM" and ISO date-times.
+ */
+export function normalizeEventTime(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const isoTime = trimmed.match(/T(\d{2}):(\d{2})/);
+  if (isoTime) return `${isoTime[1]}:${isoTime[2]}`;
+
+  const match = trimmed.match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  if (!meridiem && !match[2]) return null;
+
+  return `${pad(hours)}:${pad(minutes)}`;
+}
+
+/**
+ * One of eventStatuses; sources' spellings and unknown values become the nearest match
+ */
+export function normalizeEventStatus(value: string | null | undefined): EventStatus | null {
+  if (!value) return null;
+  const status = value.trim().toLowerCase();
+  if (status.startsWith('cancel')) return 'cancelled';
+  if (status.startsWith('postpone') || status === 'rescheduled') return 'postponed';
+  if (status === 'tentative' || status === 'hold') return 'tentative';
+  return 'confirmed';
+}
+
+export function normalizeTicketUrl(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  return /^https?:\/\/\S+$/i.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * A source's fields in the shape events store them
+ * Fields the source didn't report stay undefined so they don't count against other sources.
+ */
+export function normalizeEventFields(input: {
+  date: string | Date;
+  startTime?: string | null;
+  ticketUrl?: string | null;
+  status?: string | null;
+}): EventFieldValues | null {
+  const date = normalizeEventDate(input.date);
+  if (!date) return null;
+
+  const fields: EventFieldValues = { date };
+  // Sources that send a date-time instead of a separate time
+  const startTime = normalizeEventTime(input.startTime)
+    ?? (typeof input.date === 'string' ? normalizeEventTime(input.date) : null);
+  if (startTime) fields.startTime = startTime;
+  const ticketUrl = normalizeTicketUrl(input.ticketUrl);
+  if (ticketUrl) fields.ticketUrl = ticketUrl;
+  const status = normalizeEventStatus(input.status);
+  if (status) fields.status = status;
+  return fields;
+}
+
+function compareBy(rule: FieldRule, rank: (source: string) => number) {
+  const byRank = (a: SourceObservation, b: SourceObservation) => rank(a.source) - rank(b.source);
+  const byConfidence = (a: SourceObservation, b: SourceObservation) => b.confidence - a.confidence;
+  const byFetchedAt = (a: SourceObservation, b: SourceObservation) => b.fetchedAt.getTime() - a.fetchedAt.getTime();
+  const order = rule === 'latest'
+    ? [byFetchedAt, byRank, byConfidence]
+    : rule === 'confidence'
+      ? [byConfidence, byRank, byFetchedAt]
+      : [byRank, byConfidence, byFetchedAt];
+
+  return (a: SourceObservation, b: SourceObservation) => {
+    for (const compare of order) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  };
+}
+
+/**
+ * The value of each field across every source that reported the event
+ */
+export function resolveEventFields(
+  observations: SourceObservation[],
+  rules: PrecedenceRules = DEFAULT_PRECEDENCE_RULES
+): ResolvedEvent {
+  const rank = (source: string) => {
+    const index = rules.sources.indexOf(source);
+    return index === -1 ? rules.sources.length : index;
+  };
+
+  const values: EventFieldValues = { date: '' };
+  const provenance: EventProvenance = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of eventFields) {
+    const reporting = observations
+      .filter(observation => observation.fields[field] != null)
+      .sort(compareBy(rules.fields[field], rank));
+    if (reporting.length === 0) continue;
+
+    const [winner, ...rest] = reporting;
+    const value = winner.fields[field] ?? null;
+    values[field] = value as string;
+    const fieldProvenance: EventFieldProvenance = {
+      source: winner.source,
+      fetchedAt: winner.fetchedAt.toISOString(),
+      confidence: winner.confidence
+    };
+    provenance[field] = fieldProvenance;
+
+    const others = rest
+      .filter(observation => observation.fields[field] !== value)
+      .map(observation => ({ source: observation.source, value: observation.fields[field] ?? null }));
+    if (others.length > 0) {
+      conflicts.push({ field, value, source: winner.source, others });
+    }
+  }
+
+  return { values, provenance, conflicts };
+}
@@ -4,4 +4,6 @@
  */
 
 export * from './distance';
-export * from './optimization';
\ No newline at end of file
+export * from './optimization';
+export * from './travel-matrix';
+export * from './international';
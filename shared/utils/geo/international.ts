@@ -0,0 +1,216 @@
+/**
+ * International tour legs
+ * Marks legs that cross a border, adds the time a crossing takes and replaces drives
+ * that are impossible (between land masses with no road link) with a ferry or a flight.
+ */
+import { calculateDistance } from './distance';
+import type { BorderCrossing, TravelLeg, TravelMatrix, TravelMode, TravelPoint } from './travel-matrix';
+
+export interface InternationalLegOptions {
+  /**
+   * Time added to a leg for each border crossing, in minutes
+   */
+  borderCrossingMinutes?: number;
+  /**
+   * Longest sea crossing taken by ferry; longer ones are flown
+   */
+  maxFerryDistanceKm?: number;
+}
+
+export const DEFAULT_BORDER_CROSSING_MINUTES = 60;
+export const DEFAULT_MAX_FERRY_DISTANCE_KM = 600;
+
+const FERRY_SPEED_KMH = 35;
+const FERRY_CHECK_IN_MINUTES = 90;
+const FLIGHT_SPEED_KMH = 700;
+const FLIGHT_CHECK_IN_MINUTES = 180;
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  'USA': 'US',
+  'UNITED STATES': 'US',
+  'UNITED STATES OF AMERICA': 'US',
+  'CANADA': 'CA',
+  'MEXICO': 'MX',
+  'UK': 'GB',
+  'UNITED KINGDOM': 'GB',
+  'ENGLAND': 'GB',
+  'SCOTLAND': 'GB',
+  'WALES': 'GB',
+  'IRELAND': 'IE',
+  'GERMANY': 'DE',
+  'FRANCE': 'FR',
+  'NETHERLANDS': 'NL',
+  'BELGIUM': 'BE',
+  'SPAIN': 'ES',
+  'ITALY': 'IT',
+  'SWEDEN': 'SE',
+  'NORWAY': 'NO',
+  'DENMARK': 'DK',
+  'ICELAND': 'IS',
+  'AUSTRALIA': 'AU',
+  'NEW ZEALAND': 'NZ',
+  'JAPAN': 'JP'
+};
+
+// Countries reachable from each other by road; unlisted countries are treated as reachable
+// from anywhere. Great Britain is linked to the continent by the Channel Tunnel.
+const LAND_MASSES: Record<string, string> = {
+  US: 'north-america', CA: 'north-america', MX: 'north-america',
+  GB: 'europe', FR: 'europe', DE: 'europe', NL: 'europe', BE: 'europe', LU: 'europe',
+  ES: 'europe', PT: 'europe', IT: 'europe', CH: 'europe', AT: 'europe', DK: 'europe',
+  SE: 'europe', NO: 'europe', FI: 'europe', PL: 'europe', CZ: 'europe', SK: 'europe',
+  HU: 'europe', SI: 'europe', HR: 'europe', RO: 'europe', BG: 'europe', GR: 'europe',
+  IE: 'ireland',
+  IS: 'iceland',
+  AU: 'australia',
+  NZ: 'new-zealand',
+  JP: 'japan'
+};
+
+/**
+ * ISO 3166 alpha-2 code for a stored country, which may be a code or an English name
+ * @returns null when the country is unknown
+ */
+export function normalizeCountry(country: string | null | undefined): string | null {
+  const value = country?.trim().toUpperCase();
+  if (!value) return null;
+  return COUNTRY_ALIASES[value] ?? (value.length === 2 ? value : null);
+}
+
+/**
+ * Whether two countries are linked by road
+ */
+export function connectedByRoad(fromCountry: string, toCountry: string): boolean {
+  const from = LAND_MASSES[fromCountry];
+  const to = LAND_MASSES[toCountry];
+  return !from || !to || from === to;
+}
+
+/**
+ * A leg that cannot be driven: a ferry for short sea crossings, otherwise a flight
+ */
+export function nonDrivingLeg(
+  distanceKm: number,
+  options: InternationalLegOptions = {}
+): TravelLeg {
+  const maxFerryDistanceKm = options.maxFerryDistanceKm ?? DEFAULT_MAX_FERRY_DISTANCE_KM;
+  if (distanceKm <= maxFerryDistanceKm) {
+    return {
+      distanceKm,
+      travelTimeMinutes: Math.round(FERRY_CHECK_IN_MINUTES + (distanceKm / FERRY_SPEED_KMH) * 60),
+      mode: 'ferry'
+    };
+  }
+  return {
+    distanceKm,
+    travelTimeMinutes: Math.round(FLIGHT_CHECK_IN_MINUTES + (distanceKm / FLIGHT_SPEED_KMH) * 60),
+    mode: 'flight'
+  };
+}
+
+/**
+ * Wrap a travel matrix so its legs carry their mode and border crossing
+ *
+ * Legs between countries with no road link become ferries or flights, and each leg
+ * that crosses a border takes borderCrossingMinutes longer.
+ */
+export function withInternationalLegs(
+  matrix: TravelMatrix,
+  options: InternationalLegOptions = {}
+): TravelMatrix {
+  const borderCrossingMinutes = options.borderCrossingMinutes ?? DEFAULT_BORDER_CROSSING_MINUTES;
+
+  return {
+    leg(from: TravelPoint, to: TravelPoint): TravelLeg {
+      let leg = matrix.leg(from, to);
+      const fromCountry = normalizeCountry(from.country);
+      const toCountry = normalizeCountry(to.country);
+      const crossing: BorderCrossing | null = fromCountry && toCountry && fromCountry !== toCountry
+        ? { fromCountry, toCountry }
+        : null;
+
+      if (!leg.mode && crossing && !connectedByRoad(crossing.fromCountry, crossing.toCountry)) {
+        leg = nonDrivingLeg(calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude), options);
+      }
+
+      return {
+        ...leg,
+        mode: leg.mode ?? 'drive',
+        borderCrossing: crossing,
+        travelTimeMinutes: leg.travelTimeMinutes + (crossing ? borderCrossingMinutes : 0)
+      };
+    }
+  };
+}
+
+/**
+ * A leg of a route between two venues
+ */
+export interface RouteLeg {
+  fromVenueId: number | null;
+  toVenueId: number | null;
+  distanceKm: number;
+  travelTimeMinutes: number;
+  mode: TravelMode;
+  borderCrossing: BorderCrossing | null;
+}
+
+/**
+ * The legs of visiting points in order
+ */
+export function routeLegs(points: TravelPoint[], matrix: TravelMatrix): RouteLeg[] {
+  return points.slice(1).map((to, index) => {
+    const from = points[index];
+    const leg = matrix.leg(from, to);
+    return {
+      fromVenueId: from.venueId ?? null,
+      toVenueId: to.venueId ?? null,
+      distanceKm: leg.distanceKm,
+      travelTimeMinutes: leg.travelTimeMinutes,
+      mode: leg.mode ?? 'drive',
+      borderCrossing: leg.borderCrossing ?? null
+    };
+  });
+}
+
+export interface TravelChecklistItem {
+  type: 'visa' | 'carnet';
+  country: string;
+  // Leg of the first entry into the country
+  fromVenueId: number | null;
+  toVenueId: number | null;
+  description: string;
+}
+
+/**
+ * Paperwork for the border crossings of a route: work visas and an ATA carnet for the
+ * equipment, once per country entered
+ */
+export function travelChecklist(legs: RouteLeg[]): TravelChecklistItem[] {
+  const items: TravelChecklistItem[] = [];
+  const entered = new Set<string>();
+
+  for (const leg of legs) {
+    const country = leg.borderCrossing?.toCountry;
+    if (!country || entered.has(country)) continue;
+    entered.add(country);
+
+    const route = { fromVenueId: leg.fromVenueId, toVenueId: leg.toVenueId };
+    items.push(
+      {
+        type: 'visa',
+        country,
+        ...route,
+        description: `Work permits or visas for everyone in the touring party entering ${country}`
+      },
+      {
+        type: 'carnet',
+        country,
+        ...route,
+        description: `ATA carnet listing the instruments and equipment entering ${country}`
+      }
+    );
+  }
+
+  return items;
+}
@@ -44,6 +44,19 @@ export interface OptimizationScoreParams {
   dateCoverage?: number;
 }
 
+/**
+ * Points each factor added to or took from an optimization score
+ */
+export interface OptimizationScoreBreakdown {
+  distancePenalty: number;
+  timePenalty: number;
+  gapFillingBonus: number;
+  clusterBonus: number;
+  scheduleBonus: number;
+  dateBonus: number;
+  score: number;
+}
+
 /**
  * Calculate a standardized optimization score based on various factors
  * 
@@ -51,6 +64,16 @@ export interface OptimizationScoreParams {
  * @returns Optimization score (0-100)
  */
 export function calculateOptimizationScore(params: OptimizationScoreParams): number {
+  return calculateScoreBreakdown(params).score;
+}
+
+/**
+ * Calculate an optimization score along with the points of each factor
+ * 
+ * @param params Optimization score calculation parameters
+ * @returns Penalties and bonuses, rounded to one decimal, and the score (0-100)
+ */
+export function calculateScoreBreakdown(params: OptimizationScoreParams): OptimizationScoreBreakdown {
   const {
     totalDistance,
     totalTravelTime,
@@ -91,7 +114,16 @@ export function calculateOptimizationScore(params: OptimizationScoreParams): num
   const score = baseScore - distancePenalty - timePenalty + 
                 gapFillingBonus + clusterBonus + scheduleBonus + dateBonus;
   
-  return Math.max(0, Math.min(100, Math.round(score)));
+  const points = (value: number) => Math.round(value * 10) / 10;
+  return {
+    distancePenalty: points(distancePenalty),
+    timePenalty: points(timePenalty),
+    gapFillingBonus: points(gapFillingBonus),
+    clusterBonus: points(clusterBonus),
+    scheduleBonus: points(scheduleBonus),
+    dateBonus: points(dateBonus),
+    score: Math.max(0, Math.min(100, Math.round(score)))
+  };
 }
 
 /**
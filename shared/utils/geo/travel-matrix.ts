@@ -0,0 +1,121 @@
+/**
+ * Travel matrices: distance and driving time between the points of a route
+ * Providers build a matrix once for a set of points (from straight-line distance, a
+ * road router or a fixture) so route scoring and solving can look up legs synchronously.
+ */
+import { calculateDistance, estimateTravelTime } from './distance';
+
+/**
+ * A point to travel between; venues carry their id so matrices can be cached per venue pair
+ */
+export interface TravelPoint {
+  venueId?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  country?: string | null;
+}
+
+export const travelModes = ['drive', 'ferry', 'flight'] as const;
+export type TravelMode = typeof travelModes[number];
+
+export interface BorderCrossing {
+  fromCountry: string;
+  toCountry: string;
+}
+
+export interface TravelLeg {
+  distanceKm: number;
+  travelTimeMinutes: number;
+  // Legs without a mode are driven
+  mode?: TravelMode;
+  borderCrossing?: BorderCrossing | null;
+}
+
+export interface TravelMatrix {
+  leg(from: TravelPoint, to: TravelPoint): TravelLeg;
+}
+
+export interface TravelMatrixProvider {
+  readonly name: string;
+  /**
+   * Build a matrix for travel between the given points
+   */
+  getMatrix(points: TravelPoint[]): Promise<TravelMatrix>;
+}
+
+/**
+ * Straight-line distance at the default touring speed
+ */
+export function haversineLeg(from: TravelPoint, to: TravelPoint): TravelLeg {
+  const distanceKm = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  return { distanceKm, travelTimeMinutes: estimateTravelTime(distanceKm) };
+}
+
+export const haversineMatrix: TravelMatrix = { leg: haversineLeg };
+
+export class HaversineTravelMatrixProvider implements TravelMatrixProvider {
+  readonly name = 'haversine';
+
+  async getMatrix(): Promise<TravelMatrix> {
+    return haversineMatrix;
+  }
+}
+
+/**
+ * Points are identified by their coordinates, so a matrix answers for any point at a
+ * known location whether or not it has a venue id
+ * @returns null when the point has no coordinates
+ */
+export function travelPointKey(point: TravelPoint): string | null {
+  if (point.latitude == null || point.longitude == null) return null;
+  return `${Number(point.latitude).toFixed(6)},${Number(point.longitude).toFixed(6)}`;
+}
+
+/**
+ * A matrix filled leg by leg; pairs it does not know come from the fallback matrix
+ */
+export class TravelLegTable implements TravelMatrix {
+  private legs = new Map<string, TravelLeg>();
+
+  constructor(private fallback: TravelMatrix = haversineMatrix) {}
+
+  private pairKey(from: TravelPoint, to: TravelPoint): string | null {
+    const fromKey = travelPointKey(from);
+    const toKey = travelPointKey(to);
+    return fromKey && toKey ? `${fromKey}|${toKey}` : null;
+  }
+
+  set(from: TravelPoint, to: TravelPoint, leg: TravelLeg): void {
+    const key = this.pairKey(from, to);
+    if (key) this.legs.set(key, leg);
+  }
+
+  has(from: TravelPoint, to: TravelPoint): boolean {
+    const key = this.pairKey(from, to);
+    return key !== null && this.legs.has(key);
+  }
+
+  leg(from: TravelPoint, to: TravelPoint): TravelLeg {
+    const key = this.pairKey(from, to);
+    return (key && this.legs.get(key)) || this.fallback.leg(from, to);
+  }
+}
+
+/**
+ * Total distance and travel time of visiting points in order
+ */
+export function measureTravel(
+  points: TravelPoint[],
+  matrix: TravelMatrix = haversineMatrix
+): TravelLeg {
+  let distanceKm = 0;
+  let travelTimeMinutes = 0;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const leg = matrix.leg(points[i], points[i + 1]);
+    distanceKm += leg.distanceKm;
+    travelTimeMinutes += leg.travelTimeMinutes;
+  }
+
+  return { distanceKm, travelTimeMinutes };
+}
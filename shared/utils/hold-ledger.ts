@@ -0,0 +1,218 @@
+/**
+ * Venue hold ledger
+ *
+ * Several artists can hold the same venue on the same night. Holds are ranked in the
+ * order they were placed: the 1st hold has the date unless it lets it go. When a hold
+ * releases, the holds below it move up. A lower hold that wants to confirm challenges
+ * the holds above it, which then have until the challenge deadline to confirm or
+ * release; holds that let the deadline pass are released. A challenger that reaches
+ * the top confirms, and a confirmed hold bumps every hold below it.
+ *
+ * The functions here work on one venue's stack for one date and report what changed,
+ * so the service can store the stack and update the tour venues behind the holds.
+ */
+
+export const holdStatuses = ['active', 'confirmed', 'released'] as const;
+export type HoldStatus = typeof holdStatuses[number];
+
+// Time challenged holds have to confirm or release
+export const DEFAULT_CHALLENGE_HOURS = 48;
+
+export interface LedgerHold {
+  id: number;
+  status: HoldStatus;
+  // Position in the stack, 1 for the first hold; null once confirmed or released
+  rank: number | null;
+  // Lower hold challenging this one
+  challengedById: number | null;
+  // Set on a challenger: when the holds it challenged must have confirmed or released
+  challengeDeadline: Date | null;
+}
+
+export type HoldTransitionType =
+  | 'placed'
+  | 'promoted'
+  | 'challenged'
+  | 'confirmed'
+  | 'released'
+  | 'bumped'
+  | 'challengeExpired';
+
+export interface HoldTransition {
+  holdId: number;
+  type: HoldTransitionType;
+  rank: number | null;
+}
+
+export interface LedgerUpdate {
+  holds: LedgerHold[];
+  transitions: HoldTransition[];
+}
+
+/**
+ * An action the stack does not allow, e.g. confirming a released hold
+ */
+export class HoldLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HoldLedgerError';
+  }
+}
+
+const byRank = (a: LedgerHold, b: LedgerHold) => (a.rank ?? Infinity) - (b.rank ?? Infinity);
+
+/**
+ * Holds still waiting on the date, 1st hold first
+ */
+export function activeHolds(holds: LedgerHold[]): LedgerHold[] {
+  return holds.filter(hold => hold.status === 'active').sort(byRank);
+}
+
+function findActive(holds: LedgerHold[], holdId: number): LedgerHold {
+  const hold = holds.find(candidate => candidate.id === holdId);
+  if (!hold) throw new HoldLedgerError(`Hold ${holdId} is not on this date`);
+  if (hold.status !== 'active') throw new HoldLedgerError(`Hold ${holdId} is already ${hold.status}`);
+  return hold;
+}
+
+function close(hold: LedgerHold, status: HoldStatus): void {
+  hold.status = status;
+  hold.rank = null;
+  hold.challengedById = null;
+  hold.challengeDeadline = null;
+}
+
+/**
+ * The hold takes the date and every other active hold is bumped
+ */
+function confirm(holds: LedgerHold[], hold: LedgerHold, transitions: HoldTransition[]): void {
+  for (const other of activeHolds(holds)) {
+    if (other.id === hold.id) continue;
+    close(other, 'released');
+    transitions.push({ holdId: other.id, type: 'bumped', rank: null });
+  }
+  close(hold, 'confirmed');
+  transitions.push({ holdId: hold.id, type: 'confirmed', rank: null });
+}
+
+/**
+ * Close the gaps left by released holds, drop challenges from holds that are gone and
+ * confirm a challenger that reached the top
+ */
+function settle(holds: LedgerHold[], transitions: HoldTransition[]): void {
+  const active = activeHolds(holds);
+  const activeIds = new Set(active.map(hold => hold.id));
+
+  active.forEach((hold, index) => {
+    const rank = index + 1;
+    if (hold.rank !== null && rank < hold.rank) {
+      transitions.push({ holdId: hold.id, type: 'promoted', rank });
+    }
+    hold.rank = rank;
+    if (hold.challengedById !== null && !activeIds.has(hold.challengedById)) {
+      hold.challengedById = null;
+    }
+  });
+
+  const first = active[0];
+  if (first?.challengeDeadline) {
+    confirm(holds, first, transitions);
+  }
+}
+
+function update(holds: LedgerHold[], change: (holds: LedgerHold[], transitions: HoldTransition[]) => void): LedgerUpdate {
+  const copied = holds.map(hold => ({ ...hold }));
+  const transitions: HoldTransition[] = [];
+  change(copied, transitions);
+  return { holds: copied, transitions };
+}
+
+/**
+ * Rank for a new hold: below every active hold
+ * @throws HoldLedgerError when the date is already confirmed
+ */
+export function nextHoldRank(holds: LedgerHold[]): number {
+  if (holds.some(hold => hold.status === 'confirmed')) {
+    throw new HoldLedgerError('The venue is already confirmed on this date');
+  }
+  // Deleted tour venues take their holds with them, so ranks can have gaps until the next change
+  return Math.max(0, ...activeHolds(holds).map(hold => hold.rank ?? 0)) + 1;
+}
+
+/**
+ * Check a hold could confirm without challenging anyone
+ * @throws HoldLedgerError naming the holds above it
+ */
+export function assertFirstHold(holds: LedgerHold[], holdId: number): void {
+  const hold = findActive(holds, holdId);
+  const above = activeHolds(holds).filter(other => byRank(other, hold) < 0);
+  if (above.length > 0) {
+    throw new HoldLedgerError(
+      `Hold ${holdId} is number ${hold.rank} on this date; confirming it would challenge ${above.length} hold(s) above it`
+    );
+  }
+}
+
+/**
+ * Confirm a hold
+ * The 1st hold confirms straight away and bumps the holds below it. A lower hold
+ * challenges every hold above it instead, and confirms once they have all released or
+ * let the deadline pass.
+ */
+export function confirmHold(holds: LedgerHold[], holdId: number, challengeDeadline: Date): LedgerUpdate {
+  return update(holds, (stack, transitions) => {
+    const hold = findActive(stack, holdId);
+    if (hold.challengeDeadline) {
+      throw new HoldLedgerError(`Hold ${holdId} is already challenging the holds above it`);
+    }
+
+    const above = activeHolds(stack).filter(other => byRank(other, hold) < 0);
+    if (above.length === 0) {
+      confirm(stack, hold, transitions);
+      return;
+    }
+
+    const challenged = above.find(other => other.challengedById !== null);
+    if (challenged) {
+      throw new HoldLedgerError(`Hold ${challenged.id} is already being challenged by hold ${challenged.challengedById}`);
+    }
+
+    hold.challengeDeadline = challengeDeadline;
+    for (const other of above) {
+      other.challengedById = hold.id;
+      transitions.push({ holdId: other.id, type: 'challenged', rank: other.rank });
+    }
+  });
+}
+
+/**
+ * Release a hold; the holds below it move up
+ */
+export function releaseHold(holds: LedgerHold[], holdId: number): LedgerUpdate {
+  return update(holds, (stack, transitions) => {
+    const hold = findActive(stack, holdId);
+    close(hold, 'released');
+    transitions.push({ holdId, type: 'released', rank: null });
+    settle(stack, transitions);
+  });
+}
+
+/**
+ * Release the holds that let a challenge deadline pass
+ */
+export function expireChallenges(holds: LedgerHold[], now: Date): LedgerUpdate {
+  return update(holds, (stack, transitions) => {
+    const overdue = new Set(activeHolds(stack)
+      .filter(hold => hold.challengeDeadline && hold.challengeDeadline.getTime() <= now.getTime())
+      .map(hold => hold.id));
+    if (overdue.size === 0) return;
+
+    for (const hold of activeHolds(stack)) {
+      if (hold.challengedById !== null && overdue.has(hold.challengedById)) {
+        close(hold, 'released');
+        transitions.push({ holdId: hold.id, type: 'challengeExpired', rank: null });
+      }
+    }
+    settle(stack, transitions);
+  });
+}
@@ -0,0 +1,241 @@
+/**
+ * iCalendar (RFC 5545)
+ *
+ * Writes the read-only feeds calendar apps subscribe to and reads the .ics files
+ * venues import. Shows and holds are all-day events; load-ins are timed events in
+ * floating time, which calendar apps show at that time in whatever zone they are in,
+ * the way a day sheet reads.
+ */
+import { addDays } from './tour-solver/schedule';
+
+export type CalendarEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface CalendarEvent {
+  // Stable across feed fetches so calendar apps move the event when its date changes
+  uid: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  date: string; // YYYY-MM-DD
+  // Last day of an all-day event, inclusive; defaults to the start date
+  endDate?: string;
+  // HH:MM for a timed event; all-day when not set
+  startTime?: string | null;
+  durationMinutes?: number;
+  status?: CalendarEventStatus;
+  categories?: string[];
+}
+
+export interface ParsedCalendarEvent {
+  uid: string | null;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  startDate: string;
+  endDate: string; // inclusive
+  startTime: string | null;
+  status: string | null;
+}
+
+export class IcalParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IcalParseError';
+  }
+}
+
+const PRODUCT_ID = '-//VenueConnect//Calendar Feeds//EN';
+
+// Feeds are built on request; ask subscribers to check back hourly
+const REFRESH_INTERVAL = 'PT1H';
+
+// Lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75;
+
+// A timed event ending before this time ends on the night before, as shows run past midnight
+const LATE_NIGHT_CUTOFF = '06:00';
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+const utf8Length = (char: string) => {
+  const codePoint = char.codePointAt(0)!;
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Fold a content line into lines of at most 75 octets, never splitting a character
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const length = utf8Length(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + length > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += length;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const compactDate = (date: string) => date.replace(/-/g, '');
+
+const formatTimestamp = (at: Date) => at.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Local date and time a number of minutes after a date and HH:MM time, as YYYYMMDDTHHMMSS
+function localDateTime(date: string, time: string, minutes = 0): string {
+  const at = new Date(`${date}T${time}:00Z`);
+  at.setUTCMinutes(at.getUTCMinutes() + minutes);
+  return formatTimestamp(at).slice(0, -1);
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+  if (event.startTime) {
+    lines.push(
+      `DTSTART:${localDateTime(event.date, event.startTime)}`,
+      `DTEND:${localDateTime(event.date, event.startTime, event.durationMinutes ?? DEFAULT_DURATION_MINUTES)}`
+    );
+  } else {
+    // DTEND of an all-day event is the day after it ends
+    lines.push(
+      `DTSTART;VALUE=DATE:${compactDate(event.date)}`,
+      `DTEND;VALUE=DATE:${compactDate(addDays(event.endDate ?? event.date, 1))}`
+    );
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  return lines;
+}
+
+/**
+ * A VCALENDAR with the events, as CRLF-separated folded lines
+ */
+export function buildCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = formatTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+interface ContentLine {
+  name: string;
+  value: string;
+}
+
+// NAME;PARAM=VALUE;PARAM="QUOTED":VALUE; parameters are not needed for what is imported
+function parseContentLine(line: string): ContentLine | null {
+  const match = /^([A-Za-z0-9-]+)(?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^;:]*))*:(.*)$/.exec(line);
+  return match ? { name: match[1].toUpperCase(), value: match[2] } : null;
+}
+
+// Date and HH:MM time of a DTSTART or DTEND value; times in UTC or a named zone are read as written
+function parseDateValue(value: string): { date: string; time: string | null } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}Z?)?$/.exec(value.trim());
+  if (!match) return null;
+  return {
+    date: `${match[1]}-${match[2]}-${match[3]}`,
+    time: match[4] ? `${match[4]}:${match[5]}` : null
+  };
+}
+
+function toParsedEvent(properties: ContentLine[]): ParsedCalendarEvent | null {
+  const property = (name: string) => properties.find(line => line.name === name);
+  const start = parseDateValue(property('DTSTART')?.value ?? '');
+  if (!start) return null;
+
+  const end = parseDateValue(property('DTEND')?.value ?? '');
+  let endDate = start.date;
+  if (end && !start.time) {
+    // All-day events end the day before their DTEND
+    endDate = addDays(end.date, -1);
+  } else if (end && end.time) {
+    endDate = end.time < LATE_NIGHT_CUTOFF ? addDays(end.date, -1) : end.date;
+  }
+
+  const text = (name: string) => {
+    const value = property(name)?.value;
+    return value ? unescapeText(value) : null;
+  };
+  return {
+    uid: property('UID')?.value ?? null,
+    summary: text('SUMMARY') ?? '',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    startDate: start.date,
+    endDate: endDate < start.date ? start.date : endDate,
+    startTime: start.time,
+    status: property('STATUS')?.value.toUpperCase() ?? null
+  };
+}
+
+/**
+ * The events in an .ics file; events without a readable start date are skipped
+ * @throws IcalParseError when the text is not an iCalendar file
+ */
+export function parseCalendar(ics: string): ParsedCalendarEvent[] {
+  // Unfold: a line starting with a space or tab continues the one before
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new IcalParseError('Not an iCalendar file');
+  }
+
+  const events: ParsedCalendarEvent[] = [];
+  let current: ContentLine[] | null = null;
+  // Components nested in an event, e.g. VALARM, have properties of their own
+  let nested = 0;
+  for (const line of lines) {
+    const content = parseContentLine(line.trim());
+    if (!content) continue;
+
+    const component = content.value.toUpperCase();
+    if (content.name === 'BEGIN') {
+      if (current) nested++;
+      else if (component === 'VEVENT') current = [];
+    } else if (content.name === 'END') {
+      if (current && nested > 0) {
+        nested--;
+      } else if (current && component === 'VEVENT') {
+        const event = toParsedEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+    } else if (current && nested === 0) {
+      current.push(content);
+    }
+  }
+  return events;
+}
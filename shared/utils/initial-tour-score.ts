@@ -1,15 +1,22 @@
 import { Venue, TourVenue, Tour } from "../schema";
-import { calculateDistance, estimateTravelTime } from "./tour-optimizer";
+import { haversineMatrix, type TravelMatrix, type TravelPoint } from "./geo";
+
+// A tour venue as a point of the travel matrix
+function venuePoint(venue: Venue): TravelPoint {
+  return { venueId: venue.id, latitude: Number(venue.latitude), longitude: Number(venue.longitude) };
+}
 
 /**
  * Calculate initial optimization score for a tour
  * This provides a baseline score before optimization is run
  * 
  * @param tourVenues Array of tour venues with venue information
+ * @param travel Travel matrix for the venues; straight-line distance when not given
  * @returns Object with score, distance, and travel time estimates
  */
 export function calculateInitialTourScore(
-  tourVenues: (TourVenue & { venue: Venue | null })[]
+  tourVenues: (TourVenue & { venue: Venue | null })[],
+  travel: TravelMatrix = haversineMatrix
 ): { 
   optimizationScore: number, 
   totalDistance: number, 
@@ -52,19 +59,8 @@ export function calculateInitialTourScore(
       const next = venuesWithCoordinates[i + 1];
       
       if (prev.venue && curr.venue && next.venue) {
-        const distanceToPrev = calculateDistance(
-          Number(curr.venue.latitude),
-          Number(curr.venue.longitude),
-          Number(prev.venue.latitude),
-          Number(prev.venue.longitude)
-        );
-        
-        const distanceToNext = calculateDistance(
-          Number(curr.venue.latitude),
-          Number(curr.venue.longitude),
-          Number(next.venue.latitude),
-          Number(next.venue.longitude)
-        );
+        const distanceToPrev = travel.leg(venuePoint(curr.venue), venuePoint(prev.venue)).distanceKm;
+        const distanceToNext = travel.leg(venuePoint(curr.venue), venuePoint(next.venue)).distanceKm;
         
         // Reward venues that are close to their neighbors
         if (distanceToPrev < 500 && distanceToNext < 500) {
@@ -89,40 +85,23 @@ export function calculateInitialTourScore(
     if (current.venue && next.venue && 
         current.venue.latitude && current.venue.longitude && 
         next.venue.latitude && next.venue.longitude) {
-      // Calculate distance between venues
-      const distance = calculateDistance(
-        Number(current.venue.latitude),
-        Number(current.venue.longitude),
-        Number(next.venue.latitude),
-        Number(next.venue.longitude)
-      );
+      // Distance and travel time between venues
+      const leg = travel.leg(venuePoint(current.venue), venuePoint(next.venue));
+      const distance = leg.distanceKm;
       
-      // Add to total distance
+      // Add to totals
       totalDistance += distance;
-      
-      // Calculate travel time
-      const travelTime = estimateTravelTime(distance);
-      totalTravelTime += travelTime;
+      totalTravelTime += leg.travelTimeMinutes;
       
       // Check for routing inefficiency (assess backtracking)
       if (i > 0) {
         const prev = venuesWithCoordinates[i - 1];
         if (prev.venue && prev.venue.latitude && prev.venue.longitude) {
-          const prevToNext = calculateDistance(
-            Number(prev.venue.latitude),
-            Number(prev.venue.longitude),
-            Number(next.venue.latitude),
-            Number(next.venue.longitude)
-          );
+          const prevToNext = travel.leg(venuePoint(prev.venue), venuePoint(next.venue)).distanceKm;
           
           // If going from prev->current->next is significantly longer than prev->next directly,
           // it's likely an inefficient route
-          const directVsRouted = (distance + calculateDistance(
-            Number(prev.venue.latitude),
-            Number(prev.venue.longitude),
-            Number(current.venue.latitude),
-            Number(current.venue.longitude)
-          )) / prevToNext;
+          const directVsRouted = (distance + travel.leg(venuePoint(prev.venue), venuePoint(current.venue)).distanceKm) / prevToNext;
           
           if (directVsRouted > 1.5) {
             // Route is at least 50% longer than optimal - add a penalty
@@ -0,0 +1,203 @@
+/**
+ * Job queue rules
+ *
+ * Sync, scrape and enrichment work runs as jobs in a Postgres-backed queue worked by
+ * server/services/job-queue.ts. The functions here are the parts of it that don't touch
+ * the database: reading cron schedules, spacing out retries, and the per-source limits on
+ * how many jobs may run at once and how often a source's API may be called.
+ *
+ * Schedules use the five standard cron fields (minute, hour, day of month, month, day of
+ * week) with *, lists, ranges and steps, and are evaluated in UTC. As in cron, when both
+ * day fields are restricted a day matching either one runs.
+ */
+
+export const jobTypes = [
+  'venue-network-sync',
+  'predicthq-artist-events',
+  'seed-venue-events',
+  'chain-collection',
+  'venue-enrichment',
+  'prediction-job',
+  'expire-hold-challenges',
+  'webhook-delivery'
+] as const;
+export type JobType = typeof jobTypes[number];
+
+export const jobStatuses = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+export const jobLogLevels = ['info', 'warning', 'error'] as const;
+export type JobLogLevel = typeof jobLogLevels[number];
+
+export interface SourceLimit {
+  // Jobs from the source that may run at the same time, across all workers
+  concurrency: number;
+  // Minimum gap between two calls to the source's API
+  minIntervalMs: number;
+}
+
+export const DEFAULT_SOURCE_LIMITS: Record<string, SourceLimit> = {
+  bandsintown: { concurrency: 1, minIntervalMs: 1000 },
+  predicthq: { concurrency: 1, minIntervalMs: 500 },
+  openai: { concurrency: 2, minIntervalMs: 500 },
+  // Work that only touches our own database
+  internal: { concurrency: 2, minIntervalMs: 0 },
+  // Posts to subscribers' own endpoints, which are all different
+  webhooks: { concurrency: 4, minIntervalMs: 0 }
+};
+const FALLBACK_SOURCE_LIMIT: SourceLimit = { concurrency: 1, minIntervalMs: 1000 };
+
+// First retry after 30 seconds, doubling up to an hour
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * Source limits with overrides from the environment
+ * JOB_SOURCE_LIMITS is a comma-separated list of source:concurrency:minIntervalMs entries,
+ * e.g. "bandsintown:1:2000,openai:4:0"; sources it leaves out keep their defaults.
+ */
+export function loadSourceLimits(env: Record<string, string | undefined> = {}): Record<string, SourceLimit> {
+  const limits: Record<string, SourceLimit> = { ...DEFAULT_SOURCE_LIMITS };
+
+  for (const entry of env.JOB_SOURCE_LIMITS?.split(',') ?? []) {
+    const [source, concurrency, minIntervalMs] = entry.split(':').map(part => part.trim());
+    const parsedConcurrency = Number(concurrency);
+    const parsedInterval = Number(minIntervalMs ?? 0);
+    if (source && Number.isInteger(parsedConcurrency) && parsedConcurrency > 0 && parsedInterval >= 0) {
+      limits[source] = { concurrency: parsedConcurrency, minIntervalMs: parsedInterval };
+    }
+  }
+
+  return limits;
+}
+
+export function sourceLimit(limits: Record<string, SourceLimit>, source: string): SourceLimit {
+  return limits[source] ?? FALLBACK_SOURCE_LIMIT;
+}
+
+/**
+ * Sources already running as many jobs as they are allowed
+ * @param running Running job count by source
+ */
+export function sourcesAtCapacity(running: Record<string, number>, limits: Record<string, SourceLimit>): string[] {
+  return Object.entries(running)
+    .filter(([source, count]) => count >= sourceLimit(limits, source).concurrency)
+    .map(([source]) => source);
+}
+
+/**
+ * How long to wait before retrying a job that failed its nth attempt
+ */
+export function retryDelayMs(attempt: number, baseMs = RETRY_BASE_MS, maxMs = RETRY_MAX_MS): number {
+  return Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields were restricted, which decides how they combine
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    const step = match[4] ? Number(match[4]) : 1;
+    const start = match[1] === '*' ? min : Number(match[2]);
+    // "5/15" means every 15 from 5 to the end of the range
+    const end = match[1] === '*' || (match[4] && !match[3]) ? max : Number(match[3] ?? match[2]);
+    if (step < 1 || start < min || end > max || start > end) return null;
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * A five-field cron expression, or null when it can't be read
+ */
+export function parseCron(expression: string): CronSchedule | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const daysOfMonth = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  // Sunday is 0 or 7
+  const daysOfWeek = parseCronField(fields[4], 0, 7);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !fields[2].startsWith('*'),
+    daysOfWeekRestricted: !fields[4].startsWith('*')
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// Far enough to reach the next leap day ("0 0 29 2 *") and give up on dates that never come ("0 0 30 2 *")
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * The first time after `after` that a schedule runs, or null if it never does
+ */
+export function nextCronRun(schedule: CronSchedule | string, after: Date): Date | null {
+  const parsed = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  if (!parsed) return null;
+
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  // Skip whole months, days and hours that can't match rather than stepping minute by minute
+  while (next.getTime() <= limit) {
+    if (!parsed.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(parsed, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!parsed.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!parsed.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  return null;
+}
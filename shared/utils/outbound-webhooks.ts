@@ -0,0 +1,54 @@
+/**
+ * Outbound webhook rules
+ *
+ * External systems subscribe to tour and booking changes; each change is posted to every
+ * enabled subscription whose event filter includes it (server/services/outbound-webhooks.ts).
+ * Bodies are signed the same way inbound webhooks are checked: an HMAC-SHA256 of the JSON
+ * body with the subscription's secret, hex encoded in the X-Webhook-Signature header.
+ */
+
+export const webhookEventTypes = [
+  'tourVenue.statusChanged',
+  'tour.optimized',
+  'inquiry.created'
+] as const;
+export type WebhookEventType = typeof webhookEventTypes[number];
+
+// Sent from the admin settings page; delivered to the chosen subscription whatever its filter
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export const webhookDeliveryStatuses = ['pending', 'succeeded', 'failed'] as const;
+export type WebhookDeliveryStatus = typeof webhookDeliveryStatuses[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+// Longest response body kept in the delivery log
+export const RESPONSE_BODY_LIMIT = 2000;
+
+/**
+ * The body posted to a subscriber
+ */
+export interface WebhookEnvelope<T = unknown> {
+  // The same for every subscription the event goes to, so receivers can drop repeats
+  id: string;
+  type: string;
+  createdAt: string;
+  data: T;
+}
+
+/**
+ * Whether a subscription's filter takes an event
+ * An empty filter takes every event.
+ */
+export function subscribesTo(eventTypes: readonly string[], type: string): boolean {
+  return eventTypes.length === 0 || eventTypes.includes(type);
+}
+
+/**
+ * A response body cut to the length kept in the delivery log
+ */
+export function truncateResponseBody(body: string, limit = RESPONSE_BODY_LIMIT): string {
+  return body.length > limit ? `${body.slice(0, limit)}…` : body;
+}
@@ -0,0 +1,122 @@
+/**
+ * Radius clauses
+ *
+ * A booking's radius clause keeps the artist from playing within a distance of the
+ * show for a number of days before and after it, e.g. no shows within 80 km for 45
+ * days either side. Bookings are the artist's events and tour venues on any tour.
+ */
+import { calculateDistance } from './geo';
+import { daysBetween } from './tour-solver';
+
+export type BookingKind = 'tourVenue' | 'event' | 'proposed';
+
+export interface RadiusClauseTerms {
+  id: number;
+  radiusKm: number;
+  daysBefore: number;
+  daysAfter: number;
+}
+
+/**
+ * A show of the artist; proposed bookings are venues an optimization would add
+ */
+export interface Booking {
+  kind: BookingKind;
+  // Tour venue or event id; the venue id for proposed bookings
+  id: number;
+  tourId: number | null;
+  venueId: number;
+  venueName: string;
+  latitude: number | null;
+  longitude: number | null;
+  date: string | null; // YYYY-MM-DD
+  clauses: RadiusClauseTerms[];
+}
+
+export interface RadiusConflict {
+  clauseId: number;
+  // Booking whose clause is breached
+  protectedBooking: Pick<Booking, 'kind' | 'id' | 'tourId' | 'venueId' | 'venueName' | 'date'>;
+  conflictingBooking: Pick<Booking, 'kind' | 'id' | 'tourId' | 'venueId' | 'venueName' | 'date'>;
+  distanceKm: number;
+  // Days from the protected show to the conflicting one; negative when before it
+  daysApart: number;
+  detail: string;
+}
+
+const summary = ({ kind, id, tourId, venueId, venueName, date }: Booking) =>
+  ({ kind, id, tourId, venueId, venueName, date });
+
+function isSameBooking(a: Booking, b: Booking): boolean {
+  if (a.kind === b.kind && a.id === b.id) return true;
+  // An event recorded for a tour date is the same show
+  return a.venueId === b.venueId && a.date === b.date;
+}
+
+/**
+ * The clause of a booking the other booking breaches, if any
+ */
+function breach(booking: Booking, other: Booking): RadiusConflict | null {
+  if (!booking.date || !other.date || booking.latitude == null || booking.longitude == null ||
+      other.latitude == null || other.longitude == null || isSameBooking(booking, other)) {
+    return null;
+  }
+
+  const daysApart = daysBetween(booking.date, other.date);
+  const distanceKm = Math.round(
+    calculateDistance(booking.latitude, booking.longitude, other.latitude, other.longitude) * 10
+  ) / 10;
+
+  const clause = booking.clauses.find(terms =>
+    distanceKm <= terms.radiusKm && daysApart >= -terms.daysBefore && daysApart <= terms.daysAfter
+  );
+  if (!clause) return null;
+
+  const when = daysApart === 0 ? 'the same day' : `${Math.abs(daysApart)} days ${daysApart < 0 ? 'before' : 'after'}`;
+  return {
+    clauseId: clause.id,
+    protectedBooking: summary(booking),
+    conflictingBooking: summary(other),
+    distanceKm,
+    daysApart,
+    detail: `${other.venueName} on ${other.date} is ${distanceKm} km from ${booking.venueName}, ${when} its show on ${booking.date}, ` +
+      `inside its ${clause.radiusKm} km radius clause (${clause.daysBefore} days before, ${clause.daysAfter} after)`
+  };
+}
+
+/**
+ * Every radius clause breached by another of the artist's bookings
+ */
+export function findRadiusConflicts(bookings: Booking[]): RadiusConflict[] {
+  const conflicts: RadiusConflict[] = [];
+  for (const booking of bookings) {
+    if (booking.clauses.length === 0) continue;
+    for (const other of bookings) {
+      const conflict = breach(booking, other);
+      if (conflict) conflicts.push(conflict);
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Clauses of the artist's bookings a show at the venue on the date would breach
+ */
+export function clausesBreachedBy(
+  bookings: Booking[],
+  venue: { id: number; name: string; latitude: number | null; longitude: number | null },
+  date: string
+): RadiusConflict[] {
+  const proposed: Booking = {
+    kind: 'proposed',
+    id: venue.id,
+    tourId: null,
+    venueId: venue.id,
+    venueName: venue.name,
+    latitude: venue.latitude,
+    longitude: venue.longitude,
+    date,
+    clauses: []
+  };
+  return bookings.flatMap(booking => breach(booking, proposed) ?? []);
+}
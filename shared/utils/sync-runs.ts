@@ -0,0 +1,90 @@
+/**
+ * Sync run rules
+ *
+ * Every collector records what it did as a sync run (server/services/sync-runs.ts): how many
+ * items it created, updated, left unchanged, skipped or failed on, and an error record for
+ * each failure. The functions here decide a finished run's status and turn failed items back
+ * into the jobs that process them again.
+ */
+
+export const syncRunStatuses = ['running', 'succeeded', 'partial', 'failed'] as const;
+export type SyncRunStatus = typeof syncRunStatuses[number];
+
+export interface SyncCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  errored: number;
+}
+
+export type SyncOutcome = keyof SyncCounts;
+
+export function emptySyncCounts(): SyncCounts {
+  return { created: 0, updated: 0, unchanged: 0, skipped: 0, errored: 0 };
+}
+
+/**
+ * A finished run's status
+ * A run that failed outright, or failed on every item it reached, has failed. One that
+ * failed on some items is partial.
+ * @param aborted Whether the run stopped on an error of its own rather than an item's
+ */
+export function syncRunStatus(counts: SyncCounts, aborted = false): SyncRunStatus {
+  if (aborted) return 'failed';
+  if (counts.errored === 0) return 'succeeded';
+
+  const processed = counts.created + counts.updated + counts.unchanged + counts.skipped;
+  return processed === 0 ? 'failed' : 'partial';
+}
+
+export interface RetryableError {
+  id: number;
+  retryType: string | null;
+  retryPayload: Record<string, unknown> | null;
+}
+
+export interface RetryRequest {
+  type: string;
+  payload: Record<string, unknown>;
+  // The errors the job processes again
+  errorIds: number[];
+}
+
+// JSON with object keys sorted, so equal payloads compare equal
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * The jobs to queue to process failed items again, one per distinct job and payload
+ * Items failing in the same run often share a retry (a whole artist's sync, say), which is
+ * then queued once. Errors with no retry are left out.
+ */
+export function retryRequests(errors: RetryableError[]): RetryRequest[] {
+  const requests = new Map<string, RetryRequest>();
+
+  for (const error of errors) {
+    if (!error.retryType) continue;
+
+    const payload = error.retryPayload ?? {};
+    const key = `${error.retryType} ${canonicalJson(payload)}`;
+    const request = requests.get(key);
+    if (request) {
+      request.errorIds.push(error.id);
+    } else {
+      requests.set(key, { type: error.retryType, payload, errorIds: [error.id] });
+    }
+  }
+
+  return [...requests.values()];
+}
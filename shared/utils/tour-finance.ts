@@ -0,0 +1,230 @@
+/**
+ * Tour finances
+ *
+ * Settles a show's deal (a guarantee versus a share of the door, plus bar and merch
+ * splits) against its costs, and adds shows up into a tour P&L. The same calculation
+ * gives the projected settlement from the deal's projections and the actual one from
+ * the takings entered after the show.
+ *
+ * Routes are also costed as a whole for the optimizer's revenue objective: expected
+ * ticket sales of every show less the fuel and the days on the road.
+ */
+
+export const DEFAULT_FUEL_COST_PER_KM = 0.3;
+export const DEFAULT_LODGING_PER_NIGHT = 150;
+export const DEFAULT_PER_DIEM = 35;
+export const DEFAULT_PARTY_SIZE = 4;
+export const DEFAULT_TICKET_PRICE = 25;
+// Share of the venue's capacity expected to buy tickets when the deal gives no projection
+export const DEFAULT_PROJECTED_ATTENDANCE = 0.6;
+
+export type MarketCategory = 'primary' | 'secondary' | 'tertiary';
+
+// Share of the artist's audience that turns out in each size of market
+export const MARKET_DRAW_FACTORS: Record<MarketCategory, number> = {
+  primary: 1,
+  secondary: 0.75,
+  tertiary: 0.5
+};
+
+/**
+ * Tour-wide cost assumptions
+ */
+export interface TourCostRates {
+  fuelCostPerKm: number;
+  lodgingPerNight: number;
+  perDiem: number;
+  partySize: number;
+}
+
+/**
+ * Cost assumptions as stored on a tour budget; unset rates are null
+ */
+export type StoredCostRates = { [Rate in keyof TourCostRates]?: number | null };
+
+export interface ShowDeal {
+  guarantee: number;
+  // Artist's share of the ticket gross, 0-100
+  doorSplitPercent: number;
+  ticketPrice: number;
+  // Artist's share of bar sales, 0-100
+  barSplitPercent: number;
+  // Artist's share of merch sales, 0-100
+  merchSplitPercent: number;
+}
+
+export interface ShowTakings {
+  tickets: number;
+  barSales: number;
+  merchSales: number;
+}
+
+export interface ShowCosts {
+  fuel: number;
+  lodging: number;
+  perDiems: number;
+  other: number;
+  total: number;
+}
+
+export interface ShowSettlementFigures {
+  ticketGross: number;
+  doorShare: number;
+  // Guarantee or door share, whichever is higher
+  showFee: number;
+  barShare: number;
+  merchShare: number;
+  income: number;
+  costs: ShowCosts;
+  net: number;
+}
+
+export interface ProfitAndLoss {
+  income: number;
+  expenses: number;
+  net: number;
+}
+
+/**
+ * Projected ticket sales of a route against what it costs to travel
+ */
+export interface RevenueProjection {
+  shows: number;
+  expectedDraw: number;
+  ticketGross: number;
+  // Fuel for the driven legs
+  travelCost: number;
+  // Lodging and per diems for the days on the road
+  dailyCosts: number;
+  days: number;
+  net: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Tour cost rates with the defaults filled in for unset ones
+ */
+export function resolveCostRates(rates: StoredCostRates | null | undefined): TourCostRates {
+  return {
+    fuelCostPerKm: rates?.fuelCostPerKm ?? DEFAULT_FUEL_COST_PER_KM,
+    lodgingPerNight: rates?.lodgingPerNight ?? DEFAULT_LODGING_PER_NIGHT,
+    perDiem: rates?.perDiem ?? DEFAULT_PER_DIEM,
+    partySize: rates?.partySize ?? DEFAULT_PARTY_SIZE
+  };
+}
+
+/**
+ * Lodging and per diems of one day on the road
+ */
+export function dailyCost(rates: TourCostRates): number {
+  return rates.lodgingPerNight + rates.perDiem * rates.partySize;
+}
+
+/**
+ * Tickets a show is expected to sell
+ * Popularity (0-100) maps to an audience that doubles every 12 points, like the venue
+ * prediction's capacity fit, scaled down for smaller markets and capped at the venue's
+ * capacity. Without a popularity the default attendance share of the room is used.
+ */
+export function expectedDraw(
+  venue: { capacity?: number | null; marketCategory?: MarketCategory | null },
+  popularity: number | null | undefined
+): number {
+  if (!venue.capacity) return 0;
+
+  const marketFactor = venue.marketCategory ? MARKET_DRAW_FACTORS[venue.marketCategory] : 1;
+  const audience = popularity != null
+    ? 100 * Math.pow(2, popularity / 12)
+    : venue.capacity * DEFAULT_PROJECTED_ATTENDANCE;
+  return Math.round(Math.min(venue.capacity, audience * marketFactor));
+}
+
+/**
+ * Net revenue of a route: ticket sales of its shows less fuel and daily costs
+ * @param draws Expected tickets of each show
+ * @param drivenKm Distance driven; ferry and flight legs are not fuelled
+ * @param days Days on the road from the first show to the last
+ */
+export function projectRevenue(
+  draws: number[],
+  drivenKm: number,
+  days: number,
+  rates: TourCostRates,
+  ticketPrice = DEFAULT_TICKET_PRICE
+): RevenueProjection {
+  const expectedDraw = draws.reduce((sum, draw) => sum + draw, 0);
+  const ticketGross = roundMoney(expectedDraw * ticketPrice);
+  const costs = showCosts(drivenKm, days, rates);
+  const dailyCosts = roundMoney(costs.lodging + costs.perDiems);
+
+  return {
+    shows: draws.length,
+    expectedDraw,
+    ticketGross,
+    travelCost: costs.fuel,
+    dailyCosts,
+    days,
+    net: roundMoney(ticketGross - costs.total)
+  };
+}
+
+/**
+ * Costs of getting to and staying for a show
+ * @param distanceKm Drive from the previous show
+ * @param days Days on the road since the previous show; each one costs a night of lodging and per diems
+ * @param overrides Show-specific lodging per night and other expenses
+ */
+export function showCosts(
+  distanceKm: number,
+  days: number,
+  rates: TourCostRates,
+  overrides: { lodgingCost?: number | null; otherExpenses?: number | null } = {}
+): ShowCosts {
+  const fuel = roundMoney(distanceKm * rates.fuelCostPerKm);
+  const lodging = roundMoney(days * (overrides.lodgingCost ?? rates.lodgingPerNight));
+  const perDiems = roundMoney(days * rates.perDiem * rates.partySize);
+  const other = roundMoney(overrides.otherExpenses ?? 0);
+  return { fuel, lodging, perDiems, other, total: roundMoney(fuel + lodging + perDiems + other) };
+}
+
+/**
+ * What the artist takes home from a show
+ * @param expenses Actual expenses entered for the show; replaces the computed costs' total
+ */
+export function settleShow(
+  deal: ShowDeal,
+  takings: ShowTakings,
+  costs: ShowCosts,
+  expenses?: number | null
+): ShowSettlementFigures {
+  const ticketGross = roundMoney(takings.tickets * deal.ticketPrice);
+  const doorShare = roundMoney(ticketGross * deal.doorSplitPercent / 100);
+  const showFee = Math.max(deal.guarantee, doorShare);
+  const barShare = roundMoney(takings.barSales * deal.barSplitPercent / 100);
+  const merchShare = roundMoney(takings.merchSales * deal.merchSplitPercent / 100);
+  const income = roundMoney(showFee + barShare + merchShare);
+  const settledCosts = expenses != null ? { ...costs, total: roundMoney(expenses) } : costs;
+
+  return {
+    ticketGross,
+    doorShare,
+    showFee,
+    barShare,
+    merchShare,
+    income,
+    costs: settledCosts,
+    net: roundMoney(income - settledCosts.total)
+  };
+}
+
+/**
+ * Add settled shows up into income, expenses and net
+ */
+export function profitAndLoss(settlements: ShowSettlementFigures[]): ProfitAndLoss {
+  const income = roundMoney(settlements.reduce((sum, show) => sum + show.income, 0));
+  const expenses = roundMoney(settlements.reduce((sum, show) => sum + show.costs.total, 0));
+  return { income, expenses, net: roundMoney(income - expenses) };
+}
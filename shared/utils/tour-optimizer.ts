@@ -7,8 +7,11 @@ import {
   calculateGeographicClustering,
   calculateScheduleEfficiency,
   calculateDateCoverage,
-  OptimizationScoreParams
+  OptimizationScoreParams,
+  type RouteLeg,
+  type TravelChecklistItem
 } from './geo';
+import { solveTourRoute, type SolverName } from './tour-solver';
 
 /**
  * Represents a point in the tour route
@@ -32,6 +35,8 @@ export interface OptimizationConstraints {
   avoidDates?: string[];
   requiredDaysOff?: string[];
   preferredRegions?: string[];
+  solver?: SolverName;
+  seed?: number;
 }
 
 /**
@@ -40,6 +45,7 @@ export interface OptimizationConstraints {
  */
 export interface OptimizedVenueData {
   venue: Venue;
+  tourVenueId?: number; // Set when the venue is already part of the tour
   date?: Date | null;
   isFixed: boolean;
   status?: string;
@@ -67,6 +73,10 @@ export interface OptimizedRoute {
   totalDistance: number;
   totalTravelTime: number;
   optimizationScore: number;
+  // Legs between consecutive venues with their travel mode and border crossings
+  legs?: RouteLeg[];
+  // Visas and carnets needed for the route's border crossings
+  travelChecklist?: TravelChecklistItem[];
 }
 
 // Distance calculation and travel time functions are now imported from './geo'
@@ -111,7 +121,8 @@ export function findNearestVenue(
 }
 
 /**
- * Optimize a tour route using the nearest neighbor algorithm with constraints
+ * Optimize a tour route: sequence the existing points with the routing solver, then
+ * fill the gaps between them with nearby venues
  * @param tourPoints Points in the tour (confirmed/booked/planning venues with dates)
  * @param potentialStops Potential venues that could be added to the tour
  * @param constraints Optimization constraints
@@ -127,16 +138,28 @@ export function optimizeTourRoute(
     throw new Error("At least 2 points are required for tour optimization");
   }
   
-  // Separate confirmed venues (fixed and cannot be moved) from other venues (can be adjusted)
-  const fixedPoints = tourPoints.filter(point => point.status === 'confirmed');
-  const adjustablePoints = tourPoints.filter(point => point.status !== 'confirmed');
-  
-  // Sort all points by date if provided
-  const sortedPoints = [...tourPoints].sort((a, b) => {
-    if (!a.date || !b.date) return 0;
-    return a.date.getTime() - b.date.getTime();
+  // Sequence and date the points with the routing solver
+  // Confirmed venues are fixed and cannot be moved, other venues keep their date when it fits
+  const toDateString = (date?: Date | null) => date ? date.toISOString().slice(0, 10) : null;
+  const solution = solveTourRoute({
+    stops: tourPoints.map((point, index) => ({
+      id: index,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      fixedDate: point.status === 'confirmed' ? toDateString(point.date) : null,
+      preferredDate: point.status === 'confirmed' ? null : toDateString(point.date)
+    })),
+    constraints
+  }, {
+    solver: constraints.solver,
+    seed: constraints.seed
   });
   
+  const sortedPoints: RoutingPoint[] = solution.sequence.map(stop => ({
+    ...tourPoints[stop.stopId],
+    date: new Date(`${stop.date}T00:00:00Z`)
+  }));
+  
   // Initialize the result
   const result: OptimizedRoute = {
     tourVenues: [],
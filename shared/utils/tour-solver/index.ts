@@ -0,0 +1,40 @@
+/**
+ * Tour routing solvers
+ *
+ * Sequence and date the shows of a tour as a travelling salesman problem with time
+ * windows: confirmed shows keep their dates and the artist's scheduling preferences
+ * (gaps between shows, avoided dates, days off and daily driving limits) are respected.
+ * Solvers are registered by name so callers can pick one per request. buildItinerary
+ * lays out an already dated tour day by day, with its travel and off days.
+ */
+import { greedySolver, localSearchSolver, simulatedAnnealingSolver } from './solvers';
+import type { RoutingProblem, RoutingSolution, SolverName, SolverOptions, TourSolver } from './types';
+
+export * from './types';
+export { scheduleRoute, createScheduleContext, keepsFixedOrder, daysBetween } from './schedule';
+export * from './itinerary';
+
+export const DEFAULT_SOLVER: SolverName = 'simulated-annealing';
+
+export const tourSolvers: Record<SolverName, TourSolver> = {
+  'greedy': greedySolver,
+  'local-search': localSearchSolver,
+  'simulated-annealing': simulatedAnnealingSolver
+};
+
+export function isSolverName(name: unknown): name is SolverName {
+  return typeof name === 'string' && name in tourSolvers;
+}
+
+/**
+ * Solve a routing problem with a registered solver
+ * @param problem Stops, tour dates and constraints
+ * @param options Solver name plus seed, iteration limit and day cost
+ */
+export function solveTourRoute(
+  problem: RoutingProblem,
+  options: SolverOptions & { solver?: SolverName } = {}
+): RoutingSolution {
+  const { solver = DEFAULT_SOLVER, ...solverOptions } = options;
+  return tourSolvers[solver].solve(problem, solverOptions);
+}
@@ -0,0 +1,189 @@
+/**
+ * Day-by-day itinerary of a dated tour
+ *
+ * Fills the days between shows with travel days, when a leg is longer than the daily
+ * driving limit, and off days, and flags sequences that cannot be played as dated
+ * with the nearest dates that would work.
+ */
+import { haversineMatrix, type TravelLeg, type TravelMatrix, type TravelMode, type TravelPoint } from '../geo';
+import { addDays, daysBetween, isDayOff, parseDaysOff, toDateString, travelDays } from './schedule';
+
+const PROPOSED_DATE_COUNT = 3;
+// How far a show without a neighbouring show may move to find an alternative date
+const PROPOSAL_WINDOW_DAYS = 7;
+
+/**
+ * A dated show of the tour
+ */
+export interface ItineraryShow extends TravelPoint {
+  tourVenueId: number;
+  date: string;
+}
+
+export interface ItineraryRules {
+  maxTravelDistancePerDay?: number | null;
+  /**
+   * Weekdays kept free of shows and, where possible, of travel, e.g. ["Sunday", "Monday"]
+   */
+  requiredDaysOff?: string[] | null;
+  travel?: TravelMatrix;
+}
+
+export type ItineraryDayType = 'show' | 'travel' | 'off';
+
+export interface ItineraryDay {
+  date: string;
+  type: ItineraryDayType;
+  // Show played on the day, or the show being travelled to on travel and off days
+  tourVenueId: number;
+  // Show travelled from; null on the first show
+  fromTourVenueId: number | null;
+  // Distance covered that day
+  distanceKm: number;
+  mode: TravelMode | null;
+  // Falls on one of the artist's required days off
+  requiredDayOff: boolean;
+}
+
+export type ItineraryIssueType = 'driveLimitExceeded' | 'showOnDayOff';
+
+export interface ItineraryIssue {
+  type: ItineraryIssueType;
+  tourVenueId: number;
+  date: string;
+  detail: string;
+  /**
+   * Nearest dates the show could move to, closest first
+   */
+  proposedDates: string[];
+}
+
+export interface TourItinerary {
+  days: ItineraryDay[];
+  issues: ItineraryIssue[];
+}
+
+interface DatedLeg {
+  leg: TravelLeg;
+  days: number;
+}
+
+/**
+ * Lay out a tour day by day, from its first show to its last
+ *
+ * A leg longer than the daily limit is driven over the days before its show, leaving
+ * required days off free when the gap allows; the rest of the gap is off days. Shows
+ * without enough days to reach them, or played on a required day off, are reported
+ * with the nearest dates that leave room for the travel on both sides.
+ * @param shows Dated shows in any order
+ */
+export function buildItinerary(shows: ItineraryShow[], rules: ItineraryRules = {}): TourItinerary {
+  const travel = rules.travel ?? haversineMatrix;
+  const maxTravelDistancePerDay = rules.maxTravelDistancePerDay || null;
+  const daysOff = parseDaysOff(rules.requiredDaysOff);
+  const ordered = shows
+    .map(show => ({ ...show, date: toDateString(show.date) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const showDates = new Set(ordered.map(show => show.date));
+
+  // legs[i] is the leg into ordered[i]
+  const legs: Array<DatedLeg | null> = ordered.map((show, index) => {
+    if (index === 0) return null;
+    const leg = travel.leg(ordered[index - 1], show);
+    return { leg, days: travelDays(leg, maxTravelDistancePerDay) };
+  });
+
+  const days: ItineraryDay[] = [];
+  const issues: ItineraryIssue[] = [];
+
+  const proposeDates = (index: number): string[] => {
+    const show = ordered[index];
+    const into = legs[index];
+    const out = legs[index + 1];
+    const earliest = index > 0 ? addDays(ordered[index - 1].date, into!.days) : addDays(show.date, -PROPOSAL_WINDOW_DAYS);
+    const latest = out ? addDays(ordered[index + 1].date, -out.days) : addDays(show.date, PROPOSAL_WINDOW_DAYS);
+
+    const candidates: string[] = [];
+    for (let date = earliest; date <= latest; date = addDays(date, 1)) {
+      if (date !== show.date && !showDates.has(date) && !isDayOff(date, daysOff)) {
+        candidates.push(date);
+      }
+    }
+    return candidates
+      .sort((a, b) => Math.abs(daysBetween(show.date, a)) - Math.abs(daysBetween(show.date, b)) || a.localeCompare(b))
+      .slice(0, PROPOSED_DATE_COUNT);
+  };
+
+  ordered.forEach((show, index) => {
+    const into = legs[index];
+    const previous = index > 0 ? ordered[index - 1] : null;
+    let showDayDistance = 0;
+
+    if (previous && into) {
+      const between: string[] = [];
+      for (let date = addDays(previous.date, 1); date < show.date; date = addDays(date, 1)) {
+        between.push(date);
+      }
+
+      // Travel on working days first, then on days off if the gap is too short otherwise
+      const extraDays = Math.min(into.days - 1, between.length);
+      const travelDates = new Set([
+        ...between.filter(date => !isDayOff(date, daysOff)),
+        ...between.filter(date => isDayOff(date, daysOff))
+      ].slice(0, extraDays));
+      const dailyDistance = into.leg.distanceKm / (travelDates.size + 1);
+      const mode = into.leg.mode ?? 'drive';
+
+      for (const date of between) {
+        const travelling = travelDates.has(date);
+        days.push({
+          date,
+          type: travelling ? 'travel' : 'off',
+          tourVenueId: show.tourVenueId,
+          fromTourVenueId: previous.tourVenueId,
+          distanceKm: travelling ? dailyDistance : 0,
+          mode: travelling ? mode : null,
+          requiredDayOff: isDayOff(date, daysOff)
+        });
+      }
+      showDayDistance = dailyDistance;
+
+      const available = daysBetween(previous.date, show.date);
+      if (available < into.days) {
+        const detail = available === 0
+          ? 'Shares its date with the previous show'
+          : `${Math.round(into.leg.distanceKm)} km from the previous show needs ${into.days} days of travel ` +
+            `but only ${available} ${available === 1 ? 'is' : 'are'} available`;
+        issues.push({
+          type: 'driveLimitExceeded',
+          tourVenueId: show.tourVenueId,
+          date: show.date,
+          detail,
+          proposedDates: proposeDates(index)
+        });
+      }
+    }
+
+    days.push({
+      date: show.date,
+      type: 'show',
+      tourVenueId: show.tourVenueId,
+      fromTourVenueId: previous?.tourVenueId ?? null,
+      distanceKm: showDayDistance,
+      mode: into ? into.leg.mode ?? 'drive' : null,
+      requiredDayOff: isDayOff(show.date, daysOff)
+    });
+
+    if (isDayOff(show.date, daysOff)) {
+      issues.push({
+        type: 'showOnDayOff',
+        tourVenueId: show.tourVenueId,
+        date: show.date,
+        detail: 'Falls on one of the artist\'s required days off',
+        proposedDates: proposeDates(index)
+      });
+    }
+  });
+
+  return { days, issues };
+}
@@ -0,0 +1,25 @@
+import type { SolverStop } from './types';
+
+/**
+ * Reverse the stops from position i to j (inclusive), the classic 2-opt move
+ */
+export function twoOptMove(route: SolverStop[], i: number, j: number): SolverStop[] {
+  return [
+    ...route.slice(0, i),
+    ...route.slice(i, j + 1).reverse(),
+    ...route.slice(j + 1)
+  ];
+}
+
+/**
+ * Move a run of stops to another position, the Or-opt move
+ * @param route Current route
+ * @param from First position of the run
+ * @param length Number of stops in the run
+ * @param to Position the run starts at once moved (counted after removing it)
+ */
+export function orOptMove(route: SolverStop[], from: number, length: number, to: number): SolverStop[] {
+  const segment = route.slice(from, from + length);
+  const rest = [...route.slice(0, from), ...route.slice(from + length)];
+  return [...rest.slice(0, to), ...segment, ...rest.slice(to)];
+}
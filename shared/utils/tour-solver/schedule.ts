@@ -0,0 +1,240 @@
+import { haversineMatrix, type TravelLeg, type TravelMatrix } from '../geo';
+import type {
+  ConstraintViolation,
+  RoutingProblem,
+  ScheduledStop,
+  SolverOptions,
+  SolverStop
+} from './types';
+
+// Penalties are expressed in kilometers so they can be added to the route distance
+const VIOLATION_PENALTY_KM = 10000;
+const PENALTY_PER_DAY_KM = 1000;
+const PREFERRED_DATE_PENALTY_KM = 25; // per day away from the preferred date
+const MAX_DATE_SEARCH_DAYS = 366;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+// Accept full timestamps as well as plain dates
+export function toDateString(value: string): string {
+  return value.slice(0, 10);
+}
+
+/**
+ * Weekday numbers (0 = Sunday) of days off given by name, e.g. ["Sunday", "Monday"]
+ */
+export function parseDaysOff(days: string[] | null | undefined): Set<number> {
+  return new Set(
+    (days || [])
+      .map(day => WEEKDAYS.indexOf(day.trim().toLowerCase()))
+      .filter(index => index >= 0)
+  );
+}
+
+export function isDayOff(date: string, daysOff: Set<number>): boolean {
+  return daysOff.has(new Date(`${date}T00:00:00Z`).getUTCDay());
+}
+
+/**
+ * Constraint data prepared once per problem so each schedule evaluation stays cheap
+ */
+export interface ScheduleContext {
+  anchorDate: string;
+  startDate: string | null;
+  endDate: string | null;
+  minGapDays: number;
+  maxGapDays: number | null;
+  maxTravelDistancePerDay: number | null;
+  blockedDates: Set<string>;
+  daysOff: Set<number>;
+  reservedDates: Set<string>;
+  dayCostKm: number;
+  travel: TravelMatrix;
+}
+
+export interface ScheduleResult {
+  sequence: ScheduledStop[];
+  totalDistanceKm: number;
+  spanDays: number;
+  violations: ConstraintViolation[];
+  cost: number;
+}
+
+/**
+ * Prepare the constraints of a problem for repeated schedule evaluation
+ * Scheduling starts at the tour start date, else at the earliest fixed or preferred date
+ */
+export function createScheduleContext(problem: RoutingProblem, options: SolverOptions = {}): ScheduleContext {
+  const constraints = problem.constraints || {};
+  const knownDates = problem.stops
+    .flatMap(stop => [stop.fixedDate, stop.preferredDate])
+    .filter((date): date is string => !!date)
+    .map(toDateString)
+    .sort();
+
+  const startDate = problem.startDate ? toDateString(problem.startDate) : null;
+  const daysOff = parseDaysOff(constraints.requiredDaysOff);
+
+  return {
+    anchorDate: startDate ?? knownDates[0] ?? new Date().toISOString().slice(0, 10),
+    startDate,
+    endDate: problem.endDate ? toDateString(problem.endDate) : null,
+    minGapDays: Math.max(1, constraints.minDaysBetweenShows ?? 1),
+    maxGapDays: constraints.maxDaysBetweenShows ?? null,
+    maxTravelDistancePerDay: constraints.maxTravelDistancePerDay || null,
+    blockedDates: new Set((constraints.avoidDates || []).filter(date => typeof date === 'string').map(toDateString)),
+    daysOff,
+    reservedDates: new Set(
+      problem.stops.filter(stop => stop.fixedDate).map(stop => toDateString(stop.fixedDate!))
+    ),
+    dayCostKm: options.dayCostKm ?? 0,
+    travel: options.travelMatrix ?? haversineMatrix
+  };
+}
+
+/**
+ * Fixed stops can only be played in the order of their dates
+ */
+export function keepsFixedOrder(route: SolverStop[]): boolean {
+  let lastFixed = '';
+  for (const stop of route) {
+    if (stop.fixedDate) {
+      const date = toDateString(stop.fixedDate);
+      if (date < lastFixed) return false;
+      lastFixed = date;
+    }
+  }
+  return true;
+}
+
+/**
+ * Days a leg takes within the daily driving limit; ferries and flights take one day
+ */
+export function travelDays(leg: TravelLeg, maxTravelDistancePerDay: number | null): number {
+  return maxTravelDistancePerDay && (leg.mode ?? 'drive') === 'drive'
+    ? Math.max(1, Math.ceil(leg.distanceKm / maxTravelDistancePerDay))
+    : 1;
+}
+
+// Days needed between two shows: the minimum gap, or longer when the drive exceeds the daily limit
+function requiredGap(leg: TravelLeg, context: ScheduleContext): number {
+  return Math.max(context.minGapDays, travelDays(leg, context.maxTravelDistancePerDay));
+}
+
+// Free stops may not use avoided dates, days off, dates taken by a confirmed show or
+// dates their venue cannot take
+function isOpenDate(date: string, context: ScheduleContext, stop: SolverStop): boolean {
+  if (context.blockedDates.has(date) || context.reservedDates.has(date)) {
+    return false;
+  }
+  return !isDayOff(date, context.daysOff) && (stop.canPlay?.(date) ?? true);
+}
+
+/**
+ * Date every stop of a route and score the result
+ *
+ * Fixed stops keep their date. Every other stop gets the first open date after the
+ * previous show that leaves the required gap, or its preferred date when that is
+ * later and still within maxDaysBetweenShows. Broken constraints are reported and
+ * added to the cost as penalties.
+ * @param route Stops in the order they are played
+ * @param context Constraints prepared with createScheduleContext
+ */
+export function scheduleRoute(route: SolverStop[], context: ScheduleContext): ScheduleResult {
+  const sequence: ScheduledStop[] = [];
+  const violations: ConstraintViolation[] = [];
+  let totalDistanceKm = 0;
+  let penalty = 0;
+  let previous: { stop: SolverStop; date: string } | null = null;
+
+  for (const stop of route) {
+    const leg: TravelLeg = previous
+      ? context.travel.leg(previous.stop, stop)
+      : { distanceKm: 0, travelTimeMinutes: 0 };
+    const distance = leg.distanceKm;
+    const gapNeeded = requiredGap(leg, context);
+    let date: string;
+
+    if (stop.fixedDate) {
+      date = toDateString(stop.fixedDate);
+
+      if (previous) {
+        const gap = daysBetween(previous.date, date);
+        if (gap < gapNeeded) {
+          violations.push({
+            stopId: stop.id,
+            type: 'fixedDateUnreachable',
+            detail: `Needs ${gapNeeded} days after the previous show but only ${gap} are available`
+          });
+          penalty += VIOLATION_PENALTY_KM + (gapNeeded - gap) * PENALTY_PER_DAY_KM;
+        }
+      }
+    } else {
+      date = previous ? addDays(previous.date, gapNeeded) : context.anchorDate;
+
+      const preferred = stop.preferredDate ? toDateString(stop.preferredDate) : null;
+      if (preferred && preferred > date &&
+          (!previous || context.maxGapDays === null || daysBetween(previous.date, preferred) <= context.maxGapDays)) {
+        date = preferred;
+      }
+
+      for (let i = 0; i < MAX_DATE_SEARCH_DAYS && !isOpenDate(date, context, stop); i++) {
+        date = addDays(date, 1);
+      }
+
+      if (preferred) {
+        penalty += Math.abs(daysBetween(preferred, date)) * PREFERRED_DATE_PENALTY_KM;
+      }
+    }
+
+    if (previous && context.maxGapDays !== null) {
+      const gap = daysBetween(previous.date, date);
+      if (gap > context.maxGapDays) {
+        violations.push({
+          stopId: stop.id,
+          type: 'maxDaysBetweenShows',
+          detail: `${gap} days after the previous show (maximum ${context.maxGapDays})`
+        });
+        penalty += VIOLATION_PENALTY_KM + (gap - context.maxGapDays) * PENALTY_PER_DAY_KM;
+      }
+    }
+
+    const daysOutside = context.endDate && date > context.endDate
+      ? daysBetween(context.endDate, date)
+      : context.startDate && date < context.startDate ? daysBetween(date, context.startDate) : 0;
+    if (daysOutside > 0) {
+      violations.push({
+        stopId: stop.id,
+        type: 'outsideTourDates',
+        detail: `${daysOutside} days outside the tour dates`
+      });
+      penalty += VIOLATION_PENALTY_KM + daysOutside * PENALTY_PER_DAY_KM;
+    }
+
+    totalDistanceKm += distance;
+    sequence.push({ stopId: stop.id, date, isFixed: !!stop.fixedDate, distanceFromPreviousKm: distance });
+    previous = { stop, date };
+  }
+
+  const dates = sequence.map(scheduled => scheduled.date).sort();
+  const spanDays = dates.length > 0 ? daysBetween(dates[0], dates[dates.length - 1]) + 1 : 0;
+
+  return {
+    sequence,
+    totalDistanceKm,
+    spanDays,
+    violations,
+    cost: totalDistanceKm + context.dayCostKm * spanDays + penalty
+  };
+}
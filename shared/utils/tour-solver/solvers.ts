@@ -0,0 +1,202 @@
+import { createRandom, randomInt } from './random';
+import { orOptMove, twoOptMove } from './moves';
+import { createScheduleContext, keepsFixedOrder, scheduleRoute, type ScheduleContext } from './schedule';
+import type { RoutingProblem, RoutingSolution, SolverName, SolverOptions, SolverStop, TourSolver } from './types';
+
+const DEFAULT_SEED = 1;
+const DEFAULT_LOCAL_SEARCH_ITERATIONS = 20000;
+const DEFAULT_ANNEALING_ITERATIONS = 5000;
+const MAX_OR_OPT_LENGTH = 3;
+const EPSILON = 1e-6;
+
+/**
+ * Counts schedule evaluations so every solver respects maxIterations
+ */
+class Evaluator {
+  iterations = 0;
+
+  constructor(private context: ScheduleContext, private maxIterations: number) {}
+
+  get exhausted(): boolean {
+    return this.iterations >= this.maxIterations;
+  }
+
+  cost(route: SolverStop[]): number {
+    this.iterations++;
+    return scheduleRoute(route, this.context).cost;
+  }
+}
+
+function toSolution(solver: SolverName, route: SolverStop[], context: ScheduleContext, iterations: number): RoutingSolution {
+  const schedule = scheduleRoute(route, context);
+  return {
+    solver,
+    sequence: schedule.sequence,
+    totalDistanceKm: schedule.totalDistanceKm,
+    spanDays: schedule.spanDays,
+    violations: schedule.violations,
+    cost: schedule.cost,
+    iterations
+  };
+}
+
+/**
+ * Cheapest insertion: fixed stops in date order, then each other stop (earliest
+ * preferred date first) goes where it adds the least cost
+ */
+function buildInitialRoute(stops: SolverStop[], evaluator: Evaluator): SolverStop[] {
+  const byDate = (a?: string | null, b?: string | null) => (a || '9999-12-31').localeCompare(b || '9999-12-31');
+  const fixed = stops
+    .filter(stop => stop.fixedDate)
+    .sort((a, b) => byDate(a.fixedDate, b.fixedDate) || a.id - b.id);
+  const free = stops
+    .filter(stop => !stop.fixedDate)
+    .sort((a, b) => byDate(a.preferredDate, b.preferredDate) || a.id - b.id);
+
+  let route = fixed;
+  for (const stop of free) {
+    let best: SolverStop[] | null = null;
+    let bestCost = Infinity;
+
+    for (let position = 0; position <= route.length; position++) {
+      const candidate = [...route.slice(0, position), stop, ...route.slice(position)];
+      const cost = evaluator.cost(candidate);
+      if (cost < bestCost - EPSILON) {
+        best = candidate;
+        bestCost = cost;
+      }
+    }
+
+    route = best!;
+  }
+
+  return route;
+}
+
+/**
+ * First-improvement descent over 2-opt and Or-opt moves until no move helps
+ */
+function improveRoute(route: SolverStop[], evaluator: Evaluator): SolverStop[] {
+  let current = route;
+  let currentCost = evaluator.cost(current);
+  let improved = true;
+
+  const tryMove = (candidate: SolverStop[]) => {
+    if (!keepsFixedOrder(candidate)) return false;
+    const cost = evaluator.cost(candidate);
+    if (cost < currentCost - EPSILON) {
+      current = candidate;
+      currentCost = cost;
+      return true;
+    }
+    return false;
+  };
+
+  while (improved && !evaluator.exhausted) {
+    improved = false;
+
+    for (let i = 0; i < current.length - 1 && !evaluator.exhausted; i++) {
+      for (let j = i + 1; j < current.length && !evaluator.exhausted; j++) {
+        if (tryMove(twoOptMove(current, i, j))) improved = true;
+      }
+    }
+
+    for (let length = 1; length <= MAX_OR_OPT_LENGTH; length++) {
+      for (let from = 0; from + length <= current.length && !evaluator.exhausted; from++) {
+        for (let to = 0; to <= current.length - length && !evaluator.exhausted; to++) {
+          if (to === from) continue;
+          if (tryMove(orOptMove(current, from, length, to))) improved = true;
+        }
+      }
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Greedy solver: cheapest insertion only
+ */
+export const greedySolver: TourSolver = {
+  name: 'greedy',
+  solve(problem: RoutingProblem, options: SolverOptions = {}): RoutingSolution {
+    const context = createScheduleContext(problem, options);
+    const evaluator = new Evaluator(context, Infinity);
+    const route = buildInitialRoute(problem.stops, evaluator);
+    return toSolution('greedy', route, context, evaluator.iterations);
+  }
+};
+
+/**
+ * Local search solver: cheapest insertion improved with 2-opt and Or-opt moves
+ * Deterministic without a seed because moves are tried in a fixed order
+ */
+export const localSearchSolver: TourSolver = {
+  name: 'local-search',
+  solve(problem: RoutingProblem, options: SolverOptions = {}): RoutingSolution {
+    const context = createScheduleContext(problem, options);
+    const evaluator = new Evaluator(context, options.maxIterations ?? DEFAULT_LOCAL_SEARCH_ITERATIONS);
+    const route = improveRoute(buildInitialRoute(problem.stops, evaluator), evaluator);
+    return toSolution('local-search', route, context, evaluator.iterations);
+  }
+};
+
+/**
+ * Simulated annealing solver
+ *
+ * Starts from cheapest insertion, makes random 2-opt and Or-opt moves and accepts
+ * worse routes with a probability that falls as the temperature cools, then polishes
+ * the best route found with local search. The seed makes runs reproducible.
+ */
+export const simulatedAnnealingSolver: TourSolver = {
+  name: 'simulated-annealing',
+  solve(problem: RoutingProblem, options: SolverOptions = {}): RoutingSolution {
+    const context = createScheduleContext(problem, options);
+    const annealingIterations = options.maxIterations ?? DEFAULT_ANNEALING_ITERATIONS;
+    const evaluator = new Evaluator(context, annealingIterations + DEFAULT_LOCAL_SEARCH_ITERATIONS);
+    const random = createRandom(options.seed ?? DEFAULT_SEED);
+
+    let current = buildInitialRoute(problem.stops, evaluator);
+    let currentCost = evaluator.cost(current);
+    let best = current;
+    let bestCost = currentCost;
+
+    if (current.length > 2) {
+      // Start warm enough to accept a detour the size of an average leg
+      const startTemperature = Math.max(10, scheduleRoute(current, context).totalDistanceKm / current.length);
+      const cooling = Math.pow(0.001, 1 / annealingIterations);
+      let temperature = startTemperature;
+
+      for (let step = 0; step < annealingIterations; step++, temperature *= cooling) {
+        let candidate: SolverStop[];
+
+        if (random() < 0.5) {
+          const i = randomInt(random, 0, current.length - 2);
+          candidate = twoOptMove(current, i, randomInt(random, i + 1, current.length - 1));
+        } else {
+          const length = randomInt(random, 1, Math.min(MAX_OR_OPT_LENGTH, current.length - 1));
+          const from = randomInt(random, 0, current.length - length);
+          candidate = orOptMove(current, from, length, randomInt(random, 0, current.length - length));
+        }
+
+        if (!keepsFixedOrder(candidate)) continue;
+
+        const cost = evaluator.cost(candidate);
+        const delta = cost - currentCost;
+
+        if (delta < 0 || random() < Math.exp(-delta / temperature)) {
+          current = candidate;
+          currentCost = cost;
+
+          if (cost < bestCost - EPSILON) {
+            best = candidate;
+            bestCost = cost;
+          }
+        }
+      }
+    }
+
+    const route = improveRoute(best, evaluator);
+    return toSolution('simulated-annealing', route, context, evaluator.iterations);
+  }
+};
@@ -0,0 +1,122 @@
+/**
+ * Types shared by the tour routing solvers
+ */
+import type { TravelMatrix } from '../geo';
+
+/**
+ * A show to place in the route
+ */
+export interface SolverStop {
+  id: number;
+  latitude: number | null;
+  longitude: number | null;
+  country?: string | null;
+  /**
+   * Confirmed date (YYYY-MM-DD); the stop is played on exactly this date
+   */
+  fixedDate?: string | null;
+  /**
+   * Date the stop would like (YYYY-MM-DD); used when it fits the schedule
+   */
+  preferredDate?: string | null;
+  /**
+   * Whether the venue can take a show on a date (YYYY-MM-DD); every date when unset
+   */
+  canPlay?: (date: string) => boolean;
+}
+
+/**
+ * Scheduling rules, usually taken from artistTourPreferences
+ */
+export interface SolverConstraints {
+  /**
+   * Minimum number of days from one show to the next (1 allows consecutive days)
+   */
+  minDaysBetweenShows?: number | null;
+  maxDaysBetweenShows?: number | null;
+  /**
+   * Dates no show may be played on (YYYY-MM-DD)
+   */
+  avoidDates?: string[] | null;
+  /**
+   * Weekdays kept free of shows, e.g. ["Sunday", "Monday"]
+   */
+  requiredDaysOff?: string[] | null;
+  /**
+   * Maximum driving distance per day in kilometers; longer drives take extra days
+   */
+  maxTravelDistancePerDay?: number | null;
+}
+
+/**
+ * Everything a solver needs to sequence and date a tour
+ */
+export interface RoutingProblem {
+  stops: SolverStop[];
+  startDate?: string | null;
+  endDate?: string | null;
+  constraints?: SolverConstraints;
+}
+
+export interface SolverOptions {
+  /**
+   * Seed for solvers that make random moves; the same seed always gives the same route
+   */
+  seed?: number;
+  /**
+   * Upper bound on the moves a solver evaluates
+   */
+  maxIterations?: number;
+  /**
+   * Cost of each day the tour lasts, in kilometers; 0 optimizes for distance only
+   */
+  dayCostKm?: number;
+  /**
+   * Distances between stops; straight-line distance when not given
+   */
+  travelMatrix?: TravelMatrix;
+}
+
+export type ConstraintViolationType =
+  | 'fixedDateUnreachable'
+  | 'maxDaysBetweenShows'
+  | 'outsideTourDates';
+
+export interface ConstraintViolation {
+  stopId: number;
+  type: ConstraintViolationType;
+  detail: string;
+}
+
+/**
+ * A stop with the date the schedule gives it
+ */
+export interface ScheduledStop {
+  stopId: number;
+  date: string;
+  isFixed: boolean;
+  distanceFromPreviousKm: number;
+}
+
+export type SolverName = 'greedy' | 'local-search' | 'simulated-annealing';
+
+export interface RoutingSolution {
+  solver: SolverName;
+  sequence: ScheduledStop[];
+  totalDistanceKm: number;
+  /**
+   * Days from the first show to the last, inclusive
+   */
+  spanDays: number;
+  violations: ConstraintViolation[];
+  /**
+   * Objective value the solver minimized (distance plus day cost and penalties)
+   */
+  cost: number;
+  iterations: number;
+}
+
+export interface TourSolver {
+  name: SolverName;
+  solve(problem: RoutingProblem, options?: SolverOptions): RoutingSolution;
+}
@@ -0,0 +1,107 @@
+/**
+ * Venue availability
+ *
+ * A venue books its recurring open nights (e.g. Thursday to Saturday) plus one-off open
+ * dates, minus its blackout ranges and the dates it is already booked: its confirmed
+ * events and confirmed holds. A venue without open nights is open every night.
+ */
+import { addDays } from './tour-solver/schedule';
+
+export interface Blackout {
+  id: number;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // inclusive
+  reason: string | null;
+}
+
+export type BookedReason = 'event' | 'confirmedHold';
+
+export interface BookedDate {
+  date: string;
+  reason: BookedReason;
+  label: string;
+}
+
+export interface VenueAvailability {
+  venueId: number;
+  // Weekdays the venue books shows on, 0 = Sunday; empty when every night is open
+  openWeekdays: number[];
+  // Dates open outside the open nights
+  openDates: string[];
+  blackouts: Blackout[];
+  booked: BookedDate[];
+}
+
+export type DayStatus = 'open' | 'closed' | 'blackout' | 'booked';
+
+export interface DayAvailability {
+  date: string;
+  status: DayStatus;
+  available: boolean;
+  detail: string | null;
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/**
+ * Whether the venue can take a show on a date, and why not
+ * Bookings come first, then blackouts, then one-off open dates and the open nights.
+ */
+export function dayAvailability(availability: VenueAvailability, date: string): DayAvailability {
+  const booked = availability.booked.find(entry => entry.date === date);
+  if (booked) {
+    return { date, status: 'booked', available: false, detail: booked.label };
+  }
+
+  const blackout = availability.blackouts.find(range => range.startDate <= date && date <= range.endDate);
+  if (blackout) {
+    return { date, status: 'blackout', available: false, detail: blackout.reason };
+  }
+
+  if (availability.openDates.includes(date) ||
+      availability.openWeekdays.length === 0 ||
+      availability.openWeekdays.includes(weekday(date))) {
+    return { date, status: 'open', available: true, detail: null };
+  }
+
+  return { date, status: 'closed', available: false, detail: `Not open on ${WEEKDAY_NAMES[weekday(date)]}s` };
+}
+
+/**
+ * Whether the venue can take a show on a date; venues without availability can take any
+ */
+export function isVenueAvailable(availability: VenueAvailability | undefined, date: string): boolean {
+  return !availability || dayAvailability(availability, date).available;
+}
+
+/**
+ * Availability of every date from one date to another, both included
+ */
+export function availabilityCalendar(availability: VenueAvailability, from: string, to: string): DayAvailability[] {
+  const days: DayAvailability[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days.push(dayAvailability(availability, date));
+  }
+  return days;
+}
+
+/**
+ * The date closest to the ideal one between two dates (both included) that passes a
+ * check, e.g. isVenueAvailable; earlier dates win ties
+ */
+export function nearestAvailableDate(
+  ideal: string,
+  from: string,
+  to: string,
+  isAvailable: (date: string) => boolean
+): string | null {
+  for (let offset = 0; ; offset++) {
+    const earlier = addDays(ideal, -offset);
+    const later = addDays(ideal, offset);
+    if (earlier < from && later > to) return null;
+    if (earlier >= from && earlier <= to && isAvailable(earlier)) return earlier;
+    if (later >= from && later <= to && isAvailable(later)) return later;
+  }
+}